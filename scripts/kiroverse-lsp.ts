@@ -0,0 +1,25 @@
+#!/usr/bin/env tsx
+
+/**
+ * KiroVerse Language Server
+ *
+ * Speaks the Language Server Protocol on stdin and stdout, so any LSP-capable
+ * editor gets Kiro feedback without a dedicated plugin.
+ * Run with: npx tsx scripts/kiroverse-lsp.ts --stdio
+ */
+
+import WebSocket from 'ws';
+import { LspConnection } from '../src/lib/ide-integration/lsp-connection';
+import { KiroLanguageServer } from '../src/lib/ide-integration/lsp-server';
+
+// stdout carries the protocol, so logging has to go to stderr
+console.log = console.error;
+
+// The SDK expects a browser-style WebSocket
+if (!globalThis.WebSocket) {
+  Object.assign(globalThis, { WebSocket });
+}
+
+const connection = new LspConnection(process.stdin, process.stdout);
+new KiroLanguageServer(connection, { onExit: code => process.exit(code) }).register();
+connection.listen();
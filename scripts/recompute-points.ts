@@ -0,0 +1,90 @@
+#!/usr/bin/env tsx
+
+/**
+ * Points Recompute Tool
+ *
+ * Recalculates ledger entries under the current PointsConfig after it changes, appending
+ * adjustment entries for any difference and rebuilding each user's totals
+ * Run with: npx tsx scripts/recompute-points.ts [command]
+ */
+
+// Load environment variables FIRST before any other imports
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+config({ path: resolve(process.cwd(), '.env.local') });
+
+// Now import the ledger service; recalculation uses the PointsConfig defaults in PointsCalculator
+import { PointsLedgerService } from '../src/lib/firebase/points-ledger';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0] || 'help';
+  const reason = process.env.RECOMPUTE_REASON || `PointsConfig recompute ${new Date().toISOString()}`;
+
+  switch (command) {
+    case 'all': {
+      console.log('🔁 Recomputing points for every user...');
+      const results = await PointsLedgerService.recomputeAll({}, reason, result => {
+        console.log(`  ${result.userId}: ${result.previousTotal} → ${result.total} (${result.adjustments} adjustments)`);
+      });
+      const adjusted = results.filter(result => result.adjustments > 0).length;
+      console.log(`✅ Recomputed ${results.length} users, ${adjusted} adjusted`);
+      break;
+    }
+
+    case 'user': {
+      const userId = args[1];
+      if (!userId) {
+        console.error('A user ID is required: recompute-points.ts user <userId>');
+        process.exit(1);
+      }
+      console.log(`🔁 Recomputing points for ${userId}...`);
+      const result = await PointsLedgerService.recomputeUser(userId, {}, reason);
+      console.log(`✅ ${result.userId}: ${result.previousTotal} → ${result.total} (${result.adjustments} adjustments)`);
+      break;
+    }
+
+    case 'rebuild': {
+      const userId = args[1];
+      if (!userId) {
+        console.error('A user ID is required: recompute-points.ts rebuild <userId>');
+        process.exit(1);
+      }
+      const totals = await PointsLedgerService.rebuildTotals(userId);
+      console.log(`✅ Rebuilt totals for ${userId} from ${totals.entryCount} entries: ${totals.total} points`);
+      break;
+    }
+
+    case 'help':
+      console.log(`
+Points Recompute Tool
+
+Usage:
+  npx tsx scripts/recompute-points.ts [command]
+
+Commands:
+  all               Recompute every user's points under the current PointsConfig
+  user <userId>     Recompute one user's points
+  rebuild <userId>  Rebuild one user's totals from their ledger without recalculating
+  help              Show this help message (default)
+
+Set RECOMPUTE_REASON to record why the recompute was run on each adjustment entry.
+
+Examples:
+  RECOMPUTE_REASON="Raised challenge base points" npx tsx scripts/recompute-points.ts all
+  npx tsx scripts/recompute-points.ts user user-123
+      `);
+      break;
+
+    default:
+      console.error(`Unknown command: ${command}`);
+      console.log('Run with "help" for usage information');
+      process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('Recompute failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,64 @@
+/**
+ * Runs flows end to end against the offline stub provider
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { getCodeFeedback, streamCodeFeedback } from '../get-code-feedback';
+import { sendChatMessage, streamChatMessage } from '../send-chat-message';
+import { generateBadgeIcon } from '../generate-badge-icon';
+import { StubFixtures } from '@/ai/providers';
+
+describe('AI flows with the stub provider', () => {
+  afterEach(() => {
+    StubFixtures.reset();
+  });
+
+  it('should return fixture feedback without network access', async () => {
+    const result = await getCodeFeedback({ code: 'const x = 1;' });
+
+    expect(result.feedback).toContain('readable');
+  });
+
+  it('should use fixtures registered by a test', async () => {
+    StubFixtures.register('sendChatMessage', { output: { aiResponse: 'What does the loop do on its last pass?' } });
+
+    const result = await sendChatMessage({ code: 'for (;;) {}', query: 'Why does this hang?', enableAnalytics: false });
+
+    expect(result.aiResponse).toBe('What does the loop do on its last pass?');
+  });
+
+  it('should stream chat replies as plain text', async () => {
+    StubFixtures.register('sendChatMessage', { text: 'Check the **loop bound**.' });
+    const chunks: string[] = [];
+
+    const result = await streamChatMessage(
+      { code: 'for (;;) {}', query: 'Why does this hang?', enableAnalytics: false },
+      { onChunk: text => chunks.push(text) }
+    );
+
+    expect(chunks).toEqual(['Check ', 'the ', '**loop ', 'bound**.']);
+    expect(result.aiResponse).toBe('Check the **loop bound**.');
+  });
+
+  it('should stream code feedback', async () => {
+    const chunks: string[] = [];
+
+    const result = await streamCodeFeedback({ code: 'const x = 1;' }, { onChunk: text => chunks.push(text) });
+
+    expect(chunks.join('')).toBe(result.feedback);
+    expect(result.feedback).toContain('readable');
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        id: 'diag-1',
+        severity: 'info',
+        range: { startLine: 1, startColumn: 1, endLine: 1, endColumn: 13 },
+      }),
+    ]);
+  });
+
+  it('should generate a placeholder badge icon', async () => {
+    const result = await generateBadgeIcon({ badgeName: 'JavaScript Promises' });
+
+    expect(result.iconDataUri).toMatch(/^data:image\/png;base64,/);
+  });
+});
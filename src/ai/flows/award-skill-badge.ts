@@ -9,6 +9,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
 import { z } from 'genkit';
 import { SkillProgressTracker } from '@/lib/analytics/skill-progress-tracker';
 import { UserProgressService, LearningInsightsService } from '@/lib/firebase/analytics';
@@ -46,6 +47,7 @@ export async function awardSkillBadge(input: AwardSkillBadgeInput): Promise<Awar
 
 const awardSkillBadgePrompt = ai.definePrompt({
   name: 'awardSkillBadgePrompt',
+  model: modelFor('awardSkillBadge'),
   input: { schema: AwardSkillBadgeInputSchema },
   output: { schema: AwardSkillBadgeOutputSchema },
   prompt: `You are Kiro, an AI code mentor that awards skill badges for demonstrated programming abilities and tracks skill progression.
@@ -1,6 +1,7 @@
 // AI Flow for Real-time Collaborative Session Mentorship
 
 import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
 import { z } from 'genkit';
 import { 
   AISuggestion, 
@@ -174,6 +175,7 @@ Generate suggestions and insights that will help this collaborative session be m
 `;
 
     const { output } = await ai.generate({
+      model: modelFor('collaborativeSessionMentor'),
       prompt,
       config: {
         temperature: 0.7,
@@ -307,6 +309,7 @@ If no insight is needed for this event, return null.
 `;
 
     const { output } = await ai.generate({
+      model: modelFor('generateRealTimeInsight'),
       prompt,
       config: {
         temperature: 0.6,
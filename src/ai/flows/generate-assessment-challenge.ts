@@ -8,13 +8,13 @@
  * - Industry best practices and standards
  */
 
-import { defineFlow, defineSchema, runFlow } from '@genkit-ai/flow';
-import { gemini20FlashExp } from '@genkit-ai/googleai';
-import { z } from 'zod';
-import { AssessmentChallenge, TestCase, AIEvaluationCriteria } from '@/types/employer';
+import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
+import { z } from 'genkit';
+import { AssessmentChallenge, AIEvaluationCriteria } from '@/types/employer';
 
 // Input schema for challenge generation
-const GenerateAssessmentChallengeInputSchema = defineSchema(
+const GenerateAssessmentChallengeInputSchema = ai.defineSchema(
   'GenerateAssessmentChallengeInput',
   z.object({
     targetSkills: z.array(z.string()).describe('Skills to assess (e.g., ["javascript", "algorithms", "react"])'),
@@ -29,7 +29,7 @@ const GenerateAssessmentChallengeInputSchema = defineSchema(
 );
 
 // Output schema for generated challenge
-const GeneratedChallengeSchema = defineSchema(
+const GeneratedChallengeSchema = ai.defineSchema(
   'GeneratedChallenge',
   z.object({
     title: z.string().describe('Challenge title'),
@@ -62,7 +62,7 @@ const GeneratedChallengeSchema = defineSchema(
 type GenerateAssessmentChallengeInput = z.infer<typeof GenerateAssessmentChallengeInputSchema>;
 type GeneratedChallenge = z.infer<typeof GeneratedChallengeSchema>;
 
-export const generateAssessmentChallengeFlow = defineFlow(
+export const generateAssessmentChallengeFlow = ai.defineFlow(
   {
     name: 'generateAssessmentChallenge',
     inputSchema: GenerateAssessmentChallengeInputSchema,
@@ -84,7 +84,8 @@ export const generateAssessmentChallengeFlow = defineFlow(
     const contextPrompt = buildContextPrompt(input);
     
     // Generate the challenge using AI
-    const llmResponse = await gemini20FlashExp.generate({
+    const llmResponse = await ai.generate({
+      model: modelFor('generateAssessmentChallenge'),
       prompt: `${contextPrompt}
 
 Generate a coding challenge that meets the following requirements:
@@ -138,7 +139,7 @@ The challenge should be engaging, fair, and provide meaningful assessment of the
     });
 
     // Parse and validate the response
-    const generatedChallenge = parseAIResponse(llmResponse.text(), input);
+    const generatedChallenge = parseAIResponse(llmResponse.text, input);
     
     // Validate the generated challenge
     validateChallenge(generatedChallenge, input);
@@ -267,10 +268,9 @@ function generateStarterCode(skills: string[]): string {
 /**
  * Generate basic test cases
  */
-function generateBasicTestCases(): TestCase[] {
+function generateBasicTestCases(): GeneratedChallenge['testCases'] {
   return [
     {
-      testId: 'test1',
       input: 'Basic input case',
       expectedOutput: 'Expected output',
       isHidden: false,
@@ -278,7 +278,6 @@ function generateBasicTestCases(): TestCase[] {
       description: 'Basic functionality test'
     },
     {
-      testId: 'test2',
       input: 'Edge case input',
       expectedOutput: 'Edge case output',
       isHidden: true,
@@ -406,7 +405,7 @@ export async function generateCodingChallenge(
   input: GenerateAssessmentChallengeInput
 ): Promise<AssessmentChallenge> {
   try {
-    const generated = await runFlow(generateAssessmentChallengeFlow, input);
+    const generated = await generateAssessmentChallengeFlow(input);
     return convertToAssessmentChallenge(generated);
   } catch (error) {
     console.error('Failed to generate coding challenge:', error);
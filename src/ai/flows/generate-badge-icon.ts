@@ -9,6 +9,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
 import { z } from 'genkit';
 
 const GenerateBadgeIconInputSchema = z.object({
@@ -33,7 +34,7 @@ const generateBadgeIconFlow = ai.defineFlow(
   },
   async ({ badgeName }) => {
     const { media } = await ai.generate({
-      model: 'googleai/gemini-2.0-flash-preview-image-generation',
+      model: modelFor('generateBadgeIcon'),
       prompt: `Generate a vector-style, minimalist, circular icon for a software engineering skill badge. The badge is for "${badgeName}". The icon should be simple, symbolic, and suitable for a small badge. Use a dark, futuristic theme with vibrant accent colors.`,
       config: {
         responseModalities: ['TEXT', 'IMAGE'],
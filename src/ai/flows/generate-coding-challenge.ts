@@ -9,6 +9,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
 import { z } from 'genkit';
 import { ChallengeDifficultyClassifier, DifficultyMetrics } from '@/lib/challenges/difficulty-classifier';
 import { ChallengeService, AnalyticsUtils } from '@/lib/firebase/analytics';
@@ -67,6 +68,7 @@ export async function generateCodingChallenge(input: GenerateCodingChallengeInpu
 
 const generateCodingChallengePrompt = ai.definePrompt({
   name: 'generateCodingChallengePrompt',
+  model: modelFor('generateCodingChallenge'),
   input: { schema: GenerateCodingChallengeInputSchema },
   output: { schema: GenerateCodingChallengeOutputSchema },
   prompt: `You are Kiro, an AI coding mentor that creates personalized coding challenges to help developers improve their skills.
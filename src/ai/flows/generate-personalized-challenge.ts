@@ -11,6 +11,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
 import { z } from 'genkit';
 import { PersonalizationDataService } from '@/lib/firebase/personalization';
 import { UserProgressService } from '@/lib/firebase/analytics';
@@ -112,7 +113,7 @@ export const generatePersonalizedChallenge = ai.defineFlow(
       );
 
       const aiResponse = await ai.generate({
-        model: 'gemini-2.0-flash-exp',
+        model: modelFor('generatePersonalizedChallenge'),
         prompt: challengePrompt,
         config: {
           temperature: 0.7,
@@ -4,32 +4,75 @@
  * @fileOverview An AI agent to provide code feedback using Gemini 2.0 Flash.
  *
  * - getCodeFeedback - A function that handles the code feedback process.
+ * - streamCodeFeedback - Streams the feedback summary as it is generated.
  * - GetCodeFeedbackInput - The input type for the getCodeFeedback function.
  * - GetCodeFeedbackOutput - The return type for the getCodeFeedback function.
  */
 
 import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
+import {
+  CodeDiagnosticsSchema,
+  DIAGNOSTIC_INSTRUCTIONS,
+  NormalizedCodeDiagnosticsSchema,
+} from '@/ai/schemas/code-diagnostics';
+import { CodeDiagnostics } from '@/lib/code-feedback/diagnostics';
+import type { StructuredCodeFeedback } from '@/types/code-feedback';
 import { z } from 'genkit';
 
 const GetCodeFeedbackInputSchema = z.object({
   code: z.string().describe('The code to be reviewed.'),
+  language: z.string().optional().describe('Programming language of the code, if known.'),
 });
 export type GetCodeFeedbackInput = z.infer<typeof GetCodeFeedbackInputSchema>;
 
+const CodeReviewSchema = z.object({
+  feedback: z.string().describe('Overall summary of the review, in markdown.'),
+  diagnostics: CodeDiagnosticsSchema.describe('Issues anchored to line and column ranges.'),
+});
+
 const GetCodeFeedbackOutputSchema = z.object({
-  feedback: z.string().describe('The AI-generated feedback for the provided code.'),
+  feedback: z.string(),
+  diagnostics: NormalizedCodeDiagnosticsSchema,
 });
-export type GetCodeFeedbackOutput = z.infer<typeof GetCodeFeedbackOutputSchema>;
+export type GetCodeFeedbackOutput = StructuredCodeFeedback;
 
 export async function getCodeFeedback(input: GetCodeFeedbackInput): Promise<GetCodeFeedbackOutput> {
   return getCodeFeedbackFlow(input);
 }
 
+export interface StreamCodeFeedbackOptions {
+  onChunk: (text: string) => void;
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Streams the summary through `onChunk`; diagnostics arrive with the final result
+ */
+export async function streamCodeFeedback(
+  input: GetCodeFeedbackInput,
+  options: StreamCodeFeedbackOptions
+): Promise<GetCodeFeedbackOutput> {
+  const { result } = await streamCodeFeedbackFlow.run(input, { onChunk: options.onChunk, abortSignal: options.abortSignal });
+  return result;
+}
+
 const getCodeFeedbackPrompt = ai.definePrompt({
   name: 'getCodeFeedbackPrompt',
+  model: modelFor('getCodeFeedback'),
   input: { schema: GetCodeFeedbackInputSchema },
-  output: { schema: GetCodeFeedbackOutputSchema },
-  prompt: `You are Kiro, an AI code mentor. Review the following code and provide feedback on code quality, identify errors, and suggest improvements.\n\nCode:\n\n{{code}}`,
+  output: { schema: CodeReviewSchema },
+  prompt: `You are Kiro, an AI code mentor. Review the following code and provide feedback on code quality, identify errors, and suggest improvements.
+
+Put a short markdown summary of the review in "feedback", written first.
+
+${DIAGNOSTIC_INSTRUCTIONS}
+
+{{#if language}}Language: {{language}}
+{{/if}}
+Code:
+
+{{code}}`,
 });
 
 const getCodeFeedbackFlow = ai.defineFlow(
@@ -39,7 +82,46 @@ const getCodeFeedbackFlow = ai.defineFlow(
     outputSchema: GetCodeFeedbackOutputSchema,
   },
   async input => {
-    const { output } = await getCodeFeedbackPrompt(input);
-    return output!;
+    const { output } = await getCodeFeedbackPrompt(toPromptInput(input));
+    return toStructuredFeedback(input.code, output!);
   }
 );
+
+const streamCodeFeedbackFlow = ai.defineFlow(
+  {
+    name: 'streamCodeFeedbackFlow',
+    inputSchema: GetCodeFeedbackInputSchema,
+    outputSchema: GetCodeFeedbackOutputSchema,
+    streamSchema: z.string(),
+  },
+  async (input, { sendChunk, abortSignal }) => {
+    const { stream, response } = getCodeFeedbackPrompt.stream(toPromptInput(input), { abortSignal });
+
+    // The output is JSON, so forward only what has been added to the summary so far
+    let sent = 0;
+    for await (const chunk of stream) {
+      const summary = (chunk.output as Partial<GetCodeFeedbackOutput> | null)?.feedback;
+      if (typeof summary === 'string' && summary.length > sent) {
+        sendChunk(summary.slice(sent));
+        sent = summary.length;
+      }
+    }
+
+    const { output } = await response;
+    return toStructuredFeedback(input.code, output!);
+  }
+);
+
+function toPromptInput(input: GetCodeFeedbackInput): GetCodeFeedbackInput {
+  return { ...input, code: CodeDiagnostics.numberLines(input.code) };
+}
+
+function toStructuredFeedback(
+  code: string,
+  output: z.infer<typeof CodeReviewSchema>
+): GetCodeFeedbackOutput {
+  return {
+    feedback: output.feedback,
+    diagnostics: CodeDiagnostics.normalize(code, output.diagnostics || []),
+  };
+}
@@ -21,6 +21,9 @@ export { peerMentorshipFacilitator } from './peer-mentorship-facilitator';
 export { learningPathOptimizer } from './learning-path-optimizer';
 export { skillBenchmarkAnalyzer } from './skill-benchmark-analyzer';
 
+// Moderation flows
+export { screenContentToxicity } from './screen-content-toxicity';
+
 // Type exports
 export type { SendChatMessageInput, SendChatMessageOutput } from './send-chat-message';
 export type { GetCodeFeedbackInput, GetCodeFeedbackOutput } from './get-code-feedback';
@@ -32,4 +35,5 @@ export type { CollaborativeSessionMentorInput, CollaborativeSessionMentorOutput
 export type { GeneratePersonalizedChallengeInput, GeneratePersonalizedChallengeOutput } from './generate-personalized-challenge';
 export type { PeerMentorshipFacilitatorInput, PeerMentorshipFacilitatorOutput } from './peer-mentorship-facilitator';
 export type { LearningPathOptimizerInput, LearningPathOptimizerOutput } from './learning-path-optimizer';
-export type { SkillBenchmarkAnalyzerInput, SkillBenchmarkAnalyzerOutput } from './skill-benchmark-analyzer';
\ No newline at end of file
+export type { SkillBenchmarkAnalyzerInput, SkillBenchmarkAnalyzerOutput } from './skill-benchmark-analyzer';
+export type { ScreenContentToxicityInput, ScreenContentToxicityOutput } from './screen-content-toxicity';
\ No newline at end of file
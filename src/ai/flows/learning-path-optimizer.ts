@@ -12,6 +12,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
 import { z } from 'genkit';
 import { PersonalizationDataService } from '@/lib/firebase/personalization';
 import { UserProgressService } from '@/lib/firebase/analytics';
@@ -138,7 +139,7 @@ export const learningPathOptimizer = ai.defineFlow(
       );
 
       const aiResponse = await ai.generate({
-        model: 'gemini-2.0-flash-exp',
+        model: modelFor('learningPathOptimizer'),
         prompt: pathPrompt,
         config: {
           temperature: 0.7,
@@ -11,6 +11,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
 import { z } from 'genkit';
 import { PersonalizationDataService } from '@/lib/firebase/personalization';
 import { UserProgressService } from '@/lib/firebase/analytics';
@@ -129,7 +130,7 @@ export const peerMentorshipFacilitator = ai.defineFlow(
       );
 
       const aiResponse = await ai.generate({
-        model: 'gemini-2.0-flash-exp',
+        model: modelFor('peerMentorshipFacilitator'),
         prompt: sessionPlanPrompt,
         config: {
           temperature: 0.6,
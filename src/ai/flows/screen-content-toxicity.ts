@@ -0,0 +1,62 @@
+'use server';
+
+/**
+ * @fileOverview An AI agent that pre-screens community content for abuse before moderators see it.
+ *
+ * - screenContentToxicity - A function that scores a review, comment or chat message for toxicity.
+ * - ScreenContentToxicityInput - The input type for the screenContentToxicity function.
+ * - ScreenContentToxicityOutput - The return type for the screenContentToxicity function.
+ */
+
+import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
+import { z } from 'genkit';
+
+const ScreenContentToxicityInputSchema = z.object({
+  content: z.string().describe('The text written by a community member.'),
+  contentType: z.enum(['peer_review', 'review_thread', 'session_comment', 'community_contribution'])
+    .describe('Where the text was posted.'),
+});
+export type ScreenContentToxicityInput = z.infer<typeof ScreenContentToxicityInputSchema>;
+
+const ScreenContentToxicityOutputSchema = z.object({
+  toxicity: z.number().min(0).max(1).describe('How likely the text is abusive, from 0 (fine) to 1 (clearly abusive).'),
+  categories: z.array(z.enum(['spam', 'harassment', 'hate_speech', 'inappropriate']))
+    .describe('Kinds of abuse present, empty when the text is fine.'),
+  explanation: z.string().describe('One sentence a moderator can read to understand the score.'),
+});
+export type ScreenContentToxicityOutput = z.infer<typeof ScreenContentToxicityOutputSchema>;
+
+export async function screenContentToxicity(input: ScreenContentToxicityInput): Promise<ScreenContentToxicityOutput> {
+  return screenContentToxicityFlow(input);
+}
+
+const screenContentToxicityPrompt = ai.definePrompt({
+  name: 'screenContentToxicityPrompt',
+  model: modelFor('screenContentToxicity'),
+  input: { schema: ScreenContentToxicityInputSchema },
+  output: { schema: ScreenContentToxicityOutputSchema },
+  prompt: `You screen text posted on a developer learning community (contentType: {{contentType}}) for moderators.
+
+Score how likely the text is abusive. Blunt or critical feedback about code is normal and is not abuse.
+Flag:
+- harassment: insults, threats or demeaning remarks aimed at a person
+- hate_speech: attacks on people for who they are
+- spam: advertising, links or text unrelated to the code or conversation
+- inappropriate: sexual, violent or otherwise unsuitable content
+
+Text:
+{{content}}`,
+});
+
+const screenContentToxicityFlow = ai.defineFlow(
+  {
+    name: 'screenContentToxicityFlow',
+    inputSchema: ScreenContentToxicityInputSchema,
+    outputSchema: ScreenContentToxicityOutputSchema,
+  },
+  async input => {
+    const { output } = await screenContentToxicityPrompt(input);
+    return output!;
+  }
+);
@@ -4,11 +4,13 @@
  * @fileOverview An AI agent to handle conversational chat with code context.
  *
  * - sendChatMessage - A function that handles chat interactions with code context.
+ * - streamChatMessage - Streams the mentor's markdown reply as it is generated.
  * - SendChatMessageInput - The input type for the sendChatMessage function.
  * - SendChatMessageOutput - The return type for the sendChatMessage function.
  */
 
 import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
 import { z } from 'genkit';
 import { SkillProgressTracker } from '@/lib/analytics/skill-progress-tracker';
 import { LearningInsightsService } from '@/lib/firebase/analytics';
@@ -19,6 +21,16 @@ const SendChatMessageInputSchema = z.object({
   query: z.string().describe('The user\'s question or message.'),
   userId: z.string().optional().describe('The user ID for analytics tracking.'),
   enableAnalytics: z.boolean().optional().default(true).describe('Whether to collect analytics data from this conversation.'),
+  history: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string(),
+  })).optional().describe('Recent turns of this conversation, oldest first.'),
+  conversationSummary: z.string().optional().describe('Summary of earlier turns that no longer fit in the history.'),
+  priorInsights: z.array(z.object({
+    category: z.string(),
+    title: z.string(),
+    description: z.string(),
+  })).optional().describe('Learning insights from earlier conversations with this user.'),
 });
 export type SendChatMessageInput = z.infer<typeof SendChatMessageInputSchema>;
 
@@ -41,11 +53,24 @@ export async function sendChatMessage(input: SendChatMessageInput): Promise<Send
   return sendChatMessageFlow(input);
 }
 
-const sendChatMessagePrompt = ai.definePrompt({
-  name: 'sendChatMessagePrompt',
-  input: { schema: SendChatMessageInputSchema },
-  output: { schema: SendChatMessageOutputSchema },
-  prompt: `You are Kiro, an AI code mentor who uses the Socratic method to guide learning. You help developers understand their code through thoughtful questions and explanations.
+export interface StreamChatMessageOptions {
+  onChunk: (text: string) => void;
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Streams the reply through `onChunk` and resolves with the full response,
+ * including analytics, once the model has finished
+ */
+export async function streamChatMessage(
+  input: SendChatMessageInput,
+  options: StreamChatMessageOptions
+): Promise<SendChatMessageOutput> {
+  const { result } = await streamChatMessageFlow.run(input, { onChunk: options.onChunk, abortSignal: options.abortSignal });
+  return result;
+}
+
+const MENTOR_INSTRUCTIONS = `You are Kiro, an AI code mentor who uses the Socratic method to guide learning. You help developers understand their code through thoughtful questions and explanations.
 
 Guidelines:
 - Use a conversational, encouraging tone
@@ -54,6 +79,7 @@ Guidelines:
 - Reference the provided code context when relevant
 - Focus on teaching principles, not just giving direct answers
 - Encourage best practices and clean code
+- Build on earlier turns: follow up on questions you asked, and don't repeat hints already given
 
 Analytics Enhancement:
 - Identify programming skills demonstrated in the code or discussed in the conversation
@@ -61,15 +87,50 @@ Analytics Enhancement:
 - Generate actionable learning insights based on the conversation context
 - Consider the user's question type (debugging, learning concept, code review, etc.)
 
+{{#if priorInsights}}
+What you have learned about this developer before:
+{{#each priorInsights}}
+- {{category}}: {{title}} - {{description}}
+{{/each}}
+
+{{/if}}
+{{#if conversationSummary}}
+Earlier in this conversation:
+{{conversationSummary}}
+
+{{/if}}
+{{#if history}}
+Recent conversation:
+{{#each history}}
+{{role}}: {{content}}
+{{/each}}
+
+{{/if}}
 Code Context:
 {{code}}
 
 User's Question:
 {{query}}
+`;
 
+const sendChatMessagePrompt = ai.definePrompt({
+  name: 'sendChatMessagePrompt',
+  model: modelFor('sendChatMessage'),
+  input: { schema: SendChatMessageInputSchema },
+  output: { schema: SendChatMessageOutputSchema },
+  prompt: `${MENTOR_INSTRUCTIONS}
 Respond as Kiro, the helpful AI mentor. If analytics are enabled, also identify skills and generate learning insights:`,
 });
 
+// Plain-text variant so the reply can be shown while it is generated
+const streamChatMessagePrompt = ai.definePrompt({
+  name: 'streamChatMessagePrompt',
+  model: modelFor('sendChatMessage'),
+  input: { schema: SendChatMessageInputSchema },
+  prompt: `${MENTOR_INSTRUCTIONS}
+Respond as Kiro, the helpful AI mentor, using markdown:`,
+});
+
 const sendChatMessageFlow = ai.defineFlow(
   {
     name: 'sendChatMessageFlow',
@@ -77,64 +138,92 @@ const sendChatMessageFlow = ai.defineFlow(
     outputSchema: SendChatMessageOutputSchema,
   },
   async input => {
-    const { code, query, userId, enableAnalytics } = input;
-    
     // Get AI response with enhanced analytics context
     const { output } = await sendChatMessagePrompt(input);
-    
-    // If analytics are enabled and userId is provided, collect analytics data
-    if (enableAnalytics && userId && code.trim()) {
-      try {
-        // Analyze the conversation for learning patterns and skill detection
-        const analyticsData = await SkillProgressTracker.analyzeCodeSubmission(
-          userId,
-          code,
-          `Chat conversation: ${query}`,
-          {
-            enableRealTimeAnalysis: true,
-            generateInsights: true,
-            updateBenchmarks: false,
-            trackLearningVelocity: true
-          }
-        );
+    return withChatAnalytics(input, output!);
+  }
+);
 
-        // Generate conversation-specific insights
-        const conversationInsights = await generateConversationInsights(
-          userId,
-          query,
-          code,
-          output!.aiResponse
-        );
+const streamChatMessageFlow = ai.defineFlow(
+  {
+    name: 'streamChatMessageFlow',
+    inputSchema: SendChatMessageInputSchema,
+    outputSchema: SendChatMessageOutputSchema,
+    streamSchema: z.string(),
+  },
+  async (input, { sendChunk, abortSignal }) => {
+    const { stream, response } = streamChatMessagePrompt.stream(input, { abortSignal });
+    for await (const chunk of stream) {
+      if (chunk.text) sendChunk(chunk.text);
+    }
+
+    // Analytics only run for replies that finished streaming
+    const { text } = await response;
+    return withChatAnalytics(input, { aiResponse: text });
+  }
+);
+
+/**
+ * Adds detected skills and learning insights to a response when analytics are enabled
+ */
+async function withChatAnalytics(
+  input: SendChatMessageInput,
+  output: SendChatMessageOutput
+): Promise<SendChatMessageOutput> {
+  const { code, query, userId, enableAnalytics } = input;
 
-        // Save conversation insights
-        for (const insight of conversationInsights) {
-          await LearningInsightsService.saveLearningInsight(insight);
+  // If analytics are enabled and userId is provided, collect analytics data
+  if (enableAnalytics && userId && code.trim()) {
+    try {
+      // Analyze the conversation for learning patterns and skill detection
+      const analyticsData = await SkillProgressTracker.analyzeCodeSubmission(
+        userId,
+        code,
+        `Chat conversation: ${query}`,
+        {
+          enableRealTimeAnalysis: true,
+          generateInsights: true,
+          updateBenchmarks: false,
+          trackLearningVelocity: true
         }
+      );
 
-        // Return enhanced response with analytics data
-        return {
-          ...output!,
-          detectedSkills: analyticsData.aiAnalysis.detectedSkills,
-          learningInsights: conversationInsights.map(insight => ({
-            type: insight.type,
-            category: insight.category,
-            title: insight.title,
-            description: insight.description,
-            actionableSteps: insight.actionableSteps,
-            priority: insight.priority,
-          })),
-          analyticsSessionId: analyticsData.sessionId,
-        };
-      } catch (error) {
-        console.error('Error collecting chat analytics:', error);
-        // Return basic response if analytics fail
-        return output!;
+      // Generate conversation-specific insights
+      const conversationInsights = await generateConversationInsights(
+        userId,
+        query,
+        code,
+        output.aiResponse
+      );
+
+      // Save conversation insights
+      for (const insight of conversationInsights) {
+        await LearningInsightsService.saveLearningInsight(insight);
       }
+
+      // Return enhanced response with analytics data
+      return {
+        ...output,
+        detectedSkills: analyticsData.aiAnalysis.detectedSkills,
+        learningInsights: conversationInsights.map(insight => ({
+          type: insight.type,
+          category: insight.category,
+          title: insight.title,
+          description: insight.description,
+          actionableSteps: insight.actionableSteps,
+          priority: insight.priority,
+        })),
+        analyticsSessionId: analyticsData.sessionId,
+      };
+    } catch (error) {
+      console.error('Error collecting chat analytics:', error);
+      // Return basic response if analytics fail
+      return output;
     }
-    
-    return output!;
   }
-);
+
+  return output;
+}
 
 /**
  * Generates learning insights specific to chat conversations
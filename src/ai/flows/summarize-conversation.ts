@@ -0,0 +1,69 @@
+'use server';
+
+/**
+ * @fileOverview An AI agent to condense older mentor chat turns into a rolling summary.
+ *
+ * - summarizeConversation - A function that folds older turns into the thread summary.
+ * - SummarizeConversationInput - The input type for the summarizeConversation function.
+ * - SummarizeConversationOutput - The return type for the summarizeConversation function.
+ */
+
+import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
+import { z } from 'genkit';
+
+const SummarizeConversationInputSchema = z.object({
+  previousSummary: z.string().optional().describe('Summary of the turns before these, if any.'),
+  turns: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string(),
+  })).describe('Turns to fold into the summary, oldest first.'),
+});
+export type SummarizeConversationInput = z.infer<typeof SummarizeConversationInputSchema>;
+
+const SummarizeConversationOutputSchema = z.object({
+  summary: z.string().describe('Updated summary covering the previous summary and the new turns.'),
+});
+export type SummarizeConversationOutput = z.infer<typeof SummarizeConversationOutputSchema>;
+
+export async function summarizeConversation(input: SummarizeConversationInput): Promise<SummarizeConversationOutput> {
+  return summarizeConversationFlow(input);
+}
+
+const summarizeConversationPrompt = ai.definePrompt({
+  name: 'summarizeConversationPrompt',
+  model: modelFor('summarizeConversation'),
+  input: { schema: SummarizeConversationInputSchema },
+  output: { schema: SummarizeConversationOutputSchema },
+  prompt: `You maintain the memory of a mentoring conversation between a developer and Kiro, an AI code mentor.
+
+Update the summary so Kiro can keep building on earlier questions. Keep:
+- The questions the developer asked and what they were trying to achieve
+- Concepts Kiro explained and hints already given
+- Misconceptions the developer had and whether they were resolved
+- Open questions Kiro asked that the developer has not answered yet
+
+Write at most 150 words in the third person. Do not include code.
+
+{{#if previousSummary}}
+Current summary:
+{{previousSummary}}
+{{/if}}
+
+New turns:
+{{#each turns}}
+{{role}}: {{content}}
+{{/each}}`,
+});
+
+const summarizeConversationFlow = ai.defineFlow(
+  {
+    name: 'summarizeConversationFlow',
+    inputSchema: SummarizeConversationInputSchema,
+    outputSchema: SummarizeConversationOutputSchema,
+  },
+  async input => {
+    const { output } = await summarizeConversationPrompt(input);
+    return output!;
+  }
+);
@@ -1,7 +1,19 @@
 import {genkit} from 'genkit';
+import type {GenkitPlugin} from 'genkit/plugin';
 import {googleAI} from '@genkit-ai/googleai';
+import {getProviderSettings, openAICompatible, providersInUse, stubProvider} from '@/ai/providers';
+
+const settings = getProviderSettings();
+const providers = providersInUse(settings);
+
+// Only register Google AI when a flow uses it, so offline setups never need its API key
+const plugins: GenkitPlugin[] = [
+  ...(providers.has('googleai') ? [googleAI()] : []),
+  openAICompatible(settings.openAICompatible),
+  stubProvider(),
+];
 
 export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-2.0-flash',
+  plugins,
+  model: `${settings.defaultModel.provider}/${settings.defaultModel.model}`,
 });
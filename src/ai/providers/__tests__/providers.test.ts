@@ -0,0 +1,212 @@
+/**
+ * Unit tests for the AI model provider layer
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { genkit, z } from 'genkit';
+import {
+  loadProviderSettings,
+  modelFor,
+  openAICompatible,
+  providersInUse,
+  sampleFromSchema,
+  StubFixtures,
+  stubProvider,
+} from '@/ai/providers';
+
+describe('provider settings', () => {
+  it('should default every flow to Google AI', () => {
+    const settings = loadProviderSettings({});
+
+    expect(modelFor('sendChatMessage', settings)).toBe('googleai/gemini-2.0-flash');
+    expect(modelFor('generateBadgeIcon', settings)).toBe('googleai/gemini-2.0-flash-preview-image-generation');
+    expect([...providersInUse(settings)]).toEqual(['googleai']);
+  });
+
+  it('should switch the default provider and model', () => {
+    const settings = loadProviderSettings({
+      AI_PROVIDER: 'openai-compatible',
+      AI_MODEL: 'qwen2.5-coder:7b',
+      OPENAI_COMPATIBLE_BASE_URL: 'http://127.0.0.1:8080/v1/',
+    });
+
+    expect(modelFor('getCodeFeedback', settings)).toBe('openai-compatible/qwen2.5-coder:7b');
+    expect(modelFor('generateBadgeIcon', settings)).toBe('openai-compatible/qwen2.5-coder:7b');
+    expect(settings.openAICompatible.baseUrl).toBe('http://127.0.0.1:8080/v1');
+  });
+
+  it('should apply per-flow overrides', () => {
+    const settings = loadProviderSettings({
+      AI_FLOW_MODELS: 'sendChatMessage=openai-compatible/llama3.2, generateBadgeIcon=stub',
+    });
+
+    expect(modelFor('sendChatMessage', settings)).toBe('openai-compatible/llama3.2');
+    expect(modelFor('generateBadgeIcon', settings)).toBe('stub/generateBadgeIcon');
+    expect(modelFor('getCodeFeedback', settings)).toBe('googleai/gemini-2.0-flash');
+    expect([...providersInUse(settings)].sort()).toEqual(['googleai', 'openai-compatible', 'stub']);
+  });
+
+  it('should key stub models by flow name', () => {
+    const settings = loadProviderSettings({ AI_PROVIDER: 'stub' });
+
+    expect(modelFor('sendChatMessage', settings)).toBe('stub/sendChatMessage');
+    expect(modelFor('skillBenchmarkAnalyzer', settings)).toBe('stub/skillBenchmarkAnalyzer');
+  });
+
+  it('should reject unknown providers and malformed overrides', () => {
+    expect(() => loadProviderSettings({ AI_PROVIDER: 'openai' })).toThrow('Unknown AI provider "openai"');
+    expect(() => loadProviderSettings({ AI_FLOW_MODELS: 'sendChatMessage' })).toThrow('Invalid AI_FLOW_MODELS entry');
+  });
+});
+
+describe('stub provider', () => {
+  const ai = genkit({ plugins: [stubProvider()] });
+
+  afterEach(() => {
+    StubFixtures.reset();
+  });
+
+  it('should answer from fixtures registered for a flow', async () => {
+    StubFixtures.register('explainCode', { text: 'It adds two numbers.' });
+
+    const response = await ai.generate({ model: 'stub/explainCode', prompt: 'What does add() do?' });
+
+    expect(response.text).toBe('It adds two numbers.');
+  });
+
+  it('should pass the request to fixture functions', async () => {
+    StubFixtures.register('echo', request => ({ text: `echo: ${request.messages[0].content[0].text}` }));
+
+    const response = await ai.generate({ model: 'stub/echo', prompt: 'ping' });
+
+    expect(response.text).toBe('echo: ping');
+  });
+
+  it('should synthesize structured output that satisfies the schema', async () => {
+    const schema = z.object({
+      summary: z.string(),
+      score: z.number().min(1).max(10),
+      severity: z.enum(['low', 'high']),
+      tags: z.array(z.string()),
+      nested: z.object({ passed: z.boolean() }).optional(),
+    });
+
+    const prompt = ai.definePrompt({
+      name: 'reviewPrompt',
+      model: 'stub/review',
+      input: { schema: z.object({ code: z.string() }) },
+      output: { schema },
+      prompt: 'Review {{code}}',
+    });
+
+    const first = await prompt({ code: 'let x = 1;' });
+    const second = await prompt({ code: 'let y = 2;' });
+
+    expect(schema.parse(first.output)).toEqual({
+      summary: 'Sample summary',
+      score: 5.5,
+      severity: 'low',
+      tags: ['Sample tags'],
+      nested: { passed: false },
+    });
+    expect(second.output).toEqual(first.output);
+  });
+
+  it('should return media from fixtures', async () => {
+    const response = await ai.generate({ model: 'stub/generateBadgeIcon', prompt: 'Draw a badge' });
+
+    expect(response.media?.url).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it('should stream text word by word', async () => {
+    StubFixtures.register('explainCode', { text: 'It adds two numbers.' });
+
+    const { stream, response } = ai.generateStream({ model: 'stub/explainCode', prompt: 'What does add() do?' });
+    const chunks: string[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk.text);
+    }
+
+    expect(chunks).toEqual(['It ', 'adds ', 'two ', 'numbers.']);
+    expect((await response).text).toBe('It adds two numbers.');
+  });
+
+  it('should sample date-time strings and integers deterministically', () => {
+    expect(sampleFromSchema({ type: 'string', format: 'date-time' })).toBe('2024-01-01T00:00:00.000Z');
+    expect(sampleFromSchema({ type: 'integer', minimum: 0 })).toBe(0);
+    expect(sampleFromSchema({ anyOf: [{ type: 'null' }, { type: 'boolean' }] })).toBe(false);
+  });
+});
+
+describe('OpenAI-compatible provider', () => {
+  it('should call the chat completions endpoint with mapped messages and config', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        choices: [{ message: { role: 'assistant', content: '{"feedback":"Looks good"}' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 },
+      }),
+    });
+
+    const ai = genkit({
+      plugins: [openAICompatible({ baseUrl: 'http://localhost:11434/v1', apiKey: 'local-key', fetch: fetchMock })],
+    });
+
+    const response = await ai.generate({
+      model: 'openai-compatible/llama3.1',
+      system: 'You are Kiro.',
+      prompt: 'Review my code',
+      output: { schema: z.object({ feedback: z.string() }) },
+      config: { temperature: 0.2, maxOutputTokens: 256 },
+    });
+
+    expect(response.output).toEqual({ feedback: 'Looks good' });
+    expect(response.usage.totalTokens).toBe(17);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer local-key');
+    expect(body.model).toBe('llama3.1');
+    expect(body.temperature).toBe(0.2);
+    expect(body.max_tokens).toBe(256);
+    expect(body.response_format.type).toBe('json_schema');
+    expect(body.response_format.json_schema.schema.required).toEqual(['feedback']);
+    expect(body.messages[0]).toEqual({ role: 'system', content: 'You are Kiro.' });
+    expect(body.messages[1]).toEqual({ role: 'user', content: 'Review my code' });
+  });
+
+  it('should stream server-sent event deltas', async () => {
+    const events = [
+      { choices: [{ delta: { role: 'assistant', content: 'Try ' } }] },
+      { choices: [{ delta: { content: 'a loop.' }, finish_reason: 'stop' }] },
+      { choices: [], usage: { prompt_tokens: 8, completion_tokens: 3, total_tokens: 11 } },
+    ];
+    const body = events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+    const fetchMock = vi.fn().mockResolvedValue(new Response(body, { status: 200 }));
+    const ai = genkit({ plugins: [openAICompatible({ baseUrl: 'http://localhost:11434/v1', fetch: fetchMock })] });
+
+    const { stream, response } = ai.generateStream({ model: 'openai-compatible/llama3.1', prompt: 'Hint?' });
+    const chunks: string[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk.text);
+    }
+
+    expect(chunks).toEqual(['Try ', 'a loop.']);
+    expect((await response).text).toBe('Try a loop.');
+    expect((await response).usage.totalTokens).toBe(11);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+  });
+
+  it('should surface endpoint errors', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 404,
+      text: async () => 'model "missing" not found',
+    });
+    const ai = genkit({ plugins: [openAICompatible({ baseUrl: 'http://localhost:11434/v1', fetch: fetchMock })] });
+
+    await expect(ai.generate({ model: 'openai-compatible/missing', prompt: 'hi' }))
+      .rejects.toThrow('returned 404: model "missing" not found');
+  });
+});
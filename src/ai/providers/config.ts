@@ -0,0 +1,169 @@
+/**
+ * @fileOverview Model provider selection for AI flows.
+ *
+ * Every flow asks for its model through `modelFor(flowName)`, so the provider can be
+ * switched globally or per flow from the environment:
+ *
+ * - AI_PROVIDER: `googleai` (default), `openai-compatible` or `stub`
+ * - AI_MODEL: model name for the default provider
+ * - AI_FLOW_MODELS: per-flow overrides, e.g. `sendChatMessage=openai-compatible/qwen2.5-coder,generateBadgeIcon=stub`
+ * - OPENAI_COMPATIBLE_BASE_URL / OPENAI_COMPATIBLE_API_KEY: local endpoint such as Ollama or llama.cpp
+ */
+
+export type AIProviderName = 'googleai' | 'openai-compatible' | 'stub';
+
+export const AI_PROVIDERS: AIProviderName[] = ['googleai', 'openai-compatible', 'stub'];
+
+export type AIFlowName =
+  | 'sendChatMessage'
+  | 'summarizeConversation'
+  | 'getCodeFeedback'
+  | 'awardSkillBadge'
+  | 'generateBadgeIcon'
+  | 'generateCodingChallenge'
+  | 'generateAssessmentChallenge'
+  | 'collaborativeSessionMentor'
+  | 'generateRealTimeInsight'
+  | 'generatePersonalizedChallenge'
+  | 'peerMentorshipFacilitator'
+  | 'learningPathOptimizer'
+  | 'skillBenchmarkAnalyzer'
+  | 'ideFeedback'
+  | 'screenContentToxicity'
+  | 'peerReviewInsights'
+  | 'githubFeedback';
+
+export interface ModelSelection {
+  provider: AIProviderName;
+  model: string;
+}
+
+export interface AIProviderSettings {
+  defaultModel: ModelSelection;
+  flowModels: Partial<Record<AIFlowName, ModelSelection>>;
+  openAICompatible: {
+    baseUrl: string;
+    apiKey?: string;
+  };
+}
+
+export const DEFAULT_PROVIDER_MODELS: Record<AIProviderName, string> = {
+  googleai: 'gemini-2.0-flash',
+  'openai-compatible': 'llama3.1',
+  stub: 'fixtures',
+};
+
+// Flows that need a different model than the provider default when running on Google AI
+const GOOGLE_AI_FLOW_MODELS: Partial<Record<AIFlowName, string>> = {
+  generateBadgeIcon: 'gemini-2.0-flash-preview-image-generation',
+  generatePersonalizedChallenge: 'gemini-2.0-flash-exp',
+  peerMentorshipFacilitator: 'gemini-2.0-flash-exp',
+  learningPathOptimizer: 'gemini-2.0-flash-exp',
+  skillBenchmarkAnalyzer: 'gemini-2.0-flash-exp',
+  generateAssessmentChallenge: 'gemini-2.0-flash-exp',
+  ideFeedback: 'gemini-2.0-flash-exp',
+  githubFeedback: 'gemini-2.0-flash-exp',
+};
+
+const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+let cachedSettings: AIProviderSettings | null = null;
+
+/**
+ * Parses `provider` or `provider/model` into a model selection
+ */
+export function parseModelSelection(value: string): ModelSelection {
+  const trimmed = value.trim();
+  const separator = trimmed.indexOf('/');
+  const provider = (separator === -1 ? trimmed : trimmed.slice(0, separator)) as AIProviderName;
+  const model = separator === -1 ? '' : trimmed.slice(separator + 1);
+
+  if (!AI_PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown AI provider "${provider}". Expected one of: ${AI_PROVIDERS.join(', ')}`);
+  }
+
+  return { provider, model: model || DEFAULT_PROVIDER_MODELS[provider] };
+}
+
+/**
+ * Reads provider settings from environment variables
+ */
+export function loadProviderSettings(env: Record<string, string | undefined> = process.env): AIProviderSettings {
+  const provider = parseModelSelection(env.AI_PROVIDER || 'googleai').provider;
+  const defaultModel: ModelSelection = {
+    provider,
+    model: env.AI_MODEL || DEFAULT_PROVIDER_MODELS[provider],
+  };
+
+  const flowModels: AIProviderSettings['flowModels'] = {};
+  for (const entry of (env.AI_FLOW_MODELS || '').split(',')) {
+    if (!entry.trim()) continue;
+
+    const [flowName, selection] = entry.split('=');
+    if (!flowName?.trim() || !selection?.trim()) {
+      throw new Error(`Invalid AI_FLOW_MODELS entry "${entry}". Expected flowName=provider/model`);
+    }
+    flowModels[flowName.trim() as AIFlowName] = parseModelSelection(selection);
+  }
+
+  return {
+    defaultModel,
+    flowModels,
+    openAICompatible: {
+      baseUrl: (env.OPENAI_COMPATIBLE_BASE_URL || DEFAULT_OPENAI_COMPATIBLE_BASE_URL).replace(/\/+$/, ''),
+      apiKey: env.OPENAI_COMPATIBLE_API_KEY || undefined,
+    },
+  };
+}
+
+export function getProviderSettings(): AIProviderSettings {
+  if (!cachedSettings) {
+    cachedSettings = loadProviderSettings();
+  }
+  return cachedSettings;
+}
+
+/**
+ * Overrides the environment-derived settings; pass null to reload from the environment
+ */
+export function setProviderSettings(settings: AIProviderSettings | null): void {
+  cachedSettings = settings;
+}
+
+/**
+ * Resolves which provider and model a flow should use
+ */
+export function resolveFlowModel(flowName: AIFlowName, settings = getProviderSettings()): ModelSelection {
+  const override = settings.flowModels[flowName];
+  if (override) return override;
+
+  const { provider, model } = settings.defaultModel;
+  const usesProviderDefault = model === DEFAULT_PROVIDER_MODELS[provider];
+  if (provider === 'googleai' && usesProviderDefault && GOOGLE_AI_FLOW_MODELS[flowName]) {
+    return { provider, model: GOOGLE_AI_FLOW_MODELS[flowName]! };
+  }
+
+  return settings.defaultModel;
+}
+
+/**
+ * Returns the Genkit model reference for a flow. Stub models are keyed by flow
+ * name so each flow can have its own fixtures.
+ */
+export function modelFor(flowName: AIFlowName, settings = getProviderSettings()): string {
+  const { provider, model } = resolveFlowModel(flowName, settings);
+  if (provider === 'stub') {
+    return model === DEFAULT_PROVIDER_MODELS.stub ? `stub/${flowName}` : `stub/${model}`;
+  }
+  return `${provider}/${model}`;
+}
+
+/**
+ * Providers referenced by the default model or any per-flow override
+ */
+export function providersInUse(settings = getProviderSettings()): Set<AIProviderName> {
+  return new Set([
+    settings.defaultModel.provider,
+    ...Object.values(settings.flowModels).map(selection => selection!.provider),
+  ]);
+}
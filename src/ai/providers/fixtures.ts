@@ -0,0 +1,54 @@
+/**
+ * @fileOverview Built-in responses for the offline stub provider, keyed by flow name.
+ *
+ * Flows not listed here fall back to a sample synthesized from their output schema.
+ */
+
+import type { StubFixture } from './stub';
+
+const CHAT_RESPONSE =
+  'Good question! Before I explain, what do you expect this code to do when it runs? ' +
+  'Try tracing it with a small example input and tell me where the result first differs from what you expected.';
+
+const CODE_FEEDBACK =
+  'The code is readable and the intent is clear. Consider handling empty or invalid input explicitly, ' +
+  'giving variables more descriptive names, and adding a test for the edge cases.';
+
+// Structured prompts get the text under `field`; streaming prompts ask for plain text
+function textOrOutput(field: string, text: string): StubFixture {
+  return request => (request.output?.schema ? { output: { [field]: text } } : { text });
+}
+
+// 1x1 transparent PNG
+const PLACEHOLDER_BADGE_ICON =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+export const DEFAULT_STUB_FIXTURES: Record<string, StubFixture> = {
+  sendChatMessage: textOrOutput('aiResponse', CHAT_RESPONSE),
+  getCodeFeedback: {
+    output: {
+      feedback: CODE_FEEDBACK,
+      diagnostics: [
+        {
+          range: { startLine: 1, startColumn: 1, endLine: 1, endColumn: 1 },
+          severity: 'info',
+          category: 'style',
+          message: 'Add a comment describing what this code does',
+          explanation: 'A one-line summary at the top helps reviewers understand the intent before reading the details.',
+        },
+      ],
+    },
+  },
+  generateBadgeIcon: {
+    text: 'Offline placeholder badge icon.',
+    media: { url: PLACEHOLDER_BADGE_ICON, contentType: 'image/png' },
+  },
+  collaborativeSessionMentor: {
+    text:
+      'suggestions: extract the repeated logic into a helper function and add a test for the empty case. ' +
+      'The team is collaborating well; consider rotating who drives the editor.',
+  },
+  generateRealTimeInsight: {
+    text: 'Nice progress. Consider naming the helper after what it returns rather than how it works.',
+  },
+};
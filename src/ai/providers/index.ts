@@ -0,0 +1,21 @@
+/**
+ * @fileOverview Export the AI model provider layer
+ */
+
+export {
+  AI_PROVIDERS,
+  DEFAULT_PROVIDER_MODELS,
+  getProviderSettings,
+  loadProviderSettings,
+  modelFor,
+  parseModelSelection,
+  providersInUse,
+  resolveFlowModel,
+  setProviderSettings,
+} from './config';
+export { openAICompatible, OPENAI_COMPATIBLE_PROVIDER } from './openai-compatible';
+export { sampleFromSchema, StubFixtures, stubProvider, STUB_PROVIDER } from './stub';
+
+export type { AIFlowName, AIProviderName, AIProviderSettings, ModelSelection } from './config';
+export type { OpenAICompatibleOptions } from './openai-compatible';
+export type { StubFixture, StubResponse } from './stub';
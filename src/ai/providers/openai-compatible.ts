@@ -0,0 +1,259 @@
+/**
+ * @fileOverview Genkit plugin for local OpenAI-compatible chat endpoints (Ollama, llama.cpp, vLLM).
+ *
+ * Models are defined on first use, so any model the server hosts can be referenced
+ * as `openai-compatible/<model>` without registering it up front. Streaming requests
+ * are read as server-sent events and forwarded to Genkit chunk by chunk.
+ */
+
+import type { Genkit } from 'genkit';
+import { genkitPlugin } from 'genkit/plugin';
+import type { GenerateRequest, GenerateResponseChunkData, GenerateResponseData, MessageData } from 'genkit/model';
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string;
+  apiKey?: string;
+  fetch?: typeof fetch;
+}
+
+type ChatCompletionContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | ChatCompletionContentPart[];
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{
+    message: { role: string; content: string | null };
+    finish_reason: string | null;
+  }>;
+  usage?: ChatCompletionUsage;
+}
+
+interface ChatCompletionStreamChunk {
+  choices?: Array<{
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatCompletionUsage | null;
+}
+
+export const OPENAI_COMPATIBLE_PROVIDER = 'openai-compatible';
+
+export function openAICompatible(options: OpenAICompatibleOptions) {
+  return genkitPlugin(
+    OPENAI_COMPATIBLE_PROVIDER,
+    async () => {},
+    async (ai, actionType, target) => {
+      if (actionType === 'model') {
+        defineOpenAICompatibleModel(ai, target, options);
+      }
+    }
+  );
+}
+
+export function defineOpenAICompatibleModel(ai: Genkit, model: string, options: OpenAICompatibleOptions) {
+  return ai.defineModel(
+    {
+      apiVersion: 'v2',
+      name: `${OPENAI_COMPATIBLE_PROVIDER}/${model}`,
+      label: `OpenAI-compatible ${model}`,
+      supports: {
+        multiturn: true,
+        systemRole: true,
+        media: true,
+        tools: false,
+        output: ['text', 'json'],
+        constrained: 'no-tools',
+      },
+    },
+    async (request, { streamingRequested, sendChunk, abortSignal }) => {
+      const body = toChatCompletionRequest(model, request);
+
+      if (!streamingRequested) {
+        const response = await postChatCompletion(options, body, abortSignal);
+        return toGenerateResponse((await response.json()) as ChatCompletionResponse);
+      }
+
+      const response = await postChatCompletion(
+        options,
+        { ...body, stream: true, stream_options: { include_usage: true } },
+        abortSignal
+      );
+      return readChatCompletionStream(response, sendChunk);
+    }
+  );
+}
+
+export function toChatCompletionRequest(model: string, request: GenerateRequest) {
+  const config = (request.config || {}) as Record<string, unknown>;
+
+  return {
+    model,
+    messages: request.messages.map(toChatCompletionMessage),
+    temperature: config.temperature,
+    max_tokens: config.maxOutputTokens,
+    top_p: config.topP,
+    stop: config.stopSequences,
+    ...toResponseFormat(request),
+  };
+}
+
+// Structured output is enforced by the server, which Ollama and llama.cpp both support
+function toResponseFormat(request: GenerateRequest) {
+  if (request.output?.schema) {
+    return {
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'output', schema: request.output.schema },
+      },
+    };
+  }
+  if (request.output?.format === 'json') {
+    return { response_format: { type: 'json_object' } };
+  }
+  return {};
+}
+
+function toChatCompletionMessage(message: MessageData): ChatCompletionMessage {
+  const role = message.role === 'model' ? 'assistant' : message.role;
+  const hasMedia = message.content.some(part => part.media);
+
+  if (!hasMedia) {
+    return { role, content: message.content.map(part => part.text ?? '').join('') };
+  }
+
+  return {
+    role,
+    content: message.content.flatMap((part): ChatCompletionContentPart[] => {
+      if (part.media) return [{ type: 'image_url', image_url: { url: part.media.url } }];
+      if (part.text) return [{ type: 'text', text: part.text }];
+      return [];
+    }),
+  };
+}
+
+function toGenerateResponse(response: ChatCompletionResponse): GenerateResponseData {
+  const choice = response.choices?.[0];
+  if (!choice) {
+    throw new Error('OpenAI-compatible endpoint returned no choices');
+  }
+
+  return {
+    message: {
+      role: 'model',
+      content: [{ text: choice.message.content ?? '' }],
+    },
+    finishReason: toFinishReason(choice.finish_reason),
+    usage: toUsage(response.usage),
+  };
+}
+
+/**
+ * Reads a `stream: true` response, forwarding each content delta as a chunk
+ * and assembling the full message once the server sends `[DONE]`
+ */
+async function readChatCompletionStream(
+  response: Response,
+  sendChunk: (chunk: GenerateResponseChunkData) => void
+): Promise<GenerateResponseData> {
+  if (!response.body) {
+    throw new Error('OpenAI-compatible endpoint returned an empty stream');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  let text = '';
+  let finishReason: string | null = null;
+  let usage: ChatCompletionUsage | undefined;
+
+  const handleEvent = (data: string) => {
+    if (data === '[DONE]') return;
+
+    const chunk = JSON.parse(data) as ChatCompletionStreamChunk;
+    const choice = chunk.choices?.[0];
+    const delta = choice?.delta?.content;
+    if (delta) {
+      text += delta;
+      sendChunk({ index: 0, role: 'model', content: [{ text: delta }] });
+    }
+    if (choice?.finish_reason) finishReason = choice.finish_reason;
+    if (chunk.usage) usage = chunk.usage;
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffered += value;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.startsWith('data:')) handleEvent(line.slice(5).trim());
+    }
+  }
+  if (buffered.startsWith('data:')) handleEvent(buffered.slice(5).trim());
+
+  return {
+    message: { role: 'model', content: [{ text }] },
+    finishReason: toFinishReason(finishReason),
+    usage: toUsage(usage),
+  };
+}
+
+function toUsage(usage: ChatCompletionUsage | undefined): GenerateResponseData['usage'] {
+  return {
+    inputTokens: usage?.prompt_tokens,
+    outputTokens: usage?.completion_tokens,
+    totalTokens: usage?.total_tokens,
+  };
+}
+
+function toFinishReason(reason: string | null): GenerateResponseData['finishReason'] {
+  switch (reason) {
+    case 'stop':
+      return 'stop';
+    case 'length':
+      return 'length';
+    case 'content_filter':
+      return 'blocked';
+    case null:
+    case undefined:
+      return 'unknown';
+    default:
+      return 'other';
+  }
+}
+
+async function postChatCompletion(
+  options: OpenAICompatibleOptions,
+  body: object,
+  abortSignal?: AbortSignal
+): Promise<Response> {
+  const fetchImpl = options.fetch ?? fetch;
+  const response = await fetchImpl(`${options.baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+    },
+    body: JSON.stringify(body),
+    signal: abortSignal,
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(
+      `OpenAI-compatible endpoint ${options.baseUrl} returned ${response.status}: ${detail.slice(0, 500)}`
+    );
+  }
+
+  return response;
+}
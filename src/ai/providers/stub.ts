@@ -0,0 +1,187 @@
+/**
+ * @fileOverview Deterministic offline model provider.
+ *
+ * `stub/<flowName>` models answer from registered fixtures. Flows without a fixture
+ * get a sample value synthesized from their output schema, so every flow runs
+ * without network access and always returns the same response for the same request.
+ * Streaming requests receive the text word by word.
+ */
+
+import type { Genkit } from 'genkit';
+import { genkitPlugin } from 'genkit/plugin';
+import type { GenerateRequest, GenerateResponseData, Part } from 'genkit/model';
+import { DEFAULT_STUB_FIXTURES } from './fixtures';
+
+export interface StubResponse {
+  text?: string;
+  // Structured output, serialized as JSON
+  output?: unknown;
+  media?: { url: string; contentType: string };
+}
+
+export type StubFixture = StubResponse | ((request: GenerateRequest) => StubResponse);
+
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema | JsonSchema[];
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number | boolean;
+  minItems?: number;
+  default?: unknown;
+};
+
+export const STUB_PROVIDER = 'stub';
+
+const STUB_TIMESTAMP = '2024-01-01T00:00:00.000Z';
+
+export class StubFixtures {
+  private static fixtures = new Map<string, StubFixture>(Object.entries(DEFAULT_STUB_FIXTURES));
+
+  /**
+   * Registers the response a stub model returns, keyed by flow name
+   */
+  static register(name: string, fixture: StubFixture): void {
+    this.fixtures.set(name, fixture);
+  }
+
+  static unregister(name: string): void {
+    this.fixtures.delete(name);
+  }
+
+  /**
+   * Restores the built-in fixtures, discarding any registered since
+   */
+  static reset(): void {
+    this.fixtures = new Map(Object.entries(DEFAULT_STUB_FIXTURES));
+  }
+
+  static resolve(name: string, request: GenerateRequest): StubResponse {
+    const fixture = this.fixtures.get(name);
+    if (fixture) {
+      return typeof fixture === 'function' ? fixture(request) : fixture;
+    }
+
+    const schema = request.output?.schema as JsonSchema | undefined;
+    if (schema) {
+      return { output: sampleFromSchema(schema) };
+    }
+
+    return { text: `[stub:${name}] This is a deterministic offline response.` };
+  }
+}
+
+export function stubProvider() {
+  return genkitPlugin(
+    STUB_PROVIDER,
+    async () => {},
+    async (ai, actionType, target) => {
+      if (actionType === 'model') {
+        defineStubModel(ai, target);
+      }
+    }
+  );
+}
+
+export function defineStubModel(ai: Genkit, name: string) {
+  return ai.defineModel(
+    {
+      apiVersion: 'v2',
+      name: `${STUB_PROVIDER}/${name}`,
+      label: `Stub ${name}`,
+      supports: {
+        multiturn: true,
+        systemRole: true,
+        media: true,
+        tools: false,
+        output: ['text', 'json', 'media'],
+        constrained: 'all',
+      },
+    },
+    async (request, { streamingRequested, sendChunk }): Promise<GenerateResponseData> => {
+      const response = StubFixtures.resolve(name, request);
+      const content: Part[] = [];
+      const text = response.output !== undefined ? JSON.stringify(response.output) : response.text;
+
+      if (text !== undefined) {
+        content.push({ text });
+        if (streamingRequested) {
+          for (const word of text.match(/\S+\s*|\s+/g) || []) {
+            sendChunk({ index: 0, role: 'model', content: [{ text: word }] });
+          }
+        }
+      }
+      if (response.media) {
+        content.push({ media: response.media });
+      }
+
+      return {
+        message: { role: 'model', content },
+        finishReason: 'stop',
+        usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+      };
+    }
+  );
+}
+
+/**
+ * Builds a deterministic value that satisfies a JSON schema
+ */
+export function sampleFromSchema(schema: JsonSchema, name = 'value'): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+
+  const variants = schema.anyOf || schema.oneOf;
+  if (variants && variants.length > 0) {
+    const nonNull = variants.find(variant => variant.type !== 'null') || variants[0];
+    return sampleFromSchema(nonNull, name);
+  }
+  if (schema.allOf && schema.allOf.length > 0) {
+    return sampleFromSchema(Object.assign({}, ...schema.allOf), name);
+  }
+
+  const type = Array.isArray(schema.type)
+    ? schema.type.find(candidate => candidate !== 'null') || schema.type[0]
+    : schema.type ?? (schema.properties ? 'object' : undefined);
+
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, property]) => [key, sampleFromSchema(property, key)])
+      );
+    case 'array': {
+      const items = Array.isArray(schema.items) ? schema.items : [schema.items || {}];
+      const count = Math.max(schema.minItems ?? 1, items.length);
+      return Array.from({ length: count }, (_, index) =>
+        sampleFromSchema(items[Math.min(index, items.length - 1)], name)
+      );
+    }
+    case 'string':
+      return schema.format === 'date-time' ? STUB_TIMESTAMP : `Sample ${name}`;
+    case 'number':
+    case 'integer': {
+      const minimum = typeof schema.exclusiveMinimum === 'number'
+        ? schema.exclusiveMinimum + (type === 'integer' ? 1 : 0.1)
+        : schema.minimum;
+      if (minimum !== undefined && schema.maximum !== undefined) {
+        const midpoint = (minimum + schema.maximum) / 2;
+        return type === 'integer' ? Math.round(midpoint) : midpoint;
+      }
+      return minimum ?? Math.min(0, schema.maximum ?? 0);
+    }
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      return null;
+  }
+}
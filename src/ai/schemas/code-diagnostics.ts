@@ -0,0 +1,35 @@
+/**
+ * @fileOverview Shared schema for line-anchored code diagnostics.
+ *
+ * Used by the code feedback flow and the IDE feedback route so both return
+ * the same structured format.
+ */
+
+import { z } from 'genkit';
+
+export const SourceRangeSchema = z.object({
+  startLine: z.number().int().min(1).describe('1-based line where the issue starts.'),
+  startColumn: z.number().int().min(1).describe('1-based column where the issue starts.'),
+  endLine: z.number().int().min(1).describe('1-based line where the issue ends.'),
+  endColumn: z.number().int().min(1).describe('1-based column just past the end of the issue.'),
+});
+
+export const CodeDiagnosticSchema = z.object({
+  range: SourceRangeSchema,
+  severity: z.enum(['error', 'warning', 'info']),
+  category: z.enum(['bug', 'style', 'performance', 'security']),
+  message: z.string().describe('One-line summary of the issue.'),
+  explanation: z.string().describe('Why this matters and how to think about fixing it.'),
+  suggestedReplacement: z.string().optional().describe('Code that replaces exactly the text in range, if a fix is obvious.'),
+});
+
+export const CodeDiagnosticsSchema = z.array(CodeDiagnosticSchema);
+
+// Diagnostics after normalization against the reviewed code
+export const NormalizedCodeDiagnosticsSchema = z.array(CodeDiagnosticSchema.extend({ id: z.string() }));
+
+export const DIAGNOSTIC_INSTRUCTIONS = `Report each concrete issue as a diagnostic anchored to the code:
+- The code is shown with line numbers ("12| ..."); ranges use those 1-based line numbers and 1-based columns, excluding the prefix
+- severity: "error" for bugs that break behaviour, "warning" for likely problems, "info" for suggestions
+- category: "bug", "style", "performance" or "security"
+- suggestedReplacement replaces exactly the text in the range, without line number prefixes; omit it when the fix is not a local edit`;
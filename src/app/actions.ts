@@ -4,8 +4,32 @@ import { getCodeFeedback as getCodeFeedbackFlow } from '@/ai/flows/get-code-feed
 import { sendChatMessage as sendChatMessageFlow } from '@/ai/flows/send-chat-message';
 import { awardSkillBadge as awardSkillBadgeFlow } from '@/ai/flows/award-skill-badge';
 import { generateBadgeIcon as generateBadgeIconFlow } from '@/ai/flows/generate-badge-icon';
+import {
+  screenContentToxicity as screenContentToxicityFlow,
+  type ScreenContentToxicityInput,
+  type ScreenContentToxicityOutput
+} from '@/ai/flows/screen-content-toxicity';
 import { adminDb } from '@/lib/firebase/admin';
+import { verifyIdToken } from '@/lib/firebase/request-auth';
+import { PeerReviewService } from '@/lib/firebase/peer-review';
+import { CommunityService } from '@/lib/peer-review/community-service';
+import { CollaborativeSessionService } from '@/lib/firebase/collaborative-session';
+import { ModerationService } from '@/lib/firebase/moderation';
+import { ModerationQueue } from '@/lib/moderation/moderation-queue';
+import {
+  LeaderboardService,
+  type CompetitionCreationParams,
+  type CompetitionSubmissionParams
+} from '@/lib/gamification/leaderboard-service';
+import { CompetitionService } from '@/lib/firebase/competitions';
+import { ContestJudge } from '@/lib/gamification/contest-judge';
 import type { Badge } from '@/types';
+import type { PeerReview, ReviewComment, ReviewThread } from '@/types/peer-review';
+import type { RoundReviewInput } from '@/lib/peer-review/review-rounds';
+import type { SessionComment } from '@/types/collaborative-session';
+import type { ContentReference } from '@/types/moderation';
+import type { Competition, CompetitionParticipant, ContestSubmission } from '@/types/gamification';
+import { after } from 'next/server';
 import { FieldValue } from 'firebase-admin/firestore';
 
 // In-memory mock database for demo purposes when Firebase admin is not available
@@ -108,6 +132,170 @@ export async function sendChatMessageAction(
   }
 }
 
+/**
+ * Saves a peer review and the threads opened with it for the signed-in reviewer
+ */
+export async function submitPeerReviewAction(idToken: string, review: PeerReview, threads: ReviewThread[]): Promise<void> {
+  const userId = await verifyIdToken(idToken);
+  if (review.reviewerId !== userId || threads.some(thread => thread.comments[0]?.authorId !== userId)) {
+    throw new Error('Reviews can only be posted as the signed-in user');
+  }
+
+  await PeerReviewService.createPeerReview(review);
+  await Promise.all(threads.map(thread => PeerReviewService.createReviewThread(thread)));
+
+  screenAfterResponse({ type: 'peer_review', contentId: review.reviewId, authorId: userId }, ModerationQueue.reviewText(review));
+  for (const thread of threads) {
+    screenAfterResponse(
+      { type: 'review_thread', contentId: thread.threadId, authorId: userId, parentId: review.reviewId },
+      thread.comments[0].body
+    );
+  }
+}
+
+export async function createReviewThreadAction(idToken: string, thread: ReviewThread): Promise<void> {
+  const userId = await verifyIdToken(idToken);
+  if (thread.comments[0]?.authorId !== userId) {
+    throw new Error('Threads can only be opened as the signed-in user');
+  }
+
+  await PeerReviewService.createReviewThread(thread);
+  screenAfterResponse(
+    { type: 'review_thread', contentId: thread.threadId, authorId: userId, parentId: thread.reviewId },
+    thread.comments[0].body
+  );
+}
+
+export async function replyToReviewThreadAction(
+  idToken: string,
+  reviewId: string,
+  threadId: string,
+  comment: ReviewComment
+): Promise<void> {
+  const userId = await verifyIdToken(idToken);
+  if (comment.authorId !== userId) {
+    throw new Error('Replies can only be posted as the signed-in user');
+  }
+
+  await PeerReviewService.addThreadReply(threadId, comment);
+  screenAfterResponse({ type: 'review_thread', contentId: threadId, authorId: userId, parentId: reviewId }, comment.body);
+}
+
+/**
+ * Completes the open round of a review for the signed-in reviewer and credits the follow-up
+ */
+export async function completeReviewRoundAction(
+  idToken: string,
+  reviewId: string,
+  input: RoundReviewInput
+): Promise<PeerReview> {
+  const userId = await verifyIdToken(idToken);
+  return CommunityService.completeReviewRound(reviewId, userId, input);
+}
+
+/**
+ * Posts a chat message to a collaborative session the signed-in user takes part in
+ */
+export async function postSessionCommentAction(idToken: string, sessionId: string, comment: SessionComment): Promise<void> {
+  const userId = await verifyIdToken(idToken);
+  const session = await CollaborativeSessionService.getSession(sessionId);
+  if (comment.userId !== userId || !session?.participants.some(participant => participant.userId === userId)) {
+    throw new Error('Only session participants can post to the session chat');
+  }
+
+  await CollaborativeSessionService.addComment(sessionId, { ...comment, moderationStatus: 'visible' });
+  screenAfterResponse({ type: 'session_comment', contentId: comment.commentId, authorId: userId, parentId: sessionId }, comment.content);
+}
+
+/**
+ * Creates a competition organized by the signed-in user, who must be a competition organizer
+ */
+export async function createCompetitionAction(
+  idToken: string,
+  params: Omit<CompetitionCreationParams, 'createdBy'>
+): Promise<Competition> {
+  const userId = await verifyIdToken(idToken);
+  if (!(await CompetitionService.isOrganizer(userId))) {
+    throw new Error('Only competition organizers can create competitions');
+  }
+
+  return LeaderboardService.createCompetition({ ...params, createdBy: userId });
+}
+
+/**
+ * Registers the signed-in user for a competition
+ */
+export async function registerForCompetitionAction(
+  idToken: string,
+  competitionId: string,
+  username: string
+): Promise<CompetitionParticipant> {
+  const userId = await verifyIdToken(idToken);
+  return LeaderboardService.registerForCompetition(competitionId, userId, username);
+}
+
+/**
+ * Queues the signed-in participant's solution for judging, and starts judging the
+ * competition's queue once the response has been sent; the contest judging job picks up
+ * anything left over
+ */
+export async function submitCompetitionEntryAction(
+  idToken: string,
+  entry: Omit<CompetitionSubmissionParams, 'userId'>
+): Promise<ContestSubmission> {
+  const userId = await verifyIdToken(idToken);
+  const submission = await LeaderboardService.submitCompetitionEntry({ ...entry, userId });
+
+  after(async () => {
+    try {
+      await ContestJudge.processQueue(entry.competitionId);
+    } catch (error) {
+      console.error('Error judging competition entry:', error);
+    }
+  });
+  return submission;
+}
+
+/**
+ * AI pre-screening of content that was just saved. It runs once the response has been sent,
+ * so posting never waits on the AI service; flagged content lands in the moderation queue.
+ */
+function screenAfterResponse(content: ContentReference, text: string): void {
+  after(async () => {
+    try {
+      const screening = await screenContent(text, content.type);
+      if (screening) {
+        await ModerationService.recordScreening(content, text, { ...screening, screenedAt: new Date() });
+      }
+    } catch (error) {
+      console.error('Error screening content:', error);
+    }
+  });
+}
+
+// Returns null when screening is unavailable
+async function screenContent(
+  content: string,
+  contentType: ScreenContentToxicityInput['contentType']
+): Promise<ScreenContentToxicityOutput | null> {
+  if (!content.trim()) return null;
+
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      screenContentToxicityFlow({ content, contentType }),
+      new Promise<never>((_, reject) => {
+        timeout = setTimeout(() => reject(new Error('Screening timeout')), 15000);
+      })
+    ]);
+  } catch (error) {
+    console.error('Content screening error:', error);
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
 export async function getUserBadges(userId: string): Promise<Badge[]> {
   try {
     // Try Firebase first, fallback to mock DB
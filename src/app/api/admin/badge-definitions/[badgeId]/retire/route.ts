@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { BadgeDefinitionService } from '@/lib/firebase/badge-definitions';
+import { authenticateRequest } from '@/lib/firebase/request-auth';
+import { badgeAdminErrorResponse, badgeAdminRequiredResponse } from '../../../errors';
+
+interface RouteContext {
+  params: Promise<{ badgeId: string }>;
+}
+
+const RetireDefinitionSchema = z.object({
+  reason: z.string().min(1),
+});
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { badgeId } = await params;
+  const parsed = RetireDefinitionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: parsed.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const adminId = await authenticateRequest(request);
+    if (!(await BadgeDefinitionService.isBadgeAdmin(adminId))) {
+      return badgeAdminRequiredResponse();
+    }
+
+    const definition = await BadgeDefinitionService.retireDefinition(badgeId, adminId, parsed.data.reason);
+    return NextResponse.json({ definition });
+  } catch (error) {
+    return badgeAdminErrorResponse(error, 'Failed to retire badge definition');
+  }
+}
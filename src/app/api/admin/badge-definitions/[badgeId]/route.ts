@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { BadgeDefinitionService } from '@/lib/firebase/badge-definitions';
+import { authenticateRequest } from '@/lib/firebase/request-auth';
+import type { BadgeDefinitionInput } from '@/types/gamification';
+import { badgeAdminErrorResponse, badgeAdminRequiredResponse } from '../../errors';
+
+interface RouteContext {
+  params: Promise<{ badgeId: string }>;
+}
+
+const UpdateDefinitionSchema = z.object({
+  changes: z.record(z.unknown()),
+  changeNote: z.string().optional(),
+});
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { badgeId } = await params;
+
+  try {
+    const adminId = await authenticateRequest(request);
+    if (!(await BadgeDefinitionService.isBadgeAdmin(adminId))) {
+      return badgeAdminRequiredResponse();
+    }
+
+    const [definition, versions] = await Promise.all([
+      BadgeDefinitionService.getDefinition(badgeId),
+      BadgeDefinitionService.getVersions(badgeId)
+    ]);
+    if (!definition) {
+      return NextResponse.json({ error: `Badge definition ${badgeId} not found` }, { status: 404 });
+    }
+    return NextResponse.json({ definition, versions });
+  } catch (error) {
+    return badgeAdminErrorResponse(error, 'Failed to load badge definition');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { badgeId } = await params;
+  const parsed = UpdateDefinitionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: parsed.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const adminId = await authenticateRequest(request);
+    if (!(await BadgeDefinitionService.isBadgeAdmin(adminId))) {
+      return badgeAdminRequiredResponse();
+    }
+
+    const definition = await BadgeDefinitionService.updateDefinition(
+      badgeId,
+      parsed.data.changes as Partial<BadgeDefinitionInput>,
+      adminId,
+      parsed.data.changeNote
+    );
+    return NextResponse.json({ definition });
+  } catch (error) {
+    return badgeAdminErrorResponse(error, 'Failed to update badge definition');
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { BadgeDefinitionService } from '@/lib/firebase/badge-definitions';
+import { authenticateRequest } from '@/lib/firebase/request-auth';
+import type { BadgeDefinitionInput } from '@/types/gamification';
+import { badgeAdminErrorResponse, badgeAdminRequiredResponse } from '../errors';
+
+const StatusSchema = z.enum(['draft', 'active', 'retired']).optional();
+
+// The definition itself is validated by the rule engine, which reports every problem by path
+const CreateDefinitionSchema = z.object({
+  definition: z.record(z.unknown()),
+  changeNote: z.string().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  const status = StatusSchema.safeParse(new URL(request.url).searchParams.get('status') || undefined);
+  if (!status.success) {
+    return NextResponse.json({ error: 'Invalid status', details: status.error.errors }, { status: 400 });
+  }
+
+  try {
+    const adminId = await authenticateRequest(request);
+    if (!(await BadgeDefinitionService.isBadgeAdmin(adminId))) {
+      return badgeAdminRequiredResponse();
+    }
+
+    const definitions = await BadgeDefinitionService.listDefinitions(status.data);
+    return NextResponse.json({ definitions });
+  } catch (error) {
+    return badgeAdminErrorResponse(error, 'Failed to list badge definitions');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const parsed = CreateDefinitionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: parsed.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const adminId = await authenticateRequest(request);
+    if (!(await BadgeDefinitionService.isBadgeAdmin(adminId))) {
+      return badgeAdminRequiredResponse();
+    }
+
+    const definition = await BadgeDefinitionService.createDefinition(
+      parsed.data.definition as BadgeDefinitionInput,
+      adminId,
+      parsed.data.changeNote
+    );
+    return NextResponse.json({ definition }, { status: 201 });
+  } catch (error) {
+    return badgeAdminErrorResponse(error, 'Failed to create badge definition');
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { BadgeDefinitionService } from '@/lib/firebase/badge-definitions';
+import { authenticateRequest } from '@/lib/firebase/request-auth';
+import { badgeAdminErrorResponse, badgeAdminRequiredResponse } from '../../errors';
+
+// An invalid rule is not rejected here; the result carries its validation errors
+const DryRunSchema = z.object({
+  rule: z.unknown(),
+  userIds: z.array(z.string().min(1)).max(1000).optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  const parsed = DryRunSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: parsed.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const adminId = await authenticateRequest(request);
+    if (!(await BadgeDefinitionService.isBadgeAdmin(adminId))) {
+      return badgeAdminRequiredResponse();
+    }
+
+    const { rule, userIds, limit } = parsed.data;
+    const result = await BadgeDefinitionService.dryRun(rule, adminId, { userIds, limit });
+    return NextResponse.json(result);
+  } catch (error) {
+    return badgeAdminErrorResponse(error, 'Failed to dry-run badge rule');
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { RequestAuthError } from '@/lib/firebase/request-auth';
+import { BadgeRuleError } from '@/lib/gamification/badge-rules';
+
+export function badgeAdminRequiredResponse() {
+  return NextResponse.json({ error: 'Only badge admins can manage badge definitions' }, { status: 403 });
+}
+
+export function badgeAdminErrorResponse(error: unknown, message: string) {
+  if (error instanceof RequestAuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof BadgeRuleError) {
+    return NextResponse.json({ error: error.message, code: error.code, errors: error.errors }, { status: 400 });
+  }
+
+  console.error(`${message}:`, error);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { streamChatMessage } from '@/ai/flows/send-chat-message';
+import { MentorConversation, MentorChatResult } from '@/lib/chat/mentor-conversation';
+import { ChatThreadError } from '@/lib/firebase/chat-threads';
+import { authenticateRequest, RequestAuthError } from '@/lib/firebase/request-auth';
+import { AIEventStream } from '@/lib/streaming/ai-event-stream';
+import { chatThreadErrorResponse, requestAuthErrorResponse } from '../threads/errors';
+
+const ChatStreamRequestSchema = z.object({
+  code: z.string(),
+  query: z.string().min(1),
+  threadId: z.string().optional(),
+  enableAnalytics: z.boolean().optional().default(true),
+});
+
+export async function POST(request: NextRequest) {
+  const parsed = ChatStreamRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: parsed.error.errors },
+      { status: 400 }
+    );
+  }
+
+  const { code, query, threadId, enableAnalytics } = parsed.data;
+
+  // Anonymous chats are stateless; signed-in users get a persisted thread of their own
+  if (!request.headers.has('authorization')) {
+    if (threadId) {
+      return NextResponse.json({ error: 'Sign in to continue a thread' }, { status: 401 });
+    }
+    return AIEventStream.toResponse<MentorChatResult>(
+      (onChunk, abortSignal) =>
+        streamChatMessage({ code, query, enableAnalytics: false }, { onChunk, abortSignal }),
+      request.signal
+    );
+  }
+
+  let prepared;
+  try {
+    const userId = await authenticateRequest(request);
+    prepared = await MentorConversation.prepare({ userId, code, query, threadId, enableAnalytics });
+  } catch (error) {
+    if (error instanceof RequestAuthError) return requestAuthErrorResponse(error);
+    if (error instanceof ChatThreadError) return chatThreadErrorResponse(error);
+    console.error('Error preparing chat thread:', error);
+    return NextResponse.json({ error: 'Failed to load conversation' }, { status: 500 });
+  }
+
+  return AIEventStream.toResponse<MentorChatResult>(
+    async (onChunk, abortSignal) => {
+      const result = await streamChatMessage(prepared.input, { onChunk, abortSignal });
+      return MentorConversation.complete(prepared.thread, query, result);
+    },
+    request.signal
+  );
+}
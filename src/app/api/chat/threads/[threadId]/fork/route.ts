@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ChatThreadError, ChatThreadService } from '@/lib/firebase/chat-threads';
+import { chatThreadErrorResponse } from '../../errors';
+
+interface RouteContext {
+  params: Promise<{ threadId: string }>;
+}
+
+const ForkThreadSchema = z.object({
+  userId: z.string().min(1),
+  turnCount: z.number().int().min(0).optional(),
+  title: z.string().optional(),
+});
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { threadId } = await params;
+  const parsed = ForkThreadSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: parsed.error.errors },
+      { status: 400 }
+    );
+  }
+
+  const { userId, turnCount, title } = parsed.data;
+  try {
+    const thread = await ChatThreadService.forkThread(threadId, userId, { turnCount, title });
+    return NextResponse.json({ thread }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ChatThreadError) return chatThreadErrorResponse(error);
+    console.error('Failed to fork chat thread:', error);
+    return NextResponse.json({ error: 'Failed to fork chat thread' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ChatThreadError, ChatThreadService } from '@/lib/firebase/chat-threads';
+import { authenticateRequest, RequestAuthError } from '@/lib/firebase/request-auth';
+import { chatThreadErrorResponse, requestAuthErrorResponse } from '../errors';
+
+interface RouteContext {
+  params: Promise<{ threadId: string }>;
+}
+
+const RenameThreadSchema = z.object({
+  title: z.string().min(1),
+});
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { threadId } = await params;
+
+  try {
+    const userId = await authenticateRequest(request);
+    const thread = await ChatThreadService.getThread(threadId, userId);
+    return NextResponse.json({ thread });
+  } catch (error) {
+    return handleError(error, 'Failed to load chat thread');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { threadId } = await params;
+  const parsed = RenameThreadSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: parsed.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const userId = await authenticateRequest(request);
+    await ChatThreadService.renameThread(threadId, userId, parsed.data.title);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleError(error, 'Failed to rename chat thread');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { threadId } = await params;
+
+  try {
+    const userId = await authenticateRequest(request);
+    await ChatThreadService.deleteThread(threadId, userId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleError(error, 'Failed to delete chat thread');
+  }
+}
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof RequestAuthError) return requestAuthErrorResponse(error);
+  if (error instanceof ChatThreadError) return chatThreadErrorResponse(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { ChatThreadError } from '@/lib/firebase/chat-threads';
+import { RequestAuthError } from '@/lib/firebase/request-auth';
+
+const STATUS_BY_CODE: Record<ChatThreadError['code'], number> = {
+  not_found: 404,
+  forbidden: 403,
+  invalid_fork_point: 400,
+};
+
+export function chatThreadErrorResponse(error: ChatThreadError) {
+  const message = error.code === 'forbidden' ? 'Chat thread belongs to another user' : error.message;
+  return NextResponse.json({ error: message, code: error.code }, { status: STATUS_BY_CODE[error.code] });
+}
+
+export function requestAuthErrorResponse(error: RequestAuthError) {
+  return NextResponse.json({ error: error.message }, { status: error.status });
+}
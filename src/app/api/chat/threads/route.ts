@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ChatThreadService } from '@/lib/firebase/chat-threads';
+import { authenticateRequest, RequestAuthError } from '@/lib/firebase/request-auth';
+import { requestAuthErrorResponse } from './errors';
+
+const CreateThreadSchema = z.object({
+  code: z.string(),
+  title: z.string().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  const codeSnapshotId = new URL(request.url).searchParams.get('codeSnapshotId') || undefined;
+
+  try {
+    const userId = await authenticateRequest(request);
+    const threads = await ChatThreadService.listThreads(userId, { codeSnapshotId });
+    return NextResponse.json({ threads });
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      return requestAuthErrorResponse(error);
+    }
+
+    console.error('Error listing chat threads:', error);
+    return NextResponse.json({ error: 'Failed to list chat threads' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const parsed = CreateThreadSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: parsed.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const userId = await authenticateRequest(request);
+    const thread = await ChatThreadService.createThread({ ...parsed.data, userId });
+    return NextResponse.json({ thread }, { status: 201 });
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      return requestAuthErrorResponse(error);
+    }
+
+    console.error('Error creating chat thread:', error);
+    return NextResponse.json({ error: 'Failed to create chat thread' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { streamCodeFeedback } from '@/ai/flows/get-code-feedback';
+import { AIEventStream } from '@/lib/streaming/ai-event-stream';
+
+const CodeFeedbackStreamRequestSchema = z.object({
+  code: z.string().min(1),
+});
+
+export async function POST(request: NextRequest) {
+  const parsed = CodeFeedbackStreamRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: parsed.error.errors },
+      { status: 400 }
+    );
+  }
+
+  return AIEventStream.toResponse(
+    (onChunk, abortSignal) => streamCodeFeedback({ code: parsed.data.code }, { onChunk, abortSignal }),
+    request.signal
+  );
+}
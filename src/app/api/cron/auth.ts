@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * Scheduled jobs are called with `Authorization: Bearer <CRON_SECRET>`. Returns the
+ * response to send when the caller is not the scheduler, or null to run the job.
+ */
+export function rejectUnscheduledRequest(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: 'Scheduled jobs are not configured on this server' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+}
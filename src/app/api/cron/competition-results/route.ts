@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LeaderboardService } from '@/lib/gamification/leaderboard-service';
+import { rejectUnscheduledRequest } from '../auth';
+
+// Ends competitions past their end date: final rankings, prizes and season settlement
+export async function GET(request: NextRequest) {
+  const rejected = rejectUnscheduledRequest(request);
+  if (rejected) {
+    return rejected;
+  }
+
+  try {
+    const competitions = await LeaderboardService.endDueCompetitions();
+    return NextResponse.json({ competitions });
+  } catch (error) {
+    console.error('Error ending competitions:', error);
+    return NextResponse.json({ error: 'Failed to end competitions' }, { status: 500 });
+  }
+}
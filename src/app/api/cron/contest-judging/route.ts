@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ContestJudge } from '@/lib/gamification/contest-judge';
+import { rejectUnscheduledRequest } from '../auth';
+
+// Judges queued contest submissions and republishes the affected scoreboards
+export async function GET(request: NextRequest) {
+  const rejected = rejectUnscheduledRequest(request);
+  if (rejected) {
+    return rejected;
+  }
+
+  try {
+    const competitions = await ContestJudge.processPending();
+    return NextResponse.json({ competitions });
+  } catch (error) {
+    console.error('Error running contest judging:', error);
+    return NextResponse.json({ error: 'Failed to judge contest submissions' }, { status: 500 });
+  }
+}
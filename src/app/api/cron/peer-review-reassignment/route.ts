@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PeerReviewService } from '@/lib/firebase/peer-review';
+import { rejectUnscheduledRequest } from '../auth';
+
+// Hands review assignments nobody accepted in time to other reviewers
+export async function GET(request: NextRequest) {
+  const rejected = rejectUnscheduledRequest(request);
+  if (rejected) {
+    return rejected;
+  }
+
+  try {
+    const results = await PeerReviewService.reassignStaleAssignments();
+    return NextResponse.json({ reassigned: results });
+  } catch (error) {
+    console.error('Error running review reassignment:', error);
+    return NextResponse.json({ error: 'Failed to reassign review assignments' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { IdeApiKeyError, IdeApiKeyService } from '@/lib/firebase/ide-api-keys';
+import { ideApiKeyErrorResponse } from '../../errors';
+
+const RotateRequestSchema = z.object({
+  userId: z.string().describe('User ID the key was issued to'),
+  apiKey: z.string().describe('API key to replace'),
+  gracePeriodMinutes: z.number().int().min(0).max(7 * 24 * 60).optional()
+    .describe('How long the old key keeps working'),
+});
+
+/**
+ * Lets a plugin replace its own key without the user visiting the web app
+ */
+export async function POST(request: NextRequest) {
+  const parsed = RotateRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: parsed.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { userId, apiKey, gracePeriodMinutes } = parsed.data;
+    const current = await IdeApiKeyService.verifyKey(apiKey, { userId });
+    const { apiKey: newApiKey, key } = await IdeApiKeyService.rotateKey(current.keyId, userId, { gracePeriodMinutes });
+
+    return NextResponse.json({
+      apiKey: newApiKey,
+      keyId: key.keyId,
+      permissions: key.permissions,
+      expiresAt: key.expiresAt?.toISOString() ?? null,
+      message: 'API key rotated successfully',
+    });
+  } catch (error) {
+    if (error instanceof IdeApiKeyError) {
+      return ideApiKeyErrorResponse(error);
+    }
+
+    console.error('Error rotating API key:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,13 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { doc, setDoc, getDoc, updateDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase/config';
-import { generateApiKey, hashApiKey } from '@/lib/ide-integration/auth-utils';
+import { IdeApiKeyError, IdeApiKeyService } from '@/lib/firebase/ide-api-keys';
+import { authenticateRequest, RequestAuthError } from '@/lib/firebase/request-auth';
+import { PLUGIN_CAPABILITIES } from '@/lib/ide-integration/auth-utils';
+import { ideApiKeyErrorResponse, requestAuthErrorResponse } from '../errors';
+
+const PluginScopeSchema = z.enum(Object.keys(PLUGIN_CAPABILITIES) as [keyof typeof PLUGIN_CAPABILITIES]);
 
 const AuthRequestSchema = z.object({
-  userId: z.string().describe('User ID requesting API key'),
   pluginName: z.string().describe('Name of the IDE plugin'),
   pluginVersion: z.string().describe('Version of the IDE plugin'),
+  permissions: z.array(PluginScopeSchema).min(1).optional()
+    .describe('Capabilities the key may use; defaults to feedback and credentials'),
+  expiresInDays: z.number().int().min(1).max(365).optional().describe('Days until the key expires'),
 });
 
 const RevokeRequestSchema = z.object({
@@ -15,49 +20,27 @@ const RevokeRequestSchema = z.object({
   apiKey: z.string().describe('API key to revoke'),
 });
 
+/**
+ * Issues a key to the signed-in user; the request carries their Firebase ID token
+ */
 export async function POST(request: NextRequest) {
   try {
+    const userId = await authenticateRequest(request);
     const body = await request.json();
     const validatedData = AuthRequestSchema.parse(body);
 
-    // Generate new API key
-    const apiKey = generateApiKey(validatedData.userId);
-    const hashedKey = hashApiKey(apiKey);
-
-    // Store API key in Firebase
-    const apiKeyDoc = {
-      userId: validatedData.userId,
-      hashedKey,
-      pluginName: validatedData.pluginName,
-      pluginVersion: validatedData.pluginVersion,
-      createdAt: new Date(),
-      lastUsed: null,
-      isActive: true,
-      permissions: ['feedback', 'credentials'],
-    };
-
-    await setDoc(doc(db, 'ide_api_keys', apiKey.substring(0, 16)), apiKeyDoc);
+    const { apiKey, key } = await IdeApiKeyService.issueKey({ ...validatedData, userId });
 
     return NextResponse.json({
       apiKey,
-      permissions: apiKeyDoc.permissions,
-      expiresAt: null, // API keys don't expire by default
+      keyId: key.keyId,
+      permissions: key.permissions,
+      expiresAt: key.expiresAt?.toISOString() ?? null,
       message: 'API key generated successfully',
     });
   } catch (error) {
     console.error('Error generating API key:', error);
-    
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: 'Invalid request data', details: error.errors },
-        { status: 400 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return handleError(error);
   }
 }
 
@@ -66,47 +49,37 @@ export async function DELETE(request: NextRequest) {
     const body = await request.json();
     const validatedData = RevokeRequestSchema.parse(body);
 
-    // Find and revoke the API key
-    const keyId = validatedData.apiKey.substring(0, 16);
-    const keyDoc = await getDoc(doc(db, 'ide_api_keys', keyId));
-
-    if (!keyDoc.exists()) {
-      return NextResponse.json(
-        { error: 'API key not found' },
-        { status: 404 }
-      );
-    }
-
-    const keyData = keyDoc.data();
-    if (keyData.userId !== validatedData.userId) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 403 }
-      );
-    }
-
-    // Deactivate the API key
-    await updateDoc(doc(db, 'ide_api_keys', keyId), {
-      isActive: false,
-      revokedAt: new Date(),
-    });
+    // Plugins revoke with the key itself; a key that has stopped working cannot be revoked this way
+    const key = await IdeApiKeyService.verifyKey(validatedData.apiKey, { userId: validatedData.userId });
+    await IdeApiKeyService.revokeKey(key.keyId, validatedData.userId);
 
     return NextResponse.json({
       message: 'API key revoked successfully',
     });
   } catch (error) {
     console.error('Error revoking API key:', error);
-    
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: 'Invalid request data', details: error.errors },
-        { status: 400 }
-      );
-    }
+    return handleError(error);
+  }
+}
+
+function handleError(error: unknown) {
+  if (error instanceof RequestAuthError) {
+    return requestAuthErrorResponse(error);
+  }
 
+  if (error instanceof z.ZodError) {
     return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
+      { error: 'Invalid request data', details: error.errors },
+      { status: 400 }
     );
   }
-}
\ No newline at end of file
+
+  if (error instanceof IdeApiKeyError) {
+    return ideApiKeyErrorResponse(error);
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
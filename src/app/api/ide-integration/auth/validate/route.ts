@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { IdeApiKeyError, IdeApiKeyService } from '@/lib/firebase/ide-api-keys';
+import { ideApiKeyErrorResponse } from '../../errors';
+
+const ValidateRequestSchema = z.object({
+  userId: z.string().describe('User ID the key was issued to'),
+  apiKey: z.string().describe('IDE plugin API key'),
+});
+
+export async function POST(request: NextRequest) {
+  const parsed = ValidateRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: parsed.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const key = await IdeApiKeyService.verifyKey(parsed.data.apiKey, { userId: parsed.data.userId });
+
+    return NextResponse.json({
+      valid: true,
+      keyId: key.keyId,
+      permissions: IdeApiKeyService.effectiveScopes(key),
+      expiresAt: key.expiresAt?.toISOString() ?? null,
+      // Set while a rotated key is still inside its grace period
+      graceExpiresAt: key.graceExpiresAt?.toISOString() ?? null,
+    });
+  } catch (error) {
+    if (error instanceof IdeApiKeyError) {
+      return ideApiKeyErrorResponse(error);
+    }
+
+    console.error('Error validating API key:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
+import { IdeApiKeyError, IdeApiKeyService } from '@/lib/firebase/ide-api-keys';
+import { ideApiKeyErrorResponse } from '../errors';
 
 const CredentialsRequestSchema = z.object({
   userId: z.string().describe('User ID to fetch credentials for'),
@@ -23,13 +25,10 @@ export async function GET(request: NextRequest) {
 
     const validatedData = CredentialsRequestSchema.parse({ userId, apiKey });
 
-    // Validate API key
-    if (!isValidApiKey(validatedData.apiKey, validatedData.userId)) {
-      return NextResponse.json(
-        { error: 'Invalid API key' },
-        { status: 401 }
-      );
-    }
+    await IdeApiKeyService.verifyKey(validatedData.apiKey, {
+      userId: validatedData.userId,
+      scope: 'credentials',
+    });
 
     // Fetch user's badges from Firebase
     const badgesQuery = query(
@@ -84,14 +83,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (error instanceof IdeApiKeyError) {
+      return ideApiKeyErrorResponse(error);
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     );
   }
 }
-
-function isValidApiKey(apiKey: string, userId: string): boolean {
-  // In a real implementation, this would validate against a database
-  return apiKey.startsWith(`kiro_${userId}_`) && apiKey.length > 20;
-}
\ No newline at end of file
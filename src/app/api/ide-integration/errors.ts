@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { IdeApiKeyError } from '@/lib/firebase/ide-api-keys';
+import { RequestAuthError } from '@/lib/firebase/request-auth';
+
+const STATUS_BY_CODE: Record<IdeApiKeyError['code'], number> = {
+  invalid_key: 401,
+  expired: 401,
+  revoked: 401,
+  insufficient_scope: 403,
+  not_found: 404,
+  // Reported as missing so key IDs of other users cannot be probed
+  forbidden: 404,
+};
+
+export function ideApiKeyErrorResponse(error: IdeApiKeyError) {
+  const message = error.code === 'forbidden' ? 'API key not found' : error.message;
+  return NextResponse.json({ error: message, code: error.code }, { status: STATUS_BY_CODE[error.code] });
+}
+
+export function requestAuthErrorResponse(error: RequestAuthError) {
+  return NextResponse.json({ error: error.message }, { status: error.status });
+}
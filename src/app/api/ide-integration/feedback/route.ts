@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
-import { genkit } from 'genkit';
-import { gemini20FlashExp } from '@genkit-ai/googleai';
+import { z } from 'genkit';
+import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
+import { CodeDiagnosticsSchema, DIAGNOSTIC_INSTRUCTIONS } from '@/ai/schemas/code-diagnostics';
+import { CodeDiagnostics } from '@/lib/code-feedback/diagnostics';
+import { IdeApiKeyError, IdeApiKeyService } from '@/lib/firebase/ide-api-keys';
+import { ideApiKeyErrorResponse } from '../errors';
 
 const FeedbackRequestSchema = z.object({
   code: z.string().describe('The code to analyze'),
@@ -24,6 +28,7 @@ const FeedbackResponseSchema = z.object({
     areas: z.array(z.string()),
   }).describe('Code quality assessment'),
   learningInsights: z.array(z.string()).describe('Learning insights and recommendations'),
+  diagnostics: CodeDiagnosticsSchema.describe('Issues anchored to line and column ranges'),
 });
 
 export async function POST(request: NextRequest) {
@@ -31,36 +36,24 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = FeedbackRequestSchema.parse(body);
 
-    // Validate API key (in a real implementation, this would check against a database)
-    if (!isValidApiKey(validatedData.apiKey, validatedData.userId)) {
-      return NextResponse.json(
-        { error: 'Invalid API key' },
-        { status: 401 }
-      );
-    }
-
-    // Generate AI feedback using Genkit
-    const generateFeedback = genkit({
-      name: 'generateIDEFeedback',
-      model: gemini20FlashExp,
-      inputSchema: z.object({
-        code: z.string(),
-        language: z.string(),
-        context: z.object({
-          fileName: z.string().optional(),
-          projectType: z.string().optional(),
-          framework: z.string().optional(),
-        }).optional(),
-      }),
-      outputSchema: FeedbackResponseSchema,
+    await IdeApiKeyService.verifyKey(validatedData.apiKey, {
+      userId: validatedData.userId,
+      scope: 'feedback',
     });
 
-    const result = await generateFeedback({
-      code: validatedData.code,
-      language: validatedData.language,
-      context: validatedData.context,
+    // Generate AI feedback through the configured model provider
+    const { output: result } = await ai.generate({
+      model: modelFor('ideFeedback'),
+      prompt: buildFeedbackPrompt(validatedData),
+      output: { schema: FeedbackResponseSchema },
     });
 
+    if (!result) {
+      throw new Error('Model returned no feedback');
+    }
+
+    const diagnostics = CodeDiagnostics.normalize(validatedData.code, result.diagnostics || []);
+
     // Log the feedback request for analytics
     await logFeedbackRequest(validatedData.userId, {
       language: validatedData.language,
@@ -69,7 +62,7 @@ export async function POST(request: NextRequest) {
       qualityScore: result.codeQuality.score,
     });
 
-    return NextResponse.json(result);
+    return NextResponse.json({ ...result, diagnostics });
   } catch (error) {
     console.error('Error generating IDE feedback:', error);
     
@@ -80,6 +73,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof IdeApiKeyError) {
+      return ideApiKeyErrorResponse(error);
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -87,10 +84,23 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function isValidApiKey(apiKey: string, userId: string): boolean {
-  // In a real implementation, this would validate against a database
-  // For now, we'll use a simple format check
-  return apiKey.startsWith(`kiro_${userId}_`) && apiKey.length > 20;
+function buildFeedbackPrompt(request: z.infer<typeof FeedbackRequestSchema>): string {
+  const context = [
+    request.context?.fileName && `File: ${request.context.fileName}`,
+    request.context?.projectType && `Project type: ${request.context.projectType}`,
+    request.context?.framework && `Framework: ${request.context.framework}`,
+  ].filter(Boolean).join('\n');
+
+  return `You are Kiro, an AI code mentor reviewing code from the developer's IDE.
+Give concise, actionable feedback on code quality, point out bugs, list the programming skills the code demonstrates and suggest what to learn next.
+
+${DIAGNOSTIC_INSTRUCTIONS}
+
+Language: ${request.language}
+${context}
+
+Code:
+${CodeDiagnostics.numberLines(request.code)}`;
 }
 
 async function logFeedbackRequest(userId: string, metadata: {
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { IdeApiKeyError, IdeApiKeyService } from '@/lib/firebase/ide-api-keys';
+import { authenticateRequest, RequestAuthError } from '@/lib/firebase/request-auth';
+import { ideApiKeyErrorResponse, requestAuthErrorResponse } from '../../../errors';
+
+interface RouteContext {
+  params: Promise<{ keyId: string }>;
+}
+
+const RotateKeySchema = z.object({
+  gracePeriodMinutes: z.number().int().min(0).max(7 * 24 * 60).optional(),
+});
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { keyId } = await params;
+  const parsed = RotateKeySchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: parsed.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const userId = await authenticateRequest(request);
+    const { apiKey, key } = await IdeApiKeyService.rotateKey(keyId, userId, {
+      gracePeriodMinutes: parsed.data.gracePeriodMinutes,
+    });
+    return NextResponse.json({ apiKey, key: { ...key, status: IdeApiKeyService.status(key) } });
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      return requestAuthErrorResponse(error);
+    }
+    if (error instanceof IdeApiKeyError) {
+      return ideApiKeyErrorResponse(error);
+    }
+
+    console.error('Error rotating API key:', error);
+    return NextResponse.json({ error: 'Failed to rotate API key' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { IdeApiKeyError, IdeApiKeyService } from '@/lib/firebase/ide-api-keys';
+import { authenticateRequest, RequestAuthError } from '@/lib/firebase/request-auth';
+import { ideApiKeyErrorResponse, requestAuthErrorResponse } from '../../errors';
+
+interface RouteContext {
+  params: Promise<{ keyId: string }>;
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { keyId } = await params;
+
+  try {
+    const userId = await authenticateRequest(request);
+    await IdeApiKeyService.revokeKey(keyId, userId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      return requestAuthErrorResponse(error);
+    }
+    if (error instanceof IdeApiKeyError) {
+      return ideApiKeyErrorResponse(error);
+    }
+
+    console.error('Error revoking API key:', error);
+    return NextResponse.json({ error: 'Failed to revoke API key' }, { status: 500 });
+  }
+}
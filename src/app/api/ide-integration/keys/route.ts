@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { IdeApiKeyService } from '@/lib/firebase/ide-api-keys';
+import { authenticateRequest, RequestAuthError } from '@/lib/firebase/request-auth';
+import { requestAuthErrorResponse } from '../errors';
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await authenticateRequest(request);
+    const keys = await IdeApiKeyService.listKeys(userId);
+    return NextResponse.json({
+      keys: keys.map(key => ({ ...key, status: IdeApiKeyService.status(key) })),
+    });
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      return requestAuthErrorResponse(error);
+    }
+
+    console.error('Error listing API keys:', error);
+    return NextResponse.json({ error: 'Failed to list API keys' }, { status: 500 });
+  }
+}
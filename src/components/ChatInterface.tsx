@@ -7,7 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import { Send, Loader2, MessageCircleQuestion, Bot, User, Sparkles, Code2 } from "lucide-react";
+import { Send, Loader2, MessageCircleQuestion, Bot, User, Sparkles, Code2, Square, MessageSquarePlus } from "lucide-react";
 import { Avatar, AvatarFallback } from "./ui/avatar";
 import { cn } from "@/lib/utils";
 import React from "react";
@@ -16,8 +16,20 @@ interface ChatInterfaceProps {
   messages: ChatMessage[];
   onSendMessage: (message: string) => void;
   isLoading: boolean;
+  // Partial reply while it is being streamed
+  streamingReply?: string | null;
+  onCancel?: () => void;
+  // Starts a fresh conversation thread
+  onNewThread?: () => void;
 }
 
+// Fenced code blocks stay whole; an unterminated fence at the end is still streaming
+const splitMarkdownBlocks = (text: string): string[] =>
+  text
+    .split(/(```[\s\S]*?(?:```|$))/g)
+    .flatMap(part => (part.startsWith('```') ? [part] : part.split('\n\n')))
+    .filter(block => block.trim());
+
 // Enhanced message content renderer
 const MessageContent = ({ content, role }: { content: string; role: 'user' | 'assistant' }) => {
   // Safety check: ensure content is a string
@@ -46,7 +58,7 @@ const MessageContent = ({ content, role }: { content: string; role: 'user' | 'as
   };
   
   // Split into paragraphs and handle special formatting
-  const paragraphs = safeContent.split('\n\n').filter(p => p.trim());
+  const paragraphs = splitMarkdownBlocks(safeContent);
   
   return (
     <div className="space-y-2">
@@ -54,7 +66,7 @@ const MessageContent = ({ content, role }: { content: string; role: 'user' | 'as
         const trimmed = paragraph.trim();
         
         // Handle bullet points
-        if (trimmed.includes('\n- ') || trimmed.startsWith('- ')) {
+        if (!trimmed.startsWith('```') && (trimmed.includes('\n- ') || trimmed.startsWith('- '))) {
           const items = trimmed.split('\n- ').map(item => item.replace(/^- /, ''));
           return (
             <ul key={index} className="space-y-1 ml-2">
@@ -88,7 +100,7 @@ const MessageContent = ({ content, role }: { content: string; role: 'user' | 'as
   );
 };
 
-export default function ChatInterface({ messages, onSendMessage, isLoading }: ChatInterfaceProps) {
+export default function ChatInterface({ messages, onSendMessage, isLoading, streamingReply, onCancel, onNewThread }: ChatInterfaceProps) {
   const [input, setInput] = useState("");
   const [isTyping, setIsTyping] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
@@ -100,7 +112,7 @@ export default function ChatInterface({ messages, onSendMessage, isLoading }: Ch
         behavior: "smooth",
       });
     }
-  }, [messages]);
+  }, [messages, streamingReply]);
 
   useEffect(() => {
     if (isLoading) {
@@ -120,10 +132,18 @@ export default function ChatInterface({ messages, onSendMessage, isLoading }: Ch
   return (
     <Card className="h-full flex flex-col shadow-md">
       <CardHeader>
-        <CardTitle className="flex items-center gap-2 font-headline">
-          <MessageCircleQuestion className="h-6 w-6" />
-          Chat with Kiro
-        </CardTitle>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 font-headline">
+            <MessageCircleQuestion className="h-6 w-6" />
+            Chat with Kiro
+          </CardTitle>
+          {onNewThread && messages.length > 0 && (
+            <Button type="button" variant="ghost" size="sm" onClick={onNewThread} aria-label="New Conversation">
+              <MessageSquarePlus className="h-4 w-4 mr-1" />
+              New
+            </Button>
+          )}
+        </div>
         <CardDescription>Ask your AI mentor questions about your code.</CardDescription>
       </CardHeader>
       <CardContent className="flex-grow flex flex-col gap-4 overflow-hidden">
@@ -155,7 +175,20 @@ export default function ChatInterface({ messages, onSendMessage, isLoading }: Ch
                 )}
               </div>
             ))}
-            {isLoading && (
+            {isLoading && streamingReply && (
+              <div className="flex items-start gap-3 justify-start">
+                <Avatar className="w-8 h-8 ring-2 ring-primary/20">
+                  <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/10 text-primary text-sm">
+                    <Bot className="h-4 w-4" />
+                  </AvatarFallback>
+                </Avatar>
+                <div className="rounded-lg px-4 py-3 max-w-[85%] shadow-sm bg-gradient-to-br from-secondary to-secondary/80 text-secondary-foreground border border-border/50" aria-live="polite">
+                  <MessageContent content={streamingReply} role="assistant" />
+                  <span className="inline-block w-1.5 h-4 bg-primary/70 animate-pulse align-middle" aria-hidden="true"></span>
+                </div>
+              </div>
+            )}
+            {isLoading && !streamingReply && (
               <div className="flex justify-start animate-fade-in">
                  <Avatar className="w-8 h-8">
                     <AvatarFallback className="bg-primary/20 text-primary text-sm">
@@ -187,9 +220,15 @@ export default function ChatInterface({ messages, onSendMessage, isLoading }: Ch
             disabled={isLoading}
             aria-label="Chat Input"
           />
-          <Button type="submit" disabled={isLoading || !input.trim()} size="icon" className="flex-shrink-0 bg-accent hover:bg-accent/90" aria-label="Send Message">
-            <Send className="h-4 w-4" />
-          </Button>
+          {isLoading && onCancel ? (
+            <Button type="button" onClick={onCancel} size="icon" variant="outline" className="flex-shrink-0" aria-label="Stop Response">
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button type="submit" disabled={isLoading || !input.trim()} size="icon" className="flex-shrink-0 bg-accent hover:bg-accent/90" aria-label="Send Message">
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
         </form>
       </CardContent>
     </Card>
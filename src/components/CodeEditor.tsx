@@ -6,20 +6,48 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { CodeXml, Loader2, Sparkles, CheckCircle2, AlertTriangle, Info, Lightbulb, Code2, Maximize2, Minimize2 } from "lucide-react";
+import { CodeXml, Loader2, Sparkles, CheckCircle2, AlertTriangle, Info, Lightbulb, Code2, Maximize2, Minimize2, Square, Wand2, XCircle } from "lucide-react";
 import KiroSpecDisplay from "./KiroSpecDisplay";
-import React, { useEffect } from "react";
+import React, { useEffect, useMemo, useRef } from "react";
+import type { CodeDiagnostic, DiagnosticSeverity } from "@/types/code-feedback";
+import { CodeDiagnostics } from "@/lib/code-feedback/diagnostics";
 
 interface CodeEditorProps {
   code: string;
   onCodeChange: (code: string) => void;
   onGetFeedback: () => void;
+  onCancelFeedback?: () => void;
   aiFeedback: string;
   isLoading: boolean;
   isExpanded?: boolean;
   onToggleExpand?: () => void;
+  diagnostics?: CodeDiagnostic[];
+  onApplyFix?: (diagnostic: CodeDiagnostic) => void;
 }
 
+const severityStyles: Record<DiagnosticSeverity, { marker: string; highlight: string; text: string; icon: React.ElementType }> = {
+  error: { marker: 'bg-red-500', highlight: 'bg-red-500/20 border-b-2 border-red-500', text: 'text-red-700', icon: XCircle },
+  warning: { marker: 'bg-amber-500', highlight: 'bg-amber-400/20 border-b-2 border-amber-500', text: 'text-amber-700', icon: AlertTriangle },
+  info: { marker: 'bg-blue-500', highlight: 'bg-blue-400/15 border-b-2 border-dotted border-blue-500', text: 'text-blue-700', icon: Info },
+};
+
+// Splits the code into plain and highlighted segments; overlapping ranges keep the first
+const buildHighlightSegments = (code: string, diagnostics: CodeDiagnostic[]) => {
+  const segments: Array<{ text: string; diagnostic?: CodeDiagnostic }> = [];
+  let cursor = 0;
+
+  for (const diagnostic of diagnostics) {
+    const { start, end } = CodeDiagnostics.toOffsets(code, diagnostic.range);
+    if (start < cursor || end <= start) continue;
+
+    segments.push({ text: code.slice(cursor, start) });
+    segments.push({ text: code.slice(start, end), diagnostic });
+    cursor = end;
+  }
+  segments.push({ text: code.slice(cursor) });
+  return segments;
+};
+
 // Enhanced AI Feedback Renderer with better formatting
 const AIFeedbackRenderer = ({ content }: { content: string }) => {
   const sections = content.split(/\n\s*\n/).filter(section => section.trim());
@@ -156,14 +184,14 @@ const codeFeedbackSpec = {
 - A Genkit flow named 'getCodeFeedbackFlow' will be created.
 - This flow will take the user's code as a string input.
 - It will use the Gemini 2.0 Flash model with a prompt that instructs it to act as an AI code mentor named Kiro.
-- The flow will output a single string containing the formatted feedback.
+- The flow will output a markdown summary plus diagnostics anchored to line/column ranges, each with a severity, category, explanation and optional suggested replacement.
 - A server action 'getCodeFeedbackAction' will wrap this flow to be securely called from the client.
 - The frontend 'CodeEditor' component will have a state to hold the AI-generated feedback and a loading state.
 - When the "Get AI Code Feedback" button is clicked, it will call the server action, display a loading indicator, and then show the returned feedback in a designated area.
   `,
   tasks: `
   1. **Backend:** Create 'src/ai/flows/get-code-feedback.ts' with the 'getCodeFeedbackFlow'.
-  2. **Backend:** Define input (z.object({ code: z.string() })) and output (z.object({ feedback: z.string() })) schemas.
+  2. **Backend:** Define input (z.object({ code: z.string() })) and output (z.object({ feedback: z.string(), diagnostics: CodeDiagnosticsSchema })) schemas.
   3. **Backend:** Write the prompt for Kiro's persona and instructions.
   4. **Backend:** Create 'getCodeFeedbackAction' in 'src/app/actions.ts' to invoke the flow.
   5. **Frontend:** Add 'aiFeedback' and 'isLoading' state to the 'KiroApp' component.
@@ -174,7 +202,40 @@ const codeFeedbackSpec = {
   `,
 };
 
-export default function CodeEditor({ code, onCodeChange, onGetFeedback, aiFeedback, isLoading, isExpanded = false, onToggleExpand }: CodeEditorProps) {
+export default function CodeEditor({ code, onCodeChange, onGetFeedback, onCancelFeedback, aiFeedback, isLoading, isExpanded = false, onToggleExpand, diagnostics = [], onApplyFix }: CodeEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  const lineCount = code.split('\n').length;
+  const diagnosticsByLine = useMemo(() => CodeDiagnostics.byLine(diagnostics), [diagnostics]);
+  const highlightSegments = useMemo(() => buildHighlightSegments(code, diagnostics), [code, diagnostics]);
+
+  const editorTextClass = isExpanded ? 'text-base leading-relaxed' : 'text-sm';
+  const editorPaddingClass = isExpanded ? 'p-4' : 'p-3';
+  const editorStyle = {
+    fontFamily: 'ui-monospace, SFMono-Regular, "SF Mono", Monaco, Inconsolata, "Roboto Mono", monospace',
+    lineHeight: isExpanded ? '1.6' : '1.4'
+  };
+
+  // Keep the gutter and highlight layer aligned with the textarea
+  const handleEditorScroll = (event: React.UIEvent<HTMLTextAreaElement>) => {
+    const { scrollTop, scrollLeft } = event.currentTarget;
+    if (gutterRef.current) gutterRef.current.scrollTop = scrollTop;
+    if (backdropRef.current) {
+      backdropRef.current.scrollTop = scrollTop;
+      backdropRef.current.scrollLeft = scrollLeft;
+    }
+  };
+
+  const revealDiagnostic = (diagnostic: CodeDiagnostic) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { start, end } = CodeDiagnostics.toOffsets(code, diagnostic.range);
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+  };
+
   // Keyboard shortcut for expand/collapse (F11 or Ctrl+Shift+E)
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -233,30 +294,126 @@ export default function CodeEditor({ code, onCodeChange, onGetFeedback, aiFeedba
         </div>
       </CardHeader>
       <CardContent className="flex-grow flex flex-col gap-4">
-        <div className={`relative flex-grow ${isExpanded ? 'min-h-[60vh]' : ''}`}>
-          <Textarea
-            value={code}
-            onChange={(e) => onCodeChange(e.target.value)}
-            placeholder="Enter your code here..."
-            className={`h-full w-full font-code resize-none rounded-md transition-all duration-200 ${
-              isExpanded 
-                ? 'text-base leading-relaxed p-4' 
-                : 'text-sm p-3'
-            }`}
-            aria-label="Code Input"
-            style={{
-              fontFamily: 'ui-monospace, SFMono-Regular, "SF Mono", Monaco, Inconsolata, "Roboto Mono", monospace',
-              lineHeight: isExpanded ? '1.6' : '1.4'
-            }}
-          />
+        <div className={`relative flex-grow flex rounded-md bg-background ${isExpanded ? 'min-h-[60vh]' : ''}`}>
+          <div
+            ref={gutterRef}
+            className={`flex-shrink-0 overflow-hidden select-none border border-r-0 border-input rounded-l-md bg-muted/40 text-muted-foreground ${editorTextClass} ${isExpanded ? 'py-4' : 'py-3'}`}
+            style={editorStyle}
+            aria-hidden="true"
+          >
+            {Array.from({ length: lineCount }, (_, index) => {
+              const lineDiagnostics = diagnosticsByLine.get(index + 1);
+              return (
+                <div key={index} className="flex items-center gap-1 pl-1.5 pr-2 text-right">
+                  {lineDiagnostics ? (
+                    <button
+                      type="button"
+                      tabIndex={-1}
+                      onClick={() => revealDiagnostic(lineDiagnostics[0])}
+                      className={`h-2 w-2 rounded-full ${severityStyles[lineDiagnostics[0].severity].marker}`}
+                      title={lineDiagnostics.map(diagnostic => diagnostic.message).join('\n')}
+                    />
+                  ) : (
+                    <span className="h-2 w-2" />
+                  )}
+                  <span className="min-w-[2ch] tabular-nums">{index + 1}</span>
+                </div>
+              );
+            })}
+          </div>
+          <div className="relative flex-grow">
+            <div
+              ref={backdropRef}
+              className={`absolute inset-0 overflow-hidden whitespace-pre border border-transparent text-transparent pointer-events-none ${editorTextClass} ${editorPaddingClass}`}
+              style={editorStyle}
+              aria-hidden="true"
+            >
+              {highlightSegments.map((segment, index) =>
+                segment.diagnostic ? (
+                  <mark key={index} className={`text-transparent rounded-sm ${severityStyles[segment.diagnostic.severity].highlight}`}>
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <React.Fragment key={index}>{segment.text}</React.Fragment>
+                )
+              )}
+              {'\n '}
+            </div>
+            <Textarea
+              ref={textareaRef}
+              value={code}
+              onChange={(e) => onCodeChange(e.target.value)}
+              onScroll={handleEditorScroll}
+              wrap="off"
+              placeholder="Enter your code here..."
+              className={`relative h-full w-full font-code resize-none rounded-l-none rounded-r-md bg-transparent whitespace-pre transition-all duration-200 ${editorTextClass} ${editorPaddingClass}`}
+              aria-label="Code Input"
+              style={editorStyle}
+            />
+          </div>
           {isExpanded && (
             <div className="absolute top-2 right-2 bg-black/10 dark:bg-white/10 backdrop-blur-sm rounded-md px-2 py-1">
               <span className="text-xs text-muted-foreground">
-                Lines: {code.split('\n').length} | Chars: {code.length}
+                Lines: {lineCount} | Chars: {code.length}
               </span>
             </div>
           )}
         </div>
+        {diagnostics.length > 0 && (
+          <div className="space-y-2" aria-label="Code Diagnostics">
+            <h3 className="text-sm font-semibold text-foreground">
+              {diagnostics.length} {diagnostics.length === 1 ? 'issue' : 'issues'} found
+            </h3>
+            <ScrollArea className="max-h-64">
+              <div className="space-y-2 pr-3">
+                {diagnostics.map(diagnostic => {
+                  const style = severityStyles[diagnostic.severity];
+                  const SeverityIcon = style.icon;
+                  return (
+                    <div
+                      key={diagnostic.id}
+                      className="rounded-lg border bg-card p-3 text-sm cursor-pointer hover:bg-muted/50 transition-colors"
+                      onClick={() => revealDiagnostic(diagnostic)}
+                    >
+                      <div className="flex items-start gap-2">
+                        <SeverityIcon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${style.text}`} />
+                        <div className="flex-1 space-y-1">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-medium">{diagnostic.message}</span>
+                            <Badge variant="outline" className="text-xs capitalize">{diagnostic.category}</Badge>
+                            <span className="text-xs text-muted-foreground">
+                              Ln {diagnostic.range.startLine}, Col {diagnostic.range.startColumn}
+                            </span>
+                          </div>
+                          <p className="text-muted-foreground">{diagnostic.explanation}</p>
+                          {diagnostic.suggestedReplacement !== undefined && (
+                            <pre className="bg-slate-900 text-slate-100 p-2 rounded-md font-mono text-xs overflow-x-auto">
+                              <code>{diagnostic.suggestedReplacement || '(remove)'}</code>
+                            </pre>
+                          )}
+                        </div>
+                        {diagnostic.suggestedReplacement !== undefined && onApplyFix && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="flex-shrink-0"
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              onApplyFix(diagnostic);
+                            }}
+                          >
+                            <Wand2 className="mr-1 h-3 w-3" />
+                            Apply fix
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
         {aiFeedback && (
            <div className="mt-6">
             <div className="flex items-center gap-3 mb-4 p-3 bg-gradient-to-r from-primary/10 to-primary/5 rounded-lg border border-primary/20">
@@ -330,6 +487,12 @@ export default function CodeEditor({ code, onCodeChange, onGetFeedback, aiFeedba
             </Button>
           }
         />
+        {isLoading && onCancelFeedback && (
+          <Button onClick={onCancelFeedback} variant="outline" className="w-full">
+            <Square className="mr-2 h-4 w-4" />
+            Stop Feedback
+          </Button>
+        )}
       </CardFooter>
     </Card>
   );
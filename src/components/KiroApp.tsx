@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import type { User } from 'firebase/auth';
 import type { ChatMessage, Badge } from '@/types';
 import CodeEditor from './CodeEditor';
@@ -9,7 +9,13 @@ import BadgesDisplay from './BadgesDisplay';
 import DemoModeToggle from './DemoModeToggle';
 import CompactDemoToggle from './CompactDemoToggle';
 import Navigation, { NavigationTab } from './Navigation';
-import { getCodeFeedbackAction, sendChatMessageAction, awardSkillBadgeAction, getUserBadges, getDemoMode, setDemoMode as setDemoModeAction } from '@/app/actions';
+import { PluginKeysManager } from './ide-integration/PluginKeysManager';
+import { awardSkillBadgeAction, getUserBadges, getDemoMode, setDemoMode as setDemoModeAction } from '@/app/actions';
+import type { MentorChatResult } from '@/lib/chat/mentor-conversation';
+import type { GetCodeFeedbackOutput } from '@/ai/flows/get-code-feedback';
+import { AIEventStream } from '@/lib/streaming/ai-event-stream';
+import { CodeDiagnostics } from '@/lib/code-feedback/diagnostics';
+import type { CodeDiagnostic } from '@/types/code-feedback';
 import { useToast } from '@/hooks/use-toast';
 
 interface KiroAppProps {
@@ -20,6 +26,7 @@ const KiroApp: React.FC<KiroAppProps> = ({ user }) => {
   const [activeTab, setActiveTab] = useState<NavigationTab>('code-mentor');
   const [codeContent, setCodeContent] = useState<string>('// Welcome to KiroVerse!\n// Write your code here and get AI feedback\n\nfunction fibonacci(n) {\n  if (n <= 1) return n;\n  return fibonacci(n - 1) + fibonacci(n - 2);\n}\n\nconsole.log(fibonacci(10));');
   const [aiFeedback, setAiFeedback] = useState<string>('');
+  const [codeDiagnostics, setCodeDiagnostics] = useState<CodeDiagnostic[]>([]);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [userBadges, setUserBadges] = useState<Badge[]>([]);
   const [demoMode, setDemoMode] = useState<boolean>(true);
@@ -29,8 +36,18 @@ const KiroApp: React.FC<KiroAppProps> = ({ user }) => {
     badges: false
   });
   const [isCodeEditorExpanded, setIsCodeEditorExpanded] = useState(false);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  const [chatThreadId, setChatThreadId] = useState<string | undefined>();
+  const feedbackAbortRef = useRef<AbortController | null>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
+  // Stop any in-flight streams when the app unmounts
+  useEffect(() => () => {
+    feedbackAbortRef.current?.abort();
+    chatAbortRef.current?.abort();
+  }, []);
+
   useEffect(() => {
     const fetchInitialData = async () => {
       setIsLoading(prev => ({ ...prev, badges: true }));
@@ -45,30 +62,91 @@ const KiroApp: React.FC<KiroAppProps> = ({ user }) => {
     fetchInitialData();
   }, [user.uid]);
 
+  const postStream = (url: string, body: object, signal: AbortSignal, idToken?: string) =>
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(idToken && { Authorization: `Bearer ${idToken}` }) },
+      body: JSON.stringify(body),
+      signal,
+    });
+
   const handleGetCodeFeedback = async () => {
+    const controller = new AbortController();
+    feedbackAbortRef.current = controller;
     setIsLoading(prev => ({ ...prev, feedback: true }));
     setAiFeedback('');
-    const feedback = await getCodeFeedbackAction(codeContent);
-    setAiFeedback(feedback);
+    setCodeDiagnostics([]);
+
+    try {
+      const response = await postStream('/api/code-feedback/stream', { code: codeContent }, controller.signal);
+      const result = await AIEventStream.read<GetCodeFeedbackOutput>(response, setAiFeedback, controller.signal);
+      setAiFeedback(result.feedback);
+      setCodeDiagnostics(result.diagnostics);
+    } catch (error) {
+      // A cancelled review keeps whatever feedback had already arrived
+      if (!controller.signal.aborted) {
+        console.error('Code feedback error:', error);
+        setAiFeedback("Sorry, I couldn't process the feedback request. The AI service might be temporarily unavailable. Please try again.");
+      }
+    }
+
+    feedbackAbortRef.current = null;
     setIsLoading(prev => ({ ...prev, feedback: false }));
   };
 
+  // Diagnostics are anchored to the reviewed code, so manual edits make them stale
+  const handleCodeChange = (code: string) => {
+    setCodeContent(code);
+    setCodeDiagnostics([]);
+  };
+
+  const handleApplyFix = (diagnostic: CodeDiagnostic) => {
+    const fixed = CodeDiagnostics.applyFix(codeContent, diagnostic, codeDiagnostics);
+    setCodeContent(fixed.code);
+    setCodeDiagnostics(fixed.diagnostics);
+  };
+
   const handleSendChatMessage = async (query: string) => {
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
     setIsLoading(prev => ({ ...prev, chat: true }));
     const newMessages: ChatMessage[] = [...chatMessages, { role: 'user', content: query }];
     setChatMessages(newMessages);
+    setStreamingReply('');
 
     try {
-      const result = await sendChatMessageAction(codeContent, query);
+      const response = await postStream(
+        '/api/chat/stream',
+        { code: codeContent, query, threadId: chatThreadId },
+        controller.signal,
+        await user.getIdToken()
+      );
+      const result = await AIEventStream.read<MentorChatResult>(response, setStreamingReply, controller.signal);
+      setChatThreadId(result.threadId);
       const aiResponse = result?.aiResponse || "Sorry, I couldn't generate a response right now. Please try again.";
-      setChatMessages([...newMessages, { role: 'assistant', content: aiResponse }]);
+
+      // The reply is only kept once it has finished streaming
+      setChatMessages([...newMessages, { role: 'assistant', content: aiResponse, analyticsSessionId: result.analyticsSessionId }]);
     } catch (error) {
-      console.error('Chat error:', error);
-      setChatMessages([...newMessages, { role: 'assistant', content: "Sorry, I'm having trouble responding right now. The AI service might be temporarily unavailable. Please try again later." }]);
+      if (controller.signal.aborted) {
+        toast({ title: 'Response Stopped', description: "Kiro's reply was cancelled before it finished." });
+      } else {
+        console.error('Chat error:', error);
+        setChatMessages([...newMessages, { role: 'assistant', content: "Sorry, I'm having trouble responding right now. The AI service might be temporarily unavailable. Please try again later." }]);
+      }
     }
+
+    chatAbortRef.current = null;
+    setStreamingReply(null);
     setIsLoading(prev => ({ ...prev, chat: false }));
   };
 
+  const handleNewChatThread = () => {
+    chatAbortRef.current?.abort();
+    setChatThreadId(undefined);
+    setChatMessages([]);
+  };
+
   const handleAwardBadge = async () => {
     setIsLoading(prev => ({ ...prev, badges: true }));
     const result = await awardSkillBadgeAction(user.uid, codeContent, demoMode);
@@ -112,9 +190,12 @@ const KiroApp: React.FC<KiroAppProps> = ({ user }) => {
                 <div className="animate-slide-in-left">
                   <CodeEditor
                     code={codeContent}
-                    onCodeChange={setCodeContent}
+                    onCodeChange={handleCodeChange}
                     onGetFeedback={handleGetCodeFeedback}
+                    onCancelFeedback={() => feedbackAbortRef.current?.abort()}
                     aiFeedback={aiFeedback}
+                    diagnostics={codeDiagnostics}
+                    onApplyFix={handleApplyFix}
                     isLoading={isLoading.feedback}
                     isExpanded={isCodeEditorExpanded}
                     onToggleExpand={() => setIsCodeEditorExpanded(!isCodeEditorExpanded)}
@@ -128,6 +209,9 @@ const KiroApp: React.FC<KiroAppProps> = ({ user }) => {
                       messages={chatMessages}
                       onSendMessage={handleSendChatMessage}
                       isLoading={isLoading.chat}
+                      streamingReply={streamingReply}
+                      onCancel={() => chatAbortRef.current?.abort()}
+                      onNewThread={handleNewChatThread}
                     />
                   </div>
                   <div className="animate-fade-in" style={{ animationDelay: '0.2s' }}>
@@ -160,9 +244,12 @@ const KiroApp: React.FC<KiroAppProps> = ({ user }) => {
                   <div className="animate-slide-in-left">
                     <CodeEditor
                       code={codeContent}
-                      onCodeChange={setCodeContent}
+                      onCodeChange={handleCodeChange}
                       onGetFeedback={handleGetCodeFeedback}
+                      onCancelFeedback={() => feedbackAbortRef.current?.abort()}
                       aiFeedback={aiFeedback}
+                      diagnostics={codeDiagnostics}
+                      onApplyFix={handleApplyFix}
                       isLoading={isLoading.feedback}
                       isExpanded={isCodeEditorExpanded}
                       onToggleExpand={() => setIsCodeEditorExpanded(!isCodeEditorExpanded)}
@@ -193,6 +280,9 @@ const KiroApp: React.FC<KiroAppProps> = ({ user }) => {
                         messages={chatMessages}
                         onSendMessage={handleSendChatMessage}
                         isLoading={isLoading.chat}
+                        streamingReply={streamingReply}
+                        onCancel={() => chatAbortRef.current?.abort()}
+                        onNewThread={handleNewChatThread}
                         />
                       </div>
                       <div className="animate-fade-in" style={{ animationDelay: '0.2s' }}>
@@ -706,6 +796,8 @@ const KiroApp: React.FC<KiroAppProps> = ({ user }) => {
                     </div>
                   </div>
                 </div>
+
+                <PluginKeysManager user={user} />
               </div>
 
               {/* Stats & Features */}
@@ -21,9 +21,15 @@ import {
   Position, 
   CursorPosition,
   CodeSelection,
-  Operation
+  Operation,
+  RealTimeUpdate
 } from '@/types/collaborative-session';
 import { CollaborativeSessionService } from '@/lib/firebase/collaborative-session';
+import {
+  CollaborativeDocumentClient,
+  OperationalTransform,
+  type OperationCommit
+} from '@/lib/collaborative-session/operational-transform';
 
 interface CollaborativeCodeEditorProps {
   sessionId: string;
@@ -38,7 +44,12 @@ interface CollaborativeCodeEditorProps {
     selection?: CodeSelection;
     isTyping: boolean;
   }>;
-  onCodeChange: (content: string, operation: CodeHistoryEntry) => void;
+  remoteChange?: RealTimeUpdate | null;
+  onCodeChange: (
+    content: string,
+    operation: CodeHistoryEntry,
+    edit: { baseVersion: number; operations: Operation[] }
+  ) => Promise<OperationCommit>;
   onCursorMove: (position: Position) => void;
   onSelectionChange: (selection: CodeSelection) => void;
 }
@@ -50,6 +61,7 @@ export function CollaborativeCodeEditor({
   sharedCode,
   canEdit,
   participants,
+  remoteChange,
   onCodeChange,
   onCursorMove,
   onSelectionChange
@@ -62,33 +74,148 @@ export function CollaborativeCodeEditor({
   
   const editorRef = useRef<HTMLTextAreaElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
+  const clientRef = useRef(new CollaborativeDocumentClient(sharedCode.content, sharedCode.version));
+  const resyncAfterAckRef = useRef(false);
 
-  // Sync with shared code state
+  // Re-renders the textarea from the OT client, keeping the local caret in place
+  const syncFromClient = useCallback((remoteOperations: Operation[] = []) => {
+    const textarea = editorRef.current;
+    const client = clientRef.current;
+
+    if (textarea && remoteOperations.length > 0 && document.activeElement === textarea) {
+      const selectionStart = OperationalTransform.transformOffset(textarea.selectionStart, remoteOperations);
+      const selectionEnd = OperationalTransform.transformOffset(textarea.selectionEnd, remoteOperations);
+      setLocalContent(client.content);
+      requestAnimationFrame(() => textarea.setSelectionRange(selectionStart, selectionEnd));
+    } else {
+      setLocalContent(client.content);
+    }
+  }, []);
+
+  // Catch up on operations missed between real-time updates. While a batch is in flight the
+  // server may already have committed it, and it would come back looking like someone else's
+  // operations and be applied twice, so catching up waits for the acknowledgement.
+  const resync = useCallback(async () => {
+    const client = clientRef.current;
+
+    if (client.inFlight) {
+      resyncAfterAckRef.current = true;
+      return;
+    }
+
+    try {
+      const { content, version, operations } = await CollaborativeSessionService.getOperationsSince(
+        sessionId,
+        client.version
+      );
+
+      if (client.inFlight) {
+        resyncAfterAckRef.current = true;
+        return;
+      }
+
+      if (!operations) {
+        client.reset(content, version);
+        syncFromClient();
+        return;
+      }
+
+      const batches = new Map<number, Operation[]>();
+      operations.forEach(op => {
+        const opVersion = op.version ?? 0;
+        batches.set(opVersion, [...(batches.get(opVersion) || []), op]);
+      });
+
+      const applied: Operation[] = [];
+      for (const [opVersion, batch] of Array.from(batches.entries()).sort(([a], [b]) => a - b)) {
+        if (!client.applyRemote(batch, opVersion)) {
+          client.reset(content, version);
+          break;
+        }
+        applied.push(...batch);
+      }
+      syncFromClient(applied);
+    } catch (error) {
+      console.error('Error resyncing shared code:', error);
+    }
+  }, [sessionId, syncFromClient]);
+
+  // Send the in-flight batch and keep flushing buffered edits as each one is acknowledged
+  const sendOperations = useCallback(async (operations: Operation[], entry: CodeHistoryEntry) => {
+    const client = clientRef.current;
+    let batch: Operation[] | null = operations;
+    let batchEntry = entry;
+
+    while (batch) {
+      try {
+        const commit = await onCodeChange(client.content, batchEntry, {
+          baseVersion: client.version,
+          operations: batch
+        });
+        batch = client.acknowledge(commit);
+        syncFromClient(commit.concurrentOperations);
+        if (batch) {
+          batchEntry = createHistoryEntry(batch, userId, username);
+        }
+      } catch (error) {
+        console.error('Error committing code change:', error);
+        batch = null;
+        // The server rejected the batch; adopt its state rather than diverging
+        try {
+          const latest = await CollaborativeSessionService.getOperationsSince(sessionId, client.version);
+          client.reset(latest.content, latest.version);
+          syncFromClient();
+        } catch (reloadError) {
+          console.error('Error reloading shared code:', reloadError);
+        }
+      }
+    }
+
+    if (resyncAfterAckRef.current) {
+      resyncAfterAckRef.current = false;
+      void resync();
+    }
+  }, [onCodeChange, sessionId, userId, username, syncFromClient, resync]);
+
+  // Merge operations committed by other participants
   useEffect(() => {
-    if (sharedCode.content !== localContent && sharedCode.lastModifiedBy !== userId) {
-      setLocalContent(sharedCode.content);
+    if (!remoteChange || remoteChange.userId === userId || !remoteChange.data?.operations) return;
+
+    const operations: Operation[] = remoteChange.data.operations.map((op: Operation) => ({
+      ...op,
+      timestamp: new Date(op.timestamp)
+    }));
+
+    if (clientRef.current.applyRemote(operations, remoteChange.data.version)) {
+      syncFromClient(operations);
+    } else {
+      void resync();
     }
-  }, [sharedCode.content, sharedCode.lastModifiedBy, userId, localContent]);
+  }, [remoteChange, userId, resync, syncFromClient]);
+
+  // Adopt externally loaded state when there is nothing local to preserve. Runs
+  // after the merge above so versions already applied from remoteChange are skipped.
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client.hasPendingOperations && sharedCode.version > client.version) {
+      void resync();
+    }
+  }, [sharedCode.version, resync]);
 
   // Handle content changes
   const handleContentChange = useCallback((newContent: string) => {
     if (!canEdit) return;
 
-    const operation: CodeHistoryEntry = {
-      entryId: `${Date.now()}-${userId}`,
-      timestamp: new Date(),
-      userId,
-      username,
-      operation: 'replace',
-      startPosition: { line: 0, column: 0, offset: 0 },
-      endPosition: { line: 0, column: newContent.length, offset: newContent.length },
-      oldContent: localContent,
-      newContent,
-      description: 'Code modification'
-    };
+    const currentContent = clientRef.current.content;
+    const operations = OperationalTransform.diff(currentContent, newContent, userId);
+    if (operations.length === 0) return;
 
-    setLocalContent(newContent);
-    onCodeChange(newContent, operation);
+    const operation = createHistoryEntry(operations, userId, username, currentContent);
+    const toSend = clientRef.current.applyLocal(operations);
+    setLocalContent(clientRef.current.content);
+    if (toSend) {
+      void sendOperations(toSend, operation);
+    }
 
     // Set typing indicator
     setIsTyping(true);
@@ -98,7 +225,7 @@ export function CollaborativeCodeEditor({
     typingTimeoutRef.current = setTimeout(() => {
       setIsTyping(false);
     }, 1000);
-  }, [canEdit, userId, username, localContent, onCodeChange]);
+  }, [canEdit, userId, username, sendOperations]);
 
   // Handle cursor position changes
   const handleCursorChange = useCallback(() => {
@@ -311,4 +438,47 @@ export function CollaborativeCodeEditor({
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+function offsetToPosition(content: string, offset: number): Position {
+  const lines = content.substring(0, offset).split('\n');
+  return {
+    line: lines.length - 1,
+    column: lines[lines.length - 1].length,
+    offset
+  };
+}
+
+// Summarizes a batch of operations as a code history entry. Line and column
+// positions are only available when the content the batch applies to is known.
+function createHistoryEntry(
+  operations: Operation[],
+  userId: string,
+  username: string,
+  baseContent?: string
+): CodeHistoryEntry {
+  const timestamp = new Date();
+  const start = Math.min(...operations.map(op => op.position));
+  const deletedLength = operations
+    .filter(op => op.type === 'delete')
+    .reduce((sum, op) => sum + (op.length || 0), 0);
+  const inserted = operations
+    .filter(op => op.type === 'insert')
+    .map(op => op.content || '')
+    .join('');
+  const toPosition = (offset: number): Position =>
+    baseContent !== undefined ? offsetToPosition(baseContent, offset) : { line: 0, column: 0, offset };
+
+  return {
+    entryId: `${timestamp.getTime()}-${userId}`,
+    timestamp,
+    userId,
+    username,
+    operation: deletedLength > 0 && inserted ? 'replace' : inserted ? 'insert' : 'delete',
+    startPosition: toPosition(start),
+    endPosition: toPosition(start + deletedLength),
+    oldContent: baseContent?.slice(start, start + deletedLength),
+    newContent: inserted,
+    description: 'Code modification'
+  };
+}
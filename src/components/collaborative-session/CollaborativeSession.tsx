@@ -35,15 +35,22 @@ import {
   CodeHistoryEntry,
   Position,
   CodeSelection,
-  SessionComment
+  SessionComment,
+  Operation
 } from '@/types/collaborative-session';
+import { ReportReason } from '@/types/moderation';
 import { CollaborativeSessionService } from '@/lib/firebase/collaborative-session';
+import { ModerationService } from '@/lib/firebase/moderation';
+import { ModerationError } from '@/lib/moderation/moderation-queue';
+import { postSessionCommentAction } from '@/app/actions';
+import type { OperationCommit } from '@/lib/collaborative-session/operational-transform';
 import { useAuth } from '@/hooks/useAuth';
 import { CollaborativeCodeEditor } from './CollaborativeCodeEditor';
 import { SessionChat } from './SessionChat';
 import { AIInsightPanel } from './AIInsightPanel';
 import { ParticipantsList } from './ParticipantsList';
 import { SessionRecordingPlayer } from './SessionRecordingPlayer';
+import { ReportContentDialog } from '@/components/moderation/ReportContentDialog';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import EnhancedToast from '@/components/EnhancedToast';
 import { analyzeCollaborativeSession } from '@/ai/flows/collaborative-session-mentor';
@@ -62,12 +69,16 @@ export function CollaborativeSession({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('code');
+  const [comments, setComments] = useState<SessionComment[]>([]);
+  const [reportedComment, setReportedComment] = useState<SessionComment | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [recordingStartTime, setRecordingStartTime] = useState<Date | null>(null);
   
   // Real-time state
   const [realTimeUpdates, setRealTimeUpdates] = useState<RealTimeUpdate[]>([]);
+  const [remoteCodeChange, setRemoteCodeChange] = useState<RealTimeUpdate | null>(null);
   const unsubscribeRef = useRef<(() => void) | null>(null);
+  const unsubscribeCommentsRef = useRef<(() => void) | null>(null);
 
   // Initialize session
   useEffect(() => {
@@ -122,6 +133,7 @@ export function CollaborativeSession({
           handleRealTimeUpdate
         );
         unsubscribeRef.current = unsubscribe;
+        unsubscribeCommentsRef.current = CollaborativeSessionService.subscribeToComments(sessionId, setComments);
 
       } catch (err) {
         console.error('Error initializing session:', err);
@@ -137,6 +149,7 @@ export function CollaborativeSession({
       if (unsubscribeRef.current) {
         unsubscribeRef.current();
       }
+      unsubscribeCommentsRef.current?.();
     };
   }, [sessionId, user, initialMode]);
 
@@ -147,17 +160,19 @@ export function CollaborativeSession({
     // Update session state based on update type
     switch (update.type) {
       case 'code_change':
-        if (session && update.data.codeContent) {
-          setSession(prev => prev ? {
+        if (update.data.codeContent !== undefined) {
+          setSession(prev => prev && (update.data.version ?? prev.sharedCode.version + 1) > prev.sharedCode.version ? {
             ...prev,
             sharedCode: {
               ...prev.sharedCode,
               content: update.data.codeContent,
-              version: prev.sharedCode.version + 1,
+              version: update.data.version ?? prev.sharedCode.version + 1,
               lastModifiedBy: update.userId || 'unknown',
               lastModifiedAt: new Date()
             }
-          } : null);
+          } : prev);
+          // The editor merges the operations into any local edits it has in flight
+          setRemoteCodeChange(update);
         }
         break;
       
@@ -176,101 +191,108 @@ export function CollaborativeSession({
   }, [session, sessionId]);
 
   // Code editor handlers
-  const handleCodeChange = useCallback(async (content: string, operation: CodeHistoryEntry) => {
-    if (!session || !user) return;
+  const analyzeCodeChange = useCallback(async (content: string) => {
+    if (!session || !user || !session.aiMentorEnabled) return;
 
     try {
-      await CollaborativeSessionService.updateSharedCode(
-        session.sessionId,
-        content,
-        user.uid,
-        operation
-      );
-
-      // Trigger AI analysis for real-time insights
-      if (session.aiMentorEnabled) {
-        try {
-          const analysisResult = await analyzeCollaborativeSession({
-            sessionId: session.sessionId,
-            currentCode: content,
-            codeHistory: session.codeHistory.slice(-10).map(entry => ({
-              entryId: entry.entryId,
-              timestamp: entry.timestamp.toISOString(),
-              userId: entry.userId,
-              username: entry.username,
-              operation: entry.operation,
-              oldContent: entry.oldContent || '',
-              newContent: entry.newContent || '',
-              description: entry.description
-            })),
-            participants: session.participants.map(p => ({
-              userId: p.userId,
-              username: p.username,
-              role: p.role,
-              skillLevel: 'intermediate', // Would come from user profile
-              isActive: p.isActive
-            })),
-            sessionContext: {
-              skillLevel: session.skillLevel,
-              focusAreas: session.focusAreas,
-              duration: session.duration || 0,
-              aiMentorEnabled: session.aiMentorEnabled
-            },
-            triggerType: 'code_change'
-          });
-
-          // Add AI suggestions and insights to session
-          for (const suggestion of analysisResult.suggestions) {
-            const aiSuggestion: AISuggestion = {
-              suggestionId: suggestion.suggestionId,
-              type: suggestion.type,
-              title: suggestion.title,
-              description: suggestion.description,
-              targetPosition: suggestion.targetPosition || { line: 0, column: 0, offset: 0 },
-              targetCode: suggestion.targetCode || '',
-              suggestedCode: suggestion.suggestedCode || '',
-              confidence: suggestion.confidence,
-              reasoning: suggestion.reasoning,
-              skillsTargeted: suggestion.skillsTargeted,
-              status: 'pending',
-              votes: [],
-              createdAt: new Date(),
-              priority: suggestion.priority,
-              category: suggestion.category
-            };
-
-            await CollaborativeSessionService.addAISuggestion(session.sessionId, aiSuggestion);
-          }
+      const analysisResult = await analyzeCollaborativeSession({
+        sessionId: session.sessionId,
+        currentCode: content,
+        codeHistory: session.codeHistory.slice(-10).map(entry => ({
+          entryId: entry.entryId,
+          timestamp: entry.timestamp.toISOString(),
+          userId: entry.userId,
+          username: entry.username,
+          operation: entry.operation,
+          oldContent: entry.oldContent || '',
+          newContent: entry.newContent || '',
+          description: entry.description
+        })),
+        participants: session.participants.map(p => ({
+          userId: p.userId,
+          username: p.username,
+          role: p.role,
+          skillLevel: 'intermediate', // Would come from user profile
+          isActive: p.isActive
+        })),
+        sessionContext: {
+          skillLevel: session.skillLevel,
+          focusAreas: session.focusAreas,
+          duration: session.duration || 0,
+          aiMentorEnabled: session.aiMentorEnabled
+        },
+        triggerType: 'code_change'
+      });
+
+      // Add AI suggestions and insights to session
+      for (const suggestion of analysisResult.suggestions) {
+        const aiSuggestion: AISuggestion = {
+          suggestionId: suggestion.suggestionId,
+          type: suggestion.type,
+          title: suggestion.title,
+          description: suggestion.description,
+          targetPosition: suggestion.targetPosition || { line: 0, column: 0, offset: 0 },
+          targetCode: suggestion.targetCode || '',
+          suggestedCode: suggestion.suggestedCode || '',
+          confidence: suggestion.confidence,
+          reasoning: suggestion.reasoning,
+          skillsTargeted: suggestion.skillsTargeted,
+          status: 'pending',
+          votes: [],
+          createdAt: new Date(),
+          priority: suggestion.priority,
+          category: suggestion.category
+        };
+
+        await CollaborativeSessionService.addAISuggestion(session.sessionId, aiSuggestion);
+      }
 
-          for (const insight of analysisResult.insights) {
-            const realTimeInsight: RealTimeInsight = {
-              insightId: insight.insightId,
-              type: insight.type,
-              title: insight.title,
-              message: insight.message,
-              triggeredBy: insight.triggeredBy,
-              relatedCode: insight.relatedCode,
-              targetUsers: insight.targetUsers,
-              priority: insight.priority,
-              isRead: {},
-              responses: [],
-              createdAt: new Date(),
-              aiGenerated: insight.aiGenerated
-            };
-
-            await CollaborativeSessionService.addRealTimeInsight(session.sessionId, realTimeInsight);
-          }
-        } catch (aiError) {
-          console.error('AI analysis failed:', aiError);
-          // Continue without AI insights
-        }
+      for (const insight of analysisResult.insights) {
+        const realTimeInsight: RealTimeInsight = {
+          insightId: insight.insightId,
+          type: insight.type,
+          title: insight.title,
+          message: insight.message,
+          triggeredBy: insight.triggeredBy,
+          relatedCode: insight.relatedCode,
+          targetUsers: insight.targetUsers,
+          priority: insight.priority,
+          isRead: {},
+          responses: [],
+          createdAt: new Date(),
+          aiGenerated: insight.aiGenerated
+        };
+
+        await CollaborativeSessionService.addRealTimeInsight(session.sessionId, realTimeInsight);
       }
-    } catch (error) {
-      console.error('Error updating code:', error);
-      setError('Failed to update code');
+    } catch (aiError) {
+      console.error('AI analysis failed:', aiError);
+      // Continue without AI insights
     }
   }, [session, user]);
 
+  const handleCodeChange = useCallback(async (
+    content: string,
+    operation: CodeHistoryEntry,
+    edit: { baseVersion: number; operations: Operation[] }
+  ): Promise<OperationCommit> => {
+    if (!session || !user) throw new Error('Session not loaded');
+
+    // Conflicts are handled by the editor, which resyncs and retries
+    const commit = await CollaborativeSessionService.updateSharedCode(
+      session.sessionId,
+      content,
+      user.uid,
+      operation,
+      edit
+    );
+
+    // Trigger AI analysis for real-time insights without holding up the editor
+    void analyzeCodeChange(commit.content);
+
+    return commit;
+  }, [session, user, analyzeCodeChange]);
+
   const handleCursorMove = useCallback(async (position: Position) => {
     if (!session || !user) return;
 
@@ -312,13 +334,38 @@ export function CollaborativeSession({
   }, [session, user]);
 
   // Chat handlers
-  const handleSendMessage = useCallback(async (content: string, codePosition?: any) => {
+  const postComment = useCallback(async (content: string, fields: Partial<SessionComment> = {}) => {
     if (!session || !user) return;
 
-    // This would integrate with a chat/comment system
-    console.log('Sending message:', content, codePosition);
+    const comment: SessionComment = {
+      commentId: `comment_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      userId: user.uid,
+      username: user.displayName || user.email || 'Anonymous',
+      content,
+      createdAt: new Date(),
+      isResolved: false,
+      reactions: [],
+      replies: [],
+      ...fields
+    };
+
+    try {
+      // Posted through the server, which screens the message for the moderation queue
+      await postSessionCommentAction(await user.getIdToken(), session.sessionId, comment);
+    } catch (err) {
+      console.error('Error sending message:', err);
+      EnhancedToast({
+        title: "Message Not Sent",
+        description: "Failed to send your message. Please try again.",
+        type: "error"
+      });
+    }
   }, [session, user]);
 
+  const handleSendMessage = useCallback(async (content: string, codePosition?: any) => {
+    await postComment(content, codePosition ? { codePosition } : {});
+  }, [postComment]);
+
   const handleReactToMessage = useCallback(async (commentId: string, emoji: string) => {
     if (!session || !user) return;
 
@@ -327,11 +374,41 @@ export function CollaborativeSession({
   }, [session, user]);
 
   const handleReplyToMessage = useCallback(async (commentId: string, content: string) => {
-    if (!session || !user) return;
+    await postComment(content, { replyTo: commentId });
+  }, [postComment]);
 
-    // This would handle message replies
-    console.log('Replying to message:', commentId, content);
-  }, [session, user]);
+  const handleReportSubmitted = useCallback(async (reason: ReportReason, details: string) => {
+    if (!session || !user || !reportedComment) return;
+
+    try {
+      await ModerationService.reportContent(
+        {
+          type: 'session_comment',
+          contentId: reportedComment.commentId,
+          authorId: reportedComment.userId,
+          parentId: session.sessionId
+        },
+        reportedComment.content,
+        user.uid,
+        reason,
+        details
+      );
+      setReportedComment(null);
+
+      EnhancedToast({
+        title: "Report Submitted",
+        description: "Thanks for letting us know. A moderator will take a look.",
+        type: "success"
+      });
+    } catch (err) {
+      console.error('Error reporting message:', err);
+      EnhancedToast({
+        title: "Report Failed",
+        description: err instanceof ModerationError ? err.message : "Failed to submit your report. Please try again.",
+        type: "error"
+      });
+    }
+  }, [session, user, reportedComment]);
 
   // AI insight handlers
   const handleApplySuggestion = useCallback(async (suggestionId: string) => {
@@ -618,6 +695,7 @@ export function CollaborativeSession({
                 sharedCode={session.sharedCode}
                 canEdit={canEdit()}
                 participants={session.participants}
+                remoteChange={remoteCodeChange}
                 onCodeChange={handleCodeChange}
                 onCursorMove={handleCursorMove}
                 onSelectionChange={handleSelectionChange}
@@ -629,12 +707,13 @@ export function CollaborativeSession({
                 sessionId={session.sessionId}
                 userId={user?.uid || ''}
                 username={user?.displayName || user?.email || 'Anonymous'}
-                comments={[]} // Would come from session data
+                comments={comments}
                 aiSuggestions={session.aiSuggestions}
                 realTimeInsights={session.realTimeInsights}
                 onSendMessage={handleSendMessage}
                 onReactToMessage={handleReactToMessage}
                 onReplyToMessage={handleReplyToMessage}
+                onReportMessage={setReportedComment}
               />
             </TabsContent>
 
@@ -668,5 +747,13 @@ export function CollaborativeSession({
           />
         </div>
       </div>
+
+      {reportedComment && (
+        <ReportContentDialog
+          excerpt={reportedComment.content}
+          onSubmit={handleReportSubmitted}
+          onCancel={() => setReportedComment(null)}
+        />
+      )}
     </div>
-  );}
+  );}
\ No newline at end of file
@@ -16,7 +16,8 @@ import {
   ThumbsUp,
   ThumbsDown,
   Reply,
-  MoreVertical
+  MoreVertical,
+  Flag
 } from 'lucide-react';
 import { 
   SessionComment, 
@@ -35,6 +36,7 @@ interface SessionChatProps {
   onSendMessage: (content: string, codePosition?: any) => void;
   onReactToMessage: (commentId: string, emoji: string) => void;
   onReplyToMessage: (commentId: string, content: string) => void;
+  onReportMessage?: (comment: SessionComment) => void;
 }
 
 interface ChatMessage {
@@ -42,6 +44,7 @@ interface ChatMessage {
   type: 'comment' | 'ai_suggestion' | 'insight' | 'system';
   content: string;
   author: string;
+  authorId?: string;
   timestamp: Date;
   reactions?: Array<{ emoji: string; count: number; users: string[] }>;
   replies?: ChatMessage[];
@@ -58,7 +61,8 @@ export function SessionChat({
   realTimeInsights,
   onSendMessage,
   onReactToMessage,
-  onReplyToMessage
+  onReplyToMessage,
+  onReportMessage
 }: SessionChatProps) {
   const [message, setMessage] = useState('');
   const [replyingTo, setReplyingTo] = useState<string | null>(null);
@@ -69,13 +73,14 @@ export function SessionChat({
   useEffect(() => {
     const allMessages: ChatMessage[] = [];
 
-    // Add comments
-    comments.forEach(comment => {
+    // Add comments, leaving out any a moderator has hidden
+    comments.filter(comment => comment.moderationStatus !== 'hidden').forEach(comment => {
       allMessages.push({
         id: comment.commentId,
         type: 'comment',
         content: comment.content,
         author: comment.username,
+        authorId: comment.userId,
         timestamp: comment.createdAt,
         reactions: comment.reactions.reduce((acc, reaction) => {
           const existing = acc.find(r => r.emoji === reaction.emoji);
@@ -256,6 +261,20 @@ export function SessionChat({
             >
               <Reply className="h-3 w-3" />
             </Button>
+            {onReportMessage && msg.type === 'comment' && msg.authorId !== userId && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2"
+                onClick={() => {
+                  const comment = comments.find(c => c.commentId === msg.id);
+                  if (comment) onReportMessage(comment);
+                }}
+                aria-label="Report message"
+              >
+                <Flag className="h-3 w-3" />
+              </Button>
+            )}
           </div>
         </div>
       </div>
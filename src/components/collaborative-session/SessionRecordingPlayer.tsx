@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -22,13 +22,15 @@ import {
   MessageSquare,
   Lightbulb,
   FastForward,
-  Rewind
+  Rewind,
+  GitCompare
 } from 'lucide-react';
 import { 
   SessionRecording, 
-  TimestampedEvent, 
   KeyMoment 
 } from '@/types/collaborative-session';
+import { SessionRecordingArchive } from '@/lib/collaborative-session/recording-archive';
+import { SessionReplayEngine, SideBySideDiffRow } from '@/lib/collaborative-session/session-replay';
 import { formatDuration } from 'date-fns';
 
 interface SessionRecordingPlayerProps {
@@ -37,6 +39,11 @@ interface SessionRecordingPlayerProps {
   onShare?: () => void;
 }
 
+interface CompareMarks {
+  from: number | null;
+  to: number | null;
+}
+
 interface PlaybackState {
   isPlaying: boolean;
   currentTime: number;
@@ -58,17 +65,26 @@ export function SessionRecordingPlayer({
     isMuted: false
   });
   
-  const [currentEvent, setCurrentEvent] = useState<TimestampedEvent | null>(null);
-  const [codeContent, setCodeContent] = useState(recording.finalCode);
   const [showKeyMoments, setShowKeyMoments] = useState(true);
   const [selectedKeyMoment, setSelectedKeyMoment] = useState<KeyMoment | null>(null);
+  const [compareMarks, setCompareMarks] = useState<CompareMarks>({ from: null, to: null });
   
   const playbackIntervalRef = useRef<NodeJS.Timeout>();
-  const startTimeRef = useRef<number>(0);
 
-  // Sort events by timestamp
-  const sortedEvents = [...recording.events].sort(
-    (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+  // Seeks start from the nearest keyframe snapshot instead of replaying from the beginning
+  const engine = useMemo(() => new SessionReplayEngine(recording), [recording]);
+  const replayState = useMemo(
+    () => engine.stateAt(playbackState.currentTime),
+    [engine, playbackState.currentTime]
+  );
+  const currentEvent = replayState.event;
+  const codeContent = replayState.code;
+
+  const diffRows = useMemo(
+    () => compareMarks.from !== null && compareMarks.to !== null
+      ? engine.diff(compareMarks.from, compareMarks.to)
+      : null,
+    [engine, compareMarks]
   );
 
   // Sort key moments by timestamp
@@ -76,39 +92,23 @@ export function SessionRecordingPlayer({
     (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
   );
 
-  // Calculate total duration
-  const totalDuration = recording.duration * 60 * 1000; // Convert minutes to milliseconds
+  const totalDuration = engine.duration;
 
   useEffect(() => {
-    if (playbackState.isPlaying) {
-      startTimeRef.current = Date.now() - playbackState.currentTime;
-      
-      playbackIntervalRef.current = setInterval(() => {
-        const elapsed = (Date.now() - startTimeRef.current) * playbackState.playbackSpeed;
-        
-        if (elapsed >= totalDuration) {
-          handleStop();
-          return;
-        }
-        
-        setPlaybackState(prev => ({ ...prev, currentTime: elapsed }));
-        
-        // Find and apply current event
-        const currentEventIndex = sortedEvents.findIndex(
-          event => event.timestamp.getTime() <= elapsed
-        );
-        
-        if (currentEventIndex >= 0) {
-          const event = sortedEvents[currentEventIndex];
-          setCurrentEvent(event);
-          applyEvent(event);
-        }
-      }, 100);
-    } else {
-      if (playbackIntervalRef.current) {
-        clearInterval(playbackIntervalRef.current);
-      }
-    }
+    if (!playbackState.isPlaying) return;
+
+    // Advance by elapsed wall-clock time at the current speed, so speed changes never jump
+    let lastTick = Date.now();
+    playbackIntervalRef.current = setInterval(() => {
+      const now = Date.now();
+      const advance = (now - lastTick) * playbackState.playbackSpeed;
+      lastTick = now;
+
+      setPlaybackState(prev => {
+        const currentTime = Math.min(prev.currentTime + advance, totalDuration);
+        return { ...prev, currentTime, isPlaying: currentTime < totalDuration };
+      });
+    }, 100);
 
     return () => {
       if (playbackIntervalRef.current) {
@@ -117,19 +117,12 @@ export function SessionRecordingPlayer({
     };
   }, [playbackState.isPlaying, playbackState.playbackSpeed, totalDuration]);
 
-  const applyEvent = (event: TimestampedEvent) => {
-    switch (event.type) {
-      case 'code_change':
-        if (event.data.codeContent) {
-          setCodeContent(event.data.codeContent);
-        }
-        break;
-      // Add other event types as needed
-    }
-  };
-
   const handlePlay = () => {
-    setPlaybackState(prev => ({ ...prev, isPlaying: true }));
+    setPlaybackState(prev => ({
+      ...prev,
+      isPlaying: true,
+      currentTime: prev.currentTime >= totalDuration ? 0 : prev.currentTime
+    }));
   };
 
   const handlePause = () => {
@@ -142,21 +135,29 @@ export function SessionRecordingPlayer({
       isPlaying: false, 
       currentTime: 0 
     }));
-    setCodeContent(recording.finalCode);
-    setCurrentEvent(null);
   };
 
   const handleSeek = (time: number) => {
-    setPlaybackState(prev => ({ ...prev, currentTime: time }));
-    
-    // Apply all events up to this time
-    const eventsToApply = sortedEvents.filter(
-      event => event.timestamp.getTime() <= time
-    );
-    
-    // Reset to initial state and apply events
-    setCodeContent('');
-    eventsToApply.forEach(applyEvent);
+    setPlaybackState(prev => ({
+      ...prev,
+      currentTime: Math.min(Math.max(time, 0), totalDuration)
+    }));
+  };
+
+  // Falls back to saving a portable archive when the host doesn't handle downloads
+  const handleDownload = async () => {
+    if (onDownload) {
+      onDownload();
+      return;
+    }
+
+    const archive = await SessionRecordingArchive.export(recording);
+    const url = URL.createObjectURL(new Blob([archive], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${recording.title.replace(/[^\w-]+/g, '-') || recording.recordingId}.recording.json`;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
   const handleSpeedChange = (speed: number) => {
@@ -168,19 +169,20 @@ export function SessionRecordingPlayer({
   };
 
   const jumpToKeyMoment = (moment: KeyMoment) => {
-    const momentTime = moment.timestamp.getTime();
-    handleSeek(momentTime);
+    handleSeek(engine.keyMomentTime(moment));
     setSelectedKeyMoment(moment);
   };
 
+  const markForComparison = (mark: keyof CompareMarks, time: number) => {
+    setCompareMarks(prev => ({ ...prev, [mark]: time }));
+  };
+
   const skipForward = () => {
-    const newTime = Math.min(playbackState.currentTime + 10000, totalDuration);
-    handleSeek(newTime);
+    handleSeek(playbackState.currentTime + 10000);
   };
 
   const skipBackward = () => {
-    const newTime = Math.max(playbackState.currentTime - 10000, 0);
-    handleSeek(newTime);
+    handleSeek(playbackState.currentTime - 10000);
   };
 
   const formatTime = (milliseconds: number) => {
@@ -201,6 +203,13 @@ export function SessionRecordingPlayer({
     }
   };
 
+  const getDiffCellColor = (type: SideBySideDiffRow['type'], side: 'left' | 'right') => {
+    if (type === 'modified') return side === 'left' ? 'bg-red-500/10' : 'bg-green-500/10';
+    if (type === 'removed') return side === 'left' ? 'bg-red-500/20' : 'bg-muted/50';
+    if (type === 'added') return side === 'right' ? 'bg-green-500/20' : 'bg-muted/50';
+    return '';
+  };
+
   const getKeyMomentColor = (type: string) => {
     switch (type) {
       case 'breakthrough': return 'bg-green-500';
@@ -246,12 +255,10 @@ export function SessionRecordingPlayer({
                   Share
                 </Button>
               )}
-              {onDownload && (
-                <Button variant="outline" size="sm" onClick={onDownload}>
-                  <Download className="h-4 w-4 mr-1" />
-                  Download
-                </Button>
-              )}
+              <Button variant="outline" size="sm" onClick={handleDownload}>
+                <Download className="h-4 w-4 mr-1" />
+                Download
+              </Button>
             </div>
           </div>
         </CardHeader>
@@ -269,7 +276,7 @@ export function SessionRecordingPlayer({
                   {getEventIcon(currentEvent.type)}
                   <span>{currentEvent.description}</span>
                   <Badge variant="outline" className="text-xs">
-                    {formatTime(currentEvent.timestamp.getTime())}
+                    {formatTime(engine.offsetOf(currentEvent.timestamp))}
                   </Badge>
                 </div>
               )}
@@ -373,6 +380,73 @@ export function SessionRecordingPlayer({
               </div>
             </CardContent>
           </Card>
+
+          {/* Side-by-side diff between two moments */}
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <GitCompare className="h-5 w-5" />
+                  Compare Moments
+                </CardTitle>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => markForComparison('from', playbackState.currentTime)}
+                  >
+                    Mark A{compareMarks.from !== null && ` (${formatTime(compareMarks.from)})`}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => markForComparison('to', playbackState.currentTime)}
+                  >
+                    Mark B{compareMarks.to !== null && ` (${formatTime(compareMarks.to)})`}
+                  </Button>
+                  {diffRows && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setCompareMarks({ from: null, to: null })}
+                    >
+                      Clear
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {diffRows ? (
+                <div className="max-h-96 overflow-auto rounded border font-mono text-xs">
+                  <table className="w-full border-collapse">
+                    <tbody>
+                      {diffRows.map((row, index) => (
+                        <tr key={index}>
+                          <td className="w-8 px-2 text-right text-muted-foreground select-none">
+                            {row.left?.lineNumber}
+                          </td>
+                          <td className={`w-1/2 px-2 whitespace-pre-wrap ${getDiffCellColor(row.type, 'left')}`}>
+                            {row.left?.text}
+                          </td>
+                          <td className="w-8 px-2 text-right text-muted-foreground select-none border-l">
+                            {row.right?.lineNumber}
+                          </td>
+                          <td className={`w-1/2 px-2 whitespace-pre-wrap ${getDiffCellColor(row.type, 'right')}`}>
+                            {row.right?.text}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="text-sm text-muted-foreground">
+                  Mark two points in the recording, or pick them from the key moments, to compare the code side by side.
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
 
         {/* Sidebar */}
@@ -408,14 +482,38 @@ export function SessionRecordingPlayer({
                         />
                         <span className="font-medium text-sm">{moment.title}</span>
                         <Badge variant="outline" className="text-xs ml-auto">
-                          {formatTime(moment.timestamp.getTime())}
+                          {formatTime(engine.keyMomentTime(moment))}
                         </Badge>
                       </div>
                       <div className="text-xs text-muted-foreground">
                         {moment.description}
                       </div>
-                      <div className="text-xs text-muted-foreground mt-1">
-                        Importance: {moment.importance}/10
+                      <div className="flex items-center justify-between text-xs text-muted-foreground mt-1">
+                        <span>Importance: {moment.importance}/10</span>
+                        <span className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              markForComparison('from', engine.keyMomentTime(moment));
+                            }}
+                          >
+                            A
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              markForComparison('to', engine.keyMomentTime(moment));
+                            }}
+                          >
+                            B
+                          </Button>
+                        </span>
                       </div>
                     </div>
                   ))}
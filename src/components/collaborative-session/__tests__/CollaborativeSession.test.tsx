@@ -78,7 +78,12 @@ describe('CollaborativeSession', () => {
     vi.mocked(CollaborativeSessionService.getSession).mockResolvedValue(mockSession);
     vi.mocked(CollaborativeSessionService.joinSession).mockResolvedValue();
     vi.mocked(CollaborativeSessionService.subscribeToSessionUpdates).mockReturnValue(() => {});
-    vi.mocked(CollaborativeSessionService.updateSharedCode).mockResolvedValue();
+    vi.mocked(CollaborativeSessionService.updateSharedCode).mockResolvedValue({
+      version: 1,
+      content: mockSession.sharedCode.content,
+      operations: [],
+      concurrentOperations: []
+    });
     vi.mocked(CollaborativeSessionService.updateParticipantStatus).mockResolvedValue();
     vi.mocked(CollaborativeSessionService.addAISuggestion).mockResolvedValue();
     vi.mocked(CollaborativeSessionService.addRealTimeInsight).mockResolvedValue();
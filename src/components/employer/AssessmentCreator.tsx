@@ -540,7 +540,7 @@ export function AssessmentCreator({
                   <div className="mt-1 space-y-2">
                     {challenge.testCases.slice(0, 2).map((testCase, testIndex) => (
                       <div key={testCase.testId} className="p-2 bg-gray-50 rounded text-sm">
-                        <div className="font-medium">Input: {testCase.input}</div>
+                        <div className="font-medium">Input: {testCase.args ? `${testCase.functionName || 'solution'}(${testCase.args.map(arg => JSON.stringify(arg)).join(', ')})` : testCase.input}</div>
                         <div className="text-gray-600">Expected: {testCase.expectedOutput}</div>
                       </div>
                     ))}
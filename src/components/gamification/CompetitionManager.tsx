@@ -28,8 +28,16 @@ import {
   Square,
   Eye
 } from 'lucide-react';
-import { LeaderboardService } from '@/lib/gamification/leaderboard-service';
+import { CompetitionService } from '@/lib/firebase/competitions';
+import { ChallengeService } from '@/lib/firebase/analytics';
+import { ContestScoreboard } from './ContestScoreboard';
+import { createCompetitionAction, registerForCompetitionAction, submitCompetitionEntryAction } from '@/app/actions';
+import { useAuth } from '@/hooks/useAuth';
 import { Competition, CompetitionPrize, CompetitionRule } from '@/types/gamification';
+import { Challenge } from '@/types/analytics';
+
+// Languages the contest judge can run
+const CONTEST_LANGUAGES = ['javascript', 'typescript', 'python', 'go', 'java', 'cpp'];
 
 interface CompetitionManagerProps {
   userId: string;
@@ -42,6 +50,12 @@ export function CompetitionManager({ userId, userRole }: CompetitionManagerProps
   const [selectedCompetition, setSelectedCompetition] = useState<Competition | null>(null);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [activeTab, setActiveTab] = useState('active');
+  const { user } = useAuth();
+
+  // Entry form for judged competitions
+  const [entry, setEntry] = useState({ challengeId: '', language: 'javascript', code: '' });
+  const [submittingEntry, setSubmittingEntry] = useState(false);
+  const [entryStatus, setEntryStatus] = useState<string | null>(null);
 
   // Form state for creating competitions
   const [formData, setFormData] = useState({
@@ -53,84 +67,32 @@ export function CompetitionManager({ userId, userRole }: CompetitionManagerProps
     endDate: '',
     maxParticipants: '',
     entryFee: '',
-    registrationDeadline: ''
+    registrationDeadline: '',
+    scoreboardFreezeMinutes: ''
   });
 
   const [prizes, setPrizes] = useState<CompetitionPrize[]>([]);
   const [rules, setRules] = useState<CompetitionRule[]>([]);
+  const [challengeIds, setChallengeIds] = useState<string[]>([]);
+  const [availableChallenges, setAvailableChallenges] = useState<Challenge[]>([]);
+  const [createError, setCreateError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchCompetitions();
   }, []);
 
+  useEffect(() => {
+    if (showCreateDialog && availableChallenges.length === 0) {
+      ChallengeService.getActiveChallenges()
+        .then(setAvailableChallenges)
+        .catch(error => console.error('Error fetching challenges:', error));
+    }
+  }, [showCreateDialog, availableChallenges.length]);
+
   const fetchCompetitions = async () => {
     try {
       setLoading(true);
-      // This would fetch from the service
-      const mockCompetitions: Competition[] = [
-        {
-          competitionId: 'comp_1',
-          title: 'Daily JavaScript Challenge',
-          description: 'Test your JavaScript skills with daily challenges',
-          type: 'daily',
-          category: 'skill_based',
-          startDate: new Date(),
-          endDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
-          prizes: [
-            { rank: 1, title: 'Gold Badge', description: 'First place winner', type: 'badge', value: 'gold_js_master' },
-            { rank: 2, title: 'Silver Badge', description: 'Second place', type: 'badge', value: 'silver_js_expert' },
-            { rank: 3, title: 'Bronze Badge', description: 'Third place', type: 'badge', value: 'bronze_js_skilled' }
-          ],
-          rules: [
-            { ruleId: 'rule_1', description: 'No external libraries allowed', category: 'submission', isRequired: true },
-            { ruleId: 'rule_2', description: 'Code must be original work', category: 'conduct', isRequired: true }
-          ],
-          participants: [],
-          leaderboard: [],
-          status: 'active',
-          createdBy: 'system',
-          metadata: {
-            totalParticipants: 45,
-            averageScore: 72,
-            topScore: 95,
-            submissionsCount: 67,
-            skillsTargeted: ['JavaScript', 'algorithms'],
-            difficultyLevel: 'intermediate',
-            estimatedDuration: 60
-          }
-        },
-        {
-          competitionId: 'comp_2',
-          title: 'Weekly React Mastery',
-          description: 'Build amazing React components and win prizes',
-          type: 'weekly',
-          category: 'skill_based',
-          startDate: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
-          endDate: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000),
-          prizes: [
-            { rank: 1, title: 'React Master NFT', description: 'Exclusive NFT badge', type: 'nft', value: 'react_master_nft' },
-            { rank: 'top_10', title: 'Bonus Points', description: 'Extra 500 points', type: 'points', value: 500 }
-          ],
-          rules: [
-            { ruleId: 'rule_3', description: 'Must use React 18+ features', category: 'submission', isRequired: true },
-            { ruleId: 'rule_4', description: 'Component must be accessible', category: 'submission', isRequired: true }
-          ],
-          participants: [],
-          leaderboard: [],
-          status: 'active',
-          createdBy: userId,
-          metadata: {
-            totalParticipants: 128,
-            averageScore: 78,
-            topScore: 98,
-            submissionsCount: 156,
-            skillsTargeted: ['React', 'TypeScript', 'accessibility'],
-            difficultyLevel: 'advanced',
-            estimatedDuration: 180
-          }
-        }
-      ];
-      setCompetitions(mockCompetitions);
+      setCompetitions(await CompetitionService.listCompetitions());
     } catch (error) {
       console.error('Error fetching competitions:', error);
     } finally {
@@ -139,7 +101,10 @@ export function CompetitionManager({ userId, userRole }: CompetitionManagerProps
   };
 
   const handleCreateCompetition = async () => {
+    if (!user) return;
+
     try {
+      setCreateError(null);
       const competitionData = {
         ...formData,
         startDate: new Date(formData.startDate),
@@ -147,18 +112,61 @@ export function CompetitionManager({ userId, userRole }: CompetitionManagerProps
         registrationDeadline: formData.registrationDeadline ? new Date(formData.registrationDeadline) : undefined,
         maxParticipants: formData.maxParticipants ? parseInt(formData.maxParticipants) : undefined,
         entryFee: formData.entryFee ? parseInt(formData.entryFee) : undefined,
-        challenges: [], // Would be selected from available challenges
+        scoreboardFreezeMinutes: formData.scoreboardFreezeMinutes ? parseInt(formData.scoreboardFreezeMinutes) : undefined,
+        challenges: challengeIds,
         prizes,
-        rules,
-        createdBy: userId
+        rules
       };
 
-      const newCompetition = await LeaderboardService.createCompetition(competitionData);
-      setCompetitions(prev => [...prev, newCompetition]);
+      const newCompetition = await createCompetitionAction(await user.getIdToken(), competitionData);
+      setCompetitions(prev => [newCompetition, ...prev]);
       setShowCreateDialog(false);
       resetForm();
     } catch (error) {
       console.error('Error creating competition:', error);
+      setCreateError(error instanceof Error ? error.message : 'Could not create the competition');
+    }
+  };
+
+  const handleJoin = async (competition: Competition) => {
+    if (!user) return;
+
+    try {
+      await registerForCompetitionAction(
+        await user.getIdToken(),
+        competition.competitionId,
+        user.displayName || user.email || userId
+      );
+      await fetchCompetitions();
+    } catch (error) {
+      console.error('Error joining competition:', error);
+    }
+  };
+
+  const toggleChallenge = (challengeId: string) => {
+    setChallengeIds(prev => prev.includes(challengeId)
+      ? prev.filter(id => id !== challengeId)
+      : [...prev, challengeId]);
+  };
+
+  const handleSubmitEntry = async () => {
+    if (!user || !selectedCompetition) return;
+
+    try {
+      setSubmittingEntry(true);
+      await submitCompetitionEntryAction(await user.getIdToken(), {
+        competitionId: selectedCompetition.competitionId,
+        challengeId: entry.challengeId,
+        language: entry.language,
+        code: entry.code
+      });
+      setEntry(prev => ({ ...prev, code: '' }));
+      setEntryStatus('Submitted for judging; the scoreboard updates once it is judged');
+    } catch (error) {
+      console.error('Error submitting competition entry:', error);
+      setEntryStatus(error instanceof Error ? error.message : 'Submission failed');
+    } finally {
+      setSubmittingEntry(false);
     }
   };
 
@@ -172,10 +180,13 @@ export function CompetitionManager({ userId, userRole }: CompetitionManagerProps
       endDate: '',
       maxParticipants: '',
       entryFee: '',
-      registrationDeadline: ''
+      registrationDeadline: '',
+      scoreboardFreezeMinutes: ''
     });
     setPrizes([]);
     setRules([]);
+    setChallengeIds([]);
+    setCreateError(null);
   };
 
   const addPrize = () => {
@@ -367,6 +378,41 @@ export function CompetitionManager({ userId, userRole }: CompetitionManagerProps
                   </div>
                 </div>
 
+                {/* Challenges; competitions with challenges are judged */}
+                <div className="space-y-2">
+                  <Label>Challenges</Label>
+                  {availableChallenges.length > 0 ? (
+                    <div className="max-h-48 overflow-y-auto space-y-1 p-2 border rounded">
+                      {availableChallenges.map((challenge) => (
+                        <label key={challenge.challengeId} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={challengeIds.includes(challenge.challengeId)}
+                            onChange={() => toggleChallenge(challenge.challengeId)}
+                          />
+                          <span className="flex-1">{challenge.title}</span>
+                          <Badge variant="outline" className="text-xs">{challenge.difficulty}</Badge>
+                        </label>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No active challenges to choose from</p>
+                  )}
+                  {challengeIds.length > 0 && (
+                    <div>
+                      <Label htmlFor="scoreboardFreezeMinutes">Scoreboard freeze (final minutes)</Label>
+                      <Input
+                        id="scoreboardFreezeMinutes"
+                        type="number"
+                        min={0}
+                        value={formData.scoreboardFreezeMinutes}
+                        onChange={(e) => setFormData(prev => ({ ...prev, scoreboardFreezeMinutes: e.target.value }))}
+                        placeholder="No freeze"
+                      />
+                    </div>
+                  )}
+                </div>
+
                 {/* Prizes */}
                 <div>
                   <div className="flex justify-between items-center mb-4">
@@ -447,11 +493,13 @@ export function CompetitionManager({ userId, userRole }: CompetitionManagerProps
                   </div>
                 </div>
 
+                {createError && <p className="text-sm text-destructive">{createError}</p>}
+
                 <div className="flex justify-end gap-2">
                   <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
                     Cancel
                   </Button>
-                  <Button onClick={handleCreateCompetition}>
+                  <Button onClick={handleCreateCompetition} disabled={!user}>
                     Create Competition
                   </Button>
                 </div>
@@ -487,12 +535,13 @@ export function CompetitionManager({ userId, userRole }: CompetitionManagerProps
                     </div>
                     
                     <div className="flex gap-2">
-                      <Button variant="outline" size="sm">
+                      <Button variant="outline" size="sm" onClick={() => setSelectedCompetition(competition)}>
                         <Eye className="h-4 w-4 mr-2" />
                         View
                       </Button>
-                      {competition.status === 'registration_open' && (
-                        <Button size="sm">
+                      {competition.status === 'registration_open' &&
+                        !competition.participants.some(participant => participant.userId === userId) && (
+                        <Button size="sm" onClick={() => handleJoin(competition)} disabled={!user}>
                           <Users className="h-4 w-4 mr-2" />
                           Join
                         </Button>
@@ -582,6 +631,75 @@ export function CompetitionManager({ userId, userRole }: CompetitionManagerProps
           )}
         </TabsContent>
       </Tabs>
+
+      {/* Live scoreboard for judged competitions */}
+      <Dialog
+        open={(selectedCompetition?.challengeIds?.length ?? 0) > 0}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSelectedCompetition(null);
+            setEntryStatus(null);
+          }
+        }}
+      >
+        <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedCompetition?.title}</DialogTitle>
+          </DialogHeader>
+          {selectedCompetition && (
+            <ContestScoreboard competitionId={selectedCompetition.competitionId} userId={userId} />
+          )}
+          {selectedCompetition?.status === 'active' &&
+            selectedCompetition.participants.some(participant => participant.userId === userId) && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="entryChallenge">Challenge</Label>
+                  <Select value={entry.challengeId} onValueChange={(value) => setEntry(prev => ({ ...prev, challengeId: value }))}>
+                    <SelectTrigger id="entryChallenge">
+                      <SelectValue placeholder="Choose a challenge" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {selectedCompetition.challengeIds?.map(challengeId => (
+                        <SelectItem key={challengeId} value={challengeId}>{challengeId}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="entryLanguage">Language</Label>
+                  <Select value={entry.language} onValueChange={(value) => setEntry(prev => ({ ...prev, language: value }))}>
+                    <SelectTrigger id="entryLanguage">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONTEST_LANGUAGES.map(language => (
+                        <SelectItem key={language} value={language}>{language}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <Textarea
+                value={entry.code}
+                onChange={(e) => setEntry(prev => ({ ...prev, code: e.target.value }))}
+                placeholder="Paste your solution"
+                rows={8}
+                className="font-mono text-sm"
+              />
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">{entryStatus}</p>
+                <Button
+                  onClick={handleSubmitEntry}
+                  disabled={submittingEntry || !user || !entry.challengeId || !entry.code.trim()}
+                >
+                  {submittingEntry ? 'Submitting...' : 'Submit Solution'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
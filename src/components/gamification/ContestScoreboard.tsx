@@ -0,0 +1,108 @@
+/**
+ * @fileOverview Live contest scoreboard pushed from the judging queue, with the final freeze
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Trophy, Snowflake, Clock } from 'lucide-react';
+import { ContestService } from '@/lib/firebase/contests';
+import { ContestProblemResult, ContestScoreboard as ContestScoreboardData } from '@/types/gamification';
+
+interface ContestScoreboardProps {
+  competitionId: string;
+  userId?: string;
+}
+
+export function ContestScoreboard({ competitionId, userId }: ContestScoreboardProps) {
+  const [scoreboard, setScoreboard] = useState<ContestScoreboardData | null>(null);
+
+  useEffect(() => {
+    setScoreboard(null);
+    const unsubscribe = ContestService.subscribeToScoreboard(competitionId, setScoreboard);
+    return () => unsubscribe();
+  }, [competitionId]);
+
+  const formatProblem = (problem: ContestProblemResult) => {
+    if (problem.attempts === 0 && problem.pendingAttempts === 0) return '—';
+    const pending = problem.pendingAttempts > 0 ? ` +${problem.pendingAttempts}?` : '';
+    if (problem.points === 0) return `${problem.attempts} tries${pending}`;
+    return `${problem.points} (${problem.solvedAtMinute}m, ${problem.attempts} tries)${pending}`;
+  };
+
+  if (!scoreboard) {
+    return (
+      <Card>
+        <CardContent className="text-center py-8">
+          <Clock className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+          <p className="text-muted-foreground">Waiting for the first judged submission...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const challengeIds = scoreboard.rows[0]?.problems.map(problem => problem.challengeId) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trophy className="h-5 w-5" />
+          Scoreboard
+          {scoreboard.frozen && (
+            <Badge variant="secondary" className="ml-2">
+              <Snowflake className="h-3 w-3 mr-1" />
+              Frozen since {scoreboard.frozenAt?.toLocaleTimeString()}
+            </Badge>
+          )}
+        </CardTitle>
+        {scoreboard.frozen && (
+          <p className="text-sm text-muted-foreground">
+            Results of submissions made since the freeze are revealed when the competition ends.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rank</TableHead>
+              <TableHead>Participant</TableHead>
+              <TableHead>Solved</TableHead>
+              <TableHead>Points</TableHead>
+              <TableHead>Penalty</TableHead>
+              {challengeIds.map(challengeId => (
+                <TableHead key={challengeId}>{challengeId}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {scoreboard.rows.map(row => (
+              <TableRow key={row.userId} className={row.userId === userId ? 'bg-primary/10' : undefined}>
+                <TableCell className="font-medium">#{row.rank}</TableCell>
+                <TableCell>{row.username}</TableCell>
+                <TableCell>{row.solvedCount}</TableCell>
+                <TableCell>{row.totalPoints}</TableCell>
+                <TableCell>{row.penaltyMinutes}m</TableCell>
+                {row.problems.map(problem => (
+                  <TableCell
+                    key={problem.challengeId}
+                    className={problem.solved ? 'text-green-600' : problem.pendingAttempts > 0 ? 'text-amber-600' : undefined}
+                  >
+                    {formatProblem(problem)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <p className="text-xs text-muted-foreground mt-2">
+          Updated {scoreboard.updatedAt.toLocaleTimeString()}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
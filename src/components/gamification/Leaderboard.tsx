@@ -38,9 +38,21 @@ export function Leaderboard({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedType, setSelectedType] = useState(initialType);
-  const [selectedSkill, setSelectedSkill] = useState(skillId || '');
+  const [selectedSkill, setSelectedSkill] = useState(skillId || 'JavaScript');
   const [selectedTimeframe, setSelectedTimeframe] = useState<'daily' | 'weekly' | 'monthly' | 'all_time'>('weekly');
   const [userRanks, setUserRanks] = useState<any>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const buildQuery = useCallback((cursor?: string): LeaderboardQuery => ({
+    type: selectedType,
+    skillId: selectedType === 'skill_based' ? selectedSkill : undefined,
+    competitionId: selectedType === 'competition' ? competitionId : undefined,
+    timeframe: selectedTimeframe,
+    limit: 50,
+    cursor,
+    userId,
+    includeAnonymized: showAnonymized
+  }), [selectedType, selectedSkill, competitionId, selectedTimeframe, showAnonymized, userId]);
 
   const fetchLeaderboard = useCallback(async () => {
     const startTime = PerformanceMonitor.startOperation('fetchLeaderboard', userId);
@@ -49,14 +61,7 @@ export function Leaderboard({
       setLoading(true);
       setError(null);
 
-      const query: LeaderboardQuery = {
-        type: selectedType,
-        skillId: selectedType === 'skill_based' ? selectedSkill : undefined,
-        competitionId: selectedType === 'competition' ? competitionId : undefined,
-        timeframe: selectedTimeframe,
-        limit: 50,
-        includeAnonymized: showAnonymized
-      };
+      const query = buildQuery();
 
       // Use Promise.all for parallel fetching when possible
       const promises = [LeaderboardService.getLeaderboard(query)];
@@ -80,12 +85,31 @@ export function Leaderboard({
     } finally {
       setLoading(false);
     }
-  }, [selectedType, selectedSkill, competitionId, selectedTimeframe, showAnonymized, userId]);
+  }, [buildQuery, userId]);
 
   useEffect(() => {
     fetchLeaderboard();
   }, [fetchLeaderboard]);
 
+  const loadMore = async () => {
+    if (!leaderboardData?.nextCursor) return;
+
+    try {
+      setLoadingMore(true);
+      const next = await LeaderboardService.getLeaderboard(buildQuery(leaderboardData.nextCursor));
+      setLeaderboardData(previous => previous && {
+        ...next,
+        entries: [...previous.entries, ...next.entries],
+        userRank: previous.userRank,
+        userEntry: previous.userEntry ?? next.userEntry
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more entries');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   useEffect(() => {
     if (!autoRefresh) return;
 
@@ -294,6 +318,12 @@ export function Leaderboard({
                 <Users className="h-4 w-4" />
                 {leaderboardData.totalParticipants.toLocaleString()} participants
               </span>
+              {leaderboardData.userRank && (
+                <span className="flex items-center gap-1">
+                  <Trophy className="h-4 w-4" />
+                  You are #{leaderboardData.userRank}
+                </span>
+              )}
               <span className="flex items-center gap-1">
                 <Clock className="h-4 w-4" />
                 Updated {leaderboardData.lastUpdated.toLocaleTimeString()}
@@ -307,7 +337,7 @@ export function Leaderboard({
             <div className="space-y-2">
               {leaderboardData.entries.map((entry, index) => (
                 <div
-                  key={entry.userId}
+                  key={`${entry.userId}-${index}`}
                   className={`flex items-center gap-4 p-3 rounded-lg transition-colors ${
                     entry.userId === userId
                       ? 'bg-primary/10 border border-primary/20'
@@ -358,6 +388,13 @@ export function Leaderboard({
                   </div>
                 </div>
               ))}
+              {leaderboardData.nextCursor && (
+                <div className="flex justify-center pt-2">
+                  <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                    {loadingMore ? 'Loading...' : 'Load more'}
+                  </Button>
+                </div>
+              )}
             </div>
           ) : (
             <div className="text-center py-8 text-muted-foreground">
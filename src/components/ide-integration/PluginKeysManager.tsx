@@ -0,0 +1,272 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import type { User } from 'firebase/auth';
+import { Copy, KeyRound, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import type { IdeApiKeyStatus } from '@/types/ide-integration';
+
+interface PluginKeysManagerProps {
+  user: User;
+}
+
+// Dates arrive as ISO strings from the keys API
+interface PluginKeyRow {
+  keyId: string;
+  pluginName: string;
+  pluginVersion: string;
+  keyPreview: string;
+  permissions: string[];
+  status: IdeApiKeyStatus;
+  createdAt: string;
+  lastUsed: string | null;
+  expiresAt: string | null;
+  graceExpiresAt?: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never', days: undefined },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+];
+
+const SCOPE_LABELS: Record<string, string> = {
+  feedback: 'Feedback',
+  credentials: 'Credentials',
+  realTimeAnalysis: 'Realtime',
+  badgeNotifications: 'Badges',
+};
+
+const DEFAULT_SCOPES = ['feedback', 'credentials'];
+
+function relative(date: string | null | undefined, fallback: string): string {
+  return date ? formatDistanceToNow(new Date(date), { addSuffix: true }) : fallback;
+}
+
+export function PluginKeysManager({ user }: PluginKeysManagerProps) {
+  const [keys, setKeys] = useState<PluginKeyRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pluginName, setPluginName] = useState('VS Code');
+  const [expiresInDays, setExpiresInDays] = useState<number | undefined>(90);
+  const [scopes, setScopes] = useState<string[]>(DEFAULT_SCOPES);
+  const [revealedKey, setRevealedKey] = useState<string | null>(null);
+  const [busyKeyId, setBusyKeyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // The keys API identifies the user from their ID token, never from the request
+  const authorized = useCallback(async (url: string, init: RequestInit = {}) => {
+    const idToken = await user.getIdToken();
+    return fetch(url, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${idToken}` },
+    });
+  }, [user]);
+
+  const loadKeys = useCallback(async () => {
+    try {
+      const response = await authorized('/api/ide-integration/keys');
+      if (!response.ok) throw new Error(response.statusText);
+      const data = await response.json();
+      setKeys(data.keys);
+    } catch (error) {
+      console.error('Error loading plugin keys:', error);
+      toast({ title: 'Could not load plugin keys', variant: 'destructive' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authorized, toast]);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const createKey = async () => {
+    setBusyKeyId('new');
+    try {
+      const response = await authorized('/api/ide-integration/auth', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pluginName: pluginName.trim() || 'IDE plugin', pluginVersion: 'manual', permissions: scopes, expiresInDays }),
+      });
+      if (!response.ok) throw new Error(response.statusText);
+      const data = await response.json();
+      setRevealedKey(data.apiKey);
+      await loadKeys();
+    } catch (error) {
+      console.error('Error creating plugin key:', error);
+      toast({ title: 'Could not create a plugin key', variant: 'destructive' });
+    } finally {
+      setBusyKeyId(null);
+    }
+  };
+
+  const rotateKey = async (keyId: string) => {
+    setBusyKeyId(keyId);
+    try {
+      const response = await authorized(`/api/ide-integration/keys/${keyId}/rotate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      if (!response.ok) throw new Error(response.statusText);
+      const data = await response.json();
+      setRevealedKey(data.apiKey);
+      toast({ title: 'Key rotated', description: 'The old key keeps working for one hour.' });
+      await loadKeys();
+    } catch (error) {
+      console.error('Error rotating plugin key:', error);
+      toast({ title: 'Could not rotate the key', variant: 'destructive' });
+    } finally {
+      setBusyKeyId(null);
+    }
+  };
+
+  const revokeKey = async (keyId: string) => {
+    setBusyKeyId(keyId);
+    try {
+      const response = await authorized(`/api/ide-integration/keys/${keyId}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) throw new Error(response.statusText);
+      setKeys(prev => prev.filter(key => key.keyId !== keyId));
+      toast({ title: 'Key revoked' });
+    } catch (error) {
+      console.error('Error revoking plugin key:', error);
+      toast({ title: 'Could not revoke the key', variant: 'destructive' });
+    } finally {
+      setBusyKeyId(null);
+    }
+  };
+
+  const toggleScope = (scope: string) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(selected => selected !== scope) : [...prev, scope]);
+  };
+
+  const copyRevealedKey = async () => {
+    if (!revealedKey) return;
+    await navigator.clipboard.writeText(revealedKey);
+    toast({ title: 'Key copied to clipboard' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          IDE Plugin Keys
+        </CardTitle>
+        <CardDescription>Keys your editor plugins use to get feedback and sync your credentials</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {revealedKey && (
+          <div className="p-3 rounded-lg border border-amber-300 bg-amber-50 text-amber-900 space-y-2">
+            <p className="text-sm font-medium">Copy this key now. It will not be shown again.</p>
+            <div className="flex gap-2">
+              <code className="flex-1 text-xs break-all bg-white/70 rounded px-2 py-1">{revealedKey}</code>
+              <Button size="sm" variant="outline" onClick={copyRevealedKey}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button size="sm" variant="ghost" onClick={() => setRevealedKey(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="flex-1 min-w-[10rem] space-y-1">
+            <Label htmlFor="plugin-name">Plugin</Label>
+            <Input id="plugin-name" value={pluginName} onChange={event => setPluginName(event.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="plugin-expiry">Expires</Label>
+            <select
+              id="plugin-expiry"
+              className="h-10 rounded-md border bg-background px-3 text-sm"
+              value={expiresInDays ?? ''}
+              onChange={event => setExpiresInDays(event.target.value ? Number(event.target.value) : undefined)}
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <Button onClick={createKey} disabled={busyKeyId === 'new' || scopes.length === 0}>
+            Create key
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-sm text-muted-foreground mr-1">Permissions</span>
+          {Object.entries(SCOPE_LABELS).map(([scope, label]) => (
+            <Badge
+              key={scope}
+              variant={scopes.includes(scope) ? 'default' : 'outline'}
+              className="cursor-pointer"
+              onClick={() => toggleScope(scope)}
+            >
+              {label}
+            </Badge>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading keys…</p>
+        ) : keys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active plugin keys.</p>
+        ) : (
+          <ul className="space-y-3">
+            {keys.map(key => (
+              <li key={key.keyId} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <span className="font-medium">{key.pluginName}</span>
+                    <span className="ml-2 text-xs text-muted-foreground font-mono">…{key.keyPreview}</span>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => rotateKey(key.keyId)}
+                      disabled={busyKeyId === key.keyId || key.status !== 'active'}
+                    >
+                      <RefreshCw className="h-4 w-4 mr-1" />
+                      Rotate
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => revokeKey(key.keyId)}
+                      disabled={busyKeyId === key.keyId}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {key.permissions.map(scope => (
+                    <Badge key={scope} variant="secondary">{SCOPE_LABELS[scope] || scope}</Badge>
+                  ))}
+                  {key.status === 'rotating' && <Badge variant="outline">Rotating</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Created {relative(key.createdAt, '')} • Last used {relative(key.lastUsed, 'never')} •{' '}
+                  {key.status === 'rotating'
+                    ? `Stops working ${relative(key.graceExpiresAt, '')}`
+                    : `Expires ${relative(key.expiresAt, 'never')}`}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
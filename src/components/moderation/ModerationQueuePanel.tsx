@@ -0,0 +1,264 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Shield, EyeOff, Eye, AlertTriangle, Ban, X, Bot } from 'lucide-react';
+import {
+  ModerationAction,
+  ModerationAuditEntry,
+  ModerationCase,
+  ModeratedContentType
+} from '@/types/moderation';
+import { ModerationService } from '@/lib/firebase/moderation';
+import { AI_SCREENING_REPORTER, ModerationError, ModerationQueue } from '@/lib/moderation/moderation-queue';
+import { EnhancedToast } from '@/components/EnhancedToast';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { REPORT_REASON_LABELS } from './ReportContentDialog';
+
+const CONTENT_TYPE_LABELS: Record<ModeratedContentType, string> = {
+  peer_review: 'Peer review',
+  review_thread: 'Review comment',
+  session_comment: 'Session chat',
+  community_contribution: 'Contribution'
+};
+
+const AUDIT_ACTION_LABELS: Record<ModerationAuditEntry['action'], string> = {
+  report: 'Reported',
+  auto_hide: 'Hidden automatically',
+  hide: 'Hidden',
+  restore: 'Restored',
+  warn: 'Author warned',
+  suspend: 'Author suspended',
+  dismiss: 'Dismissed'
+};
+
+interface ModerationQueuePanelProps {
+  moderatorId: string;
+}
+
+/**
+ * Moderator tooling: open cases in priority order with their actions, and the audit trail
+ */
+export function ModerationQueuePanel({ moderatorId }: ModerationQueuePanelProps) {
+  const [cases, setCases] = useState<ModerationCase[]>([]);
+  const [auditLog, setAuditLog] = useState<ModerationAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadQueue();
+  }, [moderatorId]);
+
+  const loadQueue = async () => {
+    try {
+      setLoading(true);
+      const [queue, entries] = await Promise.all([
+        ModerationService.getQueue(),
+        ModerationService.getAuditLog()
+      ]);
+      setCases(queue);
+      setAuditLog(entries);
+    } catch (error) {
+      console.error('Error loading moderation queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAction = async (
+    moderationCase: ModerationCase,
+    action: ModerationAction,
+    note: string,
+    suspensionDays?: number
+  ) => {
+    try {
+      await ModerationService.takeAction(moderationCase.caseId, action, moderatorId, note, suspensionDays);
+      await loadQueue();
+
+      EnhancedToast({
+        title: "Case Resolved",
+        description: `${CONTENT_TYPE_LABELS[moderationCase.content.type]} ${AUDIT_ACTION_LABELS[action].toLowerCase()}.`,
+        type: "success"
+      });
+    } catch (error) {
+      console.error('Error taking moderation action:', error);
+      EnhancedToast({
+        title: "Action Failed",
+        description: error instanceof ModerationError ? error.message : "Failed to apply the action. Please try again.",
+        type: "error"
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <Tabs defaultValue="queue" className="space-y-4">
+      <TabsList>
+        <TabsTrigger value="queue">Queue ({cases.length})</TabsTrigger>
+        <TabsTrigger value="audit">Audit Trail</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="queue" className="space-y-4">
+        {cases.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              <Shield className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              Nothing waiting for review
+            </CardContent>
+          </Card>
+        ) : (
+          cases.map(moderationCase => (
+            <CaseCard key={moderationCase.caseId} moderationCase={moderationCase} onAction={handleAction} />
+          ))
+        )}
+      </TabsContent>
+
+      <TabsContent value="audit">
+        <Card>
+          <CardContent className="pt-6">
+            {auditLog.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center">No moderation activity yet</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {auditLog.map(entry => (
+                  <li key={entry.entryId} className="flex items-start justify-between border-b pb-2">
+                    <div>
+                      <span className="font-medium">{AUDIT_ACTION_LABELS[entry.action]}</span>
+                      <span className="text-muted-foreground">
+                        {' '}by {entry.actorId === AI_SCREENING_REPORTER ? 'AI screening' : entry.actorId}
+                        {' '}· author {entry.targetUserId}
+                        {entry.suspensionDays !== undefined && ` · ${entry.suspensionDays} days`}
+                      </span>
+                      {entry.note && <p className="text-muted-foreground">{entry.note}</p>}
+                    </div>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap ml-4">
+                      {entry.createdAt.toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+interface CaseCardProps {
+  moderationCase: ModerationCase;
+  onAction: (moderationCase: ModerationCase, action: ModerationAction, note: string, suspensionDays?: number) => void | Promise<void>;
+}
+
+function CaseCard({ moderationCase, onAction }: CaseCardProps) {
+  const [note, setNote] = useState('');
+  const [suspensionDays, setSuspensionDays] = useState(ModerationQueue.DEFAULT_CONFIG.defaultSuspensionDays);
+  const hidden = moderationCase.contentStatus === 'hidden';
+
+  const reasonCounts = moderationCase.reports.reduce((counts, report) => {
+    counts.set(report.reason, (counts.get(report.reason) ?? 0) + 1);
+    return counts;
+  }, new Map<keyof typeof REPORT_REASON_LABELS, number>());
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center space-x-2">
+            <Badge variant="outline">{CONTENT_TYPE_LABELS[moderationCase.content.type]}</Badge>
+            <span className="text-sm font-normal text-muted-foreground">
+              by {moderationCase.content.authorId} · {moderationCase.createdAt.toLocaleDateString()}
+            </span>
+          </span>
+          <span className="flex items-center space-x-2">
+            {moderationCase.autoHidden && hidden && (
+              <Badge variant="secondary" className="text-xs">Hidden pending review</Badge>
+            )}
+            <Badge variant="outline" className="text-xs">
+              Priority {Math.round(ModerationQueue.priority(moderationCase))}
+            </Badge>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <blockquote className="border-l-2 pl-3 text-sm whitespace-pre-wrap">{moderationCase.excerpt}</blockquote>
+
+        <div className="flex flex-wrap gap-2">
+          {Array.from(reasonCounts.entries()).map(([reason, count]) => (
+            <Badge key={reason} variant="destructive" className="text-xs">
+              {REPORT_REASON_LABELS[reason]} × {count}
+            </Badge>
+          ))}
+        </div>
+
+        {moderationCase.screening && (
+          <p className="flex items-start text-sm text-muted-foreground">
+            <Bot className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            Toxicity {Math.round(moderationCase.screening.toxicity * 100)}%: {moderationCase.screening.explanation}
+          </p>
+        )}
+
+        {moderationCase.reports
+          .filter(report => report.details && report.reporterId !== AI_SCREENING_REPORTER)
+          .map((report, index) => (
+            <p key={index} className="text-sm text-muted-foreground">“{report.details}”</p>
+          ))}
+
+        <Textarea
+          placeholder="Note for the audit trail..."
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className="min-h-[60px]"
+        />
+
+        <div className="flex flex-wrap items-center gap-2">
+          {hidden ? (
+            <Button size="sm" variant="outline" onClick={() => onAction(moderationCase, 'restore', note)}>
+              <Eye className="h-4 w-4 mr-1" />
+              Restore
+            </Button>
+          ) : (
+            <Button size="sm" variant="outline" onClick={() => onAction(moderationCase, 'hide', note)}>
+              <EyeOff className="h-4 w-4 mr-1" />
+              Hide
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={() => onAction(moderationCase, 'warn', note)}>
+            <AlertTriangle className="h-4 w-4 mr-1" />
+            Hide & Warn
+          </Button>
+          <div className="flex items-center space-x-1">
+            <Button size="sm" variant="destructive" onClick={() => onAction(moderationCase, 'suspend', note, suspensionDays)}>
+              <Ban className="h-4 w-4 mr-1" />
+              Suspend Reviewer
+            </Button>
+            <Input
+              type="number"
+              min={1}
+              value={suspensionDays}
+              onChange={(e) => setSuspensionDays(Math.max(1, Number(e.target.value) || 1))}
+              className="w-16 h-8"
+              aria-label="Suspension days"
+            />
+            <span className="text-xs text-muted-foreground">days</span>
+          </div>
+          <Button size="sm" variant="ghost" onClick={() => onAction(moderationCase, 'dismiss', note)}>
+            <X className="h-4 w-4 mr-1" />
+            Dismiss
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ReportReason } from '@/types/moderation';
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam or advertising',
+  harassment: 'Harassment or personal attacks',
+  hate_speech: 'Hate speech',
+  inappropriate: 'Inappropriate content',
+  plagiarism: 'Plagiarised or copied content',
+  other: 'Something else'
+};
+
+interface ReportContentDialogProps {
+  excerpt: string;
+  onSubmit: (reason: ReportReason, details: string) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Asks why a review, comment or message is being reported before it goes to the moderators
+ */
+export function ReportContentDialog({ excerpt, onSubmit, onCancel }: ReportContentDialogProps) {
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+
+  return (
+    <Dialog open onOpenChange={onCancel}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Report Content</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <blockquote className="border-l-2 pl-3 text-sm text-muted-foreground line-clamp-4">
+            {excerpt}
+          </blockquote>
+
+          <div>
+            <Label>Why are you reporting this?</Label>
+            <RadioGroup
+              className="mt-2 space-y-1"
+              value={reason}
+              onValueChange={(value) => setReason(value as ReportReason)}
+            >
+              {(Object.keys(REPORT_REASON_LABELS) as ReportReason[]).map(option => (
+                <div key={option} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option} id={`report-${option}`} />
+                  <Label htmlFor={`report-${option}`} className="font-normal">
+                    {REPORT_REASON_LABELS[option]}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div>
+            <Label>Details for the moderators</Label>
+            <Textarea
+              placeholder="Optional context..."
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => reason && onSubmit(reason, details)}
+              disabled={!reason}
+            >
+              Submit Report
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
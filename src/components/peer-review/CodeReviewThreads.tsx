@@ -0,0 +1,289 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  MessageSquare,
+  CheckCircle,
+  RotateCcw,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Flag
+} from 'lucide-react';
+import { ReviewThread, ThreadAnchor } from '@/types/peer-review';
+import { ReviewThreads } from '@/lib/peer-review/review-threads';
+import { ModerationQueue } from '@/lib/moderation/moderation-queue';
+
+interface CodeReviewThreadsProps {
+  code: string;
+  language: string;
+  threads: ReviewThread[];
+  currentUserId?: string;
+  // Only the reviewee accepts suggestions
+  canAcceptSuggestions?: boolean;
+  onCreateThread?: (anchor: ThreadAnchor, body: string, replacement?: string) => void | Promise<void>;
+  onReply?: (thread: ReviewThread, body: string) => void | Promise<void>;
+  onToggleResolved?: (thread: ReviewThread) => void | Promise<void>;
+  onAcceptSuggestion?: (thread: ReviewThread) => void | Promise<void>;
+  onReport?: (thread: ReviewThread) => void;
+}
+
+export function CodeReviewThreads({
+  code,
+  language,
+  threads,
+  currentUserId,
+  canAcceptSuggestions = false,
+  onCreateThread,
+  onReply,
+  onToggleResolved,
+  onAcceptSuggestion,
+  onReport
+}: CodeReviewThreadsProps) {
+  const lines = code.split('\n');
+  const threadsByLine = ReviewThreads.byEndLine(threads.filter(ModerationQueue.isVisible));
+  const [selection, setSelection] = useState<ThreadAnchor | null>(null);
+
+  // Click a line number to start a selection, shift-click another to extend it
+  const selectLine = (line: number, extend: boolean) => {
+    if (!onCreateThread) return;
+    if (extend && selection) {
+      setSelection({
+        startLine: Math.min(selection.startLine, line),
+        endLine: Math.max(selection.startLine, line)
+      });
+    } else {
+      setSelection({ startLine: line, endLine: line });
+    }
+  };
+
+  const isSelected = (line: number) =>
+    selection !== null && line >= selection.startLine && line <= selection.endLine;
+
+  return (
+    <div className="border rounded overflow-hidden text-sm" data-language={language}>
+      {lines.map((text, index) => {
+        const line = index + 1;
+        return (
+          <React.Fragment key={line}>
+            <div className={`flex font-mono text-xs ${isSelected(line) ? 'bg-blue-50' : ''}`}>
+              <button
+                type="button"
+                className="w-12 flex-shrink-0 text-right pr-2 text-muted-foreground select-none hover:text-foreground"
+                onClick={(e) => selectLine(line, e.shiftKey)}
+                aria-label={`Line ${line}`}
+              >
+                {line}
+              </button>
+              <pre className="flex-1 px-2 whitespace-pre-wrap">{text || ' '}</pre>
+            </div>
+
+            {(threadsByLine.get(line) ?? []).map(thread => (
+              <ThreadCard
+                key={thread.threadId}
+                thread={thread}
+                originalLines={lines.slice(thread.anchor.startLine - 1, thread.anchor.endLine)}
+                currentUserId={currentUserId}
+                canAcceptSuggestions={canAcceptSuggestions}
+                onReply={onReply}
+                onToggleResolved={onToggleResolved}
+                onAcceptSuggestion={onAcceptSuggestion}
+                onReport={onReport}
+              />
+            ))}
+
+            {onCreateThread && selection?.endLine === line && (
+              <NewThreadForm
+                anchor={selection}
+                originalCode={lines.slice(selection.startLine - 1, selection.endLine).join('\n')}
+                onSubmit={async (body, replacement) => {
+                  await onCreateThread(selection, body, replacement);
+                  setSelection(null);
+                }}
+                onCancel={() => setSelection(null)}
+              />
+            )}
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+}
+
+const lineLabel = (anchor: ThreadAnchor) =>
+  anchor.startLine === anchor.endLine ? `Line ${anchor.startLine}` : `Lines ${anchor.startLine}-${anchor.endLine}`;
+
+interface ThreadCardProps {
+  thread: ReviewThread;
+  originalLines: string[];
+  currentUserId?: string;
+  canAcceptSuggestions: boolean;
+  onReply?: (thread: ReviewThread, body: string) => void | Promise<void>;
+  onToggleResolved?: (thread: ReviewThread) => void | Promise<void>;
+  onAcceptSuggestion?: (thread: ReviewThread) => void | Promise<void>;
+  onReport?: (thread: ReviewThread) => void;
+}
+
+function ThreadCard({
+  thread,
+  originalLines,
+  currentUserId,
+  canAcceptSuggestions,
+  onReply,
+  onToggleResolved,
+  onAcceptSuggestion,
+  onReport
+}: ThreadCardProps) {
+  const resolved = thread.status === 'resolved';
+  const [expanded, setExpanded] = useState(!resolved);
+  const [reply, setReply] = useState('');
+
+  const submitReply = async () => {
+    if (!onReply || !reply.trim()) return;
+    await onReply(thread, reply);
+    setReply('');
+  };
+
+  return (
+    <div className="border-y bg-muted/40 px-4 py-3 space-y-3 font-sans" data-testid="review-thread">
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          className="flex items-center text-xs font-medium"
+          onClick={() => setExpanded(!expanded)}
+        >
+          {expanded ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronRight className="h-3 w-3 mr-1" />}
+          <MessageSquare className="h-3 w-3 mr-1" />
+          {lineLabel(thread.anchor)} · {thread.comments.length} {thread.comments.length === 1 ? 'comment' : 'comments'}
+        </button>
+        <div className="flex items-center space-x-2">
+          {thread.suggestion?.status === 'accepted' && (
+            <Badge variant="default" className="text-xs">Suggestion accepted</Badge>
+          )}
+          <Badge variant={resolved ? 'secondary' : 'outline'} className="text-xs">
+            {resolved ? 'Resolved' : 'Open'}
+          </Badge>
+          {onReport && thread.comments[0]?.authorId !== currentUserId && (
+            <Button variant="ghost" size="sm" onClick={() => onReport(thread)} aria-label="Report thread">
+              <Flag className="h-3 w-3" />
+            </Button>
+          )}
+          {onToggleResolved && (
+            <Button variant="ghost" size="sm" onClick={() => onToggleResolved(thread)}>
+              {resolved ? (
+                <>
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Unresolve
+                </>
+              ) : (
+                <>
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  Resolve
+                </>
+              )}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {expanded && (
+        <>
+          <div className="space-y-2">
+            {thread.comments.map(comment => (
+              <div key={comment.commentId} className="bg-background rounded p-2">
+                <p className="text-xs text-muted-foreground mb-1">
+                  {comment.authorId === currentUserId ? 'You' : comment.authorId} · {comment.createdAt.toLocaleString()}
+                </p>
+                <p className="whitespace-pre-wrap">{comment.body}</p>
+              </div>
+            ))}
+          </div>
+
+          {thread.suggestion && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium">Suggested change</p>
+              <pre className="text-xs bg-red-50 text-red-800 p-2 rounded overflow-x-auto">
+                {originalLines.map(line => `- ${line}`).join('\n')}
+              </pre>
+              <pre className="text-xs bg-green-50 text-green-800 p-2 rounded overflow-x-auto">
+                {thread.suggestion.replacement.split('\n').map(line => `+ ${line}`).join('\n')}
+              </pre>
+              {canAcceptSuggestions && onAcceptSuggestion && thread.suggestion.status === 'pending' && (
+                <Button size="sm" onClick={() => onAcceptSuggestion(thread)}>
+                  <Check className="h-3 w-3 mr-1" />
+                  Accept Suggestion
+                </Button>
+              )}
+            </div>
+          )}
+
+          {onReply && (
+            <div className="flex items-end space-x-2">
+              <Textarea
+                placeholder="Reply or ask for clarification..."
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                className="min-h-[60px]"
+              />
+              <Button size="sm" onClick={submitReply} disabled={!reply.trim()}>
+                Reply
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+interface NewThreadFormProps {
+  anchor: ThreadAnchor;
+  originalCode: string;
+  onSubmit: (body: string, replacement?: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+function NewThreadForm({ anchor, originalCode, onSubmit, onCancel }: NewThreadFormProps) {
+  const [body, setBody] = useState('');
+  const [suggestChange, setSuggestChange] = useState(false);
+  const [replacement, setReplacement] = useState(originalCode);
+
+  return (
+    <div className="border-y bg-blue-50/50 px-4 py-3 space-y-3 font-sans">
+      <p className="text-xs font-medium">Comment on {lineLabel(anchor).toLowerCase()}</p>
+      <Textarea
+        placeholder="Leave a comment..."
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+      />
+      <div className="flex items-center space-x-2">
+        <Switch checked={suggestChange} onCheckedChange={setSuggestChange} />
+        <Label>Suggest a change</Label>
+      </div>
+      {suggestChange && (
+        <Textarea
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          className="font-mono text-xs"
+        />
+      )}
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => onSubmit(body, suggestChange ? replacement : undefined)}
+          disabled={!body.trim()}
+        >
+          Add Comment
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ import {
   ReviewerProfile
 } from '@/types/peer-review';
 import { PeerReviewService } from '@/lib/firebase/peer-review';
+import { ModerationQueue } from '@/lib/moderation/moderation-queue';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 
 interface CommunityContributionsProps {
@@ -48,7 +49,7 @@ export function CommunityContributions({ userId }: CommunityContributionsProps)
         PeerReviewService.getReviewerProfile(userId)
       ]);
 
-      setContributions(userContributions);
+      setContributions(userContributions.filter(ModerationQueue.isVisible));
       setAnalytics(reviewAnalytics);
       setProfile(reviewerProfile);
     } catch (error) {
@@ -15,22 +15,48 @@ import {
   CheckCircle,
   AlertCircle,
   Eye,
-  EyeOff
+  EyeOff,
+  Code,
+  GitCompare,
+  Flag
 } from 'lucide-react';
-import { PeerReview as PeerReviewType, PeerReviewRequest, ReviewerProfile } from '@/types/peer-review';
+import {
+  PeerReview as PeerReviewType,
+  PeerReviewRequest,
+  ReviewerProfile,
+  ReviewedCode,
+  ReviewThread,
+  ThreadAnchor
+} from '@/types/peer-review';
+import { ContentReference, ReportReason } from '@/types/moderation';
 import { PeerReviewService } from '@/lib/firebase/peer-review';
+import { ModerationService } from '@/lib/firebase/moderation';
+import { ModerationError, ModerationQueue } from '@/lib/moderation/moderation-queue';
+import {
+  completeReviewRoundAction,
+  createReviewThreadAction,
+  replyToReviewThreadAction,
+  submitPeerReviewAction
+} from '@/app/actions';
+import { AnalyticsDataService } from '@/lib/firebase/analytics';
+import { ReviewThreads, ReviewThreadError } from '@/lib/peer-review/review-threads';
 import { useAuth } from '@/hooks/useAuth';
 import { PeerReviewForm } from './PeerReviewForm';
+import { CodeReviewThreads } from './CodeReviewThreads';
+import { ReviewRoundsPanel, RevisionDialog, RoundReviewDialog } from './ReviewRoundsPanel';
+import { ReviewRounds, RoundReviewInput, ReviewRoundError } from '@/lib/peer-review/review-rounds';
 import { ReviewRequestForm } from './ReviewRequestForm';
 import { ReviewerProfileCard } from './ReviewerProfileCard';
 import { CommunityContributions } from './CommunityContributions';
+import { ReportContentDialog } from '@/components/moderation/ReportContentDialog';
+import { ModerationQueuePanel } from '@/components/moderation/ModerationQueuePanel';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { EnhancedToast } from '@/components/EnhancedToast';
 
 interface PeerReviewProps {
   codeSubmissionId?: string;
   sessionId?: string;
-  initialTab?: 'reviews' | 'requests' | 'community' | 'profile';
+  initialTab?: 'reviews' | 'requests' | 'community' | 'profile' | 'moderation';
 }
 
 export function PeerReview({ 
@@ -48,6 +74,13 @@ export function PeerReview({
   const [showReviewForm, setShowReviewForm] = useState(false);
   const [showRequestForm, setShowRequestForm] = useState(false);
   const [selectedRequest, setSelectedRequest] = useState<PeerReviewRequest | null>(null);
+  const [reviewedCode, setReviewedCode] = useState<ReviewedCode | null>(null);
+  const [expandedReviewId, setExpandedReviewId] = useState<string | null>(null);
+  const [threadsByReview, setThreadsByReview] = useState<Record<string, ReviewThread[]>>({});
+  const [revisionReview, setRevisionReview] = useState<PeerReviewType | null>(null);
+  const [roundReview, setRoundReview] = useState<PeerReviewType | null>(null);
+  const [reportTarget, setReportTarget] = useState<{ content: ContentReference; excerpt: string } | null>(null);
+  const [isModerator, setIsModerator] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -63,16 +96,19 @@ export function PeerReview({
       setError(null);
 
       // Load user's reviews (both given and received)
-      const [receivedReviews, givenReviews, openRequests, profile] = await Promise.all([
+      const [receivedReviews, givenReviews, openRequests, profile, moderator] = await Promise.all([
         PeerReviewService.getReviewsForUser(user.uid, 'reviewee'),
         PeerReviewService.getReviewsForUser(user.uid, 'reviewer'),
         PeerReviewService.getOpenReviewRequests(),
-        PeerReviewService.getReviewerProfile(user.uid)
+        PeerReviewService.getReviewerProfile(user.uid),
+        ModerationService.isModerator(user.uid)
       ]);
 
-      setReviews([...receivedReviews, ...givenReviews]);
+      // Reviewers still see their own hidden reviews, marked as such
+      setReviews([...receivedReviews.filter(ModerationQueue.isVisible), ...givenReviews]);
       setReviewRequests(openRequests);
       setReviewerProfile(profile);
+      setIsModerator(moderator);
     } catch (err) {
       console.error('Error loading peer review data:', err);
       setError('Failed to load peer review data. Please try again.');
@@ -81,11 +117,13 @@ export function PeerReview({
     }
   };
 
-  const handleReviewSubmitted = async (review: PeerReviewType) => {
+  const handleReviewSubmitted = async (review: PeerReviewType, threads: ReviewThread[]) => {
     try {
-      await PeerReviewService.createPeerReview(review);
+      if (!user) return;
+      await submitPeerReviewAction(await user.getIdToken(), review, threads);
       setShowReviewForm(false);
       setSelectedRequest(null);
+      setReviewedCode(null);
       await loadPeerReviewData();
       
       EnhancedToast({
@@ -124,9 +162,192 @@ export function PeerReview({
     }
   };
 
-  const handleAcceptReviewRequest = (request: PeerReviewRequest) => {
+  const openReviewForm = async (request: PeerReviewRequest | null) => {
     setSelectedRequest(request);
+    setReviewedCode(null);
     setShowReviewForm(true);
+
+    // The form works without the code, just without inline comments
+    const submissionId = request?.codeSubmissionId || codeSubmissionId;
+    if (!submissionId) return;
+    try {
+      const submission = await AnalyticsDataService.getCodeSubmission(submissionId);
+      if (submission) {
+        setReviewedCode({ code: submission.code, language: submission.language });
+      }
+    } catch (err) {
+      console.error('Error loading submitted code:', err);
+    }
+  };
+
+  const handleAcceptReviewRequest = (request: PeerReviewRequest) => {
+    openReviewForm(request);
+  };
+
+  const toggleThreads = async (review: PeerReviewType) => {
+    if (expandedReviewId === review.reviewId) {
+      setExpandedReviewId(null);
+      return;
+    }
+
+    setExpandedReviewId(review.reviewId);
+    try {
+      const threads = await PeerReviewService.getReviewThreads(review.reviewId);
+      setThreadsByReview(current => ({ ...current, [review.reviewId]: threads }));
+    } catch (err) {
+      console.error('Error loading review threads:', err);
+    }
+  };
+
+  const updateThread = (reviewId: string, thread: ReviewThread) => {
+    setThreadsByReview(current => ({
+      ...current,
+      [reviewId]: (current[reviewId] ?? []).some(existing => existing.threadId === thread.threadId)
+        ? current[reviewId].map(existing => existing.threadId === thread.threadId ? thread : existing)
+        : [...(current[reviewId] ?? []), thread]
+    }));
+  };
+
+  const handleThreadAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error('Error updating review thread:', err);
+      EnhancedToast({
+        title: "Update Failed",
+        description: err instanceof ReviewThreadError ? err.message : "Failed to update the thread. Please try again.",
+        type: "error"
+      });
+    }
+  };
+
+  const handleCreateThread = (review: PeerReviewType, anchor: ThreadAnchor, body: string, replacement?: string) =>
+    handleThreadAction(async () => {
+      if (!user || !review.reviewedCode) return;
+      const thread = ReviewThreads.create(review.reviewId, user.uid, review.reviewedCode.code, anchor, body, replacement);
+      await createReviewThreadAction(await user.getIdToken(), thread);
+      updateThread(review.reviewId, thread);
+    });
+
+  const handleReply = (review: PeerReviewType, thread: ReviewThread, body: string) =>
+    handleThreadAction(async () => {
+      if (!user) return;
+      const comment = ReviewThreads.comment(user.uid, body);
+      await replyToReviewThreadAction(await user.getIdToken(), review.reviewId, thread.threadId, comment);
+      updateThread(review.reviewId, ReviewThreads.reply(thread, comment));
+    });
+
+  const handleToggleResolved = (review: PeerReviewType, thread: ReviewThread) =>
+    handleThreadAction(async () => {
+      if (!user) return;
+      const resolved = thread.status === 'open';
+      await PeerReviewService.setThreadResolved(thread.threadId, user.uid, resolved);
+      updateThread(review.reviewId, ReviewThreads.setResolved(thread, user.uid, resolved));
+    });
+
+  const handleAcceptSuggestion = (review: PeerReviewType, thread: ReviewThread) =>
+    handleThreadAction(async () => {
+      if (!user) return;
+      const patchedCode = await PeerReviewService.acceptThreadSuggestion(review.reviewId, thread.threadId, user.uid);
+      const threads = await PeerReviewService.getReviewThreads(review.reviewId);
+      setThreadsByReview(current => ({ ...current, [review.reviewId]: threads }));
+      setReviews(current => current.map(existing =>
+        existing.reviewId === review.reviewId ? { ...existing, patchedCode } : existing
+      ));
+    });
+
+  const handleReportSubmitted = async (reason: ReportReason, details: string) => {
+    if (!user || !reportTarget) return;
+
+    try {
+      await ModerationService.reportContent(reportTarget.content, reportTarget.excerpt, user.uid, reason, details);
+      setReportTarget(null);
+
+      EnhancedToast({
+        title: "Report Submitted",
+        description: "Thanks for letting us know. A moderator will take a look.",
+        type: "success"
+      });
+    } catch (err) {
+      console.error('Error reporting content:', err);
+      EnhancedToast({
+        title: "Report Failed",
+        description: err instanceof ModerationError ? err.message : "Failed to submit your report. Please try again.",
+        type: "error"
+      });
+    }
+  };
+
+  const replaceReview = (updated: PeerReviewType) => {
+    setReviews(current => current.map(existing => existing.reviewId === updated.reviewId ? updated : existing));
+  };
+
+  const handleRevisionSubmitted = async (review: PeerReviewType, revision: ReviewedCode, note: string) => {
+    if (!user) return;
+
+    try {
+      replaceReview(await PeerReviewService.submitRevision(review.reviewId, user.uid, revision, note));
+      setRevisionReview(null);
+
+      EnhancedToast({
+        title: "Revision Submitted",
+        description: "Your reviewer will check it against their earlier suggestions.",
+        type: "success"
+      });
+    } catch (err) {
+      console.error('Error submitting revision:', err);
+      EnhancedToast({
+        title: "Submission Failed",
+        description: err instanceof ReviewRoundError ? err.message : "Failed to submit your revision. Please try again.",
+        type: "error"
+      });
+    }
+  };
+
+  const handleRoundReviewed = async (review: PeerReviewType, input: RoundReviewInput) => {
+    if (!user) return;
+
+    try {
+      // Checked here too, since the server action does not pass the error's message back
+      ReviewRounds.completeRound(review, input);
+      replaceReview(await completeReviewRoundAction(await user.getIdToken(), review.reviewId, input));
+      setRoundReview(null);
+
+      EnhancedToast({
+        title: "Round Completed",
+        description: "Your follow-up review has been submitted.",
+        type: "success"
+      });
+    } catch (err) {
+      console.error('Error completing review round:', err);
+      EnhancedToast({
+        title: "Submission Failed",
+        description: err instanceof ReviewRoundError ? err.message : "Failed to submit your follow-up. Please try again.",
+        type: "error"
+      });
+    }
+  };
+
+  const handleRateHelpfulness = async (review: PeerReviewType, rating: number) => {
+    if (!user) return;
+
+    try {
+      await PeerReviewService.rateReviewHelpfulness(review.reviewId, user.uid, rating);
+      replaceReview({ ...review, helpfulness: { rating, ratedAt: new Date() } });
+
+      EnhancedToast({
+        title: "Thanks for the Feedback",
+        description: "Your rating helps match future reviews to the most helpful reviewers.",
+        type: "success"
+      });
+    } catch (err) {
+      console.error('Error rating review helpfulness:', err);
+      EnhancedToast({
+        title: "Rating Failed",
+        description: "Failed to save your rating. Please try again.",
+        type: "error"
+      });
+    }
   };
 
   const renderReviewCard = (review: PeerReviewType) => {
@@ -165,14 +386,24 @@ export function PeerReview({
                 ))}
               </div>
               <Badge variant={review.status === 'completed' ? 'default' : 'secondary'}>
-                {review.status}
+                {review.status === 'revision_submitted' ? 'revision submitted' : review.status}
               </Badge>
+              {(review.rounds?.length ?? 0) > 0 && (
+                <Badge variant="outline" className="text-xs">
+                  Round {review.rounds!.length + 1}
+                </Badge>
+              )}
               {review.isAnonymous && (
                 <Badge variant="outline" className="text-xs">
                   <EyeOff className="h-3 w-3 mr-1" />
                   Anonymous
                 </Badge>
               )}
+              {!ModerationQueue.isVisible(review) && (
+                <Badge variant="destructive" className="text-xs">
+                  Hidden by moderators
+                </Badge>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -233,6 +464,102 @@ export function PeerReview({
                 </div>
               </div>
             )}
+
+            <ReviewRoundsPanel review={review} />
+
+            {!isReviewer && review.status === 'completed' && (
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-muted-foreground">
+                  {review.helpfulness ? 'You rated this review' : 'Was this review helpful?'}
+                </span>
+                <div className="flex items-center">
+                  {[1, 2, 3, 4, 5].map(rating => (
+                    <button
+                      key={rating}
+                      type="button"
+                      disabled={!!review.helpfulness}
+                      onClick={() => handleRateHelpfulness(review, rating)}
+                      aria-label={`Rate ${rating} of 5`}
+                    >
+                      <Star
+                        className={`h-4 w-4 ${
+                          rating <= (review.helpfulness?.rating ?? 0)
+                            ? 'text-yellow-400 fill-current'
+                            : 'text-gray-300 hover:text-yellow-400'
+                        }`}
+                      />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {!isReviewer && review.status === 'completed' && (
+                <Button variant="outline" size="sm" onClick={() => setRevisionReview(review)}>
+                  <GitCompare className="h-4 w-4 mr-2" />
+                  Submit Revision
+                </Button>
+              )}
+              {isReviewer && review.status === 'revision_submitted' && (
+                <Button size="sm" onClick={() => setRoundReview(review)}>
+                  <GitCompare className="h-4 w-4 mr-2" />
+                  Re-review Round {review.rounds!.length + 1}
+                </Button>
+              )}
+              {!isReviewer && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setReportTarget({
+                    content: { type: 'peer_review', contentId: review.reviewId, authorId: review.reviewerId },
+                    excerpt: ModerationQueue.reviewText(review)
+                  })}
+                >
+                  <Flag className="h-4 w-4 mr-2" />
+                  Report
+                </Button>
+              )}
+            </div>
+
+            {review.reviewedCode && (
+              <div>
+                <Button variant="outline" size="sm" onClick={() => toggleThreads(review)}>
+                  <Code className="h-4 w-4 mr-2" />
+                  {expandedReviewId === review.reviewId ? 'Hide Code' : 'Show Code & Comments'}
+                </Button>
+                {expandedReviewId === review.reviewId && (
+                  <div className="mt-3 space-y-3">
+                    <CodeReviewThreads
+                      code={review.reviewedCode.code}
+                      language={review.reviewedCode.language}
+                      threads={threadsByReview[review.reviewId] ?? []}
+                      currentUserId={user?.uid}
+                      canAcceptSuggestions={review.revieweeId === user?.uid}
+                      onReport={(thread) => setReportTarget({
+                        content: {
+                          type: 'review_thread',
+                          contentId: thread.threadId,
+                          authorId: thread.comments[0].authorId,
+                          parentId: review.reviewId
+                        },
+                        excerpt: thread.comments.map(comment => comment.body).join('\n')
+                      })}
+                      onCreateThread={(anchor, body, replacement) => handleCreateThread(review, anchor, body, replacement)}
+                      onReply={(thread, body) => handleReply(review, thread, body)}
+                      onToggleResolved={(thread) => handleToggleResolved(review, thread)}
+                      onAcceptSuggestion={(thread) => handleAcceptSuggestion(review, thread)}
+                    />
+                    {review.patchedCode && (
+                      <div>
+                        <h4 className="text-sm font-medium mb-1">Code with Accepted Suggestions</h4>
+                        <pre className="text-xs bg-muted p-2 rounded overflow-x-auto">{review.patchedCode}</pre>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -333,7 +660,7 @@ export function PeerReview({
             Request Review
           </Button>
           {codeSubmissionId && (
-            <Button onClick={() => setShowReviewForm(true)}>
+            <Button onClick={() => openReviewForm(null)}>
               <Star className="h-4 w-4 mr-2" />
               Give Review
             </Button>
@@ -342,11 +669,12 @@ export function PeerReview({
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className={`grid w-full ${isModerator ? 'grid-cols-5' : 'grid-cols-4'}`}>
           <TabsTrigger value="reviews">My Reviews</TabsTrigger>
           <TabsTrigger value="requests">Open Requests</TabsTrigger>
           <TabsTrigger value="community">Community</TabsTrigger>
           <TabsTrigger value="profile">Profile</TabsTrigger>
+          {isModerator && <TabsTrigger value="moderation">Moderation</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="reviews" className="space-y-4">
@@ -405,6 +733,12 @@ export function PeerReview({
             onProfileUpdated={loadPeerReviewData}
           />
         </TabsContent>
+
+        {isModerator && user && (
+          <TabsContent value="moderation">
+            <ModerationQueuePanel moderatorId={user.uid} />
+          </TabsContent>
+        )}
       </Tabs>
 
       {/* Review Form Modal */}
@@ -413,14 +747,41 @@ export function PeerReview({
           codeSubmissionId={codeSubmissionId}
           sessionId={sessionId}
           reviewRequest={selectedRequest}
+          reviewedCode={reviewedCode}
           onSubmit={handleReviewSubmitted}
           onCancel={() => {
             setShowReviewForm(false);
             setSelectedRequest(null);
+            setReviewedCode(null);
           }}
         />
       )}
 
+      {/* Review Round Modals */}
+      {revisionReview && (
+        <RevisionDialog
+          review={revisionReview}
+          onSubmit={(revision, note) => handleRevisionSubmitted(revisionReview, revision, note)}
+          onCancel={() => setRevisionReview(null)}
+        />
+      )}
+      {roundReview && (
+        <RoundReviewDialog
+          review={roundReview}
+          onSubmit={(input) => handleRoundReviewed(roundReview, input)}
+          onCancel={() => setRoundReview(null)}
+        />
+      )}
+
+      {/* Report Modal */}
+      {reportTarget && (
+        <ReportContentDialog
+          excerpt={reportTarget.excerpt}
+          onSubmit={handleReportSubmitted}
+          onCancel={() => setReportTarget(null)}
+        />
+      )}
+
       {/* Request Form Modal */}
       {showRequestForm && (
         <ReviewRequestForm
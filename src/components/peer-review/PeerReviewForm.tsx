@@ -18,7 +18,8 @@ import {
   Lightbulb, 
   Shield, 
   Zap,
-  CheckCircle
+  CheckCircle,
+  MessageSquare
 } from 'lucide-react';
 import { 
   PeerReview, 
@@ -26,15 +27,21 @@ import {
   CodeSuggestion, 
   PeerFeedback,
   CodeQualityFeedback,
-  BestPracticesFeedback
+  BestPracticesFeedback,
+  ReviewedCode,
+  ReviewThread,
+  ThreadAnchor
 } from '@/types/peer-review';
 import { useAuth } from '@/hooks/useAuth';
+import { ReviewThreads } from '@/lib/peer-review/review-threads';
+import { CodeReviewThreads } from './CodeReviewThreads';
 
 interface PeerReviewFormProps {
   codeSubmissionId?: string;
   sessionId?: string;
   reviewRequest?: PeerReviewRequest | null;
-  onSubmit: (review: PeerReview) => void;
+  reviewedCode?: ReviewedCode | null;
+  onSubmit: (review: PeerReview, threads: ReviewThread[]) => void;
   onCancel: () => void;
 }
 
@@ -42,6 +49,7 @@ export function PeerReviewForm({
   codeSubmissionId,
   sessionId,
   reviewRequest,
+  reviewedCode,
   onSubmit,
   onCancel
 }: PeerReviewFormProps) {
@@ -79,6 +87,20 @@ export function PeerReviewForm({
     priority: 'medium' as CodeSuggestion['priority']
   });
 
+  // Inline threads, attached to the review once it is submitted
+  const [threads, setThreads] = useState<ReviewThread[]>([]);
+
+  const addThread = (anchor: ThreadAnchor, body: string, replacement?: string) => {
+    if (!user || !reviewedCode) return;
+    setThreads([...threads, ReviewThreads.create('', user.uid, reviewedCode.code, anchor, body, replacement)]);
+  };
+
+  const replyToThread = (thread: ReviewThread, body: string) => {
+    if (!user) return;
+    const reply = ReviewThreads.reply(thread, ReviewThreads.comment(user.uid, body));
+    setThreads(threads.map(existing => existing.threadId === thread.threadId ? reply : existing));
+  };
+
   const addStrength = () => setStrengths([...strengths, '']);
   const removeStrength = (index: number) => setStrengths(strengths.filter((_, i) => i !== index));
   const updateStrength = (index: number, value: string) => {
@@ -158,8 +180,9 @@ export function PeerReviewForm({
       encouragement
     };
 
+    const reviewId = `review_${Date.now()}_${user.uid}`;
     const review: PeerReview = {
-      reviewId: `review_${Date.now()}_${user.uid}`,
+      reviewId,
       reviewerId: user.uid,
       revieweeId: reviewRequest?.requesterId || 'unknown',
       codeSubmissionId: codeSubmissionId || reviewRequest?.codeSubmissionId || '',
@@ -173,16 +196,18 @@ export function PeerReviewForm({
       updatedAt: new Date(),
       completedAt: new Date(),
       isAnonymous,
-      visibility
+      visibility,
+      ...(reviewedCode && { reviewedCode })
     };
 
-    onSubmit(review);
+    onSubmit(review, threads.map(thread => ({ ...thread, reviewId })));
   };
 
   const isFormValid = () => {
     return strengths.some(s => s.trim()) || 
            improvementAreas.some(a => a.trim()) || 
-           generalComments.trim();
+           generalComments.trim() ||
+           threads.length > 0;
   };
 
   return (
@@ -223,6 +248,31 @@ export function PeerReviewForm({
             </CardContent>
           </Card>
 
+          {/* Inline Comments */}
+          {reviewedCode && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center text-lg">
+                  <MessageSquare className="h-5 w-5 mr-2" />
+                  Inline Comments
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Click a line number to comment on it, or shift-click a second line to comment on a range.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <CodeReviewThreads
+                  code={reviewedCode.code}
+                  language={reviewedCode.language}
+                  threads={threads}
+                  currentUserId={user?.uid}
+                  onCreateThread={addThread}
+                  onReply={replyToThread}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Strengths */}
           <Card>
             <CardHeader>
@@ -0,0 +1,277 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { CheckCircle, XCircle, GitCompare, ChevronDown, ChevronRight } from 'lucide-react';
+import { PeerReview, ReviewedCode, SuggestionCheck } from '@/types/peer-review';
+import { ReviewRounds, RoundReviewInput } from '@/lib/peer-review/review-rounds';
+import { SessionReplayEngine, SideBySideDiffRow } from '@/lib/collaborative-session/session-replay';
+
+const getDiffCellColor = (type: SideBySideDiffRow['type'], side: 'left' | 'right') => {
+  if (type === 'modified') return side === 'left' ? 'bg-red-500/10' : 'bg-green-500/10';
+  if (type === 'removed') return side === 'left' ? 'bg-red-500/20' : 'bg-muted/50';
+  if (type === 'added') return side === 'right' ? 'bg-green-500/20' : 'bg-muted/50';
+  return '';
+};
+
+function RevisionDiff({ rows }: { rows: SideBySideDiffRow[] }) {
+  return (
+    <div className="max-h-96 overflow-auto rounded border font-mono text-xs">
+      <table className="w-full border-collapse">
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index}>
+              <td className="w-8 px-2 text-right text-muted-foreground select-none">
+                {row.left?.lineNumber}
+              </td>
+              <td className={`w-1/2 px-2 whitespace-pre-wrap ${getDiffCellColor(row.type, 'left')}`}>
+                {row.left?.text}
+              </td>
+              <td className="w-8 px-2 text-right text-muted-foreground select-none border-l">
+                {row.right?.lineNumber}
+              </td>
+              <td className={`w-1/2 px-2 whitespace-pre-wrap ${getDiffCellColor(row.type, 'right')}`}>
+                {row.right?.text}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+const suggestionText = (review: PeerReview, suggestionId: string) =>
+  review.suggestions.find(suggestion => suggestion.suggestionId === suggestionId)?.explanation ?? suggestionId;
+
+/**
+ * Round history of a review: each revision with its diff and the reviewer's checklist
+ */
+export function ReviewRoundsPanel({ review }: { review: PeerReview }) {
+  const [expandedRound, setExpandedRound] = useState<number | null>(null);
+  const rounds = review.rounds ?? [];
+  if (rounds.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">Revisions</h4>
+      {rounds.map(round => (
+        <div key={round.roundNumber} className="border rounded p-2 space-y-2">
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              className="flex items-center text-sm font-medium"
+              onClick={() => setExpandedRound(expandedRound === round.roundNumber ? null : round.roundNumber)}
+            >
+              {expandedRound === round.roundNumber
+                ? <ChevronDown className="h-3 w-3 mr-1" />
+                : <ChevronRight className="h-3 w-3 mr-1" />}
+              Round {round.roundNumber}
+              <span className="ml-2 text-xs text-muted-foreground">{round.submittedAt.toLocaleDateString()}</span>
+            </button>
+            <Badge variant={round.status === 'reviewed' ? 'default' : 'secondary'} className="text-xs">
+              {round.status === 'reviewed' ? 'Reviewed' : 'Awaiting review'}
+            </Badge>
+          </div>
+          {round.revisionNote && <p className="text-sm text-muted-foreground">{round.revisionNote}</p>}
+
+          {expandedRound === round.roundNumber && (
+            <RevisionDiff rows={ReviewRounds.diffRound(review, round.roundNumber)} />
+          )}
+
+          {round.status === 'reviewed' && (
+            <ul className="text-sm space-y-1">
+              {round.suggestionChecks.map(check => (
+                <li key={check.suggestionId} className="flex items-start">
+                  {check.status === 'addressed'
+                    ? <CheckCircle className="h-3 w-3 text-green-500 mt-1 mr-2 flex-shrink-0" />
+                    : <XCircle className="h-3 w-3 text-orange-500 mt-1 mr-2 flex-shrink-0" />}
+                  <span>
+                    {suggestionText(review, check.suggestionId)}
+                    {check.note && <span className="text-muted-foreground"> ({check.note})</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {round.comments && <p className="text-sm">{round.comments}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface RevisionDialogProps {
+  review: PeerReview;
+  onSubmit: (revision: ReviewedCode, note: string) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Lets the reviewee submit a revision, starting from the code with accepted suggestions applied
+ */
+export function RevisionDialog({ review, onSubmit, onCancel }: RevisionDialogProps) {
+  const previous = ReviewRounds.currentCode(review);
+  const [code, setCode] = useState(review.patchedCode ?? previous);
+  const [note, setNote] = useState('');
+  const [showDiff, setShowDiff] = useState(false);
+  const openSuggestions = ReviewRounds.openSuggestions(review);
+
+  return (
+    <Dialog open onOpenChange={onCancel}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Submit Revision for Round {ReviewRounds.currentRoundNumber(review) + 1}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {openSuggestions.length > 0 && (
+            <div>
+              <Label>Suggestions the reviewer will check</Label>
+              <ul className="text-sm text-muted-foreground list-disc pl-5 mt-1">
+                {openSuggestions.map(suggestion => (
+                  <li key={suggestion.suggestionId}>{suggestion.explanation}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div>
+            <Label>Revised Code</Label>
+            <Textarea
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="font-mono text-sm min-h-[240px]"
+            />
+          </div>
+          <div>
+            <Button variant="outline" size="sm" onClick={() => setShowDiff(!showDiff)}>
+              <GitCompare className="h-4 w-4 mr-2" />
+              {showDiff ? 'Hide Changes' : 'Compare with Previous Round'}
+            </Button>
+            {showDiff && (
+              <div className="mt-2">
+                <RevisionDiff rows={SessionReplayEngine.diffLines(previous, code)} />
+              </div>
+            )}
+          </div>
+          <div>
+            <Label>What changed?</Label>
+            <Textarea
+              placeholder="Summarize how you addressed the feedback..."
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => onSubmit({ code, language: review.reviewedCode?.language ?? 'plaintext' }, note)}
+              disabled={code === previous}
+            >
+              Submit Revision
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface RoundReviewDialogProps {
+  review: PeerReview;
+  onSubmit: (input: RoundReviewInput) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * The reviewer's checklist for the waiting revision: each earlier suggestion marked addressed or not
+ */
+export function RoundReviewDialog({ review, onSubmit, onCancel }: RoundReviewDialogProps) {
+  const round = (review.rounds ?? [])[(review.rounds ?? []).length - 1];
+  const [checks, setChecks] = useState<RoundReviewInput['checks']>({});
+  const [comments, setComments] = useState('');
+  if (!round) return null;
+
+  const setCheck = (suggestionId: string, update: Partial<Pick<SuggestionCheck, 'status' | 'note'>>) => {
+    setChecks(current => ({
+      ...current,
+      [suggestionId]: { ...(current[suggestionId] ?? { status: 'pending' }), ...update }
+    }));
+  };
+
+  const allChecked = round.suggestionChecks.every(check =>
+    checks[check.suggestionId] && checks[check.suggestionId].status !== 'pending'
+  );
+
+  return (
+    <Dialog open onOpenChange={onCancel}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Re-review Round {round.roundNumber}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {round.revisionNote && (
+            <p className="text-sm text-muted-foreground">{round.revisionNote}</p>
+          )}
+          <RevisionDiff rows={ReviewRounds.diffRound(review, round.roundNumber)} />
+
+          {round.suggestionChecks.length > 0 && (
+            <div className="space-y-3">
+              <Label>Your earlier suggestions</Label>
+              {round.suggestionChecks.map(check => (
+                <div key={check.suggestionId} className="border rounded p-3 space-y-2">
+                  <p className="text-sm">{suggestionText(review, check.suggestionId)}</p>
+                  <RadioGroup
+                    className="flex space-x-4"
+                    value={checks[check.suggestionId]?.status ?? ''}
+                    onValueChange={(status) => setCheck(check.suggestionId, { status: status as SuggestionCheck['status'] })}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="addressed" id={`${check.suggestionId}-addressed`} />
+                      <Label htmlFor={`${check.suggestionId}-addressed`}>Addressed</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="not_addressed" id={`${check.suggestionId}-not-addressed`} />
+                      <Label htmlFor={`${check.suggestionId}-not-addressed`}>Not addressed</Label>
+                    </div>
+                  </RadioGroup>
+                  <Input
+                    placeholder="Optional note..."
+                    value={checks[check.suggestionId]?.note ?? ''}
+                    onChange={(e) => setCheck(check.suggestionId, { note: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <Label>Comments on this revision</Label>
+            <Textarea
+              placeholder="Anything else about the changes..."
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button onClick={() => onSubmit({ checks, comments })} disabled={!allChecked}>
+              Complete Round
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
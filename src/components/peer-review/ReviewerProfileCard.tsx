@@ -467,6 +467,21 @@ export function ReviewerProfileCard({
                   <p className="font-medium">{profile?.availability.currentLoad || 0} active</p>
                 </div>
               </div>
+
+              {profile?.reputation.calibration && (
+                <div className="text-sm">
+                  <Label className="text-xs text-muted-foreground">Calibrated Reputation</Label>
+                  <p className="font-medium">
+                    {Math.round(profile.reputation.calibration.score * 100)}%
+                    <span className="text-xs text-muted-foreground ml-2">
+                      from {profile.reputation.calibration.evidenceCount} reviews
+                    </span>
+                  </p>
+                  {profile.reputation.calibration.flags.map(flag => (
+                    <p key={flag.type} className="text-xs text-orange-600">{flag.detail}</p>
+                  ))}
+                </div>
+              )}
             </div>
           )}
         </CardContent>
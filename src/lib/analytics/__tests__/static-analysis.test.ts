@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { StaticAnalysisEngine } from '../static-analysis';
+
+describe('StaticAnalysisEngine', () => {
+  describe('complexity', () => {
+    it('counts cyclomatic decision points per function', () => {
+      const { metrics } = StaticAnalysisEngine.analyze(`
+        function classify(x) {
+          if (x > 0 && x < 10) {
+            return 'small';
+          } else if (x >= 10) {
+            return 'large';
+          }
+          for (const item of [1, 2]) {
+            console.log(item ?? 0);
+          }
+          return x ? 'zero' : 'negative';
+        }
+      `);
+
+      // if, &&, else if, for-of, ??, ternary
+      expect(metrics.functions).toHaveLength(1);
+      expect(metrics.functions![0]).toMatchObject({ name: 'classify', cyclomaticComplexity: 7, parameterCount: 1 });
+      expect(metrics.complexity).toBe(7);
+      expect(metrics.analysisEngine).toBe('ast');
+    });
+
+    it('weights cognitive complexity by nesting and ignores comments and strings', () => {
+      const { metrics } = StaticAnalysisEngine.analyze(`
+        // if (a) { while (b) {} }
+        const label = 'for while if';
+        function sumOdd(rows) {
+          let total = 0;
+          for (const row of rows) {          // +1
+            for (const value of row) {       // +2 (nesting 1)
+              if (value % 2 === 1) {         // +3 (nesting 2)
+                total += value;
+              }
+            }
+          }
+          return total;
+        }
+      `);
+
+      const [sumOdd] = metrics.functions!;
+      expect(sumOdd.cognitiveComplexity).toBe(6);
+      expect(sumOdd.cyclomaticComplexity).toBe(4);
+      expect(sumOdd.maxNestingDepth).toBe(3);
+      expect(metrics.linesOfCode).toBe(12);
+    });
+
+    it('counts else-if chains and runs of logical operators without nesting penalties', () => {
+      const { metrics } = StaticAnalysisEngine.analyze(`
+        function grade(score, curved) {
+          if (score > 90 || curved && score > 85) {
+            return 'A';
+          } else if (score > 80) {
+            return 'B';
+          } else {
+            return 'C';
+          }
+        }
+      `);
+
+      // if +1, || and && sequences +2, else if +1, else +1
+      expect(metrics.functions![0].cognitiveComplexity).toBe(5);
+      expect(metrics.functions![0].maxNestingDepth).toBe(1);
+    });
+
+    it('measures nested functions and class members as separate units', () => {
+      const { metrics } = StaticAnalysisEngine.analyze(`
+        class Cart {
+          total(items) {
+            return items.filter(item => item.active ? item.price > 0 : false).length;
+          }
+        }
+        const factorial = (n) => (n <= 1 ? 1 : n * factorial(n - 1));
+      `);
+
+      expect(metrics.functions!.map(fn => fn.name)).toEqual(['Cart.total', '<anonymous>', 'factorial']);
+      expect(metrics.functions![0].cyclomaticComplexity).toBe(1);
+      expect(metrics.functions![1].cyclomaticComplexity).toBe(2);
+      // ternary +1, recursion +1
+      expect(metrics.functions![2].cognitiveComplexity).toBe(2);
+    });
+  });
+
+  describe('halstead and maintainability', () => {
+    it('splits tokens into operators and operands', () => {
+      const { metrics } = StaticAnalysisEngine.analyze('const a = b + 1;');
+
+      expect(metrics.halstead).toMatchObject({
+        distinctOperators: 4, // const = + ;
+        distinctOperands: 3, // a b 1
+        totalOperators: 4,
+        totalOperands: 3,
+        vocabulary: 7,
+        length: 7
+      });
+      expect(metrics.halstead!.volume).toBeCloseTo(7 * Math.log2(7), 2);
+    });
+
+    it('rates simple code as more maintainable than convoluted code', () => {
+      const simple = StaticAnalysisEngine.analyze('export const add = (a, b) => a + b;').metrics;
+      const convoluted = StaticAnalysisEngine.analyze(`
+        export function route(a, b, c, d) {
+          if (a) { if (b) { if (c) { while (d) { d--; if (d % 2) { continue; } } } else { return c || d; } } }
+          switch (a) { case 1: return b && c; case 2: return c ?? d; default: return a ? b : c; }
+        }
+      `).metrics;
+
+      expect(simple.maintainability).toBeGreaterThan(convoluted.maintainability);
+      expect(StaticAnalysisEngine.qualityScore(simple)).toBeGreaterThan(StaticAnalysisEngine.qualityScore(convoluted));
+      expect(simple.maintainability).toBeLessThanOrEqual(100);
+    });
+
+    it('reports empty submissions as zero lines', () => {
+      const { metrics } = StaticAnalysisEngine.analyze('');
+
+      expect(metrics.linesOfCode).toBe(0);
+      expect(metrics.complexity).toBe(1);
+      expect(metrics.functions).toEqual([]);
+    });
+  });
+
+  describe('quality signals', () => {
+    it('estimates coverage from the functions the tests call', () => {
+      const { metrics } = StaticAnalysisEngine.analyze(`
+        function add(a, b) { return a + b; }
+        function subtract(a, b) { return a - b; }
+        describe('math', () => {
+          it('adds', () => {
+            expect(add(1, 2)).toBe(3);
+          });
+        });
+      `);
+
+      expect(metrics.testCoverage).toBe(50);
+    });
+
+    it('penalizes unsafe sinks found in code but not in comments', () => {
+      const safe = StaticAnalysisEngine.analyze(`
+        // never use element.innerHTML = input or eval(input)
+        function render(element, input) { element.textContent = sanitize(input); }
+      `).metrics;
+      const unsafe = StaticAnalysisEngine.analyze(`
+        function render(element, input) { element.innerHTML = input; eval(input); }
+      `).metrics;
+
+      expect(safe.security).toBe(85);
+      expect(unsafe.security).toBe(30);
+    });
+
+    it('penalizes nested loops and awaits inside loops', () => {
+      const { metrics } = StaticAnalysisEngine.analyze(`
+        async function load(ids, groups) {
+          for (const group of groups) {
+            for (const id of ids) {
+              await fetch(group + id);
+            }
+          }
+        }
+      `);
+
+      // base 70, +5 async/await, -10 nested loop, -5 await in loop
+      expect(metrics.performance).toBe(60);
+    });
+  });
+
+  describe('language detection', () => {
+    it('detects languages from syntax rather than keywords in strings', () => {
+      expect(StaticAnalysisEngine.analyze("const msg = 'interface: string';").language).toBe('JavaScript');
+      expect(StaticAnalysisEngine.analyze('const id: string = "a";').language).toBe('TypeScript');
+      expect(StaticAnalysisEngine.analyze('const App = () => <div>Hello</div>;').language).toBe('JavaScript/React');
+      expect(StaticAnalysisEngine.analyze('import os\n\ndef main():\n    print(os.getcwd())\n').language).toBe('Python');
+      expect(
+        StaticAnalysisEngine.analyze('public class Main {\n  public static void main(String[] args) {\n    System.out.println("hi");\n  }\n}').language
+      ).toBe('Java');
+    });
+
+    it('falls back to keyword estimates for languages the compiler cannot parse', () => {
+      const { metrics } = StaticAnalysisEngine.analyze('def check(x):\n    if x and x > 1:\n        return True\n    return False\n');
+
+      expect(metrics.analysisEngine).toBe('heuristic');
+      expect(metrics.complexity).toBe(3);
+      expect(metrics.linesOfCode).toBe(4);
+      expect(metrics.functions).toBeUndefined();
+    });
+  });
+});
@@ -24,6 +24,7 @@ import { UserProgressService, AnalyticsDataService, LearningInsightsService, Ana
 import { sendChatMessage } from '@/ai/flows/send-chat-message';
 import { awardSkillBadge } from '@/ai/flows/award-skill-badge';
 import { AnalyticsErrorHandler, withErrorHandling, ErrorContext } from './error-handling';
+import { StaticAnalysisEngine } from './static-analysis';
 
 export interface SkillAnalysisResult {
   detectedSkills: string[];
@@ -40,6 +41,12 @@ export interface ProgressTrackingOptions {
   generateInsights?: boolean;
   updateBenchmarks?: boolean;
   trackLearningVelocity?: boolean;
+  // Checked before every write: once aborted nothing more is saved and the call
+  // rejects with the signal's reason
+  signal?: AbortSignal;
+  // Records the analysis under this session ID; a session that was already recorded
+  // is returned as it was saved instead of being analyzed and awarded again
+  sessionId?: string;
 }
 
 export class SkillProgressTracker {
@@ -70,76 +77,29 @@ export class SkillProgressTracker {
     context: string = '',
     options: ProgressTrackingOptions = {}
   ): Promise<AnalyticsData> {
-    const sessionId = AnalyticsUtils.generateSessionId();
+    const { signal, sessionId: recordedSessionId, ...trackingOptions } = options;
+    const sessionId = recordedSessionId ?? AnalyticsUtils.generateSessionId();
     const errorContext: ErrorContext = {
       operation: 'analyzeCodeSubmission',
       userId,
       sessionId,
       timestamp: new Date(),
-      metadata: { codeLength: code.length, options }
+      metadata: { codeLength: code.length, options: trackingOptions }
     };
     
     try {
-      // Create code submission record with error handling
-      const codeSubmission: CodeSubmission = await AnalyticsErrorHandler.withTimeout(
-        async () => ({
-          submissionId: `sub_${Date.now()}`,
-          code,
-          language: this.detectLanguage(code),
-          context,
-          metrics: await this.calculateCodeMetrics(code),
-          timestamp: new Date()
-        }),
-        10000, // 10 second timeout
-        errorContext
-      );
-
-      // Perform AI analysis with retry and fallback
-      const aiAnalysis = await AnalyticsErrorHandler.withRetry(
-        () => this.performAIAnalysis(code, context, userId),
-        errorContext,
-        { maxAttempts: 2, baseDelay: 1000 }
-      );
-      
-      // Calculate skill improvements with error handling
-      const skillImprovements = await AnalyticsErrorHandler.handleDatabaseError(
-        () => this.calculateSkillImprovements(userId, aiAnalysis),
-        errorContext,
-        [] // fallback to empty array
-      );
-      
-      // Generate learning insights with graceful degradation
-      let learningInsights: LearningInsight[] = [];
-      if (options.generateInsights !== false) {
-        try {
-          learningInsights = await AnalyticsErrorHandler.withTimeout(
-            () => this.generateLearningInsights(userId, aiAnalysis, skillImprovements),
-            5000, // 5 second timeout for insights
-            errorContext
-          );
-        } catch (insightError) {
-          console.warn('Failed to generate learning insights, continuing without them:', insightError);
-          learningInsights = [];
+      // A session that was already recorded is returned as saved, so it is never awarded twice
+      if (recordedSessionId) {
+        const recorded = await AnalyticsDataService.getAnalyticsDataBySession(recordedSessionId);
+        if (recorded) {
+          return recorded;
         }
       }
 
-      // Create analytics data record
-      const analyticsData: AnalyticsData = {
-        sessionId,
-        userId,
-        codeSubmission,
-        aiAnalysis,
-        skillImprovements,
-        learningInsights,
-        benchmarkComparisons: [], // Will be populated by benchmark system
-        timestamp: new Date(),
-        processingStatus: 'completed'
-      };
-
-      // Validate analytics data
-      AnalyticsErrorHandler.validateAnalyticsData(analyticsData, errorContext);
+      const analyticsData = await this.buildAnalyticsData(userId, code, context, sessionId, options, errorContext);
 
       // Save analytics data with retry
+      signal?.throwIfAborted();
       await AnalyticsErrorHandler.handleDatabaseError(
         () => AnalyticsDataService.saveAnalyticsData(analyticsData),
         errorContext
@@ -147,9 +107,10 @@ export class SkillProgressTracker {
 
       // Update user progress with error handling
       if (options.enableRealTimeAnalysis !== false) {
+        signal?.throwIfAborted();
         try {
           await AnalyticsErrorHandler.withRetry(
-            () => this.updateUserProgress(userId, skillImprovements, analyticsData),
+            () => this.updateUserProgress(userId, analyticsData.skillImprovements, analyticsData),
             errorContext,
             { maxAttempts: 2 }
           );
@@ -159,7 +120,8 @@ export class SkillProgressTracker {
       }
 
       // Save learning insights with error handling
-      for (const insight of learningInsights) {
+      for (const insight of analyticsData.learningInsights) {
+        signal?.throwIfAborted();
         try {
           await AnalyticsErrorHandler.handleDatabaseError(
             () => LearningInsightsService.saveLearningInsight(insight),
@@ -172,6 +134,10 @@ export class SkillProgressTracker {
 
       return analyticsData;
     } catch (error) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+
       // Handle the error using the error handler
       return await AnalyticsErrorHandler.handleAnalyticsProcessingError(
         error as Error,
@@ -181,6 +147,119 @@ export class SkillProgressTracker {
     }
   }
 
+  /**
+   * Analyzes a code submission the same way without saving anything or awarding
+   * experience; skillImprovements are what recording it would award
+   */
+  static async previewCodeSubmission(
+    userId: string,
+    code: string,
+    context: string = '',
+    options: Pick<ProgressTrackingOptions, 'generateInsights' | 'signal'> = {}
+  ): Promise<AnalyticsData> {
+    const sessionId = AnalyticsUtils.generateSessionId();
+    const errorContext: ErrorContext = {
+      operation: 'previewCodeSubmission',
+      userId,
+      sessionId,
+      timestamp: new Date(),
+      metadata: { codeLength: code.length }
+    };
+
+    try {
+      return await this.buildAnalyticsData(userId, code, context, sessionId, options, errorContext);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw options.signal.reason;
+      }
+
+      return await AnalyticsErrorHandler.handleAnalyticsProcessingError(
+        error as Error,
+        errorContext,
+        { analyticsData: null }
+      );
+    }
+  }
+
+  /**
+   * Runs the analysis pipeline; reads the user's progress but writes nothing
+   */
+  private static async buildAnalyticsData(
+    userId: string,
+    code: string,
+    context: string,
+    sessionId: string,
+    options: Pick<ProgressTrackingOptions, 'generateInsights' | 'signal'>,
+    errorContext: ErrorContext
+  ): Promise<AnalyticsData> {
+    const { signal } = options;
+
+    // Create code submission record with error handling
+    const codeSubmission: CodeSubmission = await AnalyticsErrorHandler.withTimeout(
+      async () => {
+        const { language, metrics } = StaticAnalysisEngine.analyze(code);
+        return {
+          submissionId: `sub_${Date.now()}`,
+          code,
+          language,
+          context,
+          metrics,
+          timestamp: new Date()
+        };
+      },
+      10000, // 10 second timeout
+      errorContext
+    );
+    signal?.throwIfAborted();
+
+    // Perform AI analysis with retry and fallback
+    const aiAnalysis = await AnalyticsErrorHandler.withRetry(
+      () => this.performAIAnalysis(code, context, userId),
+      errorContext,
+      { maxAttempts: 2, baseDelay: 1000 }
+    );
+    
+    // Calculate skill improvements with error handling
+    const skillImprovements = await AnalyticsErrorHandler.handleDatabaseError(
+      () => this.calculateSkillImprovements(userId, aiAnalysis, codeSubmission.metrics),
+      errorContext,
+      [] // fallback to empty array
+    );
+    signal?.throwIfAborted();
+    
+    // Generate learning insights with graceful degradation
+    let learningInsights: LearningInsight[] = [];
+    if (options.generateInsights !== false) {
+      try {
+        learningInsights = await AnalyticsErrorHandler.withTimeout(
+          () => this.generateLearningInsights(userId, aiAnalysis, skillImprovements),
+          5000, // 5 second timeout for insights
+          errorContext
+        );
+      } catch (insightError) {
+        console.warn('Failed to generate learning insights, continuing without them:', insightError);
+        learningInsights = [];
+      }
+    }
+
+    // Create analytics data record
+    const analyticsData: AnalyticsData = {
+      sessionId,
+      userId,
+      codeSubmission,
+      aiAnalysis,
+      skillImprovements,
+      learningInsights,
+      benchmarkComparisons: [], // Will be populated by benchmark system
+      timestamp: new Date(),
+      processingStatus: 'completed'
+    };
+
+    // Validate analytics data
+    AnalyticsErrorHandler.validateAnalyticsData(analyticsData, errorContext);
+    return analyticsData;
+  }
+
   /**
    * Performs comprehensive AI analysis of code submission with fallback
    */
@@ -278,14 +357,15 @@ export class SkillProgressTracker {
    */
   private static async calculateSkillImprovements(
     userId: string, 
-    aiAnalysis: AIAnalysisResult
+    aiAnalysis: AIAnalysisResult,
+    metrics: CodeMetrics
   ): Promise<SkillImprovement[]> {
     const improvements: SkillImprovement[] = [];
     const userProgress = await UserProgressService.getUserProgress(userId);
     
     for (const skillId of aiAnalysis.detectedSkills) {
       const currentSkill = userProgress?.skillLevels.get(skillId);
-      const experienceGain = this.calculateExperienceGain(aiAnalysis, skillId);
+      const experienceGain = this.calculateExperienceGain(aiAnalysis, skillId, metrics);
       
       if (currentSkill) {
         const newExperience = currentSkill.experiencePoints + experienceGain;
@@ -482,109 +562,6 @@ export class SkillProgressTracker {
 
   // Helper methods for calculations and analysis
 
-  private static detectLanguage(code: string): string {
-    if (code.includes('import React') || code.includes('useState')) return 'JavaScript/React';
-    if (code.includes('interface ') || code.includes(': string')) return 'TypeScript';
-    if (code.includes('def ') || code.includes('import ')) return 'Python';
-    if (code.includes('public class') || code.includes('System.out')) return 'Java';
-    return 'JavaScript';
-  }
-
-  private static async calculateCodeMetrics(code: string): Promise<CodeMetrics> {
-    const lines = code.split('\n').filter(line => line.trim().length > 0);
-    const complexity = this.calculateCyclomaticComplexity(code);
-    const maintainability = this.calculateMaintainabilityIndex(code, complexity);
-
-    return {
-      linesOfCode: lines.length,
-      complexity,
-      maintainability,
-      testCoverage: this.estimateTestCoverage(code),
-      performance: this.estimatePerformanceScore(code),
-      security: this.estimateSecurityScore(code)
-    };
-  }
-
-  private static calculateCyclomaticComplexity(code: string): number {
-    const complexityKeywords = ['if', 'else', 'while', 'for', 'switch', 'case', 'catch', '&&', '||', '\\?'];
-    let complexity = 1; // Base complexity
-    
-    for (const keyword of complexityKeywords) {
-      // Escape special regex characters
-      const escapedKeyword = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      const matches = code.match(new RegExp(`\\b${escapedKeyword}\\b`, 'g'));
-      if (matches) {
-        complexity += matches.length;
-      }
-    }
-    
-    return Math.min(complexity, 50); // Cap at 50 for reasonable scoring
-  }
-
-  private static calculateMaintainabilityIndex(code: string, complexity: number): number {
-    const linesOfCode = code.split('\n').length;
-    const halsteadVolume = this.estimateHalsteadVolume(code);
-    
-    // Simplified maintainability index calculation
-    const maintainabilityIndex = Math.max(0, 
-      171 - 5.2 * Math.log(halsteadVolume) - 0.23 * complexity - 16.2 * Math.log(linesOfCode)
-    );
-    
-    return Math.min(100, maintainabilityIndex);
-  }
-
-  private static estimateHalsteadVolume(code: string): number {
-    const operators = code.match(/[+\-*/=<>!&|(){}[\];,.:]/g) || [];
-    const operands = code.match(/\b[a-zA-Z_][a-zA-Z0-9_]*\b/g) || [];
-    
-    const uniqueOperators = new Set(operators).size;
-    const uniqueOperands = new Set(operands).size;
-    const totalOperators = operators.length;
-    const totalOperands = operands.length;
-    
-    const vocabulary = uniqueOperators + uniqueOperands;
-    const length = totalOperators + totalOperands;
-    
-    return length * Math.log2(vocabulary || 1);
-  }
-
-  private static estimateTestCoverage(code: string): number {
-    const hasTests = code.includes('test(') || code.includes('it(') || code.includes('describe(');
-    const hasAssertions = code.includes('expect(') || code.includes('assert');
-    
-    if (hasTests && hasAssertions) return 80;
-    if (hasTests || hasAssertions) return 40;
-    return 0;
-  }
-
-  private static estimatePerformanceScore(code: string): number {
-    let score = 70; // Base score
-    
-    // Positive indicators
-    if (code.includes('useMemo') || code.includes('useCallback')) score += 10;
-    if (code.includes('async') && code.includes('await')) score += 5;
-    
-    // Negative indicators
-    if (code.includes('for') && code.includes('for')) score -= 10; // Nested loops
-    if (code.includes('document.getElementById')) score -= 5; // DOM queries in loops
-    
-    return Math.max(0, Math.min(100, score));
-  }
-
-  private static estimateSecurityScore(code: string): number {
-    let score = 70; // Base score
-    
-    // Positive indicators
-    if (code.includes('sanitize') || code.includes('validate')) score += 15;
-    if (code.includes('try') && code.includes('catch')) score += 10;
-    
-    // Negative indicators
-    if (code.includes('eval(') || code.includes('innerHTML')) score -= 20;
-    if (code.includes('document.write')) score -= 15;
-    
-    return Math.max(0, Math.min(100, score));
-  }
-
   private static extractMetricFromResponse(response: string, metric: string): number {
     // Simple pattern matching to extract numeric scores from AI response
     const patterns = [
@@ -647,9 +624,13 @@ export class SkillProgressTracker {
     return [...new Set(skills)]; // Remove duplicates
   }
 
-  private static calculateExperienceGain(aiAnalysis: AIAnalysisResult, skillId: string): number {
+  /**
+   * Scales experience by the measured quality of the submission rather than the
+   * scores quoted in the AI review text
+   */
+  private static calculateExperienceGain(aiAnalysis: AIAnalysisResult, skillId: string, metrics: CodeMetrics): number {
     const baseGain = 10;
-    const qualityMultiplier = aiAnalysis.codeQuality / 100;
+    const qualityMultiplier = StaticAnalysisEngine.qualityScore(metrics) / 100;
     const skillRelevance = aiAnalysis.detectedSkills.includes(skillId) ? 1.5 : 1.0;
     
     return Math.round(baseGain * qualityMultiplier * skillRelevance);
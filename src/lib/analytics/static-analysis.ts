@@ -0,0 +1,619 @@
+// Static Analysis Metrics Engine Built on the TypeScript Compiler API
+
+import * as ts from 'typescript';
+import { CodeMetrics, FunctionMetrics, HalsteadMetrics } from '@/types/analytics';
+
+export interface StaticAnalysisResult {
+  language: string;
+  metrics: CodeMetrics;
+}
+
+type FunctionUnit = ts.FunctionLikeDeclaration & { body: ts.Node };
+
+interface ComplexityCounts {
+  decisionPoints: number;
+  cognitive: number;
+  maxNesting: number;
+}
+
+interface TokenCounts {
+  operators: Map<string, number>;
+  operands: Map<string, number>;
+  lines: Set<number>;
+}
+
+const SUBMISSION_FILE = '/submission.tsx';
+
+const LOGICAL_OPERATORS = new Set([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+]);
+
+const LOGICAL_ASSIGNMENTS = new Set([
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken,
+]);
+
+// Closing halves of paired tokens are counted with their opening token
+const CLOSING_TOKENS = new Set([
+  ts.SyntaxKind.CloseBraceToken,
+  ts.SyntaxKind.CloseParenToken,
+  ts.SyntaxKind.CloseBracketToken,
+  ts.SyntaxKind.EndOfFileToken,
+]);
+
+const OPERAND_KEYWORDS = new Set([
+  ts.SyntaxKind.TrueKeyword,
+  ts.SyntaxKind.FalseKeyword,
+  ts.SyntaxKind.NullKeyword,
+  ts.SyntaxKind.ThisKeyword,
+  ts.SyntaxKind.SuperKeyword,
+]);
+
+const TEST_CASES = new Set(['it', 'test']);
+const TEST_BLOCKS = new Set(['describe', 'it', 'test', 'beforeEach', 'afterEach', 'beforeAll', 'afterAll']);
+const ASSERTIONS = new Set(['expect', 'assert']);
+const MEMOIZATION_CALLS = new Set(['useMemo', 'useCallback', 'memo']);
+const DOM_QUERIES = new Set([
+  'getElementById',
+  'getElementsByClassName',
+  'getElementsByTagName',
+  'querySelector',
+  'querySelectorAll',
+]);
+const VALIDATION_CALL = /sanitiz|validat|escape/i;
+
+// Thresholds above which a single function is considered hard to follow
+const CYCLOMATIC_THRESHOLD = 10;
+const COGNITIVE_THRESHOLD = 15;
+
+export class StaticAnalysisEngine {
+  /**
+   * Parses JS/TS submissions with the TypeScript compiler and measures them from the
+   * syntax tree. Code in other languages gets keyword-based estimates instead.
+   */
+  static analyze(code: string): StaticAnalysisResult {
+    const sourceFile = ts.createSourceFile(SUBMISSION_FILE, code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+
+    const otherLanguage = this.detectOtherLanguage(code, sourceFile);
+    if (otherLanguage) {
+      return { language: otherLanguage, metrics: this.heuristicMetrics(code) };
+    }
+
+    return { language: this.detectScriptLanguage(sourceFile), metrics: this.measure(sourceFile) };
+  }
+
+  /**
+   * Single 0-100 quality score from the measured metrics, used to scale skill experience
+   */
+  static qualityScore(metrics: CodeMetrics): number {
+    const functions = metrics.functions || [];
+    const worstCyclomatic = Math.max(0, ...functions.map(fn => fn.cyclomaticComplexity)) || metrics.complexity;
+    const worstCognitive = Math.max(0, ...functions.map(fn => fn.cognitiveComplexity)) || (metrics.cognitiveComplexity ?? 0);
+
+    const cyclomaticScore = this.clampScore(100 - 5 * Math.max(0, worstCyclomatic - CYCLOMATIC_THRESHOLD));
+    const cognitiveScore = this.clampScore(100 - 4 * Math.max(0, worstCognitive - COGNITIVE_THRESHOLD));
+
+    return Math.round(0.6 * metrics.maintainability + 0.2 * cyclomaticScore + 0.2 * cognitiveScore);
+  }
+
+  private static measure(sourceFile: ts.SourceFile): CodeMetrics {
+    const units = this.collectFunctionUnits(sourceFile);
+    const moduleCounts = this.measureComplexity(sourceFile, '');
+    const functions = units.map(unit => this.measureFunction(unit, sourceFile));
+
+    const tokens = this.collectTokens(sourceFile, sourceFile, false);
+    const halstead = this.halstead(tokens);
+    const linesOfCode = tokens.lines.size;
+    const complexity = 1 + moduleCounts.decisionPoints +
+      functions.reduce((sum, fn) => sum + fn.cyclomaticComplexity - 1, 0);
+
+    return {
+      linesOfCode,
+      complexity,
+      maintainability: this.maintainabilityIndex(halstead.volume, complexity, linesOfCode),
+      testCoverage: this.estimateTestCoverage(sourceFile, units),
+      performance: this.estimatePerformanceScore(sourceFile),
+      security: this.estimateSecurityScore(sourceFile),
+      cognitiveComplexity: moduleCounts.cognitive + functions.reduce((sum, fn) => sum + fn.cognitiveComplexity, 0),
+      maxNestingDepth: Math.max(moduleCounts.maxNesting, ...functions.map(fn => fn.maxNestingDepth)),
+      halstead,
+      functions,
+      analysisEngine: 'ast'
+    };
+  }
+
+  private static measureFunction(unit: FunctionUnit, sourceFile: ts.SourceFile): FunctionMetrics {
+    const counts = this.measureComplexity(unit, this.ownName(unit));
+    const tokens = this.collectTokens(unit, sourceFile, true);
+    const volume = this.halstead(tokens).volume;
+    const cyclomaticComplexity = 1 + counts.decisionPoints;
+
+    return {
+      name: this.functionName(unit),
+      startLine: this.lineOf(sourceFile, unit.getStart(sourceFile)),
+      endLine: this.lineOf(sourceFile, unit.getEnd()),
+      linesOfCode: tokens.lines.size,
+      parameterCount: unit.parameters.length,
+      cyclomaticComplexity,
+      cognitiveComplexity: counts.cognitive,
+      maxNestingDepth: counts.maxNesting,
+      halsteadVolume: volume,
+      maintainability: this.maintainabilityIndex(volume, cyclomaticComplexity, tokens.lines.size)
+    };
+  }
+
+  /**
+   * Counts McCabe decision points and SonarSource cognitive complexity for one unit.
+   * Nested functions are measured as units of their own and skipped here.
+   */
+  private static measureComplexity(root: ts.Node, recursionName: string): ComplexityCounts {
+    const counts: ComplexityCounts = { decisionPoints: 0, cognitive: 0, maxNesting: 0 };
+
+    const visit = (node: ts.Node, nesting: number): void => {
+      if (node !== root && this.isFunctionUnit(node)) return;
+      counts.maxNesting = Math.max(counts.maxNesting, nesting);
+
+      switch (node.kind) {
+        case ts.SyntaxKind.IfStatement: {
+          const ifStatement = node as ts.IfStatement;
+          const isElseIf = ts.isIfStatement(node.parent) && node.parent.elseStatement === node;
+          counts.decisionPoints++;
+          counts.cognitive += isElseIf ? 1 : 1 + nesting;
+          if (ifStatement.elseStatement && !ts.isIfStatement(ifStatement.elseStatement)) {
+            counts.cognitive++;
+          }
+          break;
+        }
+        case ts.SyntaxKind.ConditionalExpression:
+        case ts.SyntaxKind.ForStatement:
+        case ts.SyntaxKind.ForInStatement:
+        case ts.SyntaxKind.ForOfStatement:
+        case ts.SyntaxKind.WhileStatement:
+        case ts.SyntaxKind.DoStatement:
+        case ts.SyntaxKind.CatchClause:
+          counts.decisionPoints++;
+          counts.cognitive += 1 + nesting;
+          break;
+        case ts.SyntaxKind.SwitchStatement:
+          counts.cognitive += 1 + nesting;
+          break;
+        case ts.SyntaxKind.CaseClause:
+          counts.decisionPoints++;
+          break;
+        case ts.SyntaxKind.BinaryExpression: {
+          const operator = (node as ts.BinaryExpression).operatorToken.kind;
+          if (LOGICAL_ASSIGNMENTS.has(operator)) counts.decisionPoints++;
+          if (LOGICAL_OPERATORS.has(operator)) {
+            counts.decisionPoints++;
+            // Each run of the same operator counts once: a && b && c is +1, a && b || c is +2
+            if (this.parentLogicalOperator(node) !== operator) counts.cognitive++;
+          }
+          break;
+        }
+        case ts.SyntaxKind.BreakStatement:
+        case ts.SyntaxKind.ContinueStatement:
+          if ((node as ts.BreakOrContinueStatement).label) counts.cognitive++;
+          break;
+        case ts.SyntaxKind.CallExpression:
+          if (recursionName && this.calleeName(node as ts.CallExpression) === recursionName) counts.cognitive++;
+          break;
+      }
+
+      const nestedBodies = this.nestedBodies(node);
+      ts.forEachChild(node, child => visit(child, nestedBodies.includes(child) ? nesting + 1 : nesting));
+    };
+
+    visit(root, 0);
+    return counts;
+  }
+
+  /**
+   * Children of a control structure that sit one nesting level deeper than the structure.
+   * An else-if stays at its parent's level so chains do not drift rightwards.
+   */
+  private static nestedBodies(node: ts.Node): ts.Node[] {
+    if (ts.isIfStatement(node)) {
+      return node.elseStatement && !ts.isIfStatement(node.elseStatement)
+        ? [node.thenStatement, node.elseStatement]
+        : [node.thenStatement];
+    }
+    if (ts.isIterationStatement(node, false)) return [node.statement];
+    if (ts.isConditionalExpression(node)) return [node.whenTrue, node.whenFalse];
+    if (ts.isSwitchStatement(node)) return [node.caseBlock];
+    if (ts.isCatchClause(node)) return [node.block];
+    return [];
+  }
+
+  private static parentLogicalOperator(node: ts.Node): ts.SyntaxKind | undefined {
+    let parent = node.parent;
+    while (parent && ts.isParenthesizedExpression(parent)) parent = parent.parent;
+    return parent && ts.isBinaryExpression(parent) ? parent.operatorToken.kind : undefined;
+  }
+
+  /**
+   * Splits the unit's tokens into Halstead operators and operands and records the lines
+   * that hold code, so comments and blank lines are not counted
+   */
+  private static collectTokens(root: ts.Node, sourceFile: ts.SourceFile, skipNestedFunctions: boolean): TokenCounts {
+    const counts: TokenCounts = { operators: new Map(), operands: new Map(), lines: new Set() };
+    const add = (map: Map<string, number>, key: string) => map.set(key, (map.get(key) || 0) + 1);
+
+    const visit = (node: ts.Node): void => {
+      if (skipNestedFunctions && node !== root && this.isFunctionUnit(node)) return;
+      if (ts.isJSDoc(node)) return;
+
+      if (this.isOperand(node)) {
+        if (ts.isJsxText(node) && node.containsOnlyTriviaWhiteSpaces) return;
+        add(counts.operands, node.getText(sourceFile));
+        counts.lines.add(this.lineOf(sourceFile, node.getStart(sourceFile)));
+        return;
+      }
+
+      if (ts.isTokenKind(node.kind)) {
+        if (!CLOSING_TOKENS.has(node.kind)) {
+          add(counts.operators, ts.tokenToString(node.kind) ?? ts.SyntaxKind[node.kind]);
+        }
+        if (node.kind !== ts.SyntaxKind.EndOfFileToken) {
+          counts.lines.add(this.lineOf(sourceFile, node.getStart(sourceFile)));
+        }
+        return;
+      }
+
+      node.getChildren(sourceFile).forEach(visit);
+    };
+
+    visit(root);
+    return counts;
+  }
+
+  private static isOperand(node: ts.Node): boolean {
+    return ts.isIdentifier(node) ||
+      ts.isPrivateIdentifier(node) ||
+      (node.kind >= ts.SyntaxKind.FirstLiteralToken && node.kind <= ts.SyntaxKind.LastLiteralToken) ||
+      (node.kind >= ts.SyntaxKind.FirstTemplateToken && node.kind <= ts.SyntaxKind.LastTemplateToken) ||
+      OPERAND_KEYWORDS.has(node.kind);
+  }
+
+  private static halstead(tokens: TokenCounts): HalsteadMetrics {
+    const sum = (map: Map<string, number>) => Array.from(map.values()).reduce((total, count) => total + count, 0);
+
+    const distinctOperators = tokens.operators.size;
+    const distinctOperands = tokens.operands.size;
+    const totalOperators = sum(tokens.operators);
+    const totalOperands = sum(tokens.operands);
+    const vocabulary = distinctOperators + distinctOperands;
+    const length = totalOperators + totalOperands;
+    const volume = vocabulary > 1 ? length * Math.log2(vocabulary) : 0;
+    const difficulty = distinctOperands > 0 ? (distinctOperators / 2) * (totalOperands / distinctOperands) : 0;
+    const effort = difficulty * volume;
+
+    return {
+      distinctOperators,
+      distinctOperands,
+      totalOperators,
+      totalOperands,
+      vocabulary,
+      length,
+      volume: this.round(volume),
+      difficulty: this.round(difficulty),
+      effort: this.round(effort),
+      estimatedBugs: this.round(volume / 3000)
+    };
+  }
+
+  /**
+   * Maintainability index rescaled to 0-100 (the Visual Studio variant)
+   */
+  private static maintainabilityIndex(volume: number, complexity: number, linesOfCode: number): number {
+    const raw = 171 - 5.2 * Math.log(Math.max(1, volume)) - 0.23 * complexity - 16.2 * Math.log(Math.max(1, linesOfCode));
+    return this.round(Math.max(0, Math.min(100, (raw * 100) / 171)));
+  }
+
+  /**
+   * Share of the submission's own functions exercised by its test cases. Test-only
+   * submissions report the share of test cases that make at least one assertion.
+   */
+  private static estimateTestCoverage(sourceFile: ts.SourceFile, units: FunctionUnit[]): number {
+    const testCallbacks: ts.Node[] = [];
+    this.walk(sourceFile, node => {
+      if (ts.isCallExpression(node) && TEST_CASES.has(this.testBlockName(node) || '')) {
+        const callback = node.arguments.find(argument => ts.isFunctionExpression(argument) || ts.isArrowFunction(argument));
+        if (callback) testCallbacks.push(callback);
+      }
+    });
+    if (testCallbacks.length === 0) return 0;
+
+    const calledInTests = new Set<string>();
+    let casesWithAssertions = 0;
+    for (const callback of testCallbacks) {
+      let asserts = false;
+      this.walk(callback, node => {
+        if (!ts.isCallExpression(node)) return;
+        const name = this.calleeName(node);
+        if (name) calledInTests.add(name);
+        if (this.isAssertion(node)) asserts = true;
+      });
+      if (asserts) casesWithAssertions++;
+    }
+
+    const subjects = units
+      .filter(unit => !this.isInsideTestBlock(unit))
+      .map(unit => this.ownName(unit))
+      .filter(Boolean);
+
+    const covered = subjects.length > 0
+      ? subjects.filter(name => calledInTests.has(name)).length / subjects.length
+      : casesWithAssertions / testCallbacks.length;
+
+    return Math.round(covered * 100);
+  }
+
+  private static estimatePerformanceScore(sourceFile: ts.SourceFile): number {
+    let nestedLoops = 0;
+    let domQueriesInLoops = 0;
+    let awaitsInLoops = 0;
+    let memoizes = false;
+    let awaits = false;
+
+    this.walk(sourceFile, node => {
+      const loopDepth = this.enclosingLoopDepth(node);
+
+      if (ts.isIterationStatement(node, false) && loopDepth > 0) nestedLoops++;
+      if (ts.isAwaitExpression(node)) {
+        awaits = true;
+        if (loopDepth > 0) awaitsInLoops++;
+      }
+      if (ts.isCallExpression(node)) {
+        const name = this.calleeName(node) || '';
+        if (MEMOIZATION_CALLS.has(name)) memoizes = true;
+        if (DOM_QUERIES.has(name) && loopDepth > 0) domQueriesInLoops++;
+      }
+    });
+
+    let score = 70;
+    if (memoizes) score += 10;
+    if (awaits) score += 5;
+    score -= 10 * Math.min(nestedLoops, 3);
+    score -= 5 * domQueriesInLoops;
+    score -= 5 * awaitsInLoops;
+
+    return this.clampScore(score);
+  }
+
+  private static estimateSecurityScore(sourceFile: ts.SourceFile): number {
+    let validates = false;
+    let handlesErrors = false;
+    let dangerousSinks = 0;
+    let documentWrites = 0;
+    let stringTimers = 0;
+
+    this.walk(sourceFile, node => {
+      if (ts.isTryStatement(node) && node.catchClause) handlesErrors = true;
+
+      if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+        const name = this.calleeName(node) || '';
+        if (VALIDATION_CALL.test(name)) validates = true;
+        if (name === 'eval' || (ts.isNewExpression(node) && name === 'Function')) dangerousSinks++;
+        if ((name === 'write' || name === 'writeln') && this.calleeObjectName(node) === 'document') documentWrites++;
+        if ((name === 'setTimeout' || name === 'setInterval') && node.arguments?.[0] && ts.isStringLiteralLike(node.arguments[0])) {
+          stringTimers++;
+        }
+      }
+
+      if (
+        ts.isBinaryExpression(node) &&
+        node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+        ts.isPropertyAccessExpression(node.left) &&
+        ['innerHTML', 'outerHTML'].includes(node.left.name.text)
+      ) {
+        dangerousSinks++;
+      }
+      if (ts.isJsxAttribute(node) && node.name.getText() === 'dangerouslySetInnerHTML') dangerousSinks++;
+    });
+
+    let score = 70;
+    if (validates) score += 15;
+    if (handlesErrors) score += 10;
+    score -= 20 * dangerousSinks;
+    score -= 15 * documentWrites;
+    score -= 10 * stringTimers;
+
+    return this.clampScore(score);
+  }
+
+  private static detectScriptLanguage(sourceFile: ts.SourceFile): string {
+    let usesReact = false;
+    let usesTypeScript = false;
+
+    this.walk(sourceFile, node => {
+      if (
+        ts.isJsxElement(node) ||
+        ts.isJsxSelfClosingElement(node) ||
+        ts.isJsxFragment(node) ||
+        (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier) && node.moduleSpecifier.text === 'react') ||
+        (ts.isCallExpression(node) && /^use[A-Z]/.test(this.calleeName(node) || ''))
+      ) {
+        usesReact = true;
+      }
+
+      if (
+        (ts.isTypeNode(node) && !ts.isExpressionWithTypeArguments(node)) ||
+        ts.isInterfaceDeclaration(node) ||
+        ts.isTypeAliasDeclaration(node) ||
+        ts.isEnumDeclaration(node) ||
+        ts.isAsExpression(node) ||
+        ts.isSatisfiesExpression(node) ||
+        ts.isNonNullExpression(node)
+      ) {
+        usesTypeScript = true;
+      }
+    });
+
+    if (usesReact) return 'JavaScript/React';
+    return usesTypeScript ? 'TypeScript' : 'JavaScript';
+  }
+
+  /**
+   * The TypeScript parser accepts almost anything, so other languages are only
+   * recognised when the code fails to parse and carries that language's markers
+   */
+  private static detectOtherLanguage(code: string, sourceFile: ts.SourceFile): string | undefined {
+    if (this.syntaxErrorCount(sourceFile) === 0) return undefined;
+
+    if (/\bpublic\s+(static\s+)?(final\s+)?(class|interface|void)\b|System\.out\./.test(code)) return 'Java';
+    if (/^\s*(def|class)\s+\w+.*:\s*$/m.test(code) || /^\s*(from\s+[\w.]+\s+)?import\s+[\w., ]+\s*$/m.test(code)) {
+      return 'Python';
+    }
+    return undefined;
+  }
+
+  private static syntaxErrorCount(sourceFile: ts.SourceFile): number {
+    const host: ts.CompilerHost = {
+      getSourceFile: fileName => (fileName === sourceFile.fileName ? sourceFile : undefined),
+      getDefaultLibFileName: () => 'lib.d.ts',
+      writeFile: () => {},
+      getCurrentDirectory: () => '/',
+      getCanonicalFileName: fileName => fileName,
+      useCaseSensitiveFileNames: () => true,
+      getNewLine: () => '\n',
+      fileExists: fileName => fileName === sourceFile.fileName,
+      readFile: () => undefined
+    };
+    const program = ts.createProgram([sourceFile.fileName], { noLib: true, noResolve: true }, host);
+    return program.getSyntacticDiagnostics(sourceFile).length;
+  }
+
+  /**
+   * Keyword-based estimates for languages the compiler cannot parse
+   */
+  private static heuristicMetrics(code: string): CodeMetrics {
+    const lines = code.split('\n').filter(line => line.trim().length > 0);
+    const decisionPoints = (code.match(/\b(if|elif|for|while|case|catch|except|and|or)\b|&&|\|\|/g) || []).length;
+    const complexity = 1 + decisionPoints;
+
+    const operators = code.match(/[+\-*/=<>!&|(){}[\];,.:]/g) || [];
+    const operands = code.match(/\b[a-zA-Z_][a-zA-Z0-9_]*\b/g) || [];
+    const vocabulary = new Set(operators).size + new Set(operands).size;
+    const volume = vocabulary > 1 ? (operators.length + operands.length) * Math.log2(vocabulary) : 0;
+
+    return {
+      linesOfCode: lines.length,
+      complexity,
+      maintainability: this.maintainabilityIndex(volume, complexity, lines.length),
+      analysisEngine: 'heuristic'
+    };
+  }
+
+  private static collectFunctionUnits(sourceFile: ts.SourceFile): FunctionUnit[] {
+    const units: FunctionUnit[] = [];
+    this.walk(sourceFile, node => {
+      if (this.isFunctionUnit(node)) units.push(node);
+    });
+    return units;
+  }
+
+  private static isFunctionUnit(node: ts.Node): node is FunctionUnit {
+    return ts.isFunctionLike(node) && 'body' in node && !!node.body;
+  }
+
+  /**
+   * Display name, qualified with the class name for members
+   */
+  private static functionName(unit: FunctionUnit): string {
+    const name = this.ownName(unit) || '<anonymous>';
+    const owner = unit.parent;
+    if ((ts.isClassDeclaration(owner) || ts.isClassExpression(owner)) && owner.name) {
+      return `${owner.name.text}.${name}`;
+    }
+    return name;
+  }
+
+  private static ownName(unit: FunctionUnit): string {
+    if (ts.isConstructorDeclaration(unit)) return 'constructor';
+    if (unit.name) return this.propertyNameText(unit.name);
+
+    const parent = unit.parent;
+    if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) && parent.initializer === unit) {
+      return this.propertyNameText(parent.name);
+    }
+    if (ts.isBinaryExpression(parent) && parent.right === unit && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      return ts.isPropertyAccessExpression(parent.left) ? parent.left.name.text : parent.left.getText();
+    }
+    return '';
+  }
+
+  private static propertyNameText(name: ts.Node): string {
+    if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+      return name.text;
+    }
+    return name.getText();
+  }
+
+  private static calleeName(node: ts.CallExpression | ts.NewExpression): string | undefined {
+    const callee = node.expression;
+    if (ts.isIdentifier(callee)) return callee.text;
+    if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+    return undefined;
+  }
+
+  private static calleeObjectName(node: ts.CallExpression | ts.NewExpression): string | undefined {
+    const callee = node.expression;
+    return ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) ? callee.expression.text : undefined;
+  }
+
+  /**
+   * Name of a describe/it/test call, including modifiers such as it.only or test.each
+   */
+  private static testBlockName(node: ts.CallExpression): string | undefined {
+    let callee: ts.Expression = node.expression;
+    while (ts.isPropertyAccessExpression(callee) || ts.isCallExpression(callee)) callee = callee.expression;
+    return ts.isIdentifier(callee) && TEST_BLOCKS.has(callee.text) ? callee.text : undefined;
+  }
+
+  private static isAssertion(node: ts.CallExpression): boolean {
+    const callee = node.expression;
+    if (ts.isIdentifier(callee)) return ASSERTIONS.has(callee.text);
+    return ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) && ASSERTIONS.has(callee.expression.text);
+  }
+
+  private static isInsideTestBlock(node: ts.Node): boolean {
+    for (let parent = node.parent; parent; parent = parent.parent) {
+      if (ts.isCallExpression(parent) && this.testBlockName(parent)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Number of loops around the node within its own function
+   */
+  private static enclosingLoopDepth(node: ts.Node): number {
+    let depth = 0;
+    for (let parent = node.parent; parent && !this.isFunctionUnit(parent); parent = parent.parent) {
+      if (ts.isIterationStatement(parent, false)) depth++;
+    }
+    return depth;
+  }
+
+  private static walk(root: ts.Node, callback: (node: ts.Node) => void): void {
+    const visit = (node: ts.Node): void => {
+      callback(node);
+      ts.forEachChild(node, visit);
+    };
+    visit(root);
+  }
+
+  private static lineOf(sourceFile: ts.SourceFile, position: number): number {
+    return sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+  }
+
+  private static clampScore(score: number): number {
+    return Math.max(0, Math.min(100, score));
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -1,6 +1,6 @@
 // Unit tests for Challenge Evaluator
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { ChallengeEvaluator } from '../challenge-evaluator';
 import type { TestCase, EvaluationCriteria } from '@/types/analytics';
 
@@ -113,4 +113,86 @@ describe('ChallengeEvaluator', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  it('should execute submissions and report real execution stats', async () => {
+    const summary = await ChallengeEvaluator.evaluateSubmission(
+      'function solution(input) { return JSON.parse(input).reduce((sum, n) => sum + n, 0); }',
+      'javascript',
+      sampleTestCases,
+      sampleCriteria,
+      { enableAIAnalysis: false }
+    );
+
+    expect(summary.testCaseResults.every(result => result.passed)).toBe(true);
+    expect(summary.criteriaScores['Correctness']).toBe(100);
+    expect(summary.executionStats.totalTime).toBeGreaterThan(0);
+    expect(summary.executionStats.memoryUsed).toBeGreaterThan(0);
+  });
+
+  it('should run submissions through a custom execution backend', async () => {
+    const backend = {
+      name: 'fixture',
+      supportsLanguage: () => true,
+      execute: vi.fn().mockResolvedValue({
+        output: '6',
+        stdout: '',
+        stderr: '',
+        exitCode: 0,
+        timedOut: false,
+        memoryExceeded: false,
+        executionTime: 12,
+        memoryUsed: 8
+      })
+    };
+
+    const summary = await ChallengeEvaluator.evaluateSubmission(
+      'print(6)',
+      'python',
+      [sampleTestCases[0]],
+      sampleCriteria,
+      { enableAIAnalysis: false, executionBackend: backend, timeoutMs: 1000, memoryLimitMB: 64 }
+    );
+
+    expect(backend.execute).toHaveBeenCalledWith({
+      code: 'print(6)',
+      language: 'python',
+      input: '[1, 2, 3]',
+      timeoutMs: 1000,
+      memoryLimitMB: 64
+    });
+    expect(summary.testCaseResults[0].passed).toBe(true);
+    expect(summary.executionStats).toEqual({ totalTime: 12, averageTime: 12, memoryUsed: 8 });
+  });
+
+  it('should grade function-call test cases with their comparison modes', async () => {
+    const testCases: TestCase[] = [
+      {
+        input: '',
+        args: [[3, 1, 2]],
+        functionName: 'uniqueSorted',
+        expectedOutput: '[1, 2, 3]',
+        isHidden: false,
+        weight: 0.5
+      },
+      {
+        input: '',
+        args: [[1, 1, 2]],
+        functionName: 'uniqueSorted',
+        expectedOutput: '[2, 1]',
+        isHidden: true,
+        weight: 0.5,
+        comparison: { mode: 'unordered' }
+      }
+    ];
+
+    const summary = await ChallengeEvaluator.evaluateSubmission(
+      'const uniqueSorted = (values) => [...new Set(values)].sort((a, b) => a - b);',
+      'javascript',
+      testCases,
+      sampleCriteria,
+      { enableAIAnalysis: false }
+    );
+
+    expect(summary.testCaseResults.map(result => result.passed)).toEqual([true, true]);
+  });
+});
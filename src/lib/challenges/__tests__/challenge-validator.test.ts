@@ -154,4 +154,51 @@ describe('ChallengeValidator', () => {
       warning.includes('duration') || warning.includes('prerequisites')
     )).toBe(true);
   });
-});
\ No newline at end of file
+
+  it('should accept function-call test cases with comparison modes', () => {
+    const functionCallChallenge = {
+      ...validChallenge,
+      testCases: [
+        { input: '', args: [[1, 2, 3]], expectedOutput: '6', isHidden: false, weight: 0.4 },
+        { input: '', args: [[]], expectedOutput: '0', isHidden: false, weight: 0.3 },
+        {
+          input: '',
+          args: [[0.1, 0.2]],
+          functionName: 'sumFloats',
+          expectedOutput: '0.3',
+          isHidden: true,
+          weight: 0.3,
+          comparison: { mode: 'numeric' as const, absoluteTolerance: 1e-9 }
+        }
+      ]
+    };
+
+    const result = ChallengeValidator.validateChallenge(functionCallChallenge);
+
+    expect(result.isValid).toBe(true);
+  });
+
+  it('should reject malformed comparison and function-call declarations', () => {
+    const invalidChallenge = {
+      ...validChallenge,
+      testCases: [
+        { input: '', args: [1], functionName: 'not valid', expectedOutput: '1', isHidden: false, weight: 0.2 },
+        { input: '', args: [1], expectedOutput: 'not json', isHidden: false, weight: 0.2 },
+        { input: 'x', expectedOutput: '(', isHidden: true, weight: 0.2, comparison: { mode: 'regex' as const } },
+        { input: 'y', expectedOutput: 'z', isHidden: true, weight: 0.2, comparison: { mode: 'custom' as const } },
+        { input: 'z', expectedOutput: '1', isHidden: true, weight: 0.2, comparison: { mode: 'fuzzy' as any } }
+      ]
+    };
+
+    const result = ChallengeValidator.validateChallenge(invalidChallenge);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      'Test case 1 function name "not valid" is not a valid identifier',
+      'Test case 2 expected output is not valid JSON',
+      'Test case 3 expected output is not a valid regular expression',
+      'Test case 4 uses custom comparison without naming a checker',
+      'Test case 5 has unknown comparison mode "fuzzy"'
+    ]));
+  });
+});
@@ -0,0 +1,294 @@
+// Unit tests for the sandboxed code execution backend
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import { BubblewrapSandbox, CommandSpec, ProcessExecutionBackend, ProcessSandbox } from '../code-execution';
+
+const hasCommand = (command: string) => {
+  try {
+    execSync(`command -v ${command}`, { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+describe('ProcessExecutionBackend', () => {
+  const backend = new ProcessExecutionBackend();
+  const limits = { timeoutMs: 5000, memoryLimitMB: 256 };
+
+  afterEach(() => {
+    delete process.env.KIRO_TEST_SECRET;
+  });
+
+  it('should report supported languages and aliases', () => {
+    expect(backend.supportsLanguage('javascript')).toBe(true);
+    expect(backend.supportsLanguage('TS')).toBe(true);
+    expect(backend.supportsLanguage('py')).toBe(true);
+    expect(backend.supportsLanguage('golang')).toBe(true);
+    expect(backend.supportsLanguage('cobol')).toBe(false);
+  });
+
+  it('should return the solution result separately from stdout', async () => {
+    const result = await backend.execute({
+      ...limits,
+      language: 'javascript',
+      code: `
+        function solution(input) {
+          console.log('debugging');
+          return JSON.parse(input).reduce((sum, n) => sum + n, 0);
+        }
+      `,
+      input: '[1, 2, 3]',
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.output).toBe('6');
+    expect(result.stdout.trim()).toBe('debugging');
+    expect(result.exitCode).toBe(0);
+    expect(result.executionTime).toBeGreaterThan(0);
+    expect(result.memoryUsed).toBeGreaterThan(0);
+  });
+
+  it('should transpile and run TypeScript', async () => {
+    const result = await backend.execute({
+      ...limits,
+      language: 'typescript',
+      code: 'function solution(input: string): number { return input.length; }',
+      input: 'hello',
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.output).toBe('5');
+  });
+
+  it('should capture stderr and fail on runtime errors', async () => {
+    const result = await backend.execute({
+      ...limits,
+      language: 'javascript',
+      code: 'function solution() { throw new Error("boom"); }',
+      input: '',
+    });
+
+    expect(result.output).toBe('');
+    expect(result.error).toContain('boom');
+    expect(result.stderr).toContain('boom');
+  });
+
+  it('should kill submissions that exceed the timeout', async () => {
+    const result = await backend.execute({
+      language: 'javascript',
+      code: 'function solution() { while (true) {} }',
+      input: '',
+      timeoutMs: 300,
+      memoryLimitMB: 256,
+    });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.error).toContain('timeout');
+  });
+
+  it('should stop submissions that exceed the memory limit', async () => {
+    const result = await backend.execute({
+      language: 'javascript',
+      code: `
+        function solution() {
+          const chunks = [];
+          while (true) chunks.push(new Array(1e6).fill(Math.random()));
+        }
+      `,
+      input: '',
+      timeoutMs: 10000,
+      memoryLimitMB: 64,
+    });
+
+    expect(result.memoryExceeded).toBe(true);
+    expect(result.error).toContain('Memory limit exceeded');
+  });
+
+  it('should invoke functions with argument lists and JSON-encode the result', async () => {
+    const result = await backend.execute({
+      ...limits,
+      language: 'javascript',
+      code: 'function pairUp(keys, value) { return keys.map(key => ({ [key]: value })); }',
+      input: '',
+      invocation: { functionName: 'pairUp', args: [['a', 'b'], 1] },
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.output).toBe('[{"a":1},{"b":1}]');
+  });
+
+  it('should reject invocations of non-identifier function names', async () => {
+    const result = await backend.execute({
+      ...limits,
+      language: 'javascript',
+      code: '',
+      input: '',
+      invocation: { functionName: 'process.exit', args: [] },
+    });
+
+    expect(result.error).toBe('Invalid function name: process.exit');
+  });
+
+  it('should leave stdin to the submission and let it reuse harness-free names', async () => {
+    const result = await backend.execute({
+      ...limits,
+      language: 'javascript',
+      code: `
+        let input = require('fs').readFileSync(0, 'utf8');
+        function solution(testInput) {
+          return { fromStdin: input, fromArgument: testInput };
+        }
+      `,
+      input: 'abc',
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(JSON.parse(result.output)).toEqual({ fromStdin: 'abc', fromArgument: 'abc' });
+  });
+
+  it('should refuse to run when the sandbox is not installed', async () => {
+    const sandboxed = new ProcessExecutionBackend(undefined, new BubblewrapSandbox('/nonexistent/bwrap'));
+
+    const result = await sandboxed.execute({ ...limits, language: 'javascript', code: '', input: '' });
+
+    expect(result.error).toBe('Execution sandbox unavailable: bubblewrap is not installed');
+  });
+
+  it('should confine sandboxed commands to the work directory without network', () => {
+    const spec = new BubblewrapSandbox('bwrap', ['/usr']).wrap(
+      { command: '/opt/node/bin/node', args: ['main.js'], env: { A: '1' } },
+      '/tmp/kiro-exec-1'
+    );
+
+    expect(spec.command).toBe('bwrap');
+    expect(spec.env).toEqual({ A: '1' });
+    expect(spec.args).toContain('--unshare-all');
+    expect(spec.args.join(' ')).toContain('--bind /tmp/kiro-exec-1 /tmp/kiro-exec-1 --chdir /tmp/kiro-exec-1');
+    expect(spec.args.slice(-3)).toEqual(['--', '/opt/node/bin/node', 'main.js']);
+  });
+
+  it('should compile inside the sandbox without the server environment', async () => {
+    const wrapped: string[] = [];
+    const recordingSandbox: ProcessSandbox = {
+      name: 'recording',
+      isAvailable: () => true,
+      wrap: (spec: CommandSpec) => {
+        wrapped.push(spec.args[spec.args.length - 1]);
+        return spec;
+      },
+    };
+    const sandboxed = new ProcessExecutionBackend({}, recordingSandbox);
+    sandboxed.registerRuntime('compiled', {
+      fileName: 'main.txt',
+      prepareSource: (code) => code,
+      // The compile step fails if it can see the secret
+      compile: () => ({ command: process.execPath, args: ['-e', 'process.exit(process.env.KIRO_TEST_SECRET ? 1 : 0)', 'compile'] }),
+      run: () => ({ command: process.execPath, args: ['-e', 'process.stdout.write("ran")', 'run'] }),
+    });
+    process.env.KIRO_TEST_SECRET = 'server-only';
+
+    const result = await sandboxed.execute({ ...limits, language: 'compiled', code: '', input: '' });
+
+    expect(result.error).toBeUndefined();
+    expect(result.output).toBe('ran');
+    expect(wrapped).toEqual(['compile', 'run']);
+  });
+
+  it.skipIf(!new BubblewrapSandbox().isAvailable())('should block network and files outside the work directory', async () => {
+    const sandboxed = new ProcessExecutionBackend(undefined, new BubblewrapSandbox());
+
+    const result = await sandboxed.execute({
+      ...limits,
+      language: 'javascript',
+      code: `
+        async function solution() {
+          const fs = require('fs');
+          let network = 'open';
+          await fetch('http://example.com').catch(() => { network = 'blocked'; });
+          return { network, passwd: fs.existsSync('/etc/passwd') };
+        }
+      `,
+      input: '',
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(JSON.parse(result.output)).toEqual({ network: 'blocked', passwd: false });
+  });
+
+  it('should return an error for unsupported languages', async () => {
+    const result = await backend.execute({ ...limits, language: 'cobol', code: '', input: '' });
+
+    expect(result.error).toBe('Unsupported language: cobol');
+  });
+
+  it.skipIf(!hasCommand('python3'))('should run Python solutions', async () => {
+    const result = await backend.execute({
+      ...limits,
+      language: 'python',
+      code: 'def solution(input):\n    return sum(int(x) for x in input.split())\n',
+      input: '4 5 6',
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.output).toBe('15');
+  });
+
+  it.skipIf(!hasCommand('python3'))('should keep input() reading stdin and JSON-encode results', async () => {
+    const result = await backend.execute({
+      ...limits,
+      language: 'python',
+      code: 'first = input()\ndef solution(data):\n    return [first, data.splitlines()[1]]\n',
+      input: 'one\ntwo\n',
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.output).toBe('["one","two"]');
+  });
+
+  it.skipIf(!hasCommand('python3'))('should invoke Python functions with argument lists', async () => {
+    const result = await backend.execute({
+      ...limits,
+      language: 'python',
+      code: 'def merge(a, b):\n    return {**a, **b}\n',
+      input: '',
+      invocation: { functionName: 'merge', args: [{ x: 1 }, { y: null }] },
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(JSON.parse(result.output)).toEqual({ x: 1, y: null });
+  });
+
+  it.skipIf(!hasCommand('go'))('should compile and run Go programs', async () => {
+    const result = await backend.execute({
+      ...limits,
+      language: 'go',
+      code: `package main
+
+import "fmt"
+
+func main() {
+  var a, b int
+  fmt.Scan(&a, &b)
+  fmt.Println(a * b)
+}
+`,
+      input: '6 7',
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.output).toBe('42\n');
+  }, 60000);
+
+  it.skipIf(!hasCommand('g++'))('should report compilation errors', async () => {
+    const result = await backend.execute({
+      ...limits,
+      language: 'cpp',
+      code: 'int main() { return undefined_symbol; }',
+      input: '',
+    });
+
+    expect(result.error).toContain('Compilation failed');
+  }, 60000);
+});
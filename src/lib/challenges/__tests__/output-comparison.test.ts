@@ -0,0 +1,61 @@
+// Unit tests for test case output comparison
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { OutputComparator } from '../output-comparison';
+
+describe('OutputComparator', () => {
+  afterEach(() => {
+    OutputComparator.unregisterChecker('even-length');
+  });
+
+  it('should default to normalized comparison', () => {
+    expect(OutputComparator.compare('  Hello   WORLD\n', 'hello world')).toBe(true);
+    expect(OutputComparator.compare('Hello', 'hello', { mode: 'normalized', caseSensitive: true })).toBe(false);
+  });
+
+  it('should compare exact output apart from trailing newlines', () => {
+    expect(OutputComparator.compare('a  b\n', 'a  b', { mode: 'exact' })).toBe(true);
+    expect(OutputComparator.compare('a b', 'a  b', { mode: 'exact' })).toBe(false);
+    expect(OutputComparator.compare('A b', 'a b', { mode: 'exact' })).toBe(false);
+  });
+
+  it('should compare numbers within tolerance', () => {
+    expect(OutputComparator.compare('0.30000000000000004', '0.3', { mode: 'numeric' })).toBe(true);
+    expect(OutputComparator.compare('3.14', '3.14159', { mode: 'numeric', absoluteTolerance: 0.01 })).toBe(true);
+    expect(OutputComparator.compare('1010', '1000', { mode: 'numeric', relativeTolerance: 0.02 })).toBe(true);
+    expect(OutputComparator.compare('1 2', '1 2 3', { mode: 'numeric' })).toBe(false);
+    expect(OutputComparator.compare('2.5', '2.4', { mode: 'numeric' })).toBe(false);
+  });
+
+  it('should deep-compare JSON regardless of key order and formatting', () => {
+    expect(OutputComparator.compare('{"b":[1,2],"a":1}', '{ "a": 1, "b": [1, 2] }', { mode: 'json' })).toBe(true);
+    expect(OutputComparator.compare('[1,2]', '[2,1]', { mode: 'json' })).toBe(false);
+    expect(OutputComparator.compare('not json', '{}', { mode: 'json' })).toBe(false);
+  });
+
+  it('should compare unordered collections as multisets', () => {
+    expect(OutputComparator.compare('[3,1,2]', '[1, 2, 3]', { mode: 'unordered' })).toBe(true);
+    expect(OutputComparator.compare('c a b', 'a b c', { mode: 'unordered' })).toBe(true);
+    expect(OutputComparator.compare('[1,1,2]', '[1,2,2]', { mode: 'unordered' })).toBe(false);
+  });
+
+  it('should match anchored regular expressions', () => {
+    expect(OutputComparator.compare('id-4821\n', 'id-\\d+', { mode: 'regex' })).toBe(true);
+    expect(OutputComparator.compare('user id-4821', 'id-\\d+', { mode: 'regex' })).toBe(false);
+    expect(OutputComparator.compare('ID-1', 'id-\\d', { mode: 'regex', regexFlags: 'i' })).toBe(true);
+  });
+
+  it('should delegate to registered custom checkers', () => {
+    OutputComparator.registerChecker('even-length', actual => actual.trim().length % 2 === 0);
+
+    expect(OutputComparator.compare('ab', '', { mode: 'custom', checker: 'even-length' })).toBe(true);
+    expect(OutputComparator.compare('abc', '', { mode: 'custom', checker: 'even-length' })).toBe(false);
+    expect(OutputComparator.compare('ab', '', { mode: 'custom', checker: 'missing' })).toBe(false);
+  });
+
+  it('should default function-call test cases to JSON comparison', () => {
+    expect(OutputComparator.resolveComparison({ args: [1] })).toEqual({ mode: 'json' });
+    expect(OutputComparator.resolveComparison({})).toEqual({ mode: 'normalized' });
+    expect(OutputComparator.resolveComparison({ args: [1], comparison: { mode: 'exact' } })).toEqual({ mode: 'exact' });
+  });
+});
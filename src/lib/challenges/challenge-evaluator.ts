@@ -5,12 +5,15 @@ import type {
   EvaluationCriteria, 
   TestCase
 } from '@/types/analytics';
+import { ProcessExecutionBackend, type ExecutionBackend } from './code-execution';
+import { OutputComparator } from './output-comparison';
 
 export interface EvaluationOptions {
   enableAIAnalysis?: boolean;
   strictMode?: boolean;
   timeoutMs?: number;
   memoryLimitMB?: number;
+  executionBackend?: ExecutionBackend;
 }
 
 export interface EvaluationSummary {
@@ -28,6 +31,19 @@ export interface EvaluationSummary {
 }
 
 export class ChallengeEvaluator {
+  private static executionBackend: ExecutionBackend = new ProcessExecutionBackend();
+
+  /**
+   * Replaces the default backend used to run submissions
+   */
+  static setExecutionBackend(backend: ExecutionBackend): void {
+    this.executionBackend = backend;
+  }
+
+  static getExecutionBackend(): ExecutionBackend {
+    return this.executionBackend;
+  }
+
   /**
    * Evaluates a challenge submission against test cases and criteria
    */
@@ -42,7 +58,8 @@ export class ChallengeEvaluator {
       enableAIAnalysis = true,
       strictMode = false,
       timeoutMs = 5000,
-      memoryLimitMB = 128
+      memoryLimitMB = 128,
+      executionBackend = this.executionBackend
     } = options;
 
     // Execute test cases
@@ -50,7 +67,7 @@ export class ChallengeEvaluator {
       code,
       language,
       testCases,
-      { timeoutMs, memoryLimitMB }
+      { timeoutMs, memoryLimitMB, backend: executionBackend }
     );
 
     // Calculate criteria scores
@@ -93,7 +110,7 @@ export class ChallengeEvaluator {
     code: string,
     language: string,
     testCases: TestCase[],
-    options: { timeoutMs: number; memoryLimitMB: number }
+    options: { timeoutMs: number; memoryLimitMB: number; backend: ExecutionBackend }
   ): Promise<EvaluationResult[]> {
     const results: EvaluationResult[] = [];
 
@@ -101,19 +118,29 @@ export class ChallengeEvaluator {
       const testCase = testCases[i];
       
       try {
-        const startTime = Date.now();
-        
-        // Execute the code with the test case input
-        const result = await this.executeCode(code, language, testCase.input, options);
+        // Execute the code with the test case input in the sandbox
+        const result = await options.backend.execute({
+          code,
+          language,
+          input: testCase.input,
+          invocation: testCase.args
+            ? { functionName: testCase.functionName || 'solution', args: testCase.args }
+            : undefined,
+          timeoutMs: options.timeoutMs,
+          memoryLimitMB: options.memoryLimitMB
+        });
         
-        const executionTime = Date.now() - startTime;
-        const passed = this.compareOutputs(result.output, testCase.expectedOutput);
+        const passed = !result.error &&
+          OutputComparator.compare(result.output, testCase.expectedOutput, OutputComparator.resolveComparison(testCase));
         
         results.push({
           testCaseId: `test_${i}`,
           passed,
           actualOutput: result.output,
-          executionTime,
+          executionTime: result.executionTime,
+          memoryUsed: result.memoryUsed,
+          stdout: result.stdout,
+          stderr: result.stderr,
           errorMessage: result.error,
           score: passed ? testCase.weight * 100 : 0
         });
@@ -132,112 +159,6 @@ export class ChallengeEvaluator {
     return results;
   }
 
-  /**
-   * Executes code in a sandboxed environment (mock implementation)
-   */
-  private static async executeCode(
-    code: string,
-    language: string,
-    input: string,
-    options: { timeoutMs: number; memoryLimitMB: number }
-  ): Promise<{ output: string; error?: string }> {
-    // This is a mock implementation. In a real system, this would:
-    // 1. Use a secure sandbox environment (Docker, VM, etc.)
-    // 2. Support multiple programming languages
-    // 3. Enforce time and memory limits
-    // 4. Capture stdout/stderr
-    
-    try {
-      // For JavaScript/TypeScript, we can use a simple eval approach for demo
-      if (language === 'javascript' || language === 'typescript') {
-        return await this.executeJavaScript(code, input, options);
-      }
-      
-      // For other languages, return a mock result
-      return {
-        output: 'Mock output for ' + language,
-        error: undefined
-      };
-    } catch (error) {
-      return {
-        output: '',
-        error: error instanceof Error ? error.message : 'Execution failed'
-      };
-    }
-  }
-
-  /**
-   * Executes JavaScript code (simplified for demo purposes)
-   */
-  private static async executeJavaScript(
-    code: string,
-    input: string,
-    options: { timeoutMs: number }
-  ): Promise<{ output: string; error?: string }> {
-    return new Promise((resolve) => {
-      const timeout = setTimeout(() => {
-        resolve({
-          output: '',
-          error: 'Execution timeout'
-        });
-      }, options.timeoutMs);
-
-      try {
-        // Create a safe execution context
-        const safeCode = this.createSafeJavaScriptContext(code, input);
-        
-        // Execute with eval (in a real system, use a proper sandbox)
-        const result = eval(safeCode);
-        
-        clearTimeout(timeout);
-        resolve({
-          output: String(result),
-          error: undefined
-        });
-      } catch (error) {
-        clearTimeout(timeout);
-        resolve({
-          output: '',
-          error: error instanceof Error ? error.message : 'Runtime error'
-        });
-      }
-    });
-  }
-
-  /**
-   * Creates a safe JavaScript execution context
-   */
-  private static createSafeJavaScriptContext(code: string, input: string): string {
-    // This is a simplified approach. A real implementation would use a proper sandbox.
-    return `
-      (function() {
-        const input = ${JSON.stringify(input)};
-        ${code}
-        
-        // Try to find and execute the main function
-        if (typeof solution === 'function') {
-          return solution(input);
-        } else if (typeof main === 'function') {
-          return main(input);
-        } else {
-          // Try to execute the code directly
-          return eval(input);
-        }
-      })()
-    `;
-  }
-
-  /**
-   * Compares actual output with expected output
-   */
-  private static compareOutputs(actual: string, expected: string): boolean {
-    // Normalize whitespace and compare
-    const normalizeOutput = (output: string) => 
-      output.trim().replace(/\s+/g, ' ').toLowerCase();
-    
-    return normalizeOutput(actual) === normalizeOutput(expected);
-  }
-
   /**
    * Calculates scores for each evaluation criteria
    */
@@ -589,7 +510,7 @@ export class ChallengeEvaluator {
     return {
       totalTime,
       averageTime,
-      memoryUsed: 0, // Would be calculated in a real sandbox environment
+      memoryUsed: Math.max(0, ...testResults.map(result => result.memoryUsed || 0)), // Peak across test cases, in MB
     };
   }
 }
\ No newline at end of file
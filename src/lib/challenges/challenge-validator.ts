@@ -1,6 +1,7 @@
 // Challenge Content Validation System
 
 import type { Challenge, TestCase, EvaluationCriteria } from '@/types/analytics';
+import { OutputComparator, OUTPUT_COMPARISON_MODES } from './output-comparison';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -205,7 +206,9 @@ export class ChallengeValidator {
 
     // Validate individual test cases
     testCases.forEach((testCase, index) => {
-      if (!testCase.input && testCase.input !== '') {
+      if (testCase.args !== undefined) {
+        this.validateFunctionCallInput(testCase, index, errors);
+      } else if (!testCase.input && testCase.input !== '') {
         errors.push(`Test case ${index + 1} is missing input`);
       }
 
@@ -216,11 +219,16 @@ export class ChallengeValidator {
       if (testCase.weight < 0 || testCase.weight > 1) {
         warnings.push(`Test case ${index + 1} weight should be between 0 and 1`);
       }
+
+      this.validateComparison(testCase, index, errors, warnings);
     });
 
     // Check for edge cases
-    const hasEmptyInput = testCases.some(tc => tc.input === '' || tc.input === '[]' || tc.input === '{}');
-    const hasLargeInput = testCases.some(tc => tc.input.length > 100);
+    const inputs = testCases.map(tc => this.describeInput(tc));
+    const hasEmptyInput = testCases.some(tc =>
+      tc.args ? tc.args.length === 0 || tc.args.some(arg => this.isEmptyValue(arg)) : ['', '[]', '{}'].includes(tc.input)
+    );
+    const hasLargeInput = inputs.some(input => input.length > 100);
     
     if (!hasEmptyInput) {
       suggestions.push('Consider adding edge cases with empty or minimal input');
@@ -231,12 +239,88 @@ export class ChallengeValidator {
     }
 
     // Check test case diversity
-    const uniqueInputs = new Set(testCases.map(tc => tc.input));
+    const uniqueInputs = new Set(inputs);
     if (uniqueInputs.size < testCases.length * 0.8) {
       warnings.push('Test cases should have diverse inputs to thoroughly test the solution');
     }
   }
 
+  /**
+   * Validates function-call style test case inputs
+   */
+  private static validateFunctionCallInput(
+    testCase: TestCase,
+    index: number,
+    errors: string[]
+  ): void {
+    if (!Array.isArray(testCase.args)) {
+      errors.push(`Test case ${index + 1} args must be an array`);
+      return;
+    }
+
+    try {
+      JSON.stringify(testCase.args);
+    } catch {
+      errors.push(`Test case ${index + 1} args must be JSON-serializable`);
+    }
+
+    if (testCase.functionName !== undefined && !/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(testCase.functionName)) {
+      errors.push(`Test case ${index + 1} function name "${testCase.functionName}" is not a valid identifier`);
+    }
+  }
+
+  /**
+   * Validates the output comparison declared by a test case
+   */
+  private static validateComparison(
+    testCase: TestCase,
+    index: number,
+    errors: string[],
+    warnings: string[]
+  ): void {
+    const comparison = OutputComparator.resolveComparison(testCase);
+    const label = `Test case ${index + 1}`;
+
+    if (!OUTPUT_COMPARISON_MODES.includes(comparison.mode)) {
+      errors.push(`${label} has unknown comparison mode "${comparison.mode}"`);
+      return;
+    }
+
+    switch (comparison.mode) {
+      case 'numeric':
+        if ((comparison.absoluteTolerance ?? 0) < 0 || (comparison.relativeTolerance ?? 0) < 0) {
+          errors.push(`${label} numeric tolerances must not be negative`);
+        }
+        if (!/\d/.test(testCase.expectedOutput)) {
+          errors.push(`${label} expected output contains no numbers for numeric comparison`);
+        }
+        break;
+      case 'json':
+        if (OutputComparator.tryParseJson(testCase.expectedOutput) === undefined) {
+          errors.push(`${label} expected output is not valid JSON`);
+        }
+        break;
+      case 'regex':
+        try {
+          new RegExp(testCase.expectedOutput, comparison.regexFlags);
+        } catch {
+          errors.push(`${label} expected output is not a valid regular expression`);
+        }
+        break;
+      case 'custom':
+        if (!comparison.checker) {
+          errors.push(`${label} uses custom comparison without naming a checker`);
+        } else if (!OutputComparator.hasChecker(comparison.checker)) {
+          warnings.push(`${label} checker "${comparison.checker}" is not registered`);
+        }
+        break;
+    }
+
+    if (testCase.args !== undefined && comparison.mode === 'normalized') {
+      warnings.push(`${label} returns JSON from a function call; consider "json" comparison`);
+    }
+  }
+
   /**
    * Validates evaluation criteria
    */
@@ -379,6 +463,16 @@ export class ChallengeValidator {
 
   // Helper methods
 
+  private static describeInput(testCase: TestCase): string {
+    return testCase.args !== undefined ? JSON.stringify(testCase.args) ?? '' : testCase.input;
+  }
+
+  private static isEmptyValue(value: unknown): boolean {
+    if (value === '' || value === null) return true;
+    if (Array.isArray(value)) return value.length === 0;
+    return typeof value === 'object' && Object.keys(value as object).length === 0;
+  }
+
   private static hasActionVerbs(text: string): boolean {
     const actionVerbs = ['implement', 'create', 'build', 'write', 'develop', 'solve', 'design', 'optimize'];
     return actionVerbs.some(verb => text.toLowerCase().includes(verb));
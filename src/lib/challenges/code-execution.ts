@@ -0,0 +1,578 @@
+// Sandboxed Code Execution Backends
+
+import { spawn } from 'child_process';
+import { existsSync, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+export interface ExecutionLimits {
+  timeoutMs: number;
+  memoryLimitMB: number;
+}
+
+export interface FunctionInvocation {
+  functionName: string;
+  args: unknown[];
+}
+
+export interface ExecutionRequest extends ExecutionLimits {
+  code: string;
+  language: string;
+  input: string;
+  // Function-call style input. Interpreted runtimes call the function directly and
+  // report its JSON-encoded return value; compiled runtimes receive each argument
+  // as one JSON line on stdin.
+  invocation?: FunctionInvocation;
+}
+
+export interface ExecutionResult {
+  output: string;
+  stdout: string;
+  stderr: string;
+  error?: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  memoryExceeded: boolean;
+  executionTime: number; // in milliseconds, excluding compilation
+  memoryUsed: number; // peak resident memory in MB (0 when unavailable)
+}
+
+/**
+ * A backend capable of running untrusted submissions in isolation
+ */
+export interface ExecutionBackend {
+  readonly name: string;
+  supportsLanguage(language: string): boolean;
+  execute(request: ExecutionRequest): Promise<ExecutionResult>;
+}
+
+export interface CommandSpec {
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+}
+
+/**
+ * Describes how to build and run a single language inside a work directory
+ */
+export interface LanguageRuntime {
+  fileName: string;
+  prepareSource(code: string, request: ExecutionRequest): string | Promise<string>;
+  compile?(workDir: string, sourcePath: string): CommandSpec;
+  run(workDir: string, sourcePath: string, limits: ExecutionLimits): CommandSpec;
+}
+
+/**
+ * Confines a run command to its work directory, with no network access
+ */
+export interface ProcessSandbox {
+  readonly name: string;
+  isAvailable(): boolean;
+  wrap(spec: CommandSpec, workDir: string): CommandSpec;
+}
+
+const COMPILE_TIMEOUT_MS = 30000;
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+const MEMORY_POLL_INTERVAL_MS = 10;
+
+const LANGUAGE_ALIASES: { [alias: string]: string } = {
+  js: 'javascript',
+  node: 'javascript',
+  ts: 'typescript',
+  py: 'python',
+  python3: 'python',
+  golang: 'go',
+  'c++': 'cpp',
+};
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// Interpreted harnesses call `solution(input)` or `main(input)` when defined and
+// report the return value (plus their own peak RSS) as JSON on file descriptor 3,
+// keeping it separate from anything the submission prints to stdout. The harness
+// reads the test input from INPUT_FILE so stdin reaches the submission untouched,
+// and every name it defines carries the __kiro prefix so it cannot clash with user code.
+// Results that are not strings are JSON-encoded.
+const INPUT_FILE = '.kiro-input';
+
+const JAVASCRIPT_HARNESS = (code: string, invocation?: FunctionInvocation) => `
+const __kiroFs = require('fs');
+const __kiroInputPath = require('path').join(__dirname, ${JSON.stringify(INPUT_FILE)});
+const __kiroSerialize = (value) => typeof value === 'string' ? value : (JSON.stringify(value) ?? 'null');
+${code}
+;(async () => {
+  let __kiroHasResult = false;
+  let __kiroResult;
+  ${invocation ? `if (typeof ${invocation.functionName} !== 'function') {
+    throw new Error(${JSON.stringify(`Function ${invocation.functionName} is not defined`)});
+  }
+  __kiroHasResult = true;
+  __kiroResult = JSON.stringify((await ${invocation.functionName}(...${JSON.stringify(invocation.args)})) ?? null);` : `if (typeof solution === 'function') {
+    __kiroHasResult = true;
+    __kiroResult = __kiroSerialize(await solution(__kiroFs.readFileSync(__kiroInputPath, 'utf8')));
+  } else if (typeof main === 'function') {
+    __kiroHasResult = true;
+    __kiroResult = __kiroSerialize(await main(__kiroFs.readFileSync(__kiroInputPath, 'utf8')));
+  }`}
+  __kiroFs.writeSync(3, JSON.stringify({
+    hasResult: __kiroHasResult,
+    result: __kiroHasResult ? __kiroResult : '',
+    maxRssKb: process.resourceUsage().maxRSS
+  }));
+})().catch((error) => {
+  console.error(error && error.stack ? error.stack : String(error));
+  process.exit(1);
+});
+`;
+
+const PYTHON_HARNESS = (code: string, memoryLimitMB: number, invocation?: FunctionInvocation) => `
+import builtins as __kiro_builtins, json as __kiro_json, os as __kiro_os, sys as __kiro_sys
+try:
+    import resource as __kiro_resource
+    __kiro_limit = ${memoryLimitMB} * 1024 * 1024
+    __kiro_resource.setrlimit(__kiro_resource.RLIMIT_AS, (__kiro_limit, __kiro_limit))
+except (ImportError, ValueError, OSError):
+    __kiro_resource = None
+__kiro_input_path = __kiro_os.path.join(__kiro_os.path.dirname(__kiro_os.path.abspath(__file__)), ${JSON.stringify(INPUT_FILE)})
+def __kiro_input():
+    with __kiro_builtins.open(__kiro_input_path, encoding='utf-8') as __kiro_file:
+        return __kiro_file.read()
+def __kiro_serialize(value):
+    return value if isinstance(value, str) else __kiro_json.dumps(value, separators=(',', ':'), default=str)
+${code}
+__kiro_has_result = False
+__kiro_result = None
+${invocation ? `__kiro_target = globals().get(${JSON.stringify(invocation.functionName)})
+if not callable(__kiro_target):
+    raise NameError(${JSON.stringify(`Function ${invocation.functionName} is not defined`)})
+__kiro_has_result = True
+__kiro_result = __kiro_json.dumps(__kiro_target(*__kiro_json.loads(${JSON.stringify(JSON.stringify(invocation.args))})), separators=(',', ':'))` : `if callable(globals().get('solution')):
+    __kiro_has_result, __kiro_result = True, __kiro_serialize(solution(__kiro_input()))
+elif callable(globals().get('main')):
+    __kiro_has_result, __kiro_result = True, __kiro_serialize(main(__kiro_input()))`}
+__kiro_sys.stdout.flush()
+__kiro_os.write(3, __kiro_json.dumps({
+    'hasResult': __kiro_has_result,
+    'result': __kiro_result if __kiro_has_result else '',
+    'maxRssKb': __kiro_resource.getrusage(__kiro_resource.RUSAGE_SELF).ru_maxrss if __kiro_resource else 0,
+}).encode())
+`;
+
+async function transpileTypeScript(code: string): Promise<string> {
+  const ts = await import('typescript');
+  return ts.transpileModule(code, {
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+    },
+  }).outputText;
+}
+
+export const DEFAULT_LANGUAGE_RUNTIMES: { [language: string]: LanguageRuntime } = {
+  javascript: {
+    fileName: 'main.js',
+    prepareSource: (code, request) => JAVASCRIPT_HARNESS(code, request.invocation),
+    run: (_workDir, sourcePath, limits) => ({
+      command: process.execPath,
+      args: [`--max-old-space-size=${limits.memoryLimitMB}`, sourcePath],
+    }),
+  },
+  typescript: {
+    fileName: 'main.js',
+    prepareSource: async (code, request) => JAVASCRIPT_HARNESS(await transpileTypeScript(code), request.invocation),
+    run: (_workDir, sourcePath, limits) => ({
+      command: process.execPath,
+      args: [`--max-old-space-size=${limits.memoryLimitMB}`, sourcePath],
+    }),
+  },
+  python: {
+    fileName: 'main.py',
+    prepareSource: (code, request) => PYTHON_HARNESS(code, request.memoryLimitMB, request.invocation),
+    run: (_workDir, sourcePath) => ({
+      command: 'python3',
+      args: ['-u', sourcePath],
+      env: { PYTHONDONTWRITEBYTECODE: '1' },
+    }),
+  },
+  go: {
+    fileName: 'main.go',
+    prepareSource: (code) => code,
+    compile: (workDir, sourcePath) => ({
+      command: 'go',
+      args: ['build', '-o', path.join(workDir, 'main'), sourcePath],
+      env: {
+        // The work directory is the only writable location inside the sandbox
+        GOCACHE: path.join(workDir, '.gocache'),
+        GOPATH: path.join(workDir, '.gopath'),
+        GO111MODULE: 'off',
+      },
+    }),
+    run: (workDir, _sourcePath, limits) => ({
+      command: path.join(workDir, 'main'),
+      args: [],
+      env: { GOMEMLIMIT: `${limits.memoryLimitMB}MiB` },
+    }),
+  },
+  java: {
+    fileName: 'Main.java',
+    prepareSource: (code) => code,
+    compile: (workDir, sourcePath) => ({
+      command: 'javac',
+      args: ['-d', workDir, sourcePath],
+    }),
+    run: (workDir, _sourcePath, limits) => ({
+      command: 'java',
+      args: [`-Xmx${limits.memoryLimitMB}m`, '-XX:+UseSerialGC', '-cp', workDir, 'Main'],
+    }),
+  },
+  cpp: {
+    fileName: 'main.cpp',
+    prepareSource: (code) => code,
+    compile: (workDir, sourcePath) => ({
+      command: 'g++',
+      args: ['-O2', '-std=c++17', '-o', path.join(workDir, 'main'), sourcePath],
+    }),
+    run: (workDir) => ({
+      command: path.join(workDir, 'main'),
+      args: [],
+    }),
+  },
+};
+
+// System locations runtimes need, mounted read-only inside the sandbox when present
+const SANDBOX_READ_ONLY_PATHS = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64', '/etc/alternatives', '/etc/ld.so.cache'];
+
+/**
+ * Runs commands under bubblewrap in fresh user, PID, IPC and network namespaces. The
+ * submission sees read-only system directories, the runtime's own install prefix, an
+ * empty /tmp and its work directory, which is the only writable location.
+ */
+export class BubblewrapSandbox implements ProcessSandbox {
+  readonly name = 'bubblewrap';
+
+  constructor(
+    private readonly executable = 'bwrap',
+    private readonly readOnlyPaths: string[] = SANDBOX_READ_ONLY_PATHS
+  ) {}
+
+  isAvailable(): boolean {
+    if (path.isAbsolute(this.executable)) return existsSync(this.executable);
+    return (process.env.PATH || '')
+      .split(path.delimiter)
+      .some(dir => dir && existsSync(path.join(dir, this.executable)));
+  }
+
+  wrap(spec: CommandSpec, workDir: string): CommandSpec {
+    const readOnly = [...this.readOnlyPaths];
+    // Runtimes installed outside the system directories (nvm's node, for example)
+    if (path.isAbsolute(spec.command) && !spec.command.startsWith(workDir + path.sep)) {
+      const prefix = path.dirname(path.dirname(spec.command));
+      if (!readOnly.some(dir => prefix === dir || prefix.startsWith(dir + path.sep))) {
+        readOnly.push(prefix);
+      }
+    }
+
+    return {
+      command: this.executable,
+      args: [
+        '--unshare-all',
+        '--die-with-parent',
+        '--new-session',
+        '--proc', '/proc',
+        '--dev', '/dev',
+        '--tmpfs', '/tmp',
+        ...readOnly.filter(dir => existsSync(dir)).flatMap(dir => ['--ro-bind', dir, dir]),
+        '--bind', workDir, workDir,
+        '--chdir', workDir,
+        '--',
+        spec.command,
+        ...spec.args,
+      ],
+      env: spec.env,
+    };
+  }
+}
+
+/**
+ * The sandbox for new backends: bubblewrap, unless CODE_EXECUTION_SANDBOX=none turns
+ * isolation off for local development and tests
+ */
+export function defaultSandbox(): ProcessSandbox | null {
+  return process.env.CODE_EXECUTION_SANDBOX === 'none' ? null : new BubblewrapSandbox();
+}
+
+interface ProcessOutcome {
+  stdout: string;
+  stderr: string;
+  resultChannel: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  memoryExceeded: boolean;
+  executionTime: number;
+  peakMemoryKb: number;
+  spawnError?: string;
+}
+
+/**
+ * Runs each submission in a fresh child process inside a throwaway work directory,
+ * enforcing wall-clock and resident-memory limits. Submissions are compiled and run inside
+ * the sandbox, with a minimal environment; when it is not available they are refused
+ * rather than run unconfined.
+ */
+export class ProcessExecutionBackend implements ExecutionBackend {
+  readonly name = 'process';
+  private runtimes: { [language: string]: LanguageRuntime };
+  private sandbox: ProcessSandbox | null;
+
+  constructor(
+    runtimes: { [language: string]: LanguageRuntime } = DEFAULT_LANGUAGE_RUNTIMES,
+    sandbox: ProcessSandbox | null = defaultSandbox()
+  ) {
+    this.runtimes = { ...runtimes };
+    this.sandbox = sandbox;
+  }
+
+  /**
+   * Registers or replaces the runtime used for a language
+   */
+  registerRuntime(language: string, runtime: LanguageRuntime): void {
+    this.runtimes[normalizeLanguage(language)] = runtime;
+  }
+
+  supportsLanguage(language: string): boolean {
+    return normalizeLanguage(language) in this.runtimes;
+  }
+
+  async execute(request: ExecutionRequest): Promise<ExecutionResult> {
+    const language = normalizeLanguage(request.language);
+    const runtime = this.runtimes[language];
+
+    if (!runtime) {
+      return createFailedResult(`Unsupported language: ${request.language}`);
+    }
+
+    if (request.invocation && !IDENTIFIER_PATTERN.test(request.invocation.functionName)) {
+      return createFailedResult(`Invalid function name: ${request.invocation.functionName}`);
+    }
+
+    if (this.sandbox && !this.sandbox.isAvailable()) {
+      return createFailedResult(`Execution sandbox unavailable: ${this.sandbox.name} is not installed`);
+    }
+
+    const limits: ExecutionLimits = {
+      timeoutMs: request.timeoutMs,
+      memoryLimitMB: request.memoryLimitMB,
+    };
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kiro-exec-'));
+
+    try {
+      const sourcePath = path.join(workDir, runtime.fileName);
+      await fs.writeFile(sourcePath, await runtime.prepareSource(request.code, request), 'utf8');
+      await fs.writeFile(path.join(workDir, INPUT_FILE), request.input, 'utf8');
+
+      if (runtime.compile) {
+        const compileSpec = runtime.compile(workDir, sourcePath);
+        const compileOutcome = await runProcess(
+          this.sandbox ? this.sandbox.wrap(compileSpec, workDir) : compileSpec,
+          workDir,
+          '',
+          { timeoutMs: COMPILE_TIMEOUT_MS, memoryLimitMB: 0 }
+        );
+
+        if (compileOutcome.spawnError || compileOutcome.timedOut || compileOutcome.exitCode !== 0) {
+          return createFailedResult(
+            `Compilation failed: ${compileOutcome.spawnError || compileOutcome.stderr.trim() || 'compiler timed out'}`,
+            compileOutcome.stderr
+          );
+        }
+      }
+
+      const stdin = request.invocation && runtime.compile
+        ? request.invocation.args.map(arg => JSON.stringify(arg)).join('\n') + '\n'
+        : request.input;
+      const runSpec = runtime.run(workDir, sourcePath, limits);
+      const outcome = await runProcess(
+        this.sandbox ? this.sandbox.wrap(runSpec, workDir) : runSpec,
+        workDir,
+        stdin,
+        limits
+      );
+
+      return this.toExecutionResult(outcome, limits);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  private toExecutionResult(outcome: ProcessOutcome, limits: ExecutionLimits): ExecutionResult {
+    let output = outcome.stdout;
+    let peakMemoryKb = outcome.peakMemoryKb;
+
+    if (outcome.resultChannel) {
+      try {
+        const report = JSON.parse(outcome.resultChannel) as {
+          hasResult: boolean;
+          result: string;
+          maxRssKb: number;
+        };
+        if (report.hasResult) {
+          output = report.result;
+        }
+        peakMemoryKb = Math.max(peakMemoryKb, report.maxRssKb || 0);
+      } catch {
+        // A malformed report means the submission wrote to fd 3 itself; fall back to stdout
+      }
+    }
+
+    let error: string | undefined;
+    if (outcome.spawnError) {
+      error = outcome.spawnError;
+    } else if (outcome.timedOut) {
+      error = `Execution timeout after ${limits.timeoutMs}ms`;
+    } else if (outcome.memoryExceeded) {
+      error = `Memory limit exceeded (${limits.memoryLimitMB}MB)`;
+    } else if (outcome.exitCode !== 0) {
+      error = outcome.stderr.trim() || `Process exited with code ${outcome.exitCode}`;
+    }
+
+    return {
+      output: error ? '' : output,
+      stdout: outcome.stdout,
+      stderr: outcome.stderr,
+      error,
+      exitCode: outcome.exitCode,
+      timedOut: outcome.timedOut,
+      memoryExceeded: outcome.memoryExceeded,
+      executionTime: outcome.executionTime,
+      memoryUsed: Math.round((peakMemoryKb / 1024) * 100) / 100,
+    };
+  }
+}
+
+function normalizeLanguage(language: string): string {
+  const normalized = language.trim().toLowerCase();
+  return LANGUAGE_ALIASES[normalized] || normalized;
+}
+
+function createFailedResult(error: string, stderr = ''): ExecutionResult {
+  return {
+    output: '',
+    stdout: '',
+    stderr,
+    error,
+    exitCode: null,
+    timedOut: false,
+    memoryExceeded: false,
+    executionTime: 0,
+    memoryUsed: 0,
+  };
+}
+
+/**
+ * Reads the resident set size of a live process and its descendants from procfs (Linux
+ * only); sandboxed submissions run as children of the sandbox process
+ */
+async function readResidentMemoryKb(pid: number): Promise<number | null> {
+  try {
+    const status = await fs.readFile(`/proc/${pid}/status`, 'utf8');
+    const match = status.match(/^VmRSS:\s+(\d+)\s+kB/m);
+    const children = await fs.readFile(`/proc/${pid}/task/${pid}/children`, 'utf8').catch(() => '');
+    const childMemory = await Promise.all(
+      children.split(/\s+/).filter(Boolean).map(child => readResidentMemoryKb(parseInt(child, 10)))
+    );
+    return (match ? parseInt(match[1], 10) : 0) + childMemory.reduce<number>((sum, kb) => sum + (kb ?? 0), 0);
+  } catch {
+    return null;
+  }
+}
+
+function runProcess(
+  spec: CommandSpec,
+  workDir: string,
+  stdin: string,
+  limits: ExecutionLimits
+): Promise<ProcessOutcome> {
+  return new Promise((resolve) => {
+    // Compilers and submissions never see the server's own environment
+    const baseEnv: NodeJS.ProcessEnv = {
+      NODE_ENV: process.env.NODE_ENV,
+      PATH: process.env.PATH,
+      HOME: workDir,
+      TMPDIR: workDir,
+      LANG: 'C.UTF-8',
+    };
+
+    const startTime = process.hrtime.bigint();
+    const child = spawn(spec.command, spec.args, {
+      cwd: workDir,
+      env: { ...baseEnv, ...spec.env },
+      stdio: ['pipe', 'pipe', 'pipe', 'pipe'],
+    });
+
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    const resultChannel: Buffer[] = [];
+    let outputBytes = 0;
+    let timedOut = false;
+    let memoryExceeded = false;
+    let peakMemoryKb = 0;
+    let settled = false;
+
+    const collect = (target: Buffer[]) => (chunk: Buffer) => {
+      outputBytes += chunk.length;
+      if (outputBytes > MAX_OUTPUT_BYTES) {
+        child.kill('SIGKILL');
+        return;
+      }
+      target.push(chunk);
+    };
+
+    child.stdout?.on('data', collect(stdout));
+    child.stderr?.on('data', collect(stderr));
+    (child.stdio[3] as NodeJS.ReadableStream | null)?.on('data', collect(resultChannel));
+
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, limits.timeoutMs);
+
+    const memoryPoll = limits.memoryLimitMB > 0 && child.pid
+      ? setInterval(async () => {
+          const rssKb = await readResidentMemoryKb(child.pid!);
+          if (rssKb === null) return;
+          peakMemoryKb = Math.max(peakMemoryKb, rssKb);
+          if (rssKb > limits.memoryLimitMB * 1024) {
+            memoryExceeded = true;
+            child.kill('SIGKILL');
+          }
+        }, MEMORY_POLL_INTERVAL_MS)
+      : null;
+
+    const finish = (exitCode: number | null, spawnError?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      if (memoryPoll) clearInterval(memoryPoll);
+
+      const stderrText = Buffer.concat(stderr).toString('utf8');
+      resolve({
+        stdout: Buffer.concat(stdout).toString('utf8'),
+        stderr: stderrText,
+        resultChannel: Buffer.concat(resultChannel).toString('utf8'),
+        exitCode,
+        timedOut,
+        // Runtimes that enforce their own heap limit exit with an out-of-memory error instead
+        memoryExceeded: memoryExceeded || /MemoryError|heap out of memory|OutOfMemoryError/.test(stderrText),
+        executionTime: Number(process.hrtime.bigint() - startTime) / 1e6,
+        peakMemoryKb,
+        spawnError,
+      });
+    };
+
+    child.on('error', (error) => finish(null, `Failed to start ${spec.command}: ${error.message}`));
+    child.on('close', (code) => finish(code));
+
+    child.stdin?.on('error', () => undefined);
+    child.stdin?.end(stdin);
+  });
+}
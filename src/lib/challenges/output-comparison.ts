@@ -0,0 +1,172 @@
+// Test Case Output Comparison
+
+import type { OutputComparison, OutputComparisonMode, TestCase } from '@/types/analytics';
+
+export type OutputChecker = (actual: string, expected: string, comparison: OutputComparison) => boolean;
+
+export const OUTPUT_COMPARISON_MODES: OutputComparisonMode[] = [
+  'exact',
+  'normalized',
+  'numeric',
+  'json',
+  'unordered',
+  'regex',
+  'custom'
+];
+
+const DEFAULT_ABSOLUTE_TOLERANCE = 1e-6;
+const NUMBER_PATTERN = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+
+export class OutputComparator {
+  private static checkers = new Map<string, OutputChecker>();
+
+  /**
+   * Registers a named checker for test cases using the `custom` comparison mode
+   */
+  static registerChecker(name: string, checker: OutputChecker): void {
+    this.checkers.set(name, checker);
+  }
+
+  static unregisterChecker(name: string): void {
+    this.checkers.delete(name);
+  }
+
+  static hasChecker(name: string): boolean {
+    return this.checkers.has(name);
+  }
+
+  /**
+   * Resolves the comparison a test case is graded with. Function-call results are
+   * JSON-encoded, so they default to deep-equal comparison.
+   */
+  static resolveComparison(testCase: Pick<TestCase, 'args' | 'comparison'>): OutputComparison {
+    if (testCase.comparison) return testCase.comparison;
+    return testCase.args !== undefined ? { mode: 'json' } : { mode: 'normalized' };
+  }
+
+  /**
+   * Compares actual output with expected output using the test case's comparison mode
+   */
+  static compare(
+    actual: string,
+    expected: string,
+    comparison: OutputComparison = { mode: 'normalized' }
+  ): boolean {
+    switch (comparison.mode) {
+      case 'exact':
+        return this.stripTrailingNewline(actual) === this.stripTrailingNewline(expected);
+      case 'normalized':
+        return this.normalize(actual, comparison.caseSensitive) === this.normalize(expected, comparison.caseSensitive);
+      case 'numeric':
+        return this.compareNumeric(actual, expected, comparison);
+      case 'json':
+        return this.compareJson(actual, expected);
+      case 'unordered':
+        return this.compareUnordered(actual, expected);
+      case 'regex':
+        return this.compareRegex(actual, expected, comparison.regexFlags);
+      case 'custom': {
+        const checker = comparison.checker ? this.checkers.get(comparison.checker) : undefined;
+        if (!checker) return false;
+        try {
+          return checker(actual, expected, comparison);
+        } catch {
+          return false;
+        }
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Parses a value as JSON, returning undefined when it is not valid JSON
+   */
+  static tryParseJson(value: string): unknown {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static stripTrailingNewline(output: string): string {
+    return output.replace(/\r\n/g, '\n').replace(/\n+$/, '');
+  }
+
+  private static normalize(output: string, caseSensitive = false): string {
+    const collapsed = output.trim().replace(/\s+/g, ' ');
+    return caseSensitive ? collapsed : collapsed.toLowerCase();
+  }
+
+  private static compareNumeric(actual: string, expected: string, comparison: OutputComparison): boolean {
+    const actualNumbers = (actual.match(NUMBER_PATTERN) || []).map(Number);
+    const expectedNumbers = (expected.match(NUMBER_PATTERN) || []).map(Number);
+
+    if (expectedNumbers.length === 0 || actualNumbers.length !== expectedNumbers.length) {
+      return false;
+    }
+
+    const absoluteTolerance = comparison.absoluteTolerance ?? DEFAULT_ABSOLUTE_TOLERANCE;
+    const relativeTolerance = comparison.relativeTolerance ?? 0;
+
+    return expectedNumbers.every((expectedValue, index) => {
+      const difference = Math.abs(actualNumbers[index] - expectedValue);
+      return difference <= absoluteTolerance || difference <= relativeTolerance * Math.abs(expectedValue);
+    });
+  }
+
+  private static compareJson(actual: string, expected: string): boolean {
+    const actualValue = this.tryParseJson(actual.trim());
+    const expectedValue = this.tryParseJson(expected.trim());
+
+    if (actualValue === undefined || expectedValue === undefined) {
+      return false;
+    }
+
+    return this.canonicalize(actualValue) === this.canonicalize(expectedValue);
+  }
+
+  /**
+   * Treats both outputs as multisets: JSON arrays by element, otherwise by whitespace-separated token
+   */
+  private static compareUnordered(actual: string, expected: string): boolean {
+    const actualValue = this.tryParseJson(actual.trim());
+    const expectedValue = this.tryParseJson(expected.trim());
+
+    const toItems = (value: unknown, raw: string): string[] =>
+      Array.isArray(value)
+        ? value.map(item => this.canonicalize(item))
+        : raw.trim().split(/\s+/).filter(token => token.length > 0);
+
+    const actualItems = toItems(actualValue, actual).sort();
+    const expectedItems = toItems(expectedValue, expected).sort();
+
+    return actualItems.length === expectedItems.length &&
+      actualItems.every((item, index) => item === expectedItems[index]);
+  }
+
+  private static compareRegex(actual: string, pattern: string, flags = ''): boolean {
+    try {
+      return new RegExp(`^(?:${pattern})$`, flags).test(actual.trim());
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Serializes a JSON value with sorted object keys so deep-equal values stringify identically
+   */
+  private static canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.canonicalize(item)).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+      const entries = Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${this.canonicalize((value as Record<string, unknown>)[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+}
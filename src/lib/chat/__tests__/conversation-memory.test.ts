@@ -0,0 +1,103 @@
+/**
+ * Unit tests for mentor chat history windowing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationMemory } from '../conversation-memory';
+import { ChatThread, ChatTurn } from '@/types/chat';
+
+const turn = (index: number, role: ChatTurn['role'], content: string): ChatTurn => ({
+  turnId: `turn-${index}`,
+  role,
+  content,
+  createdAt: new Date(2024, 0, 1, 0, index),
+});
+
+// Alternating user/assistant turns of `size` characters each
+const buildThread = (exchanges: number, size: number, overrides: Partial<ChatThread> = {}): ChatThread => ({
+  threadId: 'thread-1',
+  userId: 'user-1',
+  title: 'Recursion',
+  codeSnapshotId: 'abc',
+  codeSnapshot: 'function f() {}',
+  turns: Array.from({ length: exchanges * 2 }, (_, index) =>
+    turn(index, index % 2 === 0 ? 'user' : 'assistant', `${index}`.padEnd(size, '.'))
+  ),
+  summarizedTurnCount: 0,
+  createdAt: new Date(2024, 0, 1),
+  updatedAt: new Date(2024, 0, 1),
+  ...overrides,
+});
+
+describe('ConversationMemory', () => {
+  it('should keep the whole conversation when it fits the budget', () => {
+    const context = ConversationMemory.buildContext(buildThread(2, 40), { tokenBudget: 1000 });
+
+    expect(context.history.map(entry => entry.content[0])).toEqual(['0', '1', '2', '3']);
+    expect(context.unsummarizedTurns).toEqual([]);
+    expect(context.estimatedTokens).toBe(40);
+  });
+
+  it('should window to the most recent turns and report the rest for summarization', () => {
+    const thread = buildThread(5, 400);
+
+    const context = ConversationMemory.buildContext(thread, { tokenBudget: 350 });
+
+    expect(context.history).toHaveLength(2);
+    expect(context.history[0]).toEqual({ role: 'user', content: thread.turns[8].content });
+    expect(context.unsummarizedTurns.map(entry => entry.turnId)).toEqual(
+      ['turn-0', 'turn-1', 'turn-2', 'turn-3', 'turn-4', 'turn-5', 'turn-6', 'turn-7']
+    );
+  });
+
+  it('should always include the latest exchange even if it exceeds the budget', () => {
+    const context = ConversationMemory.buildContext(buildThread(2, 4000), { tokenBudget: 100 });
+
+    expect(context.history).toHaveLength(2);
+    expect(context.estimatedTokens).toBe(2000);
+  });
+
+  it('should never start the window with an assistant turn', () => {
+    const thread = buildThread(3, 400);
+
+    // Budget fits three turns, which would start on an assistant reply
+    const context = ConversationMemory.buildContext(thread, { tokenBudget: 300 });
+
+    expect(context.history[0].role).toBe('user');
+    expect(context.history).toHaveLength(2);
+  });
+
+  it('should only report turns the summary does not cover yet', () => {
+    const thread = buildThread(5, 400, { summary: 'Discussed base cases.', summarizedTurnCount: 6 });
+
+    const context = ConversationMemory.buildContext(thread, { tokenBudget: 350 });
+
+    expect(context.summary).toBe('Discussed base cases.');
+    expect(context.unsummarizedTurns.map(entry => entry.turnId)).toEqual(['turn-6', 'turn-7']);
+  });
+
+  it('should build a fallback summary from the questions asked', () => {
+    const summary = ConversationMemory.fallbackSummary('- Asked: What is recursion?', [
+      turn(2, 'user', 'Why does my function never stop? It keeps calling itself.'),
+      turn(3, 'assistant', 'What happens when n reaches zero?'),
+    ]);
+
+    expect(summary).toBe('- Asked: What is recursion?\n- Asked: Why does my function never stop?');
+  });
+
+  it('should derive short titles from the first question', () => {
+    expect(ConversationMemory.titleFromQuery('How does memoization work? I tried a map.')).toBe('How does memoization work?');
+    expect(ConversationMemory.titleFromQuery('x'.repeat(100))).toHaveLength(60);
+    expect(ConversationMemory.titleFromQuery('   ')).toBe('New conversation');
+  });
+
+  it('should identify code snapshots regardless of trailing whitespace', async () => {
+    const original = await ConversationMemory.snapshotId('const a = 1;\nconst b = 2;\n');
+    const reformatted = await ConversationMemory.snapshotId('const a = 1;  \r\nconst b = 2;');
+    const changed = await ConversationMemory.snapshotId('const a = 2;\nconst b = 2;');
+
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(reformatted).toBe(original);
+    expect(changed).not.toBe(original);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for multi-turn mentor conversations
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MentorConversation } from '../mentor-conversation';
+import { ChatThreadService } from '@/lib/firebase/chat-threads';
+import { LearningInsightsService } from '@/lib/firebase/analytics';
+import { ChatThread } from '@/types/chat';
+
+vi.mock('@/lib/firebase/analytics', () => ({
+  LearningInsightsService: { getUserLearningInsights: vi.fn() },
+}));
+
+const existingThread = (): ChatThread => ({
+  threadId: 'thread-1',
+  userId: 'user-1',
+  title: 'Loops',
+  codeSnapshotId: 'abc',
+  codeSnapshot: 'for (;;) {}',
+  turns: [
+    { turnId: 't0', role: 'user', content: 'Why does this loop forever?'.padEnd(2000, '.'), createdAt: new Date() },
+    { turnId: 't1', role: 'assistant', content: 'What is the exit condition?'.padEnd(2000, '.'), createdAt: new Date() },
+    { turnId: 't2', role: 'user', content: 'There is none.', createdAt: new Date() },
+    { turnId: 't3', role: 'assistant', content: 'Where could you add one?', createdAt: new Date() },
+  ],
+  summarizedTurnCount: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('MentorConversation', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(LearningInsightsService.getUserLearningInsights).mockResolvedValue([
+      {
+        id: 'insight-1',
+        userId: 'user-1',
+        type: 'improvement_area',
+        category: 'Control Flow',
+        title: 'Loop termination',
+        description: 'Often forgets to update loop variables.',
+        actionableSteps: [],
+        confidenceScore: 0.8,
+        priority: 'medium',
+        isRead: false,
+        createdAt: new Date(),
+      },
+    ]);
+  });
+
+  it('should start a titled thread for a new conversation', async () => {
+    const createThread = vi.spyOn(ChatThreadService, 'createThread').mockImplementation(async options => ({
+      ...existingThread(),
+      threadId: 'thread-new',
+      title: options.title!,
+      turns: [],
+    }));
+
+    const { thread, input } = await MentorConversation.prepare({
+      userId: 'user-1',
+      code: 'for (;;) {}',
+      query: 'Why does this hang? It never returns.',
+    });
+
+    expect(createThread).toHaveBeenCalledWith(expect.objectContaining({ title: 'Why does this hang?' }));
+    expect(thread.threadId).toBe('thread-new');
+    expect(input.history).toEqual([]);
+    expect(input.priorInsights).toEqual([
+      { category: 'Control Flow', title: 'Loop termination', description: 'Often forgets to update loop variables.' },
+    ]);
+  });
+
+  it('should summarize turns that fall out of the history window', async () => {
+    vi.spyOn(ChatThreadService, 'getThread').mockResolvedValue(existingThread());
+    const saveSummary = vi.spyOn(ChatThreadService, 'saveSummary').mockResolvedValue();
+
+    const { thread, input } = await MentorConversation.prepare(
+      { userId: 'user-1', code: 'for (;;) {}', query: 'Like this?', threadId: 'thread-1' },
+      { tokenBudget: 200 }
+    );
+
+    expect(saveSummary).toHaveBeenCalledWith('thread-1', 'Sample summary', 2);
+    expect(thread.summarizedTurnCount).toBe(2);
+    expect(input.conversationSummary).toBe('Sample summary');
+    expect(input.history).toEqual([
+      { role: 'user', content: 'There is none.' },
+      { role: 'assistant', content: 'Where could you add one?' },
+    ]);
+  });
+
+  it('should persist the exchange with its analytics session once complete', async () => {
+    const appendTurns = vi.spyOn(ChatThreadService, 'appendTurns').mockResolvedValue();
+
+    const result = await MentorConversation.complete(existingThread(), 'Like this?', {
+      aiResponse: 'Exactly. What value makes it stop?',
+      analyticsSessionId: 'session-9',
+    });
+
+    expect(result.threadId).toBe('thread-1');
+    const [threadId, turns] = appendTurns.mock.calls[0];
+    expect(threadId).toBe('thread-1');
+    expect(turns.map(turn => [turn.role, turn.content, turn.analyticsSessionId])).toEqual([
+      ['user', 'Like this?', undefined],
+      ['assistant', 'Exactly. What value makes it stop?', 'session-9'],
+    ]);
+  });
+});
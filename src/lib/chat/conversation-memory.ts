@@ -0,0 +1,93 @@
+// Token-budgeted History Windowing for Mentor Conversations
+
+import { ChatThread, ChatTurn, ConversationContext } from '@/types/chat';
+
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 2000;
+
+// Always keep the last exchange, even if it alone exceeds the budget
+const MIN_RECENT_TURNS = 2;
+
+const MAX_TITLE_LENGTH = 60;
+const MAX_FALLBACK_SUMMARY_LENGTH = 1200;
+
+export interface ConversationWindowOptions {
+  tokenBudget?: number;
+}
+
+export class ConversationMemory {
+  /**
+   * Rough token count; about four characters per token for English text and code
+   */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Identifies a code snapshot independent of trailing whitespace and line endings
+   */
+  static async snapshotId(code: string): Promise<string> {
+    const normalized = code.replace(/\r\n/g, '\n').replace(/[ \t]+$/gm, '').trimEnd();
+    const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+    return Array.from(new Uint8Array(digest).slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Selects the most recent turns that fit the token budget. Older turns are
+   * represented by the thread's rolling summary; any the summary does not cover
+   * yet are returned so the caller can fold them in.
+   */
+  static buildContext(thread: ChatThread, options: ConversationWindowOptions = {}): ConversationContext {
+    const budget = options.tokenBudget ?? DEFAULT_HISTORY_TOKEN_BUDGET;
+    const summaryTokens = thread.summary ? this.estimateTokens(thread.summary) : 0;
+
+    let used = summaryTokens;
+    let windowStart = thread.turns.length;
+    while (windowStart > 0) {
+      const cost = this.estimateTokens(thread.turns[windowStart - 1].content);
+      const required = thread.turns.length - windowStart < MIN_RECENT_TURNS;
+      if (!required && used + cost > budget) break;
+
+      used += cost;
+      windowStart--;
+    }
+
+    // Start the window on a user turn so the history never opens with a dangling reply
+    if (windowStart > 0 && thread.turns[windowStart]?.role === 'assistant') {
+      used -= this.estimateTokens(thread.turns[windowStart].content);
+      windowStart++;
+    }
+
+    return {
+      history: thread.turns.slice(windowStart).map(turn => ({ role: turn.role, content: turn.content })),
+      summary: thread.summary,
+      unsummarizedTurns: thread.turns.slice(Math.min(thread.summarizedTurnCount, windowStart), windowStart),
+      estimatedTokens: used,
+    };
+  }
+
+  /**
+   * Summary used when the summarization model is unavailable: the questions the
+   * user asked, in order, appended to any earlier summary
+   */
+  static fallbackSummary(previousSummary: string | undefined, turns: ChatTurn[]): string {
+    const questions = turns
+      .filter(turn => turn.role === 'user')
+      .map(turn => `- Asked: ${this.firstSentence(turn.content)}`);
+
+    const summary = [previousSummary, ...questions].filter(Boolean).join('\n');
+    return summary.length > MAX_FALLBACK_SUMMARY_LENGTH
+      ? `…${summary.slice(summary.length - MAX_FALLBACK_SUMMARY_LENGTH + 1)}`
+      : summary;
+  }
+
+  static titleFromQuery(query: string): string {
+    const title = this.firstSentence(query);
+    return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : title || 'New conversation';
+  }
+
+  private static firstSentence(text: string): string {
+    const line = text.trim().split('\n')[0];
+    const match = line.match(/^.*?[.?!](\s|$)/);
+    return (match ? match[0] : line).trim();
+  }
+}
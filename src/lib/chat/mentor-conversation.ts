@@ -0,0 +1,117 @@
+// Multi-turn Mentor Conversations Backed by Persisted Chat Threads
+
+import type { SendChatMessageInput, SendChatMessageOutput } from '@/ai/flows/send-chat-message';
+import { summarizeConversation } from '@/ai/flows/summarize-conversation';
+import { ChatThreadService } from '@/lib/firebase/chat-threads';
+import { LearningInsightsService } from '@/lib/firebase/analytics';
+import { ChatThread, ChatTurn } from '@/types/chat';
+import { ConversationMemory, ConversationWindowOptions } from './conversation-memory';
+
+export type MentorChatResult = SendChatMessageOutput & { threadId?: string };
+
+export interface MentorTurnRequest {
+  userId: string;
+  code: string;
+  query: string;
+  // Continues an existing thread; a new one is started when omitted
+  threadId?: string;
+  enableAnalytics?: boolean;
+}
+
+export interface PreparedMentorTurn {
+  thread: ChatThread;
+  input: SendChatMessageInput;
+}
+
+const PRIOR_INSIGHT_LIMIT = 5;
+
+export class MentorConversation {
+  /**
+   * Loads or starts the thread and builds the flow input with windowed history,
+   * the rolling summary of older turns and the user's earlier learning insights
+   */
+  static async prepare(
+    request: MentorTurnRequest,
+    options: ConversationWindowOptions = {}
+  ): Promise<PreparedMentorTurn> {
+    let thread = request.threadId
+      ? await ChatThreadService.getThread(request.threadId, request.userId)
+      : await ChatThreadService.createThread({
+          userId: request.userId,
+          code: request.code,
+          title: ConversationMemory.titleFromQuery(request.query)
+        });
+
+    let context = ConversationMemory.buildContext(thread, options);
+    if (context.unsummarizedTurns.length > 0) {
+      thread = await this.foldIntoSummary(thread, context.unsummarizedTurns);
+      context = ConversationMemory.buildContext(thread, options);
+    }
+
+    const priorInsights = await LearningInsightsService
+      .getUserLearningInsights(request.userId, false, PRIOR_INSIGHT_LIMIT)
+      .catch(error => {
+        console.error('Error loading prior insights for chat:', error);
+        return [];
+      });
+
+    return {
+      thread,
+      input: {
+        code: request.code,
+        query: request.query,
+        userId: request.userId,
+        enableAnalytics: request.enableAnalytics ?? true,
+        history: context.history,
+        conversationSummary: context.summary,
+        priorInsights: priorInsights.map(insight => ({
+          category: insight.category,
+          title: insight.title,
+          description: insight.description
+        }))
+      }
+    };
+  }
+
+  /**
+   * Persists the exchange once the reply is complete
+   */
+  static async complete(
+    thread: ChatThread,
+    query: string,
+    result: SendChatMessageOutput
+  ): Promise<MentorChatResult> {
+    const now = new Date();
+    const turns: ChatTurn[] = [
+      { turnId: ChatThreadService.generateTurnId(), role: 'user', content: query, createdAt: now },
+      {
+        turnId: ChatThreadService.generateTurnId(),
+        role: 'assistant',
+        content: result.aiResponse,
+        createdAt: now,
+        ...(result.analyticsSessionId ? { analyticsSessionId: result.analyticsSessionId } : {})
+      }
+    ];
+
+    await ChatThreadService.appendTurns(thread.threadId, turns);
+    return { ...result, threadId: thread.threadId };
+  }
+
+  private static async foldIntoSummary(thread: ChatThread, turns: ChatTurn[]): Promise<ChatThread> {
+    let summary: string;
+    try {
+      const result = await summarizeConversation({
+        previousSummary: thread.summary,
+        turns: turns.map(turn => ({ role: turn.role, content: turn.content }))
+      });
+      summary = result.summary;
+    } catch (error) {
+      console.error('Error summarizing chat history, using fallback summary:', error);
+      summary = ConversationMemory.fallbackSummary(thread.summary, turns);
+    }
+
+    const summarizedTurnCount = thread.turns.indexOf(turns[turns.length - 1]) + 1;
+    await ChatThreadService.saveSummary(thread.threadId, summary, summarizedTurnCount);
+    return { ...thread, summary, summarizedTurnCount };
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for line-anchored code diagnostics
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CodeDiagnostics, DiagnosticInput } from '../diagnostics';
+import { CodeDiagnostic } from '@/types/code-feedback';
+
+const code = [
+  'var total = 0;',
+  'for (var i = 0; i <= items.length; i++) {',
+  '  total += items[i];',
+  '}',
+].join('\n');
+
+const diagnostic = (overrides: Partial<DiagnosticInput>): DiagnosticInput => ({
+  range: { startLine: 1, startColumn: 1, endLine: 1, endColumn: 4 },
+  severity: 'warning',
+  category: 'style',
+  message: 'Use let instead of var',
+  explanation: 'var is function scoped.',
+  ...overrides,
+});
+
+describe('CodeDiagnostics', () => {
+  it('should number lines for the prompt', () => {
+    expect(CodeDiagnostics.numberLines('a\nb')).toBe('1| a\n2| b');
+  });
+
+  it('should clamp ranges, sort by position and assign ids', () => {
+    const normalized = CodeDiagnostics.normalize(code, [
+      diagnostic({ range: { startLine: 2, startColumn: 22, endLine: 2, endColumn: 24 }, severity: 'error', category: 'bug' }),
+      diagnostic({ range: { startLine: 9, startColumn: 1, endLine: 12, endColumn: 99 } }),
+      diagnostic({ range: { startLine: 1, startColumn: 5, endLine: 1, endColumn: 2 } }),
+    ]);
+
+    expect(normalized.map(entry => entry.id)).toEqual(['diag-1', 'diag-2', 'diag-3']);
+    expect(normalized[0].range).toEqual({ startLine: 1, startColumn: 5, endLine: 1, endColumn: 15 });
+    expect(normalized[1].category).toBe('bug');
+    expect(normalized[2].range).toEqual({ startLine: 4, startColumn: 1, endLine: 4, endColumn: 2 });
+  });
+
+  it('should apply a fix and move diagnostics after it', () => {
+    const [varDeclaration, offByOne] = CodeDiagnostics.normalize(code, [
+      diagnostic({
+        range: { startLine: 2, startColumn: 19, endLine: 2, endColumn: 21 },
+        severity: 'error',
+        category: 'bug',
+        message: 'Off-by-one loop bound',
+        suggestedReplacement: '<',
+      }),
+      diagnostic({ suggestedReplacement: 'let' }),
+    ]);
+
+    const fixed = CodeDiagnostics.applyFix(code, varDeclaration, [varDeclaration, offByOne]);
+
+    expect(fixed.code.split('\n')[0]).toBe('let total = 0;');
+    expect(fixed.diagnostics).toEqual([offByOne]);
+
+    const refixed = CodeDiagnostics.applyFix(fixed.code, offByOne, fixed.diagnostics);
+    expect(refixed.code.split('\n')[1]).toBe('for (var i = 0; i < items.length; i++) {');
+    expect(refixed.diagnostics).toEqual([]);
+  });
+
+  it('should shift later ranges when a fix changes the line count', () => {
+    const diagnostics = CodeDiagnostics.normalize(code, [
+      diagnostic({ suggestedReplacement: '// running sum\nlet' }),
+      diagnostic({ range: { startLine: 3, startColumn: 3, endLine: 3, endColumn: 8 }, message: 'Prefer reduce' }),
+    ]);
+
+    const fixed = CodeDiagnostics.applyFix(code, diagnostics[0], diagnostics);
+    const [moved] = fixed.diagnostics;
+
+    expect(moved.range).toEqual({ startLine: 4, startColumn: 3, endLine: 4, endColumn: 8 });
+    const { start, end } = CodeDiagnostics.toOffsets(fixed.code, moved.range);
+    expect(fixed.code.slice(start, end)).toBe('total');
+  });
+
+  it('should drop diagnostics that overlap the edited text', () => {
+    const diagnostics = CodeDiagnostics.normalize(code, [
+      diagnostic({ range: { startLine: 2, startColumn: 1, endLine: 4, endColumn: 2 }, suggestedReplacement: 'total = items.reduce((a, b) => a + b, 0);' }),
+      diagnostic({ range: { startLine: 3, startColumn: 3, endLine: 3, endColumn: 8 } }),
+    ]);
+
+    const fixed = CodeDiagnostics.applyFix(code, diagnostics[0], diagnostics);
+
+    expect(fixed.code).toBe('var total = 0;\ntotal = items.reduce((a, b) => a + b, 0);');
+    expect(fixed.diagnostics).toEqual([]);
+  });
+
+  it('should reject diagnostics without a suggested fix', () => {
+    const [entry] = CodeDiagnostics.normalize(code, [diagnostic({})]);
+
+    expect(() => CodeDiagnostics.applyFix(code, entry, [entry])).toThrow('has no suggested fix');
+  });
+
+  it('should group diagnostics by line with the most severe first', () => {
+    const diagnostics: CodeDiagnostic[] = CodeDiagnostics.normalize(code, [
+      diagnostic({ range: { startLine: 2, startColumn: 1, endLine: 3, endColumn: 5 }, severity: 'info' }),
+      diagnostic({ range: { startLine: 3, startColumn: 3, endLine: 3, endColumn: 8 }, severity: 'error' }),
+    ]);
+
+    const byLine = CodeDiagnostics.byLine(diagnostics);
+
+    expect([...byLine.keys()]).toEqual([2, 3]);
+    expect(byLine.get(3)!.map(entry => entry.severity)).toEqual(['error', 'info']);
+  });
+});
@@ -0,0 +1,135 @@
+// Line-anchored Code Diagnostics: Range Normalization and Fix Application
+
+import { CodeDiagnostic, DiagnosticSeverity, SourceRange } from '@/types/code-feedback';
+
+export type DiagnosticInput = Omit<CodeDiagnostic, 'id'> & { id?: string };
+
+export interface AppliedFix {
+  code: string;
+  // Remaining diagnostics with ranges moved to match the edited code
+  diagnostics: CodeDiagnostic[];
+}
+
+const SEVERITY_RANK: Record<DiagnosticSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+export class CodeDiagnostics {
+  /**
+   * Prefixes each line with its number so the model can anchor ranges reliably
+   */
+  static numberLines(code: string): string {
+    const lines = code.split('\n');
+    const width = String(lines.length).length;
+    return lines.map((line, index) => `${String(index + 1).padStart(width)}| ${line}`).join('\n');
+  }
+
+  /**
+   * Clamps model-reported ranges to the code, assigns stable ids and sorts by position
+   */
+  static normalize(code: string, diagnostics: DiagnosticInput[]): CodeDiagnostic[] {
+    const lines = code.split('\n');
+
+    return diagnostics
+      .map(diagnostic => ({ ...diagnostic, range: this.clampRange(lines, diagnostic.range) }))
+      .sort((a, b) => this.compareRanges(a.range, b.range) || SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity])
+      .map((diagnostic, index) => ({ ...diagnostic, id: diagnostic.id || `diag-${index + 1}` }));
+  }
+
+  static toOffsets(code: string, range: SourceRange): { start: number; end: number } {
+    return {
+      start: this.toOffset(code, range.startLine, range.startColumn),
+      end: this.toOffset(code, range.endLine, range.endColumn),
+    };
+  }
+
+  static fromOffset(code: string, offset: number): { line: number; column: number } {
+    const before = code.slice(0, Math.max(0, Math.min(offset, code.length)));
+    const lines = before.split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+  }
+
+  /**
+   * Replaces the diagnostic's range with its suggested replacement. Other diagnostics
+   * after the edit are moved; any that overlap the edited text are dropped.
+   */
+  static applyFix(code: string, diagnostic: CodeDiagnostic, diagnostics: CodeDiagnostic[]): AppliedFix {
+    if (diagnostic.suggestedReplacement === undefined) {
+      throw new Error(`Diagnostic ${diagnostic.id} has no suggested fix`);
+    }
+
+    const { start, end } = this.toOffsets(code, diagnostic.range);
+    const replacement = diagnostic.suggestedReplacement;
+    const fixedCode = code.slice(0, start) + replacement + code.slice(end);
+    const delta = replacement.length - (end - start);
+
+    const remaining = diagnostics.flatMap(other => {
+      if (other.id === diagnostic.id) return [];
+
+      const offsets = this.toOffsets(code, other.range);
+      if (offsets.end <= start) return [other];
+      if (offsets.start < end) return [];
+
+      const newStart = this.fromOffset(fixedCode, offsets.start + delta);
+      const newEnd = this.fromOffset(fixedCode, offsets.end + delta);
+      return [{
+        ...other,
+        range: {
+          startLine: newStart.line,
+          startColumn: newStart.column,
+          endLine: newEnd.line,
+          endColumn: newEnd.column,
+        },
+      }];
+    });
+
+    return { code: fixedCode, diagnostics: remaining };
+  }
+
+  /**
+   * Groups diagnostics by every line they touch, most severe first, for gutter markers
+   */
+  static byLine(diagnostics: CodeDiagnostic[]): Map<number, CodeDiagnostic[]> {
+    const lines = new Map<number, CodeDiagnostic[]>();
+    for (const diagnostic of diagnostics) {
+      for (let line = diagnostic.range.startLine; line <= diagnostic.range.endLine; line++) {
+        lines.set(line, [...(lines.get(line) || []), diagnostic]);
+      }
+    }
+    for (const entries of lines.values()) {
+      entries.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+    }
+    return lines;
+  }
+
+  private static toOffset(code: string, line: number, column: number): number {
+    const lines = code.split('\n');
+    let offset = 0;
+    for (let index = 0; index < line - 1 && index < lines.length; index++) {
+      offset += lines[index].length + 1;
+    }
+    const lineLength = lines[line - 1]?.length ?? 0;
+    return Math.min(offset + Math.min(column - 1, lineLength), code.length);
+  }
+
+  private static clampRange(lines: string[], range: SourceRange): SourceRange {
+    const clampLine = (line: number) => Math.min(Math.max(1, Math.floor(line) || 1), lines.length);
+    const clampColumn = (line: number, column: number) =>
+      Math.min(Math.max(1, Math.floor(column) || 1), lines[line - 1].length + 1);
+
+    const startLine = clampLine(range.startLine);
+    const startColumn = clampColumn(startLine, range.startColumn);
+    let endLine = clampLine(range.endLine);
+    let endColumn = clampColumn(endLine, range.endColumn);
+
+    // Empty or inverted ranges cover the rest of the start line
+    if (endLine < startLine || (endLine === startLine && endColumn <= startColumn)) {
+      endLine = startLine;
+      endColumn = Math.max(lines[startLine - 1].length + 1, startColumn);
+    }
+
+    return { startLine, startColumn, endLine, endColumn };
+  }
+
+  private static compareRanges(a: SourceRange, b: SourceRange): number {
+    return a.startLine - b.startLine || a.startColumn - b.startColumn;
+  }
+}
@@ -0,0 +1,308 @@
+// Unit tests for operational transforms and multi-user convergence
+
+import { describe, it, expect } from 'vitest';
+import {
+  CollaborativeDocumentClient,
+  OperationalTransform,
+  type OperationCommit
+} from '../operational-transform';
+import { Operation } from '@/types/collaborative-session';
+
+const timestamp = new Date('2024-01-01T00:00:00Z');
+
+const insert = (position: number, content: string, userId: string, id = `${userId}-${position}`): Operation => ({
+  operationId: id,
+  type: 'insert',
+  position,
+  content,
+  userId,
+  timestamp,
+  applied: false
+});
+
+const remove = (position: number, length: number, userId: string, id = `${userId}-${position}`): Operation => ({
+  operationId: id,
+  type: 'delete',
+  position,
+  length,
+  userId,
+  timestamp,
+  applied: false
+});
+
+// Deterministic PRNG so every interleaving is reproducible
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * In-memory stand-in for CollaborativeSessionService.updateSharedCode
+ */
+class SimulatedServer {
+  content: string;
+  version = 0;
+  history: Operation[] = [];
+
+  constructor(content: string) {
+    this.content = content;
+  }
+
+  receive(operations: Operation[], baseVersion: number): OperationCommit {
+    const rebased = OperationalTransform.rebase(operations, baseVersion, this.history);
+    if (rebased.operations.length === 0) {
+      return { version: this.version, content: this.content, ...rebased };
+    }
+
+    this.version += 1;
+    this.content = OperationalTransform.apply(this.content, rebased.operations);
+    const committed = rebased.operations.map(op => ({ ...op, applied: true, version: this.version }));
+    this.history.push(...committed);
+
+    return {
+      version: this.version,
+      content: this.content,
+      operations: committed,
+      concurrentOperations: rebased.concurrentOperations
+    };
+  }
+}
+
+describe('OperationalTransform', () => {
+  it('should apply inserts and deletes in order', () => {
+    const result = OperationalTransform.apply('hello world', [
+      remove(5, 6, 'a'),
+      insert(5, ', kiro', 'a')
+    ]);
+
+    expect(result).toBe('hello, kiro');
+  });
+
+  it('should reject operations outside the document', () => {
+    expect(() => OperationalTransform.apply('abc', [insert(4, 'x', 'a')])).toThrow(RangeError);
+    expect(() => OperationalTransform.apply('abc', [remove(2, 5, 'a')])).toThrow(RangeError);
+  });
+
+  it('should diff two documents into a minimal edit', () => {
+    const operations = OperationalTransform.diff('const a = 1;', 'const total = 1;', 'alice', timestamp);
+
+    expect(operations.map(({ type, position, length, content }) => ({ type, position, length, content }))).toEqual([
+      { type: 'delete', position: 6, length: 1, content: undefined },
+      { type: 'insert', position: 6, length: undefined, content: 'total' }
+    ]);
+    expect(OperationalTransform.apply('const a = 1;', operations)).toBe('const total = 1;');
+  });
+
+  it('should order concurrent inserts at the same position deterministically', () => {
+    const a = [insert(0, 'A', 'alice')];
+    const b = [insert(0, 'B', 'bob')];
+    const [aPrime, bPrime] = OperationalTransform.transform(a, b);
+
+    const viaA = OperationalTransform.apply(OperationalTransform.apply('', a), bPrime);
+    const viaB = OperationalTransform.apply(OperationalTransform.apply('', b), aPrime);
+
+    expect(viaA).toBe('AB');
+    expect(viaB).toBe('AB');
+  });
+
+  it('should keep text inserted inside a concurrently deleted range', () => {
+    const doc = 'function add() {}';
+    const a = [remove(9, 5, 'alice')]; // removes "add()"
+    const b = [insert(13, 'x', 'bob')]; // "add(x)"
+    const [aPrime, bPrime] = OperationalTransform.transform(a, b);
+
+    const viaA = OperationalTransform.apply(OperationalTransform.apply(doc, a), bPrime);
+    const viaB = OperationalTransform.apply(OperationalTransform.apply(doc, b), aPrime);
+
+    expect(viaA).toBe('function x {}');
+    expect(viaB).toBe(viaA);
+  });
+
+  it('should not delete overlapping text twice', () => {
+    const doc = '0123456789';
+    const a = [remove(2, 5, 'alice')];
+    const b = [remove(4, 5, 'bob')];
+    const [aPrime, bPrime] = OperationalTransform.transform(a, b);
+
+    const viaA = OperationalTransform.apply(OperationalTransform.apply(doc, a), bPrime);
+    const viaB = OperationalTransform.apply(OperationalTransform.apply(doc, b), aPrime);
+
+    expect(viaA).toBe('019');
+    expect(viaB).toBe('019');
+  });
+
+  it('should converge for random concurrent operation sequences', () => {
+    const random = createRandom(42);
+    const randomOps = (doc: string, userId: string, count: number) => {
+      const ops: Operation[] = [];
+      let current = doc;
+      for (let i = 0; i < count; i++) {
+        const op = current.length > 0 && random() < 0.5
+          ? (() => {
+              const position = Math.floor(random() * current.length);
+              return remove(position, 1 + Math.floor(random() * Math.min(4, current.length - position)), userId, `${userId}-${i}`);
+            })()
+          : insert(Math.floor(random() * (current.length + 1)), String.fromCharCode(97 + i), userId, `${userId}-${i}`);
+        ops.push(op);
+        current = OperationalTransform.apply(current, [op]);
+      }
+      return ops;
+    };
+
+    for (let round = 0; round < 500; round++) {
+      const doc = 'the quick brown fox';
+      const a = randomOps(doc, 'alice', 1 + Math.floor(random() * 4));
+      const b = randomOps(doc, 'bob', 1 + Math.floor(random() * 4));
+      const [aPrime, bPrime] = OperationalTransform.transform(a, b);
+
+      expect(OperationalTransform.apply(OperationalTransform.apply(doc, a), bPrime))
+        .toBe(OperationalTransform.apply(OperationalTransform.apply(doc, b), aPrime));
+    }
+  });
+
+  it('should map cursor offsets through remote operations', () => {
+    expect(OperationalTransform.transformOffset(5, [insert(2, 'abc', 'bob')])).toBe(8);
+    expect(OperationalTransform.transformOffset(5, [insert(7, 'abc', 'bob')])).toBe(5);
+    expect(OperationalTransform.transformOffset(5, [remove(3, 4, 'bob')])).toBe(3);
+  });
+});
+
+describe('CollaborativeDocumentClient', () => {
+  it('should buffer local edits while a batch is in flight', () => {
+    const client = new CollaborativeDocumentClient('abc', 0);
+
+    expect(client.applyLocal([insert(3, 'd', 'alice')])).not.toBeNull();
+    expect(client.applyLocal([insert(4, 'e', 'alice')])).toBeNull();
+    expect(client.content).toBe('abcde');
+
+    const next = client.acknowledge({ version: 1, concurrentOperations: [] });
+    expect(next).toEqual([insert(4, 'e', 'alice')]);
+    expect(client.version).toBe(1);
+  });
+
+  it('should apply the concurrent batch when the server commits its edit as a no-op', () => {
+    const server = new SimulatedServer('abcd');
+    server.receive([remove(1, 1, 'bob'), insert(3, 'x', 'bob')], 0);
+
+    const client = new CollaborativeDocumentClient('abcd', 0);
+    const sent = client.applyLocal([remove(1, 1, 'alice')])!;
+    const commit = server.receive(sent, 0);
+
+    expect(commit.version).toBe(1);
+    client.acknowledge(commit);
+    expect(client.content).toBe('acdx');
+    expect(client.content).toBe(server.content);
+    expect(client.version).toBe(1);
+  });
+
+  it('should not move the version back when an acknowledgement arrives after catching up', () => {
+    const client = new CollaborativeDocumentClient('abc', 0);
+    client.applyLocal([insert(3, 'd', 'alice')]);
+    client.reset('abcdxy', 3);
+
+    client.acknowledge({ version: 1, concurrentOperations: [] });
+    expect(client.version).toBe(3);
+    expect(client.content).toBe('abcdxy');
+  });
+
+  it('should report version gaps instead of applying out-of-order operations', () => {
+    const client = new CollaborativeDocumentClient('abc', 3);
+
+    expect(client.applyRemote([insert(0, 'x', 'bob')], 5)).toBe(false);
+    expect(client.applyRemote([insert(0, 'x', 'bob')], 4)).toBe(true);
+    expect(client.applyRemote([insert(0, 'x', 'bob')], 4)).toBe(true); // duplicate is ignored
+    expect(client.content).toBe('xabc');
+  });
+
+  it('should converge when several users edit with interleaved network delivery', () => {
+    for (let seed = 1; seed <= 50; seed++) {
+      const random = createRandom(seed);
+      const initial = 'function greet(name) {\n  return name;\n}\n';
+      const server = new SimulatedServer(initial);
+      const users = ['alice', 'bob', 'carol'];
+
+      const clients = users.map(userId => ({
+        userId,
+        doc: new CollaborativeDocumentClient(initial, 0),
+        outbox: [] as Array<{ operations: Operation[]; baseVersion: number }>,
+        // Commits the client has not yet heard about, in server order
+        inbox: [] as Array<{ kind: 'ack' | 'remote'; commit: OperationCommit }>
+      }));
+
+      const send = (client: typeof clients[number], operations: Operation[] | null) => {
+        if (operations) client.outbox.push({ operations, baseVersion: client.doc.version });
+      };
+
+      for (let step = 0; step < 200; step++) {
+        const client = clients[Math.floor(random() * clients.length)];
+        const action = random();
+
+        if (action < 0.45) {
+          // Local edit
+          const content = client.doc.content;
+          const edited = content.length > 0 && random() < 0.4
+            ? (() => {
+                const start = Math.floor(random() * content.length);
+                const end = Math.min(content.length, start + 1 + Math.floor(random() * 3));
+                return content.slice(0, start) + content.slice(end);
+              })()
+            : (() => {
+                const position = Math.floor(random() * (content.length + 1));
+                return content.slice(0, position) + client.userId[0] + step + content.slice(position);
+              })();
+          send(client, client.doc.applyLocal(OperationalTransform.diff(content, edited, client.userId, new Date(step))));
+        } else if (action < 0.7 && client.outbox.length > 0) {
+          // Deliver the client's in-flight batch to the server
+          const { operations, baseVersion } = client.outbox.shift()!;
+          const commit = server.receive(operations, baseVersion);
+          client.inbox.push({ kind: 'ack', commit });
+          clients
+            .filter(other => other !== client && commit.operations.length > 0)
+            .forEach(other => other.inbox.push({ kind: 'remote', commit }));
+        } else if (client.inbox.length > 0) {
+          // Deliver the next server message to the client
+          const message = client.inbox.shift()!;
+          if (message.kind === 'ack') {
+            send(client, client.doc.acknowledge(message.commit));
+          } else {
+            client.doc.applyRemote(message.commit.operations, message.commit.version);
+          }
+        }
+      }
+
+      // Drain every queue until the system is quiescent
+      let progressed = true;
+      while (progressed) {
+        progressed = false;
+        for (const client of clients) {
+          while (client.outbox.length > 0) {
+            const { operations, baseVersion } = client.outbox.shift()!;
+            const commit = server.receive(operations, baseVersion);
+            client.inbox.push({ kind: 'ack', commit });
+            clients
+              .filter(other => other !== client && commit.operations.length > 0)
+              .forEach(other => other.inbox.push({ kind: 'remote', commit }));
+            progressed = true;
+          }
+          while (client.inbox.length > 0) {
+            const message = client.inbox.shift()!;
+            if (message.kind === 'ack') {
+              send(client, client.doc.acknowledge(message.commit));
+            } else {
+              client.doc.applyRemote(message.commit.operations, message.commit.version);
+            }
+            progressed = true;
+          }
+        }
+      }
+
+      for (const client of clients) {
+        expect(client.doc.hasPendingOperations).toBe(false);
+        expect(client.doc.version).toBe(server.version);
+        expect(client.doc.content).toBe(server.content);
+      }
+    }
+  });
+});
@@ -0,0 +1,171 @@
+// Unit tests for session recording export/import
+
+import { describe, it, expect } from 'vitest';
+import { RecordingArchiveError, SessionRecordingArchive } from '../recording-archive';
+import { KEYFRAME_INTERVAL, SessionReplayEngine } from '../session-replay';
+import { SessionRecording, TimestampedEvent } from '@/types/collaborative-session';
+
+const codeChange = (index: number, codeContent: string, isKeyframe = false): TimestampedEvent => ({
+  eventId: `event-${index}`,
+  timestamp: new Date(Date.UTC(2024, 0, 1, 10, 0, index)),
+  type: 'code_change',
+  userId: 'mentor-1',
+  data: { codeContent },
+  description: 'Code updated',
+  isKeyframe
+});
+
+const createRecording = (events: TimestampedEvent[]): SessionRecording => ({
+  recordingId: 'recording-1',
+  sessionId: 'session-1',
+  title: 'Mentoring: binary search',
+  description: 'Walkthrough of an off-by-one bug',
+  events,
+  finalCode: events.length > 0 ? events[events.length - 1].data.codeContent : '',
+  duration: 30,
+  keyMoments: [{
+    momentId: 'moment-1',
+    timestamp: new Date(Date.UTC(2024, 0, 1, 10, 0, 1)),
+    title: 'Found the bug',
+    description: 'Loop bound fixed',
+    type: 'breakthrough',
+    codeSnapshot: 'while (lo <= hi)',
+    participantsInvolved: ['mentor-1', 'mentee-1'],
+    importance: 8,
+    skillsRelevant: ['algorithms']
+  }],
+  learningOutcomes: ['Loop invariants'],
+  skillsImproved: ['debugging'],
+  collaborationInsights: [],
+  createdAt: new Date(Date.UTC(2024, 0, 1, 10, 30)),
+  isPublic: false,
+  viewCount: 12,
+  allowedViewers: ['mentee-1'],
+  requiresAuthentication: true
+});
+
+const expectArchiveError = async (promise: Promise<unknown>, code: string) => {
+  const error = await promise.then(() => null, (err: unknown) => err);
+  expect(error).toBeInstanceOf(RecordingArchiveError);
+  expect((error as RecordingArchiveError).code).toBe(code);
+};
+
+describe('SessionRecordingArchive', () => {
+  const recording = createRecording([
+    codeChange(0, 'let lo = 0;'),
+    codeChange(1, 'let lo = 0;\nwhile (lo < hi)', true),
+    {
+      eventId: 'event-2',
+      timestamp: new Date(Date.UTC(2024, 0, 1, 10, 0, 2)),
+      type: 'comment',
+      userId: 'mentee-1',
+      data: { text: 'why <= ?', sentAt: new Date(Date.UTC(2024, 0, 1, 10, 0, 2)) },
+      description: 'Comment added',
+      isKeyframe: false
+    },
+    codeChange(3, 'let lo = 0;\nwhile (lo <= hi)')
+  ]);
+
+  it('should round-trip a recording through an archive', async () => {
+    const serialized = await SessionRecordingArchive.export(recording);
+    const imported = await SessionRecordingArchive.import(serialized);
+
+    expect(imported.events.map(event => event.eventId)).toEqual(['event-0', 'event-1', 'event-2', 'event-3']);
+    expect(imported.events[1].timestamp).toEqual(recording.events[1].timestamp);
+    expect(imported.keyMoments[0].timestamp).toEqual(recording.keyMoments[0].timestamp);
+    expect(imported.createdAt).toEqual(recording.createdAt);
+    expect(imported.finalCode).toBe(recording.finalCode);
+    expect(imported.viewCount).toBe(0);
+  });
+
+  it('should give imports a fresh recording ID unless one is requested', async () => {
+    const serialized = await SessionRecordingArchive.export(recording);
+    const first = await SessionRecordingArchive.import(serialized);
+    const second = await SessionRecordingArchive.import(serialized);
+
+    expect(first.recordingId).not.toBe(recording.recordingId);
+    expect(second.recordingId).not.toBe(first.recordingId);
+  });
+
+  it('should assign a new recording ID when requested', async () => {
+    const serialized = await SessionRecordingArchive.export(recording);
+    const imported = await SessionRecordingArchive.import(serialized, { recordingId: 'imported-1' });
+
+    expect(imported.recordingId).toBe('imported-1');
+    expect(imported.sessionId).toBe('session-1');
+  });
+
+  it('should include code snapshots at keyframes', async () => {
+    const events = Array.from({ length: KEYFRAME_INTERVAL + 5 }, (_, index) => codeChange(index, `v${index}`));
+    events[2].isKeyframe = true;
+
+    const archive = await SessionRecordingArchive.parse(
+      await SessionRecordingArchive.export(createRecording(events))
+    );
+
+    expect(archive.keyframes.map(({ eventIndex, code }) => ({ eventIndex, code }))).toEqual([
+      { eventIndex: 2, code: 'v2' },
+      { eventIndex: 52, code: 'v52' }
+    ]);
+  });
+
+  it('should replay imported recordings from the archived keyframes', async () => {
+    const events = Array.from({ length: KEYFRAME_INTERVAL + 5 }, (_, index) => codeChange(index, `v${index}`));
+    events[2].isKeyframe = true;
+    const serialized = await SessionRecordingArchive.export(createRecording(events));
+
+    const imported = await SessionRecordingArchive.import(serialized);
+    const engine = new SessionReplayEngine(imported, { keyframeInterval: 10 });
+
+    expect(engine.keyframes).toEqual([{ eventIndex: 2, code: 'v2' }, { eventIndex: 52, code: 'v52' }]);
+    expect(engine.stateAt(engine.offsetOf(events[30].timestamp)).code).toBe('v30');
+  });
+
+  it('should accept archives that were re-formatted', async () => {
+    const serialized = await SessionRecordingArchive.export(recording);
+    const minified = JSON.stringify(JSON.parse(serialized));
+
+    await expect(SessionRecordingArchive.import(minified)).resolves.toBeDefined();
+  });
+
+  it('should reject archives whose contents were corrupted or edited', async () => {
+    const archive = JSON.parse(await SessionRecordingArchive.export(recording));
+    archive.recording.events[3].data.codeContent = 'rm -rf /';
+
+    await expectArchiveError(SessionRecordingArchive.import(JSON.stringify(archive)), 'checksum_mismatch');
+  });
+
+  it('should reject archives with extra fields added after export', async () => {
+    const archive = JSON.parse(await SessionRecordingArchive.export(recording));
+    archive.recording.injected = true;
+
+    await expectArchiveError(SessionRecordingArchive.import(JSON.stringify(archive)), 'checksum_mismatch');
+  });
+
+  it('should reject truncated or non-JSON files', async () => {
+    const serialized = await SessionRecordingArchive.export(recording);
+
+    await expectArchiveError(SessionRecordingArchive.import(serialized.slice(0, 200)), 'invalid_json');
+  });
+
+  it('should reject files that are not recording archives', async () => {
+    await expectArchiveError(SessionRecordingArchive.import('{"hello":"world"}'), 'invalid_format');
+  });
+
+  it('should reject unsupported archive versions', async () => {
+    const archive = JSON.parse(await SessionRecordingArchive.export(recording));
+    archive.version = 99;
+
+    await expectArchiveError(SessionRecordingArchive.import(JSON.stringify(archive)), 'unsupported_version');
+  });
+
+  it('should reject archives that do not match the schema', async () => {
+    const archive = JSON.parse(await SessionRecordingArchive.export(recording));
+    archive.recording.events[0].timestamp = 'yesterday';
+
+    const error = await SessionRecordingArchive.import(JSON.stringify(archive)).catch(err => err);
+    expect(error).toBeInstanceOf(RecordingArchiveError);
+    expect(error.code).toBe('invalid_schema');
+    expect(error.message).toContain('recording.events.0.timestamp');
+  });
+});
@@ -0,0 +1,191 @@
+// Unit tests for the seekable session replay engine
+
+import { describe, it, expect } from 'vitest';
+import { SessionReplayEngine } from '../session-replay';
+import {
+  CodeHistoryEntry,
+  KeyMoment,
+  SessionRecording,
+  TimestampedEvent
+} from '@/types/collaborative-session';
+
+const START = Date.UTC(2024, 0, 1, 10, 0, 0);
+
+const historyEntry = (offset: number, oldContent: string, newContent: string): CodeHistoryEntry => ({
+  entryId: `entry-${offset}`,
+  timestamp: new Date(START),
+  userId: 'mentor-1',
+  username: 'mentor',
+  operation: oldContent && newContent ? 'replace' : newContent ? 'insert' : 'delete',
+  startPosition: { line: 0, column: offset, offset },
+  endPosition: { line: 0, column: offset + oldContent.length, offset: offset + oldContent.length },
+  oldContent,
+  newContent,
+  description: 'Code modification'
+});
+
+const event = (second: number, data: any, overrides: Partial<TimestampedEvent> = {}): TimestampedEvent => ({
+  eventId: `event-${second}`,
+  timestamp: new Date(START + second * 1000),
+  type: 'code_change',
+  userId: 'mentor-1',
+  data,
+  description: 'Code updated',
+  isKeyframe: false,
+  ...overrides
+});
+
+const moment = (second: number, title: string): KeyMoment => ({
+  momentId: `moment-${second}`,
+  timestamp: new Date(START + second * 1000),
+  title,
+  description: title,
+  type: 'learning',
+  codeSnapshot: '',
+  participantsInvolved: ['mentor-1'],
+  importance: 5,
+  skillsRelevant: []
+});
+
+const createRecording = (events: TimestampedEvent[], keyMoments: KeyMoment[] = []): SessionRecording => ({
+  recordingId: 'recording-1',
+  sessionId: 'session-1',
+  title: 'Replay',
+  events,
+  finalCode: '',
+  duration: 1,
+  keyMoments,
+  learningOutcomes: [],
+  skillsImproved: [],
+  collaborationInsights: [],
+  createdAt: new Date(START),
+  isPublic: false,
+  viewCount: 0,
+  allowedViewers: [],
+  requiresAuthentication: false
+});
+
+describe('SessionReplayEngine', () => {
+  // Typing "abcdefghij" one character per second, with a snapshot every 3 changes
+  const typing = Array.from({ length: 10 }, (_, index) =>
+    event(index, { operation: historyEntry(index, '', String.fromCharCode(97 + index)) })
+  );
+
+  it('should reconstruct the code at any timestamp from history entry diffs', () => {
+    const engine = new SessionReplayEngine(createRecording(typing), { keyframeInterval: 3 });
+
+    expect(engine.stateAt(0).code).toBe('a');
+    expect(engine.stateAt(4500).code).toBe('abcde');
+    expect(engine.stateAt(9000).code).toBe('abcdefghij');
+    expect(engine.stateAt(4500).event?.eventId).toBe('event-4');
+  });
+
+  it('should seek from the nearest keyframe snapshot', () => {
+    const events = typing.map(entry => ({ ...entry }));
+    const engine = new SessionReplayEngine(createRecording(events), { keyframeInterval: 3 });
+
+    expect(engine.keyframes.map(keyframe => keyframe.eventIndex)).toEqual([2, 5, 8]);
+
+    // Events before the snapshot are not replayed when seeking past it
+    engine.events[1].data = { operation: historyEntry(99, 'missing', '') };
+    expect(engine.stateAt(6000).code).toBe('abcdefg');
+  });
+
+  it('should give the same result regardless of the keyframe interval', () => {
+    const sparse = new SessionReplayEngine(createRecording(typing), { keyframeInterval: 1000 });
+    const dense = new SessionReplayEngine(createRecording(typing), { keyframeInterval: 1 });
+
+    for (let time = 0; time <= 9000; time += 750) {
+      expect(dense.stateAt(time).code).toBe(sparse.stateAt(time).code);
+    }
+  });
+
+  it('should use events flagged as keyframes as snapshots', () => {
+    const events = typing.map((entry, index) => ({ ...entry, isKeyframe: index === 6 }));
+    const engine = new SessionReplayEngine(createRecording(events), { keyframeInterval: 1000 });
+
+    expect(engine.keyframes).toEqual([{ eventIndex: 6, code: 'abcdefg' }]);
+  });
+
+  it('should fall back to the full content when a diff does not apply', () => {
+    const engine = new SessionReplayEngine(createRecording([
+      event(0, { operation: historyEntry(0, '', 'let x = 1;'), codeContent: 'let x = 1;' }),
+      event(1, { operation: historyEntry(4, 'y', 'z'), codeContent: 'let x = 2;' })
+    ]));
+
+    expect(engine.stateAt(1000).code).toBe('let x = 2;');
+  });
+
+  it('should prefer committed operations over the history entry', () => {
+    const engine = new SessionReplayEngine(createRecording([
+      event(0, { codeContent: 'ab' }),
+      event(1, {
+        operations: [{
+          operationId: 'op-1',
+          type: 'insert',
+          position: 1,
+          content: 'X',
+          userId: 'mentee-1',
+          timestamp: new Date(START),
+          applied: true
+        }],
+        operation: historyEntry(0, '', 'stale'),
+        codeContent: 'aXb'
+      })
+    ]));
+
+    expect(engine.stateAt(1000).code).toBe('aXb');
+  });
+
+  it('should ignore events that are not code changes', () => {
+    const engine = new SessionReplayEngine(createRecording([
+      event(0, { codeContent: 'print(1)' }),
+      event(1, { text: 'nice' }, { type: 'comment', description: 'Comment added' })
+    ]));
+
+    const state = engine.stateAt(1000);
+    expect(state.code).toBe('print(1)');
+    expect(state.event?.type).toBe('comment');
+  });
+
+  it('should measure time from the start of the recording and clamp seeks', () => {
+    const engine = new SessionReplayEngine(createRecording(typing));
+
+    expect(engine.duration).toBe(60 * 1000);
+    expect(engine.stateAt(-500).time).toBe(0);
+    expect(engine.stateAt(120000).time).toBe(60000);
+    expect(engine.eventsBetween(2000, 4000).map(entry => entry.eventId)).toEqual(['event-3', 'event-4']);
+  });
+
+  it('should jump to key moments', () => {
+    const keyMoment = moment(3, 'Fourth letter');
+    const engine = new SessionReplayEngine(createRecording(typing, [keyMoment]));
+
+    const time = engine.keyMomentTime(keyMoment);
+    expect(time).toBe(3000);
+    expect(engine.stateAt(time).code).toBe('abcd');
+  });
+
+  it('should diff the code between two moments side by side', () => {
+    const engine = new SessionReplayEngine(createRecording([
+      event(0, { codeContent: 'function add(a, b) {\n  return a - b;\n}' }),
+      event(5, { codeContent: 'function add(a, b) {\n  // fixed\n  return a + b;\n}\n' })
+    ]));
+
+    expect(engine.diff(0, 5000)).toEqual([
+      { type: 'unchanged', left: { lineNumber: 1, text: 'function add(a, b) {' }, right: { lineNumber: 1, text: 'function add(a, b) {' } },
+      { type: 'modified', left: { lineNumber: 2, text: '  return a - b;' }, right: { lineNumber: 2, text: '  // fixed' } },
+      { type: 'added', right: { lineNumber: 3, text: '  return a + b;' } },
+      { type: 'unchanged', left: { lineNumber: 3, text: '}' }, right: { lineNumber: 4, text: '}' } },
+      { type: 'added', right: { lineNumber: 5, text: '' } }
+    ]);
+  });
+
+  it('should report removed lines', () => {
+    expect(SessionReplayEngine.diffLines('a\nb\nc', 'a\nc')).toEqual([
+      { type: 'unchanged', left: { lineNumber: 1, text: 'a' }, right: { lineNumber: 1, text: 'a' } },
+      { type: 'removed', left: { lineNumber: 2, text: 'b' } },
+      { type: 'unchanged', left: { lineNumber: 3, text: 'c' }, right: { lineNumber: 2, text: 'c' } }
+    ]);
+  });
+});
@@ -0,0 +1,336 @@
+// Operational Transform Engine for Collaborative Code Editing
+
+import { Operation } from '@/types/collaborative-session';
+
+/**
+ * A batch of operations committed to the shared document at a single version
+ */
+export interface OperationCommit {
+  version: number;
+  content: string;
+  operations: Operation[];
+  // Operations committed by others between the submitted base version and `version`
+  concurrentOperations: Operation[];
+}
+
+export class OperationConflictError extends Error {
+  constructor(
+    message: string,
+    public readonly baseVersion: number,
+    public readonly currentVersion: number
+  ) {
+    super(message);
+    this.name = 'OperationConflictError';
+  }
+}
+
+export class OperationalTransform {
+  /**
+   * Applies a sequence of insert/delete operations to a document
+   */
+  static apply(content: string, operations: Operation[]): string {
+    return operations.reduce((doc, op) => {
+      switch (op.type) {
+        case 'insert':
+          if (op.position < 0 || op.position > doc.length) {
+            throw new RangeError(`Insert position ${op.position} is outside the document (length ${doc.length})`);
+          }
+          return doc.slice(0, op.position) + (op.content || '') + doc.slice(op.position);
+        case 'delete': {
+          const length = this.lengthOf(op);
+          if (op.position < 0 || op.position + length > doc.length) {
+            throw new RangeError(`Delete range ${op.position}+${length} is outside the document (length ${doc.length})`);
+          }
+          return doc.slice(0, op.position) + doc.slice(op.position + length);
+        }
+        default:
+          return doc;
+      }
+    }, content);
+  }
+
+  /**
+   * Transforms two concurrent operation sequences so that
+   * apply(apply(doc, a), b') === apply(apply(doc, b), a')
+   */
+  static transform(a: Operation[], b: Operation[]): [Operation[], Operation[]] {
+    const left = a.filter(op => !this.isNoop(op));
+    const right = b.filter(op => !this.isNoop(op));
+
+    if (left.length === 0 || right.length === 0) {
+      return [left, right];
+    }
+
+    if (left.length > 1) {
+      const [headPrime, rightAfterHead] = this.transform([left[0]], right);
+      const [tailPrime, rightPrime] = this.transform(left.slice(1), rightAfterHead);
+      return [[...headPrime, ...tailPrime], rightPrime];
+    }
+
+    if (right.length > 1) {
+      const [leftAfterHead, headPrime] = this.transform(left, [right[0]]);
+      const [leftPrime, tailPrime] = this.transform(leftAfterHead, right.slice(1));
+      return [leftPrime, [...headPrime, ...tailPrime]];
+    }
+
+    const leftWinsTie = this.comparePriority(left[0], right[0]) < 0;
+    return [
+      this.transformComponent(left[0], right[0], leftWinsTie),
+      this.transformComponent(right[0], left[0], !leftWinsTie)
+    ];
+  }
+
+  /**
+   * Rebases operations created against `baseVersion` over everything committed since
+   */
+  static rebase(
+    operations: Operation[],
+    baseVersion: number,
+    history: Operation[]
+  ): { operations: Operation[]; concurrentOperations: Operation[] } {
+    const concurrentOperations = history
+      .filter(op => (op.version ?? 0) > baseVersion)
+      .sort((x, y) => (x.version ?? 0) - (y.version ?? 0));
+
+    const [rebased] = this.transform(operations, concurrentOperations);
+    return { operations: rebased, concurrentOperations };
+  }
+
+  /**
+   * Produces the minimal single-region edit turning `before` into `after`
+   */
+  static diff(before: string, after: string, userId: string, timestamp = new Date()): Operation[] {
+    let prefix = 0;
+    const maxPrefix = Math.min(before.length, after.length);
+    while (prefix < maxPrefix && before[prefix] === after[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    const maxSuffix = Math.min(before.length, after.length) - prefix;
+    while (
+      suffix < maxSuffix &&
+      before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const deletedLength = before.length - prefix - suffix;
+    const inserted = after.slice(prefix, after.length - suffix);
+    const idBase = `${timestamp.getTime()}-${userId}`;
+    const operations: Operation[] = [];
+
+    if (deletedLength > 0) {
+      operations.push({
+        operationId: `${idBase}-d`,
+        type: 'delete',
+        position: prefix,
+        length: deletedLength,
+        userId,
+        timestamp,
+        applied: false
+      });
+    }
+
+    if (inserted.length > 0) {
+      operations.push({
+        operationId: `${idBase}-i`,
+        type: 'insert',
+        position: prefix,
+        content: inserted,
+        userId,
+        timestamp,
+        applied: false
+      });
+    }
+
+    return operations;
+  }
+
+  /**
+   * Maps a cursor offset through operations applied by others
+   */
+  static transformOffset(offset: number, operations: Operation[]): number {
+    return operations.reduce((current, op) => {
+      if (op.type === 'insert') {
+        return op.position <= current ? current + (op.content || '').length : current;
+      }
+      if (op.type === 'delete') {
+        const length = this.lengthOf(op);
+        if (current <= op.position) return current;
+        return Math.max(op.position, current - length);
+      }
+      return current;
+    }, offset);
+  }
+
+  private static transformComponent(op: Operation, against: Operation, winsTie: boolean): Operation[] {
+    if (op.type === 'insert') {
+      if (against.type === 'insert') {
+        const shift = against.position < op.position || (against.position === op.position && !winsTie);
+        return [shift ? { ...op, position: op.position + (against.content || '').length } : op];
+      }
+
+      // Insert against delete
+      const deleteEnd = against.position + this.lengthOf(against);
+      if (op.position <= against.position) return [op];
+      if (op.position >= deleteEnd) return [{ ...op, position: op.position - this.lengthOf(against) }];
+      return [{ ...op, position: against.position }];
+    }
+
+    const start = op.position;
+    const end = op.position + this.lengthOf(op);
+
+    if (against.type === 'insert') {
+      const insertedLength = (against.content || '').length;
+      if (against.position <= start) return [{ ...op, position: start + insertedLength }];
+      if (against.position >= end) return [op];
+
+      // Text was inserted inside the deleted range: keep it by splitting the delete around it
+      return [
+        { ...op, operationId: `${op.operationId}-a`, length: against.position - start },
+        { ...op, operationId: `${op.operationId}-b`, position: start + insertedLength, length: end - against.position }
+      ];
+    }
+
+    // Delete against delete: drop whatever the other side already removed
+    const otherStart = against.position;
+    const otherEnd = against.position + this.lengthOf(against);
+    const before = Math.max(0, Math.min(end, otherStart) - start);
+    const after = Math.max(0, end - Math.max(start, otherEnd));
+    const remaining = before + after;
+
+    if (remaining === 0) return [];
+
+    const position = start <= otherStart ? start : Math.max(otherStart, start - (otherEnd - otherStart));
+    return [{ ...op, position, length: remaining }];
+  }
+
+  private static comparePriority(a: Operation, b: Operation): number {
+    if (a.userId !== b.userId) return a.userId < b.userId ? -1 : 1;
+    if (a.operationId !== b.operationId) return a.operationId < b.operationId ? -1 : 1;
+    return 0;
+  }
+
+  private static lengthOf(op: Operation): number {
+    return op.type === 'delete' ? op.length || 0 : 0;
+  }
+
+  private static isNoop(op: Operation): boolean {
+    return op.type === 'retain' ||
+      (op.type === 'insert' && !op.content) ||
+      (op.type === 'delete' && !op.length);
+  }
+}
+
+/**
+ * Client-side OT state machine. Keeps at most one batch in flight and buffers
+ * further local edits until the server acknowledges it, rebasing both over
+ * remote operations as they arrive.
+ */
+export class CollaborativeDocumentClient {
+  private pending: Operation[] | null = null;
+  private buffer: Operation[] = [];
+
+  constructor(
+    public content: string,
+    public version: number
+  ) {}
+
+  get hasPendingOperations(): boolean {
+    return this.pending !== null || this.buffer.length > 0;
+  }
+
+  /**
+   * Returns the batch that is awaiting acknowledgement, if any
+   */
+  get inFlight(): Operation[] | null {
+    return this.pending;
+  }
+
+  /**
+   * Applies a local edit. Returns the operations to send, or null if they were buffered.
+   */
+  applyLocal(operations: Operation[]): Operation[] | null {
+    if (operations.length === 0) return null;
+
+    this.content = OperationalTransform.apply(this.content, operations);
+
+    if (this.pending) {
+      this.buffer = [...this.buffer, ...operations];
+      return null;
+    }
+
+    this.pending = operations;
+    return operations;
+  }
+
+  /**
+   * Applies operations committed by another participant at `version`.
+   * Returns false when a version gap means the client must catch up first.
+   */
+  applyRemote(operations: Operation[], version: number): boolean {
+    if (version <= this.version) return true; // Already applied
+    if (version !== this.version + 1) return false;
+
+    let remote = operations;
+    if (this.pending) {
+      const [pendingPrime, remoteAfterPending] = OperationalTransform.transform(this.pending, remote);
+      this.pending = pendingPrime;
+      remote = remoteAfterPending;
+    }
+    if (this.buffer.length > 0) {
+      const [bufferPrime, remoteAfterBuffer] = OperationalTransform.transform(this.buffer, remote);
+      this.buffer = bufferPrime;
+      remote = remoteAfterBuffer;
+    }
+
+    this.content = OperationalTransform.apply(this.content, remote);
+    this.version = version;
+    return true;
+  }
+
+  /**
+   * Handles the server's acknowledgement of the in-flight batch. Any concurrent
+   * operations the client has not seen yet are applied first. The version never
+   * moves back, in case the client caught up past the commit before the
+   * acknowledgement arrived. Returns the next batch to send, if local edits were
+   * buffered meanwhile.
+   */
+  acknowledge(commit: Pick<OperationCommit, 'version' | 'concurrentOperations'>): Operation[] | null {
+    const unseen = this.groupByVersion(commit.concurrentOperations)
+      .filter(([version]) => version > this.version && version <= commit.version);
+
+    for (const [version, operations] of unseen) {
+      this.applyRemote(operations, version);
+    }
+
+    this.pending = null;
+    this.version = Math.max(this.version, commit.version);
+
+    if (this.buffer.length === 0) return null;
+
+    this.pending = this.buffer;
+    this.buffer = [];
+    return this.pending;
+  }
+
+  /**
+   * Discards local state and adopts the server's document
+   */
+  reset(content: string, version: number): void {
+    this.content = content;
+    this.version = version;
+    this.pending = null;
+    this.buffer = [];
+  }
+
+  private groupByVersion(operations: Operation[]): Array<[number, Operation[]]> {
+    const groups = new Map<number, Operation[]>();
+    for (const op of operations) {
+      const version = op.version ?? 0;
+      groups.set(version, [...(groups.get(version) || []), op]);
+    }
+    return Array.from(groups.entries()).sort(([a], [b]) => a - b);
+  }
+}
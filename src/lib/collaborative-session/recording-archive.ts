@@ -0,0 +1,245 @@
+// Portable Session Recording Archive Format
+
+import { z } from 'zod';
+import { SessionRecording } from '@/types/collaborative-session';
+import { SessionReplayEngine } from './session-replay';
+
+export const RECORDING_ARCHIVE_FORMAT = 'kiro-session-recording';
+export const RECORDING_ARCHIVE_VERSION = 1;
+
+export type RecordingArchiveErrorCode =
+  | 'invalid_json'
+  | 'invalid_format'
+  | 'unsupported_version'
+  | 'invalid_schema'
+  | 'checksum_mismatch';
+
+export class RecordingArchiveError extends Error {
+  constructor(message: string, public readonly code: RecordingArchiveErrorCode) {
+    super(message);
+    this.name = 'RecordingArchiveError';
+  }
+}
+
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Expected an ISO date');
+
+const TimestampedEventSchema = z.object({
+  eventId: z.string().min(1),
+  timestamp: isoDate,
+  type: z.enum([
+    'code_change', 'ai_suggestion', 'participant_join', 'participant_leave',
+    'comment', 'voice_note', 'screen_share', 'whiteboard_action'
+  ]),
+  userId: z.string().optional(),
+  data: z.any(),
+  description: z.string(),
+  duration: z.number().optional(),
+  isKeyframe: z.boolean()
+});
+
+const KeyMomentSchema = z.object({
+  momentId: z.string().min(1),
+  timestamp: isoDate,
+  title: z.string(),
+  description: z.string(),
+  type: z.enum(['breakthrough', 'learning', 'collaboration', 'problem_solving', 'ai_insight']),
+  codeSnapshot: z.string(),
+  participantsInvolved: z.array(z.string()),
+  aiInsightId: z.string().optional(),
+  importance: z.number().min(1).max(10),
+  skillsRelevant: z.array(z.string())
+});
+
+const ArchivedRecordingSchema = z.object({
+  recordingId: z.string().min(1),
+  sessionId: z.string().min(1),
+  title: z.string(),
+  description: z.string().optional(),
+  events: z.array(TimestampedEventSchema),
+  finalCode: z.string(),
+  duration: z.number().nonnegative(),
+  keyMoments: z.array(KeyMomentSchema),
+  learningOutcomes: z.array(z.string()),
+  skillsImproved: z.array(z.string()),
+  collaborationInsights: z.array(z.string()),
+  createdAt: isoDate,
+  isPublic: z.boolean(),
+  viewCount: z.number().int().nonnegative(),
+  allowedViewers: z.array(z.string()),
+  requiresAuthentication: z.boolean()
+});
+
+const RecordingKeyframeSchema = z.object({
+  eventIndex: z.number().int().nonnegative(),
+  timestamp: isoDate,
+  code: z.string()
+});
+
+const RecordingArchiveSchema = z.object({
+  format: z.literal(RECORDING_ARCHIVE_FORMAT),
+  version: z.literal(RECORDING_ARCHIVE_VERSION),
+  exportedAt: isoDate,
+  checksum: z.object({
+    algorithm: z.literal('sha-256'),
+    value: z.string().regex(/^[0-9a-f]{64}$/)
+  }),
+  recording: ArchivedRecordingSchema,
+  keyframes: z.array(RecordingKeyframeSchema)
+});
+
+export type RecordingKeyframe = z.infer<typeof RecordingKeyframeSchema>;
+export type RecordingArchive = z.infer<typeof RecordingArchiveSchema>;
+
+export interface RecordingImportOptions {
+  // ID for the imported recording; a fresh one is generated when omitted, so importing
+  // never reuses the archived recording's ID
+  recordingId?: string;
+}
+
+export class SessionRecordingArchive {
+  /**
+   * Serializes a recording into a self-contained, checksummed archive. The checksum is an
+   * unkeyed SHA-256 digest: it catches corrupted or hand-edited files, but anyone can
+   * recompute it, so it is no proof of where an archive came from.
+   */
+  static async export(recording: SessionRecording, exportedAt = new Date()): Promise<string> {
+    const engine = new SessionReplayEngine(recording);
+    const events = engine.events;
+
+    const archivedRecording = {
+      ...recording,
+      keyframes: undefined, // archived alongside the recording, taken from the engine
+      createdAt: recording.createdAt.toISOString(),
+      events: events.map(event => ({ ...event, timestamp: event.timestamp.toISOString() })),
+      keyMoments: recording.keyMoments.map(moment => ({
+        ...moment,
+        timestamp: moment.timestamp.toISOString()
+      }))
+    };
+
+    // Round-trip through JSON so the hashed body is exactly what ends up in the file
+    const body = JSON.parse(JSON.stringify({
+      recording: archivedRecording,
+      keyframes: engine.keyframes.map(({ eventIndex, code }) => ({
+        eventIndex,
+        timestamp: events[eventIndex].timestamp.toISOString(),
+        code
+      }))
+    }));
+
+    const archive = {
+      format: RECORDING_ARCHIVE_FORMAT,
+      version: RECORDING_ARCHIVE_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      checksum: {
+        algorithm: 'sha-256' as const,
+        value: await this.computeChecksum(body)
+      },
+      ...body
+    };
+
+    return JSON.stringify(archive, null, 2);
+  }
+
+  /**
+   * Parses and verifies an archive, returning the recording it contains along with the
+   * archived keyframes, which replay then seeks from
+   */
+  static async import(serialized: string, options: RecordingImportOptions = {}): Promise<SessionRecording> {
+    const archive = await this.parse(serialized);
+    const { recording } = archive;
+
+    return {
+      ...recording,
+      recordingId: options.recordingId ?? `recording_${globalThis.crypto.randomUUID()}`,
+      createdAt: new Date(recording.createdAt),
+      viewCount: 0,
+      events: recording.events.map(event => ({ ...event, data: event.data, timestamp: new Date(event.timestamp) })),
+      keyframes: archive.keyframes.map(({ eventIndex, code }) => ({ eventIndex, code })),
+      keyMoments: recording.keyMoments.map(moment => ({
+        ...moment,
+        timestamp: new Date(moment.timestamp)
+      }))
+    };
+  }
+
+  /**
+   * Validates an archive's envelope, schema and checksum
+   */
+  static async parse(serialized: string): Promise<RecordingArchive> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(serialized);
+    } catch {
+      throw new RecordingArchiveError('Recording archive is not valid JSON', 'invalid_json');
+    }
+
+    if (!raw || typeof raw !== 'object' || (raw as { format?: unknown }).format !== RECORDING_ARCHIVE_FORMAT) {
+      throw new RecordingArchiveError('File is not a session recording archive', 'invalid_format');
+    }
+
+    const version = (raw as { version?: unknown }).version;
+    if (version !== RECORDING_ARCHIVE_VERSION) {
+      throw new RecordingArchiveError(
+        `Unsupported recording archive version: ${String(version)}`,
+        'unsupported_version'
+      );
+    }
+
+    const result = RecordingArchiveSchema.safeParse(raw);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new RecordingArchiveError(
+        `Invalid recording archive at ${issue.path.join('.') || '(root)'}: ${issue.message}`,
+        'invalid_schema'
+      );
+    }
+
+    const archive = result.data;
+    const outOfRange = archive.keyframes.find(keyframe => keyframe.eventIndex >= archive.recording.events.length);
+    if (outOfRange) {
+      throw new RecordingArchiveError(
+        `Invalid recording archive: keyframe references missing event ${outOfRange.eventIndex}`,
+        'invalid_schema'
+      );
+    }
+
+    // Hash what was actually in the file rather than the parsed result, which drops unknown keys
+    const { recording, keyframes } = raw as Pick<RecordingArchive, 'recording' | 'keyframes'>;
+    const checksum = await this.computeChecksum({ recording, keyframes });
+    if (checksum !== archive.checksum.value) {
+      throw new RecordingArchiveError(
+        'Recording archive checksum does not match its contents',
+        'checksum_mismatch'
+      );
+    }
+
+    return archive;
+  }
+
+  private static async computeChecksum(value: unknown): Promise<string> {
+    const bytes = new TextEncoder().encode(this.canonicalize(value));
+    const digest = await globalThis.crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * Serializes with sorted object keys so re-formatting the file does not change the checksum
+   */
+  private static canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.canonicalize(item)).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      const entries = Object.keys(record)
+        .filter(key => record[key] !== undefined)
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${this.canonicalize(record[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+  }
+}
@@ -0,0 +1,297 @@
+// Seekable Session Replay Engine
+
+import {
+  CodeHistoryEntry,
+  KeyMoment,
+  Operation,
+  SessionRecording,
+  TimestampedEvent
+} from '@/types/collaborative-session';
+import { OperationalTransform } from './operational-transform';
+
+// Take a code snapshot at least this often, in addition to events flagged as keyframes
+export const KEYFRAME_INTERVAL = 50;
+
+export interface ReplayState {
+  time: number; // milliseconds since the start of the recording
+  code: string;
+  eventIndex: number; // index of the last event applied, -1 before the first event
+  event: TimestampedEvent | null;
+}
+
+export interface DiffLine {
+  lineNumber: number;
+  text: string;
+}
+
+export interface SideBySideDiffRow {
+  type: 'unchanged' | 'added' | 'removed' | 'modified';
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+export interface ReplayOptions {
+  // Take a snapshot at least this often, in addition to events flagged as keyframes
+  keyframeInterval?: number;
+}
+
+export interface ReplaySnapshot {
+  eventIndex: number;
+  code: string;
+}
+
+export class SessionReplayEngine {
+  readonly events: TimestampedEvent[];
+  readonly startTime: number;
+  readonly duration: number;
+
+  private readonly offsets: number[];
+  private readonly snapshots: ReplaySnapshot[];
+
+  constructor(recording: SessionRecording, options: ReplayOptions = {}) {
+    this.events = [...recording.events].sort(
+      (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+    );
+
+    const timestamps = [...this.events, ...recording.keyMoments].map(item => item.timestamp.getTime());
+    this.startTime = timestamps.length > 0 ? Math.min(...timestamps) : recording.createdAt.getTime();
+    this.offsets = this.events.map(event => event.timestamp.getTime() - this.startTime);
+
+    const lastOffset = this.offsets.length > 0 ? this.offsets[this.offsets.length - 1] : 0;
+    this.duration = Math.max(recording.duration * 60 * 1000, lastOffset);
+
+    // Recordings imported from an archive carry its snapshots, which are used as they are
+    this.snapshots = recording.keyframes
+      ? recording.keyframes
+          .map(({ eventIndex, code }) => ({ eventIndex, code }))
+          .filter(keyframe => keyframe.eventIndex < this.events.length)
+          .sort((a, b) => a.eventIndex - b.eventIndex)
+      : this.buildSnapshots(options.keyframeInterval ?? KEYFRAME_INTERVAL);
+  }
+
+  /**
+   * Applies a single recorded event to the code it was made against. Committed
+   * operations are preferred, then the history entry diff, then the full content.
+   */
+  static applyEvent(code: string, event: TimestampedEvent): string {
+    if (event.type !== 'code_change' || !event.data) return code;
+
+    const { operations, operation, codeContent } = event.data as {
+      operations?: Operation[];
+      operation?: CodeHistoryEntry;
+      codeContent?: string;
+    };
+
+    if (Array.isArray(operations) && operations.length > 0) {
+      try {
+        return OperationalTransform.apply(code, operations);
+      } catch {
+        // Fall through to the next representation
+      }
+    }
+
+    if (operation?.startPosition) {
+      const patched = this.applyHistoryEntry(code, operation);
+      if (patched !== null) return patched;
+    }
+
+    return typeof codeContent === 'string' ? codeContent : code;
+  }
+
+  /**
+   * Produces a side-by-side line diff, pairing adjacent removals and additions as modifications
+   */
+  static diffLines(before: string, after: string): SideBySideDiffRow[] {
+    const left = before.split('\n');
+    const right = after.split('\n');
+
+    let prefix = 0;
+    while (prefix < left.length && prefix < right.length && left[prefix] === right[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < left.length - prefix &&
+      suffix < right.length - prefix &&
+      left[left.length - 1 - suffix] === right[right.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const leftMiddle = left.slice(prefix, left.length - suffix);
+    const rightMiddle = right.slice(prefix, right.length - suffix);
+
+    // Longest common subsequence table over the changed region
+    const lcs: number[][] = Array.from({ length: leftMiddle.length + 1 }, () =>
+      new Array<number>(rightMiddle.length + 1).fill(0)
+    );
+    for (let i = leftMiddle.length - 1; i >= 0; i--) {
+      for (let j = rightMiddle.length - 1; j >= 0; j--) {
+        lcs[i][j] = leftMiddle[i] === rightMiddle[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const rows: SideBySideDiffRow[] = [];
+    const line = (lines: string[], index: number): DiffLine => ({ lineNumber: index + 1, text: lines[index] });
+
+    for (let i = 0; i < prefix; i++) {
+      rows.push({ type: 'unchanged', left: line(left, i), right: line(right, i) });
+    }
+
+    let removed: DiffLine[] = [];
+    let added: DiffLine[] = [];
+    const flush = () => {
+      const paired = Math.min(removed.length, added.length);
+      for (let k = 0; k < paired; k++) {
+        rows.push({ type: 'modified', left: removed[k], right: added[k] });
+      }
+      removed.slice(paired).forEach(entry => rows.push({ type: 'removed', left: entry }));
+      added.slice(paired).forEach(entry => rows.push({ type: 'added', right: entry }));
+      removed = [];
+      added = [];
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < leftMiddle.length || j < rightMiddle.length) {
+      if (i < leftMiddle.length && j < rightMiddle.length && leftMiddle[i] === rightMiddle[j]) {
+        flush();
+        rows.push({ type: 'unchanged', left: line(left, prefix + i), right: line(right, prefix + j) });
+        i++;
+        j++;
+      } else if (j >= rightMiddle.length || (i < leftMiddle.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+        removed.push(line(left, prefix + i));
+        i++;
+      } else {
+        added.push(line(right, prefix + j));
+        j++;
+      }
+    }
+    flush();
+
+    for (let k = suffix; k > 0; k--) {
+      rows.push({ type: 'unchanged', left: line(left, left.length - k), right: line(right, right.length - k) });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Code snapshots the engine seeks from, ordered by event index
+   */
+  get keyframes(): ReadonlyArray<ReplaySnapshot> {
+    return this.snapshots;
+  }
+
+  /**
+   * Converts an absolute timestamp into a playback offset
+   */
+  offsetOf(timestamp: Date): number {
+    return Math.max(0, timestamp.getTime() - this.startTime);
+  }
+
+  /**
+   * Reconstructs the editor state at a playback offset from the nearest preceding snapshot
+   */
+  stateAt(time: number): ReplayState {
+    const clamped = Math.min(Math.max(time, 0), this.duration);
+    const eventIndex = this.lastEventIndexAt(clamped);
+    const snapshot = this.nearestSnapshot(eventIndex);
+
+    let code = snapshot?.code ?? '';
+    for (let index = (snapshot?.eventIndex ?? -1) + 1; index <= eventIndex; index++) {
+      code = SessionReplayEngine.applyEvent(code, this.events[index]);
+    }
+
+    return {
+      time: clamped,
+      code,
+      eventIndex,
+      event: eventIndex >= 0 ? this.events[eventIndex] : null
+    };
+  }
+
+  /**
+   * Events that happened in the half-open playback window (from, to]
+   */
+  eventsBetween(from: number, to: number): TimestampedEvent[] {
+    return this.events.filter((_, index) => this.offsets[index] > from && this.offsets[index] <= to);
+  }
+
+  keyMomentTime(moment: KeyMoment): number {
+    return this.offsetOf(moment.timestamp);
+  }
+
+  /**
+   * Side-by-side diff of the code between two playback offsets
+   */
+  diff(fromTime: number, toTime: number): SideBySideDiffRow[] {
+    return SessionReplayEngine.diffLines(this.stateAt(fromTime).code, this.stateAt(toTime).code);
+  }
+
+  private lastEventIndexAt(time: number): number {
+    let low = 0;
+    let high = this.offsets.length - 1;
+    let result = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (this.offsets[mid] <= time) {
+        result = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return result;
+  }
+
+  private nearestSnapshot(eventIndex: number): ReplaySnapshot | undefined {
+    let low = 0;
+    let high = this.snapshots.length - 1;
+    let result: ReplaySnapshot | undefined;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (this.snapshots[mid].eventIndex <= eventIndex) {
+        result = this.snapshots[mid];
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return result;
+  }
+
+  private buildSnapshots(interval: number): ReplaySnapshot[] {
+    const snapshots: ReplaySnapshot[] = [];
+    let code = '';
+    let changesSinceSnapshot = 0;
+
+    this.events.forEach((event, eventIndex) => {
+      code = SessionReplayEngine.applyEvent(code, event);
+      if (event.type === 'code_change') changesSinceSnapshot++;
+
+      if (event.isKeyframe || changesSinceSnapshot >= interval) {
+        snapshots.push({ eventIndex, code });
+        changesSinceSnapshot = 0;
+      }
+    });
+
+    return snapshots;
+  }
+
+  private static applyHistoryEntry(code: string, entry: CodeHistoryEntry): string | null {
+    const start = entry.startPosition.offset;
+    const removedLength = entry.oldContent !== undefined
+      ? entry.oldContent.length
+      : Math.max(0, (entry.endPosition?.offset ?? start) - start);
+
+    if (start < 0 || start + removedLength > code.length) return null;
+    if (entry.oldContent !== undefined && code.slice(start, start + removedLength) !== entry.oldContent) {
+      return null;
+    }
+
+    return code.slice(0, start) + (entry.newContent ?? '') + code.slice(start + removedLength);
+  }
+}
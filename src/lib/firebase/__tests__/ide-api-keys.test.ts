@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IdeApiKeyService, IdeApiKeyError } from '../ide-api-keys';
+import { generateApiKey, hashApiKey } from '@/lib/ide-integration/auth-utils';
+
+const store = vi.hoisted(() => new Map<string, Record<string, any>>());
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn((_db: unknown, name: string) => name),
+  doc: vi.fn((_db: unknown, _collection: string, id: string) => id),
+  query: vi.fn((_collection: string, ...filters: Array<{ field: string; value: unknown }>) => filters),
+  where: vi.fn((field: string, _op: string, value: unknown) => ({ field, value })),
+  getDoc: vi.fn(async (id: string) => ({ id, exists: () => store.has(id), data: () => store.get(id) })),
+  getDocs: vi.fn(async (filters: Array<{ field: string; value: unknown }>) => ({
+    docs: Array.from(store.entries())
+      .filter(([, data]) => filters.every(filter => data[filter.field] === filter.value))
+      .map(([id, data]) => ({ id, data: () => data })),
+  })),
+  setDoc: vi.fn(async (id: string, data: Record<string, any>) => {
+    store.set(id, data);
+  }),
+  updateDoc: vi.fn(async (id: string, patch: Record<string, any>) => {
+    store.set(id, { ...store.get(id), ...patch });
+  }),
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+async function expectError(promise: Promise<unknown>, code: IdeApiKeyError['code']) {
+  await expect(promise).rejects.toMatchObject({ name: 'IdeApiKeyError', code });
+}
+
+describe('IdeApiKeyService', () => {
+  const issue = (overrides: Partial<Parameters<typeof IdeApiKeyService.issueKey>[0]> = {}) =>
+    IdeApiKeyService.issueKey({ userId: 'user1', pluginName: 'VS Code', pluginVersion: '1.0.0', ...overrides });
+
+  beforeEach(() => {
+    store.clear();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores only the hash and verifies the key on use', async () => {
+    const { apiKey, key } = await issue();
+
+    const stored = store.get(key.keyId)!;
+    expect(stored.hashedKey).toBe(hashApiKey(apiKey));
+    expect(JSON.stringify(stored)).not.toContain(apiKey);
+
+    vi.setSystemTime(new Date('2025-01-01T01:00:00Z'));
+    const verified = await IdeApiKeyService.verifyKey(apiKey, { userId: 'user1', scope: 'feedback' });
+
+    expect(verified.keyId).toBe(key.keyId);
+    expect(store.get(key.keyId)!.lastUsed).toBe('2025-01-01T01:00:00.000Z');
+  });
+
+  it('rejects forged keys and keys presented for another user', async () => {
+    const { apiKey } = await issue();
+
+    await expectError(IdeApiKeyService.verifyKey(generateApiKey('user1')), 'invalid_key');
+    await expectError(IdeApiKeyService.verifyKey('kiro_user1_forged_key_with_the_right_prefix'), 'invalid_key');
+    await expectError(IdeApiKeyService.verifyKey(apiKey, { userId: 'user2' }), 'invalid_key');
+  });
+
+  it('grants only feedback and credentials unless more scopes are requested', async () => {
+    const { apiKey, key } = await issue();
+
+    expect(key.permissions).toEqual(['feedback', 'credentials']);
+    await expectError(IdeApiKeyService.verifyKey(apiKey, { scope: 'realTimeAnalysis' }), 'insufficient_scope');
+  });
+
+  it('enforces the scopes granted to the key', async () => {
+    const { apiKey, key } = await issue({ permissions: ['feedback', 'notAScope'] });
+
+    expect(key.permissions).toEqual(['feedback']);
+    await expect(IdeApiKeyService.verifyKey(apiKey, { scope: 'feedback' })).resolves.toBeDefined();
+    await expectError(IdeApiKeyService.verifyKey(apiKey, { scope: 'realTimeAnalysis' }), 'insufficient_scope');
+  });
+
+  it('rejects keys past their expiry', async () => {
+    const { apiKey, key } = await issue({ expiresInDays: 1 });
+
+    expect(key.expiresAt).toEqual(new Date('2025-01-02T00:00:00Z'));
+    vi.setSystemTime(new Date('2025-01-02T00:00:01Z'));
+
+    await expectError(IdeApiKeyService.verifyKey(apiKey), 'expired');
+    expect(await IdeApiKeyService.listKeys('user1')).toEqual([]);
+  });
+
+  it('keeps a rotated key working until its grace period ends', async () => {
+    const { apiKey: oldKey, key } = await issue({ expiresInDays: 30 });
+    vi.setSystemTime(new Date('2025-01-10T00:00:00Z'));
+
+    const { apiKey: newKey, key: replacement } = await IdeApiKeyService.rotateKey(key.keyId, 'user1', { gracePeriodMinutes: 60 });
+
+    // The replacement gets the same lifetime, counted from the rotation
+    expect(replacement.expiresAt).toEqual(new Date('2025-02-09T00:00:00Z'));
+    expect(replacement.permissions).toEqual(key.permissions);
+    await expect(IdeApiKeyService.verifyKey(oldKey)).resolves.toBeDefined();
+    await expect(IdeApiKeyService.verifyKey(newKey)).resolves.toBeDefined();
+    expect((await IdeApiKeyService.listKeys('user1')).map(listed => IdeApiKeyService.status(listed))).toEqual(['active', 'rotating']);
+    await expectError(IdeApiKeyService.rotateKey(key.keyId, 'user1'), 'revoked');
+
+    vi.setSystemTime(new Date(Date.now() + HOUR));
+
+    await expectError(IdeApiKeyService.verifyKey(oldKey), 'revoked');
+    await expect(IdeApiKeyService.verifyKey(newKey)).resolves.toBeDefined();
+    expect((await IdeApiKeyService.listKeys('user1')).map(listed => listed.keyId)).toEqual([replacement.keyId]);
+  });
+
+  it('revokes keys only for their owner', async () => {
+    const { apiKey, key } = await issue();
+
+    await expectError(IdeApiKeyService.revokeKey(key.keyId, 'user2'), 'forbidden');
+    await expectError(IdeApiKeyService.revokeKey('missing', 'user1'), 'not_found');
+
+    await IdeApiKeyService.revokeKey(key.keyId, 'user1');
+
+    await expectError(IdeApiKeyService.verifyKey(apiKey), 'revoked');
+    expect(await IdeApiKeyService.listKeys('user1')).toEqual([]);
+  });
+
+  it('accepts keys stored before hashed key IDs were introduced', async () => {
+    const apiKey = generateApiKey('user1');
+    const timestamp = (iso: string) => ({ toDate: () => new Date(iso) });
+    store.set(apiKey.substring(0, 16), {
+      userId: 'user1',
+      hashedKey: hashApiKey(apiKey),
+      pluginName: 'VS Code',
+      pluginVersion: '0.9.0',
+      createdAt: timestamp('2024-06-01T00:00:00Z'),
+      lastUsed: null,
+      isActive: true,
+      permissions: ['feedback', 'credentials'],
+    });
+
+    const verified = await IdeApiKeyService.verifyKey(apiKey, { userId: 'user1', scope: 'feedback' });
+    expect(verified.keyId).toBe(apiKey.substring(0, 16));
+    expect(verified.createdAt).toEqual(new Date('2024-06-01T00:00:00Z'));
+    expect((await IdeApiKeyService.listKeys('user1')).map(listed => listed.keyId)).toEqual([verified.keyId]);
+
+    await IdeApiKeyService.revokeKey(verified.keyId, 'user1');
+    await expectError(IdeApiKeyService.verifyKey(apiKey), 'revoked');
+  });
+});
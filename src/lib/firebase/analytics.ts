@@ -28,6 +28,7 @@ import {
   ChallengeDocument,
   CompetitionDocument,
   ChallengeSubmissionDocument,
+  CodeSubmission,
   SkillLevel
 } from '@/types/analytics';
 
@@ -268,6 +269,30 @@ export class AnalyticsDataService {
     }
   }
 
+  static async getCodeSubmission(submissionId: string): Promise<CodeSubmission | null> {
+    try {
+      const q = query(
+        collection(db, COLLECTIONS.ANALYTICS_DATA),
+        where('codeSubmission.submissionId', '==', submissionId),
+        limit(1)
+      );
+      
+      const querySnapshot = await getDocs(q);
+      if (!querySnapshot.empty) {
+        const data = querySnapshot.docs[0].data() as AnalyticsDataDocument;
+        return {
+          ...data.codeSubmission,
+          timestamp: new Date(data.codeSubmission.timestamp)
+        };
+      }
+      
+      return null;
+    } catch (error) {
+      console.error('Error fetching code submission:', error);
+      throw error;
+    }
+  }
+
   private static convertDocumentToAnalyticsData(doc: AnalyticsDataDocument): AnalyticsData {
     return {
       ...doc,
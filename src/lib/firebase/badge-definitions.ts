@@ -0,0 +1,402 @@
+// Firebase Badge Definition Operations
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  runTransaction,
+  Transaction
+} from 'firebase/firestore';
+import { db } from './config';
+import {
+  BadgeDefinition,
+  BadgeDefinitionDocument,
+  BadgeDefinitionInput,
+  BadgeRule,
+  BadgeRuleTrace,
+  HeldBadgeDocument
+} from '@/types/gamification';
+import { BadgeRuleEngine, BadgeRuleValidationResult } from '@/lib/gamification/badge-rules';
+import { BadgeCalculator } from '@/lib/gamification/badge-calculator';
+import { DEFAULT_BADGE_DEFINITIONS } from '@/lib/gamification/default-badge-definitions';
+import { UserProgressService } from './analytics';
+import { PeerReviewService } from './peer-review';
+import { POINTS_LEDGER_COLLECTIONS, PointsLedgerService } from './points-ledger';
+
+// Collection names
+export const BADGE_DEFINITION_COLLECTIONS = {
+  DEFINITIONS: 'badgeDefinitions', // current version of each stored definition
+  VERSIONS: 'badgeDefinitionVersions', // immutable copy of every version
+  ADMINS: 'badgeAdmins',
+  HELD: 'heldBadges' // one document per badge a user holds
+} as const;
+
+const DEFAULT_DRY_RUN_LIMIT = 500;
+// Active definitions are read on every award, so they are reused for a short while; edits
+// made on another server instance take effect within this time
+const ACTIVE_DEFINITIONS_TTL_MS = 60 * 1000;
+
+export interface BadgeDryRunMatch {
+  userId: string;
+  trace: BadgeRuleTrace;
+}
+
+export interface BadgeDryRunResult {
+  validation: BadgeRuleValidationResult;
+  evaluatedUsers: number;
+  skippedUsers: string[]; // users without progress to evaluate against
+  earners: BadgeDryRunMatch[];
+}
+
+export class BadgeDefinitionService {
+  private static activeDefinitions: { definitions: BadgeDefinition[]; loadedAt: number } | null = null;
+
+  // Helper methods for document conversion; optional fields are left out rather than written as undefined
+  private static convertDefinitionToDocument(definition: BadgeDefinition): BadgeDefinitionDocument {
+    const { description, limitedEdition, evaluateOn, changeNote, badgeType, rule, ...rest } = definition;
+    return {
+      ...rest,
+      badgeType: JSON.parse(JSON.stringify(badgeType)),
+      rule: JSON.parse(JSON.stringify(rule)),
+      ...(description && { description }),
+      ...(limitedEdition !== undefined && { limitedEdition }),
+      ...(evaluateOn && { evaluateOn }),
+      ...(changeNote && { changeNote }),
+      createdAt: definition.createdAt.toISOString(),
+      updatedAt: definition.updatedAt.toISOString()
+    };
+  }
+
+  private static convertDocumentToDefinition(doc: BadgeDefinitionDocument): BadgeDefinition {
+    return { ...doc, createdAt: new Date(doc.createdAt), updatedAt: new Date(doc.updatedAt) };
+  }
+
+  private static definitionRef(badgeId: string) {
+    return doc(db, BADGE_DEFINITION_COLLECTIONS.DEFINITIONS, badgeId);
+  }
+
+  private static versionRef(badgeId: string, version: number) {
+    return doc(db, BADGE_DEFINITION_COLLECTIONS.VERSIONS, `${badgeId}_v${version}`);
+  }
+
+  private static heldRef(userId: string, badgeId: string) {
+    return doc(db, BADGE_DEFINITION_COLLECTIONS.HELD, `${userId}_${badgeId}`);
+  }
+
+  static async isBadgeAdmin(userId: string): Promise<boolean> {
+    try {
+      const docSnap = await getDoc(doc(db, BADGE_DEFINITION_COLLECTIONS.ADMINS, userId));
+      return docSnap.exists();
+    } catch (error) {
+      console.error('Error checking badge admin status:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Every definition, stored ones taking precedence over the built-in defaults
+   */
+  static async listDefinitions(status?: BadgeDefinition['status']): Promise<BadgeDefinition[]> {
+    try {
+      const querySnapshot = await getDocs(collection(db, BADGE_DEFINITION_COLLECTIONS.DEFINITIONS));
+      const stored = querySnapshot.docs.map(docSnap => this.convertDocumentToDefinition(docSnap.data() as BadgeDefinitionDocument));
+      const storedIds = new Set(stored.map(definition => definition.badgeId));
+
+      return [...stored, ...DEFAULT_BADGE_DEFINITIONS.filter(definition => !storedIds.has(definition.badgeId))]
+        .filter(definition => !status || definition.status === status)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Error listing badge definitions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The definitions badges are currently awarded by
+   */
+  static async getActiveDefinitions(): Promise<BadgeDefinition[]> {
+    const cached = this.activeDefinitions;
+    if (cached && Date.now() - cached.loadedAt < ACTIVE_DEFINITIONS_TTL_MS) {
+      return cached.definitions;
+    }
+
+    const definitions = await this.listDefinitions('active');
+    this.activeDefinitions = { definitions, loadedAt: Date.now() };
+    return definitions;
+  }
+
+  /**
+   * IDs of the definitions whose badge the user already holds
+   */
+  static async getHeldBadgeIds(userId: string): Promise<Set<string>> {
+    try {
+      const querySnapshot = await getDocs(query(
+        collection(db, BADGE_DEFINITION_COLLECTIONS.HELD),
+        where('userId', '==', userId)
+      ));
+      return new Set(querySnapshot.docs.map(docSnap => (docSnap.data() as HeldBadgeDocument).badgeId));
+    } catch (error) {
+      console.error('Error getting held badges:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records that the user holds the definition's badge. Returns false, writing nothing, when
+   * they already hold it, so concurrent or replayed evaluations award it once.
+   */
+  static async claimBadge(userId: string, definition: BadgeDefinition, awardedAt: Date): Promise<boolean> {
+    try {
+      return await runTransaction(db, async (transaction) => {
+        const ref = this.heldRef(userId, definition.badgeId);
+        if ((await transaction.get(ref)).exists()) {
+          return false;
+        }
+
+        const held: HeldBadgeDocument = {
+          userId,
+          badgeId: definition.badgeId,
+          badgeName: definition.name,
+          definitionVersion: definition.version,
+          awardedAt: awardedAt.toISOString()
+        };
+        transaction.set(ref, held);
+        return true;
+      });
+    } catch (error) {
+      console.error('Error claiming badge:', error);
+      throw error;
+    }
+  }
+
+  static async getDefinition(badgeId: string): Promise<BadgeDefinition | null> {
+    try {
+      const docSnap = await getDoc(this.definitionRef(badgeId));
+      if (docSnap.exists()) {
+        return this.convertDocumentToDefinition(docSnap.data() as BadgeDefinitionDocument);
+      }
+      return DEFAULT_BADGE_DEFINITIONS.find(definition => definition.badgeId === badgeId) ?? null;
+    } catch (error) {
+      console.error('Error getting badge definition:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every version of a definition, oldest first; a built-in definition that was never
+   * edited has only its shipped version
+   */
+  static async getVersions(badgeId: string): Promise<BadgeDefinition[]> {
+    try {
+      const q = query(
+        collection(db, BADGE_DEFINITION_COLLECTIONS.VERSIONS),
+        where('badgeId', '==', badgeId),
+        orderBy('version', 'asc')
+      );
+      const querySnapshot = await getDocs(q);
+      const versions = querySnapshot.docs.map(docSnap => this.convertDocumentToDefinition(docSnap.data() as BadgeDefinitionDocument));
+      const shipped = DEFAULT_BADGE_DEFINITIONS.find(definition => definition.badgeId === badgeId);
+      return shipped ? [shipped, ...versions] : versions;
+    } catch (error) {
+      console.error('Error getting badge definition versions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Adds a definition at version 1; its ID is derived from its name and must be unused
+   */
+  static async createDefinition(input: BadgeDefinitionInput, adminId: string, changeNote?: string): Promise<BadgeDefinition> {
+    try {
+      await this.assertBadgeAdmin(adminId, 'create badge definitions');
+      const valid = BadgeRuleEngine.assertValid(input);
+      const badgeId = BadgeRuleEngine.badgeIdFor(valid.name);
+
+      return await runTransaction(db, async (transaction) => {
+        const existing = await transaction.get(this.definitionRef(badgeId));
+        if (existing.exists() || DEFAULT_BADGE_DEFINITIONS.some(definition => definition.badgeId === badgeId)) {
+          throw new Error(`Badge definition ${badgeId} already exists`);
+        }
+
+        const now = new Date();
+        const definition: BadgeDefinition = {
+          ...valid,
+          badgeId,
+          version: 1,
+          status: valid.status ?? 'draft',
+          createdAt: now,
+          updatedAt: now,
+          updatedBy: adminId,
+          ...(changeNote && { changeNote })
+        };
+        this.writeVersion(transaction, definition);
+        return definition;
+      });
+    } catch (error) {
+      console.error('Error creating badge definition:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stores the changed definition as its next version; earlier versions are kept
+   */
+  static async updateDefinition(
+    badgeId: string,
+    changes: Partial<BadgeDefinitionInput>,
+    adminId: string,
+    changeNote?: string
+  ): Promise<BadgeDefinition> {
+    try {
+      await this.assertBadgeAdmin(adminId, 'edit badge definitions');
+      return await this.nextVersion(badgeId, adminId, current => {
+        if (current.status === 'retired') {
+          throw new Error(`Badge definition ${badgeId} is retired and cannot be edited`);
+        }
+        const valid = BadgeRuleEngine.assertValid({ ...this.inputOf(current), ...changes });
+        return { ...valid, status: valid.status ?? current.status, ...(changeNote && { changeNote }) };
+      });
+    } catch (error) {
+      console.error('Error updating badge definition:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stops a definition from awarding badges; badges already awarded are kept
+   */
+  static async retireDefinition(badgeId: string, adminId: string, reason: string): Promise<BadgeDefinition> {
+    try {
+      await this.assertBadgeAdmin(adminId, 'retire badge definitions');
+      return await this.nextVersion(badgeId, adminId, current => {
+        if (current.status === 'retired') {
+          throw new Error(`Badge definition ${badgeId} is already retired`);
+        }
+        return { ...this.inputOf(current), status: 'retired', changeNote: reason };
+      });
+    } catch (error) {
+      console.error('Error retiring badge definition:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Evaluates a rule against users' recorded history without awarding anything, to see
+   * who would earn the badge. Users default to everyone with points, up to a limit.
+   * Conditions on the submission being processed (code quality, detected skills) are not
+   * met in a dry run.
+   */
+  static async dryRun(
+    rule: unknown,
+    adminId: string,
+    options: { userIds?: string[]; limit?: number } = {}
+  ): Promise<BadgeDryRunResult> {
+    try {
+      await this.assertBadgeAdmin(adminId, 'dry-run badge rules');
+      const validation = BadgeRuleEngine.validateRule(rule);
+      if (!validation.isValid) {
+        return { validation, evaluatedUsers: 0, skippedUsers: [], earners: [] };
+      }
+
+      const userIds = options.userIds ?? await this.usersWithPoints(options.limit ?? DEFAULT_DRY_RUN_LIMIT);
+      const now = new Date();
+      const skippedUsers: string[] = [];
+      const earners: BadgeDryRunMatch[] = [];
+
+      for (const userId of userIds) {
+        const [userProgress, ledger, totals, reviewerProfile] = await Promise.all([
+          UserProgressService.getUserProgress(userId),
+          PointsLedgerService.getEntries(userId),
+          PointsLedgerService.getTotals(userId),
+          PeerReviewService.getReviewerProfile(userId)
+        ]);
+        if (!userProgress) {
+          skippedUsers.push(userId);
+          continue;
+        }
+
+        const facts = BadgeCalculator.buildBadgeFacts({
+          userId,
+          userProgress,
+          ledger,
+          totalPoints: totals?.total ?? 0,
+          ...(reviewerProfile && { reviewerStats: reviewerProfile.reviewStats })
+        }, now);
+        const trace = BadgeRuleEngine.evaluate(rule as BadgeRule, facts);
+        if (trace.passed) earners.push({ userId, trace });
+      }
+
+      return { validation, evaluatedUsers: userIds.length - skippedUsers.length, skippedUsers, earners };
+    } catch (error) {
+      console.error('Error dry-running badge rule:', error);
+      throw error;
+    }
+  }
+
+  private static async assertBadgeAdmin(userId: string, action: string): Promise<void> {
+    if (!(await this.isBadgeAdmin(userId))) {
+      throw new Error(`Only badge admins can ${action}`);
+    }
+  }
+
+  private static inputOf(definition: BadgeDefinition): BadgeDefinitionInput {
+    const { name, description, badgeType, rarity, limitedEdition, evaluateOn, rule, status } = definition;
+    return {
+      name,
+      badgeType,
+      rarity,
+      rule,
+      ...(description && { description }),
+      ...(limitedEdition !== undefined && { limitedEdition }),
+      ...(evaluateOn && { evaluateOn }),
+      ...(status !== 'retired' && { status })
+    };
+  }
+
+  // Writes the next version of a stored or built-in definition, in one transaction
+  private static async nextVersion(
+    badgeId: string,
+    adminId: string,
+    change: (current: BadgeDefinition) => BadgeDefinitionInput & { status?: BadgeDefinition['status']; changeNote?: string }
+  ): Promise<BadgeDefinition> {
+    return runTransaction(db, async (transaction) => {
+      const docSnap = await transaction.get(this.definitionRef(badgeId));
+      const current = docSnap.exists()
+        ? this.convertDocumentToDefinition(docSnap.data() as BadgeDefinitionDocument)
+        : DEFAULT_BADGE_DEFINITIONS.find(definition => definition.badgeId === badgeId);
+      if (!current) {
+        throw new Error(`Badge definition ${badgeId} not found`);
+      }
+
+      const { status, ...next } = change(current);
+      const definition: BadgeDefinition = {
+        ...next,
+        badgeId,
+        version: current.version + 1,
+        status: status ?? current.status,
+        createdAt: current.createdAt,
+        updatedAt: new Date(),
+        updatedBy: adminId
+      };
+      this.writeVersion(transaction, definition);
+      return definition;
+    });
+  }
+
+  private static writeVersion(transaction: Transaction, definition: BadgeDefinition): void {
+    const document = this.convertDefinitionToDocument(definition);
+    transaction.set(this.definitionRef(definition.badgeId), document);
+    transaction.set(this.versionRef(definition.badgeId, definition.version), document);
+    this.activeDefinitions = null;
+  }
+
+  private static async usersWithPoints(max: number): Promise<string[]> {
+    const querySnapshot = await getDocs(query(collection(db, POINTS_LEDGER_COLLECTIONS.TOTALS), limit(max)));
+    return querySnapshot.docs.map(docSnap => docSnap.id);
+  }
+}
@@ -0,0 +1,251 @@
+// Firebase Persistence for Mentor Chat Threads
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  arrayUnion
+} from 'firebase/firestore';
+import { db } from './config';
+import { ConversationMemory } from '@/lib/chat/conversation-memory';
+import {
+  ChatThread,
+  ChatThreadDocument,
+  ChatThreadSummary,
+  ChatTurn,
+  ChatTurnDocument
+} from '@/types/chat';
+
+export type ChatThreadErrorCode = 'not_found' | 'forbidden' | 'invalid_fork_point';
+
+export class ChatThreadError extends Error {
+  constructor(message: string, public readonly code: ChatThreadErrorCode) {
+    super(message);
+    this.name = 'ChatThreadError';
+  }
+}
+
+export interface CreateChatThreadOptions {
+  userId: string;
+  code: string;
+  title?: string;
+}
+
+export interface ListChatThreadsOptions {
+  codeSnapshotId?: string;
+  limitCount?: number;
+}
+
+export interface ForkChatThreadOptions {
+  // Number of turns to keep; defaults to the whole thread
+  turnCount?: number;
+  title?: string;
+}
+
+const MAX_TITLE_LENGTH = 120;
+const PREVIEW_LENGTH = 100;
+
+export class ChatThreadService {
+  private static readonly COLLECTION = 'chatThreads';
+
+  static async createThread(options: CreateChatThreadOptions): Promise<ChatThread> {
+    try {
+      const now = new Date();
+      const thread: ChatThread = {
+        threadId: this.generateThreadId(),
+        userId: options.userId,
+        title: this.normalizeTitle(options.title) || 'New conversation',
+        codeSnapshotId: await ConversationMemory.snapshotId(options.code),
+        codeSnapshot: options.code,
+        turns: [],
+        summarizedTurnCount: 0,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await setDoc(doc(db, this.COLLECTION, thread.threadId), this.toDocument(thread));
+      return thread;
+    } catch (error) {
+      console.error('Error creating chat thread:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Loads a thread, rejecting threads that belong to another user
+   */
+  static async getThread(threadId: string, userId: string): Promise<ChatThread> {
+    const snapshot = await getDoc(doc(db, this.COLLECTION, threadId));
+    if (!snapshot.exists()) {
+      throw new ChatThreadError(`Chat thread ${threadId} not found`, 'not_found');
+    }
+
+    const thread = this.fromDocument(snapshot.data() as ChatThreadDocument);
+    if (thread.userId !== userId) {
+      throw new ChatThreadError(`Chat thread ${threadId} belongs to another user`, 'forbidden');
+    }
+    return thread;
+  }
+
+  /**
+   * Lists a user's threads, most recently active first, optionally for one code snapshot
+   */
+  static async listThreads(userId: string, options: ListChatThreadsOptions = {}): Promise<ChatThreadSummary[]> {
+    try {
+      const constraints = [
+        where('userId', '==', userId),
+        ...(options.codeSnapshotId ? [where('codeSnapshotId', '==', options.codeSnapshotId)] : []),
+        orderBy('updatedAt', 'desc'),
+        limit(options.limitCount ?? 20)
+      ];
+
+      const snapshot = await getDocs(query(collection(db, this.COLLECTION), ...constraints));
+      return snapshot.docs.map(threadDoc => this.toSummary(this.fromDocument(threadDoc.data() as ChatThreadDocument)));
+    } catch (error) {
+      console.error('Error listing chat threads:', error);
+      throw error;
+    }
+  }
+
+  static async renameThread(threadId: string, userId: string, title: string): Promise<void> {
+    await this.getThread(threadId, userId);
+
+    await updateDoc(doc(db, this.COLLECTION, threadId), {
+      title: this.normalizeTitle(title) || 'Untitled conversation',
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Copies the first `turnCount` turns into a new thread so the user can explore
+   * a different direction without losing the original conversation
+   */
+  static async forkThread(threadId: string, userId: string, options: ForkChatThreadOptions = {}): Promise<ChatThread> {
+    const source = await this.getThread(threadId, userId);
+    const turnCount = options.turnCount ?? source.turns.length;
+
+    if (!Number.isInteger(turnCount) || turnCount < 0 || turnCount > source.turns.length) {
+      throw new ChatThreadError(
+        `Cannot fork at turn ${turnCount}; thread has ${source.turns.length} turns`,
+        'invalid_fork_point'
+      );
+    }
+
+    // The summary can only be reused if it covers no turns past the fork point
+    const keepsSummary = source.summarizedTurnCount <= turnCount;
+    const now = new Date();
+    const fork: ChatThread = {
+      ...source,
+      threadId: this.generateThreadId(),
+      title: this.normalizeTitle(options.title) || this.normalizeTitle(`${source.title} (fork)`),
+      turns: source.turns.slice(0, turnCount),
+      summary: keepsSummary ? source.summary : undefined,
+      summarizedTurnCount: keepsSummary ? source.summarizedTurnCount : 0,
+      forkedFrom: { threadId: source.threadId, turnCount },
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await setDoc(doc(db, this.COLLECTION, fork.threadId), this.toDocument(fork));
+    return fork;
+  }
+
+  static async deleteThread(threadId: string, userId: string): Promise<void> {
+    await this.getThread(threadId, userId);
+    await deleteDoc(doc(db, this.COLLECTION, threadId));
+  }
+
+  /**
+   * Appends completed turns in order without overwriting turns added concurrently
+   */
+  static async appendTurns(threadId: string, turns: ChatTurn[]): Promise<void> {
+    try {
+      await updateDoc(doc(db, this.COLLECTION, threadId), {
+        turns: arrayUnion(...turns.map(turn => this.toTurnDocument(turn))),
+        updatedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error appending chat turns:', error);
+      throw error;
+    }
+  }
+
+  static async saveSummary(threadId: string, summary: string, summarizedTurnCount: number): Promise<void> {
+    try {
+      await updateDoc(doc(db, this.COLLECTION, threadId), { summary, summarizedTurnCount });
+    } catch (error) {
+      console.error('Error saving chat thread summary:', error);
+      throw error;
+    }
+  }
+
+  static generateTurnId(): string {
+    return `turn_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  private static generateThreadId(): string {
+    return `thread_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  private static normalizeTitle(title: string | undefined): string {
+    return (title || '').replace(/\s+/g, ' ').trim().slice(0, MAX_TITLE_LENGTH);
+  }
+
+  private static toSummary(thread: ChatThread): ChatThreadSummary {
+    const lastTurn = thread.turns[thread.turns.length - 1];
+    return {
+      threadId: thread.threadId,
+      title: thread.title,
+      codeSnapshotId: thread.codeSnapshotId,
+      turnCount: thread.turns.length,
+      lastMessagePreview: lastTurn?.content.slice(0, PREVIEW_LENGTH),
+      forkedFrom: thread.forkedFrom,
+      createdAt: thread.createdAt,
+      updatedAt: thread.updatedAt
+    };
+  }
+
+  private static toTurnDocument(turn: ChatTurn): ChatTurnDocument {
+    return {
+      turnId: turn.turnId,
+      role: turn.role,
+      content: turn.content,
+      createdAt: turn.createdAt.toISOString(),
+      ...(turn.analyticsSessionId ? { analyticsSessionId: turn.analyticsSessionId } : {})
+    };
+  }
+
+  private static toDocument(thread: ChatThread): ChatThreadDocument {
+    return {
+      threadId: thread.threadId,
+      userId: thread.userId,
+      title: thread.title,
+      codeSnapshotId: thread.codeSnapshotId,
+      codeSnapshot: thread.codeSnapshot,
+      turns: thread.turns.map(turn => this.toTurnDocument(turn)),
+      ...(thread.summary !== undefined ? { summary: thread.summary } : {}),
+      summarizedTurnCount: thread.summarizedTurnCount,
+      ...(thread.forkedFrom ? { forkedFrom: thread.forkedFrom } : {}),
+      createdAt: thread.createdAt.toISOString(),
+      updatedAt: thread.updatedAt.toISOString()
+    };
+  }
+
+  private static fromDocument(document: ChatThreadDocument): ChatThread {
+    return {
+      ...document,
+      turns: (document.turns || []).map(turn => ({ ...turn, createdAt: new Date(turn.createdAt) })),
+      summarizedTurnCount: document.summarizedTurnCount ?? 0,
+      createdAt: new Date(document.createdAt),
+      updatedAt: new Date(document.updatedAt)
+    };
+  }
+}
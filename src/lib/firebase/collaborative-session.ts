@@ -17,7 +17,8 @@ import {
   arrayRemove,
   Timestamp,
   onSnapshot,
-  deleteDoc
+  deleteDoc,
+  runTransaction
 } from 'firebase/firestore';
 import { db } from './config';
 import {
@@ -35,8 +36,20 @@ import {
   TimestampedEvent,
   CodeHistoryEntry,
   SessionComment,
-  RealTimeUpdate
+  SessionCommentDocument,
+  RealTimeUpdate,
+  Operation,
+  OperationDocument
 } from '@/types/collaborative-session';
+import {
+  OperationalTransform,
+  OperationConflictError,
+  type OperationCommit
+} from '@/lib/collaborative-session/operational-transform';
+import {
+  RecordingImportOptions,
+  SessionRecordingArchive
+} from '@/lib/collaborative-session/recording-archive';
 
 // Collection names
 export const COLLABORATIVE_SESSION_COLLECTIONS = {
@@ -48,11 +61,39 @@ export const COLLABORATIVE_SESSION_COLLECTIONS = {
   REAL_TIME_UPDATES: 'realTimeUpdates'
 } as const;
 
+// Number of most recent document versions whose operations are kept for rebasing
+export const OPERATION_HISTORY_VERSIONS = 100;
+
+// Comments loaded into a session's chat
+const COMMENT_HISTORY_SIZE = 200;
+
 export class CollaborativeSessionService {
   // Helper methods for document conversion
+  private static toDate(value: any): Date {
+    return typeof value?.toDate === 'function' ? value.toDate() : new Date(value);
+  }
+
+  private static serializeOperations(operations: Operation[]): OperationDocument[] {
+    return operations.map(op => ({
+      ...op,
+      timestamp: this.toDate(op.timestamp).toISOString()
+    }));
+  }
+
+  private static deserializeOperations(operations: OperationDocument[] = []): Operation[] {
+    return operations.map(op => ({
+      ...op,
+      timestamp: this.toDate(op.timestamp)
+    }));
+  }
+
   private static convertSessionToDocument(session: CollaborativeSession): CollaborativeSessionDocument {
     return {
       ...session,
+      sharedCode: {
+        ...session.sharedCode,
+        operations: this.serializeOperations(session.sharedCode.operations || [])
+      },
       createdAt: session.createdAt.toISOString(),
       startedAt: session.startedAt?.toISOString(),
       endedAt: session.endedAt?.toISOString(),
@@ -80,6 +121,10 @@ export class CollaborativeSessionService {
   private static convertDocumentToSession(doc: CollaborativeSessionDocument): CollaborativeSession {
     return {
       ...doc,
+      sharedCode: {
+        ...doc.sharedCode,
+        operations: this.deserializeOperations(doc.sharedCode?.operations)
+      },
       createdAt: new Date(doc.createdAt),
       startedAt: doc.startedAt ? new Date(doc.startedAt) : undefined,
       endedAt: doc.endedAt ? new Date(doc.endedAt) : undefined,
@@ -221,45 +266,135 @@ export class CollaborativeSessionService {
   }
 
   // Code Collaboration
+
+  /**
+   * Commits an edit to the shared code. Operations created against an older
+   * version are transformed over everything committed since, so concurrent
+   * edits merge instead of overwriting each other. Without explicit operations
+   * the submitted content replaces the latest version.
+   */
   static async updateSharedCode(
     sessionId: string, 
     codeContent: string, 
     userId: string,
-    operation: CodeHistoryEntry
-  ): Promise<void> {
+    operation: CodeHistoryEntry,
+    edit?: { baseVersion: number; operations: Operation[] }
+  ): Promise<OperationCommit> {
     try {
-      const session = await this.getSession(sessionId);
-      if (!session) throw new Error('Session not found');
+      const docRef = doc(db, COLLABORATIVE_SESSION_COLLECTIONS.SESSIONS, sessionId);
 
-      const updatedCodeState = {
-        ...session.sharedCode,
-        content: codeContent,
-        version: session.sharedCode.version + 1,
-        lastModifiedBy: userId,
-        lastModifiedAt: new Date()
-      };
+      const commit = await runTransaction(db, async (transaction) => {
+        const docSnap = await transaction.get(docRef);
+        if (!docSnap.exists()) throw new Error('Session not found');
+
+        const session = this.convertDocumentToSession(docSnap.data() as CollaborativeSessionDocument);
+        const current = session.sharedCode;
+        const baseVersion = edit ? edit.baseVersion : current.version;
+        const submitted = edit
+          ? edit.operations
+          : OperationalTransform.diff(current.content, codeContent, userId);
+
+        if (baseVersion > current.version) {
+          throw new OperationConflictError(
+            `Edit is based on version ${baseVersion}, but the document is at version ${current.version}`,
+            baseVersion,
+            current.version
+          );
+        }
+
+        if (baseVersion < current.version - OPERATION_HISTORY_VERSIONS) {
+          throw new OperationConflictError(
+            `Edit is based on version ${baseVersion}, which is too old to merge; resync required`,
+            baseVersion,
+            current.version
+          );
+        }
 
-      const updatedHistory = [...session.codeHistory, operation];
+        const { operations, concurrentOperations } = OperationalTransform.rebase(
+          submitted,
+          baseVersion,
+          current.operations
+        );
 
-      await this.updateSession(sessionId, {
-        sharedCode: updatedCodeState,
-        codeHistory: updatedHistory
-      });
+        if (operations.length === 0) {
+          return { version: current.version, content: current.content, operations: [], concurrentOperations };
+        }
 
-      // Emit real-time update
-      await this.emitRealTimeUpdate({
-        type: 'code_change',
-        sessionId,
-        userId,
-        data: { codeContent, operation },
-        timestamp: new Date()
+        const version = current.version + 1;
+        const content = OperationalTransform.apply(current.content, operations);
+        const committed = operations.map(op => ({ ...op, applied: true, version }));
+        const retained = [...current.operations, ...committed]
+          .filter(op => (op.version ?? 0) > version - OPERATION_HISTORY_VERSIONS);
+
+        transaction.update(docRef, {
+          sharedCode: {
+            ...current,
+            content,
+            version,
+            lastModifiedBy: userId,
+            lastModifiedAt: new Date().toISOString(),
+            operations: this.serializeOperations(retained)
+          },
+          codeHistory: arrayUnion({
+            ...operation,
+            timestamp: operation.timestamp.toISOString()
+          })
+        });
+
+        return { version, content, operations: committed, concurrentOperations };
       });
+
+      if (commit.operations.length > 0) {
+        // Emit real-time update
+        await this.emitRealTimeUpdate({
+          type: 'code_change',
+          sessionId,
+          userId,
+          data: {
+            codeContent: commit.content,
+            operation,
+            operations: this.serializeOperations(commit.operations),
+            version: commit.version
+          },
+          timestamp: new Date()
+        });
+      }
+
+      return commit;
     } catch (error) {
       console.error('Error updating shared code:', error);
       throw error;
     }
   }
 
+  /**
+   * Returns the operations committed after `version`, or null when they are no
+   * longer retained and the client has to reload the whole document
+   */
+  static async getOperationsSince(
+    sessionId: string,
+    version: number
+  ): Promise<{ content: string; version: number; operations: Operation[] | null }> {
+    try {
+      const session = await this.getSession(sessionId);
+      if (!session) throw new Error('Session not found');
+
+      const { sharedCode } = session;
+      const covered = version >= sharedCode.version - OPERATION_HISTORY_VERSIONS;
+
+      return {
+        content: sharedCode.content,
+        version: sharedCode.version,
+        operations: covered
+          ? sharedCode.operations.filter(op => (op.version ?? 0) > version)
+          : null
+      };
+    } catch (error) {
+      console.error('Error getting shared code operations:', error);
+      throw error;
+    }
+  }
+
   // AI Integration
   static async addAISuggestion(sessionId: string, suggestion: AISuggestion): Promise<void> {
     try {
@@ -512,6 +647,102 @@ export class CollaborativeSessionService {
     }
   }
 
+  /**
+   * Exports a stored recording as a portable, checksummed archive
+   */
+  static async exportRecording(recordingId: string): Promise<string> {
+    const recording = await this.getRecording(recordingId);
+    if (!recording) {
+      throw new Error(`Recording not found: ${recordingId}`);
+    }
+    return SessionRecordingArchive.export(recording);
+  }
+
+  /**
+   * Validates an exported archive and stores the recording it contains under a new ID,
+   * or under `options.recordingId` when no recording has that ID yet
+   */
+  static async importRecording(
+    serialized: string,
+    options: RecordingImportOptions = {}
+  ): Promise<SessionRecording> {
+    try {
+      if (options.recordingId) {
+        const existing = await getDoc(doc(db, COLLABORATIVE_SESSION_COLLECTIONS.RECORDINGS, options.recordingId));
+        if (existing.exists()) {
+          throw new Error(`Recording already exists: ${options.recordingId}`);
+        }
+      }
+
+      const recording = await SessionRecordingArchive.import(serialized, options);
+      await this.createRecording(recording);
+      return recording;
+    } catch (error) {
+      console.error('Error importing session recording:', error);
+      throw error;
+    }
+  }
+
+  // Chat
+  static async addComment(sessionId: string, comment: SessionComment): Promise<string> {
+    try {
+      const docRef = doc(db, COLLABORATIVE_SESSION_COLLECTIONS.COMMENTS, comment.commentId);
+      await setDoc(docRef, this.convertCommentToDocument(sessionId, comment));
+      return comment.commentId;
+    } catch (error) {
+      console.error('Error adding session comment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Streams the session's latest comments, including ones moderators have hidden so the
+   * chat can leave them out
+   */
+  static subscribeToComments(
+    sessionId: string,
+    callback: (comments: SessionComment[]) => void
+  ): () => void {
+    const q = query(
+      collection(db, COLLABORATIVE_SESSION_COLLECTIONS.COMMENTS),
+      where('sessionId', '==', sessionId),
+      orderBy('createdAt', 'desc'),
+      limit(COMMENT_HISTORY_SIZE)
+    );
+
+    return onSnapshot(q, (snapshot) => {
+      callback(snapshot.docs
+        .map(docSnap => this.convertDocumentToComment(docSnap.data() as SessionCommentDocument))
+        .reverse());
+    });
+  }
+
+  private static convertCommentToDocument(sessionId: string, comment: SessionComment): SessionCommentDocument {
+    const { createdAt, editedAt, reactions, replies, codePosition, codeSnippet, replyTo, moderationStatus, ...rest } = comment;
+    return {
+      ...rest,
+      sessionId,
+      ...(codePosition && { codePosition }),
+      ...(codeSnippet && { codeSnippet }),
+      ...(replyTo && { replyTo }),
+      ...(moderationStatus && { moderationStatus }),
+      createdAt: createdAt.toISOString(),
+      ...(editedAt && { editedAt: editedAt.toISOString() }),
+      reactions: reactions.map(reaction => ({ ...reaction, timestamp: reaction.timestamp.toISOString() }))
+    };
+  }
+
+  private static convertDocumentToComment(doc: SessionCommentDocument): SessionComment {
+    const { sessionId, ...rest } = doc;
+    return {
+      ...rest,
+      createdAt: new Date(doc.createdAt),
+      editedAt: doc.editedAt ? new Date(doc.editedAt) : undefined,
+      reactions: doc.reactions.map(reaction => ({ ...reaction, timestamp: new Date(reaction.timestamp) })),
+      replies: []
+    };
+  }
+
   // Real-time Updates
   static async emitRealTimeUpdate(update: RealTimeUpdate): Promise<void> {
     try {
@@ -0,0 +1,179 @@
+// Firebase Competition Operations
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  runTransaction
+} from 'firebase/firestore';
+import { db } from './config';
+import {
+  Competition,
+  CompetitionDocument,
+  CompetitionParticipant,
+  LeaderboardEntry
+} from '@/types/gamification';
+
+// Collection names
+export const COMPETITION_COLLECTIONS = {
+  COMPETITIONS: 'gamificationCompetitions', // 'competitions' holds the analytics competition shape
+  ORGANIZERS: 'competitionOrganizers' // users allowed to create competitions, keyed by user ID
+} as const;
+
+const DEFAULT_LIST_LIMIT = 50;
+
+export class CompetitionService {
+  // Helper methods for document conversion; optional fields are left out rather than written as undefined
+  private static convertCompetitionToDocument(competition: Competition): CompetitionDocument {
+    const { registrationDeadline, maxParticipants, entryFee, sponsoredBy, challengeIds, scoreboardFreezeMinutes, ...rest } = competition;
+    return {
+      ...rest,
+      startDate: competition.startDate.toISOString(),
+      endDate: competition.endDate.toISOString(),
+      participants: competition.participants.map(participant => this.convertParticipantToDocument(participant)),
+      leaderboard: competition.leaderboard.map(entry => this.convertEntryToDocument(entry)),
+      ...(registrationDeadline && { registrationDeadline: registrationDeadline.toISOString() }),
+      ...(maxParticipants !== undefined && { maxParticipants }),
+      ...(entryFee !== undefined && { entryFee }),
+      ...(sponsoredBy && { sponsoredBy }),
+      ...(challengeIds && { challengeIds }),
+      ...(scoreboardFreezeMinutes !== undefined && { scoreboardFreezeMinutes })
+    };
+  }
+
+  private static convertDocumentToCompetition(doc: CompetitionDocument): Competition {
+    return {
+      ...doc,
+      startDate: new Date(doc.startDate),
+      endDate: new Date(doc.endDate),
+      registrationDeadline: doc.registrationDeadline ? new Date(doc.registrationDeadline) : undefined,
+      participants: doc.participants.map(participant => ({
+        ...participant,
+        registeredAt: new Date(participant.registeredAt),
+        lastSubmissionAt: participant.lastSubmissionAt ? new Date(participant.lastSubmissionAt) : undefined
+      })),
+      leaderboard: doc.leaderboard.map(entry => ({ ...entry, lastActivity: new Date(entry.lastActivity) }))
+    };
+  }
+
+  private static convertParticipantToDocument(participant: CompetitionParticipant): CompetitionDocument['participants'][number] {
+    const { lastSubmissionAt, bracketId, ...rest } = participant;
+    return {
+      ...rest,
+      registeredAt: participant.registeredAt.toISOString(),
+      ...(lastSubmissionAt && { lastSubmissionAt: lastSubmissionAt.toISOString() }),
+      ...(bracketId && { bracketId })
+    };
+  }
+
+  private static convertEntryToDocument(entry: LeaderboardEntry): CompetitionDocument['leaderboard'][number] {
+    const { displayName, avatarUrl, previousRank, ...rest } = entry;
+    return {
+      ...rest,
+      lastActivity: entry.lastActivity.toISOString(),
+      ...(displayName && { displayName }),
+      ...(avatarUrl && { avatarUrl }),
+      ...(previousRank !== undefined && { previousRank })
+    };
+  }
+
+  private static competitionRef(competitionId: string) {
+    return doc(db, COMPETITION_COLLECTIONS.COMPETITIONS, competitionId);
+  }
+
+  static async createCompetition(competition: Competition): Promise<void> {
+    try {
+      await setDoc(this.competitionRef(competition.competitionId), this.convertCompetitionToDocument(competition));
+    } catch (error) {
+      console.error('Error creating competition:', error);
+      throw error;
+    }
+  }
+
+  static async getCompetition(competitionId: string): Promise<Competition | null> {
+    try {
+      const docSnap = await getDoc(this.competitionRef(competitionId));
+      return docSnap.exists() ? this.convertDocumentToCompetition(docSnap.data() as CompetitionDocument) : null;
+    } catch (error) {
+      console.error('Error getting competition:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The most recently started competitions, newest first
+   */
+  static async listCompetitions(limitCount: number = DEFAULT_LIST_LIMIT): Promise<Competition[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, COMPETITION_COLLECTIONS.COMPETITIONS),
+        orderBy('startDate', 'desc'),
+        limit(limitCount)
+      ));
+      return snapshot.docs.map(docSnap => this.convertDocumentToCompetition(docSnap.data() as CompetitionDocument));
+    } catch (error) {
+      console.error('Error listing competitions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Competitions past their end date that have not been completed or cancelled yet
+   */
+  static async getCompetitionsDueToEnd(now: Date = new Date()): Promise<Competition[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, COMPETITION_COLLECTIONS.COMPETITIONS),
+        where('status', 'in', ['upcoming', 'registration_open', 'active']),
+        where('endDate', '<=', now.toISOString())
+      ));
+      return snapshot.docs.map(docSnap => this.convertDocumentToCompetition(docSnap.data() as CompetitionDocument));
+    } catch (error) {
+      console.error('Error getting competitions due to end:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Applies a change to the stored competition in a transaction, so concurrent registrations
+   * and scoreboard updates do not overwrite each other. The change may run more than once if
+   * the transaction is retried, each time on a fresh copy; the changed competition is returned.
+   */
+  static async updateCompetition(
+    competitionId: string,
+    change: (competition: Competition) => void
+  ): Promise<Competition> {
+    try {
+      return await runTransaction(db, async (transaction) => {
+        const docSnap = await transaction.get(this.competitionRef(competitionId));
+        if (!docSnap.exists()) {
+          throw new Error('Competition not found');
+        }
+
+        const competition = this.convertDocumentToCompetition(docSnap.data() as CompetitionDocument);
+        change(competition);
+        transaction.set(this.competitionRef(competitionId), this.convertCompetitionToDocument(competition));
+        return competition;
+      });
+    } catch (error) {
+      console.error('Error updating competition:', error);
+      throw error;
+    }
+  }
+
+  static async isOrganizer(userId: string): Promise<boolean> {
+    try {
+      const docSnap = await getDoc(doc(db, COMPETITION_COLLECTIONS.ORGANIZERS, userId));
+      return docSnap.exists();
+    } catch (error) {
+      console.error('Error checking competition organizer status:', error);
+      return false;
+    }
+  }
+}
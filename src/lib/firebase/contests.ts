@@ -0,0 +1,242 @@
+// Firebase Contest Judging Operations
+
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  runTransaction
+} from 'firebase/firestore';
+import { db } from './config';
+import {
+  ContestScoreboard,
+  ContestScoreboardDocument,
+  ContestSubmission,
+  ContestSubmissionDocument,
+  ContestVerdict
+} from '@/types/gamification';
+
+// Collection names
+export const CONTEST_COLLECTIONS = {
+  SUBMISSIONS: 'contestSubmissions', // the judging queue and every verdict
+  SCOREBOARDS: 'contestScoreboards' // public scoreboard per competition, pushed to viewers
+} as const;
+
+export class ContestService {
+  // Helper methods for document conversion; optional fields are left out rather than written as undefined
+  private static convertSubmissionToDocument(submission: ContestSubmission): ContestSubmissionDocument {
+    const { judgingStartedAt, verdict, error, ...rest } = submission;
+    return {
+      ...rest,
+      submittedAt: submission.submittedAt.toISOString(),
+      ...(judgingStartedAt && { judgingStartedAt: judgingStartedAt.toISOString() }),
+      ...(verdict && { verdict: { ...verdict, judgedAt: verdict.judgedAt.toISOString() } }),
+      ...(error && { error })
+    };
+  }
+
+  private static convertDocumentToSubmission(doc: ContestSubmissionDocument): ContestSubmission {
+    return {
+      ...doc,
+      submittedAt: new Date(doc.submittedAt),
+      judgingStartedAt: doc.judgingStartedAt ? new Date(doc.judgingStartedAt) : undefined,
+      verdict: doc.verdict ? { ...doc.verdict, judgedAt: new Date(doc.verdict.judgedAt) } : undefined
+    };
+  }
+
+  private static convertScoreboardToDocument(scoreboard: ContestScoreboard): ContestScoreboardDocument {
+    const { frozenAt, ...rest } = scoreboard;
+    return {
+      ...rest,
+      rows: scoreboard.rows.map(({ lastImprovementAt, problems, ...row }) => ({
+        ...row,
+        problems: problems.map(({ solvedAtMinute, ...problem }) => ({
+          ...problem,
+          ...(solvedAtMinute !== undefined && { solvedAtMinute })
+        })),
+        ...(lastImprovementAt && { lastImprovementAt: lastImprovementAt.toISOString() })
+      })),
+      ...(frozenAt && { frozenAt: frozenAt.toISOString() }),
+      updatedAt: scoreboard.updatedAt.toISOString()
+    };
+  }
+
+  private static convertDocumentToScoreboard(doc: ContestScoreboardDocument): ContestScoreboard {
+    return {
+      ...doc,
+      rows: doc.rows.map(row => ({
+        ...row,
+        lastImprovementAt: row.lastImprovementAt ? new Date(row.lastImprovementAt) : undefined
+      })),
+      frozenAt: doc.frozenAt ? new Date(doc.frozenAt) : undefined,
+      updatedAt: new Date(doc.updatedAt)
+    };
+  }
+
+  private static submissionRef(submissionId: string) {
+    return doc(db, CONTEST_COLLECTIONS.SUBMISSIONS, submissionId);
+  }
+
+  private static scoreboardRef(competitionId: string) {
+    return doc(db, CONTEST_COLLECTIONS.SCOREBOARDS, competitionId);
+  }
+
+  /**
+   * Adds a submission to the back of the judging queue
+   */
+  static async submit(
+    submission: Omit<ContestSubmission, 'submissionId' | 'status' | 'submittedAt'>,
+    submittedAt: Date = new Date()
+  ): Promise<ContestSubmission> {
+    try {
+      const docRef = doc(collection(db, CONTEST_COLLECTIONS.SUBMISSIONS));
+      const queued: ContestSubmission = {
+        ...submission,
+        submissionId: docRef.id,
+        status: 'queued',
+        submittedAt
+      };
+      await setDoc(docRef, this.convertSubmissionToDocument(queued));
+      return queued;
+    } catch (error) {
+      console.error('Error submitting contest entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Takes the oldest queued submission for judging. The claim is made in a transaction, so
+   * two judges never take the same submission; null means the queue is empty or another
+   * judge claimed it first.
+   */
+  static async claimNext(competitionId: string): Promise<ContestSubmission | null> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, CONTEST_COLLECTIONS.SUBMISSIONS),
+        where('competitionId', '==', competitionId),
+        where('status', '==', 'queued'),
+        orderBy('submittedAt', 'asc'),
+        limit(1)
+      ));
+      if (snapshot.empty) return null;
+
+      const docRef = snapshot.docs[0].ref;
+      return await runTransaction(db, async (transaction) => {
+        const current = await transaction.get(docRef);
+        if (!current.exists() || (current.data() as ContestSubmissionDocument).status !== 'queued') {
+          return null;
+        }
+
+        const judgingStartedAt = new Date();
+        transaction.update(docRef, { status: 'judging', judgingStartedAt: judgingStartedAt.toISOString() });
+        return {
+          ...this.convertDocumentToSubmission(current.data() as ContestSubmissionDocument),
+          status: 'judging' as const,
+          judgingStartedAt
+        };
+      });
+    } catch (error) {
+      console.error('Error claiming contest submission:', error);
+      throw error;
+    }
+  }
+
+  static async recordVerdict(submissionId: string, verdict: ContestVerdict): Promise<void> {
+    try {
+      await updateDoc(this.submissionRef(submissionId), {
+        status: 'judged',
+        verdict: { ...verdict, judgedAt: verdict.judgedAt.toISOString() }
+      });
+    } catch (error) {
+      console.error('Error recording contest verdict:', error);
+      throw error;
+    }
+  }
+
+  static async recordFailure(submissionId: string, reason: string): Promise<void> {
+    try {
+      await updateDoc(this.submissionRef(submissionId), { status: 'failed', error: reason });
+    } catch (error) {
+      console.error('Error recording contest judging failure:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Puts submissions whose judge stopped before recording a verdict back in the queue
+   */
+  static async requeueStale(competitionId: string, startedBefore: Date): Promise<number> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, CONTEST_COLLECTIONS.SUBMISSIONS),
+        where('competitionId', '==', competitionId),
+        where('status', '==', 'judging'),
+        where('judgingStartedAt', '<', startedBefore.toISOString())
+      ));
+      await Promise.all(snapshot.docs.map(docSnap => updateDoc(docSnap.ref, { status: 'queued' })));
+      return snapshot.size;
+    } catch (error) {
+      console.error('Error requeueing contest submissions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Competitions with submissions queued or being judged
+   */
+  static async getCompetitionsAwaitingJudging(): Promise<string[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, CONTEST_COLLECTIONS.SUBMISSIONS),
+        where('status', 'in', ['queued', 'judging'])
+      ));
+      return Array.from(new Set(snapshot.docs.map(docSnap => (docSnap.data() as ContestSubmissionDocument).competitionId)));
+    } catch (error) {
+      console.error('Error getting competitions awaiting judging:', error);
+      throw error;
+    }
+  }
+
+  static async getSubmissions(competitionId: string): Promise<ContestSubmission[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, CONTEST_COLLECTIONS.SUBMISSIONS),
+        where('competitionId', '==', competitionId),
+        orderBy('submittedAt', 'asc')
+      ));
+      return snapshot.docs.map(docSnap => this.convertDocumentToSubmission(docSnap.data() as ContestSubmissionDocument));
+    } catch (error) {
+      console.error('Error getting contest submissions:', error);
+      throw error;
+    }
+  }
+
+  static async publishScoreboard(scoreboard: ContestScoreboard): Promise<void> {
+    try {
+      await setDoc(this.scoreboardRef(scoreboard.competitionId), this.convertScoreboardToDocument(scoreboard));
+    } catch (error) {
+      console.error('Error publishing contest scoreboard:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pushes the public scoreboard to the callback whenever it is republished
+   */
+  static subscribeToScoreboard(
+    competitionId: string,
+    callback: (scoreboard: ContestScoreboard) => void
+  ): () => void {
+    return onSnapshot(this.scoreboardRef(competitionId), (snapshot) => {
+      if (snapshot.exists()) {
+        callback(this.convertDocumentToScoreboard(snapshot.data() as ContestScoreboardDocument));
+      }
+    });
+  }
+}
@@ -0,0 +1,311 @@
+// Firebase Persistence and Verification for IDE Plugin API Keys
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  query,
+  where,
+  type Timestamp
+} from 'firebase/firestore';
+import { db } from './config';
+import {
+  generateApiKey,
+  getApiKeyId,
+  hashApiKey,
+  verifyApiKeyHash,
+  validatePluginCapabilities,
+  DEFAULT_PLUGIN_SCOPES,
+  PLUGIN_CAPABILITIES,
+  PluginScope
+} from '@/lib/ide-integration/auth-utils';
+import {
+  IdeApiKey,
+  IdeApiKeyDocument,
+  IdeApiKeyStatus,
+  IssuedIdeApiKey,
+  LegacyIdeApiKeyDocument
+} from '@/types/ide-integration';
+
+export type IdeApiKeyErrorCode =
+  | 'invalid_key'
+  | 'expired'
+  | 'revoked'
+  | 'insufficient_scope'
+  | 'not_found'
+  | 'forbidden';
+
+export class IdeApiKeyError extends Error {
+  constructor(message: string, public readonly code: IdeApiKeyErrorCode) {
+    super(message);
+    this.name = 'IdeApiKeyError';
+  }
+}
+
+export interface IssueIdeApiKeyOptions {
+  userId: string;
+  pluginName: string;
+  pluginVersion: string;
+  // Defaults to DEFAULT_PLUGIN_SCOPES
+  permissions?: string[];
+  expiresInDays?: number;
+}
+
+export interface VerifyIdeApiKeyOptions {
+  userId?: string;
+  scope?: PluginScope;
+}
+
+export interface RotateIdeApiKeyOptions {
+  gracePeriodMinutes?: number;
+}
+
+export const DEFAULT_ROTATION_GRACE_MINUTES = 60;
+
+// lastUsed is only rewritten once per interval so busy plugins do not write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Keys issued before hashed key IDs were stored under the first 16 characters of
+ * the key, with Firestore timestamps instead of ISO strings
+ */
+function legacyApiKeyId(apiKey: string): string {
+  return apiKey.substring(0, 16);
+}
+
+export class IdeApiKeyService {
+  private static readonly COLLECTION = 'ide_api_keys';
+
+  static async issueKey(options: IssueIdeApiKeyOptions): Promise<IssuedIdeApiKey> {
+    const permissions = this.grantedScopes(options.permissions ?? DEFAULT_PLUGIN_SCOPES);
+    if (permissions.length === 0) {
+      throw new IdeApiKeyError('None of the requested permissions are available to plugins', 'insufficient_scope');
+    }
+
+    const now = new Date();
+    return this.createKey({
+      userId: options.userId,
+      pluginName: options.pluginName,
+      pluginVersion: options.pluginVersion,
+      permissions,
+      expiresAt: options.expiresInDays ? new Date(now.getTime() + options.expiresInDays * DAY_MS) : null
+    }, now);
+  }
+
+  /**
+   * Checks a presented key against its stored hash, its owner, expiry, revocation
+   * and, when given, the scope the request needs. Records when the key was last used.
+   */
+  static async verifyKey(apiKey: string, options: VerifyIdeApiKeyOptions = {}): Promise<IdeApiKey> {
+    let snapshot = await getDoc(doc(db, this.COLLECTION, getApiKeyId(apiKey)));
+    if (!snapshot.exists()) {
+      snapshot = await getDoc(doc(db, this.COLLECTION, legacyApiKeyId(apiKey)));
+    }
+    const document = snapshot.exists() ? (snapshot.data() as IdeApiKeyDocument | LegacyIdeApiKeyDocument) : null;
+
+    // Unknown keys, wrong secrets and other users' keys are indistinguishable to the caller
+    if (!document || !verifyApiKeyHash(apiKey, document.hashedKey) || (options.userId && document.userId !== options.userId)) {
+      throw new IdeApiKeyError('Invalid API key', 'invalid_key');
+    }
+
+    const key = this.fromDocument(document, snapshot.id);
+    const now = new Date();
+    const status = this.status(key, now);
+
+    if (status === 'revoked') {
+      throw new IdeApiKeyError(
+        key.rotatedTo ? 'API key was rotated and its grace period has ended' : 'API key has been revoked',
+        'revoked'
+      );
+    }
+    if (status === 'expired') {
+      throw new IdeApiKeyError('API key has expired', 'expired');
+    }
+    if (options.scope && !this.effectiveScopes(key).includes(options.scope)) {
+      throw new IdeApiKeyError(`API key is not permitted to use ${options.scope}`, 'insufficient_scope');
+    }
+
+    return this.recordUse(key, now);
+  }
+
+  /**
+   * Lists the user's keys that can still be used, newest first
+   */
+  static async listKeys(userId: string): Promise<IdeApiKey[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, this.COLLECTION),
+        where('userId', '==', userId),
+        where('isActive', '==', true)
+      ));
+
+      const now = new Date();
+      return snapshot.docs
+        .map(keyDoc => this.fromDocument(keyDoc.data() as IdeApiKeyDocument | LegacyIdeApiKeyDocument, keyDoc.id))
+        .filter(key => ['active', 'rotating'].includes(this.status(key, now)))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      console.error('Error listing IDE API keys:', error);
+      throw error;
+    }
+  }
+
+  static async revokeKey(keyId: string, userId: string): Promise<void> {
+    await this.getOwnedKey(keyId, userId);
+
+    await updateDoc(doc(db, this.COLLECTION, keyId), {
+      isActive: false,
+      revokedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Issues a replacement key with the same plugin, permissions and lifetime. The old
+   * key keeps working for the grace period so running plugins can pick up the new one.
+   */
+  static async rotateKey(keyId: string, userId: string, options: RotateIdeApiKeyOptions = {}): Promise<IssuedIdeApiKey> {
+    const current = await this.getOwnedKey(keyId, userId);
+    const now = new Date();
+    const status = this.status(current, now);
+
+    if (status === 'expired') {
+      throw new IdeApiKeyError('Expired API keys cannot be rotated', 'expired');
+    }
+    if (status !== 'active') {
+      throw new IdeApiKeyError('API key has already been rotated or revoked', 'revoked');
+    }
+
+    const lifetime = current.expiresAt ? current.expiresAt.getTime() - current.createdAt.getTime() : null;
+    const issued = await this.createKey({
+      userId: current.userId,
+      pluginName: current.pluginName,
+      pluginVersion: current.pluginVersion,
+      permissions: current.permissions,
+      expiresAt: lifetime !== null ? new Date(now.getTime() + lifetime) : null
+    }, now);
+
+    const graceMinutes = Math.max(0, options.gracePeriodMinutes ?? DEFAULT_ROTATION_GRACE_MINUTES);
+    await updateDoc(doc(db, this.COLLECTION, keyId), {
+      rotatedTo: issued.key.keyId,
+      graceExpiresAt: new Date(now.getTime() + graceMinutes * 60 * 1000).toISOString()
+    });
+
+    return issued;
+  }
+
+  static status(key: IdeApiKey, now: Date = new Date()): IdeApiKeyStatus {
+    if (!key.isActive) return 'revoked';
+    if (key.expiresAt && key.expiresAt <= now) return 'expired';
+    if (key.graceExpiresAt) return key.graceExpiresAt > now ? 'rotating' : 'revoked';
+    return 'active';
+  }
+
+  /**
+   * The key's permissions that the platform still grants to plugins
+   */
+  static effectiveScopes(key: IdeApiKey): PluginScope[] {
+    return this.grantedScopes(key.permissions);
+  }
+
+  private static grantedScopes(requested: string[]): PluginScope[] {
+    return validatePluginCapabilities(requested, PLUGIN_CAPABILITIES) as PluginScope[];
+  }
+
+  private static async createKey(
+    fields: Pick<IdeApiKey, 'userId' | 'pluginName' | 'pluginVersion' | 'permissions' | 'expiresAt'>,
+    now: Date
+  ): Promise<IssuedIdeApiKey> {
+    try {
+      const apiKey = generateApiKey(fields.userId);
+      const key: IdeApiKey = {
+        ...fields,
+        keyId: getApiKeyId(apiKey),
+        keyPreview: apiKey.slice(-4),
+        isActive: true,
+        createdAt: now,
+        lastUsed: null
+      };
+
+      await setDoc(doc(db, this.COLLECTION, key.keyId), this.toDocument(key, hashApiKey(apiKey)));
+      return { apiKey, key };
+    } catch (error) {
+      console.error('Error creating IDE API key:', error);
+      throw error;
+    }
+  }
+
+  private static async getOwnedKey(keyId: string, userId: string): Promise<IdeApiKey> {
+    const snapshot = await getDoc(doc(db, this.COLLECTION, keyId));
+    if (!snapshot.exists()) {
+      throw new IdeApiKeyError(`API key ${keyId} not found`, 'not_found');
+    }
+
+    const key = this.fromDocument(snapshot.data() as IdeApiKeyDocument | LegacyIdeApiKeyDocument, snapshot.id);
+    if (key.userId !== userId) {
+      throw new IdeApiKeyError(`API key ${keyId} belongs to another user`, 'forbidden');
+    }
+    return key;
+  }
+
+  private static async recordUse(key: IdeApiKey, now: Date): Promise<IdeApiKey> {
+    if (key.lastUsed && now.getTime() - key.lastUsed.getTime() < LAST_USED_RESOLUTION_MS) {
+      return key;
+    }
+
+    try {
+      await updateDoc(doc(db, this.COLLECTION, key.keyId), { lastUsed: now.toISOString() });
+    } catch (error) {
+      // Usage tracking must never block an authenticated request
+      console.error('Error recording IDE API key usage:', error);
+    }
+    return { ...key, lastUsed: now };
+  }
+
+  private static toDocument(key: IdeApiKey, hashedKey: string): IdeApiKeyDocument {
+    return {
+      keyId: key.keyId,
+      userId: key.userId,
+      hashedKey,
+      pluginName: key.pluginName,
+      pluginVersion: key.pluginVersion,
+      keyPreview: key.keyPreview,
+      permissions: key.permissions,
+      isActive: key.isActive,
+      createdAt: key.createdAt.toISOString(),
+      lastUsed: key.lastUsed ? key.lastUsed.toISOString() : null,
+      expiresAt: key.expiresAt ? key.expiresAt.toISOString() : null
+    };
+  }
+
+  /**
+   * Reads current and legacy documents alike; legacy keys have no keyId field, no
+   * preview and no expiry, so their document ID stands in for the key ID
+   */
+  private static fromDocument(document: IdeApiKeyDocument | LegacyIdeApiKeyDocument, documentId: string): IdeApiKey {
+    const modern = document as Partial<IdeApiKeyDocument>;
+
+    return {
+      keyId: modern.keyId || documentId,
+      userId: document.userId,
+      pluginName: document.pluginName,
+      pluginVersion: document.pluginVersion,
+      keyPreview: modern.keyPreview ?? '',
+      permissions: document.permissions || [],
+      isActive: document.isActive,
+      createdAt: toDate(document.createdAt),
+      lastUsed: document.lastUsed ? toDate(document.lastUsed) : null,
+      expiresAt: modern.expiresAt ? toDate(modern.expiresAt) : null,
+      ...(document.revokedAt ? { revokedAt: toDate(document.revokedAt) } : {}),
+      ...(modern.rotatedTo ? { rotatedTo: modern.rotatedTo } : {}),
+      ...(modern.graceExpiresAt ? { graceExpiresAt: toDate(modern.graceExpiresAt) } : {})
+    };
+  }
+}
+
+function toDate(value: string | Date | Timestamp): Date {
+  return typeof value === 'object' && 'toDate' in value ? value.toDate() : new Date(value);
+}
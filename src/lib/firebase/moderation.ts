@@ -0,0 +1,364 @@
+// Firebase Moderation Database Operations
+
+import {
+  collection,
+  doc,
+  getDoc,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  writeBatch
+} from 'firebase/firestore';
+import { db } from './config';
+import {
+  ContentReference,
+  ModerationAction,
+  ModerationAuditEntry,
+  ModerationAuditEntryDocument,
+  ModerationCase,
+  ModerationCaseDocument,
+  ModerationStatus,
+  ReportReason,
+  ToxicityScreening
+} from '@/types/moderation';
+import { CommunityContribution, CommunityContributionDocument } from '@/types/peer-review';
+import { AI_SCREENING_REPORTER, ModerationQueue } from '@/lib/moderation/moderation-queue';
+import { PEER_REVIEW_COLLECTIONS, PeerReviewService } from './peer-review';
+import { COLLABORATIVE_SESSION_COLLECTIONS } from './collaborative-session';
+import { PointsLedgerService } from './points-ledger';
+
+// Collection names
+export const MODERATION_COLLECTIONS = {
+  CASES: 'moderationCases',
+  AUDIT_LOG: 'moderationAuditLog',
+  MODERATORS: 'moderators'
+} as const;
+
+const QUEUE_SIZE = 100;
+
+export class ModerationService {
+  // Helper methods for document conversion; optional fields are left out rather than written as undefined
+  private static convertCaseToDocument(moderationCase: ModerationCase): ModerationCaseDocument {
+    const { screening, resolution, ...rest } = moderationCase;
+    return {
+      ...rest,
+      reports: moderationCase.reports.map(report => ({ ...report, createdAt: report.createdAt.toISOString() })),
+      ...(screening && { screening: { ...screening, screenedAt: screening.screenedAt.toISOString() } }),
+      ...(resolution && { resolution: { ...resolution, resolvedAt: resolution.resolvedAt.toISOString() } }),
+      createdAt: moderationCase.createdAt.toISOString(),
+      updatedAt: moderationCase.updatedAt.toISOString()
+    };
+  }
+
+  private static convertDocumentToCase(doc: ModerationCaseDocument): ModerationCase {
+    return {
+      ...doc,
+      reports: doc.reports.map(report => ({ ...report, createdAt: new Date(report.createdAt) })),
+      screening: doc.screening && { ...doc.screening, screenedAt: new Date(doc.screening.screenedAt) },
+      resolution: doc.resolution && { ...doc.resolution, resolvedAt: new Date(doc.resolution.resolvedAt) },
+      createdAt: new Date(doc.createdAt),
+      updatedAt: new Date(doc.updatedAt)
+    };
+  }
+
+  static async isModerator(userId: string): Promise<boolean> {
+    try {
+      const docSnap = await getDoc(doc(db, MODERATION_COLLECTIONS.MODERATORS, userId));
+      return docSnap.exists();
+    } catch (error) {
+      console.error('Error checking moderator status:', error);
+      return false;
+    }
+  }
+
+  static async getCase(caseId: string): Promise<ModerationCase | null> {
+    try {
+      const docSnap = await getDoc(doc(db, MODERATION_COLLECTIONS.CASES, caseId));
+      return docSnap.exists() ? this.convertDocumentToCase(docSnap.data() as ModerationCaseDocument) : null;
+    } catch (error) {
+      console.error('Error getting moderation case:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Files a user report against a review, comment or message and queues it for moderators
+   */
+  static async reportContent(
+    content: ContentReference,
+    excerpt: string,
+    reporterId: string,
+    reason: ReportReason,
+    details?: string
+  ): Promise<ModerationCase> {
+    try {
+      const existing = await this.getCase(ModerationQueue.caseIdFor(content));
+      const updated = ModerationQueue.report(existing, content, excerpt, {
+        reporterId,
+        reason,
+        details,
+        createdAt: new Date()
+      });
+
+      await this.saveCase(updated, existing, {
+        action: 'report',
+        actorId: reporterId,
+        note: reason
+      });
+      return updated;
+    } catch (error) {
+      console.error('Error reporting content:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records an AI pre-screening of new content; anything above the flag threshold is queued
+   */
+  static async recordScreening(
+    content: ContentReference,
+    excerpt: string,
+    screening: ToxicityScreening
+  ): Promise<ModerationCase | null> {
+    try {
+      const existing = await this.getCase(ModerationQueue.caseIdFor(content));
+      const updated = ModerationQueue.screen(existing, content, excerpt, screening);
+      if (!updated) return null;
+
+      await this.saveCase(updated, existing, {
+        action: 'report',
+        actorId: AI_SCREENING_REPORTER,
+        note: `Toxicity ${Math.round(screening.toxicity * 100)}%: ${screening.explanation}`
+      });
+      return updated;
+    } catch (error) {
+      console.error('Error recording content screening:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open cases in priority order
+   */
+  static async getQueue(): Promise<ModerationCase[]> {
+    try {
+      const q = query(
+        collection(db, MODERATION_COLLECTIONS.CASES),
+        where('status', '==', 'open'),
+        limit(QUEUE_SIZE)
+      );
+      const querySnapshot = await getDocs(q);
+      const cases = querySnapshot.docs.map(docSnap => this.convertDocumentToCase(docSnap.data() as ModerationCaseDocument));
+      return ModerationQueue.sortQueue(cases);
+    } catch (error) {
+      console.error('Error getting moderation queue:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Applies a moderator's decision to the case, the content and, for warnings and
+   * suspensions, the author's reviewer profile
+   */
+  static async takeAction(
+    caseId: string,
+    action: ModerationAction,
+    moderatorId: string,
+    note?: string,
+    suspensionDays: number = ModerationQueue.DEFAULT_CONFIG.defaultSuspensionDays
+  ): Promise<ModerationCase> {
+    try {
+      if (!(await this.isModerator(moderatorId))) {
+        throw new Error('Only moderators can take moderation actions');
+      }
+
+      const existing = await this.getCase(caseId);
+      if (!existing) {
+        throw new Error(`Moderation case ${caseId} not found`);
+      }
+
+      const now = new Date();
+      const updated = ModerationQueue.resolve(existing, action, moderatorId, note, now);
+
+      if (action === 'warn' || action === 'suspend') {
+        const profile = await PeerReviewService.getReviewerProfile(existing.content.authorId);
+        if (profile) {
+          await PeerReviewService.createOrUpdateReviewerProfile({
+            ...profile,
+            moderation: ModerationQueue.updateRecord(profile.moderation, action, now, suspensionDays)
+          });
+        }
+      }
+
+      await this.saveCase(updated, existing, {
+        action,
+        actorId: moderatorId,
+        note,
+        ...(action === 'suspend' && { suspensionDays })
+      });
+      return updated;
+    } catch (error) {
+      console.error('Error taking moderation action:', error);
+      throw error;
+    }
+  }
+
+  static async getAuditLog(caseId?: string): Promise<ModerationAuditEntry[]> {
+    try {
+      const constraints = [
+        ...(caseId ? [where('caseId', '==', caseId)] : []),
+        orderBy('createdAt', 'desc'),
+        limit(QUEUE_SIZE)
+      ];
+      const querySnapshot = await getDocs(query(collection(db, MODERATION_COLLECTIONS.AUDIT_LOG), ...constraints));
+      return querySnapshot.docs.map(docSnap => {
+        const data = docSnap.data() as ModerationAuditEntryDocument;
+        return { ...data, createdAt: new Date(data.createdAt) };
+      });
+    } catch (error) {
+      console.error('Error getting moderation audit log:', error);
+      throw error;
+    }
+  }
+
+  // Saves the case with its audit entries and carries any visibility change over to the content
+  private static async saveCase(
+    updated: ModerationCase,
+    previous: ModerationCase | null,
+    entry: Pick<ModerationAuditEntry, 'action' | 'actorId' | 'note' | 'suspensionDays'>
+  ): Promise<void> {
+    const batch = writeBatch(db);
+    batch.set(doc(db, MODERATION_COLLECTIONS.CASES, updated.caseId), this.convertCaseToDocument(updated));
+
+    const audit = (fields: typeof entry) => {
+      const ref = doc(collection(db, MODERATION_COLLECTIONS.AUDIT_LOG));
+      const document: ModerationAuditEntryDocument = {
+        entryId: ref.id,
+        caseId: updated.caseId,
+        action: fields.action,
+        actorId: fields.actorId,
+        targetUserId: updated.content.authorId,
+        ...(fields.note?.trim() && { note: fields.note.trim() }),
+        ...(fields.suspensionDays !== undefined && { suspensionDays: fields.suspensionDays }),
+        createdAt: updated.updatedAt.toISOString()
+      };
+      batch.set(ref, document);
+    };
+
+    audit(entry);
+    const statusChanged = updated.contentStatus !== (previous?.contentStatus ?? 'visible');
+    if (statusChanged && updated.status === 'open') {
+      audit({ action: 'auto_hide', actorId: entry.actorId });
+    }
+    await batch.commit();
+
+    if (statusChanged) {
+      await this.applyContentStatus(updated.content, updated.contentStatus, entry.actorId);
+    }
+  }
+
+  /**
+   * Marks the content itself hidden or visible. Hidden reviews and contributions stop
+   * counting toward the author's points and reputation, and the ledger entries they earned
+   * are reversed until the content is restored.
+   */
+  private static async applyContentStatus(
+    content: ContentReference,
+    status: ModerationStatus,
+    actorId: string
+  ): Promise<void> {
+    switch (content.type) {
+      case 'peer_review': {
+        await updateDoc(doc(db, PEER_REVIEW_COLLECTIONS.PEER_REVIEWS, content.contentId), { moderationStatus: status });
+        const q = query(
+          collection(db, PEER_REVIEW_COLLECTIONS.COMMUNITY_CONTRIBUTIONS),
+          where('sourceId', '==', content.contentId)
+        );
+        const querySnapshot = await getDocs(q);
+        const contributions = querySnapshot.docs.map(docSnap =>
+          this.convertDocumentToContribution(docSnap.data() as CommunityContributionDocument)
+        );
+        await this.setContributionStatus(contributions, status);
+        await this.setLedgerStatus('reviewId', [content.contentId], status, actorId);
+        await this.setLedgerStatus('contributionId', contributions.map(contribution => contribution.contributionId), status, actorId);
+        await PeerReviewService.calibrateReviewerReputation(content.authorId);
+        break;
+      }
+      case 'community_contribution': {
+        const docSnap = await getDoc(doc(db, PEER_REVIEW_COLLECTIONS.COMMUNITY_CONTRIBUTIONS, content.contentId));
+        if (docSnap.exists()) {
+          await this.setContributionStatus(
+            [this.convertDocumentToContribution(docSnap.data() as CommunityContributionDocument)],
+            status
+          );
+        }
+        await this.setLedgerStatus('contributionId', [content.contentId], status, actorId);
+        break;
+      }
+      case 'review_thread':
+        await updateDoc(doc(db, PEER_REVIEW_COLLECTIONS.REVIEW_THREADS, content.contentId), { moderationStatus: status });
+        break;
+      case 'session_comment':
+        await updateDoc(doc(db, COLLABORATIVE_SESSION_COLLECTIONS.COMMENTS, content.contentId), { moderationStatus: status });
+        break;
+    }
+  }
+
+  // Updates contributions whose status changes and moves their points on or off the author's profile
+  private static async setContributionStatus(
+    contributions: CommunityContribution[],
+    status: ModerationStatus
+  ): Promise<void> {
+    const changed = contributions.filter(contribution => ModerationQueue.isVisible(contribution) !== (status === 'visible'));
+    if (changed.length === 0) return;
+
+    const batch = writeBatch(db);
+    changed.forEach(contribution => {
+      batch.update(doc(db, PEER_REVIEW_COLLECTIONS.COMMUNITY_CONTRIBUTIONS, contribution.contributionId), {
+        moderationStatus: status
+      });
+    });
+    await batch.commit();
+
+    const pointsByUser = new Map<string, number>();
+    changed.forEach(contribution => {
+      const points = status === 'hidden' ? -contribution.recognition.points : contribution.recognition.points;
+      pointsByUser.set(contribution.userId, (pointsByUser.get(contribution.userId) ?? 0) + points);
+    });
+
+    for (const [userId, points] of pointsByUser) {
+      const profile = await PeerReviewService.getReviewerProfile(userId);
+      if (!profile) continue;
+      await PeerReviewService.createOrUpdateReviewerProfile({
+        ...profile,
+        reputation: {
+          ...profile.reputation,
+          points: Math.max(0, profile.reputation.points + points)
+        }
+      });
+    }
+  }
+
+  // Reverses the points ledger entries earned by hidden content, or reinstates them on restore
+  private static async setLedgerStatus(
+    sourceKey: string,
+    sourceIds: string[],
+    status: ModerationStatus,
+    actorId: string
+  ): Promise<void> {
+    for (const sourceId of sourceIds) {
+      if (status === 'hidden') {
+        await PointsLedgerService.reverseBySource(sourceKey, sourceId, 'Content hidden by moderation', actorId);
+      } else {
+        await PointsLedgerService.reinstateBySource(sourceKey, sourceId, 'Content restored by moderation', actorId);
+      }
+    }
+  }
+
+  private static convertDocumentToContribution(doc: CommunityContributionDocument): CommunityContribution {
+    return { ...doc, createdAt: new Date(doc.createdAt) };
+  }
+}
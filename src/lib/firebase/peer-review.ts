@@ -13,8 +13,10 @@ import {
   getDocs,
   addDoc,
   writeBatch,
+  runTransaction,
   arrayUnion,
   arrayRemove,
+  deleteField,
   Timestamp
 } from 'firebase/firestore';
 import { db } from './config';
@@ -30,8 +32,21 @@ import {
   CommunityContributionDocument,
   PeerReviewSettingsDocument,
   PeerReviewMatchResult,
-  ReviewAnalytics
+  ReviewAnalytics,
+  ReviewAssignment,
+  ReviewerMatchingConfig,
+  ReassignmentResult,
+  ReviewThread,
+  ReviewThreadDocument,
+  ReviewComment,
+  ReviewedCode,
+  ReputationCalibration
 } from '@/types/peer-review';
+import { ReviewerMatcher } from '@/lib/peer-review/reviewer-matching';
+import { ReviewThreads } from '@/lib/peer-review/review-threads';
+import { ReviewRounds, RoundReviewInput } from '@/lib/peer-review/review-rounds';
+import { ReputationCalibrator } from '@/lib/peer-review/reputation-calibration';
+import { ModerationQueue } from '@/lib/moderation/moderation-queue';
 
 // Collection names
 export const PEER_REVIEW_COLLECTIONS = {
@@ -40,9 +55,15 @@ export const PEER_REVIEW_COLLECTIONS = {
   REVIEWER_PROFILES: 'reviewerProfiles',
   COMMUNITY_CONTRIBUTIONS: 'communityContributions',
   PEER_REVIEW_SETTINGS: 'peerReviewSettings',
-  REVIEW_MATCHES: 'reviewMatches'
+  REVIEW_MATCHES: 'reviewMatches',
+  REVIEW_THREADS: 'reviewThreads'
 } as const;
 
+// Reviewers considered per match; the pool is ranked rather than cut at the first few
+const MATCHING_POOL_SIZE = 500;
+const MAX_RECOMMENDED_REVIEWERS = 5;
+const HOUR_MS = 60 * 60 * 1000;
+
 // Peer Review Operations
 export class PeerReviewService {
   // Helper method to convert PeerReview to Firestore document
@@ -51,7 +72,16 @@ export class PeerReviewService {
       ...review,
       createdAt: review.createdAt.toISOString(),
       updatedAt: review.updatedAt.toISOString(),
-      completedAt: review.completedAt?.toISOString()
+      completedAt: review.completedAt?.toISOString(),
+      rounds: review.rounds?.map(({ reviewedAt, ...round }) => ({
+        ...round,
+        submittedAt: round.submittedAt.toISOString(),
+        ...(reviewedAt && { reviewedAt: reviewedAt.toISOString() })
+      })),
+      helpfulness: review.helpfulness && {
+        ...review.helpfulness,
+        ratedAt: review.helpfulness.ratedAt.toISOString()
+      }
     };
   }
 
@@ -61,10 +91,83 @@ export class PeerReviewService {
       ...doc,
       createdAt: new Date(doc.createdAt),
       updatedAt: new Date(doc.updatedAt),
-      completedAt: doc.completedAt ? new Date(doc.completedAt) : undefined
+      completedAt: doc.completedAt ? new Date(doc.completedAt) : undefined,
+      rounds: doc.rounds?.map(round => ({
+        ...round,
+        submittedAt: new Date(round.submittedAt),
+        reviewedAt: round.reviewedAt ? new Date(round.reviewedAt) : undefined
+      })),
+      helpfulness: doc.helpfulness && {
+        ...doc.helpfulness,
+        ratedAt: new Date(doc.helpfulness.ratedAt)
+      }
+    };
+  }
+
+  private static convertReviewRequestToDocument(request: PeerReviewRequest): PeerReviewRequestDocument {
+    return {
+      ...request,
+      createdAt: request.createdAt.toISOString(),
+      expiresAt: request.expiresAt.toISOString(),
+      assignments: request.assignments?.map(assignment => ({
+        ...assignment,
+        assignedAt: assignment.assignedAt.toISOString(),
+        respondedAt: assignment.respondedAt?.toISOString()
+      }))
     };
   }
 
+  private static convertDocumentToReviewRequest(doc: PeerReviewRequestDocument): PeerReviewRequest {
+    return {
+      ...doc,
+      createdAt: new Date(doc.createdAt),
+      expiresAt: new Date(doc.expiresAt),
+      assignments: doc.assignments?.map(assignment => ({
+        ...assignment,
+        assignedAt: new Date(assignment.assignedAt),
+        respondedAt: assignment.respondedAt ? new Date(assignment.respondedAt) : undefined
+      }))
+    };
+  }
+
+  // Optional fields are left out rather than written as undefined, which Firestore rejects
+  private static convertReviewThreadToDocument(thread: ReviewThread): ReviewThreadDocument {
+    const { suggestion, resolvedAt, resolvedBy, ...rest } = thread;
+    return {
+      ...rest,
+      comments: thread.comments.map(comment => this.convertCommentToDocument(comment)),
+      ...(suggestion && {
+        suggestion: {
+          replacement: suggestion.replacement,
+          status: suggestion.status,
+          ...(suggestion.acceptedAt && { acceptedAt: suggestion.acceptedAt.toISOString() })
+        }
+      }),
+      createdAt: thread.createdAt.toISOString(),
+      updatedAt: thread.updatedAt.toISOString(),
+      ...(resolvedAt && { resolvedAt: resolvedAt.toISOString() }),
+      ...(resolvedBy && { resolvedBy })
+    };
+  }
+
+  private static convertDocumentToReviewThread(doc: ReviewThreadDocument): ReviewThread {
+    return {
+      ...doc,
+      comments: doc.comments.map(comment => ({ ...comment, createdAt: new Date(comment.createdAt) })),
+      suggestion: doc.suggestion && {
+        ...doc.suggestion,
+        acceptedAt: doc.suggestion.acceptedAt ? new Date(doc.suggestion.acceptedAt) : undefined
+      },
+      createdAt: new Date(doc.createdAt),
+      updatedAt: new Date(doc.updatedAt),
+      resolvedAt: doc.resolvedAt ? new Date(doc.resolvedAt) : undefined
+    };
+  }
+
+  private static convertCommentToDocument(comment: ReviewComment) {
+    return { ...comment, createdAt: comment.createdAt.toISOString() };
+  }
+
   static async createPeerReview(review: PeerReview): Promise<string> {
     try {
       const docRef = doc(db, PEER_REVIEW_COLLECTIONS.PEER_REVIEWS, review.reviewId);
@@ -139,16 +242,251 @@ export class PeerReviewService {
     }
   }
 
+  // Reputation Calibration
+  /**
+   * Records how helpful the reviewee found a review and recalibrates the reviewer's reputation
+   */
+  static async rateReviewHelpfulness(
+    reviewId: string,
+    raterId: string,
+    rating: number,
+    comment?: string
+  ): Promise<ReputationCalibration | null> {
+    try {
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        throw new Error('Helpfulness ratings must be whole numbers from 1 to 5');
+      }
+
+      const review = await this.getPeerReview(reviewId);
+      if (!review) {
+        throw new Error(`Peer review ${reviewId} not found`);
+      }
+      if (review.revieweeId !== raterId) {
+        throw new Error('Only the reviewee can rate a review');
+      }
+
+      const docRef = doc(db, PEER_REVIEW_COLLECTIONS.PEER_REVIEWS, reviewId);
+      await updateDoc(docRef, {
+        helpfulness: {
+          rating,
+          ...(comment?.trim() && { comment: comment.trim() }),
+          ratedAt: new Date().toISOString()
+        }
+      });
+
+      return await this.calibrateReviewerReputation(review.reviewerId);
+    } catch (error) {
+      console.error('Error rating review helpfulness:', error);
+      throw error;
+    }
+  }
+
+  static async recordReviewQuality(reviewId: string, aiQualityScore: number): Promise<void> {
+    try {
+      const docRef = doc(db, PEER_REVIEW_COLLECTIONS.PEER_REVIEWS, reviewId);
+      await updateDoc(docRef, { aiQualityScore: Math.min(1, Math.max(0, aiQualityScore)) });
+    } catch (error) {
+      console.error('Error recording review quality:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recomputes a reviewer's reputation from their recent reviews; the level follows the calibration
+   */
+  static async calibrateReviewerReputation(reviewerId: string): Promise<ReputationCalibration | null> {
+    try {
+      const [profile, reviews] = await Promise.all([
+        this.getReviewerProfile(reviewerId),
+        this.getReviewsForUser(reviewerId, 'reviewer')
+      ]);
+      if (!profile) return null;
+
+      const calibration = ReputationCalibrator.calibrate(reviews);
+      const ratings = reviews
+        .map(review => review.helpfulness?.rating)
+        .filter((rating): rating is number => rating !== undefined);
+
+      await this.createOrUpdateReviewerProfile({
+        ...profile,
+        reviewStats: {
+          ...profile.reviewStats,
+          helpfulnessScore: ratings.length > 0
+            ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length
+            : profile.reviewStats.helpfulnessScore
+        },
+        reputation: {
+          ...profile.reputation,
+          level: ReputationCalibrator.levelFor(calibration),
+          calibration
+        }
+      });
+
+      return calibration;
+    } catch (error) {
+      console.error('Error calibrating reviewer reputation:', error);
+      throw error;
+    }
+  }
+
+  // Review Round Operations
+  static async submitRevision(
+    reviewId: string,
+    revieweeId: string,
+    revision: ReviewedCode,
+    revisionNote: string
+  ): Promise<PeerReview> {
+    try {
+      const review = await this.getPeerReview(reviewId);
+      if (!review) {
+        throw new Error(`Peer review ${reviewId} not found`);
+      }
+      if (review.revieweeId !== revieweeId) {
+        throw new Error('Only the reviewee can submit a revision');
+      }
+
+      const updated = ReviewRounds.submitRevision(review, revision, revisionNote);
+      await setDoc(doc(db, PEER_REVIEW_COLLECTIONS.PEER_REVIEWS, reviewId), this.convertPeerReviewToDocument(updated));
+      return updated;
+    } catch (error) {
+      console.error('Error submitting revision:', error);
+      throw error;
+    }
+  }
+
+  static async completeReviewRound(reviewId: string, reviewerId: string, input: RoundReviewInput): Promise<PeerReview> {
+    try {
+      const review = await this.getPeerReview(reviewId);
+      if (!review) {
+        throw new Error(`Peer review ${reviewId} not found`);
+      }
+      if (review.reviewerId !== reviewerId) {
+        throw new Error('Only the reviewer can review a revision');
+      }
+
+      const updated = ReviewRounds.completeRound(review, input);
+      await setDoc(doc(db, PEER_REVIEW_COLLECTIONS.PEER_REVIEWS, reviewId), this.convertPeerReviewToDocument(updated));
+      return updated;
+    } catch (error) {
+      console.error('Error completing review round:', error);
+      throw error;
+    }
+  }
+
+  // Review Thread Operations
+  static async createReviewThread(thread: ReviewThread): Promise<string> {
+    try {
+      const docRef = doc(db, PEER_REVIEW_COLLECTIONS.REVIEW_THREADS, thread.threadId);
+      await setDoc(docRef, this.convertReviewThreadToDocument(thread));
+      return thread.threadId;
+    } catch (error) {
+      console.error('Error creating review thread:', error);
+      throw error;
+    }
+  }
+
+  static async getReviewThreads(reviewId: string): Promise<ReviewThread[]> {
+    try {
+      const q = query(
+        collection(db, PEER_REVIEW_COLLECTIONS.REVIEW_THREADS),
+        where('reviewId', '==', reviewId),
+        limit(200)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const threads: ReviewThread[] = [];
+
+      querySnapshot.forEach((doc) => {
+        threads.push(this.convertDocumentToReviewThread(doc.data() as ReviewThreadDocument));
+      });
+
+      return threads.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+      console.error('Error getting review threads:', error);
+      throw error;
+    }
+  }
+
+  // Replies are appended rather than rewriting the thread, so concurrent replies are all kept
+  static async addThreadReply(threadId: string, comment: ReviewComment): Promise<void> {
+    try {
+      const docRef = doc(db, PEER_REVIEW_COLLECTIONS.REVIEW_THREADS, threadId);
+      await updateDoc(docRef, {
+        comments: arrayUnion(this.convertCommentToDocument(comment)),
+        status: 'open',
+        resolvedAt: deleteField(),
+        resolvedBy: deleteField(),
+        updatedAt: comment.createdAt.toISOString()
+      });
+    } catch (error) {
+      console.error('Error replying to review thread:', error);
+      throw error;
+    }
+  }
+
+  static async setThreadResolved(threadId: string, userId: string, resolved: boolean): Promise<void> {
+    try {
+      const now = new Date().toISOString();
+      const docRef = doc(db, PEER_REVIEW_COLLECTIONS.REVIEW_THREADS, threadId);
+      await updateDoc(docRef, {
+        status: resolved ? 'resolved' : 'open',
+        resolvedAt: resolved ? now : deleteField(),
+        resolvedBy: resolved ? userId : deleteField(),
+        updatedAt: now
+      });
+    } catch (error) {
+      console.error('Error updating review thread status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Accepts a thread's suggestion and stores the reviewed code with all accepted suggestions
+   * applied as the review's patched code, which is returned
+   */
+  static async acceptThreadSuggestion(reviewId: string, threadId: string, userId: string): Promise<string> {
+    try {
+      const [review, threads] = await Promise.all([
+        this.getPeerReview(reviewId),
+        this.getReviewThreads(reviewId)
+      ]);
+      const thread = threads.find(existing => existing.threadId === threadId);
+      if (!review?.reviewedCode || !thread) {
+        throw new Error(`Review ${reviewId} has no code or thread ${threadId}`);
+      }
+
+      const accepted = ReviewThreads.acceptSuggestion(thread, threads, userId);
+      const patchedCode = ReviewThreads.applyAcceptedSuggestions(
+        review.reviewedCode.code,
+        threads.map(existing => existing.threadId === threadId ? accepted : existing)
+      );
+
+      const batch = writeBatch(db);
+      batch.set(doc(db, PEER_REVIEW_COLLECTIONS.REVIEW_THREADS, threadId), this.convertReviewThreadToDocument(accepted));
+      batch.update(doc(db, PEER_REVIEW_COLLECTIONS.PEER_REVIEWS, reviewId), {
+        patchedCode,
+        updatedAt: new Date().toISOString()
+      });
+      await batch.commit();
+
+      return patchedCode;
+    } catch (error) {
+      console.error('Error accepting review suggestion:', error);
+      throw error;
+    }
+  }
+
   // Review Request Operations
   static async createReviewRequest(request: PeerReviewRequest): Promise<string> {
     try {
       const docRef = doc(db, PEER_REVIEW_COLLECTIONS.REVIEW_REQUESTS, request.requestId);
-      const document: PeerReviewRequestDocument = {
-        ...request,
-        createdAt: request.createdAt.toISOString(),
-        expiresAt: request.expiresAt.toISOString()
-      };
-      await setDoc(docRef, document);
+      await setDoc(docRef, this.convertReviewRequestToDocument(request));
+
+      try {
+        await this.assignReviewers(request.requestId);
+      } catch {
+        // The request stays open and the scheduled reassignment offers it again
+      }
       return request.requestId;
     } catch (error) {
       console.error('Error creating review request:', error);
@@ -156,6 +494,22 @@ export class PeerReviewService {
     }
   }
 
+  static async getReviewRequest(requestId: string): Promise<PeerReviewRequest | null> {
+    try {
+      const docRef = doc(db, PEER_REVIEW_COLLECTIONS.REVIEW_REQUESTS, requestId);
+      const docSnap = await getDoc(docRef);
+
+      if (docSnap.exists()) {
+        return this.convertDocumentToReviewRequest(docSnap.data() as PeerReviewRequestDocument);
+      }
+
+      return null;
+    } catch (error) {
+      console.error('Error getting review request:', error);
+      throw error;
+    }
+  }
+
   static async getOpenReviewRequests(skillsToMatch?: string[]): Promise<PeerReviewRequest[]> {
     try {
       let q = query(
@@ -169,12 +523,7 @@ export class PeerReviewService {
       const requests: PeerReviewRequest[] = [];
       
       querySnapshot.forEach((doc) => {
-        const data = doc.data() as PeerReviewRequestDocument;
-        const request: PeerReviewRequest = {
-          ...data,
-          createdAt: new Date(data.createdAt),
-          expiresAt: new Date(data.expiresAt)
-        };
+        const request = this.convertDocumentToReviewRequest(doc.data() as PeerReviewRequestDocument);
         
         // Filter by skills if provided
         if (!skillsToMatch || skillsToMatch.some(skill => request.skillsRequested.includes(skill))) {
@@ -303,45 +652,51 @@ export class PeerReviewService {
   }
 
   // Matching and Analytics
-  static async findPotentialReviewers(request: PeerReviewRequest): Promise<PeerReviewMatchResult> {
+  static async findPotentialReviewers(
+    request: PeerReviewRequest,
+    config: Partial<ReviewerMatchingConfig> = {},
+    now: Date = new Date()
+  ): Promise<PeerReviewMatchResult> {
     try {
-      // Get all available reviewers
       const q = query(
         collection(db, PEER_REVIEW_COLLECTIONS.REVIEWER_PROFILES),
         where('availability.isAvailable', '==', true),
-        limit(20)
+        limit(MATCHING_POOL_SIZE)
       );
       
       const querySnapshot = await getDocs(q);
-      const potentialReviewers: ReviewerProfile[] = [];
+      const reviewers: ReviewerProfile[] = [];
       
       querySnapshot.forEach((doc) => {
         const data = doc.data() as ReviewerProfileDocument;
-        const profile: ReviewerProfile = {
+        reviewers.push({
           ...data,
           skillLevels: new Map(Object.entries(data.skillLevels))
-        };
-        
-        // Basic skill matching
-        const hasMatchingSkills = request.skillsRequested.some(skill => 
-          profile.skillLevels.has(skill) && (profile.skillLevels.get(skill) || 0) > 0
-        );
-        
-        if (hasMatchingSkills && profile.availability.currentLoad < 5) {
-          potentialReviewers.push(profile);
-        }
+        });
       });
-      
-      // Sort by matching score (simplified)
-      const recommendedReviewers = potentialReviewers
-        .sort((a, b) => b.reviewStats.averageRating - a.reviewStats.averageRating)
-        .slice(0, Math.min(request.maxReviewers, 5));
+
+      const matches = ReviewerMatcher.rankReviewers(request, reviewers, {
+        openAssignments: await this.getOpenAssignmentCounts(),
+        // Anyone who already had a turn at this request, including declines and timeouts
+        excludedReviewers: [
+          ...request.assignedReviewers,
+          ...(request.assignments ?? []).map(assignment => assignment.reviewerId)
+        ],
+        now
+      }, config);
+
+      const recommended = matches.slice(0, this.openSeats(request));
       
       return {
-        potentialReviewers,
-        matchingScore: potentialReviewers.length > 0 ? 0.8 : 0,
-        estimatedResponseTime: 24, // hours
-        recommendedReviewers
+        potentialReviewers: matches.map(match => match.reviewer),
+        matchingScore: recommended.length > 0
+          ? recommended.reduce((sum, match) => sum + match.score, 0) / recommended.length
+          : 0,
+        estimatedResponseTime: recommended.length > 0
+          ? Math.round(Math.max(...recommended.map(match => match.estimatedResponseTime)))
+          : 24, // hours
+        recommendedReviewers: recommended.map(match => match.reviewer),
+        matches
       };
     } catch (error) {
       console.error('Error finding potential reviewers:', error);
@@ -349,9 +704,240 @@ export class PeerReviewService {
     }
   }
 
+  /**
+   * Offers the request to the best matching reviewers until its open seats are filled
+   */
+  static async assignReviewers(
+    requestId: string,
+    config: Partial<ReviewerMatchingConfig> = {},
+    now: Date = new Date()
+  ): Promise<string[]> {
+    try {
+      const request = await this.getReviewRequest(requestId);
+      if (!request || request.status === 'completed' || request.status === 'expired') {
+        return [];
+      }
+
+      const { matches = [] } = await this.findPotentialReviewers(request, config, now);
+      if (matches.length === 0) {
+        return [];
+      }
+
+      let reviewerIds: string[] = [];
+      await this.updateAssignments(requestId, now, (current) => {
+        if (current.status === 'completed' || current.status === 'expired') {
+          return null;
+        }
+
+        // Others may have been offered the request since the matches were ranked
+        const offered = new Set([
+          ...current.assignedReviewers,
+          ...(current.assignments ?? []).map(assignment => assignment.reviewerId)
+        ]);
+        reviewerIds = matches
+          .map(match => match.reviewer.userId)
+          .filter(reviewerId => !offered.has(reviewerId))
+          .slice(0, this.openSeats(current));
+        if (reviewerIds.length === 0) {
+          return null;
+        }
+
+        return {
+          assignments: [
+            ...(current.assignments ?? []),
+            ...reviewerIds.map(reviewerId => ({ reviewerId, status: 'pending' as const, assignedAt: now }))
+          ],
+          matchedReviewers: reviewerIds
+        };
+      });
+
+      return reviewerIds;
+    } catch (error) {
+      console.error('Error assigning reviewers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records a reviewer accepting or declining an assignment; a decline is offered to someone else
+   */
+  static async respondToAssignment(
+    requestId: string,
+    reviewerId: string,
+    accept: boolean,
+    now: Date = new Date()
+  ): Promise<void> {
+    try {
+      const responded = await this.updateAssignments(requestId, now, (request) => {
+        const assignment = request.assignments?.find(
+          assignment => assignment.reviewerId === reviewerId && assignment.status === 'pending'
+        );
+        if (!assignment) {
+          return null;
+        }
+
+        return {
+          assignments: request.assignments!.map(existing => existing === assignment
+            ? { ...existing, status: accept ? 'accepted' as const : 'declined' as const, respondedAt: now }
+            : existing)
+        };
+      });
+      if (!responded) {
+        throw new Error(`No pending assignment for reviewer ${reviewerId} on request ${requestId}`);
+      }
+
+      if (!accept) {
+        await this.assignReviewers(requestId, {}, now);
+      }
+    } catch (error) {
+      console.error('Error responding to review assignment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Expires assignments nobody accepted within the urgency's timeout and offers them to the
+   * next best reviewers, and offers requests still waiting for reviewers to whoever is
+   * available now. Runs on a schedule through /api/cron/peer-review-reassignment.
+   */
+  static async reassignStaleAssignments(
+    config: Partial<ReviewerMatchingConfig> = {},
+    now: Date = new Date()
+  ): Promise<ReassignmentResult[]> {
+    try {
+      const timeouts = { ...ReviewerMatcher.DEFAULT_CONFIG, ...config }.acceptanceTimeoutHours;
+      const q = query(
+        collection(db, PEER_REVIEW_COLLECTIONS.REVIEW_REQUESTS),
+        where('status', 'in', ['open', 'assigned', 'in_review']),
+        limit(MATCHING_POOL_SIZE)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const requests: PeerReviewRequest[] = [];
+      querySnapshot.forEach((doc) => {
+        requests.push(this.convertDocumentToReviewRequest(doc.data() as PeerReviewRequestDocument));
+      });
+
+      const isStale = (request: PeerReviewRequest) => {
+        const deadline = now.getTime() - timeouts[request.urgency] * HOUR_MS;
+        return (assignment: ReviewAssignment) =>
+          assignment.status === 'pending' && assignment.assignedAt.getTime() <= deadline;
+      };
+
+      const results: ReassignmentResult[] = [];
+      for (const request of requests) {
+        if (request.expiresAt <= now) continue;
+        if (request.status !== 'open' && !(request.assignments ?? []).some(isStale(request))) continue;
+
+        let expiredReviewers: string[] = [];
+        await this.updateAssignments(request.requestId, now, (current) => {
+          const stale = (current.assignments ?? []).filter(isStale(current));
+          expiredReviewers = stale.map(assignment => assignment.reviewerId);
+          if (stale.length === 0) {
+            return null;
+          }
+
+          return {
+            assignments: current.assignments!.map(assignment => stale.includes(assignment)
+              ? { ...assignment, status: 'expired' as const, respondedAt: now }
+              : assignment)
+          };
+        });
+
+        const newReviewers = await this.assignReviewers(request.requestId, config, now);
+        if (expiredReviewers.length > 0 || newReviewers.length > 0) {
+          results.push({ requestId: request.requestId, expiredReviewers, newReviewers });
+        }
+      }
+
+      return results;
+    } catch (error) {
+      console.error('Error reassigning stale review assignments:', error);
+      throw error;
+    }
+  }
+
+  // Pending and accepted assignments across all active requests, per reviewer
+  private static async getOpenAssignmentCounts(): Promise<Map<string, number>> {
+    const q = query(
+      collection(db, PEER_REVIEW_COLLECTIONS.REVIEW_REQUESTS),
+      where('status', 'in', ['assigned', 'in_review']),
+      limit(MATCHING_POOL_SIZE)
+    );
+
+    const querySnapshot = await getDocs(q);
+    const counts = new Map<string, number>();
+    querySnapshot.forEach((doc) => {
+      const request = this.convertDocumentToReviewRequest(doc.data() as PeerReviewRequestDocument);
+      for (const reviewerId of this.activeAssignments(request)) {
+        counts.set(reviewerId, (counts.get(reviewerId) || 0) + 1);
+      }
+    });
+    return counts;
+  }
+
+  // Requests created before assignments were tracked only list `assignedReviewers`
+  private static activeAssignments(request: PeerReviewRequest): string[] {
+    if (!request.assignments) {
+      return request.assignedReviewers;
+    }
+    return request.assignments
+      .filter(assignment => assignment.status === 'pending' || assignment.status === 'accepted')
+      .map(assignment => assignment.reviewerId);
+  }
+
+  private static openSeats(request: PeerReviewRequest): number {
+    return Math.max(0, Math.min(request.maxReviewers, MAX_RECOMMENDED_REVIEWERS) - this.activeAssignments(request).length);
+  }
+
+  /**
+   * Reads a request and writes its changed assignments in one transaction, so assignments,
+   * responses and timeouts running at the same time cannot overwrite each other. `change`
+   * may run more than once and returns null to leave the request as it is. Resolves to
+   * whether anything was written.
+   */
+  private static async updateAssignments(
+    requestId: string,
+    now: Date,
+    change: (request: PeerReviewRequest) => { assignments: ReviewAssignment[]; matchedReviewers?: string[] } | null
+  ): Promise<boolean> {
+    const requestRef = doc(db, PEER_REVIEW_COLLECTIONS.REVIEW_REQUESTS, requestId);
+
+    return runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(requestRef);
+      if (!snapshot.exists()) {
+        return false;
+      }
+
+      const request = this.convertDocumentToReviewRequest(snapshot.data() as PeerReviewRequestDocument);
+      const changed = change(request);
+      if (!changed) {
+        return false;
+      }
+
+      const updated: PeerReviewRequest = { ...request, assignments: changed.assignments };
+      const active = this.activeAssignments(updated);
+      const status = changed.assignments.some(assignment => assignment.status === 'accepted')
+        ? 'in_review'
+        : active.length > 0 ? 'assigned' : 'open';
+
+      transaction.update(requestRef, {
+        assignments: this.convertReviewRequestToDocument(updated).assignments,
+        assignedReviewers: active,
+        status
+      });
+      for (const reviewerId of changed.matchedReviewers ?? []) {
+        transaction.update(doc(db, PEER_REVIEW_COLLECTIONS.REVIEWER_PROFILES, reviewerId), {
+          'availability.lastMatchedAt': now.toISOString()
+        });
+      }
+      return true;
+    });
+  }
+
   static async getReviewAnalytics(userId: string): Promise<ReviewAnalytics> {
     try {
-      const reviews = await this.getReviewsForUser(userId, 'reviewee');
+      const reviews = (await this.getReviewsForUser(userId, 'reviewee')).filter(ModerationQueue.isVisible);
       
       const totalReviews = reviews.length;
       const averageRating = totalReviews > 0 
@@ -0,0 +1,444 @@
+// Firebase Points Ledger Operations
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  documentId,
+  runTransaction,
+  DocumentReference
+} from 'firebase/firestore';
+import { db } from './config';
+import {
+  PointsConfig,
+  PointsLedgerEntry,
+  PointsLedgerEntryDocument,
+  PointsTotals,
+  PointsTotalsDocument,
+  RankingProfile
+} from '@/types/gamification';
+import { LedgerEntryContext, PointsLedger, PointsLedgerDraft, PointsLedgerError } from '@/lib/gamification/points-ledger';
+import { RankingService } from './rankings';
+
+// Collection names
+export const POINTS_LEDGER_COLLECTIONS = {
+  ENTRIES: 'pointsLedger',
+  TOTALS: 'pointsTotals',
+  REVERSALS: 'pointsLedgerReversals' // one document per currently reversed entry
+} as const;
+
+export interface RecordedLedgerEntry {
+  entry: PointsLedgerEntry;
+  totals: PointsTotals;
+  created: boolean; // false when an idempotency key matched an existing entry
+}
+
+export interface RecomputeResult {
+  userId: string;
+  adjustments: number;
+  previousTotal: number;
+  total: number;
+}
+
+// Users whose totals are read per page when recomputing everyone
+const RECOMPUTE_PAGE_SIZE = 200;
+// Times a rebuild reads the ledger again after entries were appended while it ran
+const REBUILD_ATTEMPTS = 5;
+
+interface ReversalMarker {
+  reversalEntryId: string;
+  createdAt: string; // ISO string
+}
+
+export class PointsLedgerService {
+  // Helper methods for document conversion; optional fields are left out rather than written as undefined
+  private static convertEntryToDocument(entry: PointsLedgerEntry): PointsLedgerEntryDocument {
+    const { competitionId, input, relatedEntryId, reason, actorId, ...rest } = entry;
+    return {
+      ...rest,
+      ...(competitionId && { competitionId }),
+      ...(input && { input: JSON.parse(JSON.stringify(input)) }),
+      ...(relatedEntryId && { relatedEntryId }),
+      ...(reason && { reason }),
+      ...(actorId && { actorId }),
+      createdAt: entry.createdAt.toISOString()
+    };
+  }
+
+  private static convertDocumentToEntry(doc: PointsLedgerEntryDocument): PointsLedgerEntry {
+    return { ...doc, createdAt: new Date(doc.createdAt) };
+  }
+
+  private static convertTotalsToDocument(totals: PointsTotals): PointsTotalsDocument {
+    const { lastEntryAt, ...rest } = totals;
+    return {
+      ...rest,
+      ...(lastEntryAt && { lastEntryAt: lastEntryAt.toISOString() }),
+      updatedAt: totals.updatedAt.toISOString()
+    };
+  }
+
+  private static convertDocumentToTotals(doc: PointsTotalsDocument): PointsTotals {
+    const { lastEntryAt, ...rest } = doc;
+    return {
+      ...rest,
+      ...(lastEntryAt && { lastEntryAt: new Date(lastEntryAt) }),
+      updatedAt: new Date(doc.updatedAt)
+    };
+  }
+
+  private static totalsRef(userId: string) {
+    return doc(db, POINTS_LEDGER_COLLECTIONS.TOTALS, userId);
+  }
+
+  private static reversalRef(entryId: string) {
+    return doc(db, POINTS_LEDGER_COLLECTIONS.REVERSALS, entryId);
+  }
+
+  /**
+   * Appends an entry and folds it into the user's totals and leaderboards. With an
+   * idempotency key, recording the same key again returns the first entry unchanged.
+   */
+  static async record(
+    draft: PointsLedgerDraft,
+    options: { idempotencyKey?: string; profile?: RankingProfile } = {}
+  ): Promise<RecordedLedgerEntry> {
+    try {
+      const entryRef = options.idempotencyKey
+        ? doc(db, POINTS_LEDGER_COLLECTIONS.ENTRIES, encodeURIComponent(options.idempotencyKey))
+        : undefined;
+      return await this.append(draft, { entryRef, profile: options.profile });
+    } catch (error) {
+      console.error('Error recording points ledger entry:', error);
+      throw error;
+    }
+  }
+
+  static async getEntry(entryId: string): Promise<PointsLedgerEntry | null> {
+    try {
+      const docSnap = await getDoc(doc(db, POINTS_LEDGER_COLLECTIONS.ENTRIES, entryId));
+      return docSnap.exists() ? this.convertDocumentToEntry(docSnap.data() as PointsLedgerEntryDocument) : null;
+    } catch (error) {
+      console.error('Error getting points ledger entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A user's whole ledger, oldest first
+   */
+  static async getEntries(userId: string): Promise<PointsLedgerEntry[]> {
+    try {
+      const q = query(
+        collection(db, POINTS_LEDGER_COLLECTIONS.ENTRIES),
+        where('userId', '==', userId),
+        orderBy('createdAt', 'asc')
+      );
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(docSnap => this.convertDocumentToEntry(docSnap.data() as PointsLedgerEntryDocument));
+    } catch (error) {
+      console.error('Error getting points ledger entries:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Entries recorded for a source, e.g. getEntriesBySource('reviewId', reviewId)
+   */
+  static async getEntriesBySource(sourceKey: string, sourceId: string): Promise<PointsLedgerEntry[]> {
+    try {
+      const q = query(
+        collection(db, POINTS_LEDGER_COLLECTIONS.ENTRIES),
+        where(`sourceIds.${sourceKey}`, '==', sourceId)
+      );
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(docSnap => this.convertDocumentToEntry(docSnap.data() as PointsLedgerEntryDocument));
+    } catch (error) {
+      console.error('Error getting points ledger entries by source:', error);
+      throw error;
+    }
+  }
+
+  static async getTotals(userId: string): Promise<PointsTotals | null> {
+    try {
+      const docSnap = await getDoc(this.totalsRef(userId));
+      return docSnap.exists() ? this.convertDocumentToTotals(docSnap.data() as PointsTotalsDocument) : null;
+    } catch (error) {
+      console.error('Error getting points totals:', error);
+      throw error;
+    }
+  }
+
+  static async recordPenalty(
+    userId: string,
+    points: number,
+    reason: string,
+    actorId: string,
+    context: LedgerEntryContext = {}
+  ): Promise<RecordedLedgerEntry> {
+    return this.record(PointsLedger.penalty(userId, points, reason, actorId, context));
+  }
+
+  /**
+   * Records a competition prize once per user and competition
+   */
+  static async recordPrize(
+    userId: string,
+    points: number,
+    description: string,
+    competitionId: string
+  ): Promise<RecordedLedgerEntry> {
+    return this.record(
+      PointsLedger.prize(userId, points, description, competitionId),
+      { idempotencyKey: `prize|${competitionId}|${userId}` }
+    );
+  }
+
+  /**
+   * Cancels an entry for fraud or moderation. Reversing a reversal reinstates the entry.
+   */
+  static async reverseEntry(entryId: string, reason: string, actorId: string): Promise<RecordedLedgerEntry> {
+    try {
+      const target = await this.getEntry(entryId);
+      if (!target) {
+        throw new Error(`Points ledger entry ${entryId} not found`);
+      }
+
+      const ledger = await this.getEntries(target.userId);
+      const draft = PointsLedger.reversal(target, ledger, reason, actorId);
+      return await this.append(draft, {
+        reversalOf: target,
+        earnedAt: this.originOf(target, ledger).createdAt
+      });
+    } catch (error) {
+      console.error('Error reversing points ledger entry:', error);
+      throw error;
+    }
+  }
+
+  static async reinstateEntry(entryId: string, reason: string, actorId: string): Promise<RecordedLedgerEntry> {
+    try {
+      const marker = await getDoc(this.reversalRef(entryId));
+      if (!marker.exists()) {
+        throw new PointsLedgerError(`Entry ${entryId} is not reversed`, 'not_reversed');
+      }
+      return await this.reverseEntry((marker.data() as ReversalMarker).reversalEntryId, reason, actorId);
+    } catch (error) {
+      console.error('Error reinstating points ledger entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reverses every standing entry recorded for a source, e.g. a review hidden by moderation
+   */
+  static async reverseBySource(
+    sourceKey: string,
+    sourceId: string,
+    reason: string,
+    actorId: string
+  ): Promise<RecordedLedgerEntry[]> {
+    const entries = await this.getEntriesBySource(sourceKey, sourceId);
+    return this.forEachStanding(
+      entries.filter(entry => entry.type !== 'reversal' && entry.type !== 'adjustment'),
+      entry => this.reverseEntry(entry.entryId, reason, actorId),
+      'already_reversed'
+    );
+  }
+
+  static async reinstateBySource(
+    sourceKey: string,
+    sourceId: string,
+    reason: string,
+    actorId: string
+  ): Promise<RecordedLedgerEntry[]> {
+    const entries = await this.getEntriesBySource(sourceKey, sourceId);
+    return this.forEachStanding(
+      entries.filter(entry => entry.type !== 'reversal' && entry.type !== 'adjustment'),
+      entry => this.reinstateEntry(entry.entryId, reason, actorId),
+      'not_reversed'
+    );
+  }
+
+  /**
+   * Recalculates a user's calculated entries under the given config, appending adjustment
+   * entries for any difference, then rebuilds their totals from the full ledger
+   */
+  static async recomputeUser(userId: string, config: Partial<PointsConfig>, reason: string): Promise<RecomputeResult> {
+    try {
+      const ledger = await this.getEntries(userId);
+      const previousTotal = (await this.getTotals(userId))?.total ?? 0;
+      const adjustments = PointsLedger.recompute(ledger, config, reason);
+
+      for (const draft of adjustments) {
+        const related = ledger.find(entry => entry.entryId === draft.relatedEntryId)!;
+        await this.append(draft, { earnedAt: related.createdAt });
+      }
+
+      const totals = await this.rebuildTotals(userId);
+      return { userId, adjustments: adjustments.length, previousTotal, total: totals.total };
+    } catch (error) {
+      console.error('Error recomputing user points:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recomputes every user that has a ledger, reading their totals a page at a time
+   */
+  static async recomputeAll(
+    config: Partial<PointsConfig>,
+    reason: string,
+    onUser?: (result: RecomputeResult) => void
+  ): Promise<RecomputeResult[]> {
+    try {
+      const results: RecomputeResult[] = [];
+      let lastUserId: string | undefined;
+      for (;;) {
+        const querySnapshot = await getDocs(query(
+          collection(db, POINTS_LEDGER_COLLECTIONS.TOTALS),
+          orderBy(documentId()),
+          ...(lastUserId ? [startAfter(lastUserId)] : []),
+          limit(RECOMPUTE_PAGE_SIZE)
+        ));
+
+        for (const docSnap of querySnapshot.docs) {
+          const result = await this.recomputeUser(docSnap.id, config, reason);
+          results.push(result);
+          onUser?.(result);
+        }
+
+        if (querySnapshot.docs.length < RECOMPUTE_PAGE_SIZE) break;
+        lastUserId = querySnapshot.docs[querySnapshot.docs.length - 1].id;
+      }
+      return results;
+    } catch (error) {
+      console.error('Error recomputing all user points:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the user's totals with a full replay of their ledger. Transactions cannot query
+   * the ledger, so the replay is only written if no entry was appended since it was read;
+   * every append counts towards the stored entryCount. Otherwise the ledger is read again.
+   */
+  static async rebuildTotals(userId: string): Promise<PointsTotals> {
+    try {
+      for (let attempt = 0; attempt < REBUILD_ATTEMPTS; attempt++) {
+        const before = await this.getTotals(userId);
+        const ledger = await this.getEntries(userId);
+
+        const totals = await runTransaction(db, async (transaction) => {
+          const totalsSnap = await transaction.get(this.totalsRef(userId));
+          const current = totalsSnap.exists() ? this.convertDocumentToTotals(totalsSnap.data() as PointsTotalsDocument) : null;
+          if (current?.entryCount !== before?.entryCount) return null;
+
+          const rebuilt = PointsLedger.project(userId, ledger);
+          transaction.set(this.totalsRef(userId), this.convertTotalsToDocument(rebuilt));
+          return rebuilt;
+        });
+        if (totals) return totals;
+      }
+      throw new Error(`Points totals for ${userId} kept changing while being rebuilt`);
+    } catch (error) {
+      console.error('Error rebuilding points totals:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Writes the entry, the user's new totals and their leaderboard entries in one transaction,
+   * so a failure cannot leave the boards out of step with the ledger. A reversal also claims
+   * the target's reversal marker, so two moderators cannot reverse the same entry twice.
+   */
+  private static async append(
+    draft: PointsLedgerDraft,
+    options: {
+      entryRef?: DocumentReference;
+      reversalOf?: PointsLedgerEntry;
+      earnedAt?: Date;
+      profile?: RankingProfile;
+    }
+  ): Promise<RecordedLedgerEntry> {
+    const entryRef = options.entryRef ?? doc(collection(db, POINTS_LEDGER_COLLECTIONS.ENTRIES));
+    const target = options.reversalOf;
+
+    return runTransaction(db, async (transaction) => {
+      const [existingSnap, markerSnap, totalsSnap] = await Promise.all([
+        options.entryRef ? transaction.get(entryRef) : Promise.resolve(null),
+        target ? transaction.get(this.reversalRef(target.entryId)) : Promise.resolve(null),
+        transaction.get(this.totalsRef(draft.userId))
+      ]);
+      const current = totalsSnap.exists() ? this.convertDocumentToTotals(totalsSnap.data() as PointsTotalsDocument) : null;
+
+      if (existingSnap?.exists()) {
+        const entry = this.convertDocumentToEntry(existingSnap.data() as PointsLedgerEntryDocument);
+        return { entry, totals: current ?? PointsLedger.project(draft.userId, [entry]), created: false };
+      }
+      if (markerSnap?.exists()) {
+        throw new PointsLedgerError(`Entry ${target!.entryId} has already been reversed`, 'already_reversed');
+      }
+
+      const entry: PointsLedgerEntry = { ...draft, entryId: entryRef.id };
+      const totals = PointsLedger.applyToTotals(current, entry);
+
+      // Leaderboards count the points toward the period they were originally earned in
+      if (entry.points !== 0) {
+        await RankingService.applyAward(transaction, {
+          userId: entry.userId,
+          points: entry.points,
+          skillIds: entry.skillIds,
+          competitionId: entry.competitionId,
+          awardedAt: entry.createdAt,
+          ...(options.earnedAt && { earnedAt: options.earnedAt }),
+          ...(options.profile && { profile: options.profile })
+        });
+      }
+
+      transaction.set(entryRef, this.convertEntryToDocument(entry));
+      transaction.set(this.totalsRef(draft.userId), this.convertTotalsToDocument(totals));
+
+      if (target) {
+        const marker: ReversalMarker = { reversalEntryId: entry.entryId, createdAt: entry.createdAt.toISOString() };
+        transaction.set(this.reversalRef(target.entryId), marker);
+        // Reversing a reversal reinstates the original entry, which may be reversed again later
+        if (target.type === 'reversal' && target.relatedEntryId) {
+          transaction.delete(this.reversalRef(target.relatedEntryId));
+        }
+      }
+
+      return { entry, totals, created: true };
+    });
+  }
+
+  // The entry a chain of reversals and adjustments ultimately refers to
+  private static originOf(entry: PointsLedgerEntry, ledger: PointsLedgerEntry[]): PointsLedgerEntry {
+    const related = entry.relatedEntryId ? ledger.find(other => other.entryId === entry.relatedEntryId) : undefined;
+    return related ? this.originOf(related, ledger) : entry;
+  }
+
+  // Runs an operation per entry, skipping entries already in the wanted state
+  private static async forEachStanding(
+    entries: PointsLedgerEntry[],
+    operation: (entry: PointsLedgerEntry) => Promise<RecordedLedgerEntry>,
+    skipCode: PointsLedgerError['code']
+  ): Promise<RecordedLedgerEntry[]> {
+    const results: RecordedLedgerEntry[] = [];
+    for (const entry of entries) {
+      try {
+        results.push(await operation(entry));
+      } catch (error) {
+        if (error instanceof PointsLedgerError && error.code === skipCode) continue;
+        throw error;
+      }
+    }
+    return results;
+  }
+}
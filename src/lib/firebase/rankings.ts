@@ -0,0 +1,295 @@
+// Firebase Leaderboard Ranking Operations
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  getCountFromServer,
+  writeBatch,
+  deleteField,
+  QueryConstraint,
+  Transaction
+} from 'firebase/firestore';
+import { db } from './config';
+import {
+  LeaderboardTimeframe,
+  PointAward,
+  RankedEntry,
+  RankingEntry,
+  RankingEntryDocument,
+  RankingPage
+} from '@/types/gamification';
+import { RankingAggregator } from '@/lib/gamification/ranking-aggregator';
+
+// Collection names
+export const RANKING_COLLECTIONS = {
+  ENTRIES: 'rankingEntries'
+} as const;
+
+export class RankingService {
+  // Helper methods for document conversion; optional fields are left out rather than written as undefined
+  private static convertEntryToDocument(entry: RankingEntry): RankingEntryDocument {
+    const { displayName, previousRank, rankSnapshotPeriod, ...rest } = entry;
+    return {
+      ...rest,
+      ...(displayName && { displayName }),
+      ...(previousRank !== undefined && { previousRank }),
+      ...(rankSnapshotPeriod && { rankSnapshotPeriod }),
+      firstAwardAt: entry.firstAwardAt.toISOString(),
+      lastActivity: entry.lastActivity.toISOString()
+    };
+  }
+
+  private static convertDocumentToEntry(doc: RankingEntryDocument): RankingEntry {
+    return {
+      ...doc,
+      firstAwardAt: new Date(doc.firstAwardAt),
+      lastActivity: new Date(doc.lastActivity)
+    };
+  }
+
+  private static entryRef(boardId: string, userId: string) {
+    return doc(db, RANKING_COLLECTIONS.ENTRIES, encodeURIComponent(`${boardId}|${userId}`));
+  }
+
+  /**
+   * Adds an award to every board it counts toward as part of the caller's transaction, so
+   * the boards change together with whatever the award was recorded in. Reads the boards
+   * first, so it has to run before the transaction's own writes. Returns the user's all-time
+   * global entry along with their total before the award.
+   */
+  static async applyAward(transaction: Transaction, award: PointAward): Promise<{ previousPoints: number; entry: RankingEntry }> {
+    const boards = RankingAggregator.scopesFor(award).flatMap(scope =>
+      RankingAggregator.TIMEFRAMES.map(timeframe => ({
+        scope,
+        timeframe,
+        ref: this.entryRef(RankingAggregator.boardFor(scope, timeframe, award.earnedAt ?? award.awardedAt), award.userId)
+      }))
+    );
+    const snapshots = await Promise.all(boards.map(board => transaction.get(board.ref)));
+
+    let result: { previousPoints: number; entry: RankingEntry } | null = null;
+    boards.forEach((board, index) => {
+      const snapshot = snapshots[index];
+      const existing = snapshot.exists()
+        ? this.convertDocumentToEntry(snapshot.data() as RankingEntryDocument)
+        : null;
+      const entry = RankingAggregator.applyAward(existing, board.scope, board.timeframe, award);
+      transaction.set(board.ref, this.convertEntryToDocument(entry));
+
+      if (board.scope.type === 'global' && board.timeframe === 'all_time') {
+        result = { previousPoints: existing?.points ?? 0, entry };
+      }
+    });
+
+    return result!;
+  }
+
+  static async getEntry(boardId: string, userId: string): Promise<RankingEntry | null> {
+    try {
+      const docSnap = await getDoc(this.entryRef(boardId, userId));
+      return docSnap.exists() ? this.convertDocumentToEntry(docSnap.data() as RankingEntryDocument) : null;
+    } catch (error) {
+      console.error('Error getting ranking entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Number of users on the board with more than the given points, using a count
+   * aggregation rather than reading the entries
+   */
+  static async countAbove(boardId: string, points: number): Promise<number> {
+    return this.count(boardId, where('points', '>', points));
+  }
+
+  /**
+   * The user's rank on a board, or null if they have no points there yet
+   */
+  static async getRank(boardId: string, userId: string): Promise<number | null> {
+    try {
+      const entry = await this.getEntry(boardId, userId);
+      return entry ? (await this.countAbove(boardId, entry.points)) + 1 : null;
+    } catch (error) {
+      console.error('Error getting user rank:', error);
+      throw error;
+    }
+  }
+
+  static async getParticipantCount(boardId: string): Promise<number> {
+    return this.count(boardId);
+  }
+
+  /**
+   * One page of a board in points order, continuing after the cursor if given
+   */
+  static async getPage(boardId: string, pageSize: number, cursor?: string): Promise<RankingPage> {
+    try {
+      const after = cursor ? RankingAggregator.decodeCursor(cursor) : null;
+      const q = query(
+        collection(db, RANKING_COLLECTIONS.ENTRIES),
+        where('boardId', '==', boardId),
+        orderBy('points', 'desc'),
+        orderBy('userId', 'asc'),
+        ...(after ? [startAfter(after.points, after.userId)] : []),
+        limit(pageSize + 1)
+      );
+      const querySnapshot = await getDocs(q);
+      const entries = querySnapshot.docs.map(docSnap => this.convertDocumentToEntry(docSnap.data() as RankingEntryDocument));
+      const page = entries.slice(0, pageSize);
+
+      return {
+        entries: await this.rankEntries(boardId, page, !after),
+        ...(entries.length > pageSize && { nextCursor: RankingAggregator.encodeCursor(page[page.length - 1]) })
+      };
+    } catch (error) {
+      console.error('Error getting leaderboard page:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The entries directly around a user: up to half the window above them, then the user
+   * and those below
+   */
+  static async getWindow(boardId: string, userId: string, size: number): Promise<RankingPage> {
+    try {
+      const entry = await this.getEntry(boardId, userId);
+      if (!entry) return this.getPage(boardId, size);
+
+      const entries = collection(db, RANKING_COLLECTIONS.ENTRIES);
+      const aboveCount = Math.floor((size - 1) / 2);
+      const [aboveSnapshot, belowSnapshot] = await Promise.all([
+        getDocs(query(
+          entries,
+          where('boardId', '==', boardId),
+          where('points', '>', entry.points),
+          orderBy('points', 'asc'),
+          orderBy('userId', 'desc'),
+          limit(aboveCount)
+        )),
+        getDocs(query(
+          entries,
+          where('boardId', '==', boardId),
+          where('points', '<=', entry.points),
+          orderBy('points', 'desc'),
+          orderBy('userId', 'asc'),
+          limit(size + 1)
+        ))
+      ]);
+
+      const toEntry = (docSnap: { data: () => unknown }) => this.convertDocumentToEntry(docSnap.data() as RankingEntryDocument);
+      const above = aboveSnapshot.docs.map(toEntry).reverse();
+      const below = belowSnapshot.docs.map(toEntry);
+      const window = [...above, ...below].slice(0, size);
+      const last = window[window.length - 1];
+
+      return {
+        entries: await this.rankEntries(boardId, window, false),
+        ...(above.length + below.length > size && last && { nextCursor: RankingAggregator.encodeCursor(last) })
+      };
+    } catch (error) {
+      console.error('Error getting leaderboard window:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The user's entries for every scope on one timeframe's current boards
+   */
+  static async getUserEntries(userId: string, timeframe: LeaderboardTimeframe, now: Date = new Date()): Promise<RankingEntry[]> {
+    try {
+      const q = query(
+        collection(db, RANKING_COLLECTIONS.ENTRIES),
+        where('userId', '==', userId),
+        where('timeframe', '==', timeframe),
+        where('periodKey', '==', RankingAggregator.periodKey(timeframe, now))
+      );
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(docSnap => this.convertDocumentToEntry(docSnap.data() as RankingEntryDocument));
+    } catch (error) {
+      console.error('Error getting user ranking entries:', error);
+      throw error;
+    }
+  }
+
+  // Ranks a contiguous run of entries and fills in their previous ranks
+  private static async rankEntries(boardId: string, entries: RankingEntry[], fromTop: boolean): Promise<RankedEntry[]> {
+    if (entries.length === 0) return [];
+
+    const first = entries[0];
+    const [countAbove, tiedAhead] = fromTop
+      ? [0, 0]
+      : await Promise.all([
+          this.countAbove(boardId, first.points),
+          this.count(boardId, where('points', '==', first.points), where('userId', '<', first.userId))
+        ]);
+    const ranks = RankingAggregator.rankPage(entries, countAbove, countAbove + tiedAhead);
+    const withSnapshots = await this.resolvePreviousRanks(entries);
+
+    return withSnapshots.map((entry, index) => ({ ...entry, rank: ranks[index] }));
+  }
+
+  /**
+   * Fills in previousRank for entries whose snapshot is from an earlier period. The rank is
+   * read from the previous period's board, which no longer changes, or for all-time boards
+   * from everyone's opening points for the day, and stored so it is computed once per period.
+   */
+  private static async resolvePreviousRanks(entries: RankingEntry[], now: Date = new Date()): Promise<RankingEntry[]> {
+    const batch = writeBatch(db);
+    let stale = 0;
+
+    const resolved = await Promise.all(entries.map(async entry => {
+      const period = RankingAggregator.snapshotPeriod(entry, now);
+      if (entry.rankSnapshotPeriod === period) return entry;
+
+      const previousRank = await this.previousRank(entry, now);
+      batch.update(this.entryRef(entry.boardId, entry.userId), {
+        previousRank: previousRank ?? deleteField(),
+        rankSnapshotPeriod: period
+      });
+      stale++;
+
+      return { ...entry, previousRank, rankSnapshotPeriod: period };
+    }));
+
+    if (stale > 0) await batch.commit();
+    return resolved;
+  }
+
+  private static async previousRank(entry: RankingEntry, now: Date): Promise<number | undefined> {
+    if (entry.timeframe === 'all_time') {
+      const today = RankingAggregator.periodKey('daily', now);
+      if (RankingAggregator.periodKey('daily', entry.firstAwardAt) === today) return undefined;
+
+      // Users touched today carry their opening points; everyone else still holds them as points
+      const opening = RankingAggregator.openingPoints(entry, today);
+      const [touchedToday, untouched] = await Promise.all([
+        this.count(entry.boardId, where('openingPeriod', '==', today), where('openingPoints', '>', opening)),
+        this.count(entry.boardId, where('openingPeriod', '<', today), where('points', '>', opening))
+      ]);
+      return touchedToday + untouched + 1;
+    }
+
+    const previousBoard = RankingAggregator.previousBoardId(entry);
+    const previous = previousBoard ? await this.getEntry(previousBoard, entry.userId) : null;
+    return previous ? (await this.countAbove(previousBoard!, previous.points)) + 1 : undefined;
+  }
+
+  private static async count(boardId: string, ...constraints: QueryConstraint[]): Promise<number> {
+    try {
+      const q = query(collection(db, RANKING_COLLECTIONS.ENTRIES), where('boardId', '==', boardId), ...constraints);
+      const snapshot = await getCountFromServer(q);
+      return snapshot.data().count;
+    } catch (error) {
+      console.error('Error counting ranking entries:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,39 @@
+// Server-side verification of the signed-in user behind a request
+
+import { adminAuth } from './admin';
+
+export class RequestAuthError extends Error {
+  constructor(message: string, public readonly status: 401 | 503) {
+    super(message);
+    this.name = 'RequestAuthError';
+  }
+}
+
+/**
+ * Verifies a Firebase ID token and returns the user it was issued to
+ */
+export async function verifyIdToken(idToken: string | null | undefined): Promise<string> {
+  if (typeof adminAuth?.verifyIdToken !== 'function') {
+    throw new RequestAuthError('Authentication is not configured on this server', 503);
+  }
+  if (!idToken) {
+    throw new RequestAuthError('Sign in to continue', 401);
+  }
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(idToken);
+    return decoded.uid as string;
+  } catch {
+    throw new RequestAuthError('Session is invalid or has expired', 401);
+  }
+}
+
+/**
+ * Resolves the user from the `Authorization: Bearer <ID token>` header. The user ID
+ * always comes from the verified token, never from the request body or query.
+ */
+export async function authenticateRequest(request: Request): Promise<string> {
+  const header = request.headers.get('authorization') ?? '';
+  const [scheme, token] = header.split(' ');
+  return verifyIdToken(scheme?.toLowerCase() === 'bearer' ? token : null);
+}
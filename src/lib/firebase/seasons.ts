@@ -0,0 +1,288 @@
+// Firebase Season Operations
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  runTransaction,
+  writeBatch,
+  WriteBatch
+} from 'firebase/firestore';
+import { db } from './config';
+import {
+  Season,
+  SeasonBadgeDocument,
+  SeasonDocument,
+  SeasonResult,
+  SeasonResultDocument,
+  SeasonStanding,
+  SeasonStandingDocument,
+  SpecialBadge
+} from '@/types/gamification';
+import { SeasonBrackets, SeasonEntrant, SeasonError } from '@/lib/gamification/season-brackets';
+
+// Collection names
+export const SEASON_COLLECTIONS = {
+  SEASONS: 'seasons',
+  STANDINGS: 'seasonStandings', // one placement per entrant per season
+  RESULTS: 'seasonResults', // final result per entrant per season, kept as season history
+  BADGES: 'seasonBadges' // badges issued when a season is settled, one per season, badge and holder
+} as const;
+
+const DEFAULT_HISTORY_LIMIT = 20;
+const RESULT_BATCH_SIZE = 450; // Firestore allows 500 writes per batch
+
+export interface SeasonBadgeAward {
+  userId: string;
+  badge: SpecialBadge;
+}
+
+export class SeasonService {
+  // Helper methods for document conversion; optional fields are left out rather than written as undefined
+  private static convertSeasonToDocument(season: Season): SeasonDocument {
+    const { completedAt, brackets, ...rest } = season;
+    return {
+      ...rest,
+      brackets: brackets.map(({ tier, ...bracket }) => ({ ...bracket, ...(tier && { tier }) })),
+      startDate: season.startDate.toISOString(),
+      endDate: season.endDate.toISOString(),
+      ...(completedAt && { completedAt: completedAt.toISOString() })
+    };
+  }
+
+  private static convertDocumentToSeason(doc: SeasonDocument): Season {
+    return {
+      ...doc,
+      startDate: new Date(doc.startDate),
+      endDate: new Date(doc.endDate),
+      completedAt: doc.completedAt ? new Date(doc.completedAt) : undefined
+    };
+  }
+
+  private static convertStandingToDocument(standing: SeasonStanding): SeasonStandingDocument {
+    return { ...standing, placedAt: standing.placedAt.toISOString() };
+  }
+
+  private static convertDocumentToStanding(doc: SeasonStandingDocument): SeasonStanding {
+    return { ...doc, placedAt: new Date(doc.placedAt) };
+  }
+
+  private static convertResultToDocument(result: SeasonResult): SeasonResultDocument {
+    return { ...result, endedAt: result.endedAt.toISOString() };
+  }
+
+  private static convertDocumentToResult(doc: SeasonResultDocument): SeasonResult {
+    return { ...doc, endedAt: new Date(doc.endedAt) };
+  }
+
+  private static convertBadgeToDocument(seasonId: string, { userId, badge }: SeasonBadgeAward): SeasonBadgeDocument {
+    const { awardedAt, expirationDate, iconUrl, blockchainTxHash, eventId, serialNumber, totalMinted, ...rest } = badge;
+    return {
+      ...rest,
+      seasonId,
+      userId,
+      awardedAt: awardedAt.toISOString(),
+      ...(expirationDate && { expirationDate: expirationDate.toISOString() }),
+      ...(iconUrl && { iconUrl }),
+      ...(blockchainTxHash && { blockchainTxHash }),
+      ...(eventId && { eventId }),
+      ...(serialNumber !== undefined && { serialNumber }),
+      ...(totalMinted !== undefined && { totalMinted })
+    };
+  }
+
+  private static convertDocumentToBadge(doc: SeasonBadgeDocument): SeasonBadgeAward {
+    const { seasonId, userId, ...badge } = doc;
+    return {
+      userId,
+      badge: {
+        ...badge,
+        awardedAt: new Date(doc.awardedAt),
+        expirationDate: doc.expirationDate ? new Date(doc.expirationDate) : undefined
+      }
+    };
+  }
+
+  private static seasonRef(seasonId: string) {
+    return doc(db, SEASON_COLLECTIONS.SEASONS, seasonId);
+  }
+
+  private static standingRef(seasonId: string, userId: string) {
+    return doc(db, SEASON_COLLECTIONS.STANDINGS, `${seasonId}_${userId}`);
+  }
+
+  private static resultRef(seasonId: string, userId: string) {
+    return doc(db, SEASON_COLLECTIONS.RESULTS, `${seasonId}_${userId}`);
+  }
+
+  private static badgeRef(seasonId: string, userId: string, badgeName: string) {
+    return doc(db, SEASON_COLLECTIONS.BADGES, `${seasonId}_${userId}_${badgeName}`);
+  }
+
+  static async createSeason(season: Season): Promise<void> {
+    try {
+      await setDoc(this.seasonRef(season.seasonId), this.convertSeasonToDocument(season));
+    } catch (error) {
+      console.error('Error creating season:', error);
+      throw error;
+    }
+  }
+
+  static async getSeason(seasonId: string): Promise<Season | null> {
+    try {
+      const docSnap = await getDoc(this.seasonRef(seasonId));
+      return docSnap.exists() ? this.convertDocumentToSeason(docSnap.data() as SeasonDocument) : null;
+    } catch (error) {
+      console.error('Error getting season:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Places an entrant in a bracket, updating the season's bracket sizes in the same
+   * transaction so concurrent registrations cannot overfill a division. Entering twice
+   * returns the existing placement.
+   */
+  static async enterSeason(seasonId: string, entrant: SeasonEntrant): Promise<SeasonStanding> {
+    try {
+      return await runTransaction(db, async (transaction) => {
+        const [seasonSnap, standingSnap] = await Promise.all([
+          transaction.get(this.seasonRef(seasonId)),
+          transaction.get(this.standingRef(seasonId, entrant.userId))
+        ]);
+        if (!seasonSnap.exists()) {
+          throw new SeasonError(`Season ${seasonId} not found`, 'season_not_found');
+        }
+        if (standingSnap.exists()) {
+          return this.convertDocumentToStanding(standingSnap.data() as SeasonStandingDocument);
+        }
+
+        const season = this.convertDocumentToSeason(seasonSnap.data() as SeasonDocument);
+        if (season.status === 'completed') {
+          throw new Error('Season has already ended');
+        }
+
+        const { standing, brackets } = SeasonBrackets.place(season, entrant);
+        transaction.set(this.standingRef(seasonId, entrant.userId), this.convertStandingToDocument(standing));
+        transaction.update(this.seasonRef(seasonId), {
+          brackets: this.convertSeasonToDocument({ ...season, brackets }).brackets
+        });
+        return standing;
+      });
+    } catch (error) {
+      console.error('Error entering season:', error);
+      throw error;
+    }
+  }
+
+  static async getStandings(seasonId: string, bracketId?: string): Promise<SeasonStanding[]> {
+    try {
+      const constraints = [
+        where('seasonId', '==', seasonId),
+        ...(bracketId ? [where('bracketId', '==', bracketId)] : [])
+      ];
+      const snapshot = await getDocs(query(collection(db, SEASON_COLLECTIONS.STANDINGS), ...constraints));
+      return snapshot.docs.map(docSnap => this.convertDocumentToStanding(docSnap.data() as SeasonStandingDocument));
+    } catch (error) {
+      console.error('Error getting season standings:', error);
+      throw error;
+    }
+  }
+
+  static async getResults(seasonId: string): Promise<SeasonResult[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, SEASON_COLLECTIONS.RESULTS),
+        where('seasonId', '==', seasonId)
+      ));
+      return snapshot.docs.map(docSnap => this.convertDocumentToResult(docSnap.data() as SeasonResultDocument));
+    } catch (error) {
+      console.error('Error getting season results:', error);
+      throw error;
+    }
+  }
+
+  static async getBadges(seasonId: string): Promise<SeasonBadgeAward[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, SEASON_COLLECTIONS.BADGES),
+        where('seasonId', '==', seasonId)
+      ));
+      return snapshot.docs.map(docSnap => this.convertDocumentToBadge(docSnap.data() as SeasonBadgeDocument));
+    } catch (error) {
+      console.error('Error getting season badges:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A user's past seasons, most recent first
+   */
+  static async getUserHistory(userId: string, maxResults: number = DEFAULT_HISTORY_LIMIT): Promise<SeasonResult[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, SEASON_COLLECTIONS.RESULTS),
+        where('userId', '==', userId),
+        orderBy('endedAt', 'desc'),
+        limit(maxResults)
+      ));
+      return snapshot.docs.map(docSnap => this.convertDocumentToResult(docSnap.data() as SeasonResultDocument));
+    } catch (error) {
+      console.error('Error getting season history:', error);
+      throw error;
+    }
+  }
+
+  static async getLatestResult(userId: string): Promise<SeasonResult | null> {
+    const [latest] = await this.getUserHistory(userId, 1);
+    return latest ?? null;
+  }
+
+  /**
+   * Records every entrant's result and gives each badge to its holder, marking the season
+   * completed in the same batch as the last of them; a season small enough for one batch is
+   * settled in a single write. Results and badges are keyed by season and user, so completing
+   * again after a failure rewrites them rather than duplicating them.
+   */
+  static async completeSeason(
+    season: Season,
+    results: SeasonResult[],
+    badges: SeasonBadgeAward[] = [],
+    completedAt: Date = new Date()
+  ): Promise<void> {
+    try {
+      const writes: Array<(batch: WriteBatch) => void> = [
+        ...results.map(result => (batch: WriteBatch) => {
+          batch.set(this.resultRef(season.seasonId, result.userId), this.convertResultToDocument(result));
+        }),
+        ...badges.map(award => (batch: WriteBatch) => {
+          batch.set(
+            this.badgeRef(season.seasonId, award.userId, award.badge.badgeName),
+            this.convertBadgeToDocument(season.seasonId, award)
+          );
+        })
+      ];
+
+      for (let start = 0; start === 0 || start < writes.length; start += RESULT_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        writes.slice(start, start + RESULT_BATCH_SIZE).forEach(write => write(batch));
+        if (start + RESULT_BATCH_SIZE >= writes.length) {
+          batch.update(this.seasonRef(season.seasonId), {
+            status: 'completed',
+            completedAt: completedAt.toISOString()
+          });
+        }
+        await batch.commit();
+      }
+    } catch (error) {
+      console.error('Error completing season:', error);
+      throw error;
+    }
+  }
+}
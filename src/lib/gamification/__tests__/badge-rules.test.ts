@@ -0,0 +1,209 @@
+/**
+ * @fileOverview Unit tests for BadgeRuleEngine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BadgeFacts, BadgeRuleEngine, BadgeRuleError } from '../badge-rules';
+import { PointsLedger } from '../points-ledger';
+import { DEFAULT_BADGE_DEFINITIONS } from '../default-badge-definitions';
+import { BadgeRule, PointsCalculationInput, PointsLedgerEntry } from '@/types/gamification';
+
+const now = new Date('2024-06-30T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const facts = (overrides: Partial<BadgeFacts> = {}): BadgeFacts => ({
+  skillLevels: { JavaScript: 3, React: 2 },
+  totalPoints: 1200,
+  detectedSkills: [],
+  activities: [],
+  peerReview: { reviews: 0 },
+  now,
+  ...overrides
+});
+
+let nextId = 1;
+const entry = (input: PointsCalculationInput, createdAt: Date, extra: Partial<PointsLedgerEntry> = {}): PointsLedgerEntry => ({
+  ...PointsLedger.calculated('user-1', 'award', input, PointsLedger.calculate(input), 'Activity', {}, createdAt),
+  entryId: `entry-${nextId++}`,
+  ...extra
+});
+const bugReport = (createdAt: Date) =>
+  entry({ kind: 'community', contributionType: 'bug_report', impact: 'high', communityVotes: 3, isAccepted: true }, createdAt);
+const submission = (createdAt: Date) =>
+  entry({ kind: 'code_submission', analysis: { codeQuality: 80, efficiency: 80, creativity: 80, bestPractices: 80 }, difficulty: 'intermediate' }, createdAt);
+
+describe('BadgeRuleEngine', () => {
+  describe('validateDefinition', () => {
+    it('accepts every built-in definition', () => {
+      for (const { badgeId, version, status, createdAt, updatedAt, updatedBy, ...input } of DEFAULT_BADGE_DEFINITIONS) {
+        expect(BadgeRuleEngine.validateDefinition({ ...input, status }).errors).toEqual([]);
+      }
+    });
+
+    it('reports every problem with its path', () => {
+      const result = BadgeRuleEngine.validateDefinition({
+        name: 'Broken',
+        badgeType: { category: 'trophy', subcategory: 'x' },
+        rarity: 'common',
+        icon: 'broken.svg',
+        rule: { all: [{ points: { min: -5 } }, { count: { activity: 'community', mn: 3 } }, { sometimes: {} }] }
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        'badgeType.category: must be one of skill, achievement, milestone, special, community',
+        'icon: unknown field',
+        'rule.all[0].points.min: must be a number of at least 0',
+        'rule.all[1].count.min: required',
+        'rule.all[1].count.mn: unknown field',
+        'rule.all[2]: unknown condition "sometimes"'
+      ]);
+    });
+
+    it('warns about rules that cannot match as intended', () => {
+      const result = BadgeRuleEngine.validateRule({
+        not: { any: [{ count: { activity: 'community', min: 1, where: { colour: 'red' } } }] }
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toEqual([
+        'rule.not.any: has a single condition and can be replaced by it',
+        'rule.not.any[0].count.where.colour: not recorded on community activities, so never matches',
+        'rule: a top-level "not" is met by users with no activity at all'
+      ]);
+    });
+
+    it('parses JSON definitions and rejects malformed or invalid ones', () => {
+      const definition = BadgeRuleEngine.parse(JSON.stringify({
+        name: 'Night Owl',
+        badgeType: { category: 'achievement', subcategory: 'consistency' },
+        rarity: 'rare',
+        rule: { streak: { activity: 'code_submission', days: 3 } }
+      }));
+      expect(definition.rule).toEqual({ streak: { activity: 'code_submission', days: 3 } });
+
+      expect(() => BadgeRuleEngine.parse('{ name: ')).toThrow(expect.objectContaining({ code: 'invalid_json' }));
+      expect(() => BadgeRuleEngine.parse('{"name": "No rule"}')).toThrow(BadgeRuleError);
+    });
+  });
+
+  describe('evaluate', () => {
+    it('combines conditions with all, any and not', () => {
+      const rule: BadgeRule = {
+        all: [
+          { any: [{ skillLevel: { skillId: 'react', min: 4 } }, { points: { min: 1000 } }] },
+          { not: { codeQuality: { min: 90 } } }
+        ]
+      };
+
+      const trace = BadgeRuleEngine.evaluate(rule, facts({ codeQuality: 70 }));
+
+      expect(trace.passed).toBe(true);
+      expect(BadgeRuleEngine.toValidationCriteria(trace)).toEqual([
+        { criterion: 'At least 1000 points', value: 1200, threshold: 1000, passed: true },
+        { criterion: 'Not: Code quality of at least 90', value: true, passed: true }
+      ]);
+      expect(BadgeRuleEngine.evaluate(rule, facts({ codeQuality: 95 })).passed).toBe(false);
+    });
+
+    it('counts activities within a time window, skipping reversed entries', () => {
+      const reversed = bugReport(daysAgo(1));
+      const ledger = [
+        bugReport(daysAgo(40)),
+        bugReport(daysAgo(10)),
+        bugReport(daysAgo(2)),
+        reversed,
+        { ...PointsLedger.reversal(reversed, [reversed], 'Duplicate', 'mod-1', daysAgo(1)), entryId: 'reversal-1' }
+      ];
+      const rule: BadgeRule = { count: { activity: 'community', min: 2, withinDays: 30, where: { contributionType: 'bug_report' } } };
+
+      const trace = BadgeRuleEngine.evaluate(rule, facts({ activities: BadgeRuleEngine.activitiesFromLedger(ledger) }));
+
+      expect(trace).toMatchObject({ passed: true, value: 2, threshold: 2 });
+      expect(trace.criterion).toBe('At least 2 community activities with contributionType = bug_report in the last 30 days');
+    });
+
+    it('measures the longest run of consecutive days', () => {
+      const ledger = [daysAgo(9), daysAgo(8), daysAgo(8), daysAgo(7), daysAgo(5), daysAgo(4)].map(submission);
+      const activities = BadgeRuleEngine.activitiesFromLedger(ledger);
+
+      expect(BadgeRuleEngine.evaluate({ streak: { activity: 'code_submission', days: 3 } }, facts({ activities })))
+        .toMatchObject({ passed: true, value: 3 });
+      expect(BadgeRuleEngine.evaluate({ streak: { activity: 'code_submission', days: 4 } }, facts({ activities })).passed)
+        .toBe(false);
+    });
+
+    it('matches challenge conditions against the current submission and recorded attempts', () => {
+      const recorded = entry({
+        kind: 'challenge',
+        challenge: { difficulty: 'advanced', timeLimit: 30 },
+        submission: { totalScore: 100, passed: true },
+        completionTime: 240
+      }, daysAgo(3));
+      const activities = BadgeRuleEngine.activitiesFromLedger([recorded]);
+
+      expect(BadgeRuleEngine.evaluate({ challenge: { passed: true, minScore: 100, maxSeconds: 300 } }, facts({ activities })).passed)
+        .toBe(true);
+      expect(BadgeRuleEngine.evaluate({ challenge: { difficulty: 'expert' } }, facts({ activities })).passed).toBe(false);
+      expect(BadgeRuleEngine.evaluate(
+        { challenge: { difficulty: 'expert', maxTimeRatio: 0.5 } },
+        facts({ activities, challenge: { passed: true, score: 80, difficulty: 'expert', timeRatio: 0.4 } })
+      ).passed).toBe(true);
+    });
+
+    it('checks competition and peer review conditions separately for each threshold', () => {
+      const inCompetition = (competitionId: string) => ({ ...submission(daysAgo(2)), competitionId });
+      const prize = { ...PointsLedger.prize('user-1', 500, 'First place', 'comp-2', {}, daysAgo(1)), entryId: 'prize-1' };
+      const activities = BadgeRuleEngine.activitiesFromLedger([inCompetition('comp-1'), inCompetition('comp-2'), prize]);
+
+      const competition = BadgeRuleEngine.evaluate({ competition: { minEntered: 3, minPrizes: 1 } }, facts({ activities }));
+      expect(competition.passed).toBe(false);
+      expect(BadgeRuleEngine.toValidationCriteria(competition).map(({ criterion, passed }) => [criterion, passed])).toEqual([
+        ['Entered at least 3 competitions', false],
+        ['Won at least 1 competition prize', true]
+      ]);
+      expect(BadgeRuleEngine.evaluate({ competition: { competitionId: 'comp-2', minPrizes: 1 } }, facts({ activities })).passed)
+        .toBe(true);
+
+      const review = BadgeRuleEngine.evaluate(
+        { peerReview: { minScore: 4, minReviews: 5 } },
+        facts({ peerReview: { score: 4.6, reviews: 3 } })
+      );
+      expect(review.passed).toBe(false);
+      expect(BadgeRuleEngine.toValidationCriteria(review).filter(criterion => !criterion.passed))
+        .toEqual([{ criterion: 'At least 5 peer reviews', value: 3, threshold: 5, passed: false }]);
+    });
+  });
+
+  describe('readsHistory', () => {
+    it('is true only when a condition looks at recorded activity', () => {
+      expect(BadgeRuleEngine.readsHistory({ all: [{ skillLevel: { min: 3 } }, { points: { min: 500 } }] })).toBe(false);
+      expect(BadgeRuleEngine.readsHistory({ codeQuality: { min: 90 } })).toBe(false);
+      expect(BadgeRuleEngine.readsHistory({
+        any: [{ points: { min: 500 } }, { not: { streak: { activity: 'code_submission', days: 7 } } }]
+      })).toBe(true);
+      expect(BadgeRuleEngine.readsHistory({ peerReview: { minReviews: 5 } })).toBe(true);
+    });
+  });
+
+  describe('toCriteria', () => {
+    it('summarises required conditions as award criteria', () => {
+      const rule: BadgeRule = {
+        all: [
+          { skillLevel: { min: 3 } },
+          { detectedSkills: { includes: ['hooks'] } },
+          { challenge: { passed: true, maxSeconds: 300 } },
+          { any: [{ points: { min: 500 } }, { peerReview: { minScore: 4 } }] }
+        ]
+      };
+
+      expect(BadgeRuleEngine.toCriteria(rule)).toEqual({
+        minimumSkillLevel: 3,
+        specificSkills: ['hooks'],
+        challengeCompletion: true,
+        timeConstraints: { type: 'within_timeframe', duration: 5 },
+        specialConditions: ['At least 500 points or Peer review score of at least 4']
+      });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @fileOverview Unit tests for ContestJudge
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ContestJudge } from '../contest-judge';
+import { LeaderboardService } from '../leaderboard-service';
+import { ContestService } from '@/lib/firebase/contests';
+import { ChallengeService } from '@/lib/firebase/analytics';
+import { ChallengeEvaluator, EvaluationSummary } from '@/lib/challenges/challenge-evaluator';
+import { ContestScoreboard, ContestSubmission } from '@/types/gamification';
+import { Challenge } from '@/types/analytics';
+
+vi.mock('@/lib/firebase/contests');
+vi.mock('@/lib/firebase/analytics');
+vi.mock('@/lib/challenges/challenge-evaluator');
+vi.mock('../leaderboard-service');
+
+const mockContestService = vi.mocked(ContestService);
+const mockLeaderboardService = vi.mocked(LeaderboardService);
+
+describe('ContestJudge', () => {
+  const scoreboard = { competitionId: 'contest', frozen: true, rows: [] } as unknown as ContestScoreboard;
+
+  const claimed = (submissionId: string): ContestSubmission => ({
+    submissionId,
+    competitionId: 'contest',
+    userId: 'ada',
+    username: 'ada',
+    challengeId: 'p1',
+    code: 'function solution() {}',
+    language: 'javascript',
+    status: 'judging',
+    submittedAt: new Date(),
+    judgingStartedAt: new Date()
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockContestService.claimNext.mockResolvedValue(null);
+    mockLeaderboardService.refreshContestScoreboard.mockResolvedValue(scoreboard);
+    vi.mocked(ChallengeService.getChallenge).mockResolvedValue({ challengeId: 'p1', testCases: [], evaluationCriteria: [] } as unknown as Challenge);
+  });
+
+  describe('processQueue', () => {
+    it('judges the queue in order, failing what cannot be judged, and republishes the scoreboard', async () => {
+      mockContestService.claimNext
+        .mockResolvedValueOnce(claimed('first'))
+        .mockResolvedValueOnce(claimed('second'))
+        .mockResolvedValueOnce(null);
+      vi.mocked(ChallengeEvaluator.evaluateSubmission)
+        .mockResolvedValueOnce({ totalScore: 100, passed: true, testCaseResults: [], feedback: [] } as unknown as EvaluationSummary)
+        .mockRejectedValueOnce(new Error('Sandbox unavailable'));
+
+      const run = await ContestJudge.processQueue('contest');
+
+      expect(run).toEqual({ judged: 1, failed: 1, scoreboard });
+      expect(mockContestService.recordVerdict).toHaveBeenCalledWith('first', expect.objectContaining({ accepted: true, score: 100 }));
+      expect(mockContestService.recordFailure).toHaveBeenCalledWith('second', 'Sandbox unavailable');
+      expect(mockLeaderboardService.refreshContestScoreboard).toHaveBeenCalledWith('contest');
+      expect(ChallengeService.getChallenge).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops at the batch size and leaves the scoreboard alone when nothing was judged', async () => {
+      mockContestService.claimNext.mockResolvedValue(claimed('again'));
+      vi.mocked(ChallengeService.getChallenge).mockResolvedValue(null);
+
+      const run = await ContestJudge.processQueue('contest', { maxSubmissions: 3 });
+
+      expect(run).toEqual({ judged: 0, failed: 3 });
+      expect(mockContestService.recordFailure).toHaveBeenCalledWith('again', 'Challenge p1 not found');
+      expect(mockLeaderboardService.refreshContestScoreboard).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processPending', () => {
+    it('requeues stalled submissions and judges every competition with work waiting', async () => {
+      const now = new Date('2024-03-01T12:00:00Z');
+      mockContestService.getCompetitionsAwaitingJudging.mockResolvedValue(['contest', 'broken']);
+      mockContestService.requeueStale.mockResolvedValueOnce(2).mockRejectedValueOnce(new Error('Firestore unavailable'));
+
+      const results = await ContestJudge.processPending(now);
+
+      expect(mockContestService.requeueStale).toHaveBeenCalledWith('contest', new Date('2024-03-01T11:50:00Z'));
+      expect(results).toEqual([
+        { competitionId: 'contest', requeued: 2, judged: 0, failed: 0 },
+        { competitionId: 'broken', requeued: 0, judged: 0, failed: 0, error: 'Firestore unavailable' }
+      ]);
+    });
+  });
+});
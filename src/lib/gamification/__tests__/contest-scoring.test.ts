@@ -0,0 +1,174 @@
+/**
+ * @fileOverview Unit tests for ContestScoring
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ContestScoring } from '../contest-scoring';
+import { Competition, CompetitionParticipant, CompetitionRule, ContestSubmission } from '@/types/gamification';
+import type { EvaluationSummary } from '@/lib/challenges/challenge-evaluator';
+
+const startDate = new Date('2024-05-01T10:00:00Z');
+const at = (minute: number) => new Date(startDate.getTime() + minute * 60 * 1000);
+
+const participant = (userId: string): CompetitionParticipant => ({
+  userId,
+  username: userId,
+  registeredAt: startDate,
+  currentScore: 0,
+  currentRank: 0,
+  submissionsCount: 0,
+  qualificationStatus: 'qualified',
+  achievements: []
+});
+
+const scoringRule = (scoring: CompetitionRule['scoring']): CompetitionRule => ({
+  ruleId: `rule_${scoring?.type}`,
+  description: 'Scoring',
+  category: 'scoring',
+  isRequired: true,
+  scoring
+});
+
+const competition = (overrides: Partial<Competition> = {}) => ({
+  competitionId: 'contest-1',
+  startDate,
+  endDate: at(120),
+  status: 'active' as Competition['status'],
+  rules: [] as CompetitionRule[],
+  participants: ['ada', 'bob', 'cy', 'dee'].map(participant),
+  challengeIds: ['p1', 'p2'],
+  ...overrides
+});
+
+let nextId = 1;
+const submission = (
+  userId: string,
+  challengeId: string,
+  minute: number,
+  verdict?: { accepted: boolean; score: number },
+  status: ContestSubmission['status'] = verdict ? 'judged' : 'queued'
+): ContestSubmission => ({
+  submissionId: `sub-${nextId++}`,
+  competitionId: 'contest-1',
+  userId,
+  username: userId,
+  challengeId,
+  code: 'function solution() {}',
+  language: 'javascript',
+  status,
+  submittedAt: at(minute),
+  ...(verdict && {
+    verdict: { ...verdict, testsPassed: 0, testsTotal: 0, feedback: [], judgedAt: at(minute + 1) }
+  })
+});
+
+describe('ContestScoring', () => {
+  it('reads scoring rules, with later rules of a type winning', () => {
+    expect(ContestScoring.configFrom([])).toEqual(ContestScoring.DEFAULT_CONFIG);
+    expect(ContestScoring.configFrom([
+      scoringRule({ type: 'penalty_time', minutesPerRejection: 10 }),
+      scoringRule({ type: 'submission_policy', policy: 'last' }),
+      scoringRule({ type: 'partial_credit', enabled: false }),
+      scoringRule({ type: 'penalty_time', minutesPerRejection: 20 }),
+      { ruleId: 'conduct', description: 'Original work only', category: 'conduct', isRequired: true }
+    ])).toEqual({ policy: 'last', minutesPerRejection: 20, partialCredit: false });
+  });
+
+  it('turns an evaluation summary into a verdict', () => {
+    const summary = {
+      totalScore: 87.6,
+      passed: false,
+      testCaseResults: [{ testCaseId: 'test_0', passed: true, score: 100 }, { testCaseId: 'test_1', passed: false, score: 0 }],
+      feedback: ['One test failed']
+    } as EvaluationSummary;
+
+    expect(ContestScoring.verdictFrom(summary, at(5))).toEqual({
+      accepted: false,
+      score: 88,
+      testsPassed: 1,
+      testsTotal: 2,
+      feedback: ['One test failed'],
+      judgedAt: at(5)
+    });
+  });
+
+  it('ranks by points, then penalty time including rejected attempts, sharing ranks when level', () => {
+    const contest = competition({
+      rules: [scoringRule({ type: 'penalty_time', minutesPerRejection: 20 }), scoringRule({ type: 'partial_credit', enabled: false })]
+    });
+    const submissions = [
+      submission('ada', 'p1', 10, { accepted: false, score: 40 }),
+      submission('ada', 'p1', 30, { accepted: true, score: 100 }),
+      submission('ada', 'p2', 40, { accepted: true, score: 90 }),
+      submission('bob', 'p1', 20, { accepted: true, score: 100 }),
+      submission('bob', 'p2', 45, { accepted: true, score: 100 }),
+      submission('cy', 'p1', 15, { accepted: false, score: 60 }),
+      submission('cy', 'p2', 50)
+    ];
+
+    const scoreboard = ContestScoring.build(contest, submissions, { now: at(60) });
+
+    expect(scoreboard.rows.map(row => [row.userId, row.rank, row.totalPoints, row.penaltyMinutes, row.solvedCount])).toEqual([
+      ['bob', 1, 200, 65, 2],
+      ['ada', 2, 200, 90, 2],
+      ['cy', 3, 0, 0, 0],
+      ['dee', 3, 0, 0, 0]
+    ]);
+    expect(scoreboard.rows[1].problems[0]).toEqual({
+      challengeId: 'p1',
+      attempts: 2,
+      pendingAttempts: 0,
+      points: 100,
+      solved: true,
+      solvedAtMinute: 30,
+      penaltyMinutes: 50
+    });
+    expect(scoreboard.rows[2].problems.map(problem => [problem.attempts, problem.pendingAttempts])).toEqual([[1, 0], [0, 1]]);
+    expect(scoreboard.frozen).toBe(false);
+  });
+
+  it('counts the best or the last attempt with partial credit', () => {
+    const submissions = [
+      submission('ada', 'p1', 10, { accepted: false, score: 60 }),
+      submission('ada', 'p1', 20, { accepted: false, score: 90 }),
+      submission('ada', 'p1', 30, { accepted: false, score: 40 }),
+      submission('ada', 'p2', 35, { accepted: false, score: 0 }, 'failed')
+    ];
+    const ada = (rules: CompetitionRule[]) =>
+      ContestScoring.build(competition({ rules }), submissions).rows.find(row => row.userId === 'ada')!;
+
+    expect(ada([]).problems[0]).toMatchObject({ points: 90, solved: false, penaltyMinutes: 20 });
+    expect(ada([scoringRule({ type: 'submission_policy', policy: 'last' })]).problems[0])
+      .toMatchObject({ points: 40, penaltyMinutes: 30 });
+    expect(ada([]).problems[1]).toMatchObject({ attempts: 0, pendingAttempts: 0, points: 0 });
+  });
+
+  it('hides submissions made during the freeze until the reveal', () => {
+    const contest = competition({ scoreboardFreezeMinutes: 30 });
+    const submissions = [
+      submission('ada', 'p1', 20, { accepted: true, score: 100 }),
+      submission('bob', 'p1', 25, { accepted: true, score: 80 }),
+      submission('bob', 'p2', 95, { accepted: true, score: 100 }),
+      submission('cy', 'p1', 100, { accepted: true, score: 70 })
+    ];
+
+    expect(ContestScoring.freezeStartsAt(contest)).toEqual(at(90));
+    expect(ContestScoring.publicScoreboard(contest, submissions, at(80)).frozen).toBe(false);
+
+    const frozen = ContestScoring.publicScoreboard(contest, submissions, at(110));
+    expect(frozen).toMatchObject({ frozen: true, frozenAt: at(90) });
+    expect(frozen.rows.map(row => [row.userId, row.rank, row.totalPoints])).toEqual([
+      ['ada', 1, 100],
+      ['bob', 2, 80],
+      ['cy', 3, 0],
+      ['dee', 3, 0]
+    ]);
+    expect(frozen.rows[1].problems[1]).toMatchObject({ attempts: 0, pendingAttempts: 1 });
+
+    const final = ContestScoring.build(contest, submissions, { now: at(120) });
+    expect(ContestScoring.revealSequence(frozen, final)).toEqual([
+      { userId: 'cy', username: 'cy', frozenRank: 3, finalRank: 3, pointsGained: 70 },
+      { userId: 'bob', username: 'bob', frozenRank: 2, finalRank: 1, pointsGained: 100 }
+    ]);
+  });
+});
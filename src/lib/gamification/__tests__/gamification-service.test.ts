@@ -6,12 +6,23 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { GamificationService } from '../gamification-service';
 import { UserProgress, Challenge, ChallengeSubmission } from '@/types/analytics';
 import { UserProgressService } from '@/lib/firebase/analytics';
+import { RankingService } from '@/lib/firebase/rankings';
+import { PointsLedgerService } from '@/lib/firebase/points-ledger';
+import { BadgeDefinitionService } from '@/lib/firebase/badge-definitions';
+import { PointsLedgerDraft } from '../points-ledger';
+import { DEFAULT_BADGE_DEFINITIONS } from '../default-badge-definitions';
 
 // Mock the dependencies
 vi.mock('@/lib/firebase/analytics');
+vi.mock('@/lib/firebase/rankings');
+vi.mock('@/lib/firebase/points-ledger');
+vi.mock('@/lib/firebase/badge-definitions');
 vi.mock('@/ai/flows/award-skill-badge');
 
 const mockUserProgressService = UserProgressService as any;
+const mockRankingService = vi.mocked(RankingService);
+const mockPointsLedgerService = vi.mocked(PointsLedgerService);
+const mockBadgeDefinitionService = vi.mocked(BadgeDefinitionService);
 
 describe('GamificationService', () => {
   const mockUserProgress: UserProgress = {
@@ -98,9 +109,25 @@ describe('GamificationService', () => {
     }
   };
 
+  const otherTotals = [5000, 1500, 1300, 900, 100];
+
   beforeEach(() => {
     vi.clearAllMocks();
     mockUserProgressService.getUserProgress = vi.fn().mockResolvedValue(mockUserProgress);
+
+    // Ledger where the user starts on 1200 points, ranked among a handful of others
+    let userTotal = 1200;
+    mockPointsLedgerService.record.mockImplementation(async (draft: PointsLedgerDraft) => {
+      userTotal += draft.points;
+      return { entry: { ...draft, entryId: 'entry-1' }, totals: { total: userTotal } as any, created: true };
+    });
+    mockPointsLedgerService.getTotals.mockImplementation(async () => ({ total: userTotal } as any));
+    mockPointsLedgerService.getEntries.mockResolvedValue([]);
+    mockBadgeDefinitionService.getActiveDefinitions.mockResolvedValue(DEFAULT_BADGE_DEFINITIONS);
+    mockBadgeDefinitionService.getHeldBadgeIds.mockResolvedValue(new Set());
+    mockBadgeDefinitionService.claimBadge.mockResolvedValue(true);
+    mockRankingService.countAbove.mockImplementation(async (_boardId: string, points: number) =>
+      [...otherTotals, userTotal].filter(total => total > points).length);
   });
 
   describe('processCodeAnalysisGamification', () => {
@@ -172,6 +199,36 @@ describe('GamificationService', () => {
   });
 
   describe('processChallengeCompletionGamification', () => {
+    it('should record the award on the points ledger and rank against other users', async () => {
+      const result = await GamificationService.processChallengeCompletionGamification({
+        userId: 'test-user',
+        challenge: mockChallenge,
+        submission: mockSubmission,
+        competitionId: 'comp-1',
+        enableBlockchainVerification: false
+      });
+
+      expect(mockPointsLedgerService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'test-user',
+          type: 'award',
+          points: result.pointsEarned.totalPoints,
+          breakdown: result.pointsEarned.breakdown,
+          sourceIds: { challengeId: mockChallenge.challengeId, submissionId: mockSubmission.submissionId },
+          skillIds: mockChallenge.skillsTargeted,
+          competitionId: 'comp-1',
+          input: expect.objectContaining({ kind: 'challenge' })
+        }),
+        expect.objectContaining({
+          idempotencyKey: `challenge|${mockSubmission.submissionId}`,
+          profile: expect.objectContaining({ skillLevels: { JavaScript: 2 } })
+        })
+      );
+      expect(result.totalPoints).toBe(1200 + result.pointsEarned.totalPoints);
+      expect(result.rankChange!.previousRank).toBe(4);
+      expect(result.rankChange!.newRank).toBe(otherTotals.filter(total => total > result.totalPoints).length + 1);
+    });
+
     it('should process challenge completion successfully', async () => {
       const params = {
         userId: 'test-user',
@@ -304,6 +361,82 @@ describe('GamificationService', () => {
 
       expect(highResult.pointsEarned.totalPoints).toBeGreaterThan(lowResult.pointsEarned.totalPoints);
     });
+
+    it('should award admin-defined badges whose rules count the review just recorded', async () => {
+      const tenthReview = {
+        ...DEFAULT_BADGE_DEFINITIONS[0],
+        badgeId: 'tenth-review',
+        name: 'Tenth Review',
+        badgeType: { category: 'community' as const, subcategory: 'peer_review' },
+        evaluateOn: ['peer_review' as const],
+        rule: { count: { activity: 'peer_review' as const, min: 10 } }
+      };
+      mockBadgeDefinitionService.getActiveDefinitions.mockResolvedValue([tenthReview]);
+
+      const review = (index: number) => ({
+        entryId: `review-${index}`,
+        userId: 'test-user',
+        type: 'award' as const,
+        points: 20,
+        breakdown: [],
+        description: 'Peer review',
+        sourceIds: { reviewId: `review-${index}` },
+        skillIds: [],
+        input: { kind: 'peer_review' as const, reviewQuality: 4, reviewLength: 200, helpfulness: 4, isFirstReview: false },
+        createdAt: new Date()
+      });
+      const params = { userId: 'test-user', reviewQuality: 4, reviewLength: 200, helpfulness: 4 };
+
+      mockPointsLedgerService.getEntries.mockResolvedValue(Array.from({ length: 9 }, (_, index) => review(index)));
+      expect((await GamificationService.processPeerReviewGamification(params)).badgesAwarded).toEqual([]);
+
+      mockPointsLedgerService.getEntries.mockResolvedValue(Array.from({ length: 10 }, (_, index) => review(index)));
+      const result = await GamificationService.processPeerReviewGamification(params);
+      expect(result.badgesAwarded.map(badge => badge.badgeName)).toEqual(['Tenth Review']);
+      expect(result.badgesAwarded[0].metadata.definitionVersion).toBe(1);
+    });
+
+    it('should not award or re-read history for badges the user already holds', async () => {
+      const tenthReview = {
+        ...DEFAULT_BADGE_DEFINITIONS[0],
+        badgeId: 'tenth-review',
+        name: 'Tenth Review',
+        evaluateOn: ['peer_review' as const],
+        rule: { count: { activity: 'peer_review' as const, min: 1 } }
+      };
+      mockBadgeDefinitionService.getActiveDefinitions.mockResolvedValue([tenthReview]);
+      mockBadgeDefinitionService.getHeldBadgeIds.mockResolvedValue(new Set(['tenth-review']));
+
+      const result = await GamificationService.processPeerReviewGamification({
+        userId: 'test-user', reviewQuality: 4, reviewLength: 200, helpfulness: 4
+      });
+
+      expect(result.badgesAwarded).toEqual([]);
+      expect(mockPointsLedgerService.getEntries).not.toHaveBeenCalled();
+      expect(mockBadgeDefinitionService.claimBadge).not.toHaveBeenCalled();
+    });
+
+    it('should leave out badges another evaluation claimed first', async () => {
+      const qualityReviewer = {
+        ...DEFAULT_BADGE_DEFINITIONS[0],
+        badgeId: 'quality-reviewer',
+        name: 'Quality Reviewer',
+        evaluateOn: ['peer_review' as const],
+        rule: { points: { min: 1 } }
+      };
+      mockBadgeDefinitionService.getActiveDefinitions.mockResolvedValue([qualityReviewer]);
+      mockBadgeDefinitionService.claimBadge.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+      const params = { userId: 'test-user', reviewId: 'review-1', reviewQuality: 4, reviewLength: 200, helpfulness: 4 };
+
+      const first = await GamificationService.processPeerReviewGamification(params);
+      const replayed = await GamificationService.processPeerReviewGamification(params);
+
+      expect(first.badgesAwarded.map(badge => badge.badgeName)).toEqual(['Quality Reviewer']);
+      expect(replayed.badgesAwarded).toEqual([]);
+      expect(mockBadgeDefinitionService.claimBadge).toHaveBeenCalledWith('test-user', qualityReviewer, expect.any(Date));
+      // A points-only rule needs no activity history
+      expect(mockPointsLedgerService.getEntries).not.toHaveBeenCalled();
+    });
   });
 
   describe('processCommunityContributionGamification', () => {
@@ -371,6 +504,15 @@ describe('GamificationService', () => {
       expect(result.breakdown.length).toBeGreaterThan(1);
     });
 
+    it('should record the streak bonus once per user, streak type and day', async () => {
+      const result = await GamificationService.processStreakBonus('test-user', 'daily_coding', 15);
+
+      expect(mockPointsLedgerService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'streak', points: result.totalPoints, input: { kind: 'streak', streakDays: 15, streakType: 'daily_coding' } }),
+        { idempotencyKey: expect.stringMatching(/^streak\|test-user\|daily_coding\|\d{4}-\d{2}-\d{2}$/) }
+      );
+    });
+
     it('should award milestone bonuses for long streaks', async () => {
       const result = await GamificationService.processStreakBonus('test-user', 'challenge_completion', 30);
 
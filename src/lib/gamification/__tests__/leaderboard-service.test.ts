@@ -5,10 +5,174 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { LeaderboardService } from '../leaderboard-service';
 import { LeaderboardQuery, CompetitionCreationParams } from '../leaderboard-service';
+import { RankingService } from '@/lib/firebase/rankings';
+import { PointsLedgerService } from '@/lib/firebase/points-ledger';
+import { SeasonService } from '@/lib/firebase/seasons';
+import { ContestService } from '@/lib/firebase/contests';
+import { CompetitionService } from '@/lib/firebase/competitions';
+import { UserProgressService } from '@/lib/firebase/analytics';
+import { SeasonBrackets } from '../season-brackets';
+import {
+  Competition,
+  ContestSubmission,
+  RankedEntry,
+  RankingEntry,
+  Season,
+  SeasonResult,
+  SeasonStanding,
+  SpecialBadge
+} from '@/types/gamification';
+
+vi.mock('@/lib/firebase/rankings');
+vi.mock('@/lib/firebase/points-ledger');
+vi.mock('@/lib/firebase/seasons');
+vi.mock('@/lib/firebase/analytics');
+vi.mock('@/lib/firebase/contests');
+vi.mock('@/lib/firebase/competitions');
+
+const mockRankingService = vi.mocked(RankingService);
+const mockSeasonService = vi.mocked(SeasonService);
+const mockContestService = vi.mocked(ContestService);
+const mockCompetitionService = vi.mocked(CompetitionService);
+
+// Competitions are kept as stored copies, so the service only sees changes it wrote back
+const storedCompetitions = new Map<string, Competition>();
+
+const storedCompetition = (competitionId: string): Competition => ({
+  competitionId,
+  title: 'Stored Competition',
+  description: 'A competition already in the store',
+  type: 'daily',
+  category: 'skill_based',
+  startDate: new Date(Date.now() - 60 * 60 * 1000),
+  endDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  prizes: [],
+  rules: [],
+  participants: [],
+  leaderboard: [],
+  status: 'active',
+  createdBy: 'system',
+  metadata: {
+    totalParticipants: 0,
+    averageScore: 0,
+    topScore: 0,
+    submissionsCount: 0,
+    skillsTargeted: ['JavaScript'],
+    difficultyLevel: 'intermediate',
+    estimatedDuration: 60
+  }
+});
+
+const rankedEntry = (userId: string, points: number, rank: number, overrides: Partial<RankedEntry> = {}): RankedEntry => ({
+  boardId: 'global|weekly|2024-W10',
+  scopeKey: 'global',
+  timeframe: 'weekly',
+  periodKey: '2024-W10',
+  userId,
+  username: userId,
+  points,
+  awardCount: 3,
+  openingPeriod: '2024-03-04',
+  openingPoints: 0,
+  skillLevels: { JavaScript: 2, React: 1 },
+  badgeCount: 4,
+  rareBadgeCount: 1,
+  firstAwardAt: new Date('2024-03-01T00:00:00Z'),
+  lastActivity: new Date('2024-03-04T00:00:00Z'),
+  rank,
+  ...overrides
+});
 
 describe('LeaderboardService', () => {
+  const board = [
+    rankedEntry('user-a', 900, 1, { previousRank: 2 }),
+    rankedEntry('user-b', 700, 2, { previousRank: 1 }),
+    rankedEntry('test-user-123', 700, 2),
+    rankedEntry('user-c', 100, 4, { previousRank: 4 })
+  ];
+
   beforeEach(() => {
     vi.clearAllMocks();
+
+    storedCompetitions.clear();
+    ['test-comp-123', 'large-comp-123'].forEach(id => storedCompetitions.set(id, storedCompetition(id)));
+    mockCompetitionService.createCompetition.mockImplementation(async (competition: Competition) => {
+      storedCompetitions.set(competition.competitionId, structuredClone(competition));
+    });
+    mockCompetitionService.getCompetition.mockImplementation(async (competitionId: string) => {
+      const competition = storedCompetitions.get(competitionId);
+      return competition ? structuredClone(competition) : null;
+    });
+    mockCompetitionService.updateCompetition.mockImplementation(async (competitionId, change) => {
+      const competition = storedCompetitions.get(competitionId);
+      if (!competition) throw new Error('Competition not found');
+      const changed = structuredClone(competition);
+      change(changed);
+      storedCompetitions.set(competitionId, structuredClone(changed));
+      return changed;
+    });
+
+    mockRankingService.getPage.mockImplementation(async (_boardId: string, pageSize: number) => ({
+      entries: board.slice(0, pageSize),
+      ...(board.length > pageSize && { nextCursor: `${board[pageSize - 1].points}:${board[pageSize - 1].userId}` })
+    }));
+    mockRankingService.getWindow.mockResolvedValue({ entries: board.slice(1, 4) });
+    mockRankingService.getParticipantCount.mockResolvedValue(board.length);
+    mockRankingService.getRank.mockImplementation(async (_boardId: string, userId: string) =>
+      board.find(entry => entry.userId === userId)?.rank ?? null);
+    mockRankingService.countAbove.mockImplementation(async (_boardId: string, points: number) =>
+      board.filter(entry => entry.points > points).length);
+    mockRankingService.getUserEntries.mockImplementation(async (userId: string) => {
+      const entry: RankingEntry = { ...board[2], userId, timeframe: 'all_time', periodKey: 'all' };
+      return [
+        { ...entry, boardId: 'global|all_time|all' },
+        { ...entry, scopeKey: 'skill:JavaScript', boardId: 'skill:JavaScript|all_time|all' }
+      ];
+    });
+  });
+
+  describe('ranking store', () => {
+    it('reads the board for the scope and current period with the viewer rank', async () => {
+      const result = await LeaderboardService.getLeaderboard({
+        type: 'skill_based',
+        skillId: 'JavaScript',
+        timeframe: 'weekly',
+        limit: 2,
+        userId: 'test-user-123'
+      });
+
+      expect(mockRankingService.getPage).toHaveBeenCalledWith(
+        expect.stringMatching(/^skill:JavaScript\|weekly\|\d{4}-W\d{2}$/),
+        2,
+        undefined
+      );
+      expect(result.entries.map(entry => [entry.userId, entry.rank, entry.rankChange])).toEqual([
+        ['user-a', 1, 'up'],
+        ['user-b', 2, 'down']
+      ]);
+      expect(result.nextCursor).toBe('700:user-b');
+      expect(result.userRank).toBe(2);
+      expect(result.totalParticipants).toBe(4);
+    });
+
+    it('passes cursors through and keeps only the viewer visible when anonymized', async () => {
+      const result = await LeaderboardService.getLeaderboard({
+        type: 'global',
+        cursor: '700:user-b',
+        userId: 'test-user-123',
+        includeAnonymized: true
+      });
+
+      expect(mockRankingService.getPage).toHaveBeenCalledWith('global|all_time|all', 50, '700:user-b');
+      expect(result.entries.filter(entry => !entry.isAnonymized).map(entry => entry.userId)).toEqual(['test-user-123']);
+      expect(result.userEntry?.rankChange).toBe('new');
+    });
+
+    it('shows the users around the viewer for peer groups', async () => {
+      await LeaderboardService.getLeaderboard({ type: 'peer_group', userId: 'test-user-123', limit: 3 });
+
+      expect(mockRankingService.getWindow).toHaveBeenCalledWith('global|all_time|all', 'test-user-123', 3);
+    });
   });
 
   describe('getLeaderboard', () => {
@@ -353,6 +517,247 @@ describe('LeaderboardService', () => {
     });
   });
 
+  describe('endDueCompetitions', () => {
+    it('ends competitions past their end date, leaving judged ones with a queue for the next run', async () => {
+      storedCompetitions.set('judging-comp', storedCompetition('judging-comp'));
+      mockCompetitionService.getCompetitionsDueToEnd.mockResolvedValue(
+        ['test-comp-123', 'judging-comp', 'missing-comp'].map(storedCompetition)
+      );
+      mockContestService.getCompetitionsAwaitingJudging.mockResolvedValue(['judging-comp']);
+
+      const results = await LeaderboardService.endDueCompetitions();
+
+      expect(results).toEqual([
+        { competitionId: 'test-comp-123', ended: true },
+        { competitionId: 'judging-comp', ended: false },
+        { competitionId: 'missing-comp', ended: false, error: 'Competition not found' }
+      ]);
+      expect(storedCompetitions.get('test-comp-123')?.status).toBe('completed');
+      expect(storedCompetitions.get('judging-comp')?.status).toBe('active');
+    });
+  });
+
+  describe('seasonal competitions', () => {
+    const seasonParams: CompetitionCreationParams = {
+      title: 'Spring Season',
+      description: 'Three months of bracketed play',
+      type: 'seasonal',
+      category: 'challenge_based',
+      startDate: new Date(Date.now() - 60 * 60 * 1000),
+      endDate: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000),
+      challenges: [],
+      prizes: [{ rank: 1, title: 'Bracket Winner', description: 'First in bracket', type: 'points', value: 300 }],
+      rules: [],
+      createdBy: 'test-admin',
+      season: { divisionSize: 2, promotionSlots: 1, relegationSlots: 1 }
+    };
+
+    let season: Season;
+    let standings: SeasonStanding[];
+
+    beforeEach(() => {
+      standings = [];
+      mockSeasonService.createSeason.mockImplementation(async (created: Season) => {
+        season = created;
+      });
+      mockSeasonService.enterSeason.mockImplementation(async (_seasonId, entrant) => {
+        const placed = SeasonBrackets.place(season, entrant, new Date(Date.now() + standings.length));
+        season = { ...season, brackets: placed.brackets };
+        standings.push(placed.standing);
+        return placed.standing;
+      });
+      mockSeasonService.getSeason.mockImplementation(async () => season);
+      mockSeasonService.getStandings.mockImplementation(async () => standings);
+      mockSeasonService.getLatestResult.mockImplementation(async (userId: string) =>
+        userId === 'returning' ? ({ nextTier: 'gold' } as SeasonResult) : null);
+      vi.mocked(UserProgressService.getUserProgress).mockResolvedValue(null);
+    });
+
+    const startSeason = async () => {
+      const competition = await LeaderboardService.createCompetition(seasonParams);
+      for (const userId of ['returning', 'new-a', 'new-b']) {
+        await LeaderboardService.registerForCompetition(competition.competitionId, userId, userId);
+      }
+      return competition;
+    };
+
+    it('creates the season with the competition and rejects invalid season settings', async () => {
+      const competition = await LeaderboardService.createCompetition(seasonParams);
+
+      expect(mockSeasonService.createSeason).toHaveBeenCalledWith(expect.objectContaining({
+        seasonId: competition.competitionId,
+        name: 'Spring Season',
+        bracketing: 'tier',
+        divisionSize: 2,
+        status: 'active'
+      }));
+
+      mockSeasonService.createSeason.mockClear();
+      await expect(LeaderboardService.createCompetition({ ...seasonParams, season: { divisionSize: 1 } }))
+        .rejects.toThrow('Invalid season settings');
+      expect(mockSeasonService.createSeason).not.toHaveBeenCalled();
+    });
+
+    it('places entrants by their last season or skill and ranks them within their bracket', async () => {
+      const competition = await startSeason();
+      await LeaderboardService.updateCompetitionScore({ competitionId: competition.competitionId, participantId: 'new-b', score: 40 });
+      await LeaderboardService.updateCompetitionScore({ competitionId: competition.competitionId, participantId: 'returning', score: 10 });
+
+      expect(storedCompetitions.get(competition.competitionId)?.participants.map(p => [p.userId, p.bracketId, p.currentRank])).toEqual([
+        ['new-b', 'bronze-1', 1],
+        ['returning', 'gold-1', 1],
+        ['new-a', 'bronze-1', 2]
+      ]);
+      expect((await LeaderboardService.getSeasonBracket(competition.competitionId, 'new-a')).participants.map(p => p.userId))
+        .toEqual(['new-b', 'new-a']);
+    });
+
+    it('settles the season with prizes in every bracket, tier moves and numbered season badges', async () => {
+      const competition = await startSeason();
+      await LeaderboardService.updateCompetitionScore({ competitionId: competition.competitionId, participantId: 'new-a', score: 60 });
+      await LeaderboardService.updateCompetitionScore({ competitionId: competition.competitionId, participantId: 'returning', score: 80 });
+
+      const results = await LeaderboardService.endCompetition(competition.competitionId);
+
+      expect(results.prizeDistribution.map(({ participant }) => participant.userId)).toEqual(['returning', 'new-a']);
+      expect(vi.mocked(PointsLedgerService.recordPrize)).toHaveBeenCalledTimes(2);
+      expect(results.season?.results.map(r => [r.userId, r.movement, r.nextTier])).toEqual([
+        ['returning', 'promoted', 'platinum'],
+        ['new-a', 'promoted', 'silver'],
+        ['new-b', 'stayed', 'bronze']
+      ]);
+      expect(mockSeasonService.completeSeason).toHaveBeenCalledWith(season, results.season?.results, results.season?.badges);
+      expect(results.season?.badges.map(({ userId, badge }) =>
+        [userId, badge.badgeName, badge.eventId, badge.serialNumber, badge.totalMinted])).toEqual([
+        ['returning', 'Season Champion', competition.competitionId, 1, 2],
+        ['new-a', 'Season Champion', competition.competitionId, 2, 2],
+        ['returning', 'Season Climber', competition.competitionId, 1, 2],
+        ['new-a', 'Season Climber', competition.competitionId, 2, 2]
+      ]);
+    });
+
+    it('returns the stored results and badges without issuing new ones for a season already settled', async () => {
+      const competition = await startSeason();
+      season = { ...season, status: 'completed' };
+      const stored = [{ userId: 'returning', badge: { badgeName: 'Season Champion' } as SpecialBadge }];
+      mockSeasonService.getResults.mockResolvedValue([]);
+      mockSeasonService.getBadges.mockResolvedValue(stored);
+
+      const results = await LeaderboardService.endCompetition(competition.competitionId);
+
+      expect(results.season).toEqual({ results: [], badges: stored });
+      expect(mockSeasonService.completeSeason).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('judged competitions', () => {
+    const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+    const contestParams: CompetitionCreationParams = {
+      title: 'Friday Contest',
+      description: 'One hour, judged',
+      type: 'special',
+      category: 'challenge_based',
+      startDate: minutesAgo(60),
+      endDate: minutesAgo(-10),
+      challenges: ['p1'],
+      prizes: [{ rank: 1, title: 'Winner', description: 'First place', type: 'points', value: 200 }],
+      rules: [{ ruleId: 'penalty', description: '20 minutes per rejection', category: 'scoring', isRequired: true, scoring: { type: 'penalty_time', minutesPerRejection: 20 } }],
+      createdBy: 'test-admin',
+      scoreboardFreezeMinutes: 30
+    };
+
+    const judged = (userId: string, minutesBefore: number, accepted: boolean): ContestSubmission => ({
+      submissionId: `${userId}-${minutesBefore}`,
+      competitionId: 'contest',
+      userId,
+      username: userId,
+      challengeId: 'p1',
+      code: 'function solution() {}',
+      language: 'javascript',
+      status: 'judged',
+      submittedAt: minutesAgo(minutesBefore),
+      verdict: { accepted, score: accepted ? 100 : 30, testsPassed: 0, testsTotal: 0, feedback: [], judgedAt: minutesAgo(minutesBefore) }
+    });
+
+    const startContest = async () => {
+      const competition = await LeaderboardService.createCompetition(contestParams);
+      await LeaderboardService.registerForCompetition(competition.competitionId, 'ada', 'ada');
+      await LeaderboardService.registerForCompetition(competition.competitionId, 'bob', 'bob');
+      return competition;
+    };
+
+    beforeEach(() => {
+      mockContestService.getSubmissions.mockResolvedValue([
+        judged('ada', 40, true), // minute 20
+        judged('bob', 55, false),
+        judged('bob', 5, true) // made during the freeze
+      ]);
+    });
+
+    it('takes scores only from judging and rejects a freeze as long as the competition', async () => {
+      const competition = await startContest();
+
+      expect(competition).toMatchObject({ challengeIds: ['p1'], scoreboardFreezeMinutes: 30 });
+      await expect(LeaderboardService.updateCompetitionScore({ competitionId: competition.competitionId, participantId: 'ada', score: 90 }))
+        .rejects.toThrow('Scores for judged competitions come from the judging queue');
+      await expect(LeaderboardService.createCompetition({ ...contestParams, scoreboardFreezeMinutes: 70 }))
+        .rejects.toThrow('Scoreboard freeze must be shorter than the competition');
+    });
+
+    it('queues submissions from participants for the competition challenges', async () => {
+      const competition = await startContest();
+      const entry = { competitionId: competition.competitionId, userId: 'ada', challengeId: 'p1', code: 'x', language: 'javascript' };
+
+      await LeaderboardService.submitCompetitionEntry(entry);
+
+      expect(mockContestService.submit).toHaveBeenCalledWith(
+        { competitionId: competition.competitionId, userId: 'ada', username: 'ada', challengeId: 'p1', code: 'x', language: 'javascript' },
+        expect.any(Date)
+      );
+      await expect(LeaderboardService.submitCompetitionEntry({ ...entry, challengeId: 'p9' }))
+        .rejects.toThrow('Challenge is not part of this competition');
+      await expect(LeaderboardService.submitCompetitionEntry({ ...entry, userId: 'eve' }))
+        .rejects.toThrow('Participant not found');
+    });
+
+    it('publishes the frozen scoreboard and keeps results since the freeze out of participant standings', async () => {
+      const competition = await startContest();
+
+      const scoreboard = await LeaderboardService.refreshContestScoreboard(competition.competitionId);
+
+      expect(mockContestService.publishScoreboard).toHaveBeenCalledWith(scoreboard);
+      expect(scoreboard.frozen).toBe(true);
+      expect(scoreboard.rows.map(row => [row.userId, row.totalPoints, row.problems[0].pendingAttempts])).toEqual([
+        ['ada', 100, 0],
+        ['bob', 30, 1] // partial credit for the rejected attempt before the freeze
+      ]);
+      // bob's accepted attempt during the freeze stays hidden until the reveal
+      const stored = storedCompetitions.get(competition.competitionId)!;
+      expect(stored.participants.map(p => [p.userId, p.currentScore, p.currentRank])).toEqual([['ada', 100, 1], ['bob', 30, 2]]);
+      expect(stored.metadata.topScore).toBe(100);
+      expect(stored.leaderboard.map(entry => [entry.userId, entry.totalPoints])).toEqual([['ada', 100], ['bob', 30]]);
+    });
+
+    it('reveals the frozen results when the competition ends and ranks by penalty time', async () => {
+      const competition = await startContest();
+
+      const results = await LeaderboardService.endCompetition(competition.competitionId);
+
+      expect(results.contest?.scoreboard.rows.map(row => [row.userId, row.rank, row.penaltyMinutes])).toEqual([
+        ['ada', 1, 20],
+        ['bob', 2, 75]
+      ]);
+      expect(results.contest?.reveal).toEqual([
+        { userId: 'bob', username: 'bob', frozenRank: 2, finalRank: 2, pointsGained: 70 }
+      ]);
+      expect(mockContestService.publishScoreboard).toHaveBeenCalledWith(expect.objectContaining({ frozen: false }));
+      expect(storedCompetitions.get(competition.competitionId)?.participants.map(p => [p.userId, p.currentScore]))
+        .toEqual([['ada', 100], ['bob', 100]]);
+      expect(storedCompetitions.get(competition.competitionId)?.status).toBe('completed');
+      expect(results.prizeDistribution.map(({ participant }) => participant.userId)).toEqual(['ada']);
+    });
+  });
+
   describe('Error handling', () => {
     it('should handle service errors gracefully', async () => {
       // Mock a method to throw an error
@@ -0,0 +1,107 @@
+/**
+ * @fileOverview Unit tests for PointsLedger
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PointsLedger, PointsLedgerDraft, PointsLedgerError } from '../points-ledger';
+import { PointsCalculationInput, PointsLedgerEntry } from '@/types/gamification';
+
+const challengeInput: PointsCalculationInput = {
+  kind: 'challenge',
+  challenge: { difficulty: 'intermediate', timeLimit: 30 },
+  submission: { totalScore: 90, aiAnalysis: { codeQuality: 80, efficiency: 70, creativity: 60, bestPractices: 90 } },
+  completionTime: 1200
+};
+
+let nextId = 1;
+const stored = (draft: PointsLedgerDraft): PointsLedgerEntry => ({ ...draft, entryId: `entry-${nextId++}` });
+
+const award = (input: PointsCalculationInput = challengeInput, createdAt = new Date('2024-03-04T09:00:00Z')) =>
+  stored(PointsLedger.calculated(
+    'user-1',
+    'award',
+    input,
+    PointsLedger.calculate(input),
+    'Challenge completed',
+    { sourceIds: { challengeId: 'challenge-1' }, skillIds: ['JavaScript'] },
+    createdAt
+  ));
+
+describe('PointsLedger', () => {
+  it('keeps the source IDs, breakdown and input of calculated entries', () => {
+    const entry = award();
+    const calculation = PointsLedger.calculate(challengeInput);
+
+    expect(entry).toMatchObject({
+      userId: 'user-1',
+      type: 'award',
+      points: calculation.totalPoints,
+      breakdown: calculation.breakdown,
+      sourceIds: { challengeId: 'challenge-1' },
+      skillIds: ['JavaScript'],
+      input: challengeInput
+    });
+    expect(entry).not.toHaveProperty('competitionId');
+  });
+
+  it('records penalties as negative entries and rejects non-positive amounts', () => {
+    const penalty = PointsLedger.penalty('user-1', 50, 'Plagiarised submission', 'mod-1');
+
+    expect(penalty).toMatchObject({ type: 'penalty', points: -50, actorId: 'mod-1', reason: 'Plagiarised submission' });
+    expect(() => PointsLedger.penalty('user-1', 0, 'Nothing', 'mod-1'))
+      .toThrow(expect.objectContaining({ code: 'invalid_points' }));
+    expect(PointsLedger.prize('user-1', 500, 'Weekly Sprint: First place', 'comp-1'))
+      .toMatchObject({ type: 'prize', points: 500, competitionId: 'comp-1', sourceIds: { competitionId: 'comp-1' } });
+  });
+
+  it('reverses an entry once and reinstates it by reversing the reversal', () => {
+    const original = award();
+    const ledger = [original];
+
+    const reversal = stored(PointsLedger.reversal(original, ledger, 'Fraud', 'mod-1'));
+    ledger.push(reversal);
+    expect(reversal).toMatchObject({ type: 'reversal', points: -original.points, relatedEntryId: original.entryId });
+    expect(PointsLedger.isReversed(original, ledger)).toBe(true);
+    expect(() => PointsLedger.reversal(original, ledger, 'Fraud', 'mod-1')).toThrow(PointsLedgerError);
+
+    const reinstatement = stored(PointsLedger.reversal(reversal, ledger, 'Appeal upheld', 'mod-2'));
+    ledger.push(reinstatement);
+    expect(reinstatement.points).toBe(original.points);
+    expect(PointsLedger.isReversed(original, ledger)).toBe(false);
+    expect(PointsLedger.project('user-1', ledger).total).toBe(original.points);
+  });
+
+  it('recomputes calculated entries under a new config as adjustments, once', () => {
+    const original = award();
+    const ledger = [original, stored(PointsLedger.penalty('user-1', 10, 'Spam', 'mod-1'))];
+    const config = { qualityBonusMultiplier: 2 };
+
+    const adjustments = PointsLedger.recompute(ledger, config, 'Raised quality bonus').map(stored);
+    const recalculated = PointsLedger.calculate(challengeInput, config).totalPoints;
+
+    expect(adjustments).toHaveLength(1);
+    expect(adjustments[0]).toMatchObject({ type: 'adjustment', points: recalculated - original.points, relatedEntryId: original.entryId });
+    expect(PointsLedger.recompute([...ledger, ...adjustments], config, 'Again')).toEqual([]);
+
+    // A later reversal cancels the adjusted value, not just the original points
+    const reversal = PointsLedger.reversal(original, [...ledger, ...adjustments], 'Fraud', 'mod-1');
+    expect(reversal.points).toBe(-recalculated);
+  });
+
+  it('projects totals incrementally and by full replay to the same result', () => {
+    const first = award(challengeInput, new Date('2024-03-04T09:00:00Z'));
+    const penalty = stored(PointsLedger.penalty('user-1', 20, 'Spam', 'mod-1', {}, new Date('2024-03-05T09:00:00Z')));
+    const other = stored({ ...PointsLedger.penalty('user-2', 5, 'Spam', 'mod-1'), userId: 'user-2' });
+
+    const incremental = PointsLedger.applyToTotals(PointsLedger.applyToTotals(null, first), penalty);
+    const replayed = PointsLedger.project('user-1', [first, other, penalty], incremental.updatedAt);
+
+    expect(replayed).toEqual(incremental);
+    expect(replayed).toMatchObject({
+      total: first.points - 20,
+      entryCount: 2,
+      lastEntryAt: penalty.createdAt
+    });
+    expect(replayed.byType).toMatchObject({ award: first.points, penalty: -20, prize: 0 });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @fileOverview Unit tests for RankingAggregator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RankingAggregator, RankingError } from '../ranking-aggregator';
+import { PointAward } from '@/types/gamification';
+
+const award = (points: number, awardedAt: string, overrides: Partial<PointAward> = {}): PointAward => ({
+  userId: 'user-1',
+  points,
+  skillIds: ['JavaScript'],
+  awardedAt: new Date(awardedAt),
+  profile: { username: 'user-1', skillLevels: { JavaScript: 2 }, badgeCount: 3, rareBadgeCount: 0 },
+  ...overrides
+});
+
+describe('RankingAggregator', () => {
+  it('keys periods in UTC, with ISO weeks across the year boundary', () => {
+    const date = new Date('2024-12-30T23:30:00Z');
+
+    expect(RankingAggregator.periodKey('daily', date)).toBe('2024-12-30');
+    expect(RankingAggregator.periodKey('weekly', date)).toBe('2025-W01');
+    expect(RankingAggregator.periodKey('monthly', date)).toBe('2024-12');
+    expect(RankingAggregator.periodKey('all_time', date)).toBe('all');
+    expect(RankingAggregator.periodKey('weekly', new Date('2021-01-03T12:00:00Z'))).toBe('2020-W53');
+
+    expect(RankingAggregator.nextBoundary('weekly', date).toISOString()).toBe('2025-01-06T00:00:00.000Z');
+    expect(RankingAggregator.nextBoundary('monthly', date).toISOString()).toBe('2025-01-01T00:00:00.000Z');
+  });
+
+  it('counts an award toward global, each distinct skill and the competition', () => {
+    const scopes = RankingAggregator.scopesFor({ skillIds: ['React', 'React', ''], competitionId: 'comp-1' });
+
+    expect(scopes.map(scope => RankingAggregator.scopeKey(scope))).toEqual(['global', 'skill:React', 'competition:comp-1']);
+    expect(RankingAggregator.parseScopeKey('skill:C/C++')).toEqual({ type: 'skill', skillId: 'C/C++' });
+    expect(() => RankingAggregator.scopeKey({ type: 'skill', skillId: '' }))
+      .toThrow(expect.objectContaining({ code: 'invalid_scope' }));
+  });
+
+  it('adds awards incrementally and snapshots opening points at each new day', () => {
+    const scope = { type: 'global' } as const;
+    let entry = RankingAggregator.applyAward(null, scope, 'all_time', award(40, '2024-03-04T09:00:00Z'));
+    expect(entry).toMatchObject({ boardId: 'global|all_time|all', points: 40, awardCount: 1, openingPoints: 0 });
+
+    entry = RankingAggregator.applyAward(entry, scope, 'all_time', award(10, '2024-03-04T18:00:00Z'));
+    expect(entry).toMatchObject({ points: 50, openingPeriod: '2024-03-04', openingPoints: 0 });
+
+    entry = RankingAggregator.applyAward(entry, scope, 'all_time', award(25, '2024-03-05T08:00:00Z'));
+    expect(entry).toMatchObject({ points: 75, openingPeriod: '2024-03-05', openingPoints: 50 });
+    expect(RankingAggregator.openingPoints(entry, '2024-03-06')).toBe(75);
+  });
+
+  it('sums negative awards as they are, so the order awards arrive in does not matter', () => {
+    const scope = { type: 'global' } as const;
+    const penaltyFirst = RankingAggregator.applyAward(
+      RankingAggregator.applyAward(null, scope, 'all_time', award(-30, '2024-03-04T09:00:00Z')),
+      scope, 'all_time', award(20, '2024-03-04T10:00:00Z')
+    );
+    const awardFirst = RankingAggregator.applyAward(
+      RankingAggregator.applyAward(null, scope, 'all_time', award(20, '2024-03-04T09:00:00Z')),
+      scope, 'all_time', award(-30, '2024-03-04T10:00:00Z')
+    );
+
+    expect(penaltyFirst.points).toBe(-10);
+    expect(awardFirst.points).toBe(-10);
+    expect(RankingAggregator.displayPoints(penaltyFirst.points)).toBe(0);
+  });
+
+  it('measures period boards against the previous period', () => {
+    const weekly = RankingAggregator.applyAward(null, { type: 'skill', skillId: 'JavaScript' }, 'weekly', award(5, '2024-03-04T09:00:00Z'));
+
+    expect(weekly.boardId).toBe('skill:JavaScript|weekly|2024-W10');
+    expect(RankingAggregator.previousBoardId(weekly)).toBe('skill:JavaScript|weekly|2024-W09');
+    expect(RankingAggregator.snapshotPeriod(weekly, new Date('2024-03-06T00:00:00Z'))).toBe('2024-W10');
+    expect(RankingAggregator.rankChange(3, undefined)).toBe('new');
+    expect(RankingAggregator.rankChange(3, 5)).toBe('up');
+    expect(RankingAggregator.rankChange(3, 3)).toBe('same');
+  });
+
+  it('shares ranks between ties, including ties that started on an earlier page', () => {
+    const points = [90, 80, 80, 70].map(value => ({ points: value }));
+    expect(RankingAggregator.rankPage(points, 0, 0)).toEqual([1, 2, 2, 4]);
+
+    // Page starting with the second of three users tied on 50 points, behind 10 users with more
+    const continued = [50, 50, 40].map(value => ({ points: value }));
+    expect(RankingAggregator.rankPage(continued, 10, 11)).toEqual([11, 11, 14]);
+  });
+
+  it('round-trips pagination cursors and rejects malformed ones', () => {
+    const cursor = RankingAggregator.encodeCursor({ points: 120, userId: 'user:a/b' });
+
+    expect(RankingAggregator.decodeCursor(cursor)).toEqual({ points: 120, userId: 'user:a/b' });
+    expect(() => RankingAggregator.decodeCursor('not-a-cursor')).toThrow(RankingError);
+    expect(() => RankingAggregator.decodeCursor('abc:user')).toThrow(RankingError);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @fileOverview Unit tests for SeasonBrackets
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SeasonBrackets, SeasonEntrant, SeasonError } from '../season-brackets';
+import { Season, SeasonStanding } from '@/types/gamification';
+import { SkillLevel, UserProgress } from '@/types/analytics';
+
+const startDate = new Date('2024-04-01T00:00:00Z');
+const endDate = new Date('2024-06-30T00:00:00Z');
+
+const season = (overrides: Partial<Season> = {}): Season => ({
+  ...SeasonBrackets.createSeason(
+    { competitionId: 'season-2024-q2', title: 'Spring Season', startDate, endDate },
+    { divisionSize: 3, promotionSlots: 1, relegationSlots: 1 }
+  ),
+  ...overrides
+});
+
+const entrant = (userId: string, skillRating: number, tier: SeasonEntrant['tier'] = 'silver'): SeasonEntrant => ({
+  userId,
+  username: userId,
+  tier,
+  skillRating
+});
+
+const progress = (levels: number[]): UserProgress => ({
+  userId: 'user-1',
+  skillLevels: new Map(levels.map((currentLevel, index) => [
+    `skill-${index}`,
+    { skillId: `skill-${index}`, currentLevel, experiencePoints: 0 } as SkillLevel
+  ])),
+  learningVelocity: 0,
+  codeQualityTrend: { direction: 'stable', changePercentage: 0, timeframe: 'all_time', dataPoints: 0 },
+  challengesCompleted: [],
+  peerInteractions: [],
+  lastAnalysisDate: startDate,
+  createdAt: startDate,
+  updatedAt: startDate
+});
+
+const placeAll = (initial: Season, entrants: SeasonEntrant[]) => {
+  let current = initial;
+  const standings: SeasonStanding[] = [];
+  entrants.forEach((next, index) => {
+    const { standing, brackets } = SeasonBrackets.place(current, next, new Date(startDate.getTime() + index * 1000));
+    standings.push(standing);
+    current = { ...current, brackets };
+  });
+  return { season: current, standings };
+};
+
+describe('SeasonBrackets', () => {
+  describe('createSeason', () => {
+    it('fills unset settings from the defaults and rejects invalid ones', () => {
+      expect(SeasonBrackets.createSeason({ competitionId: 'c1', title: 'Season', startDate, endDate })).toMatchObject({
+        seasonId: 'c1',
+        ...SeasonBrackets.DEFAULT_SETTINGS,
+        brackets: [],
+        status: 'active'
+      });
+
+      expect(() => SeasonBrackets.createSeason(
+        { competitionId: 'c1', title: 'Season', startDate, endDate },
+        { divisionSize: 4, promotionSlots: 3, relegationSlots: 2 }
+      )).toThrow(SeasonError);
+    });
+  });
+
+  describe('placement', () => {
+    it('rates users by average skill level and places first seasons no higher than gold', () => {
+      expect(SeasonBrackets.skillRating(null)).toBe(0);
+      expect(SeasonBrackets.skillRating(progress([2, 3]))).toBe(250);
+
+      expect(SeasonBrackets.startingTier(150)).toBe('bronze');
+      expect(SeasonBrackets.startingTier(250)).toBe('silver');
+      expect(SeasonBrackets.startingTier(480)).toBe('gold');
+      expect(SeasonBrackets.startingTier(480, { nextTier: 'platinum' })).toBe('platinum');
+    });
+
+    it('keeps tiers apart and opens a division when the closest one is full or too far in rating', () => {
+      const { season: placed, standings } = placeAll(season(), [
+        entrant('a', 200),
+        entrant('b', 220),
+        entrant('c', 400),
+        entrant('d', 210),
+        entrant('e', 230),
+        entrant('f', 200, 'gold')
+      ]);
+
+      expect(standings.map(standing => standing.bracketId)).toEqual([
+        'silver-1', 'silver-1', 'silver-2', 'silver-1', 'silver-3', 'gold-1'
+      ]);
+      expect(placed.brackets.find(bracket => bracket.bracketId === 'silver-1')).toMatchObject({
+        tier: 'silver',
+        entrants: 3,
+        ratingTotal: 630
+      });
+    });
+
+    it('matches divisions across tiers by skill rating with skill bracketing', () => {
+      const { standings } = placeAll(season({ bracketing: 'skill' }), [
+        entrant('a', 200, 'bronze'),
+        entrant('b', 420, 'gold'),
+        entrant('c', 230, 'diamond')
+      ]);
+
+      expect(standings.map(standing => [standing.bracketId, standing.tier])).toEqual([
+        ['skill-1', 'bronze'],
+        ['skill-2', 'gold'],
+        ['skill-1', 'diamond']
+      ]);
+    });
+  });
+
+  describe('settle', () => {
+    it('promotes the top and relegates the bottom of each bracket with season badges', () => {
+      const { season: placed, standings } = placeAll(season(), [
+        entrant('a', 200),
+        entrant('b', 210),
+        entrant('c', 220),
+        entrant('d', 200, 'bronze'),
+        entrant('e', 200, 'bronze')
+      ]);
+      const scores = new Map([['a', 50], ['b', 90], ['c', 50], ['d', 0], ['e', 0]]);
+
+      const results = SeasonBrackets.settle(placed, standings, scores, endDate);
+
+      expect(results.map(({ userId, rank, movement, nextTier, badgeNames }) => [userId, rank, movement, nextTier, badgeNames]))
+        .toEqual([
+          ['b', 1, 'promoted', 'gold', ['Season Champion', 'Season Climber']],
+          ['a', 2, 'stayed', 'silver', []], // ties go to the earlier placement
+          ['c', 3, 'relegated', 'bronze', []],
+          ['d', 1, 'stayed', 'bronze', []], // nobody scored, and bronze is the lowest tier
+          ['e', 2, 'stayed', 'bronze', []]
+        ]);
+      expect(results[0]).toMatchObject({ seasonName: 'Spring Season', bracketSize: 3, score: 90, endedAt: endDate });
+    });
+
+    it('does not relegate the leaders of a bracket smaller than its slots', () => {
+      const { season: placed, standings } = placeAll(season({ promotionSlots: 2, relegationSlots: 2 }), [
+        entrant('a', 300, 'diamond'),
+        entrant('b', 300, 'diamond')
+      ]);
+
+      const results = SeasonBrackets.settle(placed, standings, new Map([['a', 10], ['b', 5]]), endDate);
+
+      expect(results.map(result => [result.movement, result.nextTier, result.badgeNames])).toEqual([
+        ['stayed', 'diamond', ['Season Champion']],
+        ['stayed', 'diamond', []]
+      ]);
+    });
+  });
+});
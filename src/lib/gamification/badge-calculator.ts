@@ -2,7 +2,7 @@
  * @fileOverview Badge calculation and awarding system
  * 
  * This service implements sophisticated badge awarding logic that:
- * - Calculates badge eligibility based on multiple criteria
+ * - Calculates badge eligibility by evaluating badge definitions' rules
  * - Determines badge rarity using advanced algorithms
  * - Integrates with blockchain verification system
  * - Manages achievement progress and milestone tracking
@@ -13,7 +13,9 @@ import {
   BadgeType, 
   BadgeRarity, 
   BadgeCriteria,
+  BadgeDefinition,
   BadgeMetadata,
+  PointsLedgerEntry,
   ValidationCriteria,
   RarityCalculation,
   SpecialBadge,
@@ -29,7 +31,10 @@ import {
   Challenge, 
   ChallengeSubmission 
 } from '@/types/analytics';
+import { ReviewerStats } from '@/types/peer-review';
 import { PointsCalculator } from './points-calculator';
+import { BadgeFacts, BadgeRuleEngine } from './badge-rules';
+import { DEFAULT_BADGE_DEFINITIONS } from './default-badge-definitions';
 
 export interface BadgeEligibilityResult {
   isEligible: boolean;
@@ -52,133 +57,12 @@ export interface BadgeAwardContext {
     sessionDuration?: number;
     streakDays?: number;
   };
+  ledger?: PointsLedgerEntry[]; // for activity count, streak and competition conditions
+  totalPoints?: number; // the user's ledger total; estimated from skill experience when absent
+  reviewerStats?: Pick<ReviewerStats, 'averageRating' | 'helpfulnessScore' | 'totalReviewsCompleted'>;
 }
 
 export class BadgeCalculator {
-  private static readonly SKILL_BADGES = {
-    // JavaScript badges
-    'JavaScript Fundamentals': {
-      category: 'skill',
-      subcategory: 'javascript',
-      criteria: { minimumSkillLevel: 1, codeQualityThreshold: 60 },
-      rarity: 'common'
-    },
-    'JavaScript Advanced': {
-      category: 'skill',
-      subcategory: 'javascript',
-      criteria: { minimumSkillLevel: 3, codeQualityThreshold: 80 },
-      rarity: 'rare'
-    },
-    'JavaScript Master': {
-      category: 'skill',
-      subcategory: 'javascript',
-      criteria: { minimumSkillLevel: 4, codeQualityThreshold: 90 },
-      rarity: 'epic'
-    },
-    
-    // React badges
-    'React Hooks Expert': {
-      category: 'skill',
-      subcategory: 'react',
-      criteria: { specificSkills: ['hooks'], minimumSkillLevel: 3, codeQualityThreshold: 85 },
-      rarity: 'rare'
-    },
-    'React Performance Optimizer': {
-      category: 'skill',
-      subcategory: 'react',
-      criteria: { specificSkills: ['performance', 'optimization'], minimumSkillLevel: 4 },
-      rarity: 'epic'
-    },
-    
-    // TypeScript badges
-    'TypeScript Type Safety': {
-      category: 'skill',
-      subcategory: 'typescript',
-      criteria: { specificSkills: ['interfaces', 'type-guards'], minimumSkillLevel: 2 },
-      rarity: 'uncommon'
-    },
-    'TypeScript Generics Master': {
-      category: 'skill',
-      subcategory: 'typescript',
-      criteria: { specificSkills: ['generics', 'advanced-types'], minimumSkillLevel: 4 },
-      rarity: 'legendary'
-    },
-    
-    // Algorithm badges
-    'Algorithm Efficiency': {
-      category: 'skill',
-      subcategory: 'algorithms',
-      criteria: { codeQualityThreshold: 85, specificSkills: ['optimization'] },
-      rarity: 'rare'
-    },
-    'Data Structure Master': {
-      category: 'skill',
-      subcategory: 'algorithms',
-      criteria: { minimumSkillLevel: 4, specificSkills: ['data-structures'] },
-      rarity: 'epic'
-    }
-  };
-
-  private static readonly ACHIEVEMENT_BADGES = {
-    // Challenge completion badges
-    'Challenge Conqueror': {
-      category: 'achievement',
-      subcategory: 'challenges',
-      criteria: { challengeCompletion: true, requiredPoints: 500 },
-      rarity: 'uncommon'
-    },
-    'Speed Demon': {
-      category: 'achievement',
-      subcategory: 'challenges',
-      criteria: { 
-        challengeCompletion: true,
-        timeConstraints: { type: 'within_timeframe', duration: 300 } // 5 minutes
-      },
-      rarity: 'rare'
-    },
-    'Perfect Score': {
-      category: 'achievement',
-      subcategory: 'challenges',
-      criteria: { challengeCompletion: true },
-      rarity: 'epic',
-      specialConditions: ['100% completion score']
-    },
-    
-    // Milestone badges
-    'First Steps': {
-      category: 'milestone',
-      subcategory: 'progression',
-      criteria: { minimumSkillLevel: 1 },
-      rarity: 'common'
-    },
-    'Rising Star': {
-      category: 'milestone',
-      subcategory: 'progression',
-      criteria: { requiredPoints: 1000 },
-      rarity: 'uncommon'
-    },
-    'Code Virtuoso': {
-      category: 'milestone',
-      subcategory: 'progression',
-      criteria: { requiredPoints: 10000, minimumSkillLevel: 4 },
-      rarity: 'legendary'
-    },
-    
-    // Community badges
-    'Helpful Reviewer': {
-      category: 'community',
-      subcategory: 'peer_review',
-      criteria: { peerReviewScore: 4.0 },
-      rarity: 'uncommon'
-    },
-    'Mentor': {
-      category: 'community',
-      subcategory: 'mentorship',
-      criteria: { peerReviewScore: 4.5, requiredPoints: 2000 },
-      rarity: 'rare'
-    }
-  };
-
   private static readonly SPECIAL_BADGES = {
     'Early Adopter': {
       category: 'special',
@@ -194,19 +78,36 @@ export class BadgeCalculator {
       criteria: {},
       rarity: 'epic',
       limitedEdition: true
+    },
+    // Season badges are minted per season, with the season as the event
+    'Season Champion': {
+      category: 'special',
+      subcategory: 'seasonal',
+      criteria: {},
+      rarity: 'legendary',
+      limitedEdition: true
+    },
+    'Season Climber': {
+      category: 'special',
+      subcategory: 'seasonal',
+      criteria: {},
+      rarity: 'rare',
+      limitedEdition: true
     }
   };
 
   /**
-   * Evaluates badge eligibility for a given context
+   * Evaluates badge eligibility for a given context against the named badge's active
+   * definition
    */
   static async evaluateBadgeEligibility(
     badgeName: string,
-    context: BadgeAwardContext
+    context: BadgeAwardContext,
+    definitions: BadgeDefinition[] = DEFAULT_BADGE_DEFINITIONS
   ): Promise<BadgeEligibilityResult> {
-    const badgeConfig = this.getBadgeConfig(badgeName);
+    const definition = this.findDefinition(badgeName, definitions);
     
-    if (!badgeConfig) {
+    if (!definition) {
       return {
         isEligible: false,
         missingCriteria: ['Badge not found'],
@@ -214,11 +115,11 @@ export class BadgeCalculator {
       };
     }
 
-    const validationResults = await this.validateBadgeCriteria(badgeConfig.criteria, context);
-    const isEligible = validationResults.every(result => result.passed);
+    const trace = BadgeRuleEngine.evaluate(definition.rule, this.buildBadgeFacts(context));
+    const validationResults = BadgeRuleEngine.toValidationCriteria(trace);
     
-    if (isEligible) {
-      const badgeAward = await this.createBadgeAward(badgeName, badgeConfig, context, validationResults);
+    if (trace.passed) {
+      const badgeAward = await this.createBadgeAward(definition.name, this.configFor(definition), context, validationResults);
       return {
         isEligible: true,
         badgeAward,
@@ -242,6 +143,45 @@ export class BadgeCalculator {
     }
   }
 
+  /**
+   * Gathers the facts badge rules are evaluated against from an award context
+   */
+  static buildBadgeFacts(context: BadgeAwardContext, now: Date = new Date()): BadgeFacts {
+    const { aiAnalysis, challenge, submission, reviewerStats } = context;
+    const activities = BadgeRuleEngine.activitiesFromLedger(context.ledger ?? []);
+    const reviews = activities.filter(activity => activity.kind === 'peer_review');
+    const helpfulness = reviews
+      .map(review => review.attributes.helpfulness)
+      .filter((value): value is number => typeof value === 'number');
+    const seconds = context.timeConstraints?.submissionTime;
+
+    return {
+      skillLevels: Object.fromEntries(
+        Array.from(context.userProgress.skillLevels.entries()).map(([skillId, skill]) => [skillId, skill.currentLevel])
+      ),
+      totalPoints: context.totalPoints ?? this.calculateTotalUserPoints(context.userProgress),
+      ...(aiAnalysis && { codeQuality: aiAnalysis.codeQuality }),
+      detectedSkills: aiAnalysis?.detectedSkills || [],
+      activities,
+      ...(submission && {
+        challenge: {
+          score: submission.totalScore,
+          passed: submission.passed,
+          ...(challenge && { difficulty: challenge.difficulty }),
+          ...(seconds !== undefined && { seconds }),
+          ...(seconds !== undefined && challenge?.timeLimit && { timeRatio: seconds / (challenge.timeLimit * 60) })
+        }
+      }),
+      peerReview: {
+        score: context.peerReviewScore ?? reviewerStats?.averageRating,
+        helpfulness: reviewerStats?.helpfulnessScore ??
+          (helpfulness.length > 0 ? helpfulness.reduce((sum, value) => sum + value, 0) / helpfulness.length : undefined),
+        reviews: reviewerStats?.totalReviewsCompleted ?? reviews.length
+      },
+      now
+    };
+  }
+
   /**
    * Calculates badge rarity based on multiple factors
    */
@@ -331,7 +271,8 @@ export class BadgeCalculator {
         skillsValidated: this.extractValidatedSkills(context),
         codeQualityScore: context.aiAnalysis?.codeQuality || 0,
         difficultyLevel: this.determineDifficultyLevel(context),
-        validationCriteria: validationResults
+        validationCriteria: validationResults,
+        ...(badgeConfig.version !== undefined && { definitionVersion: badgeConfig.version })
       }
     };
     
@@ -375,16 +316,17 @@ export class BadgeCalculator {
     context: BadgeAwardContext,
     contributionType: CommunityBadge['contributionType'],
     impactScore: number,
-    endorsements: string[] = []
+    endorsements: string[] = [],
+    definitions: BadgeDefinition[] = DEFAULT_BADGE_DEFINITIONS
   ): CommunityBadge {
-    const baseBadge = this.ACHIEVEMENT_BADGES[badgeName as keyof typeof this.ACHIEVEMENT_BADGES];
+    const definition = this.findDefinition(badgeName, definitions);
     
-    if (!baseBadge) {
+    if (!definition) {
       throw new Error(`Community badge ${badgeName} not found`);
     }
     
     const communityBadge: CommunityBadge = {
-      ...this.createBaseBadgeStructure(badgeName, baseBadge, context),
+      ...this.createBaseBadgeStructure(definition.name, this.configFor(definition), context),
       contributionType,
       impactScore,
       communityVotes: endorsements.length,
@@ -440,86 +382,20 @@ export class BadgeCalculator {
 
   // Private helper methods
 
-  private static getBadgeConfig(badgeName: string): any {
-    return this.SKILL_BADGES[badgeName as keyof typeof this.SKILL_BADGES] ||
-           this.ACHIEVEMENT_BADGES[badgeName as keyof typeof this.ACHIEVEMENT_BADGES] ||
-           this.SPECIAL_BADGES[badgeName as keyof typeof this.SPECIAL_BADGES];
+  private static findDefinition(badgeName: string, definitions: BadgeDefinition[]): BadgeDefinition | undefined {
+    return definitions.find(definition =>
+      definition.status === 'active' && (definition.name === badgeName || definition.badgeId === badgeName)
+    );
   }
 
-  private static async validateBadgeCriteria(
-    criteria: BadgeCriteria,
-    context: BadgeAwardContext
-  ): Promise<ValidationCriteria[]> {
-    const results: ValidationCriteria[] = [];
-    
-    // Validate minimum skill level
-    if (criteria.minimumSkillLevel) {
-      const userSkillLevels = Array.from(context.userProgress.skillLevels.values());
-      const maxSkillLevel = Math.max(...userSkillLevels.map(skill => skill.currentLevel), 0);
-      
-      results.push({
-        criterion: 'Minimum Skill Level',
-        value: maxSkillLevel,
-        threshold: criteria.minimumSkillLevel,
-        passed: maxSkillLevel >= criteria.minimumSkillLevel
-      });
-    }
-    
-    // Validate required points
-    if (criteria.requiredPoints) {
-      const totalPoints = this.calculateTotalUserPoints(context.userProgress);
-      
-      results.push({
-        criterion: 'Required Points',
-        value: totalPoints,
-        threshold: criteria.requiredPoints,
-        passed: totalPoints >= criteria.requiredPoints
-      });
-    }
-    
-    // Validate code quality threshold
-    if (criteria.codeQualityThreshold && context.aiAnalysis) {
-      results.push({
-        criterion: 'Code Quality Threshold',
-        value: context.aiAnalysis.codeQuality,
-        threshold: criteria.codeQualityThreshold,
-        passed: context.aiAnalysis.codeQuality >= criteria.codeQualityThreshold
-      });
-    }
-    
-    // Validate specific skills
-    if (criteria.specificSkills && context.aiAnalysis) {
-      const hasRequiredSkills = criteria.specificSkills.every(skill =>
-        context.aiAnalysis!.detectedSkills.includes(skill)
-      );
-      
-      results.push({
-        criterion: 'Specific Skills',
-        value: hasRequiredSkills,
-        passed: hasRequiredSkills
-      });
-    }
-    
-    // Validate challenge completion
-    if (criteria.challengeCompletion && context.submission) {
-      results.push({
-        criterion: 'Challenge Completion',
-        value: context.submission.passed,
-        passed: context.submission.passed
-      });
-    }
-    
-    // Validate peer review score
-    if (criteria.peerReviewScore && context.peerReviewScore) {
-      results.push({
-        criterion: 'Peer Review Score',
-        value: context.peerReviewScore,
-        threshold: criteria.peerReviewScore,
-        passed: context.peerReviewScore >= criteria.peerReviewScore
-      });
-    }
-    
-    return results;
+  // The shape rarity, description and award helpers read badge configuration in
+  private static configFor(definition: BadgeDefinition) {
+    return {
+      ...definition.badgeType,
+      criteria: BadgeRuleEngine.toCriteria(definition.rule),
+      rarity: definition.rarity,
+      version: definition.version
+    };
   }
 
   private static calculateProgressToNext(validationResults: ValidationCriteria[]): number {
@@ -0,0 +1,618 @@
+/**
+ * @fileOverview Badge rule definition language
+ *
+ * Badge definitions are data: a badge's rule is a JSON tree of conditions that admins can
+ * edit without a code change. Definitions are read as JSON only; there is no YAML form.
+ * This module holds the pure parts of the language:
+ * - Validating definitions, with the path of every problem
+ * - Evaluating a rule against a user's facts, with a trace of every condition
+ * - Deriving facts (activities over time) from the points ledger
+ * - Summarising rules as the BadgeCriteria stored on awards
+ */
+
+import {
+  BadgeActivityKind,
+  BadgeCriteria,
+  BadgeDefinitionInput,
+  BadgeRule,
+  BadgeRuleTrace,
+  BadgeTrigger,
+  PointsCalculationInput,
+  PointsLedgerEntry,
+  ValidationCriteria
+} from '@/types/gamification';
+import { PointsLedger } from './points-ledger';
+
+export type BadgeRuleErrorCode = 'invalid_json' | 'invalid_definition';
+
+export class BadgeRuleError extends Error {
+  constructor(message: string, public readonly code: BadgeRuleErrorCode, public readonly errors: string[] = []) {
+    super(message);
+    this.name = 'BadgeRuleError';
+  }
+}
+
+export interface BadgeRuleValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+type ActivityAttributes = Record<string, string | number | boolean>;
+
+export interface BadgeActivity {
+  kind: BadgeActivityKind;
+  occurredAt: Date;
+  attributes: ActivityAttributes;
+}
+
+// Everything a rule can be evaluated against for one user
+export interface BadgeFacts {
+  skillLevels: Record<string, number>;
+  totalPoints: number;
+  codeQuality?: number;
+  detectedSkills: string[];
+  activities: BadgeActivity[];
+  challenge?: ActivityAttributes; // the submission being processed, shaped like a recorded challenge activity
+  peerReview: { score?: number; helpfulness?: number; reviews: number };
+  now: Date;
+}
+
+type FieldCheck = (value: unknown) => string | null;
+
+interface ConditionSpec {
+  fields: Record<string, FieldCheck>;
+  required?: string[];
+  atLeastOne?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RULE_DEPTH = 8;
+const MAX_NAME_LENGTH = 80;
+
+const ACTIVITY_KINDS: BadgeActivityKind[] = ['code_submission', 'challenge', 'peer_review', 'community', 'streak', 'ide_activity', 'prize'];
+const TRIGGERS: BadgeTrigger[] = ['code_analysis', 'challenge_completion', 'peer_review'];
+const CATEGORIES = ['skill', 'achievement', 'milestone', 'special', 'community'];
+const RARITIES = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+const INPUT_STATUSES = ['draft', 'active'];
+const DIFFICULTIES = ['beginner', 'intermediate', 'advanced', 'expert'];
+
+// Attributes recorded on each kind of activity, besides its source IDs
+const ACTIVITY_ATTRIBUTES: Record<BadgeActivityKind, string[]> = {
+  code_submission: ['difficulty', 'codeQuality'],
+  challenge: ['difficulty', 'score', 'passed', 'seconds', 'timeRatio'],
+  peer_review: ['reviewQuality', 'helpfulness', 'isFirstReview'],
+  community: ['contributionType', 'impact', 'isAccepted', 'communityVotes'],
+  streak: ['streakType', 'streakDays'],
+  ide_activity: ['activityKind'],
+  prize: []
+};
+const SOURCE_ATTRIBUTES = ['challengeId', 'submissionId', 'analysisId', 'reviewId', 'contributionId', 'competitionId'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const positiveInteger: FieldCheck = value =>
+  Number.isInteger(value) && (value as number) > 0 ? null : 'must be a positive whole number';
+const nonNegative: FieldCheck = value =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? null : 'must be a number of at least 0';
+const between = (min: number, max: number): FieldCheck => value =>
+  typeof value === 'number' && value >= min && value <= max ? null : `must be a number from ${min} to ${max}`;
+const oneOf = (values: readonly string[]): FieldCheck => value =>
+  values.includes(value as string) ? null : `must be one of ${values.join(', ')}`;
+const nonEmptyString: FieldCheck = value =>
+  typeof value === 'string' && value.trim() ? null : 'must be a non-empty string';
+const boolean: FieldCheck = value => (typeof value === 'boolean' ? null : 'must be true or false');
+const stringList: FieldCheck = value =>
+  Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string' && item.trim())
+    ? null
+    : 'must be a non-empty list of strings';
+const attributeMap: FieldCheck = value =>
+  isObject(value) && Object.values(value).every(item => ['string', 'number', 'boolean'].includes(typeof item))
+    ? null
+    : 'must map attribute names to strings, numbers or booleans';
+
+const CONDITION_SPECS: Record<string, ConditionSpec> = {
+  skillLevel: { fields: { skillId: nonEmptyString, min: positiveInteger }, required: ['min'] },
+  points: { fields: { min: nonNegative }, required: ['min'] },
+  codeQuality: { fields: { min: between(0, 100) }, required: ['min'] },
+  detectedSkills: { fields: { includes: stringList }, required: ['includes'] },
+  count: {
+    fields: { activity: oneOf(ACTIVITY_KINDS), min: positiveInteger, withinDays: positiveInteger, where: attributeMap },
+    required: ['activity', 'min']
+  },
+  streak: { fields: { activity: oneOf(ACTIVITY_KINDS), days: positiveInteger }, required: ['activity', 'days'] },
+  challenge: {
+    fields: {
+      passed: boolean,
+      minScore: between(0, 100),
+      maxSeconds: positiveInteger,
+      maxTimeRatio: between(0, 1),
+      difficulty: oneOf(DIFFICULTIES)
+    },
+    atLeastOne: true
+  },
+  competition: { fields: { minEntered: positiveInteger, minPrizes: positiveInteger, competitionId: nonEmptyString }, atLeastOne: true },
+  peerReview: { fields: { minScore: between(0, 5), minHelpfulness: between(0, 5), minReviews: positiveInteger }, atLeastOne: true }
+};
+
+export class BadgeRuleEngine {
+  /**
+   * Reads a definition written as JSON, throwing if it is malformed or invalid
+   */
+  static parse(json: string): BadgeDefinitionInput {
+    let input: unknown;
+    try {
+      input = JSON.parse(json);
+    } catch (error) {
+      throw new BadgeRuleError(`Badge definition is not valid JSON: ${(error as Error).message}`, 'invalid_json');
+    }
+    return this.assertValid(input);
+  }
+
+  static assertValid(input: unknown): BadgeDefinitionInput {
+    const validation = this.validateDefinition(input);
+    if (!validation.isValid) {
+      throw new BadgeRuleError(`Invalid badge definition: ${validation.errors.join('; ')}`, 'invalid_definition', validation.errors);
+    }
+    return input as BadgeDefinitionInput;
+  }
+
+  /**
+   * Validates everything an admin submits for a definition
+   */
+  static validateDefinition(input: unknown): BadgeRuleValidationResult {
+    if (!isObject(input)) {
+      return { isValid: false, errors: ['Definition must be an object'], warnings: [] };
+    }
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const { name, description, badgeType, rarity, status, limitedEdition, evaluateOn, rule, ...unknownFields } = input;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      errors.push('name: required');
+    } else if (name.length > MAX_NAME_LENGTH) {
+      errors.push(`name: must be at most ${MAX_NAME_LENGTH} characters`);
+    } else if (!this.badgeIdFor(name)) {
+      errors.push('name: must contain letters or digits');
+    }
+    if (description !== undefined && typeof description !== 'string') errors.push('description: must be a string');
+
+    if (!isObject(badgeType)) {
+      errors.push('badgeType: required');
+    } else {
+      this.checkField(badgeType.category, 'badgeType.category', oneOf(CATEGORIES), errors);
+      this.checkField(badgeType.subcategory, 'badgeType.subcategory', nonEmptyString, errors);
+      if (badgeType.skillArea !== undefined) this.checkField(badgeType.skillArea, 'badgeType.skillArea', nonEmptyString, errors);
+    }
+
+    this.checkField(rarity, 'rarity', oneOf(RARITIES), errors);
+    if (status !== undefined) this.checkField(status, 'status', oneOf(INPUT_STATUSES), errors);
+    if (limitedEdition !== undefined) this.checkField(limitedEdition, 'limitedEdition', boolean, errors);
+    if (evaluateOn !== undefined && (!Array.isArray(evaluateOn) || evaluateOn.some(trigger => !TRIGGERS.includes(trigger)))) {
+      errors.push(`evaluateOn: must be a list of ${TRIGGERS.join(', ')}`);
+    }
+    Object.keys(unknownFields).forEach(field => errors.push(`${field}: unknown field`));
+
+    if (rule === undefined) {
+      errors.push('rule: required');
+    } else {
+      const ruleValidation = this.validateRule(rule);
+      errors.push(...ruleValidation.errors);
+      warnings.push(...ruleValidation.warnings);
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Validates a rule on its own, e.g. before a dry run
+   */
+  static validateRule(rule: unknown): BadgeRuleValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    this.checkRule(rule, 'rule', errors, warnings, 0);
+    if (isObject(rule) && 'not' in rule) {
+      warnings.push('rule: a top-level "not" is met by users with no activity at all');
+    }
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Evaluates a rule, recording how every condition in it evaluated
+   */
+  static evaluate(rule: BadgeRule, facts: BadgeFacts): BadgeRuleTrace {
+    if ('all' in rule) {
+      const children = rule.all.map(child => this.evaluate(child, facts));
+      return { criterion: 'All of', operator: 'all', passed: children.every(child => child.passed), children };
+    }
+    if ('any' in rule) {
+      const children = rule.any.map(child => this.evaluate(child, facts));
+      return { criterion: 'Any of', operator: 'any', passed: children.some(child => child.passed), children };
+    }
+    if ('not' in rule) {
+      const child = this.evaluate(rule.not, facts);
+      return { criterion: `Not: ${child.criterion}`, operator: 'not', passed: !child.passed, children: [child] };
+    }
+
+    const criterion = this.describe(rule);
+    if ('skillLevel' in rule) {
+      const { skillId, min } = rule.skillLevel;
+      const value = skillId ? this.skillLevelOf(facts, skillId) : Math.max(0, ...Object.values(facts.skillLevels));
+      return this.threshold(criterion, value, min);
+    }
+    if ('points' in rule) return this.threshold(criterion, facts.totalPoints, rule.points.min);
+    if ('codeQuality' in rule) return this.threshold(criterion, facts.codeQuality, rule.codeQuality.min);
+    if ('detectedSkills' in rule) {
+      const detected = facts.detectedSkills.map(skill => skill.toLowerCase());
+      const found = rule.detectedSkills.includes.filter(skill => detected.includes(skill.toLowerCase()));
+      return {
+        criterion,
+        passed: found.length === rule.detectedSkills.includes.length,
+        value: found.length,
+        threshold: rule.detectedSkills.includes.length
+      };
+    }
+    if ('count' in rule) return this.threshold(criterion, this.countActivities(rule.count, facts), rule.count.min);
+    if ('streak' in rule) {
+      const days = facts.activities.filter(activity => activity.kind === rule.streak.activity).map(activity => activity.occurredAt);
+      return this.threshold(criterion, this.longestStreak(days), rule.streak.days);
+    }
+    if ('challenge' in rule) {
+      const attempts = [
+        ...(facts.challenge ? [facts.challenge] : []),
+        ...facts.activities.filter(activity => activity.kind === 'challenge').map(activity => activity.attributes)
+      ];
+      const matching = attempts.filter(attempt => this.matchesChallenge(attempt, rule.challenge)).length;
+      return { criterion, passed: matching > 0, value: matching };
+    }
+    if ('competition' in rule) {
+      const { minEntered, minPrizes, competitionId } = rule.competition;
+      const relevant = facts.activities.filter(activity =>
+        typeof activity.attributes.competitionId === 'string' &&
+        (!competitionId || activity.attributes.competitionId === competitionId)
+      );
+      const entered = new Set(relevant.map(activity => activity.attributes.competitionId)).size;
+      const prizes = relevant.filter(activity => activity.kind === 'prize').length;
+      const children: BadgeRuleTrace[] = [];
+      if (minEntered !== undefined || minPrizes === undefined) {
+        const required = minEntered ?? 1;
+        children.push(this.threshold(this.describe({ competition: { minEntered: required, competitionId } }), entered, required));
+      }
+      if (minPrizes !== undefined) {
+        children.push(this.threshold(this.describe({ competition: { minPrizes, competitionId } }), prizes, minPrizes));
+      }
+      return this.conjunction(criterion, children);
+    }
+
+    const { minScore, minHelpfulness, minReviews } = rule.peerReview;
+    const children: BadgeRuleTrace[] = [];
+    if (minScore !== undefined) {
+      children.push(this.threshold(this.describe({ peerReview: { minScore } }), facts.peerReview.score, minScore));
+    }
+    if (minHelpfulness !== undefined) {
+      children.push(this.threshold(this.describe({ peerReview: { minHelpfulness } }), facts.peerReview.helpfulness, minHelpfulness));
+    }
+    if (minReviews !== undefined) {
+      children.push(this.threshold(this.describe({ peerReview: { minReviews } }), facts.peerReview.reviews, minReviews));
+    }
+    return this.conjunction(criterion, children);
+  }
+
+  /**
+   * Flattens a trace into the criteria that decided it; for a passing "any" only the
+   * alternatives that passed are kept
+   */
+  static toValidationCriteria(trace: BadgeRuleTrace): ValidationCriteria[] {
+    if (!trace.children || trace.operator === 'not') {
+      return [{
+        criterion: trace.criterion,
+        value: trace.value ?? trace.passed,
+        ...(trace.threshold !== undefined && { threshold: trace.threshold }),
+        passed: trace.passed
+      }];
+    }
+    const children = trace.operator === 'any' && trace.passed
+      ? trace.children.filter(child => child.passed)
+      : trace.children;
+    return children.flatMap(child => this.toValidationCriteria(child));
+  }
+
+  /**
+   * Summarises a rule as the BadgeCriteria recorded on awards. Only conditions that must
+   * all hold are mapped to fields; anything else is described in specialConditions.
+   */
+  static toCriteria(rule: BadgeRule): BadgeCriteria {
+    const criteria: BadgeCriteria = {};
+    const specialConditions: string[] = [];
+
+    const collect = (node: BadgeRule) => {
+      if ('all' in node) {
+        node.all.forEach(collect);
+      } else if ('skillLevel' in node) {
+        criteria.minimumSkillLevel = Math.max(criteria.minimumSkillLevel ?? 0, node.skillLevel.min);
+      } else if ('points' in node) {
+        criteria.requiredPoints = Math.max(criteria.requiredPoints ?? 0, node.points.min);
+      } else if ('codeQuality' in node) {
+        criteria.codeQualityThreshold = Math.max(criteria.codeQualityThreshold ?? 0, node.codeQuality.min);
+      } else if ('detectedSkills' in node) {
+        criteria.specificSkills = [...(criteria.specificSkills ?? []), ...node.detectedSkills.includes];
+      } else if ('streak' in node) {
+        criteria.timeConstraints = { type: 'consecutive_days', duration: node.streak.days };
+      } else if ('challenge' in node) {
+        const { passed, maxSeconds, ...rest } = node.challenge;
+        if (passed) criteria.challengeCompletion = true;
+        if (maxSeconds !== undefined) criteria.timeConstraints = { type: 'within_timeframe', duration: maxSeconds / 60 };
+        if (Object.keys(rest).length > 0) specialConditions.push(this.describe(node));
+      } else if ('peerReview' in node && Object.keys(node.peerReview).length === 1 && node.peerReview.minScore !== undefined) {
+        criteria.peerReviewScore = node.peerReview.minScore;
+      } else {
+        specialConditions.push(this.describe(node));
+      }
+    };
+    collect(rule);
+
+    return { ...criteria, ...(specialConditions.length > 0 && { specialConditions }) };
+  }
+
+  /**
+   * A readable description of a rule
+   */
+  static describe(rule: BadgeRule): string {
+    const nested = (child: BadgeRule) =>
+      'all' in child || 'any' in child ? `(${this.describe(child)})` : this.describe(child);
+
+    if ('all' in rule) return rule.all.map(nested).join(' and ');
+    if ('any' in rule) return rule.any.map(nested).join(' or ');
+    if ('not' in rule) return `not ${nested(rule.not)}`;
+    if ('skillLevel' in rule) {
+      const { skillId, min } = rule.skillLevel;
+      return `${skillId ? `${skillId} skill` : 'Skill'} level of at least ${min}`;
+    }
+    if ('points' in rule) return `At least ${rule.points.min} points`;
+    if ('codeQuality' in rule) return `Code quality of at least ${rule.codeQuality.min}`;
+    if ('detectedSkills' in rule) return `Demonstrates ${rule.detectedSkills.includes.join(', ')}`;
+    if ('count' in rule) {
+      const { activity, min, withinDays, where } = rule.count;
+      const filters = Object.entries(where ?? {}).map(([attribute, value]) => `${attribute} = ${value}`);
+      return `At least ${min} ${this.activityLabel(activity)} ${min === 1 ? 'activity' : 'activities'}` +
+        (filters.length > 0 ? ` with ${filters.join(', ')}` : '') +
+        (withinDays ? ` in the last ${withinDays} days` : '');
+    }
+    if ('streak' in rule) return `${rule.streak.days}-day ${this.activityLabel(rule.streak.activity)} streak`;
+    if ('challenge' in rule) {
+      const { passed, minScore, maxSeconds, maxTimeRatio, difficulty } = rule.challenge;
+      const outcome = passed === true ? 'Passed' : passed === false ? 'Failed' : 'Attempted';
+      return `${outcome} ${difficulty ? `${difficulty} ` : ''}challenge` +
+        (minScore !== undefined ? ` scoring at least ${minScore}` : '') +
+        (maxSeconds !== undefined ? ` within ${maxSeconds} seconds` : '') +
+        (maxTimeRatio !== undefined ? ` within ${Math.round(maxTimeRatio * 100)}% of the time limit` : '');
+    }
+    if ('competition' in rule) {
+      const { minEntered, minPrizes, competitionId } = rule.competition;
+      const entered = minEntered ?? 1;
+      return [
+        ...(minEntered !== undefined || minPrizes === undefined
+          ? [competitionId ? `Entered ${competitionId}` : `Entered at least ${this.plural(entered, 'competition')}`]
+          : []),
+        ...(minPrizes !== undefined
+          ? [`Won at least ${this.plural(minPrizes, 'competition prize')}${competitionId ? ` in ${competitionId}` : ''}`]
+          : [])
+      ].join(' and ');
+    }
+    const { minScore, minHelpfulness, minReviews } = rule.peerReview;
+    return [
+      ...(minScore !== undefined ? [`Peer review score of at least ${minScore}`] : []),
+      ...(minHelpfulness !== undefined ? [`Review helpfulness of at least ${minHelpfulness}`] : []),
+      ...(minReviews !== undefined ? [`At least ${this.plural(minReviews, 'peer review')}`] : [])
+    ].join(' and ');
+  }
+
+  /**
+   * Whether evaluating the rule needs the user's activity history, i.e. the points ledger
+   */
+  static readsHistory(rule: BadgeRule): boolean {
+    if ('all' in rule) return rule.all.some(child => this.readsHistory(child));
+    if ('any' in rule) return rule.any.some(child => this.readsHistory(child));
+    if ('not' in rule) return this.readsHistory(rule.not);
+    return 'count' in rule || 'streak' in rule || 'challenge' in rule || 'competition' in rule || 'peerReview' in rule;
+  }
+
+  /**
+   * The activities a user's ledger records, leaving out reversed entries and the
+   * reversals and adjustments themselves
+   */
+  static activitiesFromLedger(ledger: PointsLedgerEntry[]): BadgeActivity[] {
+    return ledger
+      .filter(entry => entry.type !== 'reversal' && entry.type !== 'adjustment' && !PointsLedger.isReversed(entry, ledger))
+      .flatMap(entry => {
+        const kind: BadgeActivityKind | undefined = entry.type === 'prize' ? 'prize' : entry.input?.kind;
+        if (!kind) return [];
+        return [{
+          kind,
+          occurredAt: entry.createdAt,
+          attributes: {
+            ...entry.sourceIds,
+            ...(entry.competitionId && { competitionId: entry.competitionId }),
+            ...(entry.input && this.inputAttributes(entry.input))
+          }
+        }];
+      });
+  }
+
+  /**
+   * The ID a definition is stored under, derived from its name
+   */
+  static badgeIdFor(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+
+  private static checkRule(node: unknown, path: string, errors: string[], warnings: string[], depth: number): void {
+    if (depth > MAX_RULE_DEPTH) {
+      errors.push(`${path}: rules may nest at most ${MAX_RULE_DEPTH} levels deep`);
+      return;
+    }
+    if (!isObject(node)) {
+      errors.push(`${path}: must be a condition object`);
+      return;
+    }
+
+    const keys = Object.keys(node);
+    if (keys.length !== 1) {
+      errors.push(`${path}: must have exactly one condition, found ${keys.length === 0 ? 'none' : keys.join(', ')}`);
+      return;
+    }
+
+    const [kind] = keys;
+    const body = node[kind];
+    const at = `${path}.${kind}`;
+    if (kind === 'all' || kind === 'any') {
+      if (!Array.isArray(body) || body.length === 0) {
+        errors.push(`${at}: must be a non-empty list of conditions`);
+        return;
+      }
+      if (body.length === 1) warnings.push(`${at}: has a single condition and can be replaced by it`);
+      body.forEach((child, index) => this.checkRule(child, `${at}[${index}]`, errors, warnings, depth + 1));
+      return;
+    }
+    if (kind === 'not') {
+      this.checkRule(body, at, errors, warnings, depth + 1);
+      return;
+    }
+
+    const spec = CONDITION_SPECS[kind];
+    if (!spec) {
+      errors.push(`${path}: unknown condition "${kind}"`);
+      return;
+    }
+    if (!isObject(body)) {
+      errors.push(`${at}: must be an object`);
+      return;
+    }
+    for (const field of spec.required ?? []) {
+      if (body[field] === undefined) errors.push(`${at}.${field}: required`);
+    }
+    for (const [field, value] of Object.entries(body)) {
+      const check = spec.fields[field];
+      if (!check) {
+        errors.push(`${at}.${field}: unknown field`);
+      } else {
+        this.checkField(value, `${at}.${field}`, check, errors);
+      }
+    }
+    if (spec.atLeastOne && Object.keys(body).length === 0) {
+      errors.push(`${at}: needs at least one of ${Object.keys(spec.fields).join(', ')}`);
+    }
+
+    if (kind === 'count' && isObject(body.where) && ACTIVITY_KINDS.includes(body.activity as BadgeActivityKind)) {
+      const recorded = [...ACTIVITY_ATTRIBUTES[body.activity as BadgeActivityKind], ...SOURCE_ATTRIBUTES];
+      Object.keys(body.where)
+        .filter(attribute => !recorded.includes(attribute))
+        .forEach(attribute => warnings.push(`${at}.where.${attribute}: not recorded on ${body.activity} activities, so never matches`));
+    }
+    if (kind === 'competition' && body.competitionId !== undefined && typeof body.minEntered === 'number' && body.minEntered > 1) {
+      warnings.push(`${at}.minEntered: a single competition can only be entered once, so this never matches`);
+    }
+    if (kind === 'streak' && body.activity === 'prize') {
+      warnings.push(`${at}.activity: prizes are rarely won on consecutive days`);
+    }
+  }
+
+  private static checkField(value: unknown, path: string, check: FieldCheck, errors: string[]): void {
+    const problem = check(value);
+    if (problem) errors.push(`${path}: ${problem}`);
+  }
+
+  private static threshold(criterion: string, value: number | undefined, threshold: number): BadgeRuleTrace {
+    return {
+      criterion,
+      passed: value !== undefined && value >= threshold,
+      ...(value !== undefined && { value }),
+      threshold
+    };
+  }
+
+  private static conjunction(criterion: string, children: BadgeRuleTrace[]): BadgeRuleTrace {
+    if (children.length === 1) return children[0];
+    return { criterion, operator: 'all', passed: children.every(child => child.passed), children };
+  }
+
+  private static skillLevelOf(facts: BadgeFacts, skillId: string): number {
+    const match = Object.entries(facts.skillLevels).find(([id]) => id.toLowerCase() === skillId.toLowerCase());
+    return match ? match[1] : 0;
+  }
+
+  private static countActivities(condition: Extract<BadgeRule, { count: unknown }>['count'], facts: BadgeFacts): number {
+    const since = condition.withinDays ? facts.now.getTime() - condition.withinDays * DAY_MS : -Infinity;
+    return facts.activities.filter(activity =>
+      activity.kind === condition.activity &&
+      activity.occurredAt.getTime() >= since &&
+      activity.occurredAt.getTime() <= facts.now.getTime() &&
+      Object.entries(condition.where ?? {}).every(([attribute, value]) => activity.attributes[attribute] === value)
+    ).length;
+  }
+
+  // Longest run of consecutive UTC days with at least one of the given times
+  private static longestStreak(times: Date[]): number {
+    const days = Array.from(new Set(times.map(time => Math.floor(time.getTime() / DAY_MS)))).sort((a, b) => a - b);
+    let longest = 0;
+    let current = 0;
+    days.forEach((day, index) => {
+      current = index > 0 && day === days[index - 1] + 1 ? current + 1 : 1;
+      longest = Math.max(longest, current);
+    });
+    return longest;
+  }
+
+  private static matchesChallenge(
+    attempt: ActivityAttributes,
+    condition: Extract<BadgeRule, { challenge: unknown }>['challenge']
+  ): boolean {
+    const atMost = (value: unknown, limit: number) => typeof value === 'number' && value <= limit;
+    return (condition.passed === undefined || attempt.passed === condition.passed) &&
+      (condition.minScore === undefined || (typeof attempt.score === 'number' && attempt.score >= condition.minScore)) &&
+      (condition.maxSeconds === undefined || atMost(attempt.seconds, condition.maxSeconds)) &&
+      (condition.maxTimeRatio === undefined || atMost(attempt.timeRatio, condition.maxTimeRatio)) &&
+      (condition.difficulty === undefined || attempt.difficulty === condition.difficulty);
+  }
+
+  private static inputAttributes(input: PointsCalculationInput): ActivityAttributes {
+    switch (input.kind) {
+      case 'code_submission':
+        return { difficulty: input.difficulty, codeQuality: input.analysis.codeQuality };
+      case 'challenge': {
+        const { completionTime } = input;
+        const { timeLimit } = input.challenge;
+        return {
+          difficulty: input.challenge.difficulty,
+          score: input.submission.totalScore,
+          ...(input.submission.passed !== undefined && { passed: input.submission.passed }),
+          ...(completionTime !== undefined && { seconds: completionTime }),
+          ...(completionTime !== undefined && timeLimit && { timeRatio: completionTime / (timeLimit * 60) })
+        };
+      }
+      case 'peer_review':
+        return { reviewQuality: input.reviewQuality, helpfulness: input.helpfulness, isFirstReview: input.isFirstReview };
+      case 'community':
+        return {
+          contributionType: input.contributionType,
+          impact: input.impact,
+          isAccepted: input.isAccepted,
+          communityVotes: input.communityVotes
+        };
+      case 'streak':
+        return { streakType: input.streakType, streakDays: input.streakDays };
+      case 'ide_activity':
+        return { activityKind: input.activityKind };
+    }
+  }
+
+  private static activityLabel(activity: BadgeActivityKind): string {
+    return activity.replace(/_/g, ' ');
+  }
+
+  private static plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+  }
+}
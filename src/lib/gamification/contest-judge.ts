@@ -0,0 +1,118 @@
+/**
+ * @fileOverview Judging for judged competitions
+ *
+ * Runs queued contest submissions through the challenge evaluator, which executes submitted
+ * code in child processes. This module is for the server only: it is driven by the contest
+ * judging cron route and by the submission action, and must not be imported from client
+ * components.
+ */
+
+import { Challenge } from '@/types/analytics';
+import { ContestScoreboard } from '@/types/gamification';
+import { ContestService } from '@/lib/firebase/contests';
+import { ChallengeService } from '@/lib/firebase/analytics';
+import { ChallengeEvaluator, EvaluationOptions } from '@/lib/challenges/challenge-evaluator';
+import { ContestScoring } from './contest-scoring';
+import { LeaderboardService } from './leaderboard-service';
+
+export interface JudgingRunResult {
+  judged: number;
+  failed: number;
+  scoreboard?: ContestScoreboard; // the public scoreboard, republished when anything was judged
+}
+
+export interface PendingJudgingResult extends JudgingRunResult {
+  competitionId: string;
+  requeued: number; // submissions whose judge stopped before recording a verdict
+  error?: string;
+}
+
+export class ContestJudge {
+  private static readonly BATCH_SIZE = 20; // Submissions judged per queue run
+  private static readonly STALE_JUDGING_MS = 10 * 60 * 1000; // A judge taking longer is assumed to have stopped
+
+  /**
+   * Judges queued submissions in order with the challenge evaluator, then republishes the
+   * scoreboard. A submission that cannot be judged is marked failed rather than blocking
+   * the queue.
+   */
+  static async processQueue(
+    competitionId: string,
+    options: { maxSubmissions?: number; evaluation?: EvaluationOptions } = {}
+  ): Promise<JudgingRunResult> {
+    try {
+      const { maxSubmissions = this.BATCH_SIZE, evaluation } = options;
+      const challenges = new Map<string, Challenge | null>();
+      let judged = 0;
+      let failed = 0;
+
+      while (judged + failed < maxSubmissions) {
+        const submission = await ContestService.claimNext(competitionId);
+        if (!submission) break;
+
+        try {
+          if (!challenges.has(submission.challengeId)) {
+            challenges.set(submission.challengeId, await ChallengeService.getChallenge(submission.challengeId));
+          }
+          const challenge = challenges.get(submission.challengeId);
+          if (!challenge) {
+            throw new Error(`Challenge ${submission.challengeId} not found`);
+          }
+
+          const summary = await ChallengeEvaluator.evaluateSubmission(
+            submission.code,
+            submission.language,
+            challenge.testCases,
+            challenge.evaluationCriteria,
+            evaluation
+          );
+          await ContestService.recordVerdict(submission.submissionId, ContestScoring.verdictFrom(summary));
+          judged += 1;
+        } catch (error) {
+          console.error('Error judging submission:', error);
+          await ContestService.recordFailure(
+            submission.submissionId,
+            error instanceof Error ? error.message : 'Judging failed'
+          );
+          failed += 1;
+        }
+      }
+
+      if (judged === 0) {
+        return { judged, failed };
+      }
+
+      return { judged, failed, scoreboard: await LeaderboardService.refreshContestScoreboard(competitionId) };
+    } catch (error) {
+      console.error('Error processing judging queue:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Judges every competition with work waiting, first putting back submissions whose judge
+   * stopped. One competition failing does not stop the others.
+   */
+  static async processPending(now: Date = new Date()): Promise<PendingJudgingResult[]> {
+    const competitionIds = await ContestService.getCompetitionsAwaitingJudging();
+    const results: PendingJudgingResult[] = [];
+
+    for (const competitionId of competitionIds) {
+      let requeued = 0;
+      try {
+        requeued = await ContestService.requeueStale(competitionId, new Date(now.getTime() - this.STALE_JUDGING_MS));
+        results.push({ competitionId, requeued, ...(await this.processQueue(competitionId)) });
+      } catch (error) {
+        results.push({
+          competitionId,
+          requeued,
+          judged: 0,
+          failed: 0,
+          error: error instanceof Error ? error.message : 'Judging failed'
+        });
+      }
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * @fileOverview Contest scoring, scoreboard freeze and reveal
+ *
+ * Competitions with challenges are scored from judged submissions rather than reported
+ * scores. This module holds the pure parts of that contest engine:
+ * - Scoring configuration read from the competition's scoring rules
+ * - Verdicts from challenge evaluation summaries
+ * - Per-challenge points, attempts and penalty time, and tie-aware scoreboard ranks
+ * - The frozen public view in the final minutes and the order of the reveal at the end
+ */
+
+import {
+  Competition,
+  CompetitionRule,
+  ContestProblemResult,
+  ContestRevealStep,
+  ContestScoreboard,
+  ContestScoreboardRow,
+  ContestSubmission,
+  ContestVerdict
+} from '@/types/gamification';
+import type { EvaluationSummary } from '@/lib/challenges/challenge-evaluator';
+
+export interface ContestScoringConfig {
+  policy: 'best' | 'last'; // which judged attempt counts for a challenge
+  minutesPerRejection: number; // penalty time for each rejected attempt before the counted one
+  partialCredit: boolean; // score out of 100, or all-or-nothing on acceptance
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export class ContestScoring {
+  static readonly DEFAULT_CONFIG: ContestScoringConfig = {
+    policy: 'best',
+    minutesPerRejection: 0,
+    partialCredit: true
+  };
+  static readonly FULL_MARKS = 100;
+
+  static isJudged(competition: Pick<Competition, 'challengeIds'>): boolean {
+    return (competition.challengeIds?.length ?? 0) > 0;
+  }
+
+  /**
+   * Scoring configuration from the competition's rules; a later rule of the same type wins
+   */
+  static configFrom(rules: CompetitionRule[]): ContestScoringConfig {
+    return rules.reduce<ContestScoringConfig>((config, rule) => {
+      const scoring = rule.scoring;
+      switch (scoring?.type) {
+        case 'penalty_time':
+          return { ...config, minutesPerRejection: Math.max(0, scoring.minutesPerRejection) };
+        case 'submission_policy':
+          return { ...config, policy: scoring.policy };
+        case 'partial_credit':
+          return { ...config, partialCredit: scoring.enabled };
+        default:
+          return config;
+      }
+    }, this.DEFAULT_CONFIG);
+  }
+
+  static verdictFrom(summary: EvaluationSummary, judgedAt: Date = new Date()): ContestVerdict {
+    return {
+      accepted: summary.passed,
+      score: Math.max(0, Math.min(this.FULL_MARKS, Math.round(summary.totalScore))),
+      testsPassed: summary.testCaseResults.filter(result => result.passed).length,
+      testsTotal: summary.testCaseResults.length,
+      feedback: summary.feedback,
+      judgedAt
+    };
+  }
+
+  /**
+   * When the public scoreboard stops updating, or null when the competition has no freeze
+   */
+  static freezeStartsAt(competition: Pick<Competition, 'endDate' | 'scoreboardFreezeMinutes'>): Date | null {
+    const minutes = competition.scoreboardFreezeMinutes ?? 0;
+    return minutes > 0 ? new Date(competition.endDate.getTime() - minutes * MINUTE_MS) : null;
+  }
+
+  static isFrozen(
+    competition: Pick<Competition, 'endDate' | 'scoreboardFreezeMinutes' | 'status'>,
+    now: Date = new Date()
+  ): boolean {
+    const freezeStart = this.freezeStartsAt(competition);
+    return freezeStart !== null && now >= freezeStart && competition.status !== 'completed';
+  }
+
+  /**
+   * The scoreboard viewers see: during the freeze, submissions made since it began show only
+   * as pending attempts
+   */
+  static publicScoreboard(
+    competition: Pick<Competition, 'competitionId' | 'startDate' | 'endDate' | 'scoreboardFreezeMinutes' | 'status' | 'rules' | 'participants' | 'challengeIds'>,
+    submissions: ContestSubmission[],
+    now: Date = new Date()
+  ): ContestScoreboard {
+    const hideFrom = this.isFrozen(competition, now) ? this.freezeStartsAt(competition)! : undefined;
+    return this.build(competition, submissions, { hideFrom, now });
+  }
+
+  /**
+   * Scores every participant on every challenge. Rows are ordered by points, then penalty
+   * minutes, then whoever reached their score first; rows level on all three share a rank.
+   */
+  static build(
+    competition: Pick<Competition, 'competitionId' | 'startDate' | 'rules' | 'participants' | 'challengeIds'>,
+    submissions: ContestSubmission[],
+    options: { hideFrom?: Date; now?: Date } = {}
+  ): ContestScoreboard {
+    const { hideFrom, now = new Date() } = options;
+    const config = this.configFrom(competition.rules);
+    const challengeIds = competition.challengeIds?.length
+      ? competition.challengeIds
+      : Array.from(new Set(submissions.map(submission => submission.challengeId)));
+
+    const rows = competition.participants.map(participant => {
+      const own = submissions
+        .filter(submission => submission.userId === participant.userId)
+        .sort((a, b) => a.submittedAt.getTime() - b.submittedAt.getTime());
+      const scored = challengeIds.map(challengeId => this.scoreChallenge(
+        challengeId,
+        own.filter(submission => submission.challengeId === challengeId),
+        competition.startDate,
+        config,
+        hideFrom
+      ));
+      const improvements = scored
+        .map(({ scoredAt }) => scoredAt)
+        .filter((date): date is Date => date !== undefined);
+
+      const row: ContestScoreboardRow = {
+        userId: participant.userId,
+        username: participant.username,
+        rank: 0,
+        totalPoints: scored.reduce((sum, { problem }) => sum + problem.points, 0),
+        penaltyMinutes: scored.reduce((sum, { problem }) => sum + problem.penaltyMinutes, 0),
+        solvedCount: scored.filter(({ problem }) => problem.solved).length,
+        ...(improvements.length > 0 && {
+          lastImprovementAt: new Date(Math.max(...improvements.map(date => date.getTime())))
+        }),
+        problems: scored.map(({ problem }) => problem)
+      };
+      return row;
+    });
+
+    rows.sort((a, b) =>
+      b.totalPoints - a.totalPoints ||
+      a.penaltyMinutes - b.penaltyMinutes ||
+      this.improvementTime(a) - this.improvementTime(b));
+    rows.forEach((row, index) => {
+      const previous = rows[index - 1];
+      row.rank = previous && this.isLevel(previous, row) ? previous.rank : index + 1;
+    });
+
+    return {
+      competitionId: competition.competitionId,
+      rows,
+      frozen: hideFrom !== undefined,
+      ...(hideFrom && { frozenAt: hideFrom }),
+      updatedAt: now
+    };
+  }
+
+  /**
+   * The order to reveal results hidden by the freeze: from the bottom of the frozen
+   * scoreboard up, for every participant with hidden attempts
+   */
+  static revealSequence(frozen: ContestScoreboard, final: ContestScoreboard): ContestRevealStep[] {
+    const finalRows = new Map(final.rows.map(row => [row.userId, row]));
+    return [...frozen.rows]
+      .reverse()
+      .filter(row => row.problems.some(problem => problem.pendingAttempts > 0))
+      .map(row => {
+        const finalRow = finalRows.get(row.userId) ?? row;
+        return {
+          userId: row.userId,
+          username: row.username,
+          frozenRank: row.rank,
+          finalRank: finalRow.rank,
+          pointsGained: finalRow.totalPoints - row.totalPoints
+        };
+      });
+  }
+
+  private static scoreChallenge(
+    challengeId: string,
+    attempts: ContestSubmission[],
+    startDate: Date,
+    config: ContestScoringConfig,
+    hideFrom?: Date
+  ): { problem: ContestProblemResult; scoredAt?: Date } {
+    const visible = attempts.filter(attempt =>
+      attempt.status === 'judged' && attempt.verdict && (!hideFrom || attempt.submittedAt < hideFrom));
+    const pendingAttempts = attempts.filter(attempt =>
+      attempt.status === 'queued' || attempt.status === 'judging' ||
+      (attempt.status === 'judged' && hideFrom !== undefined && attempt.submittedAt >= hideFrom)).length;
+
+    const points = visible.map(attempt => this.pointsFor(attempt.verdict!, config));
+    const best = Math.max(0, ...points);
+    const countedIndex = config.policy === 'last' ? visible.length - 1 : points.indexOf(best);
+    const counted = visible[countedIndex];
+
+    if (!counted || points[countedIndex] === 0) {
+      return {
+        problem: { challengeId, attempts: visible.length, pendingAttempts, points: 0, solved: false, penaltyMinutes: 0 }
+      };
+    }
+
+    const minute = Math.max(0, Math.floor((counted.submittedAt.getTime() - startDate.getTime()) / MINUTE_MS));
+    const rejections = visible.slice(0, countedIndex).filter(attempt => !attempt.verdict!.accepted).length;
+
+    return {
+      problem: {
+        challengeId,
+        attempts: visible.length,
+        pendingAttempts,
+        points: points[countedIndex],
+        solved: counted.verdict!.accepted,
+        solvedAtMinute: minute,
+        penaltyMinutes: minute + rejections * config.minutesPerRejection
+      },
+      scoredAt: counted.submittedAt
+    };
+  }
+
+  private static pointsFor(verdict: ContestVerdict, config: ContestScoringConfig): number {
+    if (config.partialCredit) return verdict.score;
+    return verdict.accepted ? this.FULL_MARKS : 0;
+  }
+
+  private static improvementTime(row: ContestScoreboardRow): number {
+    return row.lastImprovementAt?.getTime() ?? Number.MAX_SAFE_INTEGER;
+  }
+
+  private static isLevel(a: ContestScoreboardRow, b: ContestScoreboardRow): boolean {
+    return a.totalPoints === b.totalPoints &&
+      a.penaltyMinutes === b.penaltyMinutes &&
+      this.improvementTime(a) === this.improvementTime(b);
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * @fileOverview Built-in badge definitions
+ *
+ * The badges the platform ships with, written in the badge rule language. They apply until
+ * an admin stores a definition with the same ID, which then takes precedence.
+ */
+
+import { BadgeDefinition, BadgeDefinitionInput } from '@/types/gamification';
+import { BadgeRuleEngine } from './badge-rules';
+
+const SHIPPED_AT = new Date('2024-01-01T00:00:00Z');
+
+const define = (input: BadgeDefinitionInput): BadgeDefinition => ({
+  ...input,
+  badgeId: BadgeRuleEngine.badgeIdFor(input.name),
+  version: 1,
+  status: 'active',
+  createdAt: SHIPPED_AT,
+  updatedAt: SHIPPED_AT,
+  updatedBy: 'system'
+});
+
+export const DEFAULT_BADGE_DEFINITIONS: BadgeDefinition[] = [
+  // JavaScript badges
+  define({
+    name: 'JavaScript Fundamentals',
+    badgeType: { category: 'skill', subcategory: 'javascript' },
+    rarity: 'common',
+    evaluateOn: ['code_analysis'],
+    rule: { all: [{ skillLevel: { min: 1 } }, { codeQuality: { min: 60 } }] }
+  }),
+  define({
+    name: 'JavaScript Advanced',
+    badgeType: { category: 'skill', subcategory: 'javascript' },
+    rarity: 'rare',
+    rule: { all: [{ skillLevel: { min: 3 } }, { codeQuality: { min: 80 } }] }
+  }),
+  define({
+    name: 'JavaScript Master',
+    badgeType: { category: 'skill', subcategory: 'javascript' },
+    rarity: 'epic',
+    rule: { all: [{ skillLevel: { min: 4 } }, { codeQuality: { min: 90 } }] }
+  }),
+
+  // React badges
+  define({
+    name: 'React Hooks Expert',
+    badgeType: { category: 'skill', subcategory: 'react' },
+    rarity: 'rare',
+    evaluateOn: ['code_analysis'],
+    rule: { all: [{ detectedSkills: { includes: ['hooks'] } }, { skillLevel: { min: 3 } }, { codeQuality: { min: 85 } }] }
+  }),
+  define({
+    name: 'React Performance Optimizer',
+    badgeType: { category: 'skill', subcategory: 'react' },
+    rarity: 'epic',
+    rule: { all: [{ detectedSkills: { includes: ['performance', 'optimization'] } }, { skillLevel: { min: 4 } }] }
+  }),
+
+  // TypeScript badges
+  define({
+    name: 'TypeScript Type Safety',
+    badgeType: { category: 'skill', subcategory: 'typescript' },
+    rarity: 'uncommon',
+    evaluateOn: ['code_analysis'],
+    rule: { all: [{ detectedSkills: { includes: ['interfaces', 'type-guards'] } }, { skillLevel: { min: 2 } }] }
+  }),
+  define({
+    name: 'TypeScript Generics Master',
+    badgeType: { category: 'skill', subcategory: 'typescript' },
+    rarity: 'legendary',
+    rule: { all: [{ detectedSkills: { includes: ['generics', 'advanced-types'] } }, { skillLevel: { min: 4 } }] }
+  }),
+
+  // Algorithm badges
+  define({
+    name: 'Algorithm Efficiency',
+    badgeType: { category: 'skill', subcategory: 'algorithms' },
+    rarity: 'rare',
+    rule: { all: [{ codeQuality: { min: 85 } }, { detectedSkills: { includes: ['optimization'] } }] }
+  }),
+  define({
+    name: 'Data Structure Master',
+    badgeType: { category: 'skill', subcategory: 'algorithms' },
+    rarity: 'epic',
+    rule: { all: [{ skillLevel: { min: 4 } }, { detectedSkills: { includes: ['data-structures'] } }] }
+  }),
+
+  // Challenge completion badges
+  define({
+    name: 'Challenge Conqueror',
+    badgeType: { category: 'achievement', subcategory: 'challenges' },
+    rarity: 'uncommon',
+    evaluateOn: ['challenge_completion'],
+    rule: { all: [{ challenge: { passed: true } }, { points: { min: 500 } }] }
+  }),
+  define({
+    name: 'Speed Demon',
+    badgeType: { category: 'achievement', subcategory: 'challenges' },
+    rarity: 'rare',
+    evaluateOn: ['challenge_completion'],
+    rule: { challenge: { passed: true, maxSeconds: 300 } }
+  }),
+  define({
+    name: 'Perfect Score',
+    badgeType: { category: 'achievement', subcategory: 'challenges' },
+    rarity: 'epic',
+    evaluateOn: ['challenge_completion'],
+    rule: { challenge: { passed: true, minScore: 100 } }
+  }),
+  define({
+    name: 'Weekly Warrior',
+    badgeType: { category: 'achievement', subcategory: 'consistency' },
+    rarity: 'rare',
+    rule: { streak: { activity: 'code_submission', days: 7 } }
+  }),
+
+  // Competition badges
+  define({
+    name: 'Competitor',
+    badgeType: { category: 'achievement', subcategory: 'competitions' },
+    rarity: 'uncommon',
+    rule: { competition: { minEntered: 3 } }
+  }),
+  define({
+    name: 'Podium Finisher',
+    badgeType: { category: 'achievement', subcategory: 'competitions' },
+    rarity: 'epic',
+    rule: { competition: { minPrizes: 1 } }
+  }),
+
+  // Milestone badges
+  define({
+    name: 'First Steps',
+    badgeType: { category: 'milestone', subcategory: 'progression' },
+    rarity: 'common',
+    rule: { skillLevel: { min: 1 } }
+  }),
+  define({
+    name: 'Rising Star',
+    badgeType: { category: 'milestone', subcategory: 'progression' },
+    rarity: 'uncommon',
+    rule: { points: { min: 1000 } }
+  }),
+  define({
+    name: 'Code Virtuoso',
+    badgeType: { category: 'milestone', subcategory: 'progression' },
+    rarity: 'legendary',
+    rule: { all: [{ points: { min: 10000 } }, { skillLevel: { min: 4 } }] }
+  }),
+
+  // Community badges
+  define({
+    name: 'Helpful Reviewer',
+    badgeType: { category: 'community', subcategory: 'peer_review' },
+    rarity: 'uncommon',
+    evaluateOn: ['peer_review'],
+    rule: { peerReview: { minScore: 4 } }
+  }),
+  define({
+    name: 'Prolific Reviewer',
+    badgeType: { category: 'community', subcategory: 'peer_review' },
+    rarity: 'rare',
+    rule: { all: [{ count: { activity: 'peer_review', min: 10, withinDays: 30 } }, { peerReview: { minHelpfulness: 4 } }] }
+  }),
+  define({
+    name: 'Mentor',
+    badgeType: { category: 'community', subcategory: 'mentorship' },
+    rarity: 'rare',
+    evaluateOn: ['peer_review'],
+    rule: { all: [{ peerReview: { minScore: 4.5 } }, { points: { min: 2000 } }] }
+  }),
+  define({
+    name: 'Bug Hunter',
+    badgeType: { category: 'community', subcategory: 'bug_report' },
+    rarity: 'uncommon',
+    rule: { count: { activity: 'community', min: 1, where: { contributionType: 'bug_report' } } }
+  }),
+  define({
+    name: 'Innovator',
+    badgeType: { category: 'community', subcategory: 'feature_suggestion' },
+    rarity: 'uncommon',
+    rule: { count: { activity: 'community', min: 1, where: { contributionType: 'feature_suggestion' } } }
+  }),
+  define({
+    name: 'Content Creator',
+    badgeType: { category: 'community', subcategory: 'content_creation' },
+    rarity: 'uncommon',
+    rule: { count: { activity: 'community', min: 1, where: { contributionType: 'content_creation' } } }
+  }),
+  define({
+    name: 'Community Guardian',
+    badgeType: { category: 'community', subcategory: 'moderation' },
+    rarity: 'rare',
+    rule: { count: { activity: 'community', min: 5, where: { contributionType: 'moderation' } } }
+  }),
+  define({
+    name: 'Community Contributor',
+    badgeType: { category: 'community', subcategory: 'contribution' },
+    rarity: 'common',
+    rule: { count: { activity: 'community', min: 1 } }
+  })
+];
@@ -13,7 +13,11 @@ import {
   BadgeAward, 
   AchievementProgress,
   BadgeAwardContext,
-  BadgeEligibilityResult
+  BadgeEligibilityResult,
+  PointsCalculationInput,
+  RankingProfile,
+  BadgeDefinition,
+  BadgeTrigger
 } from '@/types/gamification';
 import { 
   AIAnalysisResult, 
@@ -21,9 +25,14 @@ import {
   Challenge, 
   ChallengeSubmission 
 } from '@/types/analytics';
-import { PointsCalculator } from './points-calculator';
 import { BadgeCalculator } from './badge-calculator';
+import { BadgeRuleEngine } from './badge-rules';
+import { PointsLedger, PointsLedgerDraft } from './points-ledger';
 import { UserProgressService } from '@/lib/firebase/analytics';
+import { RankingService } from '@/lib/firebase/rankings';
+import { PointsLedgerService } from '@/lib/firebase/points-ledger';
+import { BadgeDefinitionService } from '@/lib/firebase/badge-definitions';
+import { RankingAggregator } from './ranking-aggregator';
 import { awardSkillBadge } from '@/ai/flows/award-skill-badge';
 
 export interface GamificationResult {
@@ -46,6 +55,10 @@ export interface CodeAnalysisGamification {
   difficulty?: 'beginner' | 'intermediate' | 'advanced' | 'expert';
   challengeId?: string;
   enableBlockchainVerification?: boolean;
+  // Analysis the caller already ran, e.g. when the submission was recorded by the skill tracker
+  aiAnalysis?: AIAnalysisResult;
+  // Stable ID of the submission, so processing it again awards no more points
+  submissionId?: string;
 }
 
 export interface ChallengeCompletionGamification {
@@ -53,11 +66,13 @@ export interface ChallengeCompletionGamification {
   challenge: Challenge;
   submission: ChallengeSubmission;
   completionTime?: number;
+  competitionId?: string;
   enableBlockchainVerification?: boolean;
 }
 
 export interface PeerReviewGamification {
   userId: string;
+  reviewId?: string;
   reviewQuality: number;
   reviewLength: number;
   helpfulness: number;
@@ -66,6 +81,7 @@ export interface PeerReviewGamification {
 
 export interface CommunityContributionGamification {
   userId: string;
+  contributionId?: string;
   contributionType: 'bug_report' | 'feature_suggestion' | 'content_creation' | 'mentorship' | 'moderation';
   impact: 'low' | 'medium' | 'high';
   communityVotes?: number;
@@ -79,7 +95,7 @@ export class GamificationService {
   static async processCodeAnalysisGamification(
     params: CodeAnalysisGamification
   ): Promise<GamificationResult> {
-    const { userId, code, context, difficulty = 'intermediate', enableBlockchainVerification = true } = params;
+    const { userId, code, context, difficulty = 'intermediate', challengeId, submissionId, enableBlockchainVerification = true } = params;
     
     try {
       // Get user progress for context
@@ -89,13 +105,20 @@ export class GamificationService {
       }
 
       // Get AI analysis (this would typically come from the existing analytics flow)
-      const aiAnalysisResult = await this.getAIAnalysis(code, context);
+      const aiAnalysisResult = params.aiAnalysis ?? await this.getAIAnalysis(code, context);
       
       // Calculate points for code submission
-      const pointsEarned = PointsCalculator.calculateCodeSubmissionPoints(
-        aiAnalysisResult,
+      const input: PointsCalculationInput = {
+        kind: 'code_submission',
+        analysis: {
+          codeQuality: aiAnalysisResult.codeQuality,
+          efficiency: aiAnalysisResult.efficiency,
+          creativity: aiAnalysisResult.creativity,
+          bestPractices: aiAnalysisResult.bestPractices
+        },
         difficulty
-      );
+      };
+      const pointsEarned = PointsLedger.calculate(input);
 
       // Create badge award context
       const badgeContext: BadgeAwardContext = {
@@ -107,11 +130,25 @@ export class GamificationService {
         }
       };
 
-      // Check for eligible badges
-      const badgesAwarded = await this.evaluateAndAwardBadges(badgeContext, enableBlockchainVerification);
-      
       // Update user points and progress
-      const updatedProgress = await this.updateUserPoints(userId, pointsEarned.totalPoints);
+      const updatedProgress = await this.updateUserPoints(userProgress, PointsLedger.calculated(
+        userId,
+        'award',
+        input,
+        pointsEarned,
+        'Code submission',
+        {
+          sourceIds: { analysisId: aiAnalysisResult.analysisId, ...(challengeId && { challengeId }) },
+          skillIds: aiAnalysisResult.detectedSkills
+        }
+      ), submissionId && `code_submission|${submissionId}|${userId}`);
+
+      // Check for eligible badges, including the submission just recorded
+      const badgesAwarded = await this.evaluateAndAwardBadges(
+        badgeContext,
+        updatedProgress.totalPoints,
+        enableBlockchainVerification
+      );
       
       // Check for achievement unlocks
       const achievementsUnlocked = await this.checkAchievementUnlocks(userId, updatedProgress);
@@ -120,7 +157,7 @@ export class GamificationService {
       const newMilestones = await this.checkMilestoneProgress(userId, pointsEarned.totalPoints);
       
       // Calculate rank change
-      const rankChange = await this.calculateRankChange(userId, updatedProgress.totalPoints);
+      const rankChange = await this.calculateRankChange(updatedProgress);
 
       return {
         pointsEarned,
@@ -142,7 +179,7 @@ export class GamificationService {
   static async processChallengeCompletionGamification(
     params: ChallengeCompletionGamification
   ): Promise<GamificationResult> {
-    const { userId, challenge, submission, completionTime, enableBlockchainVerification = true } = params;
+    const { userId, challenge, submission, completionTime, competitionId, enableBlockchainVerification = true } = params;
     
     try {
       // Get user progress
@@ -152,11 +189,24 @@ export class GamificationService {
       }
 
       // Calculate points for challenge completion
-      const pointsEarned = PointsCalculator.calculateChallengePoints(
-        challenge,
-        submission,
-        completionTime
-      );
+      const input: PointsCalculationInput = {
+        kind: 'challenge',
+        challenge: { difficulty: challenge.difficulty, timeLimit: challenge.timeLimit },
+        submission: {
+          totalScore: submission.totalScore,
+          passed: submission.passed,
+          ...(submission.aiAnalysis && {
+            aiAnalysis: {
+              codeQuality: submission.aiAnalysis.codeQuality,
+              efficiency: submission.aiAnalysis.efficiency,
+              creativity: submission.aiAnalysis.creativity,
+              bestPractices: submission.aiAnalysis.bestPractices
+            }
+          })
+        },
+        ...(completionTime !== undefined && { completionTime })
+      };
+      const pointsEarned = PointsLedger.calculate(input);
 
       // Create badge award context
       const badgeContext: BadgeAwardContext = {
@@ -171,22 +221,34 @@ export class GamificationService {
         }
       };
 
+      // Update user progress
+      const updatedProgress = await this.updateUserPoints(userProgress, PointsLedger.calculated(
+        userId,
+        'award',
+        input,
+        pointsEarned,
+        `Challenge completed: ${challenge.title}`,
+        {
+          sourceIds: { challengeId: challenge.challengeId, submissionId: submission.submissionId },
+          skillIds: challenge.skillsTargeted,
+          competitionId
+        }
+      ), `challenge|${submission.submissionId}`);
+
       // Evaluate challenge-specific badges
       const badgesAwarded = await this.evaluateChallengeSpecificBadges(
-        badgeContext, 
+        badgeContext,
+        updatedProgress.totalPoints,
         enableBlockchainVerification
       );
       
-      // Update user progress
-      const updatedProgress = await this.updateUserPoints(userId, pointsEarned.totalPoints);
-      
       // Update challenge completion in user progress
       await this.updateChallengeCompletion(userId, challenge, submission);
       
       // Check achievements and milestones
       const achievementsUnlocked = await this.checkAchievementUnlocks(userId, updatedProgress);
       const newMilestones = await this.checkMilestoneProgress(userId, pointsEarned.totalPoints);
-      const rankChange = await this.calculateRankChange(userId, updatedProgress.totalPoints);
+      const rankChange = await this.calculateRankChange(updatedProgress);
 
       return {
         pointsEarned,
@@ -208,16 +270,12 @@ export class GamificationService {
   static async processPeerReviewGamification(
     params: PeerReviewGamification
   ): Promise<GamificationResult> {
-    const { userId, reviewQuality, reviewLength, helpfulness, isFirstReview = false } = params;
+    const { userId, reviewId, reviewQuality, reviewLength, helpfulness, isFirstReview = false } = params;
     
     try {
       // Calculate points for peer review
-      const pointsEarned = PointsCalculator.calculatePeerReviewPoints(
-        reviewQuality,
-        reviewLength,
-        helpfulness,
-        isFirstReview
-      );
+      const input: PointsCalculationInput = { kind: 'peer_review', reviewQuality, reviewLength, helpfulness, isFirstReview };
+      const pointsEarned = PointsLedger.calculate(input);
 
       // Get user progress
       const userProgress = await UserProgressService.getUserProgress(userId);
@@ -232,16 +290,22 @@ export class GamificationService {
         peerReviewScore: reviewQuality
       };
 
-      // Check for peer review badges
-      const badgesAwarded = await this.evaluatePeerReviewBadges(badgeContext);
-      
       // Update user progress
-      const updatedProgress = await this.updateUserPoints(userId, pointsEarned.totalPoints);
+      const updatedProgress = await this.updateUserPoints(
+        userProgress,
+        PointsLedger.calculated(userId, 'award', input, pointsEarned, 'Peer review', {
+          sourceIds: reviewId ? { reviewId } : {}
+        }),
+        reviewId && `peer_review|${reviewId}|${userId}`
+      );
+
+      // Check for peer review badges
+      const badgesAwarded = await this.evaluatePeerReviewBadges(badgeContext, updatedProgress.totalPoints);
       
       // Check achievements and milestones
       const achievementsUnlocked = await this.checkAchievementUnlocks(userId, updatedProgress);
       const newMilestones = await this.checkMilestoneProgress(userId, pointsEarned.totalPoints);
-      const rankChange = await this.calculateRankChange(userId, updatedProgress.totalPoints);
+      const rankChange = await this.calculateRankChange(updatedProgress);
 
       return {
         pointsEarned,
@@ -263,16 +327,12 @@ export class GamificationService {
   static async processCommunityContributionGamification(
     params: CommunityContributionGamification
   ): Promise<GamificationResult> {
-    const { userId, contributionType, impact, communityVotes = 0, isAccepted = false } = params;
+    const { userId, contributionId, contributionType, impact, communityVotes = 0, isAccepted = false } = params;
     
     try {
       // Calculate points for community contribution
-      const pointsEarned = PointsCalculator.calculateCommunityPoints(
-        contributionType,
-        impact,
-        communityVotes,
-        isAccepted
-      );
+      const input: PointsCalculationInput = { kind: 'community', contributionType, impact, communityVotes, isAccepted };
+      const pointsEarned = PointsLedger.calculate(input);
 
       // Get user progress
       const userProgress = await UserProgressService.getUserProgress(userId);
@@ -286,18 +346,25 @@ export class GamificationService {
         { userId, userProgress },
         contributionType,
         this.calculateImpactScore(impact, communityVotes, isAccepted),
-        [] // Endorsements would be populated from actual data
+        [], // Endorsements would be populated from actual data
+        await BadgeDefinitionService.getActiveDefinitions()
       );
 
       const badgesAwarded = [communityBadge];
       
       // Update user progress
-      const updatedProgress = await this.updateUserPoints(userId, pointsEarned.totalPoints);
+      const updatedProgress = await this.updateUserPoints(
+        userProgress,
+        PointsLedger.calculated(userId, 'award', input, pointsEarned, `Community contribution: ${contributionType}`, {
+          sourceIds: contributionId ? { contributionId } : {}
+        }),
+        contributionId && `community|${contributionId}`
+      );
       
       // Check achievements and milestones
       const achievementsUnlocked = await this.checkAchievementUnlocks(userId, updatedProgress);
       const newMilestones = await this.checkMilestoneProgress(userId, pointsEarned.totalPoints);
-      const rankChange = await this.calculateRankChange(userId, updatedProgress.totalPoints);
+      const rankChange = await this.calculateRankChange(updatedProgress);
 
       return {
         pointsEarned,
@@ -314,14 +381,43 @@ export class GamificationService {
   }
 
   /**
-   * Calculates streak bonuses for consistent activity
+   * Records coding activity reported by an IDE plugin. Plugins replay events they queued
+   * offline, so each event ID is recorded once; replays return the points it already earned.
+   */
+  static async processIdeActivity(
+    userId: string,
+    activity: { id: string; kind: string }
+  ): Promise<PointsCalculation> {
+    const input: PointsCalculationInput = { kind: 'ide_activity', activityKind: activity.kind };
+    const points = PointsLedger.calculate(input);
+    if (points.totalPoints === 0) return points;
+
+    await PointsLedgerService.record(
+      PointsLedger.calculated(userId, 'award', input, points, `IDE ${activity.kind.replace(/_/g, ' ')}`),
+      { idempotencyKey: `ide_activity|${activity.id}|${userId}` }
+    );
+    return points;
+  }
+
+  /**
+   * Calculates the streak bonus for consistent activity and records it, at most once per
+   * user, streak type and day
    */
   static async processStreakBonus(
     userId: string,
     streakType: 'daily_coding' | 'challenge_completion' | 'peer_review',
     streakDays: number
   ): Promise<PointsCalculation> {
-    return PointsCalculator.calculateStreakBonus(streakDays, streakType);
+    const input: PointsCalculationInput = { kind: 'streak', streakDays, streakType };
+    const bonus = PointsLedger.calculate(input);
+    if (bonus.totalPoints === 0) return bonus;
+
+    const now = new Date();
+    await PointsLedgerService.record(
+      PointsLedger.calculated(userId, 'streak', input, bonus, `${streakDays}-day ${streakType.replace(/_/g, ' ')} streak`, {}, now),
+      { idempotencyKey: `streak|${userId}|${streakType}|${RankingAggregator.periodKey('daily', now)}` }
+    );
+    return bonus;
   }
 
   /**
@@ -342,12 +438,12 @@ export class GamificationService {
         throw new Error('User progress not found');
       }
 
-      // This would typically fetch from a dedicated gamification collection
-      // For now, we'll calculate from available data
-      const totalPoints = this.calculateTotalUserPoints(userProgress);
+      // Points are the projection of the user's ledger
+      const totals = await PointsLedgerService.getTotals(userId);
+      const totalPoints = totals?.total ?? 0;
       const badgeCount = this.calculateUserBadgeCount(userProgress);
       const rareBadgeCount = this.calculateRareBadgeCount(userProgress);
-      const currentRank = await this.calculateUserRank(userId, totalPoints);
+      const currentRank = await this.calculateUserRank(totalPoints);
       const achievementsCompleted = this.calculateCompletedAchievements(userProgress);
       const currentStreaks = await this.getCurrentStreaks(userId);
       const nextMilestones = await this.getNextMilestones(userId);
@@ -387,78 +483,86 @@ export class GamificationService {
 
   private static async evaluateAndAwardBadges(
     context: BadgeAwardContext,
+    totalPoints: number,
     enableBlockchainVerification: boolean
   ): Promise<BadgeAward[]> {
-    const badges: BadgeAward[] = [];
-    
     // Check skill-based badges
-    const skillBadges = ['JavaScript Fundamentals', 'React Hooks Expert', 'TypeScript Type Safety'];
-    
-    for (const badgeName of skillBadges) {
-      const eligibility = await BadgeCalculator.evaluateBadgeEligibility(badgeName, context);
-      
-      if (eligibility.isEligible && eligibility.badgeAward) {
-        badges.push(eligibility.badgeAward);
-        
-        // Integrate with existing blockchain badge system if enabled
-        if (enableBlockchainVerification) {
-          await this.integrateWithBlockchainBadgeSystem(
-            context.userId,
-            eligibility.badgeAward,
-            context.aiAnalysis?.codeQuality || 0
-          );
-        }
+    const badges = await this.awardNewBadges('code_analysis', context, totalPoints);
+
+    // Integrate with existing blockchain badge system if enabled
+    if (enableBlockchainVerification) {
+      for (const badge of badges) {
+        await this.integrateWithBlockchainBadgeSystem(context.userId, badge, context.aiAnalysis?.codeQuality || 0);
       }
     }
-    
+
     return badges;
   }
 
   private static async evaluateChallengeSpecificBadges(
     context: BadgeAwardContext,
+    totalPoints: number,
     enableBlockchainVerification: boolean
   ): Promise<BadgeAward[]> {
-    const badges: BadgeAward[] = [];
-    
     // Check challenge-specific badges
-    const challengeBadges = ['Challenge Conqueror', 'Speed Demon', 'Perfect Score'];
-    
-    for (const badgeName of challengeBadges) {
-      const eligibility = await BadgeCalculator.evaluateBadgeEligibility(badgeName, context);
-      
-      if (eligibility.isEligible && eligibility.badgeAward) {
-        badges.push(eligibility.badgeAward);
-        
-        if (enableBlockchainVerification) {
-          await this.integrateWithBlockchainBadgeSystem(
-            context.userId,
-            eligibility.badgeAward,
-            context.submission?.totalScore || 0
-          );
-        }
+    const badges = await this.awardNewBadges('challenge_completion', context, totalPoints);
+
+    if (enableBlockchainVerification) {
+      for (const badge of badges) {
+        await this.integrateWithBlockchainBadgeSystem(context.userId, badge, context.submission?.totalScore || 0);
       }
     }
-    
+
     return badges;
   }
 
-  private static async evaluatePeerReviewBadges(context: BadgeAwardContext): Promise<BadgeAward[]> {
-    const badges: BadgeAward[] = [];
-    
+  private static async evaluatePeerReviewBadges(context: BadgeAwardContext, totalPoints: number): Promise<BadgeAward[]> {
     // Check peer review badges
-    const reviewBadges = ['Helpful Reviewer', 'Mentor'];
-    
-    for (const badgeName of reviewBadges) {
-      const eligibility = await BadgeCalculator.evaluateBadgeEligibility(badgeName, context);
-      
-      if (eligibility.isEligible && eligibility.badgeAward) {
+    return this.awardNewBadges('peer_review', context, totalPoints);
+  }
+
+  /**
+   * Awards the badges checked at the given point of the flow that the user has earned and
+   * does not hold yet. Each badge is claimed before it is awarded, so processing the same
+   * event again, or two events at once, awards it once. The ledger is read only when a rule
+   * still to be checked looks at activity history, and then includes the award just recorded.
+   */
+  private static async awardNewBadges(
+    trigger: BadgeTrigger,
+    context: BadgeAwardContext,
+    totalPoints: number
+  ): Promise<BadgeAward[]> {
+    const definitions = await this.definitionsFor(trigger);
+    if (definitions.length === 0) return [];
+
+    const held = await BadgeDefinitionService.getHeldBadgeIds(context.userId);
+    const candidates = definitions.filter(definition => !held.has(definition.badgeId));
+    if (candidates.length === 0) return [];
+
+    const ledger = candidates.some(definition => BadgeRuleEngine.readsHistory(definition.rule))
+      ? await PointsLedgerService.getEntries(context.userId)
+      : [];
+    const badgeContext: BadgeAwardContext = { ...context, ledger, totalPoints };
+
+    const badges: BadgeAward[] = [];
+    for (const definition of candidates) {
+      const eligibility = await BadgeCalculator.evaluateBadgeEligibility(definition.badgeId, badgeContext, candidates);
+      if (!eligibility.isEligible || !eligibility.badgeAward) continue;
+
+      if (await BadgeDefinitionService.claimBadge(context.userId, definition, eligibility.badgeAward.awardedAt)) {
         badges.push(eligibility.badgeAward);
       }
     }
-    
+
     return badges;
   }
 
+  // Active badge definitions that are checked at the given point of the flow
+  private static async definitionsFor(trigger: BadgeTrigger): Promise<BadgeDefinition[]> {
+    const definitions = await BadgeDefinitionService.getActiveDefinitions();
+    return definitions.filter(definition => definition.evaluateOn?.includes(trigger));
+  }
+
   private static async integrateWithBlockchainBadgeSystem(
     userId: string,
     badge: BadgeAward,
@@ -483,13 +587,37 @@ export class GamificationService {
     }
   }
 
-  private static async updateUserPoints(userId: string, pointsToAdd: number): Promise<{ totalPoints: number }> {
-    // This would update a dedicated points tracking system
-    // For now, we'll simulate the update
-    const currentPoints = Math.floor(Math.random() * 5000); // Simulated current points
-    const totalPoints = currentPoints + pointsToAdd;
+  /**
+   * Appends the award to the points ledger, which also records it on every leaderboard it
+   * counts toward, and returns the user's ledger totals. Awards with an idempotency key are
+   * recorded once, however often they are processed.
+   */
+  private static async updateUserPoints(
+    userProgress: UserProgress,
+    draft: PointsLedgerDraft,
+    idempotencyKey?: string
+  ): Promise<{ totalPoints: number; previousPoints: number }> {
+    const { entry, totals, created } = await PointsLedgerService.record(draft, {
+      profile: this.rankingProfile(userProgress),
+      ...(idempotencyKey && { idempotencyKey })
+    });
     
-    return { totalPoints };
+    return { totalPoints: totals.total, previousPoints: created ? totals.total - entry.points : totals.total };
+  }
+
+  private static rankingProfile(userProgress: UserProgress): RankingProfile {
+    return {
+      username: userProgress.userId,
+      skillLevels: Object.fromEntries(
+        Array.from(userProgress.skillLevels.values()).map(skill => [skill.skillId, skill.currentLevel])
+      ),
+      badgeCount: this.calculateUserBadgeCount(userProgress),
+      rareBadgeCount: this.calculateRareBadgeCount(userProgress)
+    };
+  }
+
+  private static globalBoard(): string {
+    return RankingAggregator.boardFor({ type: 'global' }, 'all_time', new Date());
   }
 
   private static async updateChallengeCompletion(
@@ -531,12 +659,18 @@ export class GamificationService {
   }
 
   private static async calculateRankChange(
-    userId: string,
-    totalPoints: number
+    updatedProgress: { totalPoints: number; previousPoints: number }
   ): Promise<{ previousRank: number; newRank: number; direction: 'up' | 'down' | 'same' }> {
-    // This would calculate actual rank changes based on leaderboard
-    const previousRank = Math.floor(Math.random() * 1000) + 1;
-    const newRank = Math.max(1, previousRank - Math.floor(totalPoints / 100));
+    const { totalPoints, previousPoints } = updatedProgress;
+    const board = this.globalBoard();
+    const [aboveNow, aboveBefore] = await Promise.all([
+      RankingService.countAbove(board, totalPoints),
+      RankingService.countAbove(board, previousPoints)
+    ]);
+
+    // The user's own entry now sits above their old total, so leave it out of the old rank
+    const newRank = aboveNow + 1;
+    const previousRank = Math.max(1, aboveBefore - (totalPoints > previousPoints ? 1 : 0) + 1);
     
     let direction: 'up' | 'down' | 'same' = 'same';
     if (newRank < previousRank) direction = 'up';
@@ -574,11 +708,6 @@ export class GamificationService {
     return Math.min(100, score);
   }
 
-  private static calculateTotalUserPoints(userProgress: UserProgress): number {
-    return Array.from(userProgress.skillLevels.values())
-      .reduce((total, skill) => total + skill.experiencePoints, 0);
-  }
-
   private static calculateUserBadgeCount(userProgress: UserProgress): number {
     // This would count actual badges from user's collection
     return Array.from(userProgress.skillLevels.values()).length;
@@ -589,9 +718,8 @@ export class GamificationService {
     return Math.floor(this.calculateUserBadgeCount(userProgress) * 0.2);
   }
 
-  private static async calculateUserRank(userId: string, totalPoints: number): Promise<number> {
-    // This would calculate rank from leaderboard
-    return Math.max(1, Math.floor(10000 / (totalPoints / 100 + 1)));
+  private static async calculateUserRank(totalPoints: number): Promise<number> {
+    return (await RankingService.countAbove(this.globalBoard(), totalPoints)) + 1;
   }
 
   private static calculateCompletedAchievements(userProgress: UserProgress): number {
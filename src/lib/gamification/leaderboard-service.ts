@@ -2,28 +2,55 @@
  * @fileOverview Leaderboard service for managing rankings and competitions
  * 
  * This service provides:
- * - Real-time leaderboard updates with privacy-preserving rankings
+ * - Leaderboards read from the incrementally maintained ranking store, with privacy-preserving rankings
  * - Competition management for daily, weekly, and monthly challenges
  * - Participant tracking and result calculation
+ * - Seasons for seasonal competitions: bracketed play, promotion and relegation, season badges
+ * - Judged competitions: queued submissions, a live scoreboard with a final freeze and its reveal;
+ *   the queue is judged on the server by ContestJudge
  * - Anonymized peer comparison features
  */
 
 import { 
   LeaderboardEntry, 
+  LeaderboardTimeframe,
   Competition, 
   CompetitionParticipant, 
   CompetitionPrize,
   CompetitionRule,
-  CompetitionMetadata
+  CompetitionMetadata,
+  ContestRevealStep,
+  ContestScoreboard,
+  ContestSubmission,
+  RankedEntry,
+  RankingPage,
+  RankingScope,
+  Season,
+  SeasonResult,
+  SeasonSettings,
+  SeasonStanding,
+  SpecialBadge
 } from '@/types/gamification';
 import { UserProgress, Challenge } from '@/types/analytics';
+import { RankingService } from '@/lib/firebase/rankings';
+import { PointsLedgerService } from '@/lib/firebase/points-ledger';
+import { SeasonService } from '@/lib/firebase/seasons';
+import { ContestService } from '@/lib/firebase/contests';
+import { CompetitionService } from '@/lib/firebase/competitions';
+import { UserProgressService } from '@/lib/firebase/analytics';
+import { RankingAggregator } from './ranking-aggregator';
+import { SeasonBrackets, SeasonError } from './season-brackets';
+import { ContestScoring } from './contest-scoring';
+import { BadgeCalculator } from './badge-calculator';
 
 export interface LeaderboardQuery {
   type: 'global' | 'skill_based' | 'competition' | 'peer_group';
   skillId?: string;
   competitionId?: string;
-  timeframe?: 'daily' | 'weekly' | 'monthly' | 'all_time';
+  timeframe?: LeaderboardTimeframe;
   limit?: number;
+  cursor?: string; // nextCursor from the previous page
+  userId?: string; // Viewing user, for their rank and to keep their entry visible
   includeAnonymized?: boolean;
   userLocation?: string; // For regional leaderboards
 }
@@ -33,6 +60,7 @@ export interface LeaderboardResult {
   totalParticipants: number;
   userRank?: number;
   userEntry?: LeaderboardEntry;
+  nextCursor?: string;
   lastUpdated: Date;
   nextUpdate?: Date;
 }
@@ -52,6 +80,8 @@ export interface CompetitionCreationParams {
   registrationDeadline?: Date;
   createdBy: string;
   sponsoredBy?: string;
+  season?: Partial<SeasonSettings>; // Seasonal competitions only; unset fields use SeasonBrackets.DEFAULT_SETTINGS
+  scoreboardFreezeMinutes?: number; // Judged competitions only
 }
 
 export interface CompetitionUpdateParams {
@@ -62,8 +92,29 @@ export interface CompetitionUpdateParams {
   achievementIds?: string[];
 }
 
+export interface CompetitionSubmissionParams {
+  competitionId: string;
+  userId: string;
+  challengeId: string;
+  code: string;
+  language: string;
+}
+
+export interface CompetitionEndResult {
+  competitionId: string;
+  ended: boolean; // false while judged submissions still wait for a judge
+  error?: string;
+}
+
+export interface SeasonSettlement {
+  results: SeasonResult[];
+  badges: Array<{ userId: string; badge: SpecialBadge }>;
+}
+
 export class LeaderboardService {
   private static readonly ANONYMIZATION_THRESHOLD = 10; // Minimum participants for anonymization
+  private static readonly DEFAULT_PAGE_SIZE = 50;
+  private static readonly PEER_GROUP_SIZE = 25;
   private static readonly UPDATE_INTERVALS = {
     real_time: 30000, // 30 seconds
     frequent: 300000, // 5 minutes
@@ -76,17 +127,29 @@ export class LeaderboardService {
    */
   static async getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardResult> {
     try {
-      const entries = await this.fetchLeaderboardEntries(query);
-      const totalParticipants = await this.getTotalParticipants(query);
-      const userRank = await this.getUserRank(query, entries);
-      const userEntry = entries.find(entry => !entry.isAnonymized);
+      const now = new Date();
+      const scope = this.scopeFor(query);
+      if (!scope) {
+        // Skill and competition boards without an id have nobody on them
+        return { entries: [], totalParticipants: 0, lastUpdated: now, nextUpdate: this.calculateNextUpdate(query.type) };
+      }
+      const boardId = RankingAggregator.boardFor(scope, query.timeframe ?? 'all_time', now);
+
+      const [page, totalParticipants, userRank] = await Promise.all([
+        this.fetchLeaderboardEntries(query, boardId),
+        RankingService.getParticipantCount(boardId),
+        query.userId ? RankingService.getRank(boardId, query.userId) : Promise.resolve(null)
+      ]);
+      const entries = page.entries.map(entry => this.toLeaderboardEntry(entry));
+      const userEntry = entries.find(entry => entry.userId === query.userId);
       
       return {
         entries: this.applyPrivacyFilters(entries, query),
         totalParticipants,
-        userRank,
+        userRank: userRank ?? undefined,
         userEntry,
-        lastUpdated: new Date(),
+        nextCursor: page.nextCursor,
+        lastUpdated: now,
         nextUpdate: this.calculateNextUpdate(query.type)
       };
     } catch (error) {
@@ -105,36 +168,37 @@ export class LeaderboardService {
     peerGroup: number;
   }> {
     try {
-      // Global rank
-      const globalQuery: LeaderboardQuery = { type: 'global', limit: 1000 };
-      const globalLeaderboard = await this.getLeaderboard(globalQuery);
-      const globalRank = globalLeaderboard.userRank || 0;
+      // Every all-time board the user has points on, ranked by counting who is ahead
+      const entries = await RankingService.getUserEntries(userId, 'all_time');
+      const ranked = await Promise.all(entries.map(async entry => ({
+        scope: RankingAggregator.parseScopeKey(entry.scopeKey),
+        boardId: entry.boardId,
+        rank: (await RankingService.countAbove(entry.boardId, entry.points)) + 1
+      })));
 
-      // Skill-based ranks
+      let globalRank = 0;
+      let globalBoardId: string | null = null;
       const skillBased: Record<string, number> = {};
-      const userSkills = await this.getUserSkills(userId);
-      
-      for (const skillId of userSkills) {
-        const skillQuery: LeaderboardQuery = { type: 'skill_based', skillId, limit: 500 };
-        const skillLeaderboard = await this.getLeaderboard(skillQuery);
-        skillBased[skillId] = skillLeaderboard.userRank || 0;
-      }
-
-      // Competition ranks
       const competitions: Record<string, number> = {};
-      const activeCompetitions = await this.getActiveCompetitions();
-      
-      for (const competition of activeCompetitions) {
-        const participant = competition.participants.find(p => p.userId === userId);
-        if (participant) {
-          competitions[competition.competitionId] = participant.currentRank;
+
+      for (const { scope, boardId, rank } of ranked) {
+        if (scope.type === 'global') {
+          globalRank = rank;
+          globalBoardId = boardId;
+        } else if (scope.type === 'skill') {
+          skillBased[scope.skillId] = rank;
+        } else {
+          competitions[scope.competitionId] = rank;
         }
       }
 
-      // Peer group rank (users with similar experience level)
-      const peerGroupQuery: LeaderboardQuery = { type: 'peer_group', limit: 100 };
-      const peerGroupLeaderboard = await this.getLeaderboard(peerGroupQuery);
-      const peerGroupRank = peerGroupLeaderboard.userRank || 0;
+      // Peer group rank: position among the users directly around them on the global board
+      let peerGroupRank = 0;
+      if (globalBoardId) {
+        const window = await RankingService.getWindow(globalBoardId, userId, this.PEER_GROUP_SIZE);
+        const own = window.entries.find(entry => entry.userId === userId);
+        peerGroupRank = own ? own.rank - window.entries[0].rank + 1 : 0;
+      }
 
       return {
         global: globalRank,
@@ -181,11 +245,27 @@ export class LeaderboardService {
           skillsTargeted: await this.extractSkillsFromChallenges(params.challenges),
           difficultyLevel: await this.calculateCompetitionDifficulty(params.challenges),
           estimatedDuration: await this.estimateCompetitionDuration(params.challenges)
-        }
+        },
+        ...(params.challenges.length > 0 && { challengeIds: params.challenges }),
+        ...(params.scoreboardFreezeMinutes !== undefined && { scoreboardFreezeMinutes: params.scoreboardFreezeMinutes })
       };
 
+      const freezeMinutes = params.scoreboardFreezeMinutes;
+      const durationMinutes = (params.endDate.getTime() - params.startDate.getTime()) / 60000;
+      if (freezeMinutes !== undefined && (freezeMinutes < 0 || freezeMinutes >= durationMinutes)) {
+        throw new Error('Scoreboard freeze must be shorter than the competition');
+      }
+
+      // A seasonal competition is also a season; building it first rejects invalid settings
+      const season = competition.type === 'seasonal'
+        ? SeasonBrackets.createSeason(competition, params.season)
+        : null;
+
       // Save competition to database
       await this.saveCompetition(competition);
+      if (season) {
+        await SeasonService.createSeason(season);
+      }
       
       return competition;
     } catch (error) {
@@ -210,30 +290,40 @@ export class LeaderboardService {
       }
 
       // Validate registration eligibility
-      await this.validateRegistrationEligibility(competition, userId);
+      this.validateRegistrationEligibility(competition, userId);
 
-      const participant: CompetitionParticipant = {
-        userId,
-        username,
-        registeredAt: new Date(),
-        currentScore: 0,
-        currentRank: competition.participants.length + 1,
-        submissionsCount: 0,
-        qualificationStatus: 'qualified',
-        achievements: []
-      };
+      // Seasonal entrants compete, and are ranked, within their bracket
+      const bracketId = competition.type === 'seasonal'
+        ? (await this.enterSeason(competition, userId, username)).bracketId
+        : undefined;
 
-      // Add participant to competition
-      competition.participants.push(participant);
-      competition.metadata.totalParticipants = competition.participants.length;
+      let participant!: CompetitionParticipant;
+      await this.changeCompetition(competition, stored => {
+        // Checked again, as others may have registered since the competition was read
+        this.validateRegistrationEligibility(stored, userId);
 
-      // Update competition status if needed
-      if (competition.status === 'upcoming' && new Date() >= competition.startDate) {
-        competition.status = 'active';
-      }
+        participant = {
+          userId,
+          username,
+          registeredAt: new Date(),
+          currentScore: 0,
+          currentRank: stored.participants.filter(p => p.bracketId === bracketId).length + 1,
+          submissionsCount: 0,
+          qualificationStatus: 'qualified',
+          achievements: [],
+          ...(bracketId && { bracketId })
+        };
+
+        // Add participant to competition
+        stored.participants.push(participant);
+        stored.metadata.totalParticipants = stored.participants.length;
+
+        // Update competition status if needed
+        if (stored.status === 'upcoming' && new Date() >= stored.startDate) {
+          stored.status = 'active';
+        }
+      });
 
-      await this.updateCompetition(competition);
-      
       return participant;
     } catch (error) {
       console.error('Error registering for competition:', error);
@@ -252,36 +342,99 @@ export class LeaderboardService {
         throw new Error('Competition not found');
       }
 
-      const participant = competition.participants.find(p => p.userId === params.participantId);
-      
-      if (!participant) {
-        throw new Error('Participant not found');
+      if (ContestScoring.isJudged(competition)) {
+        throw new Error('Scores for judged competitions come from the judging queue');
+      }
+
+      await this.changeCompetition(competition, stored => {
+        const participant = stored.participants.find(p => p.userId === params.participantId);
+
+        if (!participant) {
+          throw new Error('Participant not found');
+        }
+
+        // Update participant data
+        if (params.score !== undefined) {
+          participant.currentScore = Math.max(participant.currentScore, params.score);
+          participant.lastSubmissionAt = new Date();
+          participant.submissionsCount += 1;
+        }
+
+        if (params.achievementIds) {
+          participant.achievements.push(...params.achievementIds);
+        }
+
+        // Recalculate rankings
+        this.recalculateCompetitionRankings(stored);
+
+        // Update metadata
+        stored.metadata.averageScore = this.calculateAverageScore(stored.participants);
+        stored.metadata.topScore = Math.max(...stored.participants.map(p => p.currentScore));
+        stored.metadata.submissionsCount = stored.participants.reduce(
+          (sum, p) => sum + p.submissionsCount, 0
+        );
+      });
+    } catch (error) {
+      console.error('Error updating competition score:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queues a participant's solution to one of the competition's challenges for judging
+   */
+  static async submitCompetitionEntry(params: CompetitionSubmissionParams): Promise<ContestSubmission> {
+    try {
+      const competition = await this.getCompetition(params.competitionId);
+
+      if (!competition) {
+        throw new Error('Competition not found');
       }
 
-      // Update participant data
-      if (params.score !== undefined) {
-        participant.currentScore = Math.max(participant.currentScore, params.score);
-        participant.lastSubmissionAt = new Date();
-        participant.submissionsCount += 1;
+      const now = new Date();
+      if (competition.status === 'completed' || competition.status === 'cancelled' ||
+          now < competition.startDate || now >= competition.endDate) {
+        throw new Error('Competition is not accepting submissions');
       }
 
-      if (params.achievementIds) {
-        participant.achievements.push(...params.achievementIds);
+      if (!competition.challengeIds?.includes(params.challengeId)) {
+        throw new Error('Challenge is not part of this competition');
       }
 
-      // Recalculate rankings
-      await this.recalculateCompetitionRankings(competition);
-      
-      // Update metadata
-      competition.metadata.averageScore = this.calculateAverageScore(competition.participants);
-      competition.metadata.topScore = Math.max(...competition.participants.map(p => p.currentScore));
-      competition.metadata.submissionsCount = competition.participants.reduce(
-        (sum, p) => sum + p.submissionsCount, 0
-      );
+      const participant = competition.participants.find(p => p.userId === params.userId);
 
-      await this.updateCompetition(competition);
+      if (!participant || participant.qualificationStatus === 'disqualified') {
+        throw new Error('Participant not found');
+      }
+
+      return await ContestService.submit({
+        competitionId: competition.competitionId,
+        userId: participant.userId,
+        username: participant.username,
+        challengeId: params.challengeId,
+        code: params.code,
+        language: params.language
+      }, now);
     } catch (error) {
-      console.error('Error updating competition score:', error);
+      console.error('Error submitting competition entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Republishes a judged competition's public scoreboard after verdicts were recorded
+   */
+  static async refreshContestScoreboard(competitionId: string): Promise<ContestScoreboard> {
+    try {
+      const competition = await this.getCompetition(competitionId);
+
+      if (!competition) {
+        throw new Error('Competition not found');
+      }
+
+      return await this.refreshScoreboard(competition);
+    } catch (error) {
+      console.error('Error refreshing contest scoreboard:', error);
       throw error;
     }
   }
@@ -334,7 +487,43 @@ export class LeaderboardService {
   }
 
   /**
-   * Ends a competition and calculates final results
+   * Gets the participants of the bracket a user competes in within a seasonal competition,
+   * in rank order
+   */
+  static async getSeasonBracket(competitionId: string, userId: string): Promise<{
+    bracketId: string;
+    participants: CompetitionParticipant[];
+  }> {
+    try {
+      const competition = await this.getCompetition(competitionId);
+
+      if (!competition) {
+        throw new Error('Competition not found');
+      }
+
+      const participant = competition.participants.find(p => p.userId === userId);
+
+      if (!participant?.bracketId) {
+        throw new Error('Participant not found in a season bracket');
+      }
+
+      return {
+        bracketId: participant.bracketId,
+        participants: competition.participants
+          .filter(p => p.bracketId === participant.bracketId)
+          .sort((a, b) => a.currentRank - b.currentRank)
+      };
+    } catch (error) {
+      console.error('Error getting season bracket:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ends a competition and calculates final results. A judged competition is ranked from its
+   * final scoreboard, revealing what the freeze hid; submissions still waiting for a judge
+   * are not scored, so drain the queue first. Ending a seasonal competition also settles
+   * its season.
    */
   static async endCompetition(competitionId: string): Promise<{
     winners: CompetitionParticipant[];
@@ -343,6 +532,11 @@ export class LeaderboardService {
       participant: CompetitionParticipant;
       prize: CompetitionPrize;
     }>;
+    contest?: {
+      scoreboard: ContestScoreboard;
+      reveal: ContestRevealStep[];
+    };
+    season?: SeasonSettlement;
   }> {
     try {
       const competition = await this.getCompetition(competitionId);
@@ -352,27 +546,37 @@ export class LeaderboardService {
       }
 
       // Final ranking calculation
-      await this.recalculateCompetitionRankings(competition);
+      const contest = ContestScoring.isJudged(competition) ? await this.revealScoreboard(competition) : undefined;
+      if (!contest) {
+        await this.changeCompetition(competition, stored => this.recalculateCompetitionRankings(stored));
+      }
       
-      // Determine winners and prize distribution
-      const winners = competition.participants
+      // Determine winners and prize distribution; seasonal competitions award prizes in every bracket
+      const qualified = competition.participants
         .filter(p => p.qualificationStatus === 'qualified')
-        .sort((a, b) => a.currentRank - b.currentRank)
-        .slice(0, 10); // Top 10 winners
+        .sort((a, b) => a.currentRank - b.currentRank);
+      const bracketWinners = this.groupByBracket(qualified).map(bracket => bracket.slice(0, 10)); // Top 10 winners
+      const winners = bracketWinners.flat();
 
-      const prizeDistribution = this.distributePrizes(winners, competition.prizes);
+      const prizeDistribution = bracketWinners.flatMap(bracket => this.distributePrizes(bracket, competition.prizes));
+      await this.recordPointPrizes(competition, prizeDistribution);
       
       // Create final leaderboard
-      const finalLeaderboard = await this.createFinalLeaderboard(competition);
+      const finalLeaderboard = this.createLeaderboard(competition);
       
+      const season = competition.type === 'seasonal' ? await this.settleSeason(competition) : undefined;
+
       // Update competition status
-      competition.status = 'completed';
-      await this.updateCompetition(competition);
+      await this.changeCompetition(competition, stored => {
+        stored.status = 'completed';
+      });
       
       return {
         winners,
         finalLeaderboard,
-        prizeDistribution
+        prizeDistribution,
+        ...(contest && { contest }),
+        ...(season && { season })
       };
     } catch (error) {
       console.error('Error ending competition:', error);
@@ -380,46 +584,72 @@ export class LeaderboardService {
     }
   }
 
+  /**
+   * Ends every competition past its end date. A judged competition waits until the judging
+   * job has drained its queue, so late submissions are scored. One competition failing does
+   * not stop the others; ending is safe to repeat, so a failed one is retried on the next run.
+   */
+  static async endDueCompetitions(now: Date = new Date()): Promise<CompetitionEndResult[]> {
+    const [due, awaitingJudging] = await Promise.all([
+      CompetitionService.getCompetitionsDueToEnd(now),
+      ContestService.getCompetitionsAwaitingJudging()
+    ]);
+    const judging = new Set(awaitingJudging);
+    const results: CompetitionEndResult[] = [];
+
+    for (const { competitionId } of due) {
+      if (judging.has(competitionId)) {
+        results.push({ competitionId, ended: false });
+        continue;
+      }
+
+      try {
+        await this.endCompetition(competitionId);
+        results.push({ competitionId, ended: true });
+      } catch (error) {
+        results.push({ competitionId, ended: false, error: error instanceof Error ? error.message : 'Ending failed' });
+      }
+    }
+
+    return results;
+  }
+
   // Private helper methods
 
-  private static async fetchLeaderboardEntries(query: LeaderboardQuery): Promise<LeaderboardEntry[]> {
-    // This would fetch from database based on query parameters
-    // For now, we'll return mock data
-    const mockEntries: LeaderboardEntry[] = [];
-    
-    for (let i = 1; i <= (query.limit || 10); i++) {
-      mockEntries.push({
-        userId: `user_${i}`,
-        username: query.includeAnonymized ? `Anonymous_${i}` : `User${i}`,
-        displayName: query.includeAnonymized ? undefined : `Display User ${i}`,
-        totalPoints: Math.floor(Math.random() * 10000) + 1000,
-        rank: i,
-        previousRank: i + Math.floor(Math.random() * 3) - 1,
-        rankChange: Math.random() > 0.5 ? 'up' : 'down',
-        badgeCount: Math.floor(Math.random() * 50) + 5,
-        rareBadgeCount: Math.floor(Math.random() * 10),
-        skillLevels: {
-          JavaScript: Math.floor(Math.random() * 4) + 1,
-          React: Math.floor(Math.random() * 4) + 1,
-          TypeScript: Math.floor(Math.random() * 4) + 1
-        },
-        lastActivity: new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000),
-        isAnonymized: query.includeAnonymized || false
-      });
+  private static scopeFor(query: LeaderboardQuery): RankingScope | null {
+    switch (query.type) {
+      case 'skill_based':
+        return query.skillId ? { type: 'skill', skillId: query.skillId } : null;
+      case 'competition':
+        return query.competitionId ? { type: 'competition', competitionId: query.competitionId } : null;
+      default:
+        return { type: 'global' };
     }
-    
-    return mockEntries.sort((a, b) => b.totalPoints - a.totalPoints);
   }
 
-  private static async getTotalParticipants(query: LeaderboardQuery): Promise<number> {
-    // This would count total participants from database
-    return Math.floor(Math.random() * 10000) + 1000;
+  private static async fetchLeaderboardEntries(query: LeaderboardQuery, boardId: string): Promise<RankingPage> {
+    // Peer groups show the users around the viewer rather than the top of the board
+    if (query.type === 'peer_group' && query.userId && !query.cursor) {
+      return RankingService.getWindow(boardId, query.userId, Math.max(1, query.limit ?? this.PEER_GROUP_SIZE));
+    }
+    return RankingService.getPage(boardId, Math.max(1, query.limit ?? this.DEFAULT_PAGE_SIZE), query.cursor);
   }
 
-  private static async getUserRank(query: LeaderboardQuery, entries: LeaderboardEntry[]): Promise<number> {
-    // Find user's rank in the entries
-    const userEntry = entries.find(entry => !entry.isAnonymized);
-    return userEntry?.rank || 0;
+  private static toLeaderboardEntry(entry: RankedEntry): LeaderboardEntry {
+    return {
+      userId: entry.userId,
+      username: entry.username,
+      displayName: entry.displayName,
+      totalPoints: RankingAggregator.displayPoints(entry.points),
+      rank: entry.rank,
+      previousRank: entry.previousRank,
+      rankChange: RankingAggregator.rankChange(entry.rank, entry.previousRank),
+      badgeCount: entry.badgeCount,
+      rareBadgeCount: entry.rareBadgeCount,
+      skillLevels: entry.skillLevels,
+      lastActivity: entry.lastActivity,
+      isAnonymized: false
+    };
   }
 
   private static applyPrivacyFilters(
@@ -431,8 +661,8 @@ export class LeaderboardService {
     }
 
     // Apply anonymization for privacy
-    return entries.map((entry, index) => {
-      if (index === 0) return entry; // Keep user's own entry visible
+    return entries.map(entry => {
+      if (entry.userId === query.userId) return entry; // Keep user's own entry visible
       
       return {
         ...entry,
@@ -450,16 +680,6 @@ export class LeaderboardService {
     return new Date(now.getTime() + interval);
   }
 
-  private static async getUserSkills(userId: string): Promise<string[]> {
-    // This would fetch user's skills from database
-    return ['JavaScript', 'React', 'TypeScript', 'Node.js'];
-  }
-
-  private static async getActiveCompetitions(): Promise<Competition[]> {
-    // This would fetch active competitions from database
-    return [];
-  }
-
   private static async extractSkillsFromChallenges(challengeIds: string[]): Promise<string[]> {
     // This would analyze challenges to extract targeted skills
     return ['JavaScript', 'algorithms', 'problem-solving'];
@@ -476,50 +696,25 @@ export class LeaderboardService {
   }
 
   private static async saveCompetition(competition: Competition): Promise<void> {
-    // This would save to database
-    console.log('Saving competition:', competition.competitionId);
+    await CompetitionService.createCompetition(competition);
   }
 
-  private static mockCompetitions: Map<string, Competition> = new Map();
-
   private static async getCompetition(competitionId: string): Promise<Competition | null> {
-    // Check if we have a mock competition stored
-    if (this.mockCompetitions.has(competitionId)) {
-      return this.mockCompetitions.get(competitionId)!;
-    }
-
-    // This would fetch from database
-    // For now, return mock competition
-    const mockCompetition: Competition = {
-      competitionId,
-      title: 'Mock Competition',
-      description: 'A test competition',
-      type: 'daily',
-      category: 'skill_based',
-      startDate: new Date(),
-      endDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
-      prizes: [],
-      rules: [],
-      participants: [],
-      leaderboard: [],
-      status: 'active',
-      createdBy: 'system',
-      metadata: {
-        totalParticipants: 0,
-        averageScore: 0,
-        topScore: 0,
-        submissionsCount: 0,
-        skillsTargeted: ['JavaScript'],
-        difficultyLevel: 'intermediate',
-        estimatedDuration: 60
-      }
-    };
+    return CompetitionService.getCompetition(competitionId);
+  }
 
-    this.mockCompetitions.set(competitionId, mockCompetition);
-    return mockCompetition;
+  /**
+   * Applies a change to the stored competition and brings the caller's copy up to date with
+   * the result. The change may be retried on a fresh copy, so it must not depend on earlier runs.
+   */
+  private static async changeCompetition(
+    competition: Competition,
+    change: (stored: Competition) => void
+  ): Promise<void> {
+    Object.assign(competition, await CompetitionService.updateCompetition(competition.competitionId, change));
   }
 
-  private static async validateRegistrationEligibility(competition: Competition, userId: string): Promise<void> {
+  private static validateRegistrationEligibility(competition: Competition, userId: string): void {
     // Check if registration is still open
     if (competition.registrationDeadline && new Date() > competition.registrationDeadline) {
       throw new Error('Registration deadline has passed');
@@ -538,38 +733,36 @@ export class LeaderboardService {
     // Additional eligibility checks would go here
   }
 
-  private static async updateCompetition(competition: Competition): Promise<void> {
-    // This would update in database
-    // For testing, store in mock competitions
-    this.mockCompetitions.set(competition.competitionId, competition);
-    console.log('Updating competition:', competition.competitionId);
-  }
-
-  private static async recalculateCompetitionRankings(competition: Competition): Promise<void> {
-    // Sort participants by score (descending) and update ranks
-    competition.participants.sort((a, b) => {
-      if (b.currentScore !== a.currentScore) {
-        return b.currentScore - a.currentScore;
-      }
-      // Tie-breaker: fewer submissions wins
-      return a.submissionsCount - b.submissionsCount;
-    });
+  private static recalculateCompetitionRankings(
+    competition: Competition,
+    scoreboard?: ContestScoreboard
+  ): void {
+    if (scoreboard) {
+      // Judged competitions follow the scoreboard, which also weighs penalty time
+      const order = new Map(scoreboard.rows.map((row, index) => [row.userId, index]));
+      competition.participants.sort((a, b) =>
+        (order.get(a.userId) ?? order.size) - (order.get(b.userId) ?? order.size));
+    } else {
+      // Sort participants by score (descending) and update ranks
+      competition.participants.sort((a, b) => {
+        if (b.currentScore !== a.currentScore) {
+          return b.currentScore - a.currentScore;
+        }
+        // Tie-breaker: fewer submissions wins
+        return a.submissionsCount - b.submissionsCount;
+      });
+    }
 
-    // Update ranks
-    competition.participants.forEach((participant, index) => {
-      participant.currentRank = index + 1;
+    // Update ranks, counted within each bracket for seasonal competitions
+    const bracketPositions = new Map<string | undefined, number>();
+    competition.participants.forEach(participant => {
+      const position = (bracketPositions.get(participant.bracketId) ?? 0) + 1;
+      bracketPositions.set(participant.bracketId, position);
+      participant.currentRank = position;
     });
 
     // Update leaderboard
-    competition.leaderboard = competition.participants.map(participant => ({
-      userId: participant.userId,
-      username: participant.username,
-      score: participant.currentScore,
-      rank: participant.currentRank,
-      badgesEarned: participant.achievements,
-      lastSubmissionAt: participant.lastSubmissionAt || participant.registeredAt,
-      isAnonymized: false
-    }));
+    competition.leaderboard = this.createLeaderboard(competition);
   }
 
   private static calculateAverageScore(participants: CompetitionParticipant[]): number {
@@ -625,6 +818,14 @@ export class LeaderboardService {
     }).filter(range => range.count > 0);
   }
 
+  private static groupByBracket(participants: CompetitionParticipant[]): CompetitionParticipant[][] {
+    const brackets = new Map<string | undefined, CompetitionParticipant[]>();
+    participants.forEach(participant => {
+      brackets.set(participant.bracketId, [...(brackets.get(participant.bracketId) ?? []), participant]);
+    });
+    return Array.from(brackets.values());
+  }
+
   private static distributePrizes(
     winners: CompetitionParticipant[], 
     prizes: CompetitionPrize[]
@@ -652,7 +853,32 @@ export class LeaderboardService {
     return distribution;
   }
 
-  private static async createFinalLeaderboard(competition: Competition): Promise<LeaderboardEntry[]> {
+  /**
+   * Points prizes go on the winners' ledgers; ending a competition twice does not pay out twice
+   */
+  private static async recordPointPrizes(
+    competition: Competition,
+    distribution: Array<{ participant: CompetitionParticipant; prize: CompetitionPrize }>
+  ): Promise<void> {
+    const pointsByUser = new Map<string, { points: number; titles: string[] }>();
+    distribution.forEach(({ participant, prize }) => {
+      const points = Number(prize.value);
+      if (prize.type !== 'points' || !(points > 0)) return;
+      const current = pointsByUser.get(participant.userId) ?? { points: 0, titles: [] };
+      pointsByUser.set(participant.userId, { points: current.points + points, titles: [...current.titles, prize.title] });
+    });
+
+    for (const [userId, { points, titles }] of pointsByUser) {
+      await PointsLedgerService.recordPrize(
+        userId,
+        points,
+        `${competition.title}: ${titles.join(', ')}`,
+        competition.competitionId
+      );
+    }
+  }
+
+  private static createLeaderboard(competition: Competition): LeaderboardEntry[] {
     return competition.participants.map(participant => ({
       userId: participant.userId,
       username: participant.username,
@@ -666,4 +892,180 @@ export class LeaderboardService {
       rankChange: 'same'
     }));
   }
-}
\ No newline at end of file
+
+  /**
+   * Places a seasonal entrant: their tier carries over from their last season, or comes from
+   * their skill rating for a first season
+   */
+  private static async enterSeason(competition: Competition, userId: string, username: string): Promise<SeasonStanding> {
+    const [userProgress, previous] = await Promise.all([
+      UserProgressService.getUserProgress(userId),
+      SeasonService.getLatestResult(userId)
+    ]);
+    const skillRating = SeasonBrackets.skillRating(userProgress);
+
+    return SeasonService.enterSeason(competition.competitionId, {
+      userId,
+      username,
+      tier: SeasonBrackets.startingTier(skillRating, previous),
+      skillRating
+    });
+  }
+
+  /**
+   * Records final bracket ranks and tier moves as season history and gives the season's
+   * badges to their holders, together with marking the season completed; a season that is
+   * already settled returns its stored results and badges without issuing them again
+   */
+  private static async settleSeason(competition: Competition): Promise<SeasonSettlement> {
+    const season = await SeasonService.getSeason(competition.competitionId);
+
+    if (!season) {
+      throw new SeasonError(`Season ${competition.competitionId} not found`, 'season_not_found');
+    }
+
+    if (season.status === 'completed') {
+      const [results, badges] = await Promise.all([
+        SeasonService.getResults(season.seasonId),
+        SeasonService.getBadges(season.seasonId)
+      ]);
+      return { results, badges };
+    }
+
+    const scores = new Map(competition.participants
+      .filter(p => p.qualificationStatus === 'qualified')
+      .map(p => [p.userId, p.currentScore]));
+    const results = SeasonBrackets.settle(season, await SeasonService.getStandings(season.seasonId), scores);
+    const badges = await this.issueSeasonBadges(season, results);
+
+    await SeasonService.completeSeason(season, results, badges);
+
+    return { results, badges };
+  }
+
+  /**
+   * Mints each season badge for its holders, numbered within the season
+   */
+  private static async issueSeasonBadges(
+    season: Season,
+    results: SeasonResult[]
+  ): Promise<Array<{ userId: string; badge: SpecialBadge }>> {
+    const holders = results.filter(result => result.badgeNames.length > 0);
+    const progress = await Promise.all(holders.map(holder => UserProgressService.getUserProgress(holder.userId)));
+    const progressByUser = new Map(holders.map((holder, index) => [holder.userId, progress[index]]));
+
+    return [SeasonBrackets.CHAMPION_BADGE, SeasonBrackets.PROMOTION_BADGE].flatMap(badgeName => {
+      const badgeHolders = holders.filter(holder => holder.badgeNames.includes(badgeName));
+      return badgeHolders.map((holder, index) => ({
+        userId: holder.userId,
+        badge: BadgeCalculator.createSpecialBadge(
+          badgeName,
+          {
+            userId: holder.userId,
+            userProgress: progressByUser.get(holder.userId) ?? this.emptyProgress(holder.userId)
+          },
+          season.seasonId,
+          index + 1,
+          badgeHolders.length
+        )
+      }));
+    });
+  }
+
+  private static emptyProgress(userId: string): UserProgress {
+    const now = new Date();
+    return {
+      userId,
+      skillLevels: new Map(),
+      learningVelocity: 0,
+      codeQualityTrend: { direction: 'stable', changePercentage: 0, timeframe: 'all_time', dataPoints: 0 },
+      challengesCompleted: [],
+      peerInteractions: [],
+      lastAnalysisDate: now,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Applies and publishes the scoreboard viewers may see, which during the freeze leaves out
+   * submissions made since it began
+   */
+  private static async refreshScoreboard(competition: Competition): Promise<ContestScoreboard> {
+    const now = new Date();
+    const submissions = await ContestService.getSubmissions(competition.competitionId);
+    const visible = ContestScoring.publicScoreboard(competition, submissions, now);
+
+    await this.applyScoreboard(competition, visible, submissions);
+    await ContestService.publishScoreboard(visible);
+
+    return visible;
+  }
+
+  /**
+   * Ranks a judged competition from its final scoreboard and publishes it, with the order in
+   * which to reveal the results the freeze hid
+   */
+  private static async revealScoreboard(competition: Competition): Promise<{
+    scoreboard: ContestScoreboard;
+    reveal: ContestRevealStep[];
+  }> {
+    const now = new Date();
+    const submissions = await ContestService.getSubmissions(competition.competitionId);
+    const frozen = ContestScoring.publicScoreboard(competition, submissions, now);
+    const scoreboard = ContestScoring.build(competition, submissions, { now });
+
+    await this.applyScoreboard(competition, scoreboard, submissions);
+    await ContestService.publishScoreboard(scoreboard);
+
+    return {
+      scoreboard,
+      reveal: frozen.frozen ? ContestScoring.revealSequence(frozen, scoreboard) : []
+    };
+  }
+
+  /**
+   * Sets participants' scores and ranks and the competition leaderboard from the scoreboard.
+   * Participants are readable by anyone who can see the competition, so during the freeze
+   * they are given the public scoreboard and only learn the hidden results at the reveal.
+   */
+  private static async applyScoreboard(
+    competition: Competition,
+    scoreboard: ContestScoreboard,
+    submissions: ContestSubmission[]
+  ): Promise<void> {
+    await this.changeCompetition(competition, stored => {
+      const rows = new Map(scoreboard.rows.map(row => [row.userId, row]));
+      stored.participants.forEach(participant => {
+        const row = rows.get(participant.userId);
+        if (!row) return;
+        const own = submissions.filter(submission => submission.userId === participant.userId);
+        participant.currentScore = row.totalPoints;
+        participant.submissionsCount = own.length;
+        if (own.length > 0) {
+          participant.lastSubmissionAt = own[own.length - 1].submittedAt;
+        }
+      });
+
+      this.recalculateCompetitionRankings(stored, scoreboard);
+
+      const participants = new Map(stored.participants.map(participant => [participant.userId, participant]));
+      stored.leaderboard = scoreboard.rows.map(row => ({
+        userId: row.userId,
+        username: row.username,
+        totalPoints: row.totalPoints,
+        rank: row.rank,
+        badgeCount: participants.get(row.userId)?.achievements.length ?? 0,
+        rareBadgeCount: 0,
+        skillLevels: {},
+        lastActivity: row.lastImprovementAt ?? participants.get(row.userId)?.registeredAt ?? scoreboard.updatedAt,
+        isAnonymized: false,
+        rankChange: 'same'
+      }));
+
+      stored.metadata.averageScore = this.calculateAverageScore(stored.participants);
+      stored.metadata.topScore = Math.max(0, ...stored.participants.map(p => p.currentScore));
+      stored.metadata.submissionsCount = submissions.length;
+    });
+  }
+}
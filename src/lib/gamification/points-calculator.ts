@@ -12,9 +12,10 @@ import {
   PointsCalculation, 
   PointsBreakdown, 
   PointsConfig,
-  BadgeRarity 
+  BadgeRarity,
+  AnalysisScores
 } from '@/types/gamification';
-import { AIAnalysisResult, Challenge, ChallengeSubmission } from '@/types/analytics';
+import { Challenge, ChallengeSubmission } from '@/types/analytics';
 
 export class PointsCalculator {
   private static readonly DEFAULT_CONFIG: PointsConfig = {
@@ -42,7 +43,7 @@ export class PointsCalculator {
    * Calculates points for a code submission based on AI analysis
    */
   static calculateCodeSubmissionPoints(
-    aiAnalysis: AIAnalysisResult,
+    aiAnalysis: AnalysisScores,
     difficulty: 'beginner' | 'intermediate' | 'advanced' | 'expert' = 'intermediate',
     config: Partial<PointsConfig> = {}
   ): PointsCalculation {
@@ -148,10 +149,12 @@ export class PointsCalculator {
    * Calculates points for challenge completion
    */
   static calculateChallengePoints(
-    challenge: Challenge,
-    submission: ChallengeSubmission,
-    completionTime?: number
+    challenge: Pick<Challenge, 'difficulty' | 'timeLimit'>,
+    submission: Pick<ChallengeSubmission, 'totalScore'> & { aiAnalysis?: AnalysisScores },
+    completionTime?: number,
+    config: Partial<PointsConfig> = {}
   ): PointsCalculation {
+    const finalConfig = { ...this.DEFAULT_CONFIG, ...config };
     const breakdown: PointsBreakdown[] = [];
 
     // Base points from challenge difficulty
@@ -201,7 +204,8 @@ export class PointsCalculator {
     if (submission.aiAnalysis) {
       const aiPoints = this.calculateCodeSubmissionPoints(
         submission.aiAnalysis,
-        challenge.difficulty
+        challenge.difficulty,
+        config
       );
       aiBonus = Math.round(aiPoints.totalPoints * 0.3);
       breakdown.push({
@@ -219,7 +223,7 @@ export class PointsCalculator {
       efficiencyBonus: speedBonus,
       creativityBonus: perfectBonus,
       bestPracticesBonus: aiBonus,
-      difficultyMultiplier: this.DEFAULT_CONFIG.difficultyMultipliers[challenge.difficulty],
+      difficultyMultiplier: finalConfig.difficultyMultipliers[challenge.difficulty],
       totalPoints,
       breakdown
     };
@@ -368,6 +372,35 @@ export class PointsCalculator {
     };
   }
 
+  /**
+   * Calculates points for coding activity reported by IDE plugins. Kinds without
+   * a rate earn nothing.
+   */
+  static calculateIdeActivityPoints(activityKind: string): PointsCalculation {
+    const basePointsMap: Record<string, number> = {
+      file_saved: 2,
+      test_run: 5,
+      debug_session: 5,
+      commit: 10
+    };
+
+    const basePoints = basePointsMap[activityKind] ?? 0;
+    const breakdown: PointsBreakdown[] = basePoints > 0
+      ? [{ category: 'Activity Points', points: basePoints, description: `Points for ${activityKind.replace(/_/g, ' ')}` }]
+      : [];
+
+    return {
+      basePoints,
+      qualityBonus: 0,
+      efficiencyBonus: 0,
+      creativityBonus: 0,
+      bestPracticesBonus: 0,
+      difficultyMultiplier: 1,
+      totalPoints: basePoints,
+      breakdown
+    };
+  }
+
   /**
    * Calculates bonus points for badge rarity
    */
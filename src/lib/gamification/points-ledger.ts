@@ -0,0 +1,276 @@
+/**
+ * @fileOverview Append-only points ledger
+ *
+ * Every change to a user's points (awards, bonuses, streaks, penalties, competition
+ * prizes) is an immutable entry carrying its source IDs and breakdown. This module holds
+ * the pure parts of the ledger:
+ * - Building entries, including reversals for fraud or moderation
+ * - Projecting totals from entries, incrementally or by full replay
+ * - Recalculating calculated entries under a new PointsConfig as adjustment entries
+ */
+
+import {
+  PointsBreakdown,
+  PointsCalculation,
+  PointsCalculationInput,
+  PointsConfig,
+  PointsLedgerEntry,
+  PointsLedgerEntryType,
+  PointsTotals
+} from '@/types/gamification';
+import { PointsCalculator } from './points-calculator';
+
+export type PointsLedgerErrorCode = 'already_reversed' | 'not_reversed' | 'not_reversible' | 'invalid_points';
+
+export class PointsLedgerError extends Error {
+  constructor(message: string, public readonly code: PointsLedgerErrorCode) {
+    super(message);
+    this.name = 'PointsLedgerError';
+  }
+}
+
+// An entry before the store has given it an ID
+export type PointsLedgerDraft = Omit<PointsLedgerEntry, 'entryId'>;
+
+export interface LedgerEntryContext {
+  sourceIds?: Record<string, string>;
+  skillIds?: string[];
+  competitionId?: string;
+  actorId?: string;
+}
+
+const ENTRY_TYPES: PointsLedgerEntryType[] = ['award', 'bonus', 'streak', 'penalty', 'prize', 'reversal', 'adjustment'];
+
+export class PointsLedger {
+  /**
+   * Entry for points worked out by PointsCalculator; the input is kept for recalculation
+   */
+  static calculated(
+    userId: string,
+    type: 'award' | 'bonus' | 'streak',
+    input: PointsCalculationInput,
+    calculation: PointsCalculation,
+    description: string,
+    context: LedgerEntryContext = {},
+    now: Date = new Date()
+  ): PointsLedgerDraft {
+    return {
+      ...this.base(userId, context, now),
+      type,
+      points: calculation.totalPoints,
+      breakdown: calculation.breakdown,
+      description,
+      input
+    };
+  }
+
+  static penalty(
+    userId: string,
+    points: number,
+    reason: string,
+    actorId: string,
+    context: LedgerEntryContext = {},
+    now: Date = new Date()
+  ): PointsLedgerDraft {
+    const deducted = this.wholePositive(points);
+    return {
+      ...this.base(userId, { ...context, actorId }, now),
+      type: 'penalty',
+      points: -deducted,
+      breakdown: [{ category: 'Penalty', points: -deducted, description: reason }],
+      description: `Penalty: ${reason}`,
+      reason
+    };
+  }
+
+  static prize(
+    userId: string,
+    points: number,
+    description: string,
+    competitionId: string,
+    context: LedgerEntryContext = {},
+    now: Date = new Date()
+  ): PointsLedgerDraft {
+    const awarded = this.wholePositive(points);
+    return {
+      ...this.base(userId, { ...context, competitionId, sourceIds: { competitionId, ...context.sourceIds } }, now),
+      type: 'prize',
+      points: awarded,
+      breakdown: [{ category: 'Competition Prize', points: awarded, description }],
+      description
+    };
+  }
+
+  /**
+   * Cancels an entry's current value, including any recalculation adjustments. Reversing a
+   * reversal reinstates the original entry.
+   */
+  static reversal(
+    target: PointsLedgerEntry,
+    ledger: PointsLedgerEntry[],
+    reason: string,
+    actorId: string,
+    now: Date = new Date()
+  ): PointsLedgerDraft {
+    if (target.type === 'adjustment') {
+      throw new PointsLedgerError('Adjustments are reversed along with the entry they adjust', 'not_reversible');
+    }
+    if (this.isReversed(target, ledger)) {
+      throw new PointsLedgerError(`Entry ${target.entryId} has already been reversed`, 'already_reversed');
+    }
+
+    const points = -this.effectivePoints(target, ledger);
+    const reinstating = target.type === 'reversal';
+    return {
+      ...this.base(target.userId, { sourceIds: target.sourceIds, skillIds: target.skillIds, competitionId: target.competitionId, actorId }, now),
+      type: 'reversal',
+      points,
+      breakdown: [{
+        category: reinstating ? 'Reinstatement' : 'Reversal',
+        points,
+        description: reason
+      }],
+      description: `${reinstating ? 'Reinstated' : 'Reversed'}: ${target.description}`,
+      relatedEntryId: target.entryId,
+      reason
+    };
+  }
+
+  /**
+   * An entry's current value: its own points plus any adjustments made to it
+   */
+  static effectivePoints(entry: PointsLedgerEntry, ledger: PointsLedgerEntry[]): number {
+    return ledger
+      .filter(other => other.type === 'adjustment' && other.relatedEntryId === entry.entryId)
+      .reduce((sum, adjustment) => sum + adjustment.points, entry.points);
+  }
+
+  /**
+   * Whether an entry is currently cancelled by a reversal that has not itself been reversed
+   */
+  static isReversed(entry: PointsLedgerEntry, ledger: PointsLedgerEntry[]): boolean {
+    return ledger.some(other =>
+      other.type === 'reversal' &&
+      other.relatedEntryId === entry.entryId &&
+      !this.isReversed(other, ledger)
+    );
+  }
+
+  /**
+   * Runs a recorded input back through PointsCalculator
+   */
+  static calculate(input: PointsCalculationInput, config: Partial<PointsConfig> = {}): PointsCalculation {
+    switch (input.kind) {
+      case 'code_submission':
+        return PointsCalculator.calculateCodeSubmissionPoints(input.analysis, input.difficulty, config);
+      case 'challenge':
+        return PointsCalculator.calculateChallengePoints(input.challenge, input.submission, input.completionTime, config);
+      case 'peer_review':
+        return PointsCalculator.calculatePeerReviewPoints(
+          input.reviewQuality,
+          input.reviewLength,
+          input.helpfulness,
+          input.isFirstReview
+        );
+      case 'community':
+        return PointsCalculator.calculateCommunityPoints(
+          input.contributionType,
+          input.impact,
+          input.communityVotes,
+          input.isAccepted
+        );
+      case 'streak':
+        return PointsCalculator.calculateStreakBonus(input.streakDays, input.streakType);
+      case 'ide_activity':
+        return PointsCalculator.calculateIdeActivityPoints(input.activityKind);
+    }
+  }
+
+  /**
+   * Adjustment entries that bring every calculated, unreversed entry in line with the
+   * given config. Running it again with the same config produces nothing.
+   */
+  static recompute(
+    ledger: PointsLedgerEntry[],
+    config: Partial<PointsConfig>,
+    reason: string,
+    now: Date = new Date()
+  ): PointsLedgerDraft[] {
+    return ledger
+      .filter(entry => entry.input && !this.isReversed(entry, ledger))
+      .flatMap(entry => {
+        const current = this.effectivePoints(entry, ledger);
+        const recalculated = this.calculate(entry.input!, config).totalPoints;
+        const delta = recalculated - current;
+        if (delta === 0) return [];
+
+        const breakdown: PointsBreakdown[] = [{
+          category: 'Recalculation',
+          points: delta,
+          description: `Recalculated from ${current} to ${recalculated} points`
+        }];
+        return [{
+          ...this.base(entry.userId, { sourceIds: entry.sourceIds, skillIds: entry.skillIds, competitionId: entry.competitionId }, now),
+          type: 'adjustment' as const,
+          points: delta,
+          breakdown,
+          description: `Adjusted: ${entry.description}`,
+          relatedEntryId: entry.entryId,
+          reason
+        }];
+      });
+  }
+
+  static emptyTotals(userId: string, now: Date = new Date()): PointsTotals {
+    return {
+      userId,
+      total: 0,
+      byType: Object.fromEntries(ENTRY_TYPES.map(type => [type, 0])) as Record<PointsLedgerEntryType, number>,
+      entryCount: 0,
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Folds one new entry into a user's totals
+   */
+  static applyToTotals(totals: PointsTotals | null, entry: Pick<PointsLedgerEntry, 'userId' | 'type' | 'points' | 'createdAt'>): PointsTotals {
+    const current = totals ?? this.emptyTotals(entry.userId, entry.createdAt);
+    return {
+      ...current,
+      total: current.total + entry.points,
+      byType: { ...current.byType, [entry.type]: (current.byType[entry.type] ?? 0) + entry.points },
+      entryCount: current.entryCount + 1,
+      lastEntryAt: !current.lastEntryAt || entry.createdAt > current.lastEntryAt ? entry.createdAt : current.lastEntryAt,
+      updatedAt: entry.createdAt
+    };
+  }
+
+  /**
+   * Rebuilds a user's totals by replaying their whole ledger
+   */
+  static project(userId: string, ledger: PointsLedgerEntry[], now: Date = new Date()): PointsTotals {
+    const totals = ledger
+      .filter(entry => entry.userId === userId)
+      .reduce<PointsTotals | null>((current, entry) => this.applyToTotals(current, entry), null);
+    return { ...(totals ?? this.emptyTotals(userId, now)), updatedAt: now };
+  }
+
+  private static base(userId: string, context: LedgerEntryContext, now: Date) {
+    return {
+      userId,
+      sourceIds: context.sourceIds ?? {},
+      skillIds: context.skillIds ?? [],
+      ...(context.competitionId && { competitionId: context.competitionId }),
+      ...(context.actorId && { actorId: context.actorId }),
+      createdAt: now
+    };
+  }
+
+  private static wholePositive(points: number): number {
+    if (!Number.isFinite(points) || points <= 0) {
+      throw new PointsLedgerError('Points must be a positive number', 'invalid_points');
+    }
+    return Math.round(points);
+  }
+}
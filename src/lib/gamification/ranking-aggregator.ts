@@ -0,0 +1,266 @@
+/**
+ * @fileOverview Incremental leaderboard aggregation
+ *
+ * Every point award is folded into one running entry per board, where a board is a
+ * scope (global, a skill or a competition) within a timeframe period. This module holds
+ * the pure parts of that model:
+ * - Period keys for daily, weekly (ISO week), monthly and all-time boards
+ * - Applying an award to an entry, including the all-time opening snapshot
+ * - Tie-aware ranks for a page of entries and opaque pagination cursors
+ */
+
+import {
+  LeaderboardEntry,
+  LeaderboardTimeframe,
+  PointAward,
+  RankingEntry,
+  RankingScope
+} from '@/types/gamification';
+
+export type RankingErrorCode = 'invalid_cursor' | 'invalid_scope';
+
+export class RankingError extends Error {
+  constructor(message: string, public readonly code: RankingErrorCode) {
+    super(message);
+    this.name = 'RankingError';
+  }
+}
+
+export interface RankingCursor {
+  points: number;
+  userId: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class RankingAggregator {
+  static readonly TIMEFRAMES: LeaderboardTimeframe[] = ['daily', 'weekly', 'monthly', 'all_time'];
+  static readonly ALL_TIME_PERIOD = 'all';
+
+  static scopeKey(scope: RankingScope): string {
+    switch (scope.type) {
+      case 'global':
+        return 'global';
+      case 'skill':
+        if (!scope.skillId) throw new RankingError('A skill leaderboard needs a skill', 'invalid_scope');
+        return `skill:${scope.skillId}`;
+      case 'competition':
+        if (!scope.competitionId) throw new RankingError('A competition leaderboard needs a competition', 'invalid_scope');
+        return `competition:${scope.competitionId}`;
+    }
+  }
+
+  static parseScopeKey(scopeKey: string): RankingScope {
+    const separator = scopeKey.indexOf(':');
+    const type = separator === -1 ? scopeKey : scopeKey.slice(0, separator);
+    const id = scopeKey.slice(separator + 1);
+    if (type === 'global') return { type: 'global' };
+    if (type === 'skill' && id) return { type: 'skill', skillId: id };
+    if (type === 'competition' && id) return { type: 'competition', competitionId: id };
+    throw new RankingError(`Unknown leaderboard scope ${scopeKey}`, 'invalid_scope');
+  }
+
+  /**
+   * Every scope an award counts toward: always global, plus each distinct skill and the competition
+   */
+  static scopesFor(award: Pick<PointAward, 'skillIds' | 'competitionId'>): RankingScope[] {
+    const skills = Array.from(new Set(award.skillIds.filter(Boolean)));
+    return [
+      { type: 'global' },
+      ...skills.map(skillId => ({ type: 'skill' as const, skillId })),
+      ...(award.competitionId ? [{ type: 'competition' as const, competitionId: award.competitionId }] : [])
+    ];
+  }
+
+  /**
+   * UTC period a date falls in, e.g. 2024-03-07, 2024-W10, 2024-03 or "all"
+   */
+  static periodKey(timeframe: LeaderboardTimeframe, date: Date): string {
+    const iso = date.toISOString();
+    switch (timeframe) {
+      case 'daily':
+        return iso.slice(0, 10);
+      case 'monthly':
+        return iso.slice(0, 7);
+      case 'weekly': {
+        // ISO weeks belong to the year that contains their Thursday
+        const day = date.getUTCDay() || 7;
+        const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 4 - day));
+        const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+        const week = Math.ceil(((thursday.getTime() - yearStart) / DAY_MS + 1) / 7);
+        return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+      }
+      case 'all_time':
+        return this.ALL_TIME_PERIOD;
+    }
+  }
+
+  /**
+   * Start of the period a date falls in; all-time boards have no boundaries
+   */
+  static periodStart(timeframe: Exclude<LeaderboardTimeframe, 'all_time'>, date: Date): Date {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    switch (timeframe) {
+      case 'daily':
+        return new Date(Date.UTC(year, month, day));
+      case 'weekly':
+        return new Date(Date.UTC(year, month, day - ((date.getUTCDay() || 7) - 1)));
+      case 'monthly':
+        return new Date(Date.UTC(year, month, 1));
+    }
+  }
+
+  /**
+   * When the current period ends and the board starts over; all-time boards roll their
+   * rank snapshot daily
+   */
+  static nextBoundary(timeframe: LeaderboardTimeframe, date: Date): Date {
+    switch (timeframe) {
+      case 'daily':
+      case 'all_time':
+        return new Date(this.periodStart('daily', date).getTime() + DAY_MS);
+      case 'weekly':
+        return new Date(this.periodStart('weekly', date).getTime() + 7 * DAY_MS);
+      case 'monthly': {
+        const start = this.periodStart('monthly', date);
+        return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+      }
+    }
+  }
+
+  static boardId(scopeKey: string, timeframe: LeaderboardTimeframe, periodKey: string): string {
+    return `${scopeKey}|${timeframe}|${periodKey}`;
+  }
+
+  static boardFor(scope: RankingScope, timeframe: LeaderboardTimeframe, date: Date): string {
+    return this.boardId(this.scopeKey(scope), timeframe, this.periodKey(timeframe, date));
+  }
+
+  /**
+   * The board the entry's period-over-period rank change is measured against
+   */
+  static previousBoardId(entry: Pick<RankingEntry, 'scopeKey' | 'timeframe' | 'lastActivity'>): string | null {
+    if (entry.timeframe === 'all_time') return null;
+    const previous = new Date(this.periodStart(entry.timeframe, entry.lastActivity).getTime() - 1);
+    return this.boardId(entry.scopeKey, entry.timeframe, this.periodKey(entry.timeframe, previous));
+  }
+
+  /**
+   * Period a previous-rank snapshot is valid for: the board's own period, or the current
+   * day for all-time boards
+   */
+  static snapshotPeriod(entry: Pick<RankingEntry, 'timeframe' | 'periodKey'>, now: Date): string {
+    return entry.timeframe === 'all_time' ? this.periodKey('daily', now) : entry.periodKey;
+  }
+
+  /**
+   * Points the entry held when the given day started
+   */
+  static openingPoints(entry: Pick<RankingEntry, 'points' | 'openingPeriod' | 'openingPoints'>, day: string): number {
+    return entry.openingPeriod === day ? entry.openingPoints : entry.points;
+  }
+
+  /**
+   * Folds an award into the user's entry on one board, creating it on their first award.
+   * The first award of each day captures the opening points for all-time rank snapshots.
+   * Negative awards (penalties, reversals) are added as they are, so an entry is always the
+   * sum of its awards whatever order they arrive in; see displayPoints.
+   */
+  static applyAward(
+    existing: RankingEntry | null,
+    scope: RankingScope,
+    timeframe: LeaderboardTimeframe,
+    award: PointAward
+  ): RankingEntry {
+    const scopeKey = this.scopeKey(scope);
+    const earnedAt = award.earnedAt ?? award.awardedAt;
+    const periodKey = this.periodKey(timeframe, earnedAt);
+    const day = this.periodKey('daily', award.awardedAt);
+    const points = Math.round(award.points);
+
+    if (!existing) {
+      return {
+        username: award.userId,
+        skillLevels: {},
+        badgeCount: 0,
+        rareBadgeCount: 0,
+        ...award.profile,
+        boardId: this.boardId(scopeKey, timeframe, periodKey),
+        scopeKey,
+        timeframe,
+        periodKey,
+        userId: award.userId,
+        points,
+        awardCount: 1,
+        openingPeriod: day,
+        openingPoints: 0,
+        firstAwardAt: earnedAt,
+        lastActivity: earnedAt
+      };
+    }
+
+    return {
+      ...existing,
+      ...award.profile,
+      points: existing.points + points,
+      awardCount: existing.awardCount + 1,
+      openingPeriod: day,
+      openingPoints: this.openingPoints(existing, day),
+      lastActivity: earnedAt > existing.lastActivity ? earnedAt : existing.lastActivity
+    };
+  }
+
+  /**
+   * Points shown for an entry; a penalty can take the stored sum below zero
+   */
+  static displayPoints(points: number): number {
+    return Math.max(0, points);
+  }
+
+  /**
+   * Competition ranks ("1224") for a page sorted by points, then user id. countAbove is the
+   * number of entries with more points than the first one; precedingCount is the number of
+   * entries ahead of it in that order, including ties.
+   */
+  static rankPage(entries: Array<Pick<RankingEntry, 'points'>>, countAbove: number, precedingCount: number): number[] {
+    const ranks: number[] = [];
+    entries.forEach((entry, index) => {
+      if (index === 0) {
+        ranks.push(countAbove + 1);
+      } else if (entry.points === entries[index - 1].points) {
+        ranks.push(ranks[index - 1]);
+      } else {
+        ranks.push(precedingCount + index + 1);
+      }
+    });
+    return ranks;
+  }
+
+  static rankChange(rank: number, previousRank?: number): LeaderboardEntry['rankChange'] {
+    if (previousRank === undefined) return 'new';
+    if (rank < previousRank) return 'up';
+    if (rank > previousRank) return 'down';
+    return 'same';
+  }
+
+  static encodeCursor(entry: Pick<RankingEntry, 'points' | 'userId'>): string {
+    return `${entry.points}:${encodeURIComponent(entry.userId)}`;
+  }
+
+  static decodeCursor(cursor: string): RankingCursor {
+    const separator = cursor.indexOf(':');
+    const points = Number(cursor.slice(0, separator));
+    let userId = '';
+    try {
+      userId = separator > 0 ? decodeURIComponent(cursor.slice(separator + 1)) : '';
+    } catch {
+      // Malformed escapes fall through to the invalid cursor error
+    }
+    if (!userId || !Number.isFinite(points)) {
+      throw new RankingError('Invalid leaderboard cursor', 'invalid_cursor');
+    }
+    return { points, userId };
+  }
+}
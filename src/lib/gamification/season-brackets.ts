@@ -0,0 +1,233 @@
+/**
+ * @fileOverview Season placement, brackets and end-of-season tier movement
+ *
+ * A seasonal competition doubles as a season: entrants compete within a bracket and, when
+ * it ends, the top of each bracket moves up a tier and the bottom moves down. This module
+ * holds the pure parts of that model:
+ * - Skill ratings and starting tiers from a user's progress and last season
+ * - Placing an entrant in the closest-rated division with room, opening one when none is close
+ * - Ranking each bracket and settling promotions, relegations and season badges
+ */
+
+import {
+  Competition,
+  Season,
+  SeasonBracket,
+  SeasonResult,
+  SeasonSettings,
+  SeasonStanding,
+  SeasonTier
+} from '@/types/gamification';
+import { UserProgress } from '@/types/analytics';
+
+export type SeasonErrorCode = 'invalid_settings' | 'season_not_found';
+
+export class SeasonError extends Error {
+  constructor(message: string, public readonly code: SeasonErrorCode) {
+    super(message);
+    this.name = 'SeasonError';
+  }
+}
+
+export interface SeasonEntrant {
+  userId: string;
+  username: string;
+  tier: SeasonTier;
+  skillRating: number;
+}
+
+export class SeasonBrackets {
+  static readonly TIERS: SeasonTier[] = ['bronze', 'silver', 'gold', 'platinum', 'diamond'];
+  static readonly DEFAULT_SETTINGS: SeasonSettings = {
+    bracketing: 'tier',
+    divisionSize: 30,
+    promotionSlots: 5,
+    relegationSlots: 5
+  };
+  static readonly RATING_TOLERANCE = 50; // Half a skill level; further than this opens a new division
+  static readonly CHAMPION_BADGE = 'Season Champion';
+  static readonly PROMOTION_BADGE = 'Season Climber';
+
+  // Placement never starts anyone above gold; platinum and diamond are reached by promotion
+  private static readonly PLACEMENT_TIERS: Array<{ minRating: number; tier: SeasonTier }> = [
+    { minRating: 300, tier: 'gold' },
+    { minRating: 200, tier: 'silver' },
+    { minRating: 0, tier: 'bronze' }
+  ];
+
+  static createSeason(
+    competition: Pick<Competition, 'competitionId' | 'title' | 'startDate' | 'endDate'>,
+    settings: Partial<SeasonSettings> = {}
+  ): Season {
+    const seasonSettings = { ...this.DEFAULT_SETTINGS, ...settings };
+    const errors = this.validateSettings(seasonSettings);
+    if (errors.length > 0) {
+      throw new SeasonError(`Invalid season settings: ${errors.join('; ')}`, 'invalid_settings');
+    }
+
+    return {
+      seasonId: competition.competitionId,
+      name: competition.title,
+      startDate: competition.startDate,
+      endDate: competition.endDate,
+      ...seasonSettings,
+      brackets: [],
+      status: 'active'
+    };
+  }
+
+  static validateSettings(settings: SeasonSettings): string[] {
+    const errors: string[] = [];
+    if (settings.bracketing !== 'tier' && settings.bracketing !== 'skill') {
+      errors.push('bracketing must be tier or skill');
+    }
+    if (!Number.isInteger(settings.divisionSize) || settings.divisionSize < 2) {
+      errors.push('divisionSize must be a whole number of at least 2');
+    }
+    if (!Number.isInteger(settings.promotionSlots) || settings.promotionSlots < 0) {
+      errors.push('promotionSlots must be a whole number of at least 0');
+    }
+    if (!Number.isInteger(settings.relegationSlots) || settings.relegationSlots < 0) {
+      errors.push('relegationSlots must be a whole number of at least 0');
+    }
+    if (settings.promotionSlots + settings.relegationSlots > settings.divisionSize) {
+      errors.push('promotionSlots and relegationSlots together must not exceed divisionSize');
+    }
+    return errors;
+  }
+
+  /**
+   * Average skill level across the user's skills, times 100; 0 for a user with no skills yet
+   */
+  static skillRating(progress: UserProgress | null): number {
+    const levels = progress ? Array.from(progress.skillLevels.values()).map(skill => skill.currentLevel) : [];
+    if (levels.length === 0) return 0;
+    return Math.round((levels.reduce((sum, level) => sum + level, 0) / levels.length) * 100);
+  }
+
+  /**
+   * The tier a user starts a season in: where their last season left them, or placed by
+   * skill rating for their first season
+   */
+  static startingTier(skillRating: number, previous?: Pick<SeasonResult, 'nextTier'> | null): SeasonTier {
+    if (previous) return previous.nextTier;
+    return this.PLACEMENT_TIERS.find(placement => skillRating >= placement.minRating)!.tier;
+  }
+
+  /**
+   * Places an entrant in the division of their group (their tier, or every entrant with skill
+   * bracketing) whose average rating is closest to theirs, among those with room and within
+   * RATING_TOLERANCE; otherwise opens the group's next division
+   */
+  static place(
+    season: Season,
+    entrant: SeasonEntrant,
+    placedAt: Date = new Date()
+  ): { standing: SeasonStanding; brackets: SeasonBracket[] } {
+    const tier = season.bracketing === 'tier' ? entrant.tier : undefined;
+    const group = season.brackets.filter(bracket => bracket.tier === tier);
+
+    const closest = group
+      .filter(bracket => bracket.entrants < season.divisionSize)
+      .map(bracket => ({ bracket, distance: Math.abs(bracket.ratingTotal / bracket.entrants - entrant.skillRating) }))
+      .filter(candidate => candidate.distance <= this.RATING_TOLERANCE)
+      .sort((a, b) => a.distance - b.distance || a.bracket.division - b.bracket.division)[0]?.bracket;
+
+    let bracket: SeasonBracket;
+    let brackets: SeasonBracket[];
+    if (closest) {
+      bracket = { ...closest, entrants: closest.entrants + 1, ratingTotal: closest.ratingTotal + entrant.skillRating };
+      brackets = season.brackets.map(existing => existing.bracketId === bracket.bracketId ? bracket : existing);
+    } else {
+      const division = group.reduce((max, existing) => Math.max(max, existing.division), 0) + 1;
+      bracket = {
+        bracketId: `${tier ?? 'skill'}-${division}`,
+        ...(tier && { tier }),
+        division,
+        entrants: 1,
+        ratingTotal: entrant.skillRating
+      };
+      brackets = [...season.brackets, bracket];
+    }
+
+    return {
+      standing: {
+        seasonId: season.seasonId,
+        userId: entrant.userId,
+        username: entrant.username,
+        tier: entrant.tier,
+        bracketId: bracket.bracketId,
+        skillRating: entrant.skillRating,
+        placedAt
+      },
+      brackets
+    };
+  }
+
+  /**
+   * Final results for every entrant, ranked within their bracket by score with earlier
+   * placement breaking ties. The top promotionSlots move up a tier and the bottom
+   * relegationSlots move down; entrants who never scored are not promoted, and tiers stop at
+   * bronze and diamond. Bracket winners and promoted entrants earn the season's badges.
+   */
+  static settle(
+    season: Season,
+    standings: SeasonStanding[],
+    scores: Map<string, number>,
+    endedAt: Date = new Date()
+  ): SeasonResult[] {
+    const byBracket = new Map<string, SeasonStanding[]>();
+    standings.forEach(standing => {
+      byBracket.set(standing.bracketId, [...(byBracket.get(standing.bracketId) ?? []), standing]);
+    });
+
+    return Array.from(byBracket.values()).flatMap(entrants => {
+      const ranked = entrants
+        .map(standing => ({ standing, score: scores.get(standing.userId) ?? 0 }))
+        .sort((a, b) => b.score - a.score || a.standing.placedAt.getTime() - b.standing.placedAt.getTime());
+
+      return ranked.map(({ standing, score }, index): SeasonResult => {
+        const rank = index + 1;
+        const movement = this.movementFor(season, standing.tier, rank, ranked.length, score);
+        const step = movement === 'promoted' ? 1 : movement === 'relegated' ? -1 : 0;
+
+        return {
+          seasonId: season.seasonId,
+          seasonName: season.name,
+          userId: standing.userId,
+          username: standing.username,
+          bracketId: standing.bracketId,
+          tier: standing.tier,
+          nextTier: this.TIERS[this.TIERS.indexOf(standing.tier) + step],
+          movement,
+          rank,
+          bracketSize: ranked.length,
+          score,
+          badgeNames: [
+            ...(rank === 1 && score > 0 ? [this.CHAMPION_BADGE] : []),
+            ...(movement === 'promoted' ? [this.PROMOTION_BADGE] : [])
+          ],
+          endedAt
+        };
+      });
+    });
+  }
+
+  private static movementFor(
+    season: Season,
+    tier: SeasonTier,
+    rank: number,
+    bracketSize: number,
+    score: number
+  ): SeasonResult['movement'] {
+    const tierIndex = this.TIERS.indexOf(tier);
+    if (rank <= season.promotionSlots && score > 0 && tierIndex < this.TIERS.length - 1) {
+      return 'promoted';
+    }
+    // Promotion slots are filled first, so a small bracket never relegates its leaders
+    if (rank > Math.max(season.promotionSlots, bracketSize - season.relegationSlots) && tierIndex > 0) {
+      return 'relegated';
+    }
+    return 'stayed';
+  }
+}
@@ -1,6 +1,6 @@
-import { genkit } from 'genkit';
-import { gemini20FlashExp } from '@genkit-ai/googleai';
-import { z } from 'zod';
+import { z } from 'genkit';
+import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
 import { GitHubService, GitHubRepository, GitHubCommit } from './github-service';
 
 const RepositoryFeedbackSchema = z.object({
@@ -28,6 +28,13 @@ const CommitFeedbackSchema = z.object({
   skillsUsed: z.array(z.string()).describe('Programming skills demonstrated in this commit'),
 });
 
+const LearningInsightsSchema = z.object({
+  overallProgress: z.string().describe('Overall assessment of the developer\'s progress'),
+  skillGaps: z.array(z.string()).describe('Identified skill gaps that need attention'),
+  recommendedLearningPath: z.array(z.string()).describe('Recommended learning path to improve skills'),
+  nextSteps: z.array(z.string()).describe('Specific next steps the developer should take'),
+});
+
 export interface RepositoryFeedback {
   repositoryId: string;
   repositoryName: string;
@@ -72,28 +79,7 @@ export class GitHubAIFeedbackService {
     try {
       const repositoryData = await this.githubService.getRepositoryForAnalysis(owner, repo);
       
-      const analyzeRepository = genkit({
-        name: 'analyzeGitHubRepository',
-        model: gemini20FlashExp,
-        inputSchema: z.object({
-          repository: z.object({
-            name: z.string(),
-            description: z.string().nullable(),
-            language: z.string().nullable(),
-          }),
-          codeFiles: z.array(z.object({
-            filename: z.string(),
-            content: z.string(),
-          })),
-          recentCommits: z.array(z.object({
-            message: z.string(),
-            sha: z.string(),
-          })),
-        }),
-        outputSchema: RepositoryFeedbackSchema,
-      });
-
-      const result = await analyzeRepository({
+      const input = {
         repository: {
           name: repositoryData.repository.name,
           description: repositoryData.repository.description,
@@ -104,7 +90,19 @@ export class GitHubAIFeedbackService {
           message: commit.commit.message,
           sha: commit.sha,
         })),
+      };
+
+      const { output: result } = await ai.generate({
+        model: modelFor('githubFeedback'),
+        prompt: `You are Kiro, an AI code mentor. Review this GitHub repository: assess its code quality and structure, the strengths and skills it demonstrates, and what the developer should improve.
+
+Repository, sampled code files and recent commits (JSON):
+${JSON.stringify(input, null, 2)}`,
+        output: { schema: RepositoryFeedbackSchema },
       });
+      if (!result) {
+        throw new Error('AI response did not match the expected format');
+      }
 
       return {
         repositoryId: repositoryData.repository.id.toString(),
@@ -134,28 +132,7 @@ export class GitHubAIFeedbackService {
         ref: commitSha,
       });
 
-      const analyzeCommit = genkit({
-        name: 'analyzeGitHubCommit',
-        model: gemini20FlashExp,
-        inputSchema: z.object({
-          commitMessage: z.string(),
-          files: z.array(z.object({
-            filename: z.string(),
-            status: z.string(),
-            additions: z.number(),
-            deletions: z.number(),
-            patch: z.string().optional(),
-          })),
-          stats: z.object({
-            additions: z.number(),
-            deletions: z.number(),
-            total: z.number(),
-          }).optional(),
-        }),
-        outputSchema: CommitFeedbackSchema,
-      });
-
-      const result = await analyzeCommit({
+      const input = {
         commitMessage: commit.commit.message,
         files: (commit.files || []).map(file => ({
           filename: file.filename,
@@ -169,7 +146,19 @@ export class GitHubAIFeedbackService {
           deletions: commit.stats.deletions,
           total: commit.stats.total,
         } : undefined,
+      };
+
+      const { output: result } = await ai.generate({
+        model: modelFor('githubFeedback'),
+        prompt: `You are Kiro, an AI code mentor. Review this GitHub commit: rate its message and code changes, suggest improvements and list the skills it shows.
+
+Commit message, changed files with truncated patches and stats (JSON):
+${JSON.stringify(input, null, 2)}`,
+        output: { schema: CommitFeedbackSchema },
       });
+      if (!result) {
+        throw new Error('AI response did not match the expected format');
+      }
 
       return {
         commitSha: commit.sha,
@@ -217,37 +206,24 @@ export class GitHubAIFeedbackService {
     nextSteps: string[];
   }> {
     try {
-      const generateInsights = genkit({
-        name: 'generateGitHubLearningInsights',
-        model: gemini20FlashExp,
-        inputSchema: z.object({
-          repositories: z.array(z.object({
-            name: z.string(),
-            codeQualityScore: z.number(),
-            skillsIdentified: z.array(z.object({
-              skill: z.string(),
-              level: z.string(),
-              evidence: z.string(),
-            })),
-            improvementAreas: z.array(z.string()),
-          })),
-        }),
-        outputSchema: z.object({
-          overallProgress: z.string().describe('Overall assessment of the developer\'s progress'),
-          skillGaps: z.array(z.string()).describe('Identified skill gaps that need attention'),
-          recommendedLearningPath: z.array(z.string()).describe('Recommended learning path to improve skills'),
-          nextSteps: z.array(z.string()).describe('Specific next steps the developer should take'),
-        }),
-      });
-
-      const result = await generateInsights({
-        repositories: repositoryFeedback.map(feedback => ({
-          name: feedback.repositoryName,
-          codeQualityScore: feedback.codeQualityScore,
-          skillsIdentified: feedback.skillsIdentified,
-          improvementAreas: feedback.improvementAreas,
-        })),
+      const repositories = repositoryFeedback.map(feedback => ({
+        name: feedback.repositoryName,
+        codeQualityScore: feedback.codeQualityScore,
+        skillsIdentified: feedback.skillsIdentified,
+        improvementAreas: feedback.improvementAreas,
+      }));
+
+      const { output: result } = await ai.generate({
+        model: modelFor('githubFeedback'),
+        prompt: `You are Kiro, an AI code mentor. From these analyses of a developer's GitHub repositories, assess their overall progress, the skill gaps to work on, a learning path and concrete next steps.
+
+Repository analyses (JSON):
+${JSON.stringify(repositories, null, 2)}`,
+        output: { schema: LearningInsightsSchema },
       });
+      if (!result) {
+        throw new Error('AI response did not match the expected format');
+      }
 
       return result;
     } catch (error) {
@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import {
   generateApiKey,
   hashApiKey,
+  getApiKeyId,
+  verifyApiKeyHash,
   isValidApiKeyFormat,
   extractUserIdFromApiKey,
   RateLimiter,
@@ -45,6 +47,28 @@ describe('Auth Utils', () => {
     });
   });
 
+  describe('getApiKeyId', () => {
+    it('should derive a stable id that differs between keys of the same user', () => {
+      const key1 = generateApiKey('testuser');
+      const key2 = generateApiKey('testuser');
+
+      expect(getApiKeyId(key1)).toBe(getApiKeyId(key1));
+      expect(getApiKeyId(key1)).not.toBe(getApiKeyId(key2));
+      expect(getApiKeyId(key1)).not.toContain('testuser');
+    });
+  });
+
+  describe('verifyApiKeyHash', () => {
+    it('should accept only the key that produced the hash', () => {
+      const apiKey = generateApiKey('testuser');
+      const hashedKey = hashApiKey(apiKey);
+
+      expect(verifyApiKeyHash(apiKey, hashedKey)).toBe(true);
+      expect(verifyApiKeyHash(generateApiKey('testuser'), hashedKey)).toBe(false);
+      expect(verifyApiKeyHash(apiKey, 'not-a-hash')).toBe(false);
+    });
+  });
+
   describe('isValidApiKeyFormat', () => {
     it('should validate correct API key format', () => {
       const validKey = 'kiro_user123_abc123_12345678_abcdef1234567890abcdef1234567890abcdef12';
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { DocumentRegions, DocumentStore } from '../document-sync';
+import { TextEdits } from '../text-edits';
+import type { TextEdit } from '@/types/ide-integration';
+
+const edit = (startLine: number, startColumn: number, endLine: number, endColumn: number, text: string): TextEdit => ({
+  range: { startLine, startColumn, endLine, endColumn },
+  text,
+});
+
+const SOURCE = [
+  'import { sum } from "./math";', // 1
+  '',
+  'export function total(items) {', // 3
+  '  let result = 0;',
+  '  for (const item of items) {',
+  '    result = sum(result, item.price);',
+  '  }',
+  '  return result;',
+  '}', // 9
+  '',
+  'export function label(item) {', // 11
+  '  return item.name;',
+  '}', // 13
+  '',
+  'export const TAX = 0.2;', // 15
+  '',
+  'export function tax(amount) {', // 17
+  '  return amount * TAX;',
+  '}', // 19
+].join('\n');
+
+describe('TextEdits', () => {
+  it('applies edits in order against the text left by the previous one', () => {
+    const text = TextEdits.apply('const a = 1;\nconst b = 2;', [
+      edit(1, 11, 1, 12, '10'),
+      edit(2, 1, 2, 1, '// b\n'),
+      edit(1, 14, 1, 14, ' // a'),
+    ]);
+
+    expect(text).toBe('const a = 10; // a\n// b\nconst b = 2;');
+  });
+
+  it('rejects edits outside the text', () => {
+    expect(() => TextEdits.apply('one\ntwo', [edit(3, 1, 3, 1, 'x')])).toThrow(RangeError);
+    expect(() => TextEdits.apply('one\ntwo', [edit(1, 5, 1, 5, 'x')])).toThrow(RangeError);
+    expect(() => TextEdits.apply('one\ntwo', [edit(2, 2, 1, 1, 'x')])).toThrow(RangeError);
+  });
+
+  it('moves earlier changed lines along with inserted and removed lines', () => {
+    const lines = Array.from({ length: 10 }, (_, index) => `line ${index + 1}`).join('\n');
+
+    const { changedLines } = TextEdits.applyTracked(lines, [
+      edit(8, 1, 8, 1, 'x'), // marks line 8
+      edit(2, 1, 2, 1, 'a\nb\n'), // two lines inserted above it
+      edit(5, 1, 6, 1, ''), // one line removed above it, touching line 5
+    ], []);
+
+    expect(changedLines).toEqual([
+      { startLine: 2, endLine: 5 },
+      { startLine: 9, endLine: 9 },
+    ]);
+  });
+});
+
+describe('DocumentStore', () => {
+  it('tracks versions and asks for a full sync when they diverge', () => {
+    const store = new DocumentStore();
+    store.open({ uri: 'file:///cart.js', text: SOURCE, version: 1, language: 'javascript' });
+
+    const document = store.change('file:///cart.js', 2, [edit(12, 15, 12, 19, 'title')]);
+    expect(document.text.split('\n')[11]).toBe('  return item.title;');
+
+    expect(() => store.change('file:///cart.js', 4, [])).toThrow(expect.objectContaining({ code: 'version_mismatch' }));
+    // The diverged copy is dropped, so later deltas fail until the plugin reopens the document
+    expect(() => store.change('file:///cart.js', 3, [])).toThrow(expect.objectContaining({ code: 'unknown_document' }));
+    expect(() => store.change('file:///other.js', 1, [])).toThrow(expect.objectContaining({ code: 'unknown_document' }));
+  });
+
+  it('drops the document when an edit does not fit its text', () => {
+    const store = new DocumentStore();
+    store.open({ uri: 'a.js', text: 'one', version: 1 });
+
+    expect(() => store.change('a.js', 2, [edit(5, 1, 5, 1, 'x')])).toThrow(expect.objectContaining({ code: 'invalid_edit' }));
+    expect(store.get('a.js')).toBeUndefined();
+  });
+});
+
+describe('DocumentRegions', () => {
+  it('re-analyzes only the functions containing the changes', () => {
+    const regions = DocumentRegions.forChanges({
+      text: SOURCE,
+      language: 'javascript',
+      changedLines: [{ startLine: 6, endLine: 6 }, { startLine: 18, endLine: 18 }],
+    });
+
+    expect(regions.map(region => [region.range.startLine, region.range.endLine])).toEqual([[3, 9], [17, 19]]);
+    expect(regions[1].code).toBe('export function tax(amount) {\n  return amount * TAX;\n}');
+    expect(regions[1].range.endColumn).toBe(2);
+  });
+
+  it('keeps changes outside functions to their own lines', () => {
+    const regions = DocumentRegions.forChanges({
+      text: SOURCE,
+      language: 'typescript',
+      changedLines: [{ startLine: 15, endLine: 15 }],
+    });
+
+    expect(regions.map(region => region.code)).toEqual(['export const TAX = 0.2;']);
+  });
+
+  it('adds context lines for languages it cannot parse', () => {
+    const regions = DocumentRegions.forChanges({
+      text: SOURCE,
+      language: 'python',
+      changedLines: [{ startLine: 12, endLine: 12 }],
+    });
+
+    expect(regions[0].range).toMatchObject({ startLine: 9, endLine: 15 });
+  });
+
+  it('falls back to the whole document when most of it changed', () => {
+    const regions = DocumentRegions.forChanges({
+      text: SOURCE,
+      language: 'javascript',
+      changedLines: [{ startLine: 1, endLine: 19 }],
+    });
+
+    expect(regions).toHaveLength(1);
+    expect(regions[0].code).toBe(SOURCE);
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PassThrough } from 'stream';
+import { LspConnection } from '../lsp-connection';
+import { ASK_KIRO_COMMAND, KiroLanguageServer } from '../lsp-server';
+import type { CodeDiagnostic } from '@/types/code-feedback';
+
+function frame(message: object): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`;
+}
+
+function parseFrames(output: string): any[] {
+  const messages: any[] = [];
+  let rest = output;
+  while (rest.length > 0) {
+    const headerEnd = rest.indexOf('\r\n\r\n');
+    const length = Number(rest.slice(0, headerEnd).match(/Content-Length: (\d+)/)![1]);
+    const body = Buffer.from(rest.slice(headerEnd + 4));
+    messages.push(JSON.parse(body.subarray(0, length).toString()));
+    rest = body.subarray(length).toString();
+  }
+  return messages;
+}
+
+const diagnostic = (id: string, line: number, suggestedReplacement?: string): CodeDiagnostic => ({
+  id,
+  range: { startLine: line, startColumn: 3, endLine: line, endColumn: 9 },
+  severity: 'warning',
+  category: 'style',
+  message: `Issue ${id}`,
+  explanation: `Why ${id} matters`,
+  suggestedReplacement,
+});
+
+describe('KiroLanguageServer', () => {
+  let input: PassThrough;
+  let output: string;
+  let listeners: Record<string, Function>;
+  let client: Record<string, ReturnType<typeof vi.fn>>;
+  let nextId: number;
+
+  const TEXT = 'function a() {\n  return 1;\n}\n\nfunction b() {\n  return 2;\n}';
+  const URI = 'file:///work/app.ts';
+
+  async function send(method: string, params: object, isRequest = false) {
+    const id = isRequest ? nextId++ : undefined;
+    input.write(frame({ jsonrpc: '2.0', ...(id !== undefined && { id }), method, params }));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    return id;
+  }
+
+  async function request(method: string, params: object) {
+    const id = await send(method, params, true);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    return parseFrames(output).find(message => message.id === id);
+  }
+
+  const notifications = (method: string) =>
+    parseFrames(output).filter(message => message.method === method).map(message => message.params);
+
+  function start() {
+    input = new PassThrough();
+    const stdout = new PassThrough();
+    output = '';
+    stdout.on('data', chunk => { output += chunk.toString(); });
+
+    const connection = new LspConnection(input, stdout);
+    new KiroLanguageServer(connection, { createClient: () => client as any, env: {} }).register();
+    connection.listen();
+  }
+
+  beforeEach(async () => {
+    listeners = {};
+    nextId = 1;
+
+    client = {
+      initialize: vi.fn(async () => {}),
+      openDocument: vi.fn(),
+      changeDocument: vi.fn(() => 2),
+      closeDocument: vi.fn(),
+      getUserCredentials: vi.fn(async () => ({
+        badges: [],
+        skills: [{ skillId: 'typescript', skillName: 'TypeScript', level: 3, experiencePoints: 640, lastUpdated: '' }],
+        profileUrl: '',
+      })),
+      getCodeFeedback: vi.fn(),
+      on: vi.fn((event: string, listener: Function) => { listeners[event] = listener; }),
+      disconnect: vi.fn(),
+    };
+
+    start();
+
+    await request('initialize', { initializationOptions: { apiKey: 'kiro_user1_key', userId: 'user1' } });
+    await send('initialized', {});
+    await send('textDocument/didOpen', { textDocument: { uri: URI, languageId: 'typescript', version: 1, text: TEXT } });
+  });
+
+  it('refuses to start without credentials', async () => {
+    start();
+
+    const response = await request('initialize', {});
+    expect(response.error.code).toBe(-32602);
+  });
+
+  it('syncs documents incrementally through the SDK', async () => {
+    expect(client.openDocument).toHaveBeenCalledWith(URI, TEXT, { language: 'typescript' });
+
+    await send('textDocument/didChange', {
+      textDocument: { uri: URI, version: 2 },
+      contentChanges: [{ range: { start: { line: 5, character: 9 }, end: { line: 5, character: 10 } }, text: '20' }],
+    });
+
+    expect(client.changeDocument).toHaveBeenCalledWith(URI, [
+      { range: { startLine: 6, startColumn: 10, endLine: 6, endColumn: 11 }, text: '20' },
+    ]);
+  });
+
+  it('publishes Kiro diagnostics and merges region results', async () => {
+    listeners.document_analysis({ uri: URI, version: 1, ranges: [], diagnostics: [diagnostic('d1', 2), diagnostic('d2', 6)] });
+    listeners.document_analysis({
+      uri: URI,
+      version: 1,
+      ranges: [{ startLine: 5, startColumn: 1, endLine: 7, endColumn: 2 }],
+      diagnostics: [diagnostic('d3', 6)],
+    });
+
+    const published = notifications('textDocument/publishDiagnostics');
+    expect(published[published.length - 1].diagnostics.map((d: any) => d.data.id)).toEqual(['d1', 'd3']);
+    expect(published[published.length - 1].diagnostics[0]).toMatchObject({
+      range: { start: { line: 1, character: 2 }, end: { line: 1, character: 8 } },
+      severity: 2,
+      source: 'Kiro',
+      code: 'style',
+    });
+  });
+
+  it('ignores results for versions the editor has moved past and shifts kept diagnostics', async () => {
+    listeners.document_analysis({ uri: URI, version: 1, ranges: [], diagnostics: [diagnostic('d1', 2), diagnostic('d2', 6)] });
+
+    await send('textDocument/didChange', {
+      textDocument: { uri: URI, version: 2 },
+      contentChanges: [{ range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }, text: '// header\n' }],
+    });
+    listeners.document_analysis({ uri: URI, version: 1, ranges: [], diagnostics: [diagnostic('stale', 1)] });
+
+    const published = notifications('textDocument/publishDiagnostics');
+    const latest = published[published.length - 1].diagnostics;
+    expect(latest.map((d: any) => [d.data.id, d.range.start.line])).toEqual([['d1', 2], ['d2', 6]]);
+  });
+
+  it('offers suggested replacements as quick fixes', async () => {
+    listeners.document_analysis({
+      uri: URI,
+      version: 1,
+      ranges: [],
+      diagnostics: [diagnostic('d1', 2, 'return 10'), diagnostic('d2', 6)],
+    });
+
+    const response = await request('textDocument/codeAction', {
+      textDocument: { uri: URI },
+      range: { start: { line: 0, character: 0 }, end: { line: 6, character: 0 } },
+      context: { diagnostics: [] },
+    });
+
+    expect(response.result).toEqual([expect.objectContaining({
+      title: 'Kiro: Issue d1',
+      kind: 'quickfix',
+      edit: { changes: { [URI]: [{ range: { start: { line: 1, character: 2 }, end: { line: 1, character: 8 } }, newText: 'return 10' }] } },
+    })]);
+  });
+
+  it('shows diagnostic explanations and the skill level on hover', async () => {
+    listeners.document_analysis({ uri: URI, version: 1, ranges: [], diagnostics: [diagnostic('d1', 2)] });
+
+    const response = await request('textDocument/hover', { textDocument: { uri: URI }, position: { line: 1, character: 4 } });
+
+    expect(response.result.contents.value).toContain('Why d1 matters');
+    expect(response.result.contents.value).toContain('TypeScript: level 3 · 640 XP');
+  });
+
+  it('asks Kiro about a selection and shows the answer', async () => {
+    client.getCodeFeedback.mockResolvedValue({
+      feedback: 'Looks good',
+      diagnostics: [diagnostic('r1', 1)],
+    });
+
+    const response = await request('workspace/executeCommand', {
+      command: ASK_KIRO_COMMAND,
+      arguments: [{ uri: URI, range: { start: { line: 4, character: 0 }, end: { line: 6, character: 1 } } }],
+    });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(client.getCodeFeedback).toHaveBeenCalledWith(expect.objectContaining({ code: 'function b() {\n  return 2;\n}' }));
+    expect(response.result.feedback).toBe('Looks good');
+    expect(notifications('window/showMessage')).toContainEqual({ type: 3, message: 'Looks good' });
+    const published = notifications('textDocument/publishDiagnostics');
+    expect(published[published.length - 1].diagnostics[0].range.start.line).toBe(4);
+  });
+
+  it('announces earned badges and reloads skills after progress', async () => {
+    await request('textDocument/hover', { textDocument: { uri: URI }, position: { line: 1, character: 4 } });
+
+    listeners.feedback({
+      type: 'badge_earned',
+      userId: 'user1',
+      data: { badgeId: 'b1', name: 'Bug Hunter', description: '', rarity: 'rare', awardedAt: '', sessionId: 's1' },
+      timestamp: '',
+    });
+    await request('textDocument/hover', { textDocument: { uri: URI }, position: { line: 1, character: 4 } });
+
+    expect(notifications('window/showMessage')).toContainEqual({ type: 3, message: 'KiroVerse: you earned the Bug Hunter badge!' });
+    expect(client.getUserCredentials).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryQueueStorage, OfflineQueue } from '../offline-queue';
+
+const message = (id: string) => ({ type: 'code_analysis_request', requestId: id });
+
+describe('OfflineQueue', () => {
+  it('keeps only the latest message per key', () => {
+    const queue = new OfflineQueue(new MemoryQueueStorage());
+
+    queue.enqueue('analysis:a.ts', 'r1', message('r1'));
+    queue.enqueue('analysis:b.ts', 'r2', message('r2'));
+    queue.enqueue('analysis:a.ts', 'r3', message('r3'));
+
+    expect(queue.takeDue().map(queued => queued.id)).toEqual(['r2', 'r3']);
+  });
+
+  it('drops the oldest messages when full', () => {
+    const queue = new OfflineQueue(new MemoryQueueStorage(), { maxSize: 2 });
+
+    ['r1', 'r2', 'r3'].forEach(id => queue.enqueue(id, id, message(id)));
+
+    expect(queue.size).toBe(2);
+    expect(queue.takeDue().map(queued => queued.id)).toEqual(['r2', 'r3']);
+  });
+
+  it('resends unacknowledged messages with exponential backoff until attempts run out', () => {
+    const queue = new OfflineQueue(new MemoryQueueStorage(), { retryDelayMs: 1000, maxAttempts: 3 });
+    queue.enqueue('r1', 'r1', message('r1'));
+
+    expect(queue.takeDue(0)).toHaveLength(1);
+    expect(queue.nextDueIn(0)).toBe(1000);
+    expect(queue.takeDue(999)).toEqual([]);
+    expect(queue.takeDue(1000)).toHaveLength(1);
+    expect(queue.nextDueIn(1000)).toBe(2000);
+    expect(queue.takeDue(3000)).toHaveLength(1);
+
+    // Out of attempts
+    expect(queue.takeDue(7000)).toEqual([]);
+    expect(queue.size).toBe(0);
+  });
+
+  it('forgets acknowledged messages', () => {
+    const queue = new OfflineQueue(new MemoryQueueStorage());
+    queue.enqueue('r1', 'r1', message('r1'));
+    queue.takeDue();
+
+    queue.acknowledge('r1');
+
+    expect(queue.size).toBe(0);
+    expect(queue.nextDueIn()).toBeNull();
+  });
+
+  it('restores stored messages behind newer ones with the same key', async () => {
+    const storage = new MemoryQueueStorage();
+    const earlier = new OfflineQueue(storage);
+    earlier.enqueue('analysis:a.ts', 'r1', message('r1'));
+    earlier.enqueue('activity:save-1', 'save-1', { type: 'activity', id: 'save-1' });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const restarted = new OfflineQueue(storage);
+    restarted.enqueue('analysis:a.ts', 'r2', message('r2'));
+    await restarted.restore();
+
+    expect(restarted.takeDue().map(queued => queued.id)).toEqual(['save-1', 'r2']);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { KiroVerseSDK, KiroVerseUtils } from '../plugin-sdk';
+import { MemoryQueueStorage } from '../offline-queue';
 
 // Mock fetch
 global.fetch = vi.fn();
@@ -16,6 +17,7 @@ global.WebSocket = vi.fn().mockImplementation(() => ({
   onerror: null,
   onclose: null,
 }));
+(global.WebSocket as any).OPEN = 1;
 
 describe('KiroVerseSDK', () => {
   let sdk: KiroVerseSDK;
@@ -178,9 +180,96 @@ describe('KiroVerseSDK', () => {
         connected: true,
         realtimeConnected: false,
         apiKeyValid: true,
+        queuedMessages: 0,
       });
     });
   });
+
+  describe('offline queue', () => {
+    const config = {
+      apiKey: 'test-api-key',
+      userId: 'test-user',
+      baseUrl: 'http://localhost:3000/api',
+      realtimeUrl: 'ws://localhost:8080',
+    };
+
+    async function connect(online: KiroVerseSDK) {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+      const initialized = online.initialize();
+      await vi.waitFor(() => expect(global.WebSocket).toHaveBeenCalled());
+      const ws = (global.WebSocket as any).mock.results.at(-1).value;
+      ws.onopen();
+      await initialized;
+      return ws;
+    }
+
+    const sent = (ws: any) => ws.send.mock.calls.map((call: string[]) => JSON.parse(call[0]));
+    const receive = (ws: any, message: object) => ws.onmessage({ data: JSON.stringify(message) });
+
+    beforeEach(() => {
+      (global.WebSocket as any).mockClear();
+    });
+
+    it('replays work queued while offline, once per file, after a restart', async () => {
+      const storage = new MemoryQueueStorage();
+      const offline = new KiroVerseSDK({ ...config, enableRealtime: false, offlineStorage: storage });
+      offline.requestRealtimeAnalysis({ code: 'a', language: 'typescript', fileName: 'a.ts' }, 'r1');
+      offline.requestRealtimeAnalysis({ code: 'ab', language: 'typescript', fileName: 'a.ts' }, 'r2');
+      offline.trackActivity({ id: 'save-1', kind: 'file_saved', fileName: 'a.ts' });
+      expect(offline.getStatus().queuedMessages).toBe(2);
+      // Let the first session finish saving before the editor restarts
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const online = new KiroVerseSDK({ ...config, offlineStorage: storage });
+      const ws = await connect(online);
+
+      expect(sent(ws).map((message: any) => [message.type, message.requestId ?? message.id])).toEqual([
+        ['code_analysis_request', 'r2'],
+        ['activity', 'save-1'],
+      ]);
+
+      receive(ws, { type: 'code_analysis_result', data: { requestId: 'r2' } });
+      receive(ws, { type: 'activity_recorded', data: { id: 'save-1' } });
+      expect(online.getStatus().queuedMessages).toBe(0);
+      online.disconnect();
+    });
+
+    it('keeps a save queued after a failure and drops requests the server rejected', async () => {
+      const online = new KiroVerseSDK({ ...config, offlineStorage: new MemoryQueueStorage() });
+      const ws = await connect(online);
+
+      online.recordSave({ code: 'a', language: 'typescript', fileName: 'a.ts' }, 'save-1');
+      online.requestRealtimeAnalysis({ language: 'typescript', fileName: 'b.ts' } as any, 'r1');
+      receive(ws, { type: 'error', data: { id: 'save-1', message: 'Failed to record save' } });
+      receive(ws, { type: 'error', data: { requestId: 'r1', message: 'Missing code to analyze' } });
+
+      expect(online.getStatus().queuedMessages).toBe(1);
+      online.disconnect();
+    });
+
+    it('resends requests the server has not answered', async () => {
+      const online = new KiroVerseSDK({ ...config, offlineStorage: new MemoryQueueStorage() });
+      const ws = await connect(online);
+
+      vi.useFakeTimers();
+      try {
+        online.requestRealtimeAnalysis({ code: 'a', language: 'typescript', fileName: 'a.ts' }, 'r1');
+        expect(sent(ws)).toHaveLength(1);
+
+        await vi.advanceTimersByTimeAsync(30000);
+        expect(sent(ws)).toHaveLength(2);
+        expect(online.getStatus().queuedMessages).toBe(1);
+
+        receive(ws, { type: 'code_analysis_result', data: { requestId: 'r1' } });
+        await vi.advanceTimersByTimeAsync(120000);
+        expect(sent(ws)).toHaveLength(2);
+        expect(online.getStatus().queuedMessages).toBe(0);
+      } finally {
+        online.disconnect();
+        vi.useRealTimers();
+      }
+    });
+  });
 });
 
 describe('KiroVerseUtils', () => {
@@ -0,0 +1,367 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { RealtimeFeedbackService } from '../realtime-feedback';
+import type { AnalyticsData, SkillImprovement } from '@/types/analytics';
+import type { BadgeAward } from '@/types/gamification';
+import type { PluginScope } from '../auth-utils';
+
+class FakeSocket extends EventEmitter {
+  readyState = 1; // OPEN
+  sent: any[] = [];
+  send = vi.fn((message: string) => this.sent.push(JSON.parse(message)));
+  close = vi.fn();
+  ping = vi.fn();
+
+  messages(type: string) {
+    return this.sent.filter(message => message.type === type);
+  }
+}
+
+function analyticsFor(code: string, skillImprovements: SkillImprovement[] = []): AnalyticsData {
+  return {
+    sessionId: `session_${code}`,
+    userId: 'user1',
+    codeSubmission: {
+      submissionId: 'sub_1',
+      code,
+      language: 'TypeScript',
+      context: '',
+      metrics: { linesOfCode: 1, complexity: 1, maintainability: 90 },
+      timestamp: new Date(),
+    },
+    aiAnalysis: {
+      analysisId: 'analysis_1',
+      codeQuality: 82,
+      efficiency: 70,
+      creativity: 60,
+      bestPractices: 75,
+      suggestions: ['Add error handling'],
+      detectedSkills: ['typescript'],
+      improvementAreas: ['error handling'],
+      processingTime: 5,
+    },
+    skillImprovements,
+    learningInsights: [],
+    benchmarkComparisons: [],
+    timestamp: new Date(),
+    processingStatus: 'completed',
+  };
+}
+
+const improvement = (improvementType: SkillImprovement['improvementType'], newLevel: number): SkillImprovement => ({
+  skillId: 'typescript',
+  previousLevel: improvementType === 'level_up' ? newLevel - 1 : newLevel,
+  newLevel,
+  improvementType,
+  evidence: [],
+  timestamp: new Date(),
+});
+
+const badge = (badgeId: string): BadgeAward => ({
+  badgeId,
+  badgeName: 'TypeScript Apprentice',
+  badgeType: { category: 'skill', subcategory: 'typescript' },
+  rarity: { level: 'common', rarityScore: 10, estimatedHolders: 1000, globalPercentage: 40 },
+  description: 'Wrote typed code',
+  criteria: {} as BadgeAward['criteria'],
+  awardedAt: new Date('2025-01-01T00:00:00Z'),
+  verificationStatus: 'pending',
+  metadata: {} as BadgeAward['metadata'],
+});
+
+describe('RealtimeFeedbackService code analysis', () => {
+  let analyzeSubmission: ReturnType<typeof vi.fn>;
+  let recordSave: ReturnType<typeof vi.fn>;
+  let recordActivity: ReturnType<typeof vi.fn>;
+  let analyzeDiagnostics: ReturnType<typeof vi.fn>;
+  let service: RealtimeFeedbackService;
+
+  async function connect(scopes: PluginScope[] = ['realTimeAnalysis']) {
+    (service as any).config.verifyApiKey = async () => scopes;
+    const ws = new FakeSocket();
+    await (service as any).handleConnection(ws, { url: '/?apiKey=key&userId=user1', headers: { host: 'localhost' } });
+    const request = (requestId: string, code: string, fileName = 'app.ts') =>
+      ws.emit('message', JSON.stringify({ type: 'code_analysis_request', requestId, code, language: 'typescript', fileName }));
+    const send = (message: Record<string, unknown>) => ws.emit('message', JSON.stringify(message));
+    return { ws, request, send };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    analyzeSubmission = vi.fn(async (_userId: string, code: string) => analyticsFor(code));
+    recordSave = vi.fn(async (_userId: string, code: string) => ({ analytics: analyticsFor(code), badgesAwarded: [] }));
+    recordActivity = vi.fn(async () => 2);
+    analyzeDiagnostics = vi.fn(async (code: string) => [{
+      id: 'diag-1',
+      range: { startLine: 2, startColumn: 3, endLine: 2, endColumn: 9 },
+      severity: 'warning' as const,
+      category: 'style' as const,
+      message: `Issue in ${code.split('\n')[0]}`,
+      explanation: '',
+    }]);
+    service = new RealtimeFeedbackService({
+      analysisDebounceMs: 300,
+      analyzeSubmission: analyzeSubmission as any,
+      recordSave,
+      recordActivity,
+      analyzeDiagnostics,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('analyzes only the latest of several rapid requests for a file', async () => {
+    const { ws, request } = await connect();
+
+    request('r1', 'const a = 1');
+    await vi.advanceTimersByTimeAsync(100);
+    request('r2', 'const a = 12');
+    await vi.advanceTimersByTimeAsync(100);
+    request('r3', 'const a = 123');
+    await vi.advanceTimersByTimeAsync(299);
+    expect(analyzeSubmission).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(analyzeSubmission).toHaveBeenCalledTimes(1);
+    expect(analyzeSubmission.mock.calls[0][1]).toBe('const a = 123');
+    expect(analyzeSubmission.mock.calls[0][2]).toContain('File: app.ts');
+    expect(ws.messages('code_analysis_cancelled').map(message => message.data)).toEqual([
+      { requestId: 'r1', reason: 'superseded', supersededBy: 'r2' },
+      { requestId: 'r2', reason: 'superseded', supersededBy: 'r3' },
+    ]);
+    const [result] = ws.messages('code_analysis_result');
+    expect(result.data.requestId).toBe('r3');
+    expect(result.data.analysis.codeQuality).toEqual({ score: 8.2, areas: ['error handling'] });
+  });
+
+  it('debounces each file separately', async () => {
+    const { ws, request } = await connect();
+
+    request('r1', 'a', 'a.ts');
+    request('r2', 'b', 'b.ts');
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(analyzeSubmission).toHaveBeenCalledTimes(2);
+    expect(ws.messages('code_analysis_cancelled')).toEqual([]);
+    expect(ws.messages('code_analysis_result').map(message => message.data.requestId)).toEqual(['r1', 'r2']);
+  });
+
+  it('aborts an analysis that a newer request supersedes and drops its result', async () => {
+    let finishFirst!: (data: AnalyticsData) => void;
+    analyzeSubmission.mockImplementationOnce(() => new Promise(resolve => { finishFirst = resolve; }));
+    const { ws, request } = await connect();
+
+    request('r1', 'old');
+    await vi.advanceTimersByTimeAsync(300);
+    const { signal } = analyzeSubmission.mock.calls[0][3];
+    expect(signal.aborted).toBe(false);
+
+    request('r2', 'new');
+    expect(signal.aborted).toBe(true);
+
+    finishFirst(analyticsFor('old', [improvement('level_up', 2)]));
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(ws.messages('code_analysis_cancelled').map(message => message.data.requestId)).toEqual(['r1']);
+    expect(ws.messages('code_analysis_result').map(message => message.data.requestId)).toEqual(['r2']);
+    expect(ws.messages('feedback')).toEqual([]);
+  });
+
+  it('ignores resends of a request that is still being analyzed', async () => {
+    let finish!: (data: AnalyticsData) => void;
+    analyzeSubmission.mockImplementationOnce(() => new Promise(resolve => { finish = resolve; }));
+    const { ws, request } = await connect();
+
+    request('r1', 'code');
+    await vi.advanceTimersByTimeAsync(300);
+    const { signal } = analyzeSubmission.mock.calls[0][3];
+
+    request('r1', 'code');
+    await vi.advanceTimersByTimeAsync(300);
+    expect(signal.aborted).toBe(false);
+    expect(ws.messages('code_analysis_cancelled')).toEqual([]);
+
+    finish(analyticsFor('code'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(analyzeSubmission).toHaveBeenCalledTimes(1);
+    expect(ws.messages('code_analysis_result').map(message => message.data.requestId)).toEqual(['r1']);
+  });
+
+  it('answers a resend of an answered request without analyzing it again', async () => {
+    const { ws, request } = await connect();
+
+    request('r1', 'code');
+    await vi.advanceTimersByTimeAsync(300);
+    request('r1', 'code');
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(analyzeSubmission).toHaveBeenCalledTimes(1);
+    const results = ws.messages('code_analysis_result');
+    expect(results).toHaveLength(2);
+    expect(results[1]).toEqual(results[0]);
+  });
+
+  it('records IDE activity and acknowledges it with the points earned', async () => {
+    const { ws, send } = await connect();
+
+    send({ type: 'activity', id: 'evt-1', kind: 'test_run' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(recordActivity).toHaveBeenCalledWith('user1', { id: 'evt-1', kind: 'test_run' });
+    expect(ws.messages('activity_recorded').map(message => message.data)).toEqual([{ id: 'evt-1', points: 2 }]);
+  });
+
+  it('leaves activity unacknowledged when it could not be recorded', async () => {
+    recordActivity.mockRejectedValueOnce(new Error('offline'));
+    const { ws, send } = await connect();
+
+    send({ type: 'activity', id: 'evt-1', kind: 'commit' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(ws.messages('activity_recorded')).toEqual([]);
+    expect(ws.messages('error').map(message => message.data)).toEqual([{ id: 'evt-1', message: 'Failed to record activity' }]);
+  });
+
+  it('leaves saves unacknowledged when they could not be recorded', async () => {
+    recordSave.mockRejectedValueOnce(new Error('offline'));
+    const { ws, send } = await connect();
+
+    send({ type: 'code_save', id: 'save-1', code: 'code' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(ws.messages('code_save_recorded')).toEqual([]);
+    expect(ws.messages('error').map(message => message.data)).toEqual([{ id: 'save-1', message: 'Failed to record save' }]);
+  });
+
+  it('gives live feedback without awarding XP or badges', async () => {
+    analyzeSubmission.mockImplementation(async (_userId: string, code: string) =>
+      analyticsFor(code, [improvement('level_up', 2)]));
+    const { ws, request } = await connect(['realTimeAnalysis', 'badgeNotifications']);
+
+    request('r1', 'code');
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(ws.messages('code_analysis_result')).toHaveLength(1);
+    expect(ws.messages('feedback')).toEqual([]);
+    expect(recordSave).not.toHaveBeenCalled();
+  });
+
+  it('records saves and pushes only the badges they actually awarded', async () => {
+    recordSave.mockImplementation(async (_userId: string, code: string) => ({
+      analytics: analyticsFor(code, [improvement('level_up', 2), improvement('experience_gain', 3)]),
+      badgesAwarded: [badge('typescript-apprentice')],
+    }));
+    const withBadges = await connect(['realTimeAnalysis', 'badgeNotifications']);
+    const withoutBadges = await connect(['realTimeAnalysis']);
+
+    withBadges.send({ type: 'code_save', id: 'save-1', code: 'code', language: 'typescript', fileName: 'app.ts' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(recordSave).toHaveBeenCalledWith('user1', 'code', expect.stringContaining('File: app.ts'), 'save-1');
+    expect(withBadges.ws.messages('code_save_recorded').map(message => message.data.id)).toEqual(['save-1']);
+
+    const received = (ws: FakeSocket) => ws.messages('feedback').map(message => message.data.type);
+    expect(received(withBadges.ws)).toEqual(['skill_update', 'skill_update', 'badge_earned']);
+    expect(received(withoutBadges.ws)).toEqual(['skill_update', 'skill_update']);
+    expect(withBadges.ws.messages('feedback')[2].data.data).toMatchObject({ badgeId: 'typescript-apprentice', name: 'TypeScript Apprentice' });
+  });
+
+  it('sends no badge events for level-ups that awarded no badge', async () => {
+    recordSave.mockImplementation(async (_userId: string, code: string) => ({
+      analytics: analyticsFor(code, [improvement('level_up', 2)]),
+      badgesAwarded: [],
+    }));
+    const { ws, send } = await connect(['realTimeAnalysis', 'badgeNotifications']);
+
+    send({ type: 'code_save', id: 'save-1', code: 'code' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(ws.messages('feedback').map(message => message.data.type)).toEqual(['skill_update']);
+  });
+
+  it('reports a failed analysis without awarding anything', async () => {
+    analyzeSubmission.mockResolvedValueOnce({ ...analyticsFor('code', [improvement('experience_gain', 1)]), processingStatus: 'failed' });
+    const { ws, request } = await connect();
+
+    request('r1', 'code');
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(ws.messages('error')[0].data).toEqual({ requestId: 'r1', message: 'Failed to analyze code' });
+    expect(ws.messages('feedback')).toEqual([]);
+  });
+
+  describe('document sessions', () => {
+    const text = [
+      'function first() {',
+      '  return 1;',
+      '}',
+      '',
+      'function second() {',
+      '  return 2;',
+      '}',
+      '',
+      'function third() {',
+      '  return 3;',
+      '}',
+    ].join('\n');
+
+    it('analyzes the whole document once, then only the functions that edits touch', async () => {
+      const { ws, send } = await connect();
+
+      send({ type: 'document_open', uri: 'file:///a.js', version: 1, text, language: 'javascript' });
+      await vi.advanceTimersByTimeAsync(300);
+      expect(analyzeDiagnostics.mock.calls.map(call => call[0])).toEqual([text]);
+
+      send({
+        type: 'document_change',
+        uri: 'file:///a.js',
+        version: 2,
+        edits: [{ range: { startLine: 6, startColumn: 10, endLine: 6, endColumn: 11 }, text: '20' }],
+      });
+      await vi.advanceTimersByTimeAsync(300);
+
+      expect(analyzeDiagnostics.mock.calls[1][0]).toBe('function second() {\n  return 20;\n}');
+      const [, result] = ws.messages('document_analysis_result').map(message => message.data);
+      expect(result).toMatchObject({
+        uri: 'file:///a.js',
+        version: 2,
+        ranges: [{ startLine: 5, startColumn: 1, endLine: 7, endColumn: 2 }],
+      });
+      // Diagnostics come back in document lines, not region lines
+      expect(result.diagnostics).toEqual([expect.objectContaining({
+        id: 'v2-1',
+        message: 'Issue in function second() {',
+        range: { startLine: 6, startColumn: 3, endLine: 6, endColumn: 9 },
+      })]);
+    });
+
+    it('asks for a full sync when versions diverge and recovers on reopen', async () => {
+      const { ws, send } = await connect();
+      send({ type: 'document_open', uri: 'file:///a.js', version: 1, text, language: 'javascript' });
+      await vi.advanceTimersByTimeAsync(300);
+
+      send({ type: 'document_change', uri: 'file:///a.js', version: 3, edits: [] });
+      expect(ws.messages('document_resync_required').map(message => message.data)).toEqual([
+        expect.objectContaining({ uri: 'file:///a.js', version: 3, reason: 'version_mismatch' }),
+      ]);
+
+      send({ type: 'document_open', uri: 'file:///a.js', version: 3, text: text.replace('return 3', 'return 30'), language: 'javascript' });
+      send({
+        type: 'document_change',
+        uri: 'file:///a.js',
+        version: 4,
+        edits: [{ range: { startLine: 2, startColumn: 10, endLine: 2, endColumn: 11 }, text: '10' }],
+      });
+      await vi.advanceTimersByTimeAsync(300);
+
+      // The reopened document is analyzed once, in full, at its latest version
+      expect(analyzeDiagnostics).toHaveBeenCalledTimes(2);
+      expect(analyzeDiagnostics.mock.calls[1][0]).toContain('return 10;');
+      expect(analyzeDiagnostics.mock.calls[1][0]).toContain('return 30;');
+      expect(ws.messages('document_analysis_result').map(message => message.data.version)).toEqual([1, 4]);
+    });
+  });
+});
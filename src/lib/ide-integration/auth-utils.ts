@@ -18,6 +18,23 @@ export function hashApiKey(apiKey: string): string {
   return crypto.createHash('sha256').update(apiKey).digest('hex');
 }
 
+/**
+ * Public identifier of an API key, derived from its hash so the key itself never
+ * has to be stored or shown again
+ */
+export function getApiKeyId(apiKey: string): string {
+  return hashApiKey(apiKey).substring(0, 24);
+}
+
+/**
+ * Compare an API key against its stored hash in constant time
+ */
+export function verifyApiKeyHash(apiKey: string, hashedKey: string): boolean {
+  const expected = Buffer.from(hashedKey, 'hex');
+  const actual = Buffer.from(hashApiKey(apiKey), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
 /**
  * Validate API key format
  */
@@ -124,6 +141,24 @@ export interface PluginCapabilities {
   badgeNotifications: boolean;
 }
 
+export type PluginScope = keyof PluginCapabilities;
+
+/**
+ * Capabilities the platform currently grants to plugin keys
+ */
+export const PLUGIN_CAPABILITIES: PluginCapabilities = {
+  feedback: true,
+  credentials: true,
+  realTimeAnalysis: true,
+  badgeNotifications: true,
+};
+
+/**
+ * Scopes a key gets when none are requested; realtime analysis and badge
+ * notifications have to be asked for explicitly
+ */
+export const DEFAULT_PLUGIN_SCOPES: PluginScope[] = ['feedback', 'credentials'];
+
 export function validatePluginCapabilities(
   requestedCapabilities: string[],
   allowedCapabilities: PluginCapabilities
@@ -0,0 +1,177 @@
+// Document Sync: Versioned IDE Documents and Changed-region Detection
+
+import * as ts from 'typescript';
+import type { SourceRange } from '@/types/code-feedback';
+import type { LineSpan, TextEdit } from '@/types/ide-integration';
+import { TextEdits } from './text-edits';
+
+export type DocumentSyncErrorCode = 'unknown_document' | 'version_mismatch' | 'invalid_edit';
+
+export class DocumentSyncError extends Error {
+  constructor(message: string, public readonly code: DocumentSyncErrorCode) {
+    super(message);
+    this.name = 'DocumentSyncError';
+  }
+}
+
+export interface SyncedDocument {
+  uri: string;
+  language?: string;
+  projectType?: string;
+  framework?: string;
+  version: number;
+  text: string;
+  // Lines changed since the last completed analysis
+  changedLines: LineSpan[];
+}
+
+export interface OpenDocumentOptions {
+  uri: string;
+  text: string;
+  version: number;
+  language?: string;
+  projectType?: string;
+  framework?: string;
+}
+
+/**
+ * The documents one plugin connection has open, at the versions the plugin last sent
+ */
+export class DocumentStore {
+  private documents: Map<string, SyncedDocument> = new Map();
+
+  /**
+   * Full sync: replaces any earlier state for the document and marks all of it changed
+   */
+  open(options: OpenDocumentOptions): SyncedDocument {
+    const document: SyncedDocument = {
+      ...options,
+      changedLines: [{ startLine: 1, endLine: options.text.split('\n').length }],
+    };
+    this.documents.set(options.uri, document);
+    return document;
+  }
+
+  /**
+   * Applies the edits that take the document to `version`. Any failure forgets the
+   * document, so the plugin has to send it in full again.
+   */
+  change(uri: string, version: number, edits: TextEdit[]): SyncedDocument {
+    const document = this.documents.get(uri);
+    if (!document) {
+      throw new DocumentSyncError(`Document ${uri} is not open`, 'unknown_document');
+    }
+
+    if (version !== document.version + 1) {
+      this.documents.delete(uri);
+      throw new DocumentSyncError(
+        `Expected version ${document.version + 1} of ${uri}, received ${version}`,
+        'version_mismatch'
+      );
+    }
+
+    try {
+      const { text, changedLines } = TextEdits.applyTracked(document.text, edits, document.changedLines);
+      Object.assign(document, { text, changedLines, version });
+      return document;
+    } catch (error) {
+      this.documents.delete(uri);
+      throw new DocumentSyncError((error as Error).message, 'invalid_edit');
+    }
+  }
+
+  get(uri: string): SyncedDocument | undefined {
+    return this.documents.get(uri);
+  }
+
+  close(uri: string): void {
+    this.documents.delete(uri);
+  }
+}
+
+export interface AnalysisRegion {
+  range: SourceRange;
+  code: string;
+}
+
+const SCRIPT_LANGUAGES = ['javascript', 'typescript', 'javascriptreact', 'typescriptreact'];
+
+export class DocumentRegions {
+  // Lines of context around changes in languages we cannot parse
+  static readonly CONTEXT_LINES = 3;
+  // Past this, one pass over the whole document is cheaper than many small ones
+  static readonly MAX_REGIONS = 5;
+  static readonly MAX_CHANGED_SHARE = 0.6;
+
+  /**
+   * Widens changed lines to the outermost functions that contain them, so the
+   * analysis sees whole units of code
+   */
+  static forChanges(document: Pick<SyncedDocument, 'text' | 'language' | 'changedLines'>): AnalysisRegion[] {
+    const lines = document.text.split('\n');
+    const functions = this.isScript(document.language) ? this.functionSpans(document.text) : null;
+
+    const spans = TextEdits.mergeSpans(document.changedLines.map(changed => {
+      if (!functions) {
+        return {
+          startLine: Math.max(1, changed.startLine - this.CONTEXT_LINES),
+          endLine: Math.min(lines.length, changed.endLine + this.CONTEXT_LINES),
+        };
+      }
+
+      const span = { ...changed };
+      for (const fn of functions) {
+        if (fn.startLine <= changed.endLine && fn.endLine >= changed.startLine) {
+          span.startLine = Math.min(span.startLine, fn.startLine);
+          span.endLine = Math.max(span.endLine, fn.endLine);
+        }
+      }
+      return span;
+    }).map(span => ({ startLine: span.startLine, endLine: Math.min(span.endLine, lines.length) })));
+
+    const changedLineCount = spans.reduce((sum, span) => sum + span.endLine - span.startLine + 1, 0);
+    if (spans.length > this.MAX_REGIONS || changedLineCount > lines.length * this.MAX_CHANGED_SHARE) {
+      return [this.toRegion(lines, { startLine: 1, endLine: lines.length })];
+    }
+
+    return spans.map(span => this.toRegion(lines, span));
+  }
+
+  /**
+   * Line spans of top-level functions and class members; parse errors while the
+   * user is typing still leave the surrounding functions intact
+   */
+  private static functionSpans(text: string): LineSpan[] {
+    const sourceFile = ts.createSourceFile('/document.tsx', text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+    const spans: LineSpan[] = [];
+    const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+    const visit = (node: ts.Node) => {
+      if (ts.isFunctionLike(node) && !ts.isTypeNode(node)) {
+        spans.push({ startLine: lineOf(node.getStart(sourceFile)), endLine: lineOf(node.getEnd()) });
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return spans;
+  }
+
+  private static isScript(language?: string): boolean {
+    return !language || SCRIPT_LANGUAGES.includes(language.toLowerCase());
+  }
+
+  private static toRegion(lines: string[], span: LineSpan): AnalysisRegion {
+    const code = lines.slice(span.startLine - 1, span.endLine);
+    return {
+      range: {
+        startLine: span.startLine,
+        startColumn: 1,
+        endLine: span.endLine,
+        endColumn: code[code.length - 1].length + 1,
+      },
+      code: code.join('\n'),
+    };
+  }
+}
@@ -0,0 +1,129 @@
+// JSON-RPC over the LSP Base Protocol
+//
+// Messages are framed with a Content-Length header, as editors expect on a
+// language server's stdin and stdout.
+
+import type { Readable, Writable } from 'stream';
+import type { JsonRpcNotification, JsonRpcRequest, JsonRpcResponse } from '@/types/lsp';
+
+export const LspErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+} as const;
+
+export class LspResponseError extends Error {
+  constructor(public readonly code: number, message: string) {
+    super(message);
+    this.name = 'LspResponseError';
+  }
+}
+
+type RequestHandler = (params: any) => unknown | Promise<unknown>;
+type NotificationHandler = (params: any) => void | Promise<void>;
+
+const HEADER_DELIMITER = '\r\n\r\n';
+
+export class LspConnection {
+  private buffer = Buffer.alloc(0);
+  private requestHandlers: Map<string, RequestHandler> = new Map();
+  private notificationHandlers: Map<string, NotificationHandler> = new Map();
+
+  constructor(private input: Readable, private output: Writable) {}
+
+  onRequest(method: string, handler: RequestHandler): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  onNotification(method: string, handler: NotificationHandler): void {
+    this.notificationHandlers.set(method, handler);
+  }
+
+  sendNotification(method: string, params?: unknown): void {
+    this.write({ jsonrpc: '2.0', method, params });
+  }
+
+  /**
+   * Start reading messages from the input stream
+   */
+  listen(): void {
+    this.input.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.drain();
+    });
+  }
+
+  private drain(): void {
+    for (;;) {
+      const headerEnd = this.buffer.indexOf(HEADER_DELIMITER);
+      if (headerEnd === -1) return;
+
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const match = header.match(/Content-Length:\s*(\d+)/i);
+      if (!match) {
+        // Skip the malformed header and resynchronize on the next one
+        this.buffer = this.buffer.subarray(headerEnd + HEADER_DELIMITER.length);
+        continue;
+      }
+
+      const bodyStart = headerEnd + HEADER_DELIMITER.length;
+      const bodyEnd = bodyStart + Number(match[1]);
+      if (this.buffer.length < bodyEnd) return;
+
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+      this.buffer = this.buffer.subarray(bodyEnd);
+
+      let message: JsonRpcRequest | JsonRpcNotification;
+      try {
+        message = JSON.parse(body);
+      } catch {
+        this.write({ jsonrpc: '2.0', id: null, error: { code: LspErrorCodes.ParseError, message: 'Invalid JSON' } });
+        continue;
+      }
+      void this.dispatch(message);
+    }
+  }
+
+  private async dispatch(message: JsonRpcRequest | JsonRpcNotification): Promise<void> {
+    if (!('id' in message) || message.id === undefined) {
+      const handler = this.notificationHandlers.get(message.method);
+      try {
+        await handler?.(message.params);
+      } catch (error) {
+        console.error(`Error handling ${message.method}:`, error);
+      }
+      return;
+    }
+
+    const handler = this.requestHandlers.get(message.method);
+    if (!handler) {
+      this.respondWithError(message.id, new LspResponseError(LspErrorCodes.MethodNotFound, `Unhandled method ${message.method}`));
+      return;
+    }
+
+    try {
+      const result = await handler(message.params);
+      this.write({ jsonrpc: '2.0', id: message.id, result: result ?? null });
+    } catch (error) {
+      console.error(`Error handling ${message.method}:`, error);
+      this.respondWithError(
+        message.id,
+        error instanceof LspResponseError
+          ? error
+          : new LspResponseError(LspErrorCodes.InternalError, (error as Error).message || 'Internal error')
+      );
+    }
+  }
+
+  private respondWithError(id: number | string, error: LspResponseError): void {
+    this.write({ jsonrpc: '2.0', id, error: { code: error.code, message: error.message } });
+  }
+
+  private write(message: JsonRpcResponse | JsonRpcNotification): void {
+    const body = JSON.stringify(message);
+    this.output.write(`Content-Length: ${Buffer.byteLength(body, 'utf8')}${HEADER_DELIMITER}${body}`);
+  }
+}
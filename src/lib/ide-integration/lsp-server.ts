@@ -0,0 +1,421 @@
+// KiroVerse Language Server: Kiro Feedback for any LSP-capable Editor
+//
+// Bridges the plugin SDK to the Language Server Protocol. Documents are synced
+// to the realtime server incrementally and its diagnostics are published as
+// textDocument/publishDiagnostics, with suggested fixes as quick fixes.
+
+import type { CodeDiagnostic, SourceRange } from '@/types/code-feedback';
+import type { DocumentAnalysisResult, PluginFeedbackEvent, TextEdit } from '@/types/ide-integration';
+import {
+  AskKiroArguments,
+  KiroLspInitializationOptions,
+  LspCodeAction,
+  LspDiagnostic,
+  LspDiagnosticSeverity,
+  LspHover,
+  LspPosition,
+  LspRange,
+  TextDocumentContentChangeEvent,
+  TextDocumentItem,
+} from '@/types/lsp';
+import { CodeDiagnostics } from '@/lib/code-feedback/diagnostics';
+import { KiroVerseSDK, KiroVerseConfig, UserCredentials } from './plugin-sdk';
+import { LspConnection, LspErrorCodes, LspResponseError } from './lsp-connection';
+import { TextEdits } from './text-edits';
+
+export type KiroLspClient = Pick<
+  KiroVerseSDK,
+  'initialize' | 'openDocument' | 'changeDocument' | 'closeDocument' | 'getUserCredentials' | 'getCodeFeedback' | 'on' | 'disconnect'
+>;
+
+export interface KiroLanguageServerOptions {
+  createClient?: (config: KiroVerseConfig) => KiroLspClient;
+  // Fallback for the API key and user id when the editor sends no initialization options
+  env?: Record<string, string | undefined>;
+  onExit?: (code: number) => void;
+}
+
+export const ASK_KIRO_COMMAND = 'kiroverse.askKiro';
+
+const DIAGNOSTIC_SOURCE = 'Kiro';
+const SKILLS_CACHE_MS = 5 * 60 * 1000;
+
+// LSP message types for window/showMessage
+const MessageType = { Error: 1, Warning: 2, Info: 3 } as const;
+
+const SEVERITY: Record<CodeDiagnostic['severity'], number> = {
+  error: LspDiagnosticSeverity.Error,
+  warning: LspDiagnosticSeverity.Warning,
+  info: LspDiagnosticSeverity.Information,
+};
+
+// Editor language ids to the skills the analytics pipeline tracks for them
+const LANGUAGE_SKILLS: Record<string, string> = {
+  javascript: 'javascript',
+  javascriptreact: 'javascript',
+  typescript: 'typescript',
+  typescriptreact: 'typescript',
+  python: 'python',
+  java: 'java',
+};
+
+interface TrackedDocument {
+  uri: string;
+  languageId: string;
+  text: string;
+  // Version of the SDK's document session, which counts deltas rather than editor versions
+  version: number;
+  diagnostics: CodeDiagnostic[];
+}
+
+export class KiroLanguageServer {
+  private client: KiroLspClient | null = null;
+  private documents: Map<string, TrackedDocument> = new Map();
+  private skills: { fetchedAt: number; skills: UserCredentials['skills'] } | null = null;
+  private shutdownRequested = false;
+  private options: Required<KiroLanguageServerOptions>;
+
+  constructor(private connection: LspConnection, options: KiroLanguageServerOptions = {}) {
+    this.options = {
+      createClient: options.createClient || (config => new KiroVerseSDK(config)),
+      env: options.env || process.env,
+      onExit: options.onExit || (() => {}),
+    };
+  }
+
+  /**
+   * Register the protocol handlers on the connection
+   */
+  register(): void {
+    const connection = this.connection;
+
+    connection.onRequest('initialize', params => this.initialize(params?.initializationOptions));
+    connection.onNotification('initialized', () => this.connect());
+    connection.onRequest('shutdown', () => {
+      this.shutdownRequested = true;
+      this.client?.disconnect();
+      return null;
+    });
+    connection.onNotification('exit', () => this.options.onExit(this.shutdownRequested ? 0 : 1));
+
+    connection.onNotification('textDocument/didOpen', params => this.didOpen(params.textDocument));
+    connection.onNotification('textDocument/didChange', params =>
+      this.didChange(params.textDocument.uri, params.contentChanges));
+    connection.onNotification('textDocument/didClose', params => this.didClose(params.textDocument.uri));
+
+    connection.onRequest('textDocument/codeAction', params =>
+      this.codeActions(params.textDocument.uri, params.range));
+    connection.onRequest('textDocument/hover', params => this.hover(params.textDocument.uri, params.position));
+    connection.onRequest('workspace/executeCommand', params => this.executeCommand(params.command, params.arguments || []));
+  }
+
+  private initialize(options: KiroLspInitializationOptions = {}) {
+    const apiKey = options.apiKey || this.options.env.KIROVERSE_API_KEY;
+    const userId = options.userId || this.options.env.KIROVERSE_USER_ID;
+    if (!apiKey || !userId) {
+      throw new LspResponseError(
+        LspErrorCodes.InvalidParams,
+        'Set apiKey and userId in the initialization options, or KIROVERSE_API_KEY and KIROVERSE_USER_ID'
+      );
+    }
+
+    this.client = this.options.createClient({
+      apiKey,
+      userId,
+      ...(options.baseUrl && { baseUrl: options.baseUrl }),
+      ...(options.realtimeUrl && { realtimeUrl: options.realtimeUrl }),
+    });
+    this.client.on('document_analysis', (result: DocumentAnalysisResult) => this.applyAnalysis(result));
+    this.client.on('feedback', (event: PluginFeedbackEvent) => this.handleProgressEvent(event));
+
+    return {
+      capabilities: {
+        textDocumentSync: { openClose: true, change: 2 }, // Incremental
+        codeActionProvider: { codeActionKinds: ['quickfix'] },
+        hoverProvider: true,
+        executeCommandProvider: { commands: [ASK_KIRO_COMMAND] },
+      },
+      serverInfo: { name: 'kiroverse-lsp', version: '1.0.0' },
+    };
+  }
+
+  private async connect(): Promise<void> {
+    try {
+      await this.client?.initialize();
+    } catch (error) {
+      this.showMessage(MessageType.Error, `KiroVerse: could not connect (${(error as Error).message})`);
+    }
+  }
+
+  private didOpen(item: TextDocumentItem): void {
+    const client = this.requireClient();
+    this.documents.set(item.uri, {
+      uri: item.uri,
+      languageId: item.languageId,
+      text: item.text,
+      version: 1,
+      diagnostics: [],
+    });
+    client.openDocument(item.uri, item.text, { language: item.languageId });
+  }
+
+  /**
+   * Forward ranged changes as deltas. A change without a range replaces the
+   * document, which starts a new session with a full sync.
+   */
+  private didChange(uri: string, changes: TextDocumentContentChangeEvent[]): void {
+    const client = this.requireClient();
+    const document = this.documents.get(uri);
+    if (!document) return;
+
+    let edits: TextEdit[] = [];
+    const flush = () => {
+      if (edits.length > 0) {
+        document.version = client.changeDocument(uri, edits);
+        edits = [];
+      }
+    };
+
+    for (const change of changes) {
+      if (!change.range) {
+        flush();
+        document.text = change.text;
+        document.version = 1;
+        document.diagnostics = [];
+        client.openDocument(uri, change.text, { language: document.languageId });
+        continue;
+      }
+
+      const edit: TextEdit = { range: fromLspRange(change.range), text: change.text };
+      document.text = TextEdits.apply(document.text, [edit]);
+      document.diagnostics = shiftDiagnostics(document.diagnostics, edit);
+      edits.push(edit);
+    }
+    flush();
+
+    this.publishDiagnostics(document);
+  }
+
+  private didClose(uri: string): void {
+    this.documents.delete(uri);
+    this.client?.closeDocument(uri);
+    this.connection.sendNotification('textDocument/publishDiagnostics', { uri, diagnostics: [] });
+  }
+
+  /**
+   * Kiro's suggested replacements for diagnostics in the requested range
+   */
+  private codeActions(uri: string, range: LspRange): LspCodeAction[] {
+    const document = this.documents.get(uri);
+    if (!document) return [];
+
+    const requested = fromLspRange(range);
+    return document.diagnostics
+      .filter(diagnostic => diagnostic.suggestedReplacement !== undefined && rangesOverlap(diagnostic.range, requested))
+      .map(diagnostic => ({
+        title: `Kiro: ${diagnostic.message}`,
+        kind: 'quickfix',
+        diagnostics: [toLspDiagnostic(diagnostic)],
+        isPreferred: true,
+        edit: {
+          changes: {
+            [uri]: [{ range: toLspRange(diagnostic.range), newText: diagnostic.suggestedReplacement! }],
+          },
+        },
+      }));
+  }
+
+  /**
+   * Explanations for diagnostics under the cursor, and the user's level in the
+   * document's language
+   */
+  private async hover(uri: string, position: LspPosition): Promise<LspHover | null> {
+    const document = this.documents.get(uri);
+    if (!document) return null;
+
+    const line = position.line + 1;
+    const column = position.character + 1;
+    const here = document.diagnostics.filter(diagnostic => containsPosition(diagnostic.range, line, column));
+
+    const sections = here.map(diagnostic => `**${diagnostic.message}**\n\n${diagnostic.explanation}`);
+
+    const skill = await this.skillFor(document.languageId);
+    if (skill) {
+      sections.push(`${skill.skillName}: level ${skill.level} · ${skill.experiencePoints} XP`);
+    }
+
+    if (sections.length === 0) return null;
+    return {
+      contents: { kind: 'markdown', value: `**Kiro**\n\n${sections.join('\n\n---\n\n')}` },
+      ...(here.length > 0 && { range: toLspRange(here[0].range) }),
+    };
+  }
+
+  // Ask Kiro is the only command, so arguments are always its own
+  private async executeCommand(command: string, args: AskKiroArguments[]): Promise<unknown> {
+    if (command !== ASK_KIRO_COMMAND) {
+      throw new LspResponseError(LspErrorCodes.InvalidParams, `Unknown command ${command}`);
+    }
+    return this.askKiro(args[0] || {});
+  }
+
+  /**
+   * Ask Kiro to review the selection, or the whole document without one. The
+   * review's diagnostics replace earlier ones in the reviewed range.
+   */
+  private async askKiro({ uri, range }: AskKiroArguments) {
+    const client = this.requireClient();
+    const document = uri ? this.documents.get(uri) : undefined;
+    if (!document) {
+      throw new LspResponseError(LspErrorCodes.InvalidParams, 'Ask Kiro needs the uri of an open document');
+    }
+
+    const lines = document.text.split('\n');
+    const reviewed: SourceRange = range
+      ? fromLspRange(range)
+      : { startLine: 1, startColumn: 1, endLine: lines.length, endColumn: lines[lines.length - 1].length + 1 };
+    const { start, end } = CodeDiagnostics.toOffsets(document.text, reviewed);
+    const version = document.version;
+
+    const response = await client.getCodeFeedback({
+      code: document.text.slice(start, end),
+      language: document.languageId,
+      fileName: document.uri,
+    });
+
+    // The document may have changed while Kiro was reviewing it
+    if (this.documents.get(document.uri) === document && document.version === version) {
+      const lineOffset = reviewed.startLine - 1;
+      this.replaceDiagnostics(document, [reviewed], response.diagnostics.map((diagnostic, index) => ({
+        ...diagnostic,
+        id: `ask-v${version}-${index + 1}`,
+        range: { ...diagnostic.range, startLine: diagnostic.range.startLine + lineOffset, endLine: diagnostic.range.endLine + lineOffset },
+      })));
+    }
+
+    this.showMessage(MessageType.Info, response.feedback);
+    return response;
+  }
+
+  private applyAnalysis(result: DocumentAnalysisResult): void {
+    const document = this.documents.get(result.uri);
+    // Results for an older version no longer line up with the editor's text
+    if (!document || result.version !== document.version) return;
+
+    this.replaceDiagnostics(document, result.ranges, result.diagnostics);
+  }
+
+  private replaceDiagnostics(document: TrackedDocument, ranges: SourceRange[], diagnostics: CodeDiagnostic[]): void {
+    const kept = document.diagnostics.filter(diagnostic =>
+      !ranges.some(range => diagnostic.range.startLine >= range.startLine && diagnostic.range.startLine <= range.endLine));
+    document.diagnostics = [...kept, ...diagnostics];
+    this.publishDiagnostics(document);
+  }
+
+  private handleProgressEvent(event: PluginFeedbackEvent): void {
+    if (event.type !== 'skill_update' && event.type !== 'badge_earned') return;
+
+    this.skills = null;
+    if (event.type === 'badge_earned') {
+      this.showMessage(MessageType.Info, `KiroVerse: you earned the ${event.data.name} badge!`);
+    }
+  }
+
+  private async skillFor(languageId: string) {
+    const skillId = LANGUAGE_SKILLS[languageId];
+    if (!skillId || !this.client) return null;
+
+    try {
+      if (!this.skills || Date.now() - this.skills.fetchedAt > SKILLS_CACHE_MS) {
+        const credentials = await this.client.getUserCredentials();
+        this.skills = { fetchedAt: Date.now(), skills: credentials.skills };
+      }
+    } catch (error) {
+      console.error('Error loading KiroVerse skills:', error);
+      return null;
+    }
+
+    return this.skills.skills.find(skill => skill.skillId.toLowerCase() === skillId) || null;
+  }
+
+  private publishDiagnostics(document: TrackedDocument): void {
+    this.connection.sendNotification('textDocument/publishDiagnostics', {
+      uri: document.uri,
+      diagnostics: document.diagnostics.map(toLspDiagnostic),
+    });
+  }
+
+  private showMessage(type: number, message: string): void {
+    this.connection.sendNotification('window/showMessage', { type, message });
+  }
+
+  private requireClient(): KiroLspClient {
+    if (!this.client) {
+      throw new LspResponseError(LspErrorCodes.ServerNotInitialized, 'Server not initialized');
+    }
+    return this.client;
+  }
+}
+
+function toLspRange(range: SourceRange): LspRange {
+  return {
+    start: { line: range.startLine - 1, character: range.startColumn - 1 },
+    end: { line: range.endLine - 1, character: range.endColumn - 1 },
+  };
+}
+
+function fromLspRange(range: LspRange): SourceRange {
+  return {
+    startLine: range.start.line + 1,
+    startColumn: range.start.character + 1,
+    endLine: range.end.line + 1,
+    endColumn: range.end.character + 1,
+  };
+}
+
+function toLspDiagnostic(diagnostic: CodeDiagnostic): LspDiagnostic {
+  return {
+    range: toLspRange(diagnostic.range),
+    severity: SEVERITY[diagnostic.severity],
+    code: diagnostic.category,
+    source: DIAGNOSTIC_SOURCE,
+    message: diagnostic.message,
+    data: { id: diagnostic.id },
+  };
+}
+
+/**
+ * Keep diagnostics in step with an edit: ones after it move with the text and
+ * ones on edited lines are dropped until the next analysis
+ */
+function shiftDiagnostics(diagnostics: CodeDiagnostic[], edit: TextEdit): CodeDiagnostic[] {
+  const { startLine, endLine } = edit.range;
+  const lineDelta = edit.text.split('\n').length - 1 - (endLine - startLine);
+
+  return diagnostics.flatMap(diagnostic => {
+    if (diagnostic.range.endLine < startLine) return [diagnostic];
+    if (diagnostic.range.startLine <= endLine) return [];
+    return [{
+      ...diagnostic,
+      range: {
+        ...diagnostic.range,
+        startLine: diagnostic.range.startLine + lineDelta,
+        endLine: diagnostic.range.endLine + lineDelta,
+      },
+    }];
+  });
+}
+
+function comparePositions(lineA: number, columnA: number, lineB: number, columnB: number): number {
+  return lineA - lineB || columnA - columnB;
+}
+
+function rangesOverlap(a: SourceRange, b: SourceRange): boolean {
+  return comparePositions(a.startLine, a.startColumn, b.endLine, b.endColumn) <= 0
+    && comparePositions(b.startLine, b.startColumn, a.endLine, a.endColumn) <= 0;
+}
+
+function containsPosition(range: SourceRange, line: number, column: number): boolean {
+  return comparePositions(range.startLine, range.startColumn, line, column) <= 0
+    && comparePositions(line, column, range.endLine, range.endColumn) < 0;
+}
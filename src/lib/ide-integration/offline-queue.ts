@@ -0,0 +1,185 @@
+// Offline Queue for the IDE Plugin SDK
+//
+// Holds realtime messages until the server acknowledges them, so work done
+// while disconnected is replayed after a reconnect instead of being lost.
+
+export interface QueuedMessage {
+  id: string;
+  // A newer message with the same key replaces the queued one
+  dedupeKey: string;
+  message: Record<string, unknown>;
+  queuedAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+/**
+ * Where the queue survives editor restarts, e.g. VS Code's `globalState`
+ */
+export interface OfflineQueueStorage {
+  load(): Promise<QueuedMessage[]>;
+  save(messages: QueuedMessage[]): Promise<void>;
+}
+
+export interface OfflineQueueOptions {
+  maxSize?: number;
+  // Wait for an acknowledgement before the first resend; doubles on every attempt
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  maxAttempts?: number;
+}
+
+export class MemoryQueueStorage implements OfflineQueueStorage {
+  private messages: QueuedMessage[] = [];
+
+  async load(): Promise<QueuedMessage[]> {
+    return this.messages.map(message => ({ ...message }));
+  }
+
+  async save(messages: QueuedMessage[]): Promise<void> {
+    this.messages = messages.map(message => ({ ...message }));
+  }
+}
+
+export class LocalStorageQueueStorage implements OfflineQueueStorage {
+  constructor(private key: string) {}
+
+  async load(): Promise<QueuedMessage[]> {
+    const stored = localStorage.getItem(this.key);
+    if (!stored) return [];
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return [];
+    }
+  }
+
+  async save(messages: QueuedMessage[]): Promise<void> {
+    localStorage.setItem(this.key, JSON.stringify(messages));
+  }
+}
+
+/**
+ * localStorage where the plugin runtime has it, otherwise memory only
+ */
+export function defaultQueueStorage(userId: string): OfflineQueueStorage {
+  return typeof localStorage !== 'undefined'
+    ? new LocalStorageQueueStorage(`kiroverse:offline-queue:${userId}`)
+    : new MemoryQueueStorage();
+}
+
+export class OfflineQueue {
+  private messages: QueuedMessage[] = [];
+  private options: Required<OfflineQueueOptions>;
+  private loaded: Promise<void>;
+
+  constructor(private storage: OfflineQueueStorage, options: OfflineQueueOptions = {}) {
+    this.options = {
+      maxSize: options.maxSize ?? 500,
+      retryDelayMs: options.retryDelayMs ?? 30000,
+      maxRetryDelayMs: options.maxRetryDelayMs ?? 5 * 60 * 1000,
+      maxAttempts: options.maxAttempts ?? 5,
+    };
+    this.loaded = this.load();
+  }
+
+  get size(): number {
+    return this.messages.length;
+  }
+
+  /**
+   * Resolves once messages left over from an earlier session are back in the queue
+   */
+  restore(): Promise<void> {
+    return this.loaded;
+  }
+
+  enqueue(dedupeKey: string, id: string, message: Record<string, unknown>): void {
+    this.messages = this.messages.filter(queued => queued.dedupeKey !== dedupeKey);
+    this.messages.push({
+      id,
+      dedupeKey,
+      message,
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+      nextAttemptAt: 0,
+    });
+    this.trim();
+    this.persist();
+  }
+
+  acknowledge(id: string): void {
+    const remaining = this.messages.filter(message => message.id !== id);
+    if (remaining.length !== this.messages.length) {
+      this.messages = remaining;
+      this.persist();
+    }
+  }
+
+  /**
+   * Messages due to be sent now, oldest first. Each counts as an attempt and is
+   * due again after the backoff unless acknowledged; messages out of attempts are dropped.
+   */
+  takeDue(now: number = Date.now()): QueuedMessage[] {
+    const due = this.messages.filter(message => message.nextAttemptAt <= now);
+    if (due.length === 0) return [];
+
+    const exhausted = new Set(due.filter(message => message.attempts >= this.options.maxAttempts));
+    this.messages = this.messages.filter(message => !exhausted.has(message));
+
+    const sending = due.filter(message => !exhausted.has(message));
+    for (const message of sending) {
+      message.attempts += 1;
+      message.nextAttemptAt = now + Math.min(
+        this.options.retryDelayMs * 2 ** (message.attempts - 1),
+        this.options.maxRetryDelayMs
+      );
+    }
+
+    this.persist();
+    return sending;
+  }
+
+  /**
+   * Milliseconds until the next message is due, or null when the queue is empty
+   */
+  nextDueIn(now: number = Date.now()): number | null {
+    if (this.messages.length === 0) return null;
+    return Math.max(0, Math.min(...this.messages.map(message => message.nextAttemptAt)) - now);
+  }
+
+  /**
+   * Make every message due now, e.g. after a reconnect
+   */
+  resetBackoff(): void {
+    for (const message of this.messages) {
+      message.nextAttemptAt = 0;
+    }
+  }
+
+  // Messages queued before the stored ones arrive win over stored ones with the same key
+  private async load(): Promise<void> {
+    try {
+      const stored = await this.storage.load();
+      const queuedKeys = new Set(this.messages.map(message => message.dedupeKey));
+      this.messages = [...stored.filter(message => !queuedKeys.has(message.dedupeKey)), ...this.messages];
+      this.trim();
+    } catch (error) {
+      console.error('Error loading the KiroVerse offline queue:', error);
+    }
+  }
+
+  private trim(): void {
+    // The oldest messages go first when the queue is full
+    if (this.messages.length > this.options.maxSize) {
+      this.messages = this.messages.slice(this.messages.length - this.options.maxSize);
+    }
+  }
+
+  private persist(): void {
+    // Saving before the load finishes would overwrite what is stored
+    this.loaded.then(() => this.storage.save(this.messages)).catch(error => {
+      console.error('Error saving the KiroVerse offline queue:', error);
+    });
+  }
+}
@@ -5,6 +5,11 @@
  * with the KiroVerse learning analytics and feedback system.
  */
 
+import type { CodeDiagnostic } from '@/types/code-feedback';
+import type { DocumentAnalysisResult, TextEdit } from '@/types/ide-integration';
+import { TextEdits } from './text-edits';
+import { OfflineQueue, OfflineQueueStorage, defaultQueueStorage } from './offline-queue';
+
 export interface KiroVerseConfig {
   apiKey: string;
   userId: string;
@@ -12,6 +17,20 @@ export interface KiroVerseConfig {
   realtimeUrl?: string;
   enableRealtime?: boolean;
   enableNotifications?: boolean;
+  // Keeps unacknowledged realtime messages across restarts; defaults to localStorage when available
+  offlineStorage?: OfflineQueueStorage;
+}
+
+export type { OfflineQueueStorage };
+
+export interface ActivityEvent {
+  // Stable id, so a replayed event is only counted once
+  id?: string;
+  kind: string;
+  fileName?: string;
+  language?: string;
+  details?: Record<string, unknown>;
+  occurredAt?: string;
 }
 
 export interface CodeAnalysisRequest {
@@ -31,6 +50,23 @@ export interface CodeAnalysisResponse {
     areas: string[];
   };
   learningInsights: string[];
+  // Line-anchored issues, in the same format as the in-app code feedback
+  diagnostics: CodeDiagnostic[];
+}
+
+export interface DocumentOptions {
+  language?: string;
+  projectType?: string;
+  framework?: string;
+}
+
+export type { DocumentAnalysisResult, TextEdit };
+
+// The SDK's copy of a synced document, used to resend it in full when the server asks
+interface OpenDocument extends DocumentOptions {
+  uri: string;
+  text: string;
+  version: number;
 }
 
 export interface UserCredentials {
@@ -63,6 +99,10 @@ export class KiroVerseSDK {
   private config: Required<KiroVerseConfig>;
   private ws: WebSocket | null = null;
   private eventListeners: Map<string, Function[]> = new Map();
+  private documents: Map<string, OpenDocument> = new Map();
+  private queue: OfflineQueue;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
 
   constructor(config: KiroVerseConfig) {
     this.config = {
@@ -70,8 +110,10 @@ export class KiroVerseSDK {
       realtimeUrl: 'wss://kiroverse.com/ws',
       enableRealtime: true,
       enableNotifications: true,
+      offlineStorage: defaultQueueStorage(config.userId),
       ...config,
     };
+    this.queue = new OfflineQueue(this.config.offlineStorage);
   }
 
   /**
@@ -81,6 +123,9 @@ export class KiroVerseSDK {
     // Validate API key
     await this.validateApiKey();
 
+    // Pick up work queued while the editor was offline last time
+    await this.queue.restore();
+
     // Connect to realtime service if enabled
     if (this.config.enableRealtime) {
       await this.connectRealtime();
@@ -131,6 +176,33 @@ export class KiroVerseSDK {
     return response.json();
   }
 
+  /**
+   * Replace the API key with a new one. The old key keeps working for the grace
+   * period, so other running plugin instances have time to switch over.
+   */
+  async rotateApiKey(gracePeriodMinutes?: number): Promise<string> {
+    const response = await fetch(`${this.config.baseUrl}/ide-integration/auth/rotate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.config.apiKey}`,
+      },
+      body: JSON.stringify({
+        userId: this.config.userId,
+        apiKey: this.config.apiKey,
+        gracePeriodMinutes,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to rotate API key: ${response.statusText}`);
+    }
+
+    const { apiKey } = await response.json();
+    this.config.apiKey = apiKey;
+    return apiKey;
+  }
+
   /**
    * Connect to realtime feedback service
    */
@@ -142,6 +214,13 @@ export class KiroVerseSDK {
 
       this.ws.onopen = () => {
         console.log('Connected to KiroVerse realtime service');
+        this.reconnectAttempts = 0;
+        // The server keeps documents per connection, so a reconnect starts with a full sync
+        for (const document of this.documents.values()) {
+          this.sendDocumentOpen(document);
+        }
+        this.queue.resetBackoff();
+        this.flushQueue();
         resolve();
       };
 
@@ -161,12 +240,18 @@ export class KiroVerseSDK {
 
       this.ws.onclose = () => {
         console.log('Disconnected from KiroVerse realtime service');
-        // Attempt to reconnect after 5 seconds
+        this.clearFlushTimer();
+        // Reconnect with exponential backoff, from 5 seconds up to a minute
+        const delay = Math.min(5000 * 2 ** this.reconnectAttempts, 60000);
+        this.reconnectAttempts += 1;
         setTimeout(() => {
           if (this.config.enableRealtime) {
-            this.connectRealtime();
+            this.connectRealtime().catch((error) => {
+              console.error('Error reconnecting to realtime service:', error);
+              this.emit('error', { message: 'Could not reconnect to the realtime service' });
+            });
           }
-        }, 5000);
+        }, delay);
       };
     });
   }
@@ -183,9 +268,34 @@ export class KiroVerseSDK {
         this.emit('feedback', message.data);
         break;
       case 'code_analysis_result':
+        this.queue.acknowledge(message.data.requestId);
         this.emit('analysis_result', message.data);
         break;
+      case 'code_analysis_cancelled':
+        // A newer request for the same file replaced this one
+        this.queue.acknowledge(message.data.requestId);
+        this.emit('analysis_cancelled', message.data);
+        break;
+      case 'code_save_recorded':
+        this.queue.acknowledge(message.data.id);
+        this.emit('save_recorded', message.data);
+        break;
+      case 'activity_recorded':
+        this.queue.acknowledge(message.data.id);
+        break;
+      case 'document_analysis_result':
+        this.emit('document_analysis', message.data);
+        break;
+      case 'document_resync_required':
+        this.resyncDocument(message.data.uri);
+        break;
       case 'error':
+        // An error naming the request means the server rejected it as invalid, so resending
+        // won't help; failures it may recover from name the queued message by id instead,
+        // which stays queued and is sent again
+        if (message.data?.requestId) {
+          this.queue.acknowledge(message.data.requestId);
+        }
         this.emit('error', message.data);
         break;
       default:
@@ -206,15 +316,141 @@ export class KiroVerseSDK {
   }
 
   /**
-   * Request realtime code analysis
+   * Request realtime code analysis. Requests made while offline are queued and
+   * sent after reconnecting; only the latest one per file is kept.
    */
   requestRealtimeAnalysis(request: CodeAnalysisRequest, requestId?: string): void {
+    const id = requestId || Date.now().toString();
+    this.queue.enqueue(`analysis:${request.fileName || id}`, id, {
+      type: 'code_analysis_request',
+      requestId: id,
+      ...request,
+    });
+    this.flushQueue();
+  }
+
+  /**
+   * Record a saved file. Realtime analysis only gives feedback; XP and badges are
+   * awarded when the file is saved, once per returned save ID even when the save
+   * is replayed after going offline.
+   */
+  recordSave(request: CodeAnalysisRequest, saveId?: string): string {
+    const id = saveId || `save_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    this.queue.enqueue(`save:${id}`, id, {
+      type: 'code_save',
+      id,
+      ...request,
+    });
+    this.flushQueue();
+    return id;
+  }
+
+  /**
+   * Record coding activity, such as saves or test runs, queued like analysis requests
+   */
+  trackActivity(event: ActivityEvent): string {
+    const id = event.id || `activity_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    this.queue.enqueue(`activity:${id}`, id, {
+      type: 'activity',
+      ...event,
+      id,
+      occurredAt: event.occurredAt || new Date().toISOString(),
+    });
+    this.flushQueue();
+    return id;
+  }
+
+  /**
+   * Send queued messages that are due, and come back when the next one is
+   */
+  private flushQueue(): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+    this.clearFlushTimer();
+    for (const queued of this.queue.takeDue()) {
+      this.send(queued.message);
+    }
+
+    const nextDueIn = this.queue.nextDueIn();
+    if (nextDueIn !== null) {
+      this.flushTimer = setTimeout(() => this.flushQueue(), nextDueIn);
+    }
+  }
+
+  private clearFlushTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  /**
+   * Start a document session with a full copy of the file. The server analyzes
+   * it once, then only the regions that later edits touch.
+   */
+  openDocument(uri: string, text: string, options: DocumentOptions = {}): void {
+    const document: OpenDocument = { ...options, uri, text, version: 1 };
+    this.documents.set(uri, document);
+    this.sendDocumentOpen(document);
+  }
+
+  /**
+   * Send edits made since the last call, in the order they were made, and
+   * return the new document version
+   */
+  changeDocument(uri: string, edits: TextEdit[]): number {
+    const document = this.documents.get(uri);
+    if (!document) {
+      throw new Error(`Document ${uri} is not open`);
+    }
+
+    document.text = TextEdits.apply(document.text, edits);
+    document.version += 1;
+
+    this.send({
+      type: 'document_change',
+      uri,
+      version: document.version,
+      edits,
+    });
+    return document.version;
+  }
+
+  /**
+   * End a document session
+   */
+  closeDocument(uri: string): void {
+    if (this.documents.delete(uri)) {
+      this.send({ type: 'document_close', uri });
+    }
+  }
+
+  /**
+   * The server lost track of the document, e.g. after a dropped change, so send it in full
+   */
+  private resyncDocument(uri: string): void {
+    const document = this.documents.get(uri);
+    if (!document) return;
+
+    this.sendDocumentOpen(document);
+    this.emit('document_resynced', { uri, version: document.version });
+  }
+
+  private sendDocumentOpen(document: OpenDocument): void {
+    this.send({
+      type: 'document_open',
+      uri: document.uri,
+      version: document.version,
+      text: document.text,
+      language: document.language,
+      projectType: document.projectType,
+      framework: document.framework,
+    });
+  }
+
+  private send(message: Record<string, unknown>): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify({
-        type: 'code_analysis_request',
-        requestId: requestId || Date.now().toString(),
-        ...request,
-      }));
+      this.ws.send(JSON.stringify(message));
     }
   }
 
@@ -282,11 +518,15 @@ export class KiroVerseSDK {
    * Disconnect from all services
    */
   disconnect(): void {
+    this.clearFlushTimer();
     if (this.ws) {
+      // Closing on purpose, so don't reconnect
+      this.ws.onclose = null;
       this.ws.close();
       this.ws = null;
     }
     this.eventListeners.clear();
+    this.documents.clear();
   }
 
   /**
@@ -296,11 +536,14 @@ export class KiroVerseSDK {
     connected: boolean;
     realtimeConnected: boolean;
     apiKeyValid: boolean;
+    // Realtime messages waiting to be sent or acknowledged
+    queuedMessages: number;
   } {
     return {
       connected: true,
       realtimeConnected: this.ws?.readyState === WebSocket.OPEN,
       apiKeyValid: true, // Would be determined by last validation
+      queuedMessages: this.queue.size,
     };
   }
 }
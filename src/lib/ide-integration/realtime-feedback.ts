@@ -1,5 +1,15 @@
 import { EventEmitter } from 'events';
 import WebSocket from 'ws';
+import { IdeApiKeyError, IdeApiKeyService } from '@/lib/firebase/ide-api-keys';
+import { SkillProgressTracker } from '@/lib/analytics/skill-progress-tracker';
+import { GamificationService } from '@/lib/gamification/gamification-service';
+import { streamCodeFeedback } from '@/ai/flows/get-code-feedback';
+import type { AnalyticsData } from '@/types/analytics';
+import type { BadgeAward } from '@/types/gamification';
+import type { CodeDiagnostic } from '@/types/code-feedback';
+import type { DocumentAnalysisResult } from '@/types/ide-integration';
+import type { PluginScope } from './auth-utils';
+import { DocumentRegions, DocumentStore, DocumentSyncError } from './document-sync';
 
 export interface FeedbackEvent {
   type: 'code_analysis' | 'skill_update' | 'badge_earned' | 'suggestion';
@@ -13,11 +23,91 @@ export interface RealtimeFeedbackConfig {
   maxConnections?: number;
   heartbeatInterval?: number;
   authTimeout?: number;
+  // Resolves to the key's scopes; rejects when the key may not open a realtime connection
+  verifyApiKey?: (apiKey: string, userId: string) => Promise<PluginScope[]>;
+  // Quiet period after the last request for a file before it is analyzed
+  analysisDebounceMs?: number;
+  // Live analysis while the user types; must not save or award anything
+  analyzeSubmission?: typeof SkillProgressTracker.previewCodeSubmission;
+  // Records an explicitly saved file once per save ID and awards its XP and badges
+  recordSave?: (userId: string, code: string, context: string, saveId: string) => Promise<RecordedSave>;
+  // Awards points for plugin activity once per event ID and resolves to the points it earned
+  recordActivity?: (userId: string, activity: { id: string; kind: string }) => Promise<number>;
+  // Diagnostics for one changed region of a synced document, with lines counted from the region start
+  analyzeDiagnostics?: (code: string, language: string | undefined, signal: AbortSignal) => Promise<CodeDiagnostic[]>;
+}
+
+export interface RecordedSave {
+  analytics: AnalyticsData;
+  badgesAwarded: BadgeAward[];
+}
+
+interface AnalysisRequest {
+  requestId: string;
+  code: string;
+  language?: string;
+  fileName?: string;
+  projectType?: string;
+  framework?: string;
+}
+
+// Analysis state for one file of one connection: at most one request waiting
+// out the debounce and one analysis in flight
+interface FileAnalysisState {
+  pending: AnalysisRequest | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  running: { requestId: string; controller: AbortController } | null;
+}
+
+// Answers kept per connection for plugins resending a request whose answer they missed
+const ANSWERED_REQUESTS_KEPT = 50;
+
+async function analyzeRegionDiagnostics(
+  code: string,
+  language: string | undefined,
+  signal: AbortSignal
+): Promise<CodeDiagnostic[]> {
+  const { diagnostics } = await streamCodeFeedback({ code, language }, { onChunk: () => {}, abortSignal: signal });
+  return diagnostics;
+}
+
+async function recordSavedSubmission(userId: string, code: string, context: string, saveId: string): Promise<RecordedSave> {
+  const analytics = await SkillProgressTracker.analyzeCodeSubmission(userId, code, context, {
+    sessionId: `ide_save_${userId}_${saveId}`,
+  });
+  if (analytics.processingStatus !== 'completed') {
+    return { analytics, badgesAwarded: [] };
+  }
+
+  const { badgesAwarded } = await GamificationService.processCodeAnalysisGamification({
+    userId,
+    code,
+    context,
+    aiAnalysis: analytics.aiAnalysis,
+    submissionId: analytics.sessionId,
+  });
+  return { analytics, badgesAwarded };
+}
+
+async function recordIdeActivity(userId: string, activity: { id: string; kind: string }): Promise<number> {
+  const { totalPoints } = await GamificationService.processIdeActivity(userId, activity);
+  return totalPoints;
+}
+
+async function verifyRealtimeApiKey(apiKey: string, userId: string): Promise<PluginScope[]> {
+  const key = await IdeApiKeyService.verifyKey(apiKey, { userId, scope: 'realTimeAnalysis' });
+  return IdeApiKeyService.effectiveScopes(key);
 }
 
 export class RealtimeFeedbackService extends EventEmitter {
   private wss: WebSocket.Server | null = null;
   private connections: Map<string, WebSocket> = new Map();
+  private connectionScopes: Map<string, PluginScope[]> = new Map();
+  private fileAnalyses: Map<string, FileAnalysisState> = new Map();
+  // Latest answers to analysis requests per connection, repeated when the plugin resends a request
+  private answeredRequests: Map<string, Map<string, object>> = new Map();
+  private documentStores: Map<string, DocumentStore> = new Map();
+  private documentAnalyses: Map<string, { timer: ReturnType<typeof setTimeout> | null; controller: AbortController | null }> = new Map();
   private config: Required<RealtimeFeedbackConfig>;
 
   constructor(config: RealtimeFeedbackConfig = {}) {
@@ -27,6 +117,12 @@ export class RealtimeFeedbackService extends EventEmitter {
       maxConnections: config.maxConnections || 100,
       heartbeatInterval: config.heartbeatInterval || 30000,
       authTimeout: config.authTimeout || 10000,
+      verifyApiKey: config.verifyApiKey || verifyRealtimeApiKey,
+      analysisDebounceMs: config.analysisDebounceMs ?? 500,
+      analyzeSubmission: config.analyzeSubmission || ((...args) => SkillProgressTracker.previewCodeSubmission(...args)),
+      recordSave: config.recordSave || recordSavedSubmission,
+      recordActivity: config.recordActivity || recordIdeActivity,
+      analyzeDiagnostics: config.analyzeDiagnostics || analyzeRegionDiagnostics,
     };
   }
 
@@ -42,7 +138,7 @@ export class RealtimeFeedbackService extends EventEmitter {
         });
 
         this.wss.on('connection', (ws, request) => {
-          this.handleConnection(ws, request);
+          void this.handleConnection(ws, request);
         });
 
         this.wss.on('listening', () => {
@@ -82,7 +178,7 @@ export class RealtimeFeedbackService extends EventEmitter {
   /**
    * Handle new WebSocket connection
    */
-  private handleConnection(ws: WebSocket, request: any): void {
+  private async handleConnection(ws: WebSocket, request: any): Promise<void> {
     const url = new URL(request.url, `http://${request.headers.host}`);
     const apiKey = url.searchParams.get('apiKey');
     const userId = url.searchParams.get('userId');
@@ -92,20 +188,29 @@ export class RealtimeFeedbackService extends EventEmitter {
       return;
     }
 
-    // Validate API key (in production, this would check against database)
-    if (!this.isValidApiKey(apiKey, userId)) {
-      ws.close(1008, 'Invalid API key');
+    if (this.connections.size >= this.config.maxConnections) {
+      ws.close(1013, 'Server overloaded');
       return;
     }
 
-    if (this.connections.size >= this.config.maxConnections) {
-      ws.close(1013, 'Server overloaded');
+    let scopes: PluginScope[];
+    try {
+      scopes = await this.authenticate(apiKey, userId);
+    } catch (error) {
+      ws.close(1008, error instanceof IdeApiKeyError ? error.message : 'Authentication failed');
+      return;
+    }
+
+    // The client may have gone away while the key was being checked
+    if (ws.readyState !== WebSocket.OPEN) {
       return;
     }
 
     // Store connection
-    const connectionId = `${userId}_${Date.now()}`;
+    const connectionId = `${userId}_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
     this.connections.set(connectionId, ws);
+    this.connectionScopes.set(connectionId, scopes);
+    this.documentStores.set(connectionId, new DocumentStore());
 
     // Set up connection handlers
     ws.on('message', (message) => {
@@ -114,12 +219,16 @@ export class RealtimeFeedbackService extends EventEmitter {
 
     ws.on('close', () => {
       this.connections.delete(connectionId);
+      this.connectionScopes.delete(connectionId);
+      this.cancelAnalyses(connectionId);
       console.log(`Connection closed: ${connectionId}`);
     });
 
     ws.on('error', (error) => {
       console.error(`Connection error for ${connectionId}:`, error);
       this.connections.delete(connectionId);
+      this.connectionScopes.delete(connectionId);
+      this.cancelAnalyses(connectionId);
     });
 
     // Send welcome message
@@ -128,7 +237,12 @@ export class RealtimeFeedbackService extends EventEmitter {
       data: {
         connectionId,
         serverTime: new Date().toISOString(),
-        capabilities: ['code_analysis', 'skill_updates', 'badge_notifications'],
+        capabilities: [
+          'code_analysis',
+          'document_sync',
+          'skill_updates',
+          ...(scopes.includes('badgeNotifications') ? ['badge_notifications'] : []),
+        ],
       },
     });
 
@@ -146,6 +260,21 @@ export class RealtimeFeedbackService extends EventEmitter {
         case 'code_analysis_request':
           this.handleCodeAnalysisRequest(connectionId, userId, data);
           break;
+        case 'document_open':
+          this.handleDocumentOpen(connectionId, data);
+          break;
+        case 'document_change':
+          this.handleDocumentChange(connectionId, data);
+          break;
+        case 'document_close':
+          this.handleDocumentClose(connectionId, data);
+          break;
+        case 'code_save':
+          void this.handleCodeSave(connectionId, userId, data);
+          break;
+        case 'activity':
+          void this.handleActivity(connectionId, userId, data);
+          break;
         case 'ping':
           this.sendToConnection(connectionId, { type: 'pong', timestamp: Date.now() });
           break;
@@ -165,21 +294,95 @@ export class RealtimeFeedbackService extends EventEmitter {
   }
 
   /**
-   * Handle code analysis requests
+   * Queue a code analysis request. Requests for the same file are debounced:
+   * a newer request replaces the one still waiting and aborts the one being
+   * analyzed, and the replaced requests are answered with code_analysis_cancelled.
+   * The plugin resends requests it has no answer for: a resend of a request still
+   * queued or running is ignored, and one already answered gets the same answer.
    */
-  private async handleCodeAnalysisRequest(
-    connectionId: string, 
-    userId: string, 
-    data: any
-  ): Promise<void> {
-    try {
-      // This would integrate with the existing AI feedback system
-      const analysis = await this.analyzeCode(data.code, data.language, data.context);
-      
+  private handleCodeAnalysisRequest(connectionId: string, userId: string, data: any): void {
+    const requestId = String(data.requestId ?? Date.now());
+
+    if (typeof data.code !== 'string') {
       this.sendToConnection(connectionId, {
+        type: 'error',
+        data: { requestId, message: 'Missing code to analyze' },
+      });
+      return;
+    }
+
+    const request: AnalysisRequest = {
+      requestId,
+      code: data.code,
+      language: data.language,
+      fileName: data.fileName ?? data.context?.fileName,
+      projectType: data.projectType ?? data.context?.projectType,
+      framework: data.framework ?? data.context?.framework,
+    };
+
+    const answer = this.answeredRequests.get(connectionId)?.get(requestId);
+    if (answer) {
+      this.sendToConnection(connectionId, answer);
+      return;
+    }
+
+    const key = `${connectionId}:${request.fileName || 'untitled'}`;
+    const state = this.fileAnalyses.get(key) || { pending: null, timer: null, running: null };
+    this.fileAnalyses.set(key, state);
+
+    if (state.pending?.requestId === requestId || state.running?.requestId === requestId) {
+      return;
+    }
+
+    if (state.pending) {
+      clearTimeout(state.timer!);
+      this.sendCancelled(connectionId, state.pending.requestId, requestId);
+    }
+    if (state.running) {
+      state.running.controller.abort();
+      this.sendCancelled(connectionId, state.running.requestId, requestId);
+      state.running = null;
+    }
+
+    state.pending = request;
+    state.timer = setTimeout(() => {
+      void this.runAnalysis(connectionId, userId, key);
+    }, this.config.analysisDebounceMs);
+  }
+
+  /**
+   * Run the file's pending request through the skill analysis and push the result,
+   * unless a newer request superseded it in the meantime. Nothing is saved or
+   * awarded here; that happens once per explicit save.
+   */
+  private async runAnalysis(connectionId: string, userId: string, key: string): Promise<void> {
+    const state = this.fileAnalyses.get(key);
+    const request = state?.pending;
+    if (!state || !request) return;
+
+    const controller = new AbortController();
+    state.pending = null;
+    state.timer = null;
+    state.running = { requestId: request.requestId, controller };
+
+    try {
+      const analytics = await this.config.analyzeSubmission(
+        userId,
+        request.code,
+        this.describeContext(request),
+        { signal: controller.signal }
+      );
+      if (controller.signal.aborted) return;
+
+      if (analytics.processingStatus !== 'completed') {
+        throw new Error(`Analysis ${analytics.processingStatus}`);
+      }
+
+      const analysis = this.toRealtimeAnalysis(analytics);
+      this.answerRequest(connectionId, request.requestId, {
         type: 'code_analysis_result',
         data: {
-          requestId: data.requestId,
+          requestId: request.requestId,
           analysis,
           timestamp: new Date().toISOString(),
         },
@@ -188,22 +391,361 @@ export class RealtimeFeedbackService extends EventEmitter {
       // Emit event for other systems to handle
       this.emit('code_analyzed', {
         userId,
-        code: data.code,
-        language: data.language,
+        code: request.code,
+        language: analytics.codeSubmission.language,
         analysis,
       });
     } catch (error) {
+      if (controller.signal.aborted) return;
+
       console.error('Error analyzing code:', error);
-      this.sendToConnection(connectionId, {
+      this.answerRequest(connectionId, request.requestId, {
         type: 'error',
         data: {
-          requestId: data.requestId,
+          requestId: request.requestId,
           message: 'Failed to analyze code',
         },
       });
+    } finally {
+      if (state.running?.controller === controller) {
+        state.running = null;
+      }
+      if (!state.pending && !state.running && this.fileAnalyses.get(key) === state) {
+        this.fileAnalyses.delete(key);
+      }
     }
   }
 
+  /**
+   * The user saved a file: record the analysis and award its XP and badges. Saves
+   * are queued by the plugin and may be replayed, so each save ID is recorded once.
+   */
+  private async handleCodeSave(connectionId: string, userId: string, data: any): Promise<void> {
+    if (typeof data.id !== 'string' || typeof data.code !== 'string') {
+      this.sendToConnection(connectionId, {
+        type: 'error',
+        data: { requestId: data.id, message: 'code_save needs an id and the saved code' },
+      });
+      return;
+    }
+
+    const request: AnalysisRequest = {
+      requestId: data.id,
+      code: data.code,
+      language: data.language,
+      fileName: data.fileName,
+      projectType: data.projectType,
+      framework: data.framework,
+    };
+
+    try {
+      const { analytics, badgesAwarded } = await this.config.recordSave(userId, request.code, this.describeContext(request), data.id);
+      if (analytics.processingStatus !== 'completed') {
+        throw new Error(`Analysis ${analytics.processingStatus}`);
+      }
+
+      this.sendToConnection(connectionId, {
+        type: 'code_save_recorded',
+        data: { id: data.id, analysis: this.toRealtimeAnalysis(analytics) },
+      });
+      this.pushProgressEvents(userId, analytics, badgesAwarded);
+    } catch (error) {
+      // Not acknowledged, so the plugin keeps the save queued and sends it again
+      console.error('Error recording code save:', error);
+      this.sendToConnection(connectionId, {
+        type: 'error',
+        data: { id: data.id, message: 'Failed to record save' },
+      });
+    }
+  }
+
+  /**
+   * Coding activity reported by the plugin, possibly replayed from its offline
+   * queue. Points are awarded once per event ID, and the event is acknowledged
+   * once recorded so the plugin can drop it from the queue.
+   */
+  private async handleActivity(connectionId: string, userId: string, data: any): Promise<void> {
+    if (typeof data.id !== 'string' || typeof data.kind !== 'string') {
+      this.sendToConnection(connectionId, {
+        type: 'error',
+        data: { message: 'activity needs an id and a kind' },
+      });
+      return;
+    }
+
+    try {
+      const points = await this.config.recordActivity(userId, { id: data.id, kind: data.kind });
+
+      this.emit('activity', {
+        userId,
+        id: data.id,
+        kind: data.kind,
+        fileName: data.fileName,
+        language: data.language,
+        details: data.details,
+        occurredAt: data.occurredAt || new Date().toISOString(),
+        points,
+      });
+
+      this.sendToConnection(connectionId, {
+        type: 'activity_recorded',
+        data: { id: data.id, points },
+      });
+    } catch (error) {
+      // Not acknowledged, so the plugin keeps the event queued and sends it again
+      console.error('Error recording activity:', error);
+      this.sendToConnection(connectionId, {
+        type: 'error',
+        data: { id: data.id, message: 'Failed to record activity' },
+      });
+    }
+  }
+
+  /**
+   * Full sync of a document; the whole document is analyzed once
+   */
+  private handleDocumentOpen(connectionId: string, data: any): void {
+    const store = this.documentStores.get(connectionId);
+    if (!store) return;
+
+    if (typeof data.uri !== 'string' || typeof data.text !== 'string' || !Number.isInteger(data.version)) {
+      this.sendToConnection(connectionId, {
+        type: 'error',
+        data: { uri: data.uri, message: 'document_open needs a uri, text and an integer version' },
+      });
+      return;
+    }
+
+    store.open({
+      uri: data.uri,
+      text: data.text,
+      version: data.version,
+      language: data.language,
+      projectType: data.projectType,
+      framework: data.framework,
+    });
+    this.scheduleDocumentAnalysis(connectionId, data.uri);
+  }
+
+  /**
+   * Apply text-edit deltas. When they don't line up with the server's copy the
+   * plugin is asked for the full text again.
+   */
+  private handleDocumentChange(connectionId: string, data: any): void {
+    const store = this.documentStores.get(connectionId);
+    if (!store) return;
+
+    try {
+      store.change(data.uri, data.version, Array.isArray(data.edits) ? data.edits : []);
+    } catch (error) {
+      if (!(error instanceof DocumentSyncError)) throw error;
+
+      this.cancelDocumentAnalysis(connectionId, data.uri);
+      this.sendToConnection(connectionId, {
+        type: 'document_resync_required',
+        data: { uri: data.uri, version: data.version, reason: error.code, message: error.message },
+      });
+      return;
+    }
+
+    this.scheduleDocumentAnalysis(connectionId, data.uri);
+  }
+
+  private handleDocumentClose(connectionId: string, data: any): void {
+    this.documentStores.get(connectionId)?.close(data.uri);
+    this.cancelDocumentAnalysis(connectionId, data.uri);
+  }
+
+  /**
+   * Debounce like whole-file requests: every change restarts the quiet period
+   * and aborts the analysis of an older version
+   */
+  private scheduleDocumentAnalysis(connectionId: string, uri: string): void {
+    this.cancelDocumentAnalysis(connectionId, uri);
+
+    const key = `${connectionId}:${uri}`;
+    const timer = setTimeout(() => {
+      void this.runDocumentAnalysis(connectionId, uri);
+    }, this.config.analysisDebounceMs);
+    this.documentAnalyses.set(key, { timer, controller: null });
+  }
+
+  /**
+   * Analyze only the regions changed since the last result and send their
+   * diagnostics in document coordinates
+   */
+  private async runDocumentAnalysis(connectionId: string, uri: string): Promise<void> {
+    const key = `${connectionId}:${uri}`;
+    const state = this.documentAnalyses.get(key);
+    const document = this.documentStores.get(connectionId)?.get(uri);
+    if (!state || !document) return;
+
+    const controller = new AbortController();
+    state.timer = null;
+    state.controller = controller;
+    const { version, language } = document;
+
+    try {
+      const regions = DocumentRegions.forChanges(document);
+      const diagnostics: CodeDiagnostic[] = [];
+
+      for (const region of regions) {
+        const found = await this.config.analyzeDiagnostics(region.code, language, controller.signal);
+        if (controller.signal.aborted) return;
+
+        const lineOffset = region.range.startLine - 1;
+        diagnostics.push(...found.map(diagnostic => ({
+          ...diagnostic,
+          range: {
+            ...diagnostic.range,
+            startLine: diagnostic.range.startLine + lineOffset,
+            endLine: diagnostic.range.endLine + lineOffset,
+          },
+        })));
+      }
+
+      document.changedLines = [];
+      const result: DocumentAnalysisResult = {
+        uri,
+        version,
+        ranges: regions.map(region => region.range),
+        // Ids stay unique next to the diagnostics the plugin keeps from earlier versions
+        diagnostics: diagnostics.map((diagnostic, index) => ({ ...diagnostic, id: `v${version}-${index + 1}` })),
+      };
+      this.sendToConnection(connectionId, { type: 'document_analysis_result', data: result });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      console.error('Error analyzing document:', error);
+      this.sendToConnection(connectionId, {
+        type: 'error',
+        data: { uri, version, message: 'Failed to analyze document' },
+      });
+    } finally {
+      if (this.documentAnalyses.get(key) === state && state.controller === controller) {
+        this.documentAnalyses.delete(key);
+      }
+    }
+  }
+
+  private cancelDocumentAnalysis(connectionId: string, uri: string): void {
+    const key = `${connectionId}:${uri}`;
+    const state = this.documentAnalyses.get(key);
+    if (!state) return;
+
+    if (state.timer) clearTimeout(state.timer);
+    state.controller?.abort();
+    this.documentAnalyses.delete(key);
+  }
+
+  /**
+   * Tell the user's plugins about the XP and badges a recorded save awarded
+   */
+  private pushProgressEvents(userId: string, analytics: AnalyticsData, badgesAwarded: BadgeAward[]): void {
+    const timestamp = new Date();
+
+    for (const improvement of analytics.skillImprovements) {
+      this.sendFeedbackToUser(userId, {
+        type: 'skill_update',
+        userId,
+        data: {
+          skillId: improvement.skillId,
+          previousLevel: improvement.previousLevel,
+          newLevel: improvement.newLevel,
+          improvementType: improvement.improvementType,
+          evidence: improvement.evidence,
+          sessionId: analytics.sessionId,
+        },
+        timestamp,
+      });
+    }
+
+    for (const badge of badgesAwarded) {
+      this.sendFeedbackToUser(userId, {
+        type: 'badge_earned',
+        userId,
+        data: {
+          badgeId: badge.badgeId,
+          name: badge.badgeName,
+          description: badge.description,
+          rarity: badge.rarity.level,
+          awardedAt: badge.awardedAt.toISOString(),
+          sessionId: analytics.sessionId,
+        },
+        timestamp,
+      });
+    }
+  }
+
+  /**
+   * Shape the pipeline's analytics record for the plugin; scores are out of 10
+   */
+  private toRealtimeAnalysis(analytics: AnalyticsData) {
+    const { aiAnalysis, codeSubmission } = analytics;
+    return {
+      sessionId: analytics.sessionId,
+      language: codeSubmission.language,
+      suggestions: aiAnalysis.suggestions,
+      skillsUsed: aiAnalysis.detectedSkills,
+      codeQuality: {
+        score: Math.round(aiAnalysis.codeQuality) / 10,
+        areas: aiAnalysis.improvementAreas,
+      },
+      metrics: codeSubmission.metrics,
+      skillImprovements: analytics.skillImprovements,
+      learningInsights: analytics.learningInsights.map(insight => insight.title),
+    };
+  }
+
+  private describeContext(request: AnalysisRequest): string {
+    return [
+      'Realtime analysis from the IDE',
+      request.fileName && `File: ${request.fileName}`,
+      request.language && `Language: ${request.language}`,
+      request.projectType && `Project type: ${request.projectType}`,
+      request.framework && `Framework: ${request.framework}`,
+    ].filter(Boolean).join('\n');
+  }
+
+  private answerRequest(connectionId: string, requestId: string, message: object): void {
+    const answered = this.answeredRequests.get(connectionId) || new Map<string, object>();
+    answered.set(requestId, message);
+    if (answered.size > ANSWERED_REQUESTS_KEPT) {
+      answered.delete(answered.keys().next().value!);
+    }
+    this.answeredRequests.set(connectionId, answered);
+    this.sendToConnection(connectionId, message);
+  }
+
+  private sendCancelled(connectionId: string, requestId: string, supersededBy: string): void {
+    this.sendToConnection(connectionId, {
+      type: 'code_analysis_cancelled',
+      data: { requestId, reason: 'superseded', supersededBy },
+    });
+  }
+
+  /**
+   * Drop queued and abort running analyses, and forget the open documents, of a
+   * connection that went away
+   */
+  private cancelAnalyses(connectionId: string): void {
+    for (const [key, state] of this.fileAnalyses) {
+      if (!key.startsWith(`${connectionId}:`)) continue;
+      if (state.timer) clearTimeout(state.timer);
+      state.running?.controller.abort();
+      this.fileAnalyses.delete(key);
+    }
+
+    for (const [key, state] of this.documentAnalyses) {
+      if (!key.startsWith(`${connectionId}:`)) continue;
+      if (state.timer) clearTimeout(state.timer);
+      state.controller?.abort();
+      this.documentAnalyses.delete(key);
+    }
+    this.documentStores.delete(connectionId);
+    this.answeredRequests.delete(connectionId);
+  }
+
   /**
    * Handle subscription requests
    */
@@ -227,12 +769,10 @@ export class RealtimeFeedbackService extends EventEmitter {
    */
   sendFeedbackToUser(userId: string, feedback: FeedbackEvent): void {
     const userConnections = Array.from(this.connections.entries())
-      .filter(([id]) => id.startsWith(userId));
+      .filter(([id]) => id.startsWith(`${userId}_`));
 
     for (const [connectionId, ws] of userConnections) {
-      const subscriptions = (ws as any).subscriptions || [];
-      
-      if (subscriptions.length === 0 || subscriptions.includes(feedback.type)) {
+      if (this.wantsFeedback(connectionId, ws, feedback)) {
         this.sendToConnection(connectionId, {
           type: 'feedback',
           data: feedback,
@@ -246,9 +786,7 @@ export class RealtimeFeedbackService extends EventEmitter {
    */
   broadcastFeedback(feedback: FeedbackEvent): void {
     for (const [connectionId, ws] of this.connections) {
-      const subscriptions = (ws as any).subscriptions || [];
-      
-      if (subscriptions.length === 0 || subscriptions.includes(feedback.type)) {
+      if (this.wantsFeedback(connectionId, ws, feedback)) {
         this.sendToConnection(connectionId, {
           type: 'broadcast',
           data: feedback,
@@ -257,6 +795,18 @@ export class RealtimeFeedbackService extends EventEmitter {
     }
   }
 
+  /**
+   * Whether the connection subscribed to this event type and its key may receive it
+   */
+  private wantsFeedback(connectionId: string, ws: WebSocket, feedback: FeedbackEvent): boolean {
+    if (feedback.type === 'badge_earned' && !this.connectionScopes.get(connectionId)?.includes('badgeNotifications')) {
+      return false;
+    }
+
+    const subscriptions = (ws as any).subscriptions || [];
+    return subscriptions.length === 0 || subscriptions.includes(feedback.type);
+  }
+
   /**
    * Send message to specific connection
    */
@@ -277,33 +827,23 @@ export class RealtimeFeedbackService extends EventEmitter {
           ws.ping();
         } else {
           this.connections.delete(connectionId);
+          this.connectionScopes.delete(connectionId);
+          this.cancelAnalyses(connectionId);
         }
       }
     }, this.config.heartbeatInterval);
   }
 
   /**
-   * Validate API key (placeholder implementation)
-   */
-  private isValidApiKey(apiKey: string, userId: string): boolean {
-    // In production, this would validate against the database
-    return apiKey.startsWith(`kiro_${userId}_`) && apiKey.length > 20;
-  }
-
-  /**
-   * Analyze code (placeholder implementation)
+   * Verify the handshake's API key, giving up after the configured auth timeout
    */
-  private async analyzeCode(code: string, language: string, context: any): Promise<any> {
-    // This would integrate with the existing Genkit AI flows
-    return {
-      feedback: 'Code analysis completed',
-      suggestions: ['Consider adding error handling', 'Use more descriptive variable names'],
-      skillsUsed: [language.toLowerCase()],
-      codeQuality: {
-        score: Math.floor(Math.random() * 5) + 6, // Random score 6-10
-        areas: ['readability', 'maintainability'],
-      },
-    };
+  private authenticate(apiKey: string, userId: string): Promise<PluginScope[]> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Authentication timed out')), this.config.authTimeout);
+      this.config.verifyApiKey(apiKey, userId)
+        .then(resolve, reject)
+        .finally(() => clearTimeout(timer));
+    });
   }
 
   /**
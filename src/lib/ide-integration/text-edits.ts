@@ -0,0 +1,99 @@
+// Text Edits for Incremental Document Sync
+//
+// Shared by the plugin SDK and the realtime server so both sides apply the
+// same edits to the same text.
+
+import type { LineSpan, TextEdit } from '@/types/ide-integration';
+
+export interface TrackedEdits {
+  text: string;
+  // Lines of the edited text touched by these and any earlier tracked edits
+  changedLines: LineSpan[];
+}
+
+export class TextEdits {
+  /**
+   * Applies edits in order, each against the text left by the previous one.
+   * Throws a RangeError when an edit reaches outside the text.
+   */
+  static apply(text: string, edits: TextEdit[]): string {
+    return this.applyTracked(text, edits).text;
+  }
+
+  /**
+   * Applies edits and keeps `changedLines` pointing at the same lines as the
+   * text moves underneath them
+   */
+  static applyTracked(text: string, edits: TextEdit[], changedLines: LineSpan[] = []): TrackedEdits {
+    let spans = changedLines;
+
+    for (const edit of edits) {
+      const { start, end } = this.toOffsets(text, edit);
+      text = text.slice(0, start) + edit.text + text.slice(end);
+
+      const { startLine, endLine } = edit.range;
+      const insertedLines = edit.text.split('\n').length - 1;
+      const lineDelta = insertedLines - (endLine - startLine);
+      const edited: LineSpan = { startLine, endLine: startLine + insertedLines };
+
+      spans = spans.map(span => {
+        if (span.endLine < startLine) return span;
+        if (span.startLine > endLine) {
+          return { startLine: span.startLine + lineDelta, endLine: span.endLine + lineDelta };
+        }
+        // Overlapping spans are folded into the edited lines
+        edited.startLine = Math.min(edited.startLine, span.startLine);
+        edited.endLine = Math.max(edited.endLine, span.endLine + lineDelta);
+        return null;
+      }).filter((span): span is LineSpan => span !== null);
+
+      spans = this.mergeSpans([...spans, edited]);
+    }
+
+    return { text, changedLines: spans };
+  }
+
+  /**
+   * Sorts spans and joins the ones that overlap or touch
+   */
+  static mergeSpans(spans: LineSpan[]): LineSpan[] {
+    const sorted = [...spans].sort((a, b) => a.startLine - b.startLine);
+    const merged: LineSpan[] = [];
+
+    for (const span of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && span.startLine <= last.endLine + 1) {
+        last.endLine = Math.max(last.endLine, span.endLine);
+      } else {
+        merged.push({ ...span });
+      }
+    }
+
+    return merged;
+  }
+
+  private static toOffsets(text: string, edit: TextEdit): { start: number; end: number } {
+    const { startLine, startColumn, endLine, endColumn } = edit.range;
+    if (endLine < startLine || (endLine === startLine && endColumn < startColumn)) {
+      throw new RangeError(`Edit range ends before it starts (${startLine}:${startColumn}-${endLine}:${endColumn})`);
+    }
+
+    const lines = text.split('\n');
+    const offsetOf = (line: number, column: number) => {
+      if (!Number.isInteger(line) || line < 1 || line > lines.length) {
+        throw new RangeError(`Edit line ${line} is outside the document (${lines.length} lines)`);
+      }
+      if (!Number.isInteger(column) || column < 1 || column > lines[line - 1].length + 1) {
+        throw new RangeError(`Edit column ${column} is outside line ${line}`);
+      }
+
+      let offset = 0;
+      for (let index = 0; index < line - 1; index++) {
+        offset += lines[index].length + 1;
+      }
+      return offset + column - 1;
+    };
+
+    return { start: offsetOf(startLine, startColumn), end: offsetOf(endLine, endColumn) };
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { AI_SCREENING_REPORTER, ModerationError, ModerationQueue } from '../moderation-queue';
+import { ContentReference, ContentReport, ToxicityScreening } from '@/types/moderation';
+
+const REVIEW: ContentReference = { type: 'peer_review', contentId: 'review-1', authorId: 'reviewer-1' };
+const COMMENT: ContentReference = { type: 'session_comment', contentId: 'comment-1', authorId: 'user-9', parentId: 'session-1' };
+
+const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 12, minute));
+
+const report = (reporterId: string, minute = 0, reason: ContentReport['reason'] = 'harassment'): ContentReport => ({
+  reporterId,
+  reason,
+  createdAt: at(minute)
+});
+
+const screening = (toxicity: number, categories: string[] = ['harassment']): ToxicityScreening => ({
+  toxicity,
+  categories,
+  explanation: 'Insults the author',
+  screenedAt: at(0)
+});
+
+describe('ModerationQueue', () => {
+  it('opens a case per piece of content and hides it once enough people report it', () => {
+    let moderationCase = ModerationQueue.report(null, REVIEW, 'You are clueless', report('a', 1));
+    expect(moderationCase).toMatchObject({ caseId: 'peer_review_review-1', status: 'open', contentStatus: 'visible' });
+
+    moderationCase = ModerationQueue.report(moderationCase, REVIEW, '', report('b', 2));
+    expect(moderationCase.contentStatus).toBe('visible');
+
+    moderationCase = ModerationQueue.report(moderationCase, REVIEW, '', report('c', 3));
+    expect(moderationCase).toMatchObject({ contentStatus: 'hidden', autoHidden: true });
+    expect(moderationCase.reports).toHaveLength(3);
+  });
+
+  it('rejects reports of your own content and repeat reports', () => {
+    expect(() => ModerationQueue.report(null, REVIEW, '', report('reviewer-1')))
+      .toThrow(expect.objectContaining({ code: 'own_content' }));
+
+    const moderationCase = ModerationQueue.report(null, REVIEW, '', report('a', 1));
+    expect(() => ModerationQueue.report(moderationCase, REVIEW, '', report('a', 2)))
+      .toThrow(ModerationError);
+  });
+
+  it('queues toxic content from screening and hides it above the auto-hide threshold', () => {
+    expect(ModerationQueue.screen(null, COMMENT, 'Nice refactor!', screening(0.1))).toBeNull();
+
+    const flagged = ModerationQueue.screen(null, COMMENT, 'Idiot', screening(0.6))!;
+    expect(flagged).toMatchObject({ status: 'open', contentStatus: 'visible' });
+    expect(flagged.reports).toEqual([expect.objectContaining({ reporterId: AI_SCREENING_REPORTER, reason: 'harassment' })]);
+
+    const hidden = ModerationQueue.screen(null, COMMENT, 'Idiot', screening(0.95, ['threats']))!;
+    expect(hidden).toMatchObject({ contentStatus: 'hidden', autoHidden: true });
+    expect(hidden.reports[0].reason).toBe('inappropriate');
+  });
+
+  it('applies moderator decisions and only restores once resolved', () => {
+    const moderationCase = ModerationQueue.screen(null, COMMENT, 'Idiot', screening(0.95))!;
+
+    const dismissed = ModerationQueue.resolve(moderationCase, 'dismiss', 'mod-1', ' False positive ', at(5));
+    expect(dismissed).toMatchObject({
+      status: 'resolved',
+      contentStatus: 'visible',
+      resolution: { action: 'dismiss', moderatorId: 'mod-1', note: 'False positive' }
+    });
+    expect(() => ModerationQueue.resolve(dismissed, 'hide', 'mod-1'))
+      .toThrow(expect.objectContaining({ code: 'case_resolved' }));
+
+    const warned = ModerationQueue.resolve(moderationCase, 'warn', 'mod-1');
+    expect(warned.contentStatus).toBe('hidden');
+    expect(ModerationQueue.resolve(warned, 'restore', 'mod-2').contentStatus).toBe('visible');
+  });
+
+  it('reopens resolved cases on new reports, counting only reports since the decision', () => {
+    let moderationCase = ModerationQueue.report(null, REVIEW, '', report('a', 1));
+    moderationCase = ModerationQueue.report(moderationCase, REVIEW, '', report('b', 2));
+    moderationCase = ModerationQueue.resolve(moderationCase, 'dismiss', 'mod-1', undefined, at(10));
+
+    moderationCase = ModerationQueue.report(moderationCase, REVIEW, '', report('a', 11));
+    expect(moderationCase).toMatchObject({ status: 'open', contentStatus: 'visible' });
+  });
+
+  it('orders the queue by severity and tracks suspensions', () => {
+    const spam = ModerationQueue.report(null, REVIEW, '', report('a', 1, 'spam'));
+    const hate = ModerationQueue.report(null, COMMENT, '', report('a', 2, 'hate_speech'));
+    const resolved = ModerationQueue.resolve(hate, 'hide', 'mod-1');
+
+    expect(ModerationQueue.sortQueue([spam, hate]).map(c => c.caseId)).toEqual([hate.caseId, spam.caseId]);
+    expect(ModerationQueue.sortQueue([spam, resolved])).toEqual([spam]);
+
+    const warned = ModerationQueue.updateRecord(undefined, 'warn', at(0));
+    const suspended = ModerationQueue.updateRecord(warned, 'suspend', at(0), 3);
+    expect(suspended.warnings).toBe(1);
+    expect(ModerationQueue.isSuspended(suspended, new Date('2024-01-03T00:00:00Z'))).toBe(true);
+    expect(ModerationQueue.isSuspended(suspended, new Date('2024-01-05T00:00:00Z'))).toBe(false);
+  });
+});
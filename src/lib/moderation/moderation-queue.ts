@@ -0,0 +1,245 @@
+// Moderation Queue for community content
+// Collects reports and AI screening results into cases and applies moderator decisions
+
+import {
+  ContentReference,
+  ContentReport,
+  ModerationAction,
+  ModerationCase,
+  ModerationConfig,
+  ModerationStatus,
+  ReportReason,
+  ReviewerModerationRecord,
+  ToxicityScreening
+} from '@/types/moderation';
+import { PeerReview } from '@/types/peer-review';
+
+// Reporter id used for reports raised by AI pre-screening
+export const AI_SCREENING_REPORTER = 'ai-screening';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REPORT_REASONS: ReportReason[] = ['spam', 'harassment', 'hate_speech', 'inappropriate', 'plagiarism', 'other'];
+
+export type ModerationErrorCode = 'own_content' | 'duplicate_report' | 'case_resolved' | 'invalid_action';
+
+export class ModerationError extends Error {
+  constructor(message: string, public readonly code: ModerationErrorCode) {
+    super(message);
+    this.name = 'ModerationError';
+  }
+}
+
+export class ModerationQueue {
+  static readonly DEFAULT_CONFIG: ModerationConfig = {
+    flagThreshold: 0.5,
+    autoHideThreshold: 0.85,
+    autoHideReportCount: 3,
+    defaultSuspensionDays: 7,
+    reasonSeverity: {
+      hate_speech: 5,
+      harassment: 4,
+      inappropriate: 3,
+      plagiarism: 2,
+      spam: 2,
+      other: 1
+    }
+  };
+
+  static caseIdFor(content: ContentReference): string {
+    return `${content.type}_${content.contentId}`;
+  }
+
+  /**
+   * Adds a user report to the content's case, opening or reopening it. Content is hidden
+   * pending review once enough people report it since the last moderator decision.
+   */
+  static report(
+    existing: ModerationCase | null,
+    content: ContentReference,
+    excerpt: string,
+    report: ContentReport,
+    config: Partial<ModerationConfig> = {}
+  ): ModerationCase {
+    const finalConfig = { ...this.DEFAULT_CONFIG, ...config };
+    if (report.reporterId === content.authorId) {
+      throw new ModerationError('You cannot report your own content', 'own_content');
+    }
+
+    const current = existing ?? this.openCase(content, excerpt, report.createdAt);
+    const since = current.resolution?.resolvedAt.getTime() ?? 0;
+    const pending = current.reports.filter(existingReport => existingReport.createdAt.getTime() > since);
+    if (pending.some(existingReport => existingReport.reporterId === report.reporterId)) {
+      throw new ModerationError('You have already reported this content', 'duplicate_report');
+    }
+
+    const { details, ...rest } = report;
+    const reports = [...current.reports, { ...rest, ...(details?.trim() && { details: details.trim() }) }];
+    const reporters = new Set(
+      [...pending, report]
+        .map(pendingReport => pendingReport.reporterId)
+        .filter(reporterId => reporterId !== AI_SCREENING_REPORTER)
+    );
+    const autoHide = current.contentStatus === 'visible' && reporters.size >= finalConfig.autoHideReportCount;
+
+    return {
+      ...current,
+      status: 'open',
+      reports,
+      ...(autoHide && { contentStatus: 'hidden' as ModerationStatus, autoHidden: true }),
+      updatedAt: report.createdAt
+    };
+  }
+
+  /**
+   * Applies an AI toxicity screening. Returns null when the content is clean and has no case;
+   * otherwise the case, queued when the score reaches the flag threshold and hidden when it
+   * reaches the auto-hide threshold.
+   */
+  static screen(
+    existing: ModerationCase | null,
+    content: ContentReference,
+    excerpt: string,
+    screening: ToxicityScreening,
+    config: Partial<ModerationConfig> = {}
+  ): ModerationCase | null {
+    const finalConfig = { ...this.DEFAULT_CONFIG, ...config };
+    if (screening.toxicity < finalConfig.flagThreshold) {
+      return existing && { ...existing, screening };
+    }
+
+    const current = existing ?? this.openCase(content, excerpt, screening.screenedAt);
+    const reason = REPORT_REASONS.find(candidate => screening.categories.includes(candidate)) ?? 'inappropriate';
+    const autoHide = current.contentStatus === 'visible' && screening.toxicity >= finalConfig.autoHideThreshold;
+
+    return {
+      ...current,
+      status: 'open',
+      screening,
+      reports: [
+        ...current.reports.filter(report => report.reporterId !== AI_SCREENING_REPORTER),
+        {
+          reporterId: AI_SCREENING_REPORTER,
+          reason,
+          details: screening.explanation,
+          createdAt: screening.screenedAt
+        }
+      ],
+      ...(autoHide && { contentStatus: 'hidden' as ModerationStatus, autoHidden: true }),
+      updatedAt: screening.screenedAt
+    };
+  }
+
+  /**
+   * Records a moderator's decision. Warnings and suspensions also hide the content that
+   * earned them; dismissing a case restores anything hidden automatically. Resolved cases
+   * can still have their content restored.
+   */
+  static resolve(
+    moderationCase: ModerationCase,
+    action: ModerationAction,
+    moderatorId: string,
+    note?: string,
+    now: Date = new Date()
+  ): ModerationCase {
+    if (moderationCase.status === 'resolved' && action !== 'restore') {
+      throw new ModerationError('This case has already been resolved', 'case_resolved');
+    }
+    if (action === 'restore' && moderationCase.contentStatus === 'visible') {
+      throw new ModerationError('The content is not hidden', 'invalid_action');
+    }
+
+    const contentStatus: ModerationStatus = action === 'restore' || action === 'dismiss' ? 'visible' : 'hidden';
+
+    return {
+      ...moderationCase,
+      status: 'resolved',
+      contentStatus,
+      resolution: {
+        action,
+        moderatorId,
+        ...(note?.trim() && { note: note.trim() }),
+        resolvedAt: now
+      },
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Queue order score: how severe the reported reasons are, how toxic the screening found
+   * the content, and whether it is already hidden and waiting on a moderator
+   */
+  static priority(moderationCase: ModerationCase, config: Partial<ModerationConfig> = {}): number {
+    const severity = { ...this.DEFAULT_CONFIG, ...config }.reasonSeverity;
+    const reportScore = moderationCase.reports.reduce((sum, report) => sum + severity[report.reason], 0);
+    const toxicityScore = (moderationCase.screening?.toxicity ?? 0) * 10;
+    return reportScore + toxicityScore + (moderationCase.autoHidden ? 5 : 0);
+  }
+
+  /**
+   * Open cases, highest priority first and oldest first among equals
+   */
+  static sortQueue(cases: ModerationCase[], config: Partial<ModerationConfig> = {}): ModerationCase[] {
+    return cases
+      .filter(moderationCase => moderationCase.status === 'open')
+      .sort((a, b) =>
+        this.priority(b, config) - this.priority(a, config) ||
+        a.createdAt.getTime() - b.createdAt.getTime()
+      );
+  }
+
+  /**
+   * The author's moderation record after a warning or suspension
+   */
+  static updateRecord(
+    record: ReviewerModerationRecord | undefined,
+    action: ModerationAction,
+    now: Date = new Date(),
+    suspensionDays: number = this.DEFAULT_CONFIG.defaultSuspensionDays
+  ): ReviewerModerationRecord {
+    const current = record ?? { warnings: 0, lastActionAt: now.toISOString() };
+    if (action === 'warn') {
+      return { ...current, warnings: current.warnings + 1, lastActionAt: now.toISOString() };
+    }
+    if (action === 'suspend') {
+      const until = new Date(now.getTime() + suspensionDays * DAY_MS);
+      const suspendedUntil = current.suspendedUntil && new Date(current.suspendedUntil) > until
+        ? current.suspendedUntil
+        : until.toISOString();
+      return { ...current, suspendedUntil, lastActionAt: now.toISOString() };
+    }
+    return current;
+  }
+
+  static isSuspended(record: ReviewerModerationRecord | undefined, now: Date = new Date()): boolean {
+    return !!record?.suspendedUntil && new Date(record.suspendedUntil) > now;
+  }
+
+  static isVisible(item: { moderationStatus?: ModerationStatus }): boolean {
+    return item.moderationStatus !== 'hidden';
+  }
+
+  // The written parts of a review, as screened and shown to moderators
+  static reviewText(review: PeerReview): string {
+    return [
+      ...review.feedback.strengths,
+      ...review.feedback.improvementAreas,
+      review.feedback.generalComments,
+      review.feedback.encouragement
+    ].filter(text => text.trim()).join('\n');
+  }
+
+  private static openCase(content: ContentReference, excerpt: string, now: Date): ModerationCase {
+    return {
+      caseId: this.caseIdFor(content),
+      content,
+      excerpt: excerpt.slice(0, 500),
+      status: 'open',
+      contentStatus: 'visible',
+      reports: [],
+      autoHidden: false,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+}
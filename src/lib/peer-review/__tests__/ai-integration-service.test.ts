@@ -1,14 +1,14 @@
+import { describe, it, expect, beforeEach, vi, type MockedFunction } from 'vitest';
 import { AIIntegrationService } from '../ai-integration-service';
-import { generateObject } from 'ai';
+import { ai } from '@/ai/genkit';
 import { PeerReview, AIEnhancedFeedback } from '@/types/peer-review';
 
 // Mock the AI dependencies
-jest.mock('ai');
-jest.mock('@/ai/models', () => ({
-  gemini2Flash: {}
+vi.mock('@/ai/genkit', () => ({
+  ai: { generate: vi.fn() }
 }));
 
-const mockGenerateObject = generateObject as jest.MockedFunction<typeof generateObject>;
+const mockGenerate = ai.generate as unknown as MockedFunction<(...args: unknown[]) => Promise<unknown>>;
 
 const mockPeerReview: PeerReview = {
   reviewId: 'review-1',
@@ -84,13 +84,13 @@ function fetchUserData(userId) {
 
 describe('AIIntegrationService', () => {
   beforeEach(() => {
-    jest.clearAllMocks();
+    vi.clearAllMocks();
   });
 
   describe('enhancePeerReviewWithAI', () => {
     it('should enhance peer review with AI analysis', async () => {
-      mockGenerateObject.mockResolvedValue({
-        object: {
+      mockGenerate.mockResolvedValue({
+        output: {
           peerFeedbackAlignment: 0.85,
           additionalInsights: ['Consider using TypeScript for better type safety'],
           conflictingOpinions: [
@@ -124,7 +124,7 @@ describe('AIIntegrationService', () => {
     });
 
     it('should handle AI analysis errors', async () => {
-      mockGenerateObject.mockRejectedValue(new Error('AI service unavailable'));
+      mockGenerate.mockRejectedValue(new Error('AI service unavailable'));
 
       await expect(
         AIIntegrationService.enhancePeerReviewWithAI(mockPeerReview, mockCodeContent)
@@ -163,8 +163,8 @@ describe('AIIntegrationService', () => {
         timestamp: new Date()
       };
 
-      mockGenerateObject.mockResolvedValue({
-        object: {
+      mockGenerate.mockResolvedValue({
+        output: {
           peerFeedbackAlignment: 0.9,
           additionalInsights: [],
           conflictingOpinions: [],
@@ -180,7 +180,7 @@ describe('AIIntegrationService', () => {
       );
 
       expect(result.peerFeedbackAlignment).toBe(0.9);
-      expect(mockGenerateObject).toHaveBeenCalledWith(
+      expect(mockGenerate).toHaveBeenCalledWith(
         expect.objectContaining({
           prompt: expect.stringContaining('PREVIOUS AI ANALYSIS')
         })
@@ -190,8 +190,8 @@ describe('AIIntegrationService', () => {
 
   describe('generateCombinedInsights', () => {
     it('should generate combined insights from peer and AI feedback', async () => {
-      mockGenerateObject.mockResolvedValue({
-        object: {
+      mockGenerate.mockResolvedValue({
+        output: {
           insights: [
             {
               type: 'strength',
@@ -236,7 +236,7 @@ describe('AIIntegrationService', () => {
     });
 
     it('should handle insight generation errors', async () => {
-      mockGenerateObject.mockRejectedValue(new Error('AI service error'));
+      mockGenerate.mockRejectedValue(new Error('AI service error'));
 
       await expect(
         AIIntegrationService.generateCombinedInsights(
@@ -250,8 +250,8 @@ describe('AIIntegrationService', () => {
 
   describe('analyzePeerFeedbackQuality', () => {
     it('should analyze peer feedback quality', async () => {
-      mockGenerateObject.mockResolvedValue({
-        object: {
+      mockGenerate.mockResolvedValue({
+        output: {
           qualityScore: 0.8,
           strengths: ['Specific feedback', 'Constructive suggestions'],
           improvementSuggestions: ['Add more code examples', 'Provide more context'],
@@ -268,7 +268,7 @@ describe('AIIntegrationService', () => {
     });
 
     it('should handle quality analysis errors', async () => {
-      mockGenerateObject.mockRejectedValue(new Error('Analysis failed'));
+      mockGenerate.mockRejectedValue(new Error('Analysis failed'));
 
       await expect(
         AIIntegrationService.analyzePeerFeedbackQuality(mockPeerReview)
@@ -281,8 +281,8 @@ describe('AIIntegrationService', () => {
       const reviewHistory = [mockPeerReview];
       const reviewerSkills = ['JavaScript', 'React', 'Node.js'];
 
-      mockGenerateObject.mockResolvedValue({
-        object: {
+      mockGenerate.mockResolvedValue({
+        output: {
           overallFeedback: 'Good reviewer with room for improvement',
           specificSuggestions: [
             'Provide more specific code examples',
@@ -305,8 +305,8 @@ describe('AIIntegrationService', () => {
     });
 
     it('should handle empty review history', async () => {
-      mockGenerateObject.mockResolvedValue({
-        object: {
+      mockGenerate.mockResolvedValue({
+        output: {
           overallFeedback: 'New reviewer, needs experience',
           specificSuggestions: ['Start with simple reviews'],
           skillDevelopmentAreas: ['Code review fundamentals'],
@@ -326,7 +326,7 @@ describe('AIIntegrationService', () => {
 
   describe('trackAIEnhancedContribution', () => {
     it('should track AI-enhanced contribution', async () => {
-      const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
       await AIIntegrationService.trackAIEnhancedContribution(
         'reviewer-1',
@@ -349,7 +349,7 @@ describe('AIIntegrationService', () => {
     });
 
     it('should handle tracking errors gracefully', async () => {
-      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
       
       // Force an error by passing invalid data
       await AIIntegrationService.trackAIEnhancedContribution(
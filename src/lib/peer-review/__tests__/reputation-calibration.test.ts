@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { ReputationCalibrator } from '../reputation-calibration';
+import { PeerReview } from '@/types/peer-review';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+const makeReview = (index: number, overrides: Partial<PeerReview> = {}): PeerReview => ({
+  reviewId: `review-${index}`,
+  reviewerId: 'reviewer-1',
+  revieweeId: `reviewee-${index}`,
+  codeSubmissionId: `code-${index}`,
+  type: 'code_review',
+  status: 'completed',
+  overallRating: (index % 3) + 2,
+  feedback: {
+    strengths: [`Clear naming in module ${index}`],
+    improvementAreas: [`Handle the empty case in step ${index}`],
+    codeQuality: { readability: 3, efficiency: 3, maintainability: 3, testability: 3, comments: [] },
+    bestPractices: {
+      followsConventions: true,
+      properErrorHandling: true,
+      securityConsiderations: true,
+      performanceOptimizations: true,
+      comments: []
+    },
+    generalComments: `Review ${index} covers parser ${index * 7} and cache ${index * 11}`,
+    encouragement: ''
+  },
+  suggestions: [],
+  createdAt: new Date('2024-05-01T00:00:00Z'),
+  updatedAt: new Date('2024-05-01T00:00:00Z'),
+  isAnonymous: false,
+  visibility: 'community',
+  ...overrides
+});
+
+const rated = (rating: number) => ({ rating, ratedAt: NOW });
+
+describe('ReputationCalibrator', () => {
+  it('stays near the prior until there is evidence', () => {
+    const calibration = ReputationCalibrator.calibrate([], NOW);
+
+    expect(calibration).toMatchObject({ score: 0.5, confidence: 0, evidenceCount: 0, flags: [] });
+    expect(calibration.lowerBound).toBeLessThan(0.5);
+    expect(ReputationCalibrator.levelFor(calibration)).toBe('novice');
+  });
+
+  it('needs more evidence before trusting a high score', () => {
+    const helpful = (count: number) => Array.from({ length: count }, (_, i) =>
+      makeReview(i, { helpfulness: rated(5), aiQualityScore: 0.9 }));
+
+    const few = ReputationCalibrator.calibrate(helpful(2), NOW);
+    const many = ReputationCalibrator.calibrate(helpful(20), NOW);
+
+    expect(many.score).toBeGreaterThan(few.score);
+    expect(many.lowerBound).toBeGreaterThan(few.lowerBound);
+    expect(many.confidence).toBeGreaterThan(few.confidence);
+  });
+
+  it('weights helpfulness ratings, AI alignment and depth', () => {
+    const base = makeReview(1);
+    const unhelpful = ReputationCalibrator.reviewQuality({ ...base, helpfulness: rated(1) });
+    const helpful = ReputationCalibrator.reviewQuality({ ...base, helpfulness: rated(5) });
+    expect(helpful).toBeGreaterThan(unhelpful);
+
+    const deeper = {
+      ...base,
+      feedback: { ...base.feedback, improvementAreas: ['Validate input', 'Split the handler', 'Add tests'] }
+    };
+    expect(ReputationCalibrator.reviewDepth(deeper)).toBeGreaterThan(ReputationCalibrator.reviewDepth(base));
+
+    const aligned = ReputationCalibrator.reviewQuality({
+      ...base,
+      aiEnhancedFeedback: { peerFeedbackAlignment: 1 } as PeerReview['aiEnhancedFeedback']
+    });
+    expect(aligned).toBeGreaterThan(ReputationCalibrator.reviewQuality(base));
+  });
+
+  it('flags reviewers who give every review five stars with pasted comments', () => {
+    const pasted = makeReview(0).feedback;
+    const reviews = Array.from({ length: 6 }, (_, i) =>
+      makeReview(i, { overallRating: 5, feedback: pasted, helpfulness: rated(4) }));
+
+    const calibration = ReputationCalibrator.calibrate(reviews, NOW);
+    const clean = ReputationCalibrator.calibrate(
+      Array.from({ length: 6 }, (_, i) => makeReview(i, { helpfulness: rated(4) })), NOW);
+
+    expect(calibration.flags.map(flag => flag.type)).toEqual(['rating_inflation', 'duplicate_comments']);
+    expect(clean.flags).toEqual([]);
+    expect(calibration.score).toBeLessThan(clean.score);
+  });
+
+  it('ignores pending and moderated reviews and fades old ones', () => {
+    const pending = makeReview(1, { status: 'pending', helpfulness: rated(1) });
+    const hidden = makeReview(2, { moderationStatus: 'hidden', helpfulness: rated(5) });
+    expect(ReputationCalibrator.calibrate([pending, hidden], NOW).evidenceCount).toBe(0);
+
+    const recent = ReputationCalibrator.calibrate([makeReview(1, { helpfulness: rated(5) })], NOW);
+    const old = ReputationCalibrator.calibrate(
+      [makeReview(1, { helpfulness: rated(5), createdAt: new Date('2022-06-01T00:00:00Z') })], NOW);
+    expect(old.confidence).toBeLessThan(recent.confidence);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { ReviewRounds, ReviewRoundError } from '../review-rounds';
+import { CodeSuggestion, PeerReview } from '@/types/peer-review';
+
+const suggestion = (suggestionId: string, explanation: string): CodeSuggestion => ({
+  suggestionId,
+  suggestedCode: '',
+  explanation,
+  category: 'best_practice',
+  priority: 'medium'
+});
+
+const review: PeerReview = {
+  reviewId: 'review-1',
+  reviewerId: 'reviewer-1',
+  revieweeId: 'reviewee-1',
+  codeSubmissionId: 'code-1',
+  type: 'code_review',
+  status: 'completed',
+  overallRating: 3,
+  feedback: {
+    strengths: [],
+    improvementAreas: ['Add error handling'],
+    codeQuality: { readability: 3, efficiency: 3, maintainability: 3, testability: 3, comments: [] },
+    bestPractices: {
+      followsConventions: true,
+      properErrorHandling: false,
+      securityConsiderations: true,
+      performanceOptimizations: true,
+      comments: []
+    },
+    generalComments: '',
+    encouragement: ''
+  },
+  suggestions: [suggestion('s1', 'Handle fetch errors'), suggestion('s2', 'Use const')],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  completedAt: new Date('2024-01-01'),
+  isAnonymous: false,
+  visibility: 'community',
+  reviewedCode: { code: 'let data = fetch(url);\nreturn data;', language: 'javascript' }
+};
+
+const REVISION = { code: 'const data = await fetch(url);\nreturn data;', language: 'javascript' };
+
+describe('ReviewRounds', () => {
+  it('hands a revision back to the reviewer with a checklist of open suggestions', () => {
+    const revised = ReviewRounds.submitRevision(review, REVISION, ' Used const ', new Date('2024-01-02'));
+
+    expect(revised.status).toBe('revision_submitted');
+    expect(revised.rounds).toEqual([expect.objectContaining({
+      roundNumber: 2,
+      revisionNote: 'Used const',
+      status: 'awaiting_review',
+      suggestionChecks: [{ suggestionId: 's1', status: 'pending' }, { suggestionId: 's2', status: 'pending' }]
+    })]);
+    expect(ReviewRounds.currentCode(revised)).toBe(REVISION.code);
+
+    expect(ReviewRounds.diffRound(revised, 2).map(row => row.type)).toEqual(['modified', 'unchanged']);
+  });
+
+  it('only accepts changed revisions of completed rounds', () => {
+    expect(() => ReviewRounds.submitRevision(review, review.reviewedCode!, ''))
+      .toThrow(expect.objectContaining({ code: 'unchanged_revision' }));
+
+    const revised = ReviewRounds.submitRevision(review, REVISION, '');
+    expect(() => ReviewRounds.submitRevision(revised, { ...REVISION, code: 'other' }, ''))
+      .toThrow(ReviewRoundError);
+  });
+
+  it('requires every earlier suggestion to be checked before completing a round', () => {
+    const revised = ReviewRounds.submitRevision(review, REVISION, '');
+
+    expect(() => ReviewRounds.completeRound(revised, { checks: { s1: { status: 'addressed' } } }))
+      .toThrow(expect.objectContaining({ code: 'incomplete_checklist' }));
+  });
+
+  it('carries unaddressed suggestions into the next round', () => {
+    const round2 = ReviewRounds.completeRound(ReviewRounds.submitRevision(review, REVISION, ''), {
+      checks: { s1: { status: 'not_addressed', note: 'Still no catch' }, s2: { status: 'addressed' } },
+      comments: 'Getting there',
+      newSuggestions: [suggestion('s3', 'Add a timeout')]
+    });
+
+    expect(round2.status).toBe('completed');
+    expect(round2.rounds![0]).toMatchObject({ status: 'reviewed', comments: 'Getting there' });
+    expect(round2.suggestions.find(s => s.suggestionId === 's3')?.round).toBe(2);
+    expect(ReviewRounds.openSuggestions(round2).map(s => s.suggestionId)).toEqual(['s1', 's3']);
+
+    const round3 = ReviewRounds.submitRevision(round2, { ...REVISION, code: `try {\n${REVISION.code}\n} catch {}` }, '');
+    expect(round3.rounds![1].roundNumber).toBe(3);
+    expect(round3.rounds![1].suggestionChecks.map(check => check.suggestionId)).toEqual(['s1', 's3']);
+  });
+
+  it('awards more points for thorough follow-ups', () => {
+    const complete = (checks: Parameters<typeof ReviewRounds.completeRound>[1]['checks']) => {
+      const reviewed = ReviewRounds.completeRound(ReviewRounds.submitRevision(review, REVISION, ''), { checks });
+      return ReviewRounds.roundPoints(reviewed, reviewed.rounds![0]);
+    };
+
+    // 3 base + 2 checks + 2 when everything was addressed
+    expect(complete({ s1: { status: 'addressed' }, s2: { status: 'addressed' } })).toBe(7);
+    // Notes count, unaddressed suggestions don't earn the bonus
+    expect(complete({ s1: { status: 'not_addressed', note: 'Still missing' }, s2: { status: 'addressed' } })).toBe(6);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { ReviewThreads, ReviewThreadError } from '../review-threads';
+
+const CODE = [
+  'function total(items) {',
+  '  let sum = 0;',
+  '  for (var i = 0; i < items.length; i++) {',
+  '    sum += items[i].price;',
+  '  }',
+  '  return sum;',
+  '}'
+].join('\n');
+
+const NOW = new Date('2024-01-01T12:00:00Z');
+const LATER = new Date('2024-01-01T13:00:00Z');
+
+describe('ReviewThreads', () => {
+  it('starts threads on valid line ranges only', () => {
+    const thread = ReviewThreads.create('review-1', 'reviewer', CODE, { startLine: 3, endLine: 5 }, 'Use reduce here', undefined, NOW);
+
+    expect(thread).toMatchObject({ reviewId: 'review-1', status: 'open', anchor: { startLine: 3, endLine: 5 } });
+    expect(thread.comments).toEqual([expect.objectContaining({ authorId: 'reviewer', body: 'Use reduce here' })]);
+    expect(thread.suggestion).toBeUndefined();
+
+    expect(() => ReviewThreads.create('review-1', 'reviewer', CODE, { startLine: 6, endLine: 8 }, 'Out of range'))
+      .toThrow(ReviewThreadError);
+    expect(() => ReviewThreads.create('review-1', 'reviewer', CODE, { startLine: 1, endLine: 1 }, '  '))
+      .toThrow('Comments cannot be empty');
+  });
+
+  it('reopens resolved threads when someone replies', () => {
+    const thread = ReviewThreads.create('review-1', 'reviewer', CODE, { startLine: 2, endLine: 2 }, 'Why let?', undefined, NOW);
+    const resolved = ReviewThreads.setResolved(thread, 'reviewee', true, NOW);
+    expect(resolved).toMatchObject({ status: 'resolved', resolvedBy: 'reviewee' });
+
+    const replied = ReviewThreads.reply(resolved, ReviewThreads.comment('reviewee', 'Could you clarify?', LATER));
+
+    expect(replied.status).toBe('open');
+    expect(replied.resolvedBy).toBeUndefined();
+    expect(replied.comments.map(comment => comment.body)).toEqual(['Why let?', 'Could you clarify?']);
+    expect(replied.updatedAt).toBe(LATER);
+  });
+
+  it('patches the code with accepted suggestions only', () => {
+    const loop = ReviewThreads.create('review-1', 'reviewer', CODE, { startLine: 2, endLine: 6 }, 'Use reduce',
+      '  return items.reduce((sum, item) => sum + item.price, 0);', NOW);
+    const name = ReviewThreads.create('review-1', 'reviewer', CODE, { startLine: 1, endLine: 1 }, 'Name it better',
+      'function totalPrice(items) {', NOW);
+
+    const accepted = ReviewThreads.acceptSuggestion(loop, [loop, name], 'reviewee', LATER);
+    expect(accepted.status).toBe('resolved');
+    expect(accepted.suggestion).toEqual(expect.objectContaining({ status: 'accepted', acceptedAt: LATER }));
+
+    expect(ReviewThreads.applyAcceptedSuggestions(CODE, [accepted, name])).toBe([
+      'function total(items) {',
+      '  return items.reduce((sum, item) => sum + item.price, 0);',
+      '}'
+    ].join('\n'));
+
+    const both = [accepted, ReviewThreads.acceptSuggestion(name, [accepted, name], 'reviewee', LATER)];
+    expect(ReviewThreads.applyAcceptedSuggestions(CODE, both).split('\n')[0]).toBe('function totalPrice(items) {');
+  });
+
+  it('refuses suggestions that overlap one already accepted', () => {
+    const loop = ReviewThreads.create('review-1', 'reviewer', CODE, { startLine: 3, endLine: 5 }, 'Use for...of',
+      '  for (const item of items) {\n    sum += item.price;\n  }', NOW);
+    const varThread = ReviewThreads.create('review-1', 'reviewer', CODE, { startLine: 3, endLine: 3 }, 'Use let',
+      '  for (let i = 0; i < items.length; i++) {', NOW);
+    const accepted = ReviewThreads.acceptSuggestion(loop, [loop, varThread], 'reviewee');
+
+    expect(() => ReviewThreads.acceptSuggestion(varThread, [accepted, varThread], 'reviewee'))
+      .toThrow(expect.objectContaining({ code: 'conflicting_suggestion' }));
+
+    const plain = ReviewThreads.create('review-1', 'reviewer', CODE, { startLine: 7, endLine: 7 }, 'Nice');
+    expect(() => ReviewThreads.acceptSuggestion(plain, [plain], 'reviewee'))
+      .toThrow(expect.objectContaining({ code: 'no_suggestion' }));
+  });
+
+  it('groups threads under the last line they cover', () => {
+    const first = ReviewThreads.create('review-1', 'reviewer', CODE, { startLine: 3, endLine: 5 }, 'First', undefined, NOW);
+    const second = ReviewThreads.create('review-1', 'reviewee', CODE, { startLine: 5, endLine: 5 }, 'Second', undefined, LATER);
+    const other = ReviewThreads.create('review-1', 'reviewer', CODE, { startLine: 1, endLine: 1 }, 'Other', undefined, NOW);
+
+    const byLine = ReviewThreads.byEndLine([second, other, first]);
+
+    expect(byLine.get(5)?.map(thread => thread.comments[0].body)).toEqual(['First', 'Second']);
+    expect(byLine.get(1)).toHaveLength(1);
+  });
+});
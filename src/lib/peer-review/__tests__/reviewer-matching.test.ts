@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { ReviewerMatcher } from '../reviewer-matching';
+import { PeerReviewRequest, ReviewerProfile } from '@/types/peer-review';
+
+// Monday 2024-01-01, 12:00 UTC
+const NOW = new Date('2024-01-01T12:00:00Z');
+
+const request: PeerReviewRequest = {
+  requestId: 'request-1',
+  requesterId: 'requester-1',
+  codeSubmissionId: 'code-1',
+  title: 'Review my code',
+  description: 'Please review for best practices',
+  skillLevel: 'intermediate',
+  skillsRequested: ['JavaScript', 'React'],
+  urgency: 'medium',
+  estimatedReviewTime: 30,
+  preferredReviewerLevel: 'any',
+  isAnonymous: false,
+  maxReviewers: 2,
+  status: 'open',
+  createdAt: new Date('2024-01-01'),
+  expiresAt: new Date('2024-01-08'),
+  assignedReviewers: [],
+  completedReviews: []
+};
+
+function reviewer(userId: string, overrides: {
+  skills?: [string, number][];
+  reviewsThisMonth?: number;
+  lastMatchedAt?: string;
+  timeZone?: string;
+  availableHours?: ReviewerProfile['availability']['availableHours'];
+  level?: ReviewerProfile['reputation']['level'];
+  isAvailable?: boolean;
+} = {}): ReviewerProfile {
+  return {
+    userId,
+    username: userId,
+    skillLevels: new Map(overrides.skills ?? [['JavaScript', 3], ['React', 3]]),
+    reviewStats: {
+      totalReviewsCompleted: 10,
+      averageRating: 4,
+      averageResponseTime: 12,
+      specialties: [],
+      reviewsThisMonth: overrides.reviewsThisMonth ?? 0,
+      helpfulnessScore: 4
+    },
+    preferences: {
+      skillsToReview: ['JavaScript'],
+      maxReviewsPerWeek: 3,
+      preferredReviewTypes: ['code_review'],
+      anonymousReviewsOnly: false,
+      mentorshipAvailable: false,
+      collaborationInterest: false
+    },
+    availability: {
+      isAvailable: overrides.isAvailable ?? true,
+      timeZone: overrides.timeZone ?? 'UTC',
+      availableHours: overrides.availableHours ?? [],
+      responseTimeCommitment: 24,
+      currentLoad: 0,
+      lastMatchedAt: overrides.lastMatchedAt
+    },
+    reputation: {
+      level: overrides.level ?? 'contributor',
+      points: 100,
+      badges: [],
+      endorsements: []
+    }
+  };
+}
+
+const ids = (matches: { reviewer: ReviewerProfile }[]) => matches.map(match => match.reviewer.userId);
+
+describe('ReviewerMatcher', () => {
+  it('only matches reviewers who can take the request', () => {
+    const matches = ReviewerMatcher.rankReviewers(request, [
+      reviewer('ok'),
+      reviewer('requester-1'),
+      reviewer('away', { isAvailable: false }),
+      reviewer('full'),
+      reviewer('declined'),
+      reviewer('unskilled', { skills: [['Python', 5]] }),
+      { ...reviewer('suspended'), moderation: { warnings: 1, suspendedUntil: '2024-01-05T00:00:00Z', lastActionAt: '2023-12-29T00:00:00Z' } }
+    ], {
+      openAssignments: new Map([['full', 3]]),
+      excludedReviewers: ['declined'],
+      now: NOW
+    });
+
+    expect(ids(matches)).toEqual(['ok']);
+  });
+
+  it('respects the preferred reviewer level', () => {
+    const matches = ReviewerMatcher.rankReviewers(
+      { ...request, preferredReviewerLevel: 'mentor' },
+      [reviewer('novice', { level: 'novice' }), reviewer('expert', { level: 'expert' })],
+      { now: NOW }
+    );
+
+    expect(ids(matches)).toEqual(['expert']);
+  });
+
+  it('rotates opportunities away from recently matched and busy reviewers', () => {
+    const matches = ReviewerMatcher.rankReviewers(request, [
+      reviewer('busy', { reviewsThisMonth: 12, lastMatchedAt: '2024-01-01T10:00:00Z' }),
+      reviewer('newcomer')
+    ], { now: NOW });
+
+    expect(ids(matches)).toEqual(['newcomer', 'busy']);
+    expect(matches[0].breakdown.fairness).toBe(1);
+    expect(matches[1].breakdown.fairness).toBeLessThan(0.1);
+  });
+
+  it('prefers lighter loads and better skill coverage', () => {
+    const load = ReviewerMatcher.rankReviewers(request, [reviewer('loaded'), reviewer('free')], {
+      openAssignments: new Map([['loaded', 2]]),
+      now: NOW
+    });
+    expect(ids(load)).toEqual(['free', 'loaded']);
+    expect(load[1].breakdown.capacity).toBeCloseTo(1 / 3);
+
+    const skills = ReviewerMatcher.rankReviewers(request, [
+      reviewer('partial', { skills: [['JavaScript', 1]] }),
+      reviewer('full')
+    ], { now: NOW });
+    expect(ids(skills)).toEqual(['full', 'partial']);
+    expect(skills[1].breakdown.skillOverlap).toBe(0.25);
+  });
+
+  it('finds the next time slot in the reviewer\'s time zone', () => {
+    // 07:00 on Monday in New York
+    const newYork = reviewer('ny', { timeZone: 'America/New_York', availableHours: [{ dayOfWeek: 1, startHour: 9, endHour: 17 }] });
+    expect(ReviewerMatcher.hoursUntilAvailable(newYork, NOW)).toBe(2);
+
+    // Sunday night into Monday morning, already under way
+    const overnight = reviewer('night', { availableHours: [{ dayOfWeek: 0, startHour: 22, endHour: 13 }] });
+    expect(ReviewerMatcher.hoursUntilAvailable(overnight, NOW)).toBe(0);
+
+    expect(ReviewerMatcher.hoursUntilAvailable(reviewer('anytime'), NOW)).toBe(0);
+  });
+
+  it('favours reviewers reachable within the urgency window', () => {
+    const matches = ReviewerMatcher.rankReviewers({ ...request, urgency: 'high' }, [
+      reviewer('later', { availableHours: [{ dayOfWeek: 3, startHour: 9, endHour: 17 }] }),
+      reviewer('now', { availableHours: [{ dayOfWeek: 1, startHour: 9, endHour: 17 }] })
+    ], { now: NOW });
+
+    expect(ids(matches)).toEqual(['now', 'later']);
+    expect(matches[1].breakdown.availability).toBe(0);
+    expect(matches[1].estimatedResponseTime).toBe(45 + 12);
+  });
+});
@@ -8,9 +8,9 @@ import {
   ConflictingOpinion 
 } from '@/types/peer-review';
 import { AnalyticsData, LearningInsight } from '@/types/analytics';
-import { generateObject } from 'ai';
-import { gemini2Flash } from '@/ai/models';
-import { z } from 'zod';
+import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
+import { z } from 'genkit';
 
 // Schema for AI analysis of peer feedback
 const AIFeedbackAnalysisSchema = z.object({
@@ -51,11 +51,14 @@ export class AIIntegrationService {
     try {
       const prompt = this.buildAIEnhancementPrompt(peerReview, codeContent, aiAnalysis);
       
-      const { object: analysis } = await generateObject({
-        model: gemini2Flash,
-        schema: AIFeedbackAnalysisSchema,
-        prompt
+      const { output: analysis } = await ai.generate({
+        model: modelFor('peerReviewInsights'),
+        prompt,
+        output: { schema: AIFeedbackAnalysisSchema }
       });
+      if (!analysis) {
+        throw new Error('AI response did not match the expected format');
+      }
 
       return {
         aiAnalysisId: `ai_enhanced_${Date.now()}`,
@@ -82,11 +85,14 @@ export class AIIntegrationService {
     try {
       const prompt = this.buildCombinedInsightsPrompt(peerReview, aiEnhancedFeedback, codeContent);
       
-      const { object: result } = await generateObject({
-        model: gemini2Flash,
-        schema: CombinedInsightSchema,
-        prompt
+      const { output: result } = await ai.generate({
+        model: modelFor('peerReviewInsights'),
+        prompt,
+        output: { schema: CombinedInsightSchema }
       });
+      if (!result) {
+        throw new Error('AI response did not match the expected format');
+      }
 
       return result.insights.map((insight, index) => ({
         insightId: `combined_${Date.now()}_${index}`,
@@ -142,11 +148,14 @@ export class AIIntegrationService {
         and overall educational value.
       `;
 
-      const { object: analysis } = await generateObject({
-        model: gemini2Flash,
-        schema: qualityAnalysisSchema,
-        prompt
+      const { output: analysis } = await ai.generate({
+        model: modelFor('peerReviewInsights'),
+        prompt,
+        output: { schema: qualityAnalysisSchema }
       });
+      if (!analysis) {
+        throw new Error('AI response did not match the expected format');
+      }
 
       return analysis;
     } catch (error) {
@@ -202,11 +211,14 @@ export class AIIntegrationService {
         become more helpful to the community, and identify areas where they could mentor others.
       `;
 
-      const { object: suggestions } = await generateObject({
-        model: gemini2Flash,
-        schema: improvementSchema,
-        prompt
+      const { output: suggestions } = await ai.generate({
+        model: modelFor('peerReviewInsights'),
+        prompt,
+        output: { schema: improvementSchema }
       });
+      if (!suggestions) {
+        throw new Error('AI response did not match the expected format');
+      }
 
       return suggestions;
     } catch (error) {
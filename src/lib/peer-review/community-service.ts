@@ -11,6 +11,8 @@ import {
 } from '@/types/peer-review';
 import { PeerReviewService } from '@/lib/firebase/peer-review';
 import { AIIntegrationService } from './ai-integration-service';
+import { ReviewRounds, RoundReviewInput } from './review-rounds';
+import { ModerationQueue } from '@/lib/moderation/moderation-queue';
 
 export class CommunityService {
   /**
@@ -32,15 +34,21 @@ export class CommunityService {
         description: this.generateReviewDescription(peerReview),
         impact,
         recognition,
-        createdAt: new Date()
+        createdAt: new Date(),
+        sourceId: peerReview.reviewId,
+        ...(peerReview.moderationStatus && { moderationStatus: peerReview.moderationStatus })
       };
 
       const contributionId = await PeerReviewService.recordCommunityContribution(contribution);
       
-      // Update reviewer profile with new stats
+      // Update reviewer profile with new stats; hidden reviews earn no points until restored
       if (reviewerProfile) {
-        await this.updateReviewerStats(reviewerProfile, peerReview, recognition);
+        const earned = ModerationQueue.isVisible(peerReview) ? recognition : { ...recognition, points: 0 };
+        await this.updateReviewerStats(reviewerProfile, peerReview, earned);
       }
+
+      // Recalibrate reputation now that the AI quality score is stored
+      await PeerReviewService.calibrateReviewerReputation(peerReview.reviewerId);
       
       // Check for badge eligibility
       await this.checkAndAwardBadges(peerReview.reviewerId, contribution);
@@ -52,6 +60,89 @@ export class CommunityService {
     }
   }
 
+  /**
+   * Completes the open round of a review for its reviewer and records the follow-up as a contribution
+   */
+  static async completeReviewRound(reviewId: string, reviewerId: string, input: RoundReviewInput): Promise<PeerReview> {
+    try {
+      const [peerReview, reviewerProfile] = await Promise.all([
+        PeerReviewService.completeReviewRound(reviewId, reviewerId, input),
+        PeerReviewService.getReviewerProfile(reviewerId)
+      ]);
+
+      await this.recordReviewRoundContribution(peerReview, reviewerProfile ?? undefined);
+      return peerReview;
+    } catch (error) {
+      console.error('Error completing review round:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records a reviewer's follow-up on the latest revision of a multi-round review
+   */
+  static async recordReviewRoundContribution(
+    peerReview: PeerReview,
+    reviewerProfile?: ReviewerProfile
+  ): Promise<string | null> {
+    try {
+      const round = (peerReview.rounds ?? []).filter(existing => existing.status === 'reviewed').pop();
+      if (!round) return null;
+
+      const addressed = round.suggestionChecks.filter(check => check.status === 'addressed').length;
+      const points = ReviewRounds.roundPoints(peerReview, round);
+
+      const contribution: CommunityContribution = {
+        contributionId: `contribution_${Date.now()}_${peerReview.reviewerId}_round${round.roundNumber}`,
+        userId: peerReview.reviewerId,
+        type: 'review',
+        title: `Follow-up Review: Round ${round.roundNumber}`,
+        description: `Re-reviewed a revision and followed up on ${round.suggestionChecks.length} earlier suggestions, ${addressed} of them addressed`,
+        impact: {
+          helpfulnessVotes: 0,
+          learnersBenefited: 1,
+          skillsImproved: this.extractSkillsFromReview(peerReview),
+          followUpEngagement: round.suggestionChecks.length,
+          communityReach: peerReview.visibility === 'public' ? 10 : peerReview.visibility === 'community' ? 5 : 1
+        },
+        recognition: {
+          points,
+          badges: [],
+          publicRecognition: peerReview.visibility !== 'private',
+          featuredContribution: false,
+          mentorshipOpportunities: 0
+        },
+        createdAt: new Date(),
+        sourceId: peerReview.reviewId,
+        ...(peerReview.moderationStatus && { moderationStatus: peerReview.moderationStatus })
+      };
+
+      const contributionId = await PeerReviewService.recordCommunityContribution(contribution);
+
+      if (reviewerProfile) {
+        const stats = reviewerProfile.reviewStats;
+        await PeerReviewService.createOrUpdateReviewerProfile({
+          ...reviewerProfile,
+          reviewStats: {
+            ...stats,
+            followUpRoundsCompleted: (stats.followUpRoundsCompleted ?? 0) + 1,
+            suggestionsFollowedUp: (stats.suggestionsFollowedUp ?? 0) + round.suggestionChecks.length,
+            suggestionsAddressed: (stats.suggestionsAddressed ?? 0) + addressed
+          },
+          reputation: {
+            ...reviewerProfile.reputation,
+            points: reviewerProfile.reputation.points + (ModerationQueue.isVisible(peerReview) ? points : 0)
+          }
+        });
+      }
+
+      return contributionId;
+    } catch (error) {
+      console.error('Error recording review round contribution:', error);
+      throw error;
+    }
+  }
+
   /**
    * Records mentorship contribution
    */
@@ -169,8 +260,13 @@ export class CommunityService {
    * Calculates the impact of a peer review
    */
   private static async calculateReviewImpact(peerReview: PeerReview): Promise<CommunityImpact> {
-    // Analyze feedback quality using AI
-    const qualityAnalysis = await AIIntegrationService.analyzePeerFeedbackQuality(peerReview);
+    // Analyze feedback quality using AI; it feeds the reviewer's reputation calibration
+    try {
+      const qualityAnalysis = await AIIntegrationService.analyzePeerFeedbackQuality(peerReview);
+      await PeerReviewService.recordReviewQuality(peerReview.reviewId, qualityAnalysis.qualityScore);
+    } catch (error) {
+      console.error('Error analyzing peer feedback quality:', error);
+    }
     
     return {
       helpfulnessVotes: 0, // Will be updated as users vote
@@ -297,12 +393,17 @@ export class CommunityService {
     contribution: CommunityContribution
   ): Promise<void> {
     try {
-      const contributions = await PeerReviewService.getUserContributions(userId);
+      // Contributions hidden by moderators don't count toward badges
+      const contributions = (await PeerReviewService.getUserContributions(userId)).filter(ModerationQueue.isVisible);
       const profile = await PeerReviewService.getReviewerProfile(userId);
       
       if (!profile) return;
 
       const newBadges: ReviewerBadge[] = [];
+      const hasBadge = (badgeId: string) => profile.reputation.badges.some(b => b.badgeId === badgeId);
+      // Flagged reviewers stop earning volume and points badges until their reviews look genuine again
+      const calibration = profile.reputation.calibration;
+      const flagged = (calibration?.flags.length ?? 0) > 0;
       
       // First Review Badge
       if (contributions.length === 1 && contribution.type === 'review') {
@@ -311,17 +412,17 @@ export class CommunityService {
       
       // Review Milestone Badges
       const reviewCount = contributions.filter(c => c.type === 'review').length;
-      if (reviewCount === 5) {
+      if (!flagged && reviewCount === 5) {
         newBadges.push(this.createBadge('reviewer_5', 'Helpful Reviewer', 'Completed 5 peer reviews', 'uncommon'));
-      } else if (reviewCount === 25) {
+      } else if (!flagged && reviewCount === 25) {
         newBadges.push(this.createBadge('reviewer_25', 'Dedicated Reviewer', 'Completed 25 peer reviews', 'rare'));
-      } else if (reviewCount === 100) {
+      } else if (!flagged && reviewCount === 100) {
         newBadges.push(this.createBadge('reviewer_100', 'Master Reviewer', 'Completed 100 peer reviews', 'epic'));
       }
       
       // Quality Badges
       const totalPoints = contributions.reduce((sum, c) => sum + c.recognition.points, 0);
-      if (totalPoints >= 100 && !profile.reputation.badges.some(b => b.badgeId === 'quality_contributor')) {
+      if (!flagged && totalPoints >= 100 && !hasBadge('quality_contributor')) {
         newBadges.push(this.createBadge('quality_contributor', 'Quality Contributor', 'Earned 100+ contribution points', 'rare'));
       }
       
@@ -330,6 +431,11 @@ export class CommunityService {
       if (totalHelpfulness >= 50 && !profile.reputation.badges.some(b => b.badgeId === 'community_favorite')) {
         newBadges.push(this.createBadge('community_favorite', 'Community Favorite', 'Received 50+ helpfulness votes', 'epic'));
       }
+
+      // Trusted Reviewer Badge (based on calibrated reputation)
+      if (calibration && !flagged && calibration.lowerBound >= 0.7 && !hasBadge('trusted_reviewer')) {
+        newBadges.push(this.createBadge('trusted_reviewer', 'Trusted Reviewer', 'Reviews consistently rated helpful and thorough', 'epic'));
+      }
       
       // Award new badges
       if (newBadges.length > 0) {
@@ -353,7 +459,7 @@ export class CommunityService {
    */
   private static async checkMentorshipBadges(userId: string): Promise<void> {
     try {
-      const contributions = await PeerReviewService.getUserContributions(userId);
+      const contributions = (await PeerReviewService.getUserContributions(userId)).filter(ModerationQueue.isVisible);
       const profile = await PeerReviewService.getReviewerProfile(userId);
       
       if (!profile) return;
@@ -388,7 +494,7 @@ export class CommunityService {
    */
   private static async checkCollaborationBadges(userId: string): Promise<void> {
     try {
-      const contributions = await PeerReviewService.getUserContributions(userId);
+      const contributions = (await PeerReviewService.getUserContributions(userId)).filter(ModerationQueue.isVisible);
       const profile = await PeerReviewService.getReviewerProfile(userId);
       
       if (!profile) return;
@@ -0,0 +1,201 @@
+// Reputation Calibration for Peer Review System
+// Turns reviewee ratings, AI alignment and review depth into a Bayesian reviewer reputation
+
+import {
+  PeerReview,
+  ReputationCalibration,
+  ReputationCalibrationConfig,
+  ReviewerFlag,
+  ReviewerReputation
+} from '@/types/peer-review';
+import { ModerationQueue } from '@/lib/moderation/moderation-queue';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// One-sided 95% normal quantile, for the conservative lower bound
+const Z_95 = 1.645;
+
+const LEVEL_THRESHOLDS: [number, ReviewerReputation['level']][] = [
+  [0.8, 'master'],
+  [0.7, 'expert'],
+  [0.55, 'mentor'],
+  [0.4, 'contributor']
+];
+
+export class ReputationCalibrator {
+  static readonly DEFAULT_CONFIG: ReputationCalibrationConfig = {
+    priorMean: 0.5,
+    priorStrength: 5,
+    signalWeights: {
+      helpfulness: 0.45,
+      aiAlignment: 0.2,
+      aiQuality: 0.15,
+      depth: 0.2
+    },
+    unratedReviewWeight: 0.5,
+    halfLifeDays: 180,
+    flagPenalty: 0.2,
+    minReviewsForFlags: 5
+  };
+
+  /**
+   * Combines a reviewer's reviews into a posterior quality score. Each review is one
+   * observation of quality in [0, 1]; the Beta prior keeps reviewers with few reviews
+   * near the prior until evidence builds up.
+   */
+  static calibrate(
+    reviews: PeerReview[],
+    now: Date = new Date(),
+    config: Partial<ReputationCalibrationConfig> = {}
+  ): ReputationCalibration {
+    const finalConfig = { ...this.DEFAULT_CONFIG, ...config };
+    // Reviews hidden by moderators don't count toward reputation
+    const completed = reviews.filter(review =>
+      (review.status === 'completed' || review.status === 'revision_submitted') && ModerationQueue.isVisible(review)
+    );
+
+    let alpha = finalConfig.priorMean * finalConfig.priorStrength;
+    let beta = (1 - finalConfig.priorMean) * finalConfig.priorStrength;
+    let evidence = 0;
+
+    for (const review of completed) {
+      const quality = this.reviewQuality(review, finalConfig);
+      const ageDays = Math.max(0, now.getTime() - review.createdAt.getTime()) / DAY_MS;
+      const weight = (review.helpfulness ? 1 : finalConfig.unratedReviewWeight) *
+        Math.pow(0.5, ageDays / finalConfig.halfLifeDays);
+
+      alpha += weight * quality;
+      beta += weight * (1 - quality);
+      evidence += weight;
+    }
+
+    const mean = alpha / (alpha + beta);
+    const variance = (alpha * beta) / ((alpha + beta) ** 2 * (alpha + beta + 1));
+    const flags = this.detectOutliers(completed, finalConfig);
+    const penalty = Math.max(0, 1 - finalConfig.flagPenalty * flags.length);
+
+    return {
+      score: this.round(mean * penalty),
+      lowerBound: this.round(Math.max(0, mean - Z_95 * Math.sqrt(variance)) * penalty),
+      confidence: this.round(evidence / (evidence + finalConfig.priorStrength)),
+      evidenceCount: completed.length,
+      flags,
+      calibratedAt: now.toISOString()
+    };
+  }
+
+  /**
+   * Reputation level from the conservative lower bound, so a level has to be earned with evidence
+   */
+  static levelFor(calibration: ReputationCalibration): ReviewerReputation['level'] {
+    return LEVEL_THRESHOLDS.find(([threshold]) => calibration.lowerBound >= threshold)?.[1] ?? 'novice';
+  }
+
+  /**
+   * Quality of one review in [0, 1], weighting whichever signals it has
+   */
+  static reviewQuality(
+    review: PeerReview,
+    config: ReputationCalibrationConfig = this.DEFAULT_CONFIG
+  ): number {
+    const weights = config.signalWeights;
+    const signals: [number, number][] = [[this.reviewDepth(review), weights.depth]];
+
+    if (review.helpfulness) {
+      signals.push([(review.helpfulness.rating - 1) / 4, weights.helpfulness]);
+    }
+    if (review.aiEnhancedFeedback) {
+      signals.push([review.aiEnhancedFeedback.peerFeedbackAlignment, weights.aiAlignment]);
+    }
+    if (review.aiQualityScore !== undefined) {
+      signals.push([review.aiQualityScore, weights.aiQuality]);
+    }
+
+    const totalWeight = signals.reduce((sum, [, weight]) => sum + weight, 0);
+    const quality = signals.reduce((sum, [value, weight]) => sum + value * weight, 0) / totalWeight;
+    return Math.min(1, Math.max(0, quality));
+  }
+
+  /**
+   * How much substance a review has: actionable points, code suggestions and written comments
+   */
+  static reviewDepth(review: PeerReview): number {
+    const words = review.feedback.generalComments.trim().split(/\s+/).filter(Boolean).length;
+    const followUps = (review.rounds ?? []).filter(round => round.status === 'reviewed').length;
+
+    const depth =
+      0.3 * Math.min(1, review.feedback.improvementAreas.filter(area => area.trim()).length / 3) +
+      0.3 * Math.min(1, review.suggestions.length / 3) +
+      0.15 * Math.min(1, review.feedback.strengths.filter(strength => strength.trim()).length / 2) +
+      0.25 * Math.min(1, words / 60);
+
+    // Following up on revisions shows engagement beyond the first pass
+    return Math.min(1, depth + 0.1 * Math.min(2, followUps));
+  }
+
+  /**
+   * Patterns that suggest reviews aren't genuine: the same stars for everything,
+   * the same comments pasted into every review, or feedback at odds with the AI analysis
+   */
+  static detectOutliers(
+    reviews: PeerReview[],
+    config: ReputationCalibrationConfig = this.DEFAULT_CONFIG
+  ): ReviewerFlag[] {
+    if (reviews.length < config.minReviewsForFlags) return [];
+    const flags: ReviewerFlag[] = [];
+
+    const ratings = reviews.map(review => review.overallRating);
+    const maxRated = ratings.filter(rating => rating === 5).length;
+    const mean = ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length;
+    const spread = Math.sqrt(ratings.reduce((sum, rating) => sum + (rating - mean) ** 2, 0) / ratings.length);
+    if (maxRated / ratings.length >= 0.9 && spread < 0.3) {
+      flags.push({
+        type: 'rating_inflation',
+        detail: `${maxRated} of ${ratings.length} reviews gave 5 stars`
+      });
+    }
+
+    const texts = reviews.map(review => this.commentWords(review)).filter(words => words.size >= 3);
+    const duplicated = texts.filter((words, index) =>
+      texts.some((other, otherIndex) => otherIndex !== index && this.similarity(words, other) >= 0.9)
+    ).length;
+    if (texts.length >= config.minReviewsForFlags && duplicated / texts.length > 0.5) {
+      flags.push({
+        type: 'duplicate_comments',
+        detail: `${duplicated} of ${texts.length} reviews repeat near-identical comments`
+      });
+    }
+
+    const alignments = reviews
+      .map(review => review.aiEnhancedFeedback?.peerFeedbackAlignment)
+      .filter((alignment): alignment is number => alignment !== undefined);
+    const meanAlignment = alignments.reduce((sum, alignment) => sum + alignment, 0) / (alignments.length || 1);
+    if (alignments.length >= config.minReviewsForFlags && meanAlignment < 0.3) {
+      flags.push({
+        type: 'low_alignment',
+        detail: `Feedback agrees with the AI analysis ${Math.round(meanAlignment * 100)}% of the time on average`
+      });
+    }
+
+    return flags;
+  }
+
+  private static commentWords(review: PeerReview): Set<string> {
+    const text = [
+      ...review.feedback.strengths,
+      ...review.feedback.improvementAreas,
+      review.feedback.generalComments
+    ].join(' ');
+    return new Set(text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean));
+  }
+
+  // Jaccard similarity of two word sets
+  private static similarity(a: Set<string>, b: Set<string>): number {
+    let shared = 0;
+    a.forEach(word => { if (b.has(word)) shared++; });
+    return shared / (a.size + b.size - shared);
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
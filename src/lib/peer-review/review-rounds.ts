@@ -0,0 +1,164 @@
+// Review Rounds for Peer Review System
+// Lets a reviewee submit revisions that the same reviewer re-reviews against earlier suggestions
+
+import {
+  CodeSuggestion,
+  PeerReview,
+  ReviewedCode,
+  ReviewRound,
+  SuggestionCheck
+} from '@/types/peer-review';
+import { SessionReplayEngine, SideBySideDiffRow } from '@/lib/collaborative-session/session-replay';
+
+export type ReviewRoundErrorCode = 'not_completed' | 'not_awaiting_review' | 'unchanged_revision' | 'incomplete_checklist';
+
+export class ReviewRoundError extends Error {
+  constructor(message: string, public readonly code: ReviewRoundErrorCode) {
+    super(message);
+    this.name = 'ReviewRoundError';
+  }
+}
+
+export interface RoundReviewInput {
+  checks: Record<string, Pick<SuggestionCheck, 'status' | 'note'>>;
+  comments?: string;
+  newSuggestions?: CodeSuggestion[];
+}
+
+export class ReviewRounds {
+  /**
+   * The code as of the latest round: the newest revision, or the originally reviewed code
+   */
+  static currentCode(review: PeerReview): string {
+    const rounds = review.rounds ?? [];
+    return rounds.length > 0 ? rounds[rounds.length - 1].revision.code : review.reviewedCode?.code ?? '';
+  }
+
+  static currentRoundNumber(review: PeerReview): number {
+    return (review.rounds ?? []).length + 1;
+  }
+
+  /**
+   * Suggestions not yet found addressed in any reviewed round, oldest first
+   */
+  static openSuggestions(review: PeerReview): CodeSuggestion[] {
+    const addressed = new Set(
+      (review.rounds ?? [])
+        .filter(round => round.status === 'reviewed')
+        .flatMap(round => round.suggestionChecks)
+        .filter(check => check.status === 'addressed')
+        .map(check => check.suggestionId)
+    );
+    return review.suggestions.filter(suggestion => !addressed.has(suggestion.suggestionId));
+  }
+
+  /**
+   * Adds a revision as the next round and hands the review back to the reviewer
+   */
+  static submitRevision(
+    review: PeerReview,
+    revision: ReviewedCode,
+    revisionNote: string,
+    now: Date = new Date()
+  ): PeerReview {
+    if (review.status !== 'completed') {
+      throw new ReviewRoundError('Revisions can only be submitted once the current round is reviewed', 'not_completed');
+    }
+    if (revision.code === this.currentCode(review)) {
+      throw new ReviewRoundError('The revision is identical to the code already reviewed', 'unchanged_revision');
+    }
+
+    const round: ReviewRound = {
+      roundNumber: this.currentRoundNumber(review) + 1,
+      revision,
+      revisionNote: revisionNote.trim(),
+      submittedAt: now,
+      status: 'awaiting_review',
+      suggestionChecks: this.openSuggestions(review).map(suggestion => ({
+        suggestionId: suggestion.suggestionId,
+        status: 'pending'
+      }))
+    };
+
+    return {
+      ...review,
+      status: 'revision_submitted',
+      rounds: [...(review.rounds ?? []), round],
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Side-by-side diff of a round's revision against the round before it
+   */
+  static diffRound(review: PeerReview, roundNumber: number): SideBySideDiffRow[] {
+    const rounds = review.rounds ?? [];
+    const index = rounds.findIndex(round => round.roundNumber === roundNumber);
+    if (index === -1) return [];
+
+    const previous = index > 0 ? rounds[index - 1].revision.code : review.reviewedCode?.code ?? '';
+    return SessionReplayEngine.diffLines(previous, rounds[index].revision.code);
+  }
+
+  /**
+   * Records the reviewer's checklist for the waiting round. Every earlier suggestion must be
+   * marked addressed or not; new suggestions are tagged with the round they came from.
+   */
+  static completeRound(review: PeerReview, input: RoundReviewInput, now: Date = new Date()): PeerReview {
+    const rounds = review.rounds ?? [];
+    const round = rounds[rounds.length - 1];
+    if (review.status !== 'revision_submitted' || round?.status !== 'awaiting_review') {
+      throw new ReviewRoundError('There is no revision waiting for review', 'not_awaiting_review');
+    }
+
+    const suggestionChecks = round.suggestionChecks.map(check => {
+      const marked = input.checks[check.suggestionId];
+      return marked ? { ...check, status: marked.status, ...(marked.note && { note: marked.note }) } : check;
+    });
+    const unchecked = suggestionChecks.filter(check => check.status === 'pending');
+    if (unchecked.length > 0) {
+      throw new ReviewRoundError(
+        `${unchecked.length} earlier ${unchecked.length === 1 ? 'suggestion needs' : 'suggestions need'} to be marked addressed or not`,
+        'incomplete_checklist'
+      );
+    }
+
+    const reviewed: ReviewRound = {
+      ...round,
+      status: 'reviewed',
+      suggestionChecks,
+      reviewedAt: now,
+      ...(input.comments?.trim() && { comments: input.comments.trim() })
+    };
+
+    return {
+      ...review,
+      status: 'completed',
+      suggestions: [
+        ...review.suggestions,
+        ...(input.newSuggestions ?? []).map(suggestion => ({ ...suggestion, round: round.roundNumber }))
+      ],
+      rounds: [...rounds.slice(0, -1), reviewed],
+      updatedAt: now,
+      completedAt: now
+    };
+  }
+
+  /**
+   * Contribution points for re-reviewing a round: following up on each earlier suggestion
+   * counts, as do new suggestions, with a bonus when everything was addressed
+   */
+  static roundPoints(review: PeerReview, round: ReviewRound): number {
+    const checks = round.suggestionChecks;
+    const newSuggestions = review.suggestions.filter(suggestion => suggestion.round === round.roundNumber);
+    const notedChecks = checks.filter(check => check.note?.trim()).length;
+
+    let points = 3;
+    points += checks.length;
+    points += notedChecks;
+    points += newSuggestions.length * 2;
+    if (checks.length > 0 && checks.every(check => check.status === 'addressed')) points += 2;
+
+    return Math.min(15, points);
+  }
+}
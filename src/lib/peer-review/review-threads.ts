@@ -0,0 +1,155 @@
+// Review Threads for Peer Review System
+// Conversations anchored to line ranges of the reviewed code, with suggestions the reviewee can accept
+
+import { ReviewComment, ReviewThread, ThreadAnchor } from '@/types/peer-review';
+
+export type ReviewThreadErrorCode = 'invalid_anchor' | 'empty_comment' | 'no_suggestion' | 'conflicting_suggestion';
+
+export class ReviewThreadError extends Error {
+  constructor(message: string, public readonly code: ReviewThreadErrorCode) {
+    super(message);
+    this.name = 'ReviewThreadError';
+  }
+}
+
+export class ReviewThreads {
+  /**
+   * Starts a thread on the given lines with its first comment and an optional suggested replacement
+   */
+  static create(
+    reviewId: string,
+    authorId: string,
+    code: string,
+    anchor: ThreadAnchor,
+    body: string,
+    replacement?: string,
+    now: Date = new Date()
+  ): ReviewThread {
+    this.validateAnchor(code, anchor);
+
+    return {
+      threadId: `thread_${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+      reviewId,
+      anchor,
+      status: 'open',
+      comments: [this.comment(authorId, body, now)],
+      suggestion: replacement !== undefined ? { replacement, status: 'pending' } : undefined,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  static comment(authorId: string, body: string, now: Date = new Date()): ReviewComment {
+    if (!body.trim()) {
+      throw new ReviewThreadError('Comments cannot be empty', 'empty_comment');
+    }
+
+    return {
+      commentId: `comment_${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+      authorId,
+      body: body.trim(),
+      createdAt: now
+    };
+  }
+
+  // A reply reopens a resolved thread, since it means the conversation isn't over
+  static reply(thread: ReviewThread, comment: ReviewComment): ReviewThread {
+    return {
+      ...thread,
+      comments: [...thread.comments, comment],
+      status: 'open',
+      resolvedAt: undefined,
+      resolvedBy: undefined,
+      updatedAt: comment.createdAt
+    };
+  }
+
+  static setResolved(thread: ReviewThread, userId: string, resolved: boolean, now: Date = new Date()): ReviewThread {
+    return {
+      ...thread,
+      status: resolved ? 'resolved' : 'open',
+      resolvedAt: resolved ? now : undefined,
+      resolvedBy: resolved ? userId : undefined,
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Marks the thread's suggestion accepted and resolves the thread. Fails when it would overlap
+   * a suggestion accepted earlier, since both can't apply to the same lines.
+   */
+  static acceptSuggestion(
+    thread: ReviewThread,
+    threads: ReviewThread[],
+    userId: string,
+    now: Date = new Date()
+  ): ReviewThread {
+    if (!thread.suggestion) {
+      throw new ReviewThreadError('This thread has no suggestion to accept', 'no_suggestion');
+    }
+
+    const conflict = threads.find(other =>
+      other.threadId !== thread.threadId &&
+      other.suggestion?.status === 'accepted' &&
+      other.anchor.startLine <= thread.anchor.endLine &&
+      thread.anchor.startLine <= other.anchor.endLine
+    );
+    if (conflict) {
+      throw new ReviewThreadError(
+        `Lines ${thread.anchor.startLine}-${thread.anchor.endLine} already have an accepted suggestion`,
+        'conflicting_suggestion'
+      );
+    }
+
+    return {
+      ...this.setResolved(thread, userId, true, now),
+      suggestion: { ...thread.suggestion, status: 'accepted', acceptedAt: now }
+    };
+  }
+
+  /**
+   * The reviewed code with every accepted suggestion replacing its anchored lines
+   */
+  static applyAcceptedSuggestions(code: string, threads: ReviewThread[]): string {
+    const lines = code.split('\n');
+    const accepted = threads
+      .filter(thread => thread.suggestion?.status === 'accepted')
+      .sort((a, b) => b.anchor.startLine - a.anchor.startLine);
+
+    // Bottom-up, so earlier replacements don't shift the lines of later ones
+    for (const thread of accepted) {
+      this.validateAnchor(code, thread.anchor);
+      const { startLine, endLine } = thread.anchor;
+      lines.splice(startLine - 1, endLine - startLine + 1, ...thread.suggestion!.replacement.split('\n'));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Threads keyed by the last line they cover, which is where they render inline
+   */
+  static byEndLine(threads: ReviewThread[]): Map<number, ReviewThread[]> {
+    const byLine = new Map<number, ReviewThread[]>();
+    for (const thread of [...threads].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())) {
+      byLine.set(thread.anchor.endLine, [...(byLine.get(thread.anchor.endLine) ?? []), thread]);
+    }
+    return byLine;
+  }
+
+  static validateAnchor(code: string, anchor: ThreadAnchor): void {
+    const lineCount = code.split('\n').length;
+    if (
+      !Number.isInteger(anchor.startLine) ||
+      !Number.isInteger(anchor.endLine) ||
+      anchor.startLine < 1 ||
+      anchor.endLine < anchor.startLine ||
+      anchor.endLine > lineCount
+    ) {
+      throw new ReviewThreadError(
+        `Lines ${anchor.startLine}-${anchor.endLine} are outside the reviewed code (${lineCount} lines)`,
+        'invalid_anchor'
+      );
+    }
+  }
+}
@@ -0,0 +1,214 @@
+// Reviewer Matching for Peer Review System
+// Ranks reviewers for a review request by skill, load, availability, reputation and fairness
+
+import {
+  PeerReviewRequest,
+  ReviewerProfile,
+  ReviewerMatch,
+  ReviewerMatchBreakdown,
+  ReviewerMatchingConfig,
+  ReviewerReputation,
+  TimeSlot
+} from '@/types/peer-review';
+import { ModerationQueue } from '@/lib/moderation/moderation-queue';
+
+export interface ReviewerMatchingContext {
+  // Pending and accepted assignments per reviewer; falls back to `availability.currentLoad`
+  openAssignments?: Map<string, number>;
+  // Reviewers who already had a turn at this request
+  excludedReviewers?: string[];
+  now?: Date;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_HOURS = 7 * 24;
+const DEFAULT_CAPACITY = 5;
+
+const REQUIRED_SKILL_LEVEL: Record<PeerReviewRequest['skillLevel'], number> = {
+  beginner: 1,
+  intermediate: 2,
+  advanced: 3,
+  expert: 4
+};
+
+const REPUTATION_RANK: Record<ReviewerReputation['level'], number> = {
+  novice: 0,
+  contributor: 1,
+  mentor: 2,
+  expert: 3,
+  master: 4
+};
+
+const MINIMUM_RANK: Record<PeerReviewRequest['preferredReviewerLevel'], number> = {
+  any: 0,
+  peer: 0,
+  mentor: REPUTATION_RANK.mentor,
+  expert: REPUTATION_RANK.expert
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export class ReviewerMatcher {
+  static readonly DEFAULT_CONFIG: ReviewerMatchingConfig = {
+    weights: {
+      skillOverlap: 0.3,
+      capacity: 0.2,
+      availability: 0.15,
+      reputation: 0.15,
+      fairness: 0.2
+    },
+    responseWindowHours: { high: 24, medium: 48, low: 72 },
+    acceptanceTimeoutHours: { high: 4, medium: 12, low: 24 },
+    rotationPeriodHours: WEEK_HOURS
+  };
+
+  /**
+   * Ranks the reviewers who can take the request, best match first
+   */
+  static rankReviewers(
+    request: PeerReviewRequest,
+    reviewers: ReviewerProfile[],
+    context: ReviewerMatchingContext = {},
+    config: Partial<ReviewerMatchingConfig> = {}
+  ): ReviewerMatch[] {
+    const finalConfig = { ...this.DEFAULT_CONFIG, ...config };
+    const now = context.now ?? new Date();
+    const excluded = new Set([request.requesterId, ...(context.excludedReviewers ?? [])]);
+    const openAssignments = (reviewer: ReviewerProfile) =>
+      context.openAssignments?.get(reviewer.userId) ?? reviewer.availability.currentLoad;
+
+    const eligible = reviewers.filter(reviewer =>
+      !excluded.has(reviewer.userId) &&
+      reviewer.availability.isAvailable &&
+      !ModerationQueue.isSuspended(reviewer.moderation, now) &&
+      openAssignments(reviewer) < this.capacityOf(reviewer) &&
+      REPUTATION_RANK[reviewer.reputation.level] >= MINIMUM_RANK[request.preferredReviewerLevel] &&
+      (request.isAnonymous || !reviewer.preferences.anonymousReviewsOnly) &&
+      request.skillsRequested.some(skill => (reviewer.skillLevels.get(skill) || 0) > 0)
+    );
+
+    // Reviews this month are compared within the pool so the busiest reviewers give way
+    const busiest = Math.max(0, ...eligible.map(reviewer => reviewer.reviewStats.reviewsThisMonth));
+    const responseWindow = finalConfig.responseWindowHours[request.urgency];
+
+    const matches = eligible.map(reviewer => {
+      const open = openAssignments(reviewer);
+      const hoursUntilAvailable = this.hoursUntilAvailable(reviewer, now);
+
+      const breakdown: ReviewerMatchBreakdown = {
+        skillOverlap: this.skillOverlap(request, reviewer),
+        capacity: 1 - open / this.capacityOf(reviewer),
+        availability: 1 - Math.min(hoursUntilAvailable, responseWindow) / responseWindow,
+        reputation: this.reputationScore(reviewer),
+        fairness: this.fairnessScore(reviewer, busiest, now, finalConfig.rotationPeriodHours)
+      };
+
+      const score = (Object.keys(breakdown) as (keyof ReviewerMatchBreakdown)[])
+        .reduce((sum, key) => sum + breakdown[key] * finalConfig.weights[key], 0);
+
+      return {
+        reviewer,
+        score: Math.round(score * 1000) / 1000,
+        breakdown,
+        openAssignments: open,
+        hoursUntilAvailable,
+        estimatedResponseTime: hoursUntilAvailable +
+          (reviewer.reviewStats.averageResponseTime || reviewer.availability.responseTimeCommitment)
+      };
+    });
+
+    return matches.sort((a, b) =>
+      b.score - a.score ||
+      a.openAssignments - b.openAssignments ||
+      a.reviewer.userId.localeCompare(b.reviewer.userId)
+    );
+  }
+
+  /**
+   * Whole hours from `now` until the reviewer's next time slot starts, in their time zone.
+   * Reviewers without time slots count as available at any time.
+   */
+  static hoursUntilAvailable(reviewer: ReviewerProfile, now: Date = new Date()): number {
+    const slots = reviewer.availability.availableHours;
+    if (slots.length === 0) return 0;
+
+    const clock = this.localClock(reviewer.availability.timeZone);
+    for (let hours = 0; hours < WEEK_HOURS; hours++) {
+      const { day, hour } = clock(new Date(now.getTime() + hours * HOUR_MS));
+      if (slots.some(slot => this.slotCovers(slot, day, hour))) {
+        return hours;
+      }
+    }
+    return WEEK_HOURS;
+  }
+
+  private static capacityOf(reviewer: ReviewerProfile): number {
+    return reviewer.preferences.maxReviewsPerWeek > 0
+      ? reviewer.preferences.maxReviewsPerWeek
+      : DEFAULT_CAPACITY;
+  }
+
+  private static skillOverlap(request: PeerReviewRequest, reviewer: ReviewerProfile): number {
+    if (request.skillsRequested.length === 0) return 0;
+
+    const required = REQUIRED_SKILL_LEVEL[request.skillLevel];
+    const total = request.skillsRequested.reduce(
+      (sum, skill) => sum + Math.min(1, (reviewer.skillLevels.get(skill) || 0) / required),
+      0
+    );
+    return total / request.skillsRequested.length;
+  }
+
+  // Leans on the calibrated reputation as far as its evidence allows, the profile stats otherwise
+  private static reputationScore(reviewer: ReviewerProfile): number {
+    const rank = REPUTATION_RANK[reviewer.reputation.level] / REPUTATION_RANK.master;
+    const rating = Math.min(reviewer.reviewStats.averageRating, 5) / 5;
+    const helpfulness = Math.min(reviewer.reviewStats.helpfulnessScore, 5) / 5;
+    const legacy = 0.4 * rank + 0.4 * rating + 0.2 * helpfulness;
+
+    const calibration = reviewer.reputation.calibration;
+    if (!calibration) return legacy;
+    return calibration.confidence * calibration.score + (1 - calibration.confidence) * legacy;
+  }
+
+  // Favours reviewers who were matched least recently and have done fewer reviews this month
+  private static fairnessScore(
+    reviewer: ReviewerProfile,
+    busiest: number,
+    now: Date,
+    rotationPeriodHours: number
+  ): number {
+    const lastMatchedAt = reviewer.availability.lastMatchedAt;
+    const rested = lastMatchedAt
+      ? Math.min(1, Math.max(0, now.getTime() - new Date(lastMatchedAt).getTime()) / (rotationPeriodHours * HOUR_MS))
+      : 1;
+    const share = busiest > 0 ? reviewer.reviewStats.reviewsThisMonth / busiest : 0;
+    return 0.5 * rested + 0.5 * (1 - share);
+  }
+
+  // Slots ending at or before their start hour run past midnight into the next day
+  private static slotCovers(slot: TimeSlot, day: number, hour: number): boolean {
+    if (slot.startHour < slot.endHour) {
+      return slot.dayOfWeek === day && hour >= slot.startHour && hour < slot.endHour;
+    }
+    return (slot.dayOfWeek === day && hour >= slot.startHour) ||
+      ((slot.dayOfWeek + 1) % 7 === day && hour < slot.endHour);
+  }
+
+  private static localClock(timeZone: string): (date: Date) => { day: number; hour: number } {
+    let format: Intl.DateTimeFormat;
+    try {
+      format = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: 'numeric', hourCycle: 'h23' });
+    } catch {
+      // Unknown time zones are treated as UTC
+      format = new Intl.DateTimeFormat('en-US', { timeZone: 'UTC', weekday: 'short', hour: 'numeric', hourCycle: 'h23' });
+    }
+
+    return (date: Date) => {
+      const parts = format.formatToParts(date);
+      const weekday = parts.find(part => part.type === 'weekday')?.value ?? 'Sun';
+      const hour = Number(parts.find(part => part.type === 'hour')?.value ?? 0);
+      return { day: WEEKDAYS.indexOf(weekday), hour };
+    };
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for newline-delimited AI response streams
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { AIEventStream, AIStreamAbortedError } from '../ai-event-stream';
+
+describe('AIEventStream', () => {
+  it('should deliver accumulated text and then the result', async () => {
+    const response = AIEventStream.toResponse(async onChunk => {
+      onChunk('Hello');
+      onChunk(', world');
+      return { aiResponse: 'Hello, world', analyticsSessionId: 'session-1' };
+    });
+    const onText = vi.fn();
+
+    const result = await AIEventStream.read(response, onText);
+
+    expect(onText.mock.calls.map(([text]) => text)).toEqual(['Hello', 'Hello, world']);
+    expect(result).toEqual({ aiResponse: 'Hello, world', analyticsSessionId: 'session-1' });
+  });
+
+  it('should surface flow errors to the reader', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const response = AIEventStream.toResponse(async onChunk => {
+      onChunk('partial');
+      throw new Error('model unavailable');
+    });
+
+    await expect(AIEventStream.read(response, () => {})).rejects.toThrow('model unavailable');
+    consoleError.mockRestore();
+  });
+
+  it('should abort the flow when the request signal aborts', async () => {
+    const request = new AbortController();
+    const reader = new AbortController();
+    let flowSignal: AbortSignal | undefined;
+
+    const response = AIEventStream.toResponse((onChunk, abortSignal) => {
+      flowSignal = abortSignal;
+      onChunk('Thinking');
+      return new Promise((_, reject) => {
+        abortSignal.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    }, request.signal);
+
+    const reading = AIEventStream.read(
+      response,
+      () => {
+        request.abort();
+        reader.abort();
+      },
+      reader.signal
+    );
+
+    await expect(reading).rejects.toBeInstanceOf(AIStreamAbortedError);
+    expect(flowSignal?.aborted).toBe(true);
+  });
+
+  it('should reject streams that end without a result', async () => {
+    const response = new Response('{"type":"chunk","text":"Hi"}\n');
+
+    await expect(AIEventStream.read(response, () => {})).rejects.toThrow('ended before the reply was complete');
+  });
+});
@@ -0,0 +1,129 @@
+// Newline-Delimited AI Response Streams
+
+export type AIStreamEvent<T> =
+  | { type: 'chunk'; text: string }
+  | { type: 'done'; result: T }
+  | { type: 'error'; message: string };
+
+export class AIStreamAbortedError extends Error {
+  constructor() {
+    super('The response stream was cancelled');
+    this.name = 'AIStreamAbortedError';
+  }
+}
+
+export const AI_STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8';
+
+export class AIEventStream {
+  /**
+   * Runs a streaming flow and writes its chunks, then its result, as one JSON event per line.
+   * Aborting `signal` (the client disconnecting or cancelling) aborts the flow.
+   */
+  static toResponse<T>(
+    run: (onChunk: (text: string) => void, abortSignal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Response {
+    const controller = new AbortController();
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(streamController) {
+        const send = (event: AIStreamEvent<T>) => {
+          if (controller.signal.aborted) return;
+          streamController.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        };
+
+        try {
+          const result = await run(text => send({ type: 'chunk', text }), controller.signal);
+          send({ type: 'done', result });
+        } catch (error) {
+          if (!controller.signal.aborted) {
+            console.error('AI stream error:', error);
+            send({ type: 'error', message: error instanceof Error ? error.message : 'Stream failed' });
+          }
+        }
+
+        try {
+          streamController.close();
+        } catch {
+          // Already cancelled by the reader
+        }
+      },
+      cancel() {
+        controller.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': AI_STREAM_CONTENT_TYPE,
+        'Cache-Control': 'no-cache, no-transform',
+      },
+    });
+  }
+
+  /**
+   * Reads a response written by `toResponse`, reporting the accumulated text after each chunk.
+   * Resolves with the final result; rejects if the stream errors or ends without one.
+   */
+  static async read<T>(
+    response: Response,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (!response.ok || !response.body) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(detail || `Stream request failed with status ${response.status}`);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    const cancel = () => reader.cancel().catch(() => undefined);
+    signal?.addEventListener('abort', cancel, { once: true });
+    let buffered = '';
+    let text = '';
+
+    const handleLine = (line: string): { result: T } | undefined => {
+      if (!line.trim()) return undefined;
+
+      const event = JSON.parse(line) as AIStreamEvent<T>;
+      switch (event.type) {
+        case 'chunk':
+          text += event.text;
+          onText(text);
+          return undefined;
+        case 'done':
+          return { result: event.result };
+        case 'error':
+          throw new Error(event.message);
+      }
+    };
+
+    try {
+      while (!signal?.aborted) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffered += value;
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+        for (const line of lines) {
+          const completed = handleLine(line);
+          if (completed) return completed.result;
+        }
+      }
+
+      const completed = handleLine(buffered);
+      if (completed) return completed.result;
+    } catch (error) {
+      if (signal?.aborted) throw new AIStreamAbortedError();
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+      await cancel();
+    }
+
+    if (signal?.aborted) throw new AIStreamAbortedError();
+    throw new Error('The response stream ended before the reply was complete');
+  }
+}
@@ -2,6 +2,13 @@ import '@testing-library/jest-dom';
 import { vi } from 'vitest';
 import React from 'react';
 
+// Run AI flows against the deterministic stub provider so tests never need network access
+process.env.AI_PROVIDER = process.env.AI_PROVIDER || 'stub';
+
+// Run code submissions without bubblewrap, which CI machines do not have; the sandbox
+// itself is covered by its own tests
+process.env.CODE_EXECUTION_SANDBOX = process.env.CODE_EXECUTION_SANDBOX || 'none';
+
 // Polyfill ResizeObserver for tests
 global.ResizeObserver = vi.fn().mockImplementation(() => ({
   observe: vi.fn(),
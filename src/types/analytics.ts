@@ -118,6 +118,27 @@ export interface TestCase {
   isHidden: boolean;
   weight: number;
   description?: string;
+  args?: unknown[]; // function-call style input, used instead of `input` when present
+  functionName?: string; // function invoked with `args` (defaults to 'solution')
+  comparison?: OutputComparison; // defaults to normalized comparison
+}
+
+export type OutputComparisonMode =
+  | 'exact'
+  | 'normalized'
+  | 'numeric'
+  | 'json'
+  | 'unordered'
+  | 'regex'
+  | 'custom';
+
+export interface OutputComparison {
+  mode: OutputComparisonMode;
+  caseSensitive?: boolean; // normalized mode
+  absoluteTolerance?: number; // numeric mode
+  relativeTolerance?: number; // numeric mode
+  regexFlags?: string; // regex mode, `expectedOutput` is the pattern
+  checker?: string; // custom mode, name of a registered checker
 }
 
 export interface Participant {
@@ -179,6 +200,9 @@ export interface EvaluationResult {
   passed: boolean;
   actualOutput?: string;
   executionTime?: number;
+  memoryUsed?: number; // peak resident memory in MB
+  stdout?: string;
+  stderr?: string;
   errorMessage?: string;
   score: number;
 }
@@ -271,6 +295,38 @@ export interface CodeMetrics {
   testCoverage?: number;
   performance?: number;
   security?: number;
+  cognitiveComplexity?: number;
+  maxNestingDepth?: number;
+  halstead?: HalsteadMetrics;
+  functions?: FunctionMetrics[];
+  // 'ast' when parsed with the TypeScript compiler, 'heuristic' for other languages
+  analysisEngine?: 'ast' | 'heuristic';
+}
+
+export interface HalsteadMetrics {
+  distinctOperators: number;
+  distinctOperands: number;
+  totalOperators: number;
+  totalOperands: number;
+  vocabulary: number;
+  length: number;
+  volume: number;
+  difficulty: number;
+  effort: number;
+  estimatedBugs: number;
+}
+
+export interface FunctionMetrics {
+  name: string;
+  startLine: number;
+  endLine: number;
+  linesOfCode: number;
+  parameterCount: number;
+  cyclomaticComplexity: number;
+  cognitiveComplexity: number;
+  maxNestingDepth: number;
+  halsteadVolume: number;
+  maintainability: number;
 }
 
 // Database collection interfaces for Firestore
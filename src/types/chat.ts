@@ -0,0 +1,76 @@
+// Mentor Chat Thread Types for Multi-turn Conversations
+
+export interface ChatTurn {
+  turnId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: Date;
+  analyticsSessionId?: string;
+}
+
+export interface ChatThread {
+  threadId: string;
+  userId: string;
+  title: string;
+
+  // Code the conversation started from
+  codeSnapshotId: string;
+  codeSnapshot: string;
+
+  turns: ChatTurn[];
+
+  // Rolling summary of turns that no longer fit the history window
+  summary?: string;
+  summarizedTurnCount: number;
+
+  forkedFrom?: {
+    threadId: string;
+    turnCount: number;
+  };
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ChatThreadSummary {
+  threadId: string;
+  title: string;
+  codeSnapshotId: string;
+  turnCount: number;
+  lastMessagePreview?: string;
+  forkedFrom?: ChatThread['forkedFrom'];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ConversationContext {
+  // Most recent turns that fit the token budget, oldest first
+  history: Array<Pick<ChatTurn, 'role' | 'content'>>;
+  summary?: string;
+  // Turns outside the window that the summary does not cover yet
+  unsummarizedTurns: ChatTurn[];
+  estimatedTokens: number;
+}
+
+// Firestore document types
+export interface ChatTurnDocument {
+  turnId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  analyticsSessionId?: string;
+}
+
+export interface ChatThreadDocument {
+  threadId: string;
+  userId: string;
+  title: string;
+  codeSnapshotId: string;
+  codeSnapshot: string;
+  turns: ChatTurnDocument[];
+  summary?: string;
+  summarizedTurnCount: number;
+  forkedFrom?: ChatThread['forkedFrom'];
+  createdAt: string;
+  updatedAt: string;
+}
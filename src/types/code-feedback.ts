@@ -0,0 +1,29 @@
+// Structured Code Feedback Types for Line-anchored Diagnostics
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCategory = 'bug' | 'style' | 'performance' | 'security';
+
+// 1-based lines and columns; the end column is exclusive
+export interface SourceRange {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface CodeDiagnostic {
+  id: string;
+  range: SourceRange;
+  severity: DiagnosticSeverity;
+  category: DiagnosticCategory;
+  message: string;
+  explanation: string;
+  // Replaces the text in `range` when the fix is applied
+  suggestedReplacement?: string;
+}
+
+export interface StructuredCodeFeedback {
+  feedback: string;
+  diagnostics: CodeDiagnostic[];
+}
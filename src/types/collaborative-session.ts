@@ -1,5 +1,7 @@
 // Collaborative Session Types for Real-time Coding
 
+import { ModerationStatus } from './moderation';
+
 export interface CollaborativeSession {
   sessionId: string;
   hostId: string;
@@ -112,6 +114,7 @@ export interface Operation {
   userId: string;
   timestamp: Date;
   applied: boolean;
+  version?: number; // shared document version this operation was committed at
 }
 
 export interface Position {
@@ -237,6 +240,8 @@ export interface SessionComment {
   // Reactions
   reactions: CommentReaction[];
   replies: SessionComment[];
+
+  moderationStatus?: ModerationStatus;
 }
 
 export interface CommentReaction {
@@ -282,6 +287,10 @@ export interface SessionRecording {
   finalCode: string;
   duration: number;
   
+  // Code snapshots replay seeks from; imported recordings keep the ones in their archive,
+  // other recordings have them rebuilt from the events
+  keyframes?: RecordingKeyframeSnapshot[];
+  
   // AI analysis of session
   keyMoments: KeyMoment[];
   learningOutcomes: string[];
@@ -298,6 +307,11 @@ export interface SessionRecording {
   requiresAuthentication: boolean;
 }
 
+export interface RecordingKeyframeSnapshot {
+  eventIndex: number; // index into the recording's events, ordered by timestamp
+  code: string; // the code after that event
+}
+
 export interface KeyMoment {
   momentId: string;
   timestamp: Date;
@@ -360,7 +374,7 @@ export interface CollaborativeSessionDocument {
   requiresApproval: boolean;
   skillLevel: 'beginner' | 'intermediate' | 'advanced' | 'mixed';
   focusAreas: string[];
-  sharedCode: SharedCodeState;
+  sharedCode: SharedCodeStateDocument;
   codeHistory: CodeHistoryEntry[];
   aiMentorEnabled: boolean;
   aiSuggestions: AISuggestion[];
@@ -377,6 +391,14 @@ export interface CollaborativeSessionDocument {
   whiteboardEnabled: boolean;
 }
 
+export interface SharedCodeStateDocument extends Omit<SharedCodeState, 'operations'> {
+  operations: OperationDocument[];
+}
+
+export interface OperationDocument extends Omit<Operation, 'timestamp'> {
+  timestamp: string;
+}
+
 export interface SessionInvitationDocument {
   invitationId: string;
   sessionId: string;
@@ -391,6 +413,14 @@ export interface SessionInvitationDocument {
   expiresAt: string;
 }
 
+// Session comments are stored flat, one document per comment; replies point at their parent with replyTo
+export interface SessionCommentDocument extends Omit<SessionComment, 'createdAt' | 'editedAt' | 'reactions' | 'replies'> {
+  sessionId: string;
+  createdAt: string;
+  editedAt?: string;
+  reactions: Array<Omit<CommentReaction, 'timestamp'> & { timestamp: string }>;
+}
+
 export interface SessionRecordingDocument {
   recordingId: string;
   sessionId: string;
@@ -399,6 +429,7 @@ export interface SessionRecordingDocument {
   events: TimestampedEvent[];
   finalCode: string;
   duration: number;
+  keyframes?: RecordingKeyframeSnapshot[];
   keyMoments: KeyMoment[];
   learningOutcomes: string[];
   skillsImproved: string[];
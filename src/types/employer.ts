@@ -8,7 +8,7 @@
  * - Blockchain verification for employer use
  */
 
-import { SkillLevel, UserProgress, LearningInsight, AnalyticsData } from './analytics';
+import { SkillLevel, UserProgress, LearningInsight, AnalyticsData, OutputComparison } from './analytics';
 import { BenchmarkComparison, MarketReadinessAssessment, JobOpportunity } from './benchmark';
 import { BadgeAward, LeaderboardEntry } from './gamification';
 
@@ -294,6 +294,9 @@ export interface TestCase {
   weight: number;
   description?: string;
   timeoutMs?: number;
+  args?: unknown[]; // function-call style input, used instead of `input` when present
+  functionName?: string;
+  comparison?: OutputComparison;
 }
 
 export interface EvaluationCriteria {
@@ -478,4 +481,3 @@ export interface AssessmentResultDocument {
   peerAverage: number;
   difficultyLevel: 'beginner' | 'intermediate' | 'advanced' | 'expert';
 }
-</content>
\ No newline at end of file
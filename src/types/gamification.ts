@@ -1,5 +1,7 @@
 // Gamification Data Models for Points and Badge System
 
+import { AIAnalysisResult, Challenge, ChallengeSubmission } from './analytics';
+
 export interface PointsCalculation {
   basePoints: number;
   qualityBonus: number;
@@ -70,6 +72,7 @@ export interface BadgeMetadata {
   evidenceHash?: string;
   issuerSignature?: string;
   validationCriteria: ValidationCriteria[];
+  definitionVersion?: number; // version of the badge definition the award was evaluated against
 }
 
 export interface ValidationCriteria {
@@ -146,6 +149,134 @@ export interface PointsConfig {
   };
 }
 
+// Points ledger: every change to a user's points is an immutable entry, and totals are projections of it
+export type PointsLedgerEntryType =
+  | 'award'
+  | 'bonus'
+  | 'streak'
+  | 'penalty'
+  | 'prize'
+  | 'reversal'
+  | 'adjustment';
+
+export type AnalysisScores = Pick<AIAnalysisResult, 'codeQuality' | 'efficiency' | 'creativity' | 'bestPractices'>;
+
+// What a calculated entry's points came from, kept so it can be recalculated under a new PointsConfig
+export type PointsCalculationInput =
+  | {
+      kind: 'code_submission';
+      analysis: AnalysisScores;
+      difficulty: 'beginner' | 'intermediate' | 'advanced' | 'expert';
+    }
+  | {
+      kind: 'challenge';
+      challenge: Pick<Challenge, 'difficulty' | 'timeLimit'>;
+      submission: Pick<ChallengeSubmission, 'totalScore'> & { passed?: boolean; aiAnalysis?: AnalysisScores };
+      completionTime?: number;
+    }
+  | { kind: 'peer_review'; reviewQuality: number; reviewLength: number; helpfulness: number; isFirstReview: boolean }
+  | {
+      kind: 'community';
+      contributionType: 'bug_report' | 'feature_suggestion' | 'content_creation' | 'mentorship' | 'moderation';
+      impact: 'low' | 'medium' | 'high';
+      communityVotes: number;
+      isAccepted: boolean;
+    }
+  | { kind: 'streak'; streakDays: number; streakType: 'daily_coding' | 'challenge_completion' | 'peer_review' }
+  | { kind: 'ide_activity'; activityKind: string };
+
+export interface PointsLedgerEntry {
+  entryId: string;
+  userId: string;
+  type: PointsLedgerEntryType;
+  points: number; // signed; penalties and reversals of awards are negative
+  breakdown: PointsBreakdown[];
+  description: string;
+  sourceIds: Record<string, string>; // e.g. challengeId, submissionId, reviewId, competitionId
+  skillIds: string[];
+  competitionId?: string;
+  input?: PointsCalculationInput;
+  relatedEntryId?: string; // entry a reversal or adjustment applies to
+  reason?: string;
+  actorId?: string; // moderator or admin behind a manual entry
+  createdAt: Date;
+}
+
+export interface PointsTotals {
+  userId: string;
+  total: number;
+  byType: Record<PointsLedgerEntryType, number>;
+  entryCount: number;
+  lastEntryAt?: Date;
+  updatedAt: Date;
+}
+
+// Badge definitions: versioned data whose rule is a small condition language
+export type BadgeActivityKind = 'code_submission' | 'challenge' | 'peer_review' | 'community' | 'streak' | 'ide_activity' | 'prize';
+
+// Points of the gamification flow at which a definition is checked for the user involved
+export type BadgeTrigger = 'code_analysis' | 'challenge_completion' | 'peer_review';
+
+export type BadgeRule =
+  | { all: BadgeRule[] }
+  | { any: BadgeRule[] }
+  | { not: BadgeRule }
+  | { skillLevel: { skillId?: string; min: number } } // no skillId means the user's highest skill
+  | { points: { min: number } }
+  | { codeQuality: { min: number } }
+  | { detectedSkills: { includes: string[] } }
+  | {
+      count: {
+        activity: BadgeActivityKind;
+        min: number;
+        withinDays?: number;
+        where?: Record<string, string | number | boolean>; // activity attributes that must match exactly
+      };
+    }
+  | { streak: { activity: BadgeActivityKind; days: number } } // consecutive UTC days with the activity
+  | {
+      challenge: {
+        passed?: boolean;
+        minScore?: number;
+        maxSeconds?: number;
+        maxTimeRatio?: number; // completion time as a fraction of the time limit
+        difficulty?: Challenge['difficulty'];
+      };
+    }
+  | { competition: { minEntered?: number; minPrizes?: number; competitionId?: string } }
+  | { peerReview: { minScore?: number; minHelpfulness?: number; minReviews?: number } };
+
+export interface BadgeDefinition {
+  badgeId: string;
+  name: string;
+  description?: string;
+  version: number;
+  status: 'draft' | 'active' | 'retired';
+  badgeType: BadgeType;
+  rarity: BadgeRarity['level'];
+  limitedEdition?: boolean;
+  evaluateOn?: BadgeTrigger[];
+  rule: BadgeRule;
+  createdAt: Date;
+  updatedAt: Date;
+  updatedBy: string;
+  changeNote?: string;
+}
+
+// What an admin submits; the ID, version and audit fields are assigned by the store
+export type BadgeDefinitionInput = Pick<BadgeDefinition, 'name' | 'badgeType' | 'rarity' | 'rule'> &
+  Partial<Pick<BadgeDefinition, 'description' | 'limitedEdition' | 'evaluateOn' | 'status'>>;
+
+// How a rule evaluated, node by node
+export interface BadgeRuleTrace {
+  criterion: string;
+  passed: boolean;
+  value?: number | string | boolean;
+  threshold?: number;
+  operator?: 'all' | 'any' | 'not';
+  children?: BadgeRuleTrace[];
+}
+
 // Badge rarity calculation
 export interface RarityCalculation {
   baseRarity: number;
@@ -204,6 +335,58 @@ export interface LeaderboardEntry {
   isAnonymized: boolean;
 }
 
+export type LeaderboardTimeframe = 'daily' | 'weekly' | 'monthly' | 'all_time';
+
+export type RankingScope =
+  | { type: 'global' }
+  | { type: 'skill'; skillId: string }
+  | { type: 'competition'; competitionId: string };
+
+// Denormalised display data written onto every ranking entry the user has
+export interface RankingProfile {
+  username: string;
+  displayName?: string;
+  skillLevels: Record<string, number>;
+  badgeCount: number;
+  rareBadgeCount: number;
+}
+
+export interface PointAward {
+  userId: string;
+  points: number; // negative for penalties and reversals
+  skillIds: string[];
+  competitionId?: string;
+  awardedAt: Date;
+  earnedAt?: Date; // period the points count toward, when it differs from awardedAt
+  profile?: RankingProfile;
+}
+
+// A user's running total on one board: a scope (global, skill or competition) within one timeframe period
+export interface RankingEntry extends RankingProfile {
+  boardId: string;
+  scopeKey: string;
+  timeframe: LeaderboardTimeframe;
+  periodKey: string;
+  userId: string;
+  points: number;
+  awardCount: number;
+  openingPeriod: string; // day the opening points were captured
+  openingPoints: number; // points at the start of openingPeriod, for day-over-day all-time ranks
+  previousRank?: number;
+  rankSnapshotPeriod?: string; // period previousRank was computed for
+  firstAwardAt: Date;
+  lastActivity: Date;
+}
+
+export interface RankedEntry extends RankingEntry {
+  rank: number;
+}
+
+export interface RankingPage {
+  entries: RankedEntry[];
+  nextCursor?: string;
+}
+
 export interface Competition {
   competitionId: string;
   title: string;
@@ -223,6 +406,8 @@ export interface Competition {
   createdBy: string;
   sponsoredBy?: string;
   metadata: CompetitionMetadata;
+  challengeIds?: string[]; // Judged challenges; competitions with challenges are scored from the judging queue
+  scoreboardFreezeMinutes?: number; // Final minutes in which the public scoreboard stops updating
 }
 
 export interface CompetitionPrize {
@@ -241,18 +426,25 @@ export interface CompetitionRule {
   category: 'eligibility' | 'scoring' | 'conduct' | 'submission';
   isRequired: boolean;
   penalty?: string;
+  scoring?: CompetitionScoring; // How a scoring rule is applied to judged submissions
 }
 
+export type CompetitionScoring =
+  | { type: 'penalty_time'; minutesPerRejection: number }
+  | { type: 'submission_policy'; policy: 'best' | 'last' }
+  | { type: 'partial_credit'; enabled: boolean };
+
 export interface CompetitionParticipant {
   userId: string;
   username: string;
   registeredAt: Date;
   currentScore: number;
-  currentRank: number;
+  currentRank: number; // within the participant's bracket in seasonal competitions
   submissionsCount: number;
   lastSubmissionAt?: Date;
   qualificationStatus: 'qualified' | 'disqualified' | 'pending';
   achievements: string[]; // Achievement IDs earned during competition
+  bracketId?: string; // Seasonal competitions: the tier division or skill division competed in
 }
 
 export interface CompetitionMetadata {
@@ -265,6 +457,122 @@ export interface CompetitionMetadata {
   estimatedDuration: number; // in minutes
 }
 
+// Contest judging: submissions are queued, judged by the challenge evaluator and scored on a live scoreboard
+export interface ContestVerdict {
+  accepted: boolean;
+  score: number; // 0-100 from the evaluator
+  testsPassed: number;
+  testsTotal: number;
+  feedback: string[];
+  judgedAt: Date;
+}
+
+export interface ContestSubmission {
+  submissionId: string;
+  competitionId: string;
+  userId: string;
+  username: string;
+  challengeId: string;
+  code: string;
+  language: string;
+  status: 'queued' | 'judging' | 'judged' | 'failed';
+  submittedAt: Date;
+  judgingStartedAt?: Date;
+  verdict?: ContestVerdict;
+  error?: string; // why judging failed
+}
+
+export interface ContestProblemResult {
+  challengeId: string;
+  attempts: number; // judged attempts shown on the scoreboard
+  pendingAttempts: number; // queued, or submitted during the freeze and hidden until the reveal
+  points: number;
+  solved: boolean;
+  solvedAtMinute?: number; // minutes from the start to the scoring attempt
+  penaltyMinutes: number;
+}
+
+export interface ContestScoreboardRow {
+  userId: string;
+  username: string;
+  rank: number;
+  totalPoints: number;
+  penaltyMinutes: number;
+  solvedCount: number;
+  lastImprovementAt?: Date;
+  problems: ContestProblemResult[];
+}
+
+export interface ContestScoreboard {
+  competitionId: string;
+  rows: ContestScoreboardRow[];
+  frozen: boolean;
+  frozenAt?: Date; // submissions from this time on are hidden
+  updatedAt: Date;
+}
+
+export interface ContestRevealStep {
+  userId: string;
+  username: string;
+  frozenRank: number;
+  finalRank: number;
+  pointsGained: number;
+}
+
+// Seasons: a seasonal competition places entrants in brackets and moves them between tiers when it ends
+export type SeasonTier = 'bronze' | 'silver' | 'gold' | 'platinum' | 'diamond';
+
+export interface SeasonSettings {
+  bracketing: 'tier' | 'skill'; // divisions within each tier, or skill-matched divisions across tiers
+  divisionSize: number;
+  promotionSlots: number; // top finishers of each bracket who move up a tier
+  relegationSlots: number; // bottom finishers of each bracket who move down a tier
+}
+
+export interface SeasonBracket {
+  bracketId: string; // e.g. gold-2, or skill-3 for skill-matched divisions
+  tier?: SeasonTier; // tier bracketing only
+  division: number;
+  entrants: number;
+  ratingTotal: number;
+}
+
+export interface Season extends SeasonSettings {
+  seasonId: string; // the seasonal competition's ID
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  brackets: SeasonBracket[];
+  status: 'active' | 'completed';
+  completedAt?: Date;
+}
+
+export interface SeasonStanding {
+  seasonId: string;
+  userId: string;
+  username: string;
+  tier: SeasonTier;
+  bracketId: string;
+  skillRating: number;
+  placedAt: Date;
+}
+
+export interface SeasonResult {
+  seasonId: string;
+  seasonName: string;
+  userId: string;
+  username: string;
+  bracketId: string;
+  tier: SeasonTier;
+  nextTier: SeasonTier;
+  movement: 'promoted' | 'relegated' | 'stayed';
+  rank: number; // within the bracket
+  bracketSize: number;
+  score: number;
+  badgeNames: string[];
+  endedAt: Date;
+}
+
 // Database document interfaces for Firestore
 export interface BadgeAwardDocument {
   badgeId: string;
@@ -292,23 +600,86 @@ export interface AchievementProgressDocument {
   lastUpdated: string; // ISO string
 }
 
-export interface CompetitionDocument {
-  competitionId: string;
-  title: string;
-  description: string;
-  type: 'daily' | 'weekly' | 'monthly' | 'special' | 'seasonal';
-  category: 'skill_based' | 'challenge_based' | 'community_based' | 'innovation';
+export interface CompetitionDocument extends Omit<Competition, 'startDate' | 'endDate' | 'registrationDeadline' | 'participants' | 'leaderboard'> {
   startDate: string; // ISO string
   endDate: string; // ISO string
   registrationDeadline?: string; // ISO string
-  maxParticipants?: number;
-  entryFee?: number;
-  prizes: CompetitionPrize[];
-  rules: CompetitionRule[];
-  participants: CompetitionParticipant[];
-  leaderboard: LeaderboardEntry[];
-  status: 'upcoming' | 'registration_open' | 'active' | 'completed' | 'cancelled';
-  createdBy: string;
-  sponsoredBy?: string;
-  metadata: CompetitionMetadata;
-}
\ No newline at end of file
+  participants: Array<Omit<CompetitionParticipant, 'registeredAt' | 'lastSubmissionAt'> & {
+    registeredAt: string;
+    lastSubmissionAt?: string;
+  }>;
+  leaderboard: Array<Omit<LeaderboardEntry, 'lastActivity'> & { lastActivity: string }>;
+}
+
+export interface RankingEntryDocument extends RankingProfile {
+  boardId: string;
+  scopeKey: string;
+  timeframe: LeaderboardTimeframe;
+  periodKey: string;
+  userId: string;
+  points: number;
+  awardCount: number;
+  openingPeriod: string;
+  openingPoints: number;
+  previousRank?: number;
+  rankSnapshotPeriod?: string;
+  firstAwardAt: string; // ISO string
+  lastActivity: string; // ISO string
+}
+
+export interface PointsLedgerEntryDocument extends Omit<PointsLedgerEntry, 'createdAt'> {
+  createdAt: string; // ISO string
+}
+
+export interface PointsTotalsDocument extends Omit<PointsTotals, 'lastEntryAt' | 'updatedAt'> {
+  lastEntryAt?: string; // ISO string
+  updatedAt: string; // ISO string
+}
+
+export interface BadgeDefinitionDocument extends Omit<BadgeDefinition, 'createdAt' | 'updatedAt'> {
+  createdAt: string; // ISO string
+  updatedAt: string; // ISO string
+}
+
+// A badge a user holds; each definition awards a user its badge at most once
+export interface HeldBadgeDocument {
+  userId: string;
+  badgeId: string; // the definition's ID
+  badgeName: string;
+  definitionVersion: number;
+  awardedAt: string; // ISO string
+}
+
+export interface SeasonDocument extends Omit<Season, 'startDate' | 'endDate' | 'completedAt'> {
+  startDate: string; // ISO string
+  endDate: string; // ISO string
+  completedAt?: string; // ISO string
+}
+
+export interface SeasonStandingDocument extends Omit<SeasonStanding, 'placedAt'> {
+  placedAt: string; // ISO string
+}
+
+export interface SeasonResultDocument extends Omit<SeasonResult, 'endedAt'> {
+  endedAt: string; // ISO string
+}
+
+// A season badge, stored with its holder; one per season, badge and holder
+export interface SeasonBadgeDocument extends Omit<SpecialBadge, 'awardedAt' | 'expirationDate'> {
+  seasonId: string;
+  userId: string;
+  awardedAt: string; // ISO string
+  expirationDate?: string; // ISO string
+}
+
+export interface ContestSubmissionDocument extends Omit<ContestSubmission, 'submittedAt' | 'judgingStartedAt' | 'verdict'> {
+  submittedAt: string; // ISO string
+  judgingStartedAt?: string; // ISO string
+  verdict?: Omit<ContestVerdict, 'judgedAt'> & { judgedAt: string };
+}
+
+export interface ContestScoreboardDocument extends Omit<ContestScoreboard, 'rows' | 'frozenAt' | 'updatedAt'> {
+  rows: Array<Omit<ContestScoreboardRow, 'lastImprovementAt'> & { lastImprovementAt?: string }>;
+  frozenAt?: string; // ISO string
+  updatedAt: string; // ISO string
+}
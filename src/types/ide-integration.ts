@@ -0,0 +1,111 @@
+// IDE Integration Types: Plugin API Keys, Document Sync and Realtime Feedback
+
+import type { Timestamp } from 'firebase/firestore';
+import type { PluginScope } from '@/lib/ide-integration/auth-utils';
+import type { CodeDiagnostic, SourceRange } from './code-feedback';
+
+export type IdeApiKeyStatus = 'active' | 'rotating' | 'expired' | 'revoked';
+
+export interface IdeApiKey {
+  keyId: string;
+  userId: string;
+  pluginName: string;
+  pluginVersion: string;
+  // Last characters of the key so users can tell their keys apart
+  keyPreview: string;
+  permissions: PluginScope[];
+  isActive: boolean;
+  createdAt: Date;
+  lastUsed: Date | null;
+  expiresAt: Date | null;
+  revokedAt?: Date;
+
+  // Set when the key is rotated; it keeps working until the grace period ends
+  rotatedTo?: string;
+  graceExpiresAt?: Date;
+}
+
+export interface IssuedIdeApiKey {
+  // Only returned once, when the key is created
+  apiKey: string;
+  key: IdeApiKey;
+}
+
+// Firestore document types
+export interface IdeApiKeyDocument {
+  keyId: string;
+  userId: string;
+  hashedKey: string;
+  pluginName: string;
+  pluginVersion: string;
+  keyPreview: string;
+  permissions: PluginScope[];
+  isActive: boolean;
+  createdAt: string;
+  lastUsed: string | null;
+  expiresAt: string | null;
+  revokedAt?: string;
+  rotatedTo?: string;
+  graceExpiresAt?: string;
+}
+
+// Document sync types
+
+// Replaces the text in `range` of the document as left by the previous edit
+export interface TextEdit {
+  range: SourceRange;
+  text: string;
+}
+
+// 1-based, inclusive
+export interface LineSpan {
+  startLine: number;
+  endLine: number;
+}
+
+export interface DocumentAnalysisResult {
+  uri: string;
+  version: number;
+  // Regions that were re-analyzed; diagnostics inside them replace earlier ones
+  ranges: SourceRange[];
+  diagnostics: CodeDiagnostic[];
+}
+
+// Progress pushed to the user's plugins after a recorded save
+export interface SkillUpdateFeedback {
+  skillId: string;
+  previousLevel: number;
+  newLevel: number;
+  improvementType: 'level_up' | 'experience_gain' | 'competency_unlock';
+  evidence: string[];
+  sessionId: string;
+}
+
+export interface BadgeEarnedFeedback {
+  badgeId: string;
+  name: string;
+  description: string;
+  rarity: string;
+  awardedAt: string; // ISO string
+  sessionId: string;
+}
+
+// A realtime feedback event as plugins receive it
+export type PluginFeedbackEvent = { userId: string; timestamp: string } & (
+  | { type: 'skill_update'; data: SkillUpdateFeedback }
+  | { type: 'badge_earned'; data: BadgeEarnedFeedback }
+  | { type: 'code_analysis' | 'suggestion'; data: unknown }
+);
+
+// Keys issued before hashing moved to IdeApiKeyDocument; stored under apiKey.substring(0, 16)
+export interface LegacyIdeApiKeyDocument {
+  userId: string;
+  hashedKey: string;
+  pluginName: string;
+  pluginVersion: string;
+  permissions: PluginScope[];
+  isActive: boolean;
+  createdAt: Timestamp | Date;
+  lastUsed: Timestamp | Date | null;
+  revokedAt?: Timestamp | Date;
+}
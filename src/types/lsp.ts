@@ -0,0 +1,96 @@
+// Language Server Protocol Types used by the KiroVerse LSP bridge
+//
+// Only the parts of the protocol the bridge speaks. Positions are 0-based and
+// characters count UTF-16 code units, like JavaScript string indexes.
+
+export interface LspPosition {
+  line: number;
+  character: number;
+}
+
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+export const LspDiagnosticSeverity = {
+  Error: 1,
+  Warning: 2,
+  Information: 3,
+  Hint: 4,
+} as const;
+
+export interface LspDiagnostic {
+  range: LspRange;
+  severity: number;
+  code?: string;
+  source: string;
+  message: string;
+  // Kiro diagnostic id, for matching code actions back to the diagnostic
+  data?: { id: string };
+}
+
+export interface LspTextEdit {
+  range: LspRange;
+  newText: string;
+}
+
+export interface LspCodeAction {
+  title: string;
+  kind: 'quickfix';
+  diagnostics: LspDiagnostic[];
+  isPreferred?: boolean;
+  edit: { changes: Record<string, LspTextEdit[]> };
+}
+
+export interface LspHover {
+  contents: { kind: 'markdown'; value: string };
+  range?: LspRange;
+}
+
+export interface TextDocumentItem {
+  uri: string;
+  languageId: string;
+  version: number;
+  text: string;
+}
+
+// Without a range the change replaces the whole document
+export interface TextDocumentContentChangeEvent {
+  range?: LspRange;
+  text: string;
+}
+
+// Arguments of the kiroverse.askKiro command; without a range the whole document is reviewed
+export interface AskKiroArguments {
+  uri?: string;
+  range?: LspRange;
+}
+
+export interface KiroLspInitializationOptions {
+  apiKey?: string;
+  userId?: string;
+  baseUrl?: string;
+  realtimeUrl?: string;
+}
+
+// JSON-RPC 2.0 messages, as framed by the LSP base protocol
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: any;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: any;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
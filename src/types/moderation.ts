@@ -0,0 +1,135 @@
+// Moderation Types for community content
+
+export type ModerationStatus = 'visible' | 'hidden';
+
+export type ModeratedContentType = 'peer_review' | 'review_thread' | 'session_comment' | 'community_contribution';
+
+export type ReportReason =
+  | 'spam'
+  | 'harassment'
+  | 'hate_speech'
+  | 'inappropriate'
+  | 'plagiarism'
+  | 'other';
+
+export type ModerationAction = 'hide' | 'restore' | 'warn' | 'suspend' | 'dismiss';
+
+// Who created a piece of content and where it lives
+export interface ContentReference {
+  type: ModeratedContentType;
+  contentId: string;
+  authorId: string;
+  parentId?: string; // sessionId for session comments, reviewId for review threads
+}
+
+export interface ContentReport {
+  reporterId: string; // AI_SCREENING_REPORTER for automatic reports
+  reason: ReportReason;
+  details?: string;
+  createdAt: Date;
+}
+
+export interface ToxicityScreening {
+  toxicity: number; // 0-1
+  categories: string[];
+  explanation: string;
+  screenedAt: Date;
+}
+
+export interface ModerationCase {
+  caseId: string;
+  content: ContentReference;
+  excerpt: string;
+  status: 'open' | 'resolved';
+  contentStatus: ModerationStatus;
+  reports: ContentReport[];
+  screening?: ToxicityScreening;
+  // Hidden before a moderator looked at it, by screening or report volume
+  autoHidden: boolean;
+  resolution?: ModerationResolution;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ModerationResolution {
+  action: ModerationAction;
+  moderatorId: string;
+  note?: string;
+  resolvedAt: Date;
+}
+
+// Append-only record of every moderation decision, automatic or manual
+export interface ModerationAuditEntry {
+  entryId: string;
+  caseId: string;
+  action: ModerationAction | 'report' | 'auto_hide';
+  actorId: string;
+  targetUserId: string;
+  note?: string;
+  suspensionDays?: number;
+  createdAt: Date;
+}
+
+// Moderation history kept on the author's reviewer profile
+export interface ReviewerModerationRecord {
+  warnings: number;
+  suspendedUntil?: string; // ISO date
+  lastActionAt: string; // ISO date
+}
+
+export interface ModerationConfig {
+  // Screening toxicity at which content is queued for a moderator
+  flagThreshold: number;
+  // Screening toxicity at which content is hidden until a moderator reviews it
+  autoHideThreshold: number;
+  // Distinct reporters at which content is hidden until a moderator reviews it
+  autoHideReportCount: number;
+  defaultSuspensionDays: number;
+  // Queue priority added per report reason
+  reasonSeverity: Record<ReportReason, number>;
+}
+
+// Firestore document types
+export interface ContentReportDocument {
+  reporterId: string;
+  reason: ReportReason;
+  details?: string;
+  createdAt: string;
+}
+
+export interface ToxicityScreeningDocument {
+  toxicity: number;
+  categories: string[];
+  explanation: string;
+  screenedAt: string;
+}
+
+export interface ModerationCaseDocument {
+  caseId: string;
+  content: ContentReference;
+  excerpt: string;
+  status: 'open' | 'resolved';
+  contentStatus: ModerationStatus;
+  reports: ContentReportDocument[];
+  screening?: ToxicityScreeningDocument;
+  autoHidden: boolean;
+  resolution?: {
+    action: ModerationAction;
+    moderatorId: string;
+    note?: string;
+    resolvedAt: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ModerationAuditEntryDocument {
+  entryId: string;
+  caseId: string;
+  action: ModerationAuditEntry['action'];
+  actorId: string;
+  targetUserId: string;
+  note?: string;
+  suspensionDays?: number;
+  createdAt: string;
+}
@@ -1,5 +1,7 @@
 // Peer Review System Types for Advanced Learning Analytics
 
+import { ModerationStatus, ReviewerModerationRecord } from './moderation';
+
 export interface PeerReview {
   reviewId: string;
   reviewerId: string;
@@ -7,7 +9,7 @@ export interface PeerReview {
   codeSubmissionId: string;
   sessionId?: string;
   type: 'code_review' | 'mentorship' | 'collaboration';
-  status: 'pending' | 'in_progress' | 'completed' | 'declined';
+  status: 'pending' | 'in_progress' | 'completed' | 'revision_submitted' | 'declined';
   
   // Review content
   overallRating: number; // 1-5 scale
@@ -24,6 +26,82 @@ export interface PeerReview {
   // AI integration
   aiEnhancedFeedback?: AIEnhancedFeedback;
   combinedInsights?: CombinedInsight[];
+
+  // Inline threads are anchored to this copy of the submitted code
+  reviewedCode?: ReviewedCode;
+  patchedCode?: string; // reviewedCode with every accepted suggestion applied
+
+  // Revisions the reviewee submitted after the first review; round 1 is the review itself
+  rounds?: ReviewRound[];
+
+  // Quality signals used to calibrate the reviewer's reputation
+  helpfulness?: ReviewHelpfulness;
+  aiQualityScore?: number; // 0-1, from AIIntegrationService.analyzePeerFeedbackQuality
+
+  // Hidden reviews are left out of reputation and points
+  moderationStatus?: ModerationStatus;
+}
+
+export interface ReviewHelpfulness {
+  rating: number; // 1-5, given by the reviewee
+  comment?: string;
+  ratedAt: Date;
+}
+
+export interface ReviewRound {
+  roundNumber: number;
+  revision: ReviewedCode;
+  revisionNote: string;
+  submittedAt: Date;
+  status: 'awaiting_review' | 'reviewed';
+  // The reviewer's earlier suggestions that were still open when the revision came in
+  suggestionChecks: SuggestionCheck[];
+  comments?: string;
+  reviewedAt?: Date;
+}
+
+export interface SuggestionCheck {
+  suggestionId: string;
+  status: 'pending' | 'addressed' | 'not_addressed';
+  note?: string;
+}
+
+export interface ReviewedCode {
+  code: string;
+  language: string;
+}
+
+export interface ThreadAnchor {
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+}
+
+export interface ReviewThread {
+  threadId: string;
+  reviewId: string;
+  anchor: ThreadAnchor;
+  status: 'open' | 'resolved';
+  comments: ReviewComment[];
+  // Replaces the anchored lines when the reviewee accepts it
+  suggestion?: ThreadSuggestion;
+  createdAt: Date;
+  updatedAt: Date;
+  resolvedAt?: Date;
+  resolvedBy?: string;
+  moderationStatus?: ModerationStatus;
+}
+
+export interface ReviewComment {
+  commentId: string;
+  authorId: string;
+  body: string;
+  createdAt: Date;
+}
+
+export interface ThreadSuggestion {
+  replacement: string;
+  status: 'pending' | 'accepted';
+  acceptedAt?: Date;
 }
 
 export interface PeerFeedback {
@@ -61,6 +139,7 @@ export interface CodeSuggestion {
   priority: 'low' | 'medium' | 'high';
   isAccepted?: boolean;
   reviewerNote?: string;
+  round?: number; // the review round it was made in, 1 when unset
 }
 
 export interface AIEnhancedFeedback {
@@ -113,6 +192,14 @@ export interface PeerReviewRequest {
   expiresAt: Date;
   assignedReviewers: string[];
   completedReviews: string[];
+  assignments?: ReviewAssignment[];
+}
+
+export interface ReviewAssignment {
+  reviewerId: string;
+  status: 'pending' | 'accepted' | 'declined' | 'expired';
+  assignedAt: Date;
+  respondedAt?: Date;
 }
 
 export interface ReviewerProfile {
@@ -123,6 +210,7 @@ export interface ReviewerProfile {
   preferences: ReviewerPreferences;
   availability: ReviewerAvailability;
   reputation: ReviewerReputation;
+  moderation?: ReviewerModerationRecord;
 }
 
 export interface ReviewerStats {
@@ -132,6 +220,10 @@ export interface ReviewerStats {
   specialties: string[];
   reviewsThisMonth: number;
   helpfulnessScore: number; // Based on reviewee feedback
+  // Follow-up rounds on revisions, and how many earlier suggestions they found addressed
+  followUpRoundsCompleted?: number;
+  suggestionsFollowedUp?: number;
+  suggestionsAddressed?: number;
 }
 
 export interface ReviewerPreferences {
@@ -149,6 +241,7 @@ export interface ReviewerAvailability {
   availableHours: TimeSlot[];
   responseTimeCommitment: number; // in hours
   currentLoad: number; // number of active reviews
+  lastMatchedAt?: string; // ISO date of the last assignment, used to rotate opportunities
 }
 
 export interface TimeSlot {
@@ -163,6 +256,38 @@ export interface ReviewerReputation {
   badges: ReviewerBadge[];
   endorsements: Endorsement[];
   communityRank?: number;
+  calibration?: ReputationCalibration;
+}
+
+export interface ReputationCalibration {
+  score: number; // 0-1 posterior mean of review quality, after flag penalties
+  lowerBound: number; // conservative estimate the reputation level is based on
+  confidence: number; // 0-1, how much evidence backs the score
+  evidenceCount: number;
+  flags: ReviewerFlag[];
+  calibratedAt: string; // ISO date
+}
+
+export interface ReviewerFlag {
+  type: 'rating_inflation' | 'duplicate_comments' | 'low_alignment';
+  detail: string;
+}
+
+export interface ReputationCalibrationConfig {
+  // Beta prior: reviewers start at priorMean, worth priorStrength reviews of evidence
+  priorMean: number;
+  priorStrength: number;
+  signalWeights: {
+    helpfulness: number;
+    aiAlignment: number;
+    aiQuality: number;
+    depth: number;
+  };
+  // Reviews nobody rated count for less, and older reviews fade
+  unratedReviewWeight: number;
+  halfLifeDays: number;
+  flagPenalty: number;
+  minReviewsForFlags: number;
 }
 
 export interface ReviewerBadge {
@@ -194,6 +319,8 @@ export interface CommunityContribution {
   impact: CommunityImpact;
   recognition: ContributionRecognition;
   createdAt: Date;
+  sourceId?: string; // the review a contribution was earned for
+  moderationStatus?: ModerationStatus;
 }
 
 export interface CommunityImpact {
@@ -248,7 +375,7 @@ export interface PeerReviewDocument {
   codeSubmissionId: string;
   sessionId?: string;
   type: 'code_review' | 'mentorship' | 'collaboration';
-  status: 'pending' | 'in_progress' | 'completed' | 'declined';
+  status: 'pending' | 'in_progress' | 'completed' | 'revision_submitted' | 'declined';
   overallRating: number;
   feedback: PeerFeedback;
   suggestions: CodeSuggestion[];
@@ -259,6 +386,56 @@ export interface PeerReviewDocument {
   visibility: 'public' | 'private' | 'community';
   aiEnhancedFeedback?: AIEnhancedFeedback;
   combinedInsights?: CombinedInsight[];
+  reviewedCode?: ReviewedCode;
+  patchedCode?: string;
+  rounds?: ReviewRoundDocument[];
+  helpfulness?: ReviewHelpfulnessDocument;
+  aiQualityScore?: number;
+  moderationStatus?: ModerationStatus;
+}
+
+export interface ReviewHelpfulnessDocument {
+  rating: number;
+  comment?: string;
+  ratedAt: string;
+}
+
+export interface ReviewRoundDocument {
+  roundNumber: number;
+  revision: ReviewedCode;
+  revisionNote: string;
+  submittedAt: string;
+  status: 'awaiting_review' | 'reviewed';
+  suggestionChecks: SuggestionCheck[];
+  comments?: string;
+  reviewedAt?: string;
+}
+
+export interface ReviewThreadDocument {
+  threadId: string;
+  reviewId: string;
+  anchor: ThreadAnchor;
+  status: 'open' | 'resolved';
+  comments: ReviewCommentDocument[];
+  suggestion?: ThreadSuggestionDocument;
+  createdAt: string;
+  updatedAt: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  moderationStatus?: ModerationStatus;
+}
+
+export interface ReviewCommentDocument {
+  commentId: string;
+  authorId: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface ThreadSuggestionDocument {
+  replacement: string;
+  status: 'pending' | 'accepted';
+  acceptedAt?: string;
 }
 
 export interface PeerReviewRequestDocument {
@@ -279,6 +456,14 @@ export interface PeerReviewRequestDocument {
   expiresAt: string;
   assignedReviewers: string[];
   completedReviews: string[];
+  assignments?: ReviewAssignmentDocument[];
+}
+
+export interface ReviewAssignmentDocument {
+  reviewerId: string;
+  status: 'pending' | 'accepted' | 'declined' | 'expired';
+  assignedAt: string;
+  respondedAt?: string;
 }
 
 export interface ReviewerProfileDocument {
@@ -289,6 +474,7 @@ export interface ReviewerProfileDocument {
   preferences: ReviewerPreferences;
   availability: ReviewerAvailability;
   reputation: ReviewerReputation;
+  moderation?: ReviewerModerationRecord;
 }
 
 export interface CommunityContributionDocument {
@@ -300,6 +486,8 @@ export interface CommunityContributionDocument {
   impact: CommunityImpact;
   recognition: ContributionRecognition;
   createdAt: string;
+  sourceId?: string;
+  moderationStatus?: ModerationStatus;
 }
 
 export interface PeerReviewSettingsDocument {
@@ -327,6 +515,41 @@ export interface PeerReviewMatchResult {
   matchingScore: number;
   estimatedResponseTime: number;
   recommendedReviewers: ReviewerProfile[];
+  matches?: ReviewerMatch[];
+}
+
+// Reviewer matching
+export interface ReviewerMatch {
+  reviewer: ReviewerProfile;
+  score: number; // 0-1
+  breakdown: ReviewerMatchBreakdown;
+  openAssignments: number;
+  hoursUntilAvailable: number;
+  estimatedResponseTime: number; // in hours
+}
+
+export interface ReviewerMatchBreakdown {
+  skillOverlap: number; // each 0-1
+  capacity: number;
+  availability: number;
+  reputation: number;
+  fairness: number;
+}
+
+export interface ReviewerMatchingConfig {
+  weights: ReviewerMatchBreakdown;
+  // How soon a reviewer must be reachable, by request urgency
+  responseWindowHours: Record<PeerReviewRequest['urgency'], number>;
+  // Pending assignments not accepted within this many hours go to someone else
+  acceptanceTimeoutHours: Record<PeerReviewRequest['urgency'], number>;
+  // Hours since the last assignment after which a reviewer counts as fully rested
+  rotationPeriodHours: number;
+}
+
+export interface ReassignmentResult {
+  requestId: string;
+  expiredReviewers: string[];
+  newReviewers: string[];
 }
 
 export interface ReviewAnalytics {